@@ -0,0 +1,24 @@
+/**
+ * Production entry point.
+ * Serves the adapter-node build and hands WebSocket upgrades under /api to the
+ * routes registered in src/lib/services/websocket (published by hooks.server.ts).
+ */
+
+import http from 'node:http';
+import { handler } from './build/handler.js';
+
+const host = process.env.HOST || '0.0.0.0';
+const port = Number(process.env.PORT || 3000);
+
+const server = http.createServer(handler);
+
+server.on('upgrade', async (request, socket, head) => {
+	const upgrade = globalThis[Symbol.for('aura.socket-upgrade')];
+	if (!request.url?.startsWith('/api/') || !upgrade || !(await upgrade(request, socket, head))) {
+		socket.destroy();
+	}
+});
+
+server.listen(port, host, () => {
+	console.log(`Listening on http://${host}:${port}`);
+});
@@ -1,6 +1,9 @@
 import { building } from '$app/environment';
 import { auth } from '$lib/auth.js';
+import { isTemplateConfigured } from '$lib/config/template.config';
 import { initializeMCP } from '$lib/services/mcp/mcp-init.service';
+import { templateCacheService } from '$lib/services/template-cache.service';
+import { installSocketServer } from '$lib/services/websocket';
 import { svelteKitHandler } from 'better-auth/svelte-kit';
 
 // Initialize MCP on server startup (only once)
@@ -9,6 +12,17 @@ if (!building && !mcpInitPromise) {
 	mcpInitPromise = initializeMCP().catch(console.error);
 }
 
+// Download popular templates into the template cache in the background
+if (!building && isTemplateConfigured()) {
+	templateCacheService.prewarm().catch(console.error);
+}
+
+// Publish WebSocket routes (language servers, debugger, collaboration, terminals) to the
+// HTTP server's upgrade listener
+if (!building) {
+	installSocketServer();
+}
+
 export async function handle({ event, resolve }) {
 	// Fetch current session from Better Auth
 	const session = await auth.api.getSession({
@@ -1,5 +1,10 @@
 import { env } from '$env/dynamic/private';
+import { codeIndexConfig } from '$lib/config/code-index.config';
+import { sandboxWorkspaceDir } from '$lib/config/sandbox.config';
+import { codeIndexService } from '$lib/services/code-index';
+import { debugSessionManager, describeDebugState } from '$lib/services/debug/debug-session';
 import { sandboxManager } from '$lib/services/sandbox/sandbox-manager';
+import type { SandboxProvider } from '$lib/types/sandbox';
 import { logger } from '$lib/utils/logger.js';
 import { tavily } from '@tavily/core';
 import { tool } from 'ai';
@@ -213,6 +218,76 @@ export const grepTool = tool({
 	}
 });
 
+// Semantic Search Tool
+export const semanticSearchTool = tool({
+	description:
+		'Search the codebase by meaning rather than exact text. Describe what you are looking for (e.g., "where user sessions are validated") and get the most relevant functions, classes and code blocks. The project is indexed on first use and kept up to date as files change. Use grep instead when you know the exact identifier or string.',
+	inputSchema: z.object({
+		sandboxId: z.string().describe('The ID of the sandbox'),
+		sandboxType: z
+			.enum(['daytona', 'docker', 'local'])
+			.optional()
+			.describe('The type of sandbox (e.g., "daytona")'),
+		query: z.string().describe('Natural language description of the code to find'),
+		path: z
+			.string()
+			.optional()
+			.describe('Only return results under this directory (defaults to the whole project)'),
+		language: z
+			.string()
+			.optional()
+			.describe('Only return results in this language (e.g., "typescript", "python")'),
+		maxResults: z.number().optional().describe('Maximum number of results (default: 8)')
+	}),
+	execute: async ({ sandboxId, sandboxType, query, path, language, maxResults = 8 }) => {
+		try {
+			const provider: SandboxProvider | undefined = sandboxType;
+			const rootPath = sandboxWorkspaceDir(provider);
+			const pathPrefix = path
+				? path.startsWith('/')
+					? path
+					: `${rootPath}/${path.replace(/^\.\//, '')}`
+				: undefined;
+
+			const results = await codeIndexService.search(sandboxId, query, {
+				provider,
+				rootPath,
+				pathPrefix,
+				language,
+				limit: maxResults
+			});
+
+			if (results.length === 0) {
+				return `No code found matching "${query}"${path ? ` in ${path}` : ''}`;
+			}
+
+			return JSON.stringify(
+				{
+					query,
+					resultCount: results.length,
+					results: results.map(({ chunk, score }) => ({
+						file: chunk.filePath.replace(`${rootPath}/`, ''),
+						startLine: chunk.startLine,
+						endLine: chunk.endLine,
+						kind: chunk.kind,
+						symbol: chunk.symbol,
+						score: Number(score.toFixed(3)),
+						content:
+							chunk.content.length > 1500
+								? `${chunk.content.substring(0, 1500)}\n... (truncated, use read_file for the rest)`
+								: chunk.content
+					}))
+				},
+				null,
+				2
+			);
+		} catch (error) {
+			console.error('Semantic search tool error:', error);
+			return `Error searching codebase: ${error instanceof Error ? error.message : String(error)}`;
+		}
+	}
+});
+
 // Read File Tool
 export const readFileTool = tool({
 	description:
@@ -509,18 +584,61 @@ export const createDirectoryTool = tool({
 	}
 });
 
+// Debug State Tool
+export const debugStateTool = tool({
+	description:
+		"Read the state of the project's debugger: whether a program is paused and why, the exception that stopped it, the call stack, the paused frame's variables, watch expressions and recent program output. Use this to diagnose a crash or unexpected behaviour the user is debugging.",
+	inputSchema: z.object({
+		sandboxId: z.string().describe('The ID of the sandbox')
+	}),
+	execute: async ({ sandboxId }) => {
+		const session = debugSessionManager.findBySandbox(sandboxId);
+		if (!session) {
+			return 'No debug session is open for this project. Ask the user to start one from the Run and Debug panel.';
+		}
+
+		const { state, output } = session.snapshot();
+		return describeDebugState(state, output);
+	}
+});
+
 // Map of all tools
 export const aiSdkTools = {
 	web_search: webSearchTool,
 	list_files: listFilesTool,
 	grep: grepTool,
+	// Only offered when the code index is enabled (CODE_INDEX_ENABLED)
+	...(codeIndexConfig.enabled ? { semantic_search: semanticSearchTool } : {}),
 	read_file: readFileTool,
 	write_file: writeFileTool,
 	edit_file: editFileTool,
 	delete_file: deleteFileTool,
 	execute_command: executeCommandTool,
-	create_directory: createDirectoryTool
+	create_directory: createDirectoryTool,
+	get_debug_state: debugStateTool
 };
 
 // Aliases for backwards compatibility
 export const executeCodeTool = executeCommandTool;
+
+/**
+ * Read the outcome of a tool output. Tools answer with JSON carrying a `success` flag;
+ * outputs without one (plain text, search results) count as successful.
+ */
+export function parseToolOutcome(output: unknown): { success: boolean; message: string } {
+	let parsed = output;
+	if (typeof output === 'string') {
+		try {
+			parsed = JSON.parse(output);
+		} catch {
+			return { success: true, message: '' };
+		}
+	}
+
+	if (!parsed || typeof parsed !== 'object') return { success: true, message: '' };
+	const { success, error, message } = parsed as Record<string, unknown>;
+	return {
+		success: success !== false,
+		message: String(error ?? message ?? '')
+	};
+}
@@ -5,6 +5,7 @@ import { logger } from '$lib/utils/logger.js';
 import { createAnthropic } from '@ai-sdk/anthropic';
 import { createOpenAI } from '@ai-sdk/openai';
 import { type LanguageModel } from 'ai';
+import { MODEL_PRESETS } from './model-presets';
 
 export interface ModelConfig {
 	provider: 'openai' | 'anthropic' | 'groq' | 'openrouter';
@@ -13,55 +14,7 @@ export interface ModelConfig {
 	maxTokens?: number;
 }
 
-// Selected providers we will expose in the UI / API
-const SUPPORTED_PROVIDERS = new Set(['openai', 'anthropic', 'groq', 'openrouter']);
-
-// Build a small preset map from models.json for supported providers
-export const MODEL_PRESETS: Record<string, { provider: string; model: string; cost?: number }> = {};
-(function buildPresets() {
-	try {
-		const all = (modelsData as any).data?.models || [];
-		for (const m of all) {
-			// If any of the endpoints belong to our supported providers, expose a preset keyed by id
-			const endpoints = m.endpoints || [];
-			const providerEndpoint = endpoints.find((e: any) => SUPPORTED_PROVIDERS.has(e?.provider));
-			if (providerEndpoint) {
-				const desc = m.description || '';
-				const match = desc.match(/API model name: ([^\s]+)/);
-				let apiModelName = match ? match[1] : m.id; // fallback to id if no match
-
-				// For Groq and other providers, use the providerModelId from the endpoint config
-				const providerModelId =
-					providerEndpoint.endpoint?.modelConfig?.providerModelId ||
-					providerEndpoint.providerModelId;
-
-				// if (providerEndpoint.provider === 'groq' && providerModelId) {
-				// Groq model names can be long and complex, so use the providerModelId directly
-				apiModelName = providerModelId;
-				// }
-
-				MODEL_PRESETS[m.id] = {
-					provider: providerEndpoint.provider || m.author || 'openai',
-					model: apiModelName,
-					cost: (providerEndpoint.pricing && providerEndpoint.pricing.prompt) || undefined
-				};
-			}
-		}
-	} catch (err) {
-		// noop - if parsing fails, MODEL_PRESETS stays empty and we provide a few sensible defaults below
-	}
-
-	// Fallback small set if no presets built
-	if (Object.keys(MODEL_PRESETS).length === 0) {
-		MODEL_PRESETS['gpt-4o'] = { provider: 'openai', model: 'gpt-4o', cost: 0.005 };
-		MODEL_PRESETS['gpt-4o-mini'] = { provider: 'openai', model: 'gpt-4o-mini', cost: 0.00015 };
-		MODEL_PRESETS['claude-opus-4-1'] = {
-			provider: 'anthropic',
-			model: 'claude-opus-4-1',
-			cost: 0.015
-		};
-	}
-})();
+export { MODEL_PRESETS };
 
 export class ModelManager {
 	private models: Map<string, LanguageModel> = new Map();
@@ -0,0 +1,101 @@
+/**
+ * Model presets built from models.json
+ * Kept free of provider clients so pricing can be read without API keys configured
+ */
+
+import modelsData from '$lib/data/models.json';
+
+export interface ModelPreset {
+	provider: string;
+	model: string;
+	/** Prompt price in USD per 1M tokens */
+	cost?: number;
+	/** Completion price in USD per 1M tokens */
+	completionCost?: number;
+	/** Cached prompt read price in USD per 1M tokens */
+	cacheReadCost?: number;
+}
+
+// The parts of a models.json entry the presets are built from
+interface CatalogEndpoint {
+	provider?: string;
+	providerModelId?: string;
+	endpoint?: { modelConfig?: { providerModelId?: string } };
+	pricing?: { prompt?: number; completion?: number; cacheRead?: number };
+}
+
+interface CatalogModel {
+	id: string;
+	author?: string;
+	description?: string;
+	endpoints?: CatalogEndpoint[];
+}
+
+// Selected providers we will expose in the UI / API
+const SUPPORTED_PROVIDERS = new Set(['openai', 'anthropic', 'groq', 'openrouter']);
+
+// Build a small preset map from models.json for supported providers
+export const MODEL_PRESETS: Record<string, ModelPreset> = {};
+(function buildPresets() {
+	try {
+		const all: CatalogModel[] =
+			(modelsData as { data?: { models?: CatalogModel[] } }).data?.models || [];
+		for (const m of all) {
+			// If any of the endpoints belong to our supported providers, expose a preset keyed by id
+			const endpoints = m.endpoints || [];
+			const providerEndpoint = endpoints.find((e) => SUPPORTED_PROVIDERS.has(e?.provider ?? ''));
+			if (providerEndpoint) {
+				const desc = m.description || '';
+				const match = desc.match(/API model name: ([^\s]+)/);
+				// Prefer the providerModelId from the endpoint config: Groq and other provider
+				// model names can be long and complex
+				const apiModelName =
+					providerEndpoint.endpoint?.modelConfig?.providerModelId ||
+					providerEndpoint.providerModelId ||
+					(match ? match[1] : m.id);
+
+				MODEL_PRESETS[m.id] = {
+					provider: providerEndpoint.provider || m.author || 'openai',
+					model: apiModelName,
+					cost: (providerEndpoint.pricing && providerEndpoint.pricing.prompt) || undefined,
+					completionCost: providerEndpoint.pricing?.completion || undefined,
+					cacheReadCost: providerEndpoint.pricing?.cacheRead || undefined
+				};
+			}
+		}
+	} catch {
+		// noop - if parsing fails, MODEL_PRESETS stays empty and we provide a few sensible defaults below
+	}
+
+	// Fallback small set if no presets built
+	if (Object.keys(MODEL_PRESETS).length === 0) {
+		MODEL_PRESETS['gpt-4o'] = {
+			provider: 'openai',
+			model: 'gpt-4o',
+			cost: 2.5,
+			completionCost: 10
+		};
+		MODEL_PRESETS['gpt-4o-mini'] = {
+			provider: 'openai',
+			model: 'gpt-4o-mini',
+			cost: 0.15,
+			completionCost: 0.6
+		};
+		MODEL_PRESETS['claude-opus-4-1'] = {
+			provider: 'anthropic',
+			model: 'claude-opus-4-1',
+			cost: 15,
+			completionCost: 75
+		};
+	}
+})();
+
+/**
+ * Find the preset for a model id or provider model name
+ */
+export function findModelPreset(modelName: string): ModelPreset | undefined {
+	return (
+		MODEL_PRESETS[modelName] ??
+		Object.values(MODEL_PRESETS).find((preset) => preset.model === modelName)
+	);
+}
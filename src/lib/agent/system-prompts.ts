@@ -12,6 +12,7 @@ export interface AgentContext {
 	projectName?: string;
 	framework?: string;
 	initialPrompt?: string; // What the user wants to build
+	semanticSearch?: boolean; // Whether the semantic_search tool is available
 }
 
 /**
@@ -26,7 +27,8 @@ export function buildCodingAgentPrompt(context: AgentContext): string {
 		fileTree,
 		projectName,
 		framework,
-		initialPrompt
+		initialPrompt,
+		semanticSearch = true
 	} = context;
 
 	return `You are an expert coding agent with full access to a sandboxed development environment. You help users write, debug, and improve code by directly reading and modifying files in their project.
@@ -34,7 +36,7 @@ export function buildCodingAgentPrompt(context: AgentContext): string {
 ## Your Capabilities
 
 You have access to powerful tools that let you:
-- **Explore**: List files, search code with grep, semantic code search
+- **Explore**: List files, search code with grep${semanticSearch ? ', semantic code search' : ''}
 - **Read**: Read any file with optional line ranges
 - **Write**: Create new files or completely rewrite existing ones
 - **Edit**: Make targeted edits to specific parts of files
@@ -71,8 +73,7 @@ Start by analyzing what components/features are needed, then begin creating them
 - **Always read files before modifying them** to understand the existing code structure
 - Use \`list_files\` to explore the project structure
 - Use \`grep\` to find where specific functions, variables, or patterns are used
-- Use \`search_codebase\` for semantic search when you need to understand concepts
-
+${semanticSearch ? '- Use `semantic_search` for semantic search when you need to understand concepts\n' : ''}
 ### 2. Make Precise Changes
 - For small changes, use \`edit_file\` with exact text matching
 - For new files or major rewrites, use \`write_file\` with complete content
@@ -128,7 +129,7 @@ You are helpful, precise, and efficient. Focus on solving the user's problem wit
  * Build a minimal system prompt for quick responses
  */
 export function buildQuickResponsePrompt(context: AgentContext): string {
-	const { sandboxId, sandboxType = 'daytona', currentFile } = context;
+	const { sandboxId, sandboxType = 'daytona', currentFile, semanticSearch = true } = context;
 
 	return `You are a helpful coding assistant. You have access to development tools in a sandbox environment.
 
@@ -137,7 +138,7 @@ Current context:
 - Sandbox Type: ${sandboxType}
 - Current File: ${currentFile || 'None'}
 
-Available tools: web_search, search_codebase, list_files, grep, read_file, write_file, edit_file, delete_file, execute_command, create_directory
+Available tools: web_search, ${semanticSearch ? 'semantic_search, ' : ''}list_files, grep, read_file, write_file, edit_file, delete_file, execute_command, create_directory, get_debug_state
 
 Be concise and helpful. Always read files before modifying them. Explain your actions briefly.`;
 }
@@ -155,7 +156,7 @@ export function buildDebugPrompt(context: AgentContext, errorMessage?: string):
 ${errorMessage ? `The user is encountering this error:\n\`\`\`\n${errorMessage}\n\`\`\`\n` : ''}
 
 When debugging:
-1. First understand the error by reading relevant files and searching for related code
+1. First understand the error by reading relevant files and searching for related code; if the user has the debugger paused, \`get_debug_state\` shows the call stack and variables
 2. Identify the root cause before suggesting fixes
 3. Make minimal, targeted fixes
 4. Suggest how to verify the fix worked
@@ -189,15 +190,14 @@ When reviewing code:
 /**
  * Get tool descriptions for the system prompt
  */
-export function getToolDescriptions(): string {
+export function getToolDescriptions(semanticSearch = true): string {
 	return `
 ## Available Tools
 
 | Tool | Purpose |
 |------|---------|
 | \`web_search\` | Search the web for documentation, tutorials, and solutions |
-| \`search_codebase\` | Semantic search to find relevant code by description |
-| \`list_files\` | List files and directories in the project |
+${semanticSearch ? '| `semantic_search` | Semantic search to find relevant code by description |\n' : ''}| \`list_files\` | List files and directories in the project |
 | \`grep\` | Search for patterns in files (text or regex) |
 | \`read_file\` | Read file contents (supports line ranges) |
 | \`write_file\` | Create or overwrite files with complete content |
@@ -205,5 +205,6 @@ export function getToolDescriptions(): string {
 | \`delete_file\` | Delete files or directories |
 | \`execute_command\` | Run shell commands in the sandbox terminal |
 | \`create_directory\` | Create directories (with parents) |
+| \`get_debug_state\` | Read the paused debugger's call stack, variables and exception |
 `;
 }
@@ -0,0 +1,195 @@
+import { EditorState, Prec, type Extension, type Range } from '@codemirror/state';
+import {
+	Decoration,
+	EditorView,
+	keymap,
+	ViewPlugin,
+	WidgetType,
+	type DecorationSet,
+	type ViewUpdate
+} from '@codemirror/view';
+import { yCollab, yUndoManagerKeymap } from 'y-codemirror.next';
+import * as Y from 'yjs';
+
+import type { CollabProvider } from '$lib/services/collaboration/collab-provider';
+import type { CollaboratorAwareness, CollaboratorIdentity } from '$lib/types/collaboration';
+
+class RemoteCaret extends WidgetType {
+	constructor(readonly user: CollaboratorIdentity) {
+		super();
+	}
+
+	eq(other: RemoteCaret): boolean {
+		return (
+			other.user.id === this.user.id &&
+			other.user.color === this.user.color &&
+			other.user.image === this.user.image
+		);
+	}
+
+	toDOM(): HTMLElement {
+		const caret = document.createElement('span');
+		caret.className = 'cm-collab-caret';
+		caret.style.borderColor = this.user.color;
+
+		const label = document.createElement('span');
+		label.className = 'cm-collab-label';
+		label.style.backgroundColor = this.user.color;
+		if (this.user.image) {
+			const avatar = document.createElement('img');
+			avatar.className = 'cm-collab-avatar';
+			avatar.src = this.user.image;
+			avatar.alt = '';
+			label.append(avatar);
+		}
+		label.append(document.createTextNode(this.user.name));
+		caret.append(label);
+		return caret;
+	}
+
+	ignoreEvent(): boolean {
+		return true;
+	}
+}
+
+const collabTheme = EditorView.baseTheme({
+	'.cm-collab-caret': {
+		position: 'relative',
+		borderLeft: '2px solid',
+		marginLeft: '-1px',
+		marginRight: '-1px'
+	},
+	'.cm-collab-label': {
+		position: 'absolute',
+		bottom: '100%',
+		left: '-2px',
+		display: 'flex',
+		alignItems: 'center',
+		gap: '3px',
+		padding: '1px 4px 1px 2px',
+		borderRadius: '3px 3px 3px 0',
+		color: 'white',
+		fontSize: '10px',
+		lineHeight: '14px',
+		whiteSpace: 'nowrap',
+		userSelect: 'none',
+		pointerEvents: 'none',
+		zIndex: '10',
+		opacity: '0.85'
+	},
+	'.cm-collab-avatar': {
+		width: '12px',
+		height: '12px',
+		borderRadius: '50%'
+	}
+});
+
+/** Cursors and selections of the other collaborators, labelled with their avatar and name */
+function remoteCursors(provider: CollabProvider): Extension {
+	return ViewPlugin.fromClass(
+		class {
+			decorations: DecorationSet;
+			private onChange = ({ added, updated, removed }: AwarenessChanges) => {
+				const changed = [...added, ...updated, ...removed];
+				if (changed.some((clientId) => clientId !== provider.doc.clientID)) {
+					this.view.dispatch({});
+				}
+			};
+
+			constructor(private view: EditorView) {
+				this.decorations = this.build();
+				provider.awareness.on('change', this.onChange);
+			}
+
+			update(update: ViewUpdate) {
+				this.publishCursor(update);
+				this.decorations = this.build();
+			}
+
+			destroy() {
+				provider.awareness.off('change', this.onChange);
+			}
+
+			private publishCursor(update: ViewUpdate) {
+				if (!update.view.hasFocus || !update.view.dom.ownerDocument.hasFocus()) return;
+
+				const { anchor, head } = update.state.selection.main;
+				const cursor = {
+					anchor: Y.createRelativePositionFromTypeIndex(provider.text, anchor),
+					head: Y.createRelativePositionFromTypeIndex(provider.text, head)
+				};
+				const current = (provider.awareness.getLocalState() as CollaboratorAwareness | null)
+					?.cursor as { anchor: Y.RelativePosition; head: Y.RelativePosition } | null | undefined;
+				if (
+					current &&
+					Y.compareRelativePositions(current.anchor, cursor.anchor) &&
+					Y.compareRelativePositions(current.head, cursor.head)
+				) {
+					return;
+				}
+				provider.awareness.setLocalStateField('cursor', cursor);
+			}
+
+			private build(): DecorationSet {
+				const ranges: Range<Decoration>[] = [];
+				const length = this.view.state.doc.length;
+
+				provider.awareness.getStates().forEach((state, clientId) => {
+					const { user, cursor } = state as CollaboratorAwareness;
+					if (clientId === provider.doc.clientID || !user || !cursor) return;
+
+					const anchor = Y.createAbsolutePositionFromRelativePosition(
+						cursor.anchor as Y.RelativePosition,
+						provider.doc
+					);
+					const head = Y.createAbsolutePositionFromRelativePosition(
+						cursor.head as Y.RelativePosition,
+						provider.doc
+					);
+					if (!anchor || !head || anchor.type !== provider.text || head.type !== provider.text) {
+						return;
+					}
+
+					const from = Math.min(anchor.index, head.index, length);
+					const to = Math.min(Math.max(anchor.index, head.index), length);
+					if (from < to) {
+						ranges.push(
+							Decoration.mark({
+								attributes: { style: `background-color: ${user.color}33` }
+							}).range(from, to)
+						);
+					}
+					ranges.push(
+						Decoration.widget({
+							widget: new RemoteCaret(user),
+							side: head.index > anchor.index ? -1 : 1
+						}).range(Math.min(head.index, length))
+					);
+				});
+
+				return Decoration.set(ranges, true);
+			}
+		},
+		{ decorations: (plugin) => plugin.decorations }
+	);
+}
+
+interface AwarenessChanges {
+	added: number[];
+	updated: number[];
+	removed: number[];
+}
+
+/**
+ * Bind the editor to a file's shared document: edits sync through Yjs, undo only
+ * reverts this tab's changes, and viewers get a read-only editor
+ */
+export function collabExtension(provider: CollabProvider): Extension {
+	return [
+		yCollab(provider.text, null, { undoManager: provider.undoManager }),
+		Prec.high(keymap.of(yUndoManagerKeymap)),
+		remoteCursors(provider),
+		collabTheme,
+		EditorState.readOnly.of(provider.role === 'viewer')
+	];
+}
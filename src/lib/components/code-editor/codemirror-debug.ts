@@ -0,0 +1,240 @@
+import {
+	RangeSet,
+	RangeSetBuilder,
+	StateEffect,
+	StateField,
+	Transaction,
+	type Extension
+} from '@codemirror/state';
+import {
+	Decoration,
+	EditorView,
+	gutter,
+	GutterMarker,
+	ViewPlugin,
+	type DecorationSet,
+	type ViewUpdate
+} from '@codemirror/view';
+import { get } from 'svelte/store';
+
+import { debugActions, debugActive, debugLocation, debugStore } from '$lib/stores/debug.store';
+import type { DebugSourceBreakpoint } from '$lib/types/debug';
+
+class BreakpointMarker extends GutterMarker {
+	constructor(
+		readonly verified: boolean,
+		readonly condition?: string
+	) {
+		super();
+	}
+
+	eq(other: BreakpointMarker): boolean {
+		return other.verified === this.verified && other.condition === this.condition;
+	}
+
+	toDOM(): HTMLElement {
+		const dot = document.createElement('span');
+		dot.className = this.verified ? 'cm-breakpoint' : 'cm-breakpoint cm-breakpoint-unverified';
+		dot.title = this.condition
+			? `Breakpoint if ${this.condition}`
+			: this.verified
+				? 'Breakpoint'
+				: 'Breakpoint (not bound yet)';
+		return dot;
+	}
+}
+
+const breakpointSpacer = new (class extends GutterMarker {
+	toDOM() {
+		const spacer = document.createElement('span');
+		spacer.className = 'cm-breakpoint-spacer';
+		return spacer;
+	}
+})();
+
+const setBreakpointMarks = StateEffect.define<RangeSet<BreakpointMarker>>();
+
+// Markers live at line starts so edits above a breakpoint carry it along
+const breakpointField = StateField.define<RangeSet<BreakpointMarker>>({
+	create: () => RangeSet.empty,
+	update(markers, tr) {
+		let next = markers.map(tr.changes);
+		for (const effect of tr.effects) {
+			if (effect.is(setBreakpointMarks)) next = effect.value;
+		}
+		return next;
+	}
+});
+
+const setCurrentLine = StateEffect.define<number | null>();
+
+const currentLineField = StateField.define<DecorationSet>({
+	create: () => Decoration.none,
+	update(decorations, tr) {
+		let next = decorations.map(tr.changes);
+		for (const effect of tr.effects) {
+			if (!effect.is(setCurrentLine)) continue;
+			if (effect.value === null || effect.value > tr.state.doc.lines) {
+				next = Decoration.none;
+			} else {
+				const line = tr.state.doc.line(effect.value);
+				next = Decoration.set([currentLineDecoration.range(line.from)]);
+			}
+		}
+		return next;
+	},
+	provide: (field) => EditorView.decorations.from(field)
+});
+
+const currentLineDecoration = Decoration.line({ class: 'cm-debug-current-line' });
+
+const debugTheme = EditorView.baseTheme({
+	'.cm-breakpoint-gutter .cm-gutterElement': {
+		cursor: 'pointer',
+		display: 'flex',
+		alignItems: 'center',
+		justifyContent: 'center',
+		padding: '0 2px'
+	},
+	'.cm-breakpoint, .cm-breakpoint-spacer': {
+		display: 'inline-block',
+		width: '9px',
+		height: '9px',
+		borderRadius: '50%'
+	},
+	'.cm-breakpoint': { backgroundColor: '#e51400' },
+	'.cm-breakpoint-unverified': {
+		backgroundColor: 'transparent',
+		border: '1.5px solid #848484'
+	},
+	'.cm-debug-current-line': { backgroundColor: 'rgba(255, 204, 0, 0.25)' },
+	'&dark .cm-debug-current-line': { backgroundColor: 'rgba(255, 204, 0, 0.18)' }
+});
+
+function markersFrom(
+	view: EditorView,
+	breakpoints: DebugSourceBreakpoint[],
+	verified: (line: number) => boolean
+): RangeSet<BreakpointMarker> {
+	const doc = view.state.doc;
+	const builder = new RangeSetBuilder<BreakpointMarker>();
+	for (const breakpoint of breakpoints) {
+		if (breakpoint.line > doc.lines) continue;
+		const from = doc.line(breakpoint.line).from;
+		builder.add(from, from, new BreakpointMarker(verified(breakpoint.line), breakpoint.condition));
+	}
+	return builder.finish();
+}
+
+/** Keeps the gutter, the store and the paused location in sync for one file */
+class DebugGutter {
+	private unsubscribe: Array<() => void>;
+	private shownKey = '';
+	private location: number | null = null;
+
+	constructor(
+		private view: EditorView,
+		private path: string
+	) {
+		this.unsubscribe = [
+			debugStore.subscribe(() => queueMicrotask(() => this.showBreakpoints())),
+			debugLocation.subscribe(() => queueMicrotask(() => this.showLocation()))
+		];
+	}
+
+	update(update: ViewUpdate) {
+		if (!update.docChanged) return;
+
+		// Content loaded or replaced from outside the editor: put the markers back where they were
+		const typed = update.transactions.some((tr) => tr.annotation(Transaction.userEvent));
+		if (!typed) {
+			queueMicrotask(() => {
+				this.showBreakpoints(true);
+				this.showLocation(true);
+			});
+			return;
+		}
+
+		// Edits moved the markers; report the lines they ended up on
+		const moved: DebugSourceBreakpoint[] = [];
+		const cursor = update.state.field(breakpointField).iter();
+		for (; cursor.value; cursor.next()) {
+			const line = update.state.doc.lineAt(cursor.from).number;
+			if (moved.some((breakpoint) => breakpoint.line === line)) continue;
+			moved.push({ line, condition: cursor.value.condition });
+		}
+		const previous = get(debugStore).breakpoints[this.path] ?? [];
+		const lines = (list: DebugSourceBreakpoint[]) => list.map((bp) => bp.line).join(',');
+		if (lines(moved) !== lines(previous)) {
+			queueMicrotask(() => debugActions.setBreakpoints(this.path, moved));
+		}
+	}
+
+	destroy() {
+		for (const unsubscribe of this.unsubscribe) unsubscribe();
+		this.unsubscribe = [];
+	}
+
+	private showBreakpoints(force = false) {
+		if (this.unsubscribe.length === 0) return;
+		const { breakpoints, session } = get(debugStore);
+		const requested = breakpoints[this.path] ?? [];
+		const active = get(debugActive);
+		const reported = session.breakpoints[this.path] ?? [];
+		// Outside a session every breakpoint is shown as set
+		const verified = (line: number) =>
+			!active || reported.some((breakpoint) => breakpoint.line === line && breakpoint.verified);
+
+		const key = requested
+			.map(
+				(breakpoint) =>
+					`${breakpoint.line}:${verified(breakpoint.line)}:${breakpoint.condition ?? ''}`
+			)
+			.join(',');
+		if (!force && key === this.shownKey) return;
+		this.shownKey = key;
+
+		this.view.dispatch({
+			effects: setBreakpointMarks.of(markersFrom(this.view, requested, verified))
+		});
+	}
+
+	private showLocation(force = false) {
+		if (this.unsubscribe.length === 0) return;
+		const frame = get(debugLocation);
+		const line = frame && frame.path === this.path ? frame.line : null;
+		if (!force && line === this.location) return;
+		this.location = line;
+
+		const doc = this.view.state.doc;
+		if (line === null || line > doc.lines || doc.length === 0) {
+			this.view.dispatch({ effects: setCurrentLine.of(null) });
+			return;
+		}
+		const position = doc.line(line).from;
+		this.view.dispatch({
+			effects: [setCurrentLine.of(line), EditorView.scrollIntoView(position, { y: 'center' })]
+		});
+	}
+}
+
+/** Breakpoint gutter and paused-line highlight for the file at `path` (project-relative) */
+export function debugExtension(path: string): Extension[] {
+	return [
+		breakpointField,
+		currentLineField,
+		debugTheme,
+		gutter({
+			class: 'cm-breakpoint-gutter',
+			markers: (view) => view.state.field(breakpointField),
+			initialSpacer: () => breakpointSpacer,
+			domEventHandlers: {
+				mousedown(view, line) {
+					debugActions.toggleBreakpoint(path, view.state.doc.lineAt(line.from).number);
+					return true;
+				}
+			}
+		}),
+		ViewPlugin.define((view) => new DebugGutter(view, path))
+	];
+}
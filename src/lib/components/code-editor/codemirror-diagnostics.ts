@@ -0,0 +1,141 @@
+import { setDiagnostics, type Diagnostic } from '@codemirror/lint';
+import { StateEffect, StateField, type Extension } from '@codemirror/state';
+import { EditorView, ViewPlugin, type ViewUpdate } from '@codemirror/view';
+import { get } from 'svelte/store';
+
+import { problemReveal, taskProblemsByPath } from '$lib/stores/tasks.store';
+import type { TaskProblem } from '$lib/types/tasks';
+
+// @codemirror/lint keeps a single diagnostic list per editor, so each producer
+// (language server, task problem matchers) publishes under its own name and the
+// editor shows the union
+const publishSource = StateEffect.define<{ source: string; diagnostics: Diagnostic[] }>();
+
+const diagnosticSources = StateField.define<Map<string, Diagnostic[]>>({
+	create: () => new Map(),
+	update(sources, tr) {
+		let next = sources;
+		if (tr.docChanged) {
+			next = new Map();
+			for (const [source, diagnostics] of sources) {
+				next.set(
+					source,
+					diagnostics.map((diagnostic) => ({
+						...diagnostic,
+						from: tr.changes.mapPos(diagnostic.from),
+						to: tr.changes.mapPos(diagnostic.to)
+					}))
+				);
+			}
+		}
+		for (const effect of tr.effects) {
+			if (!effect.is(publishSource)) continue;
+			if (next === sources) next = new Map(sources);
+			next.set(effect.value.source, effect.value.diagnostics);
+		}
+		return next;
+	}
+});
+
+/** Replace one producer's diagnostics, keeping everyone else's */
+export function publishDiagnostics(
+	view: EditorView,
+	source: string,
+	diagnostics: Diagnostic[]
+): void {
+	const current = view.state.field(diagnosticSources, false) ?? new Map<string, Diagnostic[]>();
+	const merged = [...current]
+		.filter(([name]) => name !== source)
+		.flatMap(([, list]) => list)
+		.concat(diagnostics)
+		.sort((a, b) => a.from - b.from);
+
+	const spec = setDiagnostics(view.state, merged);
+	view.dispatch({
+		effects: [publishSource.of({ source, diagnostics }), ...[spec.effects ?? []].flat()]
+	});
+}
+
+/** Include wherever `publishDiagnostics` is used */
+export const diagnosticSourcesExtension: Extension = diagnosticSources;
+
+/** Show the problems task runs reported for one file and jump to them when revealed */
+class TaskDiagnostics {
+	private problems: TaskProblem[] = [];
+	private unsubscribe: Array<() => void>;
+
+	constructor(
+		private view: EditorView,
+		private path: string
+	) {
+		this.unsubscribe = [
+			taskProblemsByPath.subscribe((byPath) => {
+				const problems = byPath.get(path) ?? [];
+				if (problems.length === 0 && this.problems.length === 0) return;
+				this.problems = problems;
+				// Dispatching while the view is being constructed is not allowed
+				queueMicrotask(() => this.show());
+			}),
+			problemReveal.subscribe(() => queueMicrotask(() => this.reveal()))
+		];
+	}
+
+	update(update: ViewUpdate) {
+		// The editor opens before a file's content arrives; retry once it does
+		if (update.docChanged && update.startState.doc.length === 0) {
+			queueMicrotask(() => {
+				this.show();
+				this.reveal();
+			});
+		}
+	}
+
+	destroy() {
+		for (const unsubscribe of this.unsubscribe) unsubscribe();
+		this.unsubscribe = [];
+	}
+
+	private show() {
+		if (this.unsubscribe.length === 0) return;
+		const doc = this.view.state.doc;
+		const diagnostics: Diagnostic[] = this.problems
+			.filter((problem) => problem.line <= doc.lines)
+			.map((problem) => {
+				const line = doc.line(problem.line);
+				const from = line.from + Math.min(Math.max(problem.column - 1, 0), line.length);
+				// Tools report a position, not a range; underline the rest of the word
+				const word = /^\w*/.exec(doc.sliceString(from, line.to))?.[0] ?? '';
+				return {
+					from,
+					to: from + word.length,
+					severity: problem.severity,
+					source: problem.source,
+					message: problem.code ? `${problem.message} (${problem.code})` : problem.message
+				};
+			});
+		publishDiagnostics(this.view, 'tasks', diagnostics);
+	}
+
+	private reveal() {
+		if (this.unsubscribe.length === 0) return;
+		const target = get(problemReveal);
+		const doc = this.view.state.doc;
+		if (!target || target.path !== this.path || doc.length === 0 || target.line > doc.lines) {
+			return;
+		}
+
+		const line = doc.line(target.line);
+		const position = line.from + Math.min(Math.max(target.column - 1, 0), line.length);
+		this.view.dispatch({
+			selection: { anchor: position },
+			effects: EditorView.scrollIntoView(position, { y: 'center' })
+		});
+		this.view.focus();
+		problemReveal.set(null);
+	}
+}
+
+/** Task problems for the file at `path` (project-relative) */
+export function taskDiagnosticsExtension(path: string): Extension[] {
+	return [diagnosticSourcesExtension, ViewPlugin.define((view) => new TaskDiagnostics(view, path))];
+}
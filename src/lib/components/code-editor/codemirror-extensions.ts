@@ -30,6 +30,9 @@ export const autocompletionCompartment = new Compartment();
 export const searchCompartment = new Compartment();
 export const keymapCompartment = new Compartment();
 export const scrollCompartment = new Compartment();
+export const lspCompartment = new Compartment();
+export const inlineCompletionCompartment = new Compartment();
+export const inlineEditCompartment = new Compartment();
 
 // Helper functions for extensions
 export function getLineNumbersExtension(editorSettings: any): Extension[] {
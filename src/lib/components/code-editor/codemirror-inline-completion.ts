@@ -0,0 +1,262 @@
+import { Annotation, Prec, StateEffect, StateField, type Extension } from '@codemirror/state';
+import {
+	Decoration,
+	EditorView,
+	keymap,
+	ViewPlugin,
+	WidgetType,
+	type ViewUpdate
+} from '@codemirror/view';
+
+import { COMPLETION_LIMITS } from '$lib/services/completion/completion-prompt';
+import type {
+	CompletionContextFile,
+	InlineCompletionRequest,
+	InlineCompletionResponse
+} from '$lib/types/completion';
+
+const CACHE_SIZE = 50;
+
+export interface InlineCompletionOptions {
+	/** Project-relative path of the file */
+	path: string;
+	projectId?: string;
+	language?: string;
+	model?: string;
+	/** Quiet time after typing before a completion is requested, in milliseconds */
+	delay: number;
+	/** Ask while typing; otherwise only on Alt-\ */
+	automatic: boolean;
+	/** Lines sent on each side of the cursor */
+	contextLines: number;
+	/** Neighbouring open files sent as context */
+	relatedFiles: () => CompletionContextFile[];
+}
+
+interface GhostText {
+	from: number;
+	text: string;
+}
+
+// Completions by file and surrounding text, most recently used last
+const completionCache = new Map<string, string>();
+
+function remember(key: string, completion: string) {
+	completionCache.delete(key);
+	completionCache.set(key, completion);
+	if (completionCache.size > CACHE_SIZE) {
+		completionCache.delete(completionCache.keys().next().value!);
+	}
+}
+
+const setGhostText = StateEffect.define<GhostText | null>();
+const acceptedCompletion = Annotation.define<boolean>();
+
+class GhostTextWidget extends WidgetType {
+	constructor(readonly text: string) {
+		super();
+	}
+
+	eq(other: GhostTextWidget): boolean {
+		return other.text === this.text;
+	}
+
+	toDOM(): HTMLElement {
+		const ghost = document.createElement('span');
+		ghost.className = 'cm-ghost-text';
+		ghost.textContent = this.text;
+		return ghost;
+	}
+}
+
+const ghostTextField = StateField.define<GhostText | null>({
+	create: () => null,
+	update(ghost, tr) {
+		for (const effect of tr.effects) {
+			if (effect.is(setGhostText)) return effect.value;
+		}
+		if (!ghost) return null;
+
+		if (tr.docChanged) {
+			// Typing the start of the suggestion keeps the rest of it on screen
+			let typed: string | null = null;
+			let single = true;
+			tr.changes.iterChanges((fromA, toA, fromB, toB, inserted) => {
+				if (typed !== null || fromA !== ghost.from || toA !== fromA) single = false;
+				typed = inserted.toString();
+			});
+			const text: string = typed ?? '';
+			if (!single || !text || !ghost.text.startsWith(text) || text === ghost.text) return null;
+			return { from: ghost.from + text.length, text: ghost.text.slice(text.length) };
+		}
+
+		return tr.selection && tr.state.selection.main.head !== ghost.from ? null : ghost;
+	},
+	provide: (field) =>
+		EditorView.decorations.from(field, (ghost) =>
+			ghost
+				? Decoration.set([
+						Decoration.widget({ widget: new GhostTextWidget(ghost.text), side: 1 }).range(
+							ghost.from
+						)
+					])
+				: Decoration.none
+		)
+});
+
+const ghostTextTheme = EditorView.baseTheme({
+	'.cm-ghost-text': { opacity: '0.45', whiteSpace: 'pre', pointerEvents: 'none' }
+});
+
+/** The start of a suggestion up to the end of its next word */
+export function nextWord(text: string): string {
+	return text.match(/^\s*[\w$]+|^\s*[^\w\s]+|^\s+/)?.[0] ?? text;
+}
+
+function acceptGhostText(view: EditorView, wordOnly = false): boolean {
+	const ghost = view.state.field(ghostTextField, false);
+	if (!ghost) return false;
+
+	const text = wordOnly ? nextWord(ghost.text) : ghost.text;
+	view.dispatch({
+		changes: { from: ghost.from, insert: text },
+		selection: { anchor: ghost.from + text.length },
+		userEvent: 'input.complete',
+		annotations: acceptedCompletion.of(true)
+	});
+	return true;
+}
+
+/** Requests completions after typing pauses and cancels those the user typed past */
+class InlineCompletionPlugin {
+	private timer: ReturnType<typeof setTimeout> | null = null;
+	private controller: AbortController | null = null;
+
+	constructor(
+		private view: EditorView,
+		private options: InlineCompletionOptions
+	) {}
+
+	update(update: ViewUpdate) {
+		if (!update.docChanged && !update.selectionSet) return;
+		this.cancel();
+
+		if (!this.options.automatic || update.state.field(ghostTextField)) return;
+		const accepted = update.transactions.some((tr) => tr.annotation(acceptedCompletion));
+		const typed = update.transactions.some(
+			(tr) => tr.isUserEvent('input') || tr.isUserEvent('delete')
+		);
+		if (typed && !accepted) {
+			this.timer = setTimeout(() => void this.request(), this.options.delay);
+		}
+	}
+
+	destroy() {
+		this.cancel();
+	}
+
+	trigger() {
+		this.cancel();
+		void this.request(true);
+	}
+
+	private cancel() {
+		if (this.timer) clearTimeout(this.timer);
+		this.timer = null;
+		this.controller?.abort();
+		this.controller = null;
+	}
+
+	private async request(explicit = false) {
+		const state = this.view.state;
+		const { main } = state.selection;
+		if (!main.empty) return;
+
+		// Suggestions in the middle of a word get in the way
+		const pos = main.head;
+		if (!explicit && /\w/.test(state.sliceDoc(pos, pos + 1))) return;
+
+		const { doc } = state;
+		const line = doc.lineAt(pos);
+		const first = doc.line(Math.max(1, line.number - this.options.contextLines));
+		const last = doc.line(Math.min(doc.lines, line.number + this.options.contextLines));
+		const prefix = state.sliceDoc(first.from, pos).slice(-COMPLETION_LIMITS.prefixChars);
+		const suffix = state.sliceDoc(pos, last.to).slice(0, COMPLETION_LIMITS.suffixChars);
+		if (!prefix.trim()) return;
+
+		const key = [this.options.path, prefix, suffix].join('\u0000');
+		let completion = completionCache.get(key);
+
+		if (completion === undefined) {
+			const controller = new AbortController();
+			this.controller = controller;
+			const body: InlineCompletionRequest = {
+				projectId: this.options.projectId,
+				path: this.options.path,
+				language: this.options.language,
+				prefix,
+				suffix,
+				relatedFiles: this.options.relatedFiles(),
+				model: this.options.model
+			};
+
+			try {
+				const response = await fetch('/api/completions', {
+					method: 'POST',
+					headers: { 'Content-Type': 'application/json' },
+					body: JSON.stringify(body),
+					signal: controller.signal
+				});
+				if (response.status !== 200) return;
+				const result: InlineCompletionResponse = await response.json();
+				completion = result.completion;
+				remember(key, completion);
+			} catch (error) {
+				if (!controller.signal.aborted) console.warn('Inline completion failed:', error);
+				return;
+			} finally {
+				if (this.controller === controller) this.controller = null;
+			}
+		}
+
+		// The user may have moved on while the model was answering
+		const current = this.view.state;
+		if (!completion || current.doc !== doc || current.selection.main.head !== pos) return;
+		this.view.dispatch({ effects: setGhostText.of({ from: pos, text: completion }) });
+	}
+}
+
+/**
+ * Ghost text suggested by a model at the cursor. Tab accepts it, Ctrl-Right
+ * accepts the next word, Escape dismisses it and Alt-\ asks for one.
+ */
+export function inlineCompletionExtension(options: InlineCompletionOptions): Extension[] {
+	const plugin = ViewPlugin.define((view) => new InlineCompletionPlugin(view, options));
+
+	return [
+		ghostTextField,
+		ghostTextTheme,
+		plugin,
+		Prec.highest(
+			keymap.of([
+				{ key: 'Tab', run: (view) => acceptGhostText(view) },
+				{ key: 'Ctrl-ArrowRight', run: (view) => acceptGhostText(view, true) },
+				{
+					key: 'Escape',
+					run: (view) => {
+						if (!view.state.field(ghostTextField, false)) return false;
+						view.dispatch({ effects: setGhostText.of(null) });
+						return true;
+					}
+				},
+				{
+					key: 'Alt-\\',
+					run: (view) => {
+						view.plugin(plugin)?.trigger();
+						return true;
+					}
+				}
+			])
+		)
+	];
+}
@@ -0,0 +1,333 @@
+import {
+	Prec,
+	StateEffect,
+	StateField,
+	type ChangeDesc,
+	type EditorState,
+	type Extension,
+	type Range
+} from '@codemirror/state';
+import { Decoration, EditorView, keymap, WidgetType, type DecorationSet } from '@codemirror/view';
+
+import { editHunks, type EditHunk } from '$lib/services/completion/inline-edit-hunks';
+
+export interface InlineEditHunk extends EditHunk {
+	id: number;
+}
+
+export interface InlineEditSession {
+	/** Whole lines being rewritten */
+	from: number;
+	to: number;
+	original: string;
+	instruction: string;
+	/** Replacement proposed so far */
+	proposed: string;
+	streaming: boolean;
+	/** Hunks still waiting for accept or reject */
+	hunks: InlineEditHunk[];
+	accepted: number;
+}
+
+export interface InlineEditOptions {
+	/** Cmd+K: ask for an instruction */
+	onOpen: () => void;
+	/** Called whenever the session changes, with null once it ends */
+	onChange: (session: InlineEditSession | null) => void;
+}
+
+const startEdit = StateEffect.define<{ from: number; to: number; instruction: string }>();
+const proposeEdit = StateEffect.define<{ text: string; done: boolean }>();
+const settleHunk = StateEffect.define<{ id: number; accepted: boolean }>();
+const endEdit = StateEffect.define<null>();
+
+function mapSession(session: InlineEditSession, changes: ChangeDesc): InlineEditSession {
+	return {
+		...session,
+		from: changes.mapPos(session.from, -1),
+		to: changes.mapPos(session.to, 1),
+		// Hunks the user typed into no longer apply
+		hunks: session.hunks
+			.filter((hunk) => !changes.touchesRange(hunk.from, hunk.to))
+			.map((hunk) => ({
+				...hunk,
+				from: changes.mapPos(hunk.from, -1),
+				to: changes.mapPos(hunk.to, 1),
+				lineFrom: changes.mapPos(hunk.lineFrom, -1),
+				anchor: changes.mapPos(hunk.anchor, hunk.side)
+			}))
+	};
+}
+
+const inlineEditField = StateField.define<InlineEditSession | null>({
+	create: () => null,
+	update(session, tr) {
+		let next = session && tr.docChanged ? mapSession(session, tr.changes) : session;
+
+		for (const effect of tr.effects) {
+			if (effect.is(startEdit)) {
+				const { from, to, instruction } = effect.value;
+				next = {
+					from,
+					to,
+					instruction,
+					original: tr.state.sliceDoc(from, to),
+					proposed: '',
+					streaming: true,
+					hunks: [],
+					accepted: 0
+				};
+			} else if (effect.is(proposeEdit) && next) {
+				const { text, done } = effect.value;
+				const hunks = editHunks(next.original, text, next.from).map((hunk, id) => ({
+					...hunk,
+					id
+				}));
+				next = { ...next, proposed: text, streaming: !done, hunks };
+			} else if (effect.is(settleHunk) && next) {
+				const { id, accepted } = effect.value;
+				next = {
+					...next,
+					hunks: next.hunks.filter((hunk) => hunk.id !== id),
+					accepted: next.accepted + (accepted ? 1 : 0)
+				};
+			} else if (effect.is(endEdit)) {
+				next = null;
+			}
+		}
+
+		// Typing in the lines being rewritten makes the proposal meaningless
+		if (next?.streaming && session && tr.docChanged && !tr.effects.some((e) => e.is(startEdit))) {
+			if (tr.changes.touchesRange(session.from, session.to)) next = null;
+		}
+
+		return next;
+	}
+});
+
+const deletedLine = Decoration.line({ class: 'cm-inline-edit-deleted' });
+const pendingLine = Decoration.line({ class: 'cm-inline-edit-pending' });
+
+function buildDecorations(state: EditorState, session: InlineEditSession) {
+	const ranges: Range<Decoration>[] = [];
+	const { doc } = state;
+
+	for (const hunk of session.hunks) {
+		const first = doc.lineAt(hunk.lineFrom).number;
+		for (let index = 0; index < hunk.removed && first + index <= doc.lines; index++) {
+			ranges.push(deletedLine.range(doc.line(first + index).from));
+		}
+		ranges.push(
+			Decoration.widget({
+				widget: new AddedLinesWidget(hunk, session.streaming),
+				block: true,
+				side: hunk.side
+			}).range(Math.min(hunk.anchor, doc.length))
+		);
+	}
+
+	if (session.streaming) {
+		for (
+			let line = doc.lineAt(session.from).number;
+			line <= doc.lineAt(session.to).number;
+			line++
+		) {
+			ranges.push(pendingLine.range(doc.line(line).from));
+		}
+	}
+
+	return Decoration.set(ranges, true);
+}
+
+// Block widgets have to come from state, not from a view plugin
+const inlineEditDecorations = StateField.define<DecorationSet>({
+	create: () => Decoration.none,
+	update(decorations, tr) {
+		const session = tr.state.field(inlineEditField);
+		if (!session) return Decoration.none;
+		return session === tr.startState.field(inlineEditField)
+			? decorations
+			: buildDecorations(tr.state, session);
+	},
+	provide: (field) => EditorView.decorations.from(field)
+});
+
+class AddedLinesWidget extends WidgetType {
+	constructor(
+		readonly hunk: InlineEditHunk,
+		readonly streaming: boolean
+	) {
+		super();
+	}
+
+	eq(other: AddedLinesWidget): boolean {
+		return (
+			other.hunk.id === this.hunk.id &&
+			other.streaming === this.streaming &&
+			other.hunk.added.join('\n') === this.hunk.added.join('\n')
+		);
+	}
+
+	toDOM(view: EditorView): HTMLElement {
+		const block = document.createElement('div');
+		block.className = 'cm-inline-edit-hunk';
+
+		for (const text of this.hunk.added) {
+			const line = document.createElement('div');
+			line.className = 'cm-inline-edit-added';
+			line.textContent = text || ' ';
+			block.appendChild(line);
+		}
+
+		if (!this.streaming) {
+			const actions = document.createElement('div');
+			actions.className = 'cm-inline-edit-actions';
+			actions.append(
+				actionButton('Accept', () => acceptHunk(view, this.hunk.id)),
+				actionButton('Reject', () => rejectHunk(view, this.hunk.id))
+			);
+			block.appendChild(actions);
+		}
+
+		return block;
+	}
+
+	ignoreEvent(): boolean {
+		return true;
+	}
+}
+
+function actionButton(label: string, onClick: () => void): HTMLButtonElement {
+	const button = document.createElement('button');
+	button.type = 'button';
+	button.textContent = label;
+	button.addEventListener('mousedown', (event) => event.preventDefault());
+	button.addEventListener('click', onClick);
+	return button;
+}
+
+const inlineEditTheme = EditorView.baseTheme({
+	'.cm-inline-edit-deleted': { backgroundColor: 'rgba(239, 68, 68, 0.18)' },
+	'.cm-inline-edit-pending': { backgroundColor: 'rgba(59, 130, 246, 0.08)' },
+	'.cm-inline-edit-added': {
+		backgroundColor: 'rgba(34, 197, 94, 0.18)',
+		whiteSpace: 'pre',
+		paddingLeft: '6px'
+	},
+	'.cm-inline-edit-actions': {
+		display: 'flex',
+		gap: '4px',
+		padding: '2px 6px',
+		fontFamily: 'system-ui, sans-serif',
+		fontSize: '11px'
+	},
+	'.cm-inline-edit-actions button': {
+		padding: '0 6px',
+		borderRadius: '3px',
+		border: '1px solid rgba(127, 127, 127, 0.4)',
+		background: 'transparent',
+		color: 'inherit',
+		cursor: 'pointer'
+	}
+});
+
+/** The running inline edit, if any */
+export function getInlineEditSession(state: EditorState): InlineEditSession | null {
+	return state.field(inlineEditField, false) ?? null;
+}
+
+/** Start rewriting the whole lines the selection touches */
+export function startInlineEdit(view: EditorView, instruction: string): InlineEditSession | null {
+	const { main } = view.state.selection;
+	const { doc } = view.state;
+	// A selection ending at the start of a line does not include that line
+	const end = !main.empty && doc.lineAt(main.to).from === main.to ? main.to - 1 : main.to;
+	const from = doc.lineAt(main.from).from;
+	const to = doc.lineAt(Math.max(from, end)).to;
+
+	view.dispatch({ effects: startEdit.of({ from, to, instruction }) });
+	return getInlineEditSession(view.state);
+}
+
+/** Show the replacement streamed so far */
+export function proposeInlineEdit(view: EditorView, text: string, done: boolean) {
+	if (!getInlineEditSession(view.state)) return;
+	view.dispatch({ effects: proposeEdit.of({ text, done }) });
+}
+
+export function acceptHunk(view: EditorView, id: number) {
+	const hunk = getInlineEditSession(view.state)?.hunks.find((candidate) => candidate.id === id);
+	if (!hunk) return;
+	view.dispatch({
+		changes: { from: hunk.from, to: hunk.to, insert: hunk.insert },
+		effects: settleHunk.of({ id, accepted: true }),
+		userEvent: 'input.inline-edit'
+	});
+}
+
+export function rejectHunk(view: EditorView, id: number) {
+	view.dispatch({ effects: settleHunk.of({ id, accepted: false }) });
+}
+
+/** Accept every remaining hunk in one undoable change */
+export function acceptAllHunks(view: EditorView): boolean {
+	const session = getInlineEditSession(view.state);
+	if (!session || session.streaming || session.hunks.length === 0) return false;
+	view.dispatch({
+		changes: session.hunks.map(({ from, to, insert }) => ({ from, to, insert })),
+		effects: session.hunks.map((hunk) => settleHunk.of({ id: hunk.id, accepted: true })),
+		userEvent: 'input.inline-edit'
+	});
+	return true;
+}
+
+export function rejectAllHunks(view: EditorView): boolean {
+	const session = getInlineEditSession(view.state);
+	if (!session) return false;
+	view.dispatch({
+		effects: session.hunks.map((hunk) => settleHunk.of({ id: hunk.id, accepted: false }))
+	});
+	return true;
+}
+
+export function endInlineEdit(view: EditorView) {
+	if (getInlineEditSession(view.state)) view.dispatch({ effects: endEdit.of(null) });
+}
+
+/**
+ * Cmd+K inline edits: the selected lines are rewritten by a model and shown as a
+ * diff, with each hunk accepted or rejected in place
+ */
+export function inlineEditExtension(options: InlineEditOptions): Extension[] {
+	return [
+		inlineEditField,
+		inlineEditDecorations,
+		inlineEditTheme,
+		EditorView.updateListener.of((update) => {
+			const session = update.state.field(inlineEditField);
+			if (session !== update.startState.field(inlineEditField)) options.onChange(session);
+		}),
+		Prec.highest(
+			keymap.of([
+				{
+					key: 'Mod-k',
+					run: () => {
+						options.onOpen();
+						return true;
+					}
+				},
+				{ key: 'Mod-Enter', run: acceptAllHunks },
+				{
+					key: 'Escape',
+					run: (view) => {
+						const session = getInlineEditSession(view.state);
+						if (!session) return false;
+						if (session.streaming) endInlineEdit(view);
+						else rejectAllHunks(view);
+						return true;
+					}
+				}
+			])
+		)
+	];
+}
@@ -0,0 +1,1097 @@
+import type { Completion, CompletionContext, CompletionResult } from '@codemirror/autocomplete';
+import { lintGutter, type Diagnostic } from '@codemirror/lint';
+import {
+	EditorState,
+	RangeSetBuilder,
+	StateEffect,
+	StateField,
+	type Extension,
+	type Text
+} from '@codemirror/state';
+import {
+	Decoration,
+	EditorView,
+	hoverTooltip,
+	keymap,
+	showTooltip,
+	ViewPlugin,
+	WidgetType,
+	type DecorationSet,
+	type Tooltip,
+	type ViewUpdate
+} from '@codemirror/view';
+import DOMPurify from 'dompurify';
+import { marked } from 'marked';
+import { toast } from 'svelte-sonner';
+
+import type { LanguageServerDefinition } from '$lib/services/lsp/lsp-servers';
+import { diagnosticSourcesExtension, publishDiagnostics } from './codemirror-diagnostics';
+import type { EditorSettings } from '$lib/types/settings';
+import {
+	LSP_READY_METHOD,
+	type JsonRpcMessage,
+	type LspCodeLens,
+	type LspCompletionItem,
+	type LspCompletionList,
+	type LspDiagnostic,
+	type LspHover,
+	type LspInlayHint,
+	type LspLocation,
+	type LspLocationLink,
+	type LspPosition,
+	type LspReadyParams,
+	type LspServerCapabilities,
+	type LspSignatureHelp
+} from '$lib/types/lsp';
+
+const REQUEST_TIMEOUT = 15000;
+const CHANGE_DEBOUNCE = 300;
+const DECORATION_DEBOUNCE = 600;
+const MAX_RECONNECT_ATTEMPTS = 5;
+const MAX_COMPLETIONS = 300;
+
+// Settings pushed to servers that read them through workspace/configuration or
+// didChangeConfiguration (typescript-language-server reads code lens and inlay hint toggles here)
+const SERVER_SETTINGS = {
+	typescript: {
+		referencesCodeLens: { enabled: true, showOnAllFunctions: false },
+		implementationsCodeLens: { enabled: true },
+		inlayHints: {
+			includeInlayParameterNameHints: 'all',
+			includeInlayFunctionParameterTypeHints: true,
+			includeInlayVariableTypeHints: true,
+			includeInlayPropertyDeclarationTypeHints: true,
+			includeInlayFunctionLikeReturnTypeHints: true,
+			includeInlayEnumMemberValueHints: true
+		}
+	},
+	javascript: {
+		referencesCodeLens: { enabled: true, showOnAllFunctions: false },
+		inlayHints: {
+			includeInlayParameterNameHints: 'all',
+			includeInlayVariableTypeHints: true,
+			includeInlayFunctionLikeReturnTypeHints: true
+		}
+	},
+	python: { analysis: { autoSearchPaths: true, useLibraryCodeForTypes: true } }
+};
+
+const CLIENT_CAPABILITIES = {
+	textDocument: {
+		synchronization: { didSave: false, dynamicRegistration: false },
+		publishDiagnostics: { relatedInformation: false },
+		hover: { contentFormat: ['markdown', 'plaintext'] },
+		completion: {
+			completionItem: { snippetSupport: true, documentationFormat: ['markdown', 'plaintext'] },
+			contextSupport: true
+		},
+		signatureHelp: {
+			signatureInformation: {
+				documentationFormat: ['markdown', 'plaintext'],
+				parameterInformation: { labelOffsetSupport: true }
+			}
+		},
+		definition: { linkSupport: true },
+		inlayHint: { dynamicRegistration: false },
+		codeLens: { dynamicRegistration: false }
+	},
+	workspace: { configuration: true, workspaceFolders: true }
+};
+
+export function offsetToPosition(doc: Text, offset: number): LspPosition {
+	const line = doc.lineAt(Math.max(0, Math.min(offset, doc.length)));
+	return { line: line.number - 1, character: offset - line.from };
+}
+
+export function positionToOffset(doc: Text, position: LspPosition): number {
+	const line = doc.line(Math.max(1, Math.min(position.line + 1, doc.lines)));
+	return line.from + Math.max(0, Math.min(position.character, line.length));
+}
+
+/** Plain text for hover and documentation payloads */
+function markupToMarkdown(
+	contents: LspHover['contents'] | LspCompletionItem['documentation']
+): string {
+	if (!contents) return '';
+	if (typeof contents === 'string') return contents;
+	if (Array.isArray(contents)) return contents.map((part) => markupToMarkdown(part)).join('\n\n');
+	if ('kind' in contents) {
+		return contents.kind === 'markdown' ? contents.value : escapeMarkdown(contents.value);
+	}
+	return `\`\`\`${contents.language}\n${contents.value}\n\`\`\``;
+}
+
+function escapeMarkdown(text: string): string {
+	return text.replace(/([\\`*_{}[\]()#+\-.!<>])/g, '\\$1');
+}
+
+function renderMarkdown(markdown: string): HTMLElement {
+	const dom = document.createElement('div');
+	dom.className = 'cm-lsp-markdown';
+	dom.innerHTML = DOMPurify.sanitize(marked.parse(markdown, { async: false }));
+	return dom;
+}
+
+function lookupSetting(section: string | undefined): unknown {
+	if (!section) return SERVER_SETTINGS;
+	let value: unknown = SERVER_SETTINGS;
+	for (const key of section.split('.')) {
+		if (!value || typeof value !== 'object') return null;
+		value = (value as Record<string, unknown>)[key];
+	}
+	return value ?? null;
+}
+
+interface OpenDocument {
+	languageId: string;
+	version: number;
+	text: string;
+}
+
+/**
+ * JSON-RPC client for one language server of a project, spoken over the
+ * /api/projects/[id]/lsp/[server] WebSocket. Shared by every editor showing a
+ * file the server handles; documents are re-opened after a reconnect.
+ */
+export class LspClient {
+	capabilities: LspServerCapabilities | null = null;
+	rootUri: string | null = null;
+
+	private socket: WebSocket | null = null;
+	private connecting: Promise<void> | null = null;
+	private nextId = 1;
+	private pending = new Map<
+		number,
+		{ resolve: (value: unknown) => void; reject: (error: Error) => void; timer: number }
+	>();
+	private documents = new Map<string, OpenDocument>();
+	private diagnostics = new Map<string, LspDiagnostic[]>();
+	private diagnosticListeners = new Map<string, Set<(diagnostics: LspDiagnostic[]) => void>>();
+	private reconnectAttempts = 0;
+	private reconnectTimer: number | null = null;
+	private disposed = false;
+
+	constructor(
+		readonly projectId: string,
+		readonly server: LanguageServerDefinition
+	) {}
+
+	get initialized(): boolean {
+		return this.capabilities !== null;
+	}
+
+	/** Connect and initialize the server if that has not happened yet */
+	ready(): Promise<void> {
+		if (this.initialized) return Promise.resolve();
+		if (!this.connecting) {
+			this.connecting = this.connect().finally(() => {
+				this.connecting = null;
+			});
+		}
+		return this.connecting;
+	}
+
+	uriForPath(path: string): string | null {
+		if (!this.rootUri) return null;
+		return `${this.rootUri}/${path.split('/').map(encodeURIComponent).join('/')}`;
+	}
+
+	/** Project-relative path for a URI inside the workspace, null otherwise */
+	pathForUri(uri: string): string | null {
+		if (!this.rootUri || !uri.startsWith(`${this.rootUri}/`)) return null;
+		return decodeURIComponent(uri.slice(this.rootUri.length + 1));
+	}
+
+	async openDocument(path: string, languageId: string, text: string): Promise<string | null> {
+		await this.ready();
+		const uri = this.uriForPath(path);
+		if (!uri) return null;
+
+		const existing = this.documents.get(uri);
+		if (existing) {
+			this.changeDocument(uri, text);
+			return uri;
+		}
+
+		this.documents.set(uri, { languageId, version: 1, text });
+		this.notify('textDocument/didOpen', { textDocument: { uri, languageId, version: 1, text } });
+		return uri;
+	}
+
+	changeDocument(uri: string, text: string): void {
+		const document = this.documents.get(uri);
+		if (!document || document.text === text) return;
+
+		document.version += 1;
+		document.text = text;
+		if (this.initialized) {
+			this.notify('textDocument/didChange', {
+				textDocument: { uri, version: document.version },
+				contentChanges: [{ text }]
+			});
+		}
+	}
+
+	closeDocument(uri: string): void {
+		if (!this.documents.delete(uri)) return;
+		this.diagnostics.delete(uri);
+		if (this.initialized) {
+			this.notify('textDocument/didClose', { textDocument: { uri } });
+		}
+	}
+
+	onDiagnostics(uri: string, listener: (diagnostics: LspDiagnostic[]) => void): () => void {
+		let listeners = this.diagnosticListeners.get(uri);
+		if (!listeners) {
+			listeners = new Set();
+			this.diagnosticListeners.set(uri, listeners);
+		}
+		listeners.add(listener);
+
+		const current = this.diagnostics.get(uri);
+		if (current) setTimeout(() => listener(current));
+
+		return () => {
+			listeners.delete(listener);
+			if (listeners.size === 0) this.diagnosticListeners.delete(uri);
+		};
+	}
+
+	request<T>(method: string, params: unknown): Promise<T> {
+		const socket = this.socket;
+		if (!socket || socket.readyState !== WebSocket.OPEN) {
+			return Promise.reject(new Error(`${this.server.name} language server is not connected`));
+		}
+
+		const id = this.nextId++;
+		return new Promise<T>((resolve, reject) => {
+			const timer = window.setTimeout(() => {
+				this.pending.delete(id);
+				reject(new Error(`${method} timed out`));
+			}, REQUEST_TIMEOUT);
+			this.pending.set(id, { resolve: resolve as (value: unknown) => void, reject, timer });
+			socket.send(JSON.stringify({ jsonrpc: '2.0', id, method, params }));
+		});
+	}
+
+	notify(method: string, params: unknown): void {
+		if (this.socket?.readyState === WebSocket.OPEN) {
+			this.socket.send(JSON.stringify({ jsonrpc: '2.0', method, params }));
+		}
+	}
+
+	dispose(): void {
+		this.disposed = true;
+		if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+		this.socket?.close(1000);
+		this.socket = null;
+		this.rejectPending(new Error('Language server client disposed'));
+	}
+
+	private connect(): Promise<void> {
+		return new Promise<void>((resolve, reject) => {
+			const proto = window.location.protocol === 'https:' ? 'wss' : 'ws';
+			const socket = new WebSocket(
+				`${proto}://${window.location.host}/api/projects/${encodeURIComponent(this.projectId)}/lsp/${this.server.id}`
+			);
+			this.socket = socket;
+
+			socket.onmessage = (event) => {
+				let message: JsonRpcMessage;
+				try {
+					message = JSON.parse(event.data as string);
+				} catch {
+					return;
+				}
+
+				if (message.method === LSP_READY_METHOD) {
+					this.rootUri = (message.params as LspReadyParams).rootUri;
+					this.initialize().then(resolve, reject);
+					return;
+				}
+				this.handleMessage(message);
+			};
+
+			socket.onclose = (event) => {
+				if (this.socket === socket) this.socket = null;
+				this.capabilities = null;
+				this.rejectPending(new Error(`${this.server.name} language server disconnected`));
+				reject(new Error(event.reason || `${this.server.name} language server unavailable`));
+
+				if (!this.disposed && this.reconnectAttempts < MAX_RECONNECT_ATTEMPTS) {
+					const delay = 1000 * 2 ** this.reconnectAttempts++;
+					this.reconnectTimer = window.setTimeout(() => {
+						this.reconnectTimer = null;
+						if (this.documents.size > 0) this.ready().catch(() => {});
+					}, delay);
+				}
+			};
+		});
+	}
+
+	private async initialize(): Promise<void> {
+		const result = await this.request<{ capabilities: LspServerCapabilities }>('initialize', {
+			processId: null,
+			rootUri: this.rootUri,
+			workspaceFolders: [{ uri: this.rootUri, name: 'workspace' }],
+			capabilities: CLIENT_CAPABILITIES,
+			initializationOptions: {
+				preferences: SERVER_SETTINGS.typescript.inlayHints
+			}
+		});
+
+		this.capabilities = result.capabilities ?? {};
+		this.reconnectAttempts = 0;
+		this.notify('initialized', {});
+		this.notify('workspace/didChangeConfiguration', { settings: SERVER_SETTINGS });
+
+		for (const [uri, document] of this.documents) {
+			this.notify('textDocument/didOpen', {
+				textDocument: {
+					uri,
+					languageId: document.languageId,
+					version: document.version,
+					text: document.text
+				}
+			});
+		}
+	}
+
+	private handleMessage(message: JsonRpcMessage): void {
+		// Response to one of our requests
+		if (message.id !== undefined && message.id !== null && !message.method) {
+			const pending = this.pending.get(Number(message.id));
+			if (!pending) return;
+			this.pending.delete(Number(message.id));
+			clearTimeout(pending.timer);
+			if (message.error) pending.reject(new Error(message.error.message));
+			else pending.resolve(message.result);
+			return;
+		}
+
+		// Request from the server - answer the ones that expect data, acknowledge the rest
+		if (message.id !== undefined && message.id !== null && message.method) {
+			let result: unknown = null;
+			if (message.method === 'workspace/configuration') {
+				const items = (message.params as { items?: { section?: string }[] })?.items ?? [];
+				result = items.map((item) => lookupSetting(item.section));
+			} else if (message.method === 'workspace/workspaceFolders') {
+				result = [{ uri: this.rootUri, name: 'workspace' }];
+			}
+			this.socket?.send(JSON.stringify({ jsonrpc: '2.0', id: message.id, result }));
+			return;
+		}
+
+		if (message.method === 'textDocument/publishDiagnostics') {
+			const { uri, diagnostics } = message.params as { uri: string; diagnostics: LspDiagnostic[] };
+			this.diagnostics.set(uri, diagnostics);
+			for (const listener of this.diagnosticListeners.get(uri) ?? []) {
+				listener(diagnostics);
+			}
+		}
+	}
+
+	private rejectPending(error: Error): void {
+		for (const pending of this.pending.values()) {
+			clearTimeout(pending.timer);
+			pending.reject(error);
+		}
+		this.pending.clear();
+	}
+}
+
+const clients = new Map<string, LspClient>();
+
+/** Shared client for a project's language server */
+export function getLspClient(projectId: string, server: LanguageServerDefinition): LspClient {
+	const key = `${projectId}:${server.id}`;
+	let client = clients.get(key);
+	if (!client) {
+		client = new LspClient(projectId, server);
+		clients.set(key, client);
+	}
+	return client;
+}
+
+export function disposeLspClients(): void {
+	for (const client of clients.values()) {
+		client.dispose();
+	}
+	clients.clear();
+}
+
+export interface LspExtensionOptions {
+	client: LspClient;
+	/** Project-relative path of the edited file */
+	path: string;
+	languageId: string;
+	settings: Pick<EditorSettings, 'codeCompletion' | 'parameterHints' | 'inlayHints' | 'codeLens'>;
+	/** Open another project file at a position (F12 into a different file) */
+	onNavigate: (path: string, position: LspPosition) => void;
+}
+
+/** Keeps the server's copy of the document in sync and exposes it to the other features */
+class LspDocument {
+	uri: string | null = null;
+	private changeTimer: number | null = null;
+	private unsubscribe: (() => void) | null = null;
+	private destroyed = false;
+
+	constructor(
+		private view: EditorView,
+		readonly options: LspExtensionOptions
+	) {
+		options.client
+			.openDocument(options.path, options.languageId, view.state.doc.toString())
+			.then((uri) => {
+				if (!uri || this.destroyed) return;
+				this.uri = uri;
+				this.unsubscribe = options.client.onDiagnostics(uri, (diagnostics) =>
+					this.showDiagnostics(diagnostics)
+				);
+				view.dispatch({ effects: lspDocumentReady.of(null) });
+			})
+			.catch((error) => {
+				console.warn(`${options.client.server.name} language server unavailable:`, error);
+			});
+	}
+
+	get client(): LspClient {
+		return this.options.client;
+	}
+
+	update(update: ViewUpdate) {
+		if (!update.docChanged) return;
+		if (this.changeTimer) clearTimeout(this.changeTimer);
+		this.changeTimer = window.setTimeout(() => this.flush(), CHANGE_DEBOUNCE);
+	}
+
+	/** Send pending edits so positions in the next request line up */
+	flush(): void {
+		if (this.changeTimer) {
+			clearTimeout(this.changeTimer);
+			this.changeTimer = null;
+		}
+		if (this.uri) {
+			this.client.changeDocument(this.uri, this.view.state.doc.toString());
+		}
+	}
+
+	destroy() {
+		this.destroyed = true;
+		if (this.changeTimer) clearTimeout(this.changeTimer);
+		this.unsubscribe?.();
+		if (this.uri) this.client.closeDocument(this.uri);
+	}
+
+	private showDiagnostics(diagnostics: LspDiagnostic[]) {
+		if (this.destroyed) return;
+		const doc = this.view.state.doc;
+		const converted: Diagnostic[] = diagnostics.map((diagnostic) => {
+			const from = positionToOffset(doc, diagnostic.range.start);
+			const to = Math.max(from, positionToOffset(doc, diagnostic.range.end));
+			return {
+				from,
+				to,
+				severity:
+					diagnostic.severity === 1
+						? 'error'
+						: diagnostic.severity === 2
+							? 'warning'
+							: diagnostic.severity === 4
+								? 'hint'
+								: 'info',
+				source: diagnostic.source,
+				message: diagnostic.code ? `${diagnostic.message} (${diagnostic.code})` : diagnostic.message
+			};
+		});
+		publishDiagnostics(this.view, 'lsp', converted);
+	}
+}
+
+/** Dispatched once the document is open on the server so dependent features can load */
+const lspDocumentReady = StateEffect.define<null>();
+
+function documentPlugin(options: LspExtensionOptions) {
+	return ViewPlugin.define((view) => new LspDocument(view, options));
+}
+
+type DocumentPlugin = ReturnType<typeof documentPlugin>;
+
+function activeDocument(view: EditorView, plugin: DocumentPlugin): LspDocument | null {
+	const document = view.plugin(plugin);
+	if (!document?.uri || !document.client.initialized) return null;
+	document.flush();
+	return document;
+}
+
+function hoverExtension(plugin: DocumentPlugin): Extension {
+	return hoverTooltip(async (view, pos) => {
+		const document = activeDocument(view, plugin);
+		if (!document?.client.capabilities?.hoverProvider) return null;
+
+		const hover = await document.client
+			.request<LspHover | null>('textDocument/hover', {
+				textDocument: { uri: document.uri },
+				position: offsetToPosition(view.state.doc, pos)
+			})
+			.catch(() => null);
+		const markdown = hover ? markupToMarkdown(hover.contents).trim() : '';
+		if (!hover || !markdown) return null;
+
+		const from = hover.range ? positionToOffset(view.state.doc, hover.range.start) : pos;
+		const to = hover.range ? positionToOffset(view.state.doc, hover.range.end) : pos;
+		return {
+			pos: from,
+			end: to,
+			above: true,
+			create: () => {
+				const dom = renderMarkdown(markdown);
+				dom.classList.add('cm-lsp-hover');
+				return { dom };
+			}
+		};
+	});
+}
+
+const COMPLETION_KINDS: Record<number, string> = {
+	2: 'method',
+	3: 'function',
+	4: 'function',
+	5: 'property',
+	6: 'variable',
+	7: 'class',
+	8: 'interface',
+	9: 'namespace',
+	10: 'property',
+	13: 'enum',
+	14: 'keyword',
+	20: 'enum',
+	21: 'constant',
+	22: 'class',
+	25: 'type'
+};
+
+/** Flatten an LSP snippet (`foo(${1:bar})`) into plain text */
+function snippetToText(snippet: string): string {
+	return snippet
+		.replace(/\$\{\d+:([^}]*)\}/g, '$1')
+		.replace(/\$\{\d+\}|\$\d+/g, '')
+		.replace(/\\([$}\\])/g, '$1');
+}
+
+function completionSource(plugin: DocumentPlugin) {
+	return async (context: CompletionContext): Promise<CompletionResult | null> => {
+		const view = context.view;
+		if (!view) return null;
+		const document = activeDocument(view, plugin);
+		const provider = document?.client.capabilities?.completionProvider;
+		if (!document || !provider) return null;
+
+		const word = context.matchBefore(/[\w$]*/);
+		const before = context.state.sliceDoc(context.pos - 1, context.pos);
+		const triggered = (provider.triggerCharacters ?? []).includes(before);
+		if (!context.explicit && !triggered && (!word || word.from === word.to)) return null;
+
+		const result = await document.client
+			.request<LspCompletionList | LspCompletionItem[] | null>('textDocument/completion', {
+				textDocument: { uri: document.uri },
+				position: offsetToPosition(context.state.doc, context.pos),
+				context: triggered
+					? { triggerKind: 2, triggerCharacter: before }
+					: { triggerKind: context.explicit ? 1 : 3 }
+			})
+			.catch(() => null);
+		if (!result || context.aborted) return null;
+
+		const items = (Array.isArray(result) ? result : result.items)
+			.slice()
+			.sort((a, b) => (a.sortText ?? a.label).localeCompare(b.sortText ?? b.label))
+			.slice(0, MAX_COMPLETIONS);
+		const from = word?.from ?? context.pos;
+
+		const options: Completion[] = items.map((item, index) => {
+			const edit = item.textEdit;
+			const newText = edit?.newText ?? item.insertText ?? item.label;
+			const insert = item.insertTextFormat === 2 ? snippetToText(newText) : newText;
+			const range = edit ? ('range' in edit ? edit.range : edit.replace) : null;
+			const documentation = markupToMarkdown(item.documentation);
+
+			return {
+				label: item.label,
+				detail: item.detail,
+				type: item.kind ? COMPLETION_KINDS[item.kind] : undefined,
+				boost: Math.max(-99, 99 - index),
+				info: documentation ? () => renderMarkdown(documentation) : undefined,
+				apply: range
+					? (applyView: EditorView, _completion: Completion, _from: number, to: number) => {
+							const start = positionToOffset(applyView.state.doc, range.start);
+							applyView.dispatch({
+								changes: { from: Math.min(start, to), to, insert },
+								selection: { anchor: Math.min(start, to) + insert.length }
+							});
+						}
+					: insert
+			};
+		});
+
+		const incomplete = !Array.isArray(result) && result.isIncomplete;
+		return { from, options, validFor: incomplete ? undefined : /^[\w$]*$/ };
+	};
+}
+
+const setSignatureHelp = StateEffect.define<Tooltip | null>();
+
+const signatureHelpField = StateField.define<Tooltip | null>({
+	create: () => null,
+	update(tooltip, tr) {
+		for (const effect of tr.effects) {
+			if (effect.is(setSignatureHelp)) return effect.value;
+		}
+		if (tooltip && tr.docChanged) return { ...tooltip, pos: tr.changes.mapPos(tooltip.pos) };
+		return tooltip;
+	},
+	provide: (field) => showTooltip.from(field)
+});
+
+function renderSignature(help: LspSignatureHelp): HTMLElement | null {
+	const signature = help.signatures[help.activeSignature ?? 0] ?? help.signatures[0];
+	if (!signature) return null;
+
+	const dom = document.createElement('div');
+	dom.className = 'cm-lsp-signature';
+	const label = document.createElement('code');
+	const activeIndex = signature.activeParameter ?? help.activeParameter ?? 0;
+	const active = signature.parameters?.[activeIndex]?.label;
+	let range: [number, number] | null = null;
+	if (Array.isArray(active)) range = active;
+	else if (typeof active === 'string') {
+		const start = signature.label.indexOf(active);
+		if (start >= 0) range = [start, start + active.length];
+	}
+
+	if (range) {
+		label.append(signature.label.slice(0, range[0]));
+		const strong = document.createElement('strong');
+		strong.textContent = signature.label.slice(range[0], range[1]);
+		label.append(strong, signature.label.slice(range[1]));
+	} else {
+		label.textContent = signature.label;
+	}
+	dom.append(label);
+
+	const documentation = markupToMarkdown(signature.documentation);
+	if (documentation) dom.append(renderMarkdown(documentation));
+	return dom;
+}
+
+function signatureHelpExtension(plugin: DocumentPlugin): Extension {
+	const requestHelp = ViewPlugin.define((view) => {
+		let generation = 0;
+
+		return {
+			update(update: ViewUpdate) {
+				const active = update.state.field(signatureHelpField) !== null;
+				if (!update.docChanged && !(active && update.selectionSet)) return;
+
+				const document = view.plugin(plugin);
+				const provider = document?.client.capabilities?.signatureHelpProvider;
+				if (!document?.uri || !provider) return;
+
+				const pos = update.state.selection.main.head;
+				const typed = update.state.sliceDoc(pos - 1, pos);
+				const triggers = provider.triggerCharacters ?? ['(', ','];
+				const retriggers = provider.retriggerCharacters ?? [];
+				if (typed === ')' && active) {
+					setTimeout(() => view.dispatch({ effects: setSignatureHelp.of(null) }));
+					return;
+				}
+				if (!active && !(update.docChanged && triggers.includes(typed))) return;
+
+				const current = ++generation;
+				setTimeout(async () => {
+					const doc = activeDocument(view, plugin);
+					if (!doc) return;
+					const help = await doc.client
+						.request<LspSignatureHelp | null>('textDocument/signatureHelp', {
+							textDocument: { uri: doc.uri },
+							position: offsetToPosition(view.state.doc, pos),
+							context: {
+								triggerKind: triggers.includes(typed) || retriggers.includes(typed) ? 2 : 3,
+								triggerCharacter: typed || undefined,
+								isRetrigger: active
+							}
+						})
+						.catch(() => null);
+					if (current !== generation) return;
+
+					const dom = help ? renderSignature(help) : null;
+					view.dispatch({
+						effects: setSignatureHelp.of(dom ? { pos, above: true, create: () => ({ dom }) } : null)
+					});
+				});
+			}
+		};
+	});
+
+	return [
+		signatureHelpField,
+		requestHelp,
+		keymap.of([
+			{
+				key: 'Escape',
+				run: (view) => {
+					if (!view.state.field(signatureHelpField)) return false;
+					view.dispatch({ effects: setSignatureHelp.of(null) });
+					return true;
+				}
+			}
+		])
+	];
+}
+
+class InlayHintWidget extends WidgetType {
+	constructor(
+		readonly label: string,
+		readonly paddingLeft: boolean,
+		readonly paddingRight: boolean
+	) {
+		super();
+	}
+
+	eq(other: InlayHintWidget) {
+		return (
+			other.label === this.label &&
+			other.paddingLeft === this.paddingLeft &&
+			other.paddingRight === this.paddingRight
+		);
+	}
+
+	toDOM() {
+		const span = document.createElement('span');
+		span.className = 'cm-lsp-inlay-hint';
+		span.textContent = `${this.paddingLeft ? ' ' : ''}${this.label}${this.paddingRight ? ' ' : ''}`;
+		return span;
+	}
+
+	ignoreEvent() {
+		return true;
+	}
+}
+
+function inlayHintExtension(plugin: DocumentPlugin): Extension {
+	return ViewPlugin.fromClass(
+		class {
+			decorations: DecorationSet = Decoration.none;
+			private timer: number | null = null;
+			private generation = 0;
+
+			constructor(private view: EditorView) {}
+
+			update(update: ViewUpdate) {
+				this.decorations = this.decorations.map(update.changes);
+				const ready = update.transactions.some((tr) =>
+					tr.effects.some((effect) => effect.is(lspDocumentReady))
+				);
+				if (ready || update.docChanged) this.schedule();
+			}
+
+			destroy() {
+				if (this.timer) clearTimeout(this.timer);
+			}
+
+			private schedule() {
+				if (this.timer) clearTimeout(this.timer);
+				this.timer = window.setTimeout(() => this.refresh(), DECORATION_DEBOUNCE);
+			}
+
+			private async refresh() {
+				const document = activeDocument(this.view, plugin);
+				if (!document?.client.capabilities?.inlayHintProvider) return;
+
+				const current = ++this.generation;
+				const doc = this.view.state.doc;
+				const hints = await document.client
+					.request<LspInlayHint[] | null>('textDocument/inlayHint', {
+						textDocument: { uri: document.uri },
+						range: { start: { line: 0, character: 0 }, end: offsetToPosition(doc, doc.length) }
+					})
+					.catch(() => null);
+				if (current !== this.generation || this.view.state.doc !== doc) return;
+
+				const builder = new RangeSetBuilder<Decoration>();
+				const sorted = (hints ?? [])
+					.map((hint) => ({ hint, pos: positionToOffset(doc, hint.position) }))
+					.sort((a, b) => a.pos - b.pos);
+				for (const { hint, pos } of sorted) {
+					const label =
+						typeof hint.label === 'string'
+							? hint.label
+							: hint.label.map((part) => part.value).join('');
+					builder.add(
+						pos,
+						pos,
+						Decoration.widget({
+							widget: new InlayHintWidget(label, !!hint.paddingLeft, !!hint.paddingRight),
+							side: 1
+						})
+					);
+				}
+				this.decorations = builder.finish();
+				this.view.dispatch({});
+			}
+		},
+		{ decorations: (plugin) => plugin.decorations }
+	);
+}
+
+class CodeLensWidget extends WidgetType {
+	constructor(
+		readonly titles: { title: string; target: LspLocation | null }[],
+		readonly indent: string,
+		readonly onOpen: (target: LspLocation) => void
+	) {
+		super();
+	}
+
+	eq(other: CodeLensWidget) {
+		return (
+			other.indent === this.indent &&
+			other.titles.length === this.titles.length &&
+			other.titles.every((lens, index) => lens.title === this.titles[index].title)
+		);
+	}
+
+	toDOM() {
+		const dom = document.createElement('div');
+		dom.className = 'cm-lsp-code-lens';
+		dom.textContent = this.indent;
+		this.titles.forEach((lens, index) => {
+			if (index > 0) dom.append(' | ');
+			const item = document.createElement('span');
+			item.textContent = lens.title;
+			const target = lens.target;
+			if (target) {
+				item.className = 'cm-lsp-code-lens-action';
+				item.onmousedown = (event) => {
+					event.preventDefault();
+					this.onOpen(target);
+				};
+			}
+			dom.append(item);
+		});
+		return dom;
+	}
+
+	ignoreEvent() {
+		return false;
+	}
+}
+
+const setCodeLenses = StateEffect.define<DecorationSet>();
+
+// Block widgets have to come from a state field rather than a view plugin
+const codeLensField = StateField.define<DecorationSet>({
+	create: () => Decoration.none,
+	update(lenses, tr) {
+		for (const effect of tr.effects) {
+			if (effect.is(setCodeLenses)) return effect.value;
+		}
+		return lenses.map(tr.changes);
+	},
+	provide: (field) => EditorView.decorations.from(field)
+});
+
+function codeLensExtension(plugin: DocumentPlugin, options: LspExtensionOptions): Extension {
+	const fetchLenses = ViewPlugin.fromClass(
+		class {
+			private timer: number | null = null;
+			private generation = 0;
+
+			constructor(private view: EditorView) {}
+
+			update(update: ViewUpdate) {
+				const ready = update.transactions.some((tr) =>
+					tr.effects.some((effect) => effect.is(lspDocumentReady))
+				);
+				if (ready || update.docChanged) {
+					if (this.timer) clearTimeout(this.timer);
+					this.timer = window.setTimeout(() => this.refresh(), DECORATION_DEBOUNCE * 2);
+				}
+			}
+
+			destroy() {
+				if (this.timer) clearTimeout(this.timer);
+			}
+
+			private async refresh() {
+				const document = activeDocument(this.view, plugin);
+				const provider = document?.client.capabilities?.codeLensProvider;
+				if (!document || !provider) return;
+
+				const current = ++this.generation;
+				const doc = this.view.state.doc;
+				const lenses =
+					(await document.client
+						.request<LspCodeLens[] | null>('textDocument/codeLens', {
+							textDocument: { uri: document.uri }
+						})
+						.catch(() => null)) ?? [];
+				const resolved = await Promise.all(
+					lenses.map((lens) =>
+						lens.command || !provider.resolveProvider
+							? lens
+							: document.client.request<LspCodeLens>('codeLens/resolve', lens).catch(() => lens)
+					)
+				);
+				if (current !== this.generation || this.view.state.doc !== doc) return;
+
+				const byLine = new Map<number, { title: string; target: LspLocation | null }[]>();
+				for (const lens of resolved) {
+					if (!lens.command?.title) continue;
+					const line = doc.line(Math.min(lens.range.start.line + 1, doc.lines));
+					const locations = lens.command.arguments?.[2];
+					const target =
+						Array.isArray(locations) && locations.length > 0 ? (locations[0] as LspLocation) : null;
+					const entries = byLine.get(line.from) ?? [];
+					entries.push({ title: lens.command.title, target });
+					byLine.set(line.from, entries);
+				}
+
+				const builder = new RangeSetBuilder<Decoration>();
+				for (const from of [...byLine.keys()].sort((a, b) => a - b)) {
+					const indent = /^\s*/.exec(doc.lineAt(from).text)?.[0] ?? '';
+					builder.add(
+						from,
+						from,
+						Decoration.widget({
+							widget: new CodeLensWidget(byLine.get(from)!, indent, (target) =>
+								navigateTo(this.view, document, target, options)
+							),
+							side: -1,
+							block: true
+						})
+					);
+				}
+				this.view.dispatch({ effects: setCodeLenses.of(builder.finish()) });
+			}
+		}
+	);
+
+	return [codeLensField, fetchLenses];
+}
+
+function navigateTo(
+	view: EditorView,
+	document: LspDocument,
+	target: LspLocation,
+	options: LspExtensionOptions
+): void {
+	if (target.uri === document.uri) {
+		const anchor = positionToOffset(view.state.doc, target.range.start);
+		view.dispatch({
+			selection: { anchor },
+			effects: EditorView.scrollIntoView(anchor, { y: 'center' })
+		});
+		view.focus();
+		return;
+	}
+
+	const path = document.client.pathForUri(target.uri);
+	if (path) {
+		options.onNavigate(path, target.range.start);
+	} else {
+		toast.info('The definition is outside the project workspace');
+	}
+}
+
+function definitionKeymap(plugin: DocumentPlugin, options: LspExtensionOptions): Extension {
+	return keymap.of([
+		{
+			key: 'F12',
+			preventDefault: true,
+			run: (view) => {
+				const document = activeDocument(view, plugin);
+				if (!document?.client.capabilities?.definitionProvider) return false;
+
+				document.client
+					.request<LspLocation | LspLocation[] | LspLocationLink[] | null>(
+						'textDocument/definition',
+						{
+							textDocument: { uri: document.uri },
+							position: offsetToPosition(view.state.doc, view.state.selection.main.head)
+						}
+					)
+					.then((result) => {
+						const first = Array.isArray(result) ? result[0] : result;
+						if (!first) {
+							toast.info('No definition found');
+							return;
+						}
+						const target: LspLocation =
+							'targetUri' in first
+								? { uri: first.targetUri, range: first.targetSelectionRange }
+								: first;
+						navigateTo(view, document, target, options);
+					})
+					.catch((error) => {
+						console.warn('Go to definition failed:', error);
+					});
+				return true;
+			}
+		}
+	]);
+}
+
+const lspTheme = EditorView.baseTheme({
+	'.cm-lsp-hover, .cm-lsp-signature': {
+		maxWidth: '600px',
+		maxHeight: '320px',
+		overflow: 'auto',
+		padding: '4px 8px',
+		fontSize: '12px'
+	},
+	'.cm-lsp-markdown pre': { margin: '4px 0', whiteSpace: 'pre-wrap' },
+	'.cm-lsp-markdown p': { margin: '4px 0' },
+	'.cm-lsp-signature strong': { textDecoration: 'underline' },
+	'.cm-lsp-inlay-hint': {
+		opacity: '0.6',
+		fontSize: '0.9em',
+		borderRadius: '3px',
+		padding: '0 2px',
+		backgroundColor: 'rgba(127, 127, 127, 0.15)'
+	},
+	'.cm-lsp-code-lens': { opacity: '0.6', fontSize: '0.85em', whiteSpace: 'pre' },
+	'.cm-lsp-code-lens-action': { cursor: 'pointer' },
+	'.cm-lsp-code-lens-action:hover': { textDecoration: 'underline', opacity: '1' }
+});
+
+/** Diagnostics, hover, completion, F12 navigation and the optional hint features for one file */
+export function lspExtension(options: LspExtensionOptions): Extension[] {
+	const plugin = documentPlugin(options);
+	const extensions: Extension[] = [
+		plugin,
+		diagnosticSourcesExtension,
+		lintGutter(),
+		hoverExtension(plugin),
+		definitionKeymap(plugin, options),
+		lspTheme
+	];
+
+	if (options.settings.codeCompletion) {
+		extensions.push(
+			EditorState.languageData.of(() => [{ autocomplete: completionSource(plugin) }])
+		);
+	}
+	if (options.settings.parameterHints) {
+		extensions.push(signatureHelpExtension(plugin));
+	}
+	if (options.settings.inlayHints) {
+		extensions.push(inlayHintExtension(plugin));
+	}
+	if (options.settings.codeLens) {
+		extensions.push(codeLensExtension(plugin, options));
+	}
+
+	return extensions;
+}
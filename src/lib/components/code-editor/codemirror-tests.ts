@@ -0,0 +1,141 @@
+import {
+	RangeSet,
+	RangeSetBuilder,
+	StateEffect,
+	StateField,
+	Transaction,
+	type Extension
+} from '@codemirror/state';
+import { EditorView, gutter, GutterMarker, ViewPlugin, type ViewUpdate } from '@codemirror/view';
+import { get } from 'svelte/store';
+
+import { locateTest } from '$lib/services/testing/test-reports';
+import { testResultsByPath, testsActions, testsStore } from '$lib/stores/tests.store';
+import type { TestCase } from '$lib/types/testing';
+
+const STATUS_SYMBOL: Record<TestCase['status'], string> = {
+	passed: '✓',
+	failed: '✗',
+	skipped: '○'
+};
+
+class TestMarker extends GutterMarker {
+	constructor(readonly test: TestCase) {
+		super();
+	}
+
+	eq(other: TestMarker): boolean {
+		return (
+			other.test.id === this.test.id &&
+			other.test.status === this.test.status &&
+			other.test.duration === this.test.duration
+		);
+	}
+
+	toDOM(): HTMLElement {
+		const mark = document.createElement('span');
+		mark.className = `cm-test-marker cm-test-${this.test.status}`;
+		mark.textContent = STATUS_SYMBOL[this.test.status];
+		const duration = this.test.duration !== undefined ? ` (${this.test.duration} ms)` : '';
+		mark.title = this.test.failure
+			? `${this.test.name}: ${this.test.failure.message}\nClick to run again`
+			: `${this.test.name}: ${this.test.status}${duration}\nClick to run again`;
+		return mark;
+	}
+}
+
+const setTestMarkers = StateEffect.define<RangeSet<TestMarker>>();
+
+const testMarkerField = StateField.define<RangeSet<TestMarker>>({
+	create: () => RangeSet.empty,
+	update(markers, tr) {
+		let next = markers.map(tr.changes);
+		for (const effect of tr.effects) {
+			if (effect.is(setTestMarkers)) next = effect.value;
+		}
+		return next;
+	}
+});
+
+const testTheme = EditorView.baseTheme({
+	'.cm-test-gutter .cm-gutterElement': {
+		cursor: 'pointer',
+		padding: '0 2px',
+		textAlign: 'center'
+	},
+	'.cm-test-marker': { fontSize: '11px', fontWeight: 'bold' },
+	'.cm-test-passed': { color: '#16a34a' },
+	'.cm-test-failed': { color: '#dc2626' },
+	'.cm-test-skipped': { color: '#848484' }
+});
+
+/** Places the latest results of a file's tests next to their declarations */
+class TestGutter {
+	private unsubscribe: () => void;
+
+	constructor(
+		private view: EditorView,
+		private path: string
+	) {
+		this.unsubscribe = testResultsByPath.subscribe(() => queueMicrotask(() => this.show()));
+	}
+
+	update(update: ViewUpdate) {
+		// Edits move the markers along; content loaded from outside needs them placed again
+		if (!update.docChanged) return;
+		const typed = update.transactions.some((tr) => tr.annotation(Transaction.userEvent));
+		if (!typed) queueMicrotask(() => this.show());
+	}
+
+	destroy() {
+		this.unsubscribe();
+	}
+
+	private show() {
+		if (!this.view.dom.isConnected) return;
+		const doc = this.view.state.doc;
+		const tests = get(testResultsByPath).get(this.path) ?? [];
+		const source = tests.some((test) => !test.line) ? doc.toString() : '';
+
+		const placed = tests
+			.map((test) => ({ test, line: test.line ?? locateTest(source, test) }))
+			.filter((entry): entry is { test: TestCase; line: number } =>
+				Boolean(entry.line && entry.line <= doc.lines)
+			)
+			.sort((a, b) => a.line - b.line);
+
+		const builder = new RangeSetBuilder<TestMarker>();
+		let previous = 0;
+		for (const { test, line } of placed) {
+			// One marker per line; a failure wins over the other tests declared there
+			if (line === previous) continue;
+			previous = line;
+			const worst = placed.find((entry) => entry.line === line && entry.test.status === 'failed');
+			const from = doc.line(line).from;
+			builder.add(from, from, new TestMarker(worst?.test ?? test));
+		}
+		this.view.dispatch({ effects: setTestMarkers.of(builder.finish()) });
+	}
+}
+
+/** Pass/fail markers for the tests in the file at `path` (project-relative) */
+export function testResultsExtension(path: string): Extension[] {
+	return [
+		testMarkerField,
+		testTheme,
+		gutter({
+			class: 'cm-test-gutter',
+			markers: (view) => view.state.field(testMarkerField),
+			domEventHandlers: {
+				mousedown(view, line) {
+					const marker = view.state.field(testMarkerField).iter(line.from);
+					if (!marker.value || marker.from !== line.from) return false;
+					const { projectId } = get(testsStore);
+					if (projectId) void testsActions.run(projectId, { test: marker.value.test });
+					return true;
+				}
+			}
+		}),
+		ViewPlugin.define((view) => new TestGutter(view, path))
+	];
+}
@@ -9,5 +9,7 @@ export type SidebarViewId =
 	| 'explorer'
 	| 'search'
 	| 'source-control'
+	| 'tasks'
+	| 'testing'
 	| 'debug'
 	| 'extensions';
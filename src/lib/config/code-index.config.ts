@@ -0,0 +1,83 @@
+/**
+ * Code Index Configuration
+ * Configuration for semantic code search: chunking, embeddings and vector storage
+ */
+
+import { env } from '$env/dynamic/private';
+
+export type CodeIndexEmbedderType = 'local' | 'openai';
+export type CodeIndexStoreType = 'memory' | 'qdrant';
+
+export const codeIndexConfig = {
+	enabled: env.CODE_INDEX_ENABLED !== 'false',
+	rootPath: env.CODE_INDEX_ROOT || '/home/daytona',
+	embedder: {
+		type: (env.CODE_INDEX_EMBEDDER || 'local') as CodeIndexEmbedderType,
+		model: env.CODE_INDEX_EMBEDDING_MODEL || 'text-embedding-3-small',
+		dimensions: parseInt(env.CODE_INDEX_EMBEDDING_DIMENSIONS || '0'), // 0 = embedder default
+		apiKey: env.OPENAI_API_KEY || '',
+		batchSize: parseInt(env.CODE_INDEX_EMBEDDING_BATCH_SIZE || '64')
+	},
+	store: {
+		type: (env.CODE_INDEX_STORE || 'memory') as CodeIndexStoreType,
+		qdrantUrl: env.QDRANT_URL || 'http://localhost:6333',
+		qdrantApiKey: env.QDRANT_API_KEY || '',
+		collection: env.QDRANT_COLLECTION || 'aura_code_chunks'
+	},
+	chunking: {
+		maxChunkLines: parseInt(env.CODE_INDEX_MAX_CHUNK_LINES || '120'),
+		windowLines: parseInt(env.CODE_INDEX_WINDOW_LINES || '60'),
+		windowOverlap: parseInt(env.CODE_INDEX_WINDOW_OVERLAP || '10')
+	},
+	limits: {
+		maxFiles: parseInt(env.CODE_INDEX_MAX_FILES || '5000'),
+		maxFileSize: parseInt(env.CODE_INDEX_MAX_FILE_SIZE || '262144'), // 256KB
+		updateDebounceMs: parseInt(env.CODE_INDEX_UPDATE_DEBOUNCE || '500')
+	},
+	ignoredDirectories: [
+		'node_modules',
+		'.git',
+		'.svelte-kit',
+		'dist',
+		'build',
+		'.next',
+		'.nuxt',
+		'coverage',
+		'target',
+		'vendor',
+		'__pycache__',
+		'.venv',
+		'venv'
+	],
+	extensions: [
+		'ts',
+		'tsx',
+		'js',
+		'jsx',
+		'mjs',
+		'cjs',
+		'svelte',
+		'vue',
+		'py',
+		'go',
+		'rs',
+		'java',
+		'rb',
+		'php',
+		'cs',
+		'c',
+		'h',
+		'cpp',
+		'hpp',
+		'css',
+		'scss',
+		'html',
+		'md',
+		'json',
+		'yaml',
+		'yml',
+		'toml',
+		'sql',
+		'sh'
+	]
+} as const;
@@ -1,9 +1,12 @@
 /**
  * Sandbox Configuration
- * Configuration for Daytona sandbox provider
+ * Configuration for Daytona, local Docker and local filesystem sandbox providers
  */
 
 import { env } from '$env/dynamic/private';
+import type { SandboxProvider } from '$lib/types/sandbox.js';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
 
 // Daytona Configuration
 export const daytonaConfig = {
@@ -28,9 +31,52 @@ export const daytonaConfig = {
 	}
 } as const;
 
+// Local Docker Configuration
+export const dockerConfig = {
+	enabled: env.DOCKER_SANDBOX_ENABLED === 'true',
+	binary: env.DOCKER_BINARY || 'docker',
+	host: env.DOCKER_HOST,
+	image: env.DOCKER_SANDBOX_IMAGE || 'node:20-bookworm',
+	workspaceDir: env.DOCKER_SANDBOX_WORKSPACE || '/workspace',
+	network: env.DOCKER_SANDBOX_NETWORK || 'bridge',
+	snapshotRepository: env.DOCKER_SNAPSHOT_REPOSITORY || 'aura-snapshots',
+	limits: {
+		maxConcurrentContainers: parseInt(env.DOCKER_MAX_CONTAINERS || '10'),
+		maxFileSize: parseInt(env.DOCKER_MAX_FILE_SIZE || '104857600'), // 100MB
+		maxExecutionTime: parseInt(env.DOCKER_MAX_EXEC_TIME || '300000'), // 5 minutes
+		commandTimeout: parseInt(env.DOCKER_COMMAND_TIMEOUT || '60000') // 1 minute
+	}
+} as const;
+
+// Local Filesystem Configuration (tests and offline development only; commands are not isolated)
+export const localFsConfig = {
+	enabled: env.LOCAL_SANDBOX_ENABLED === 'true',
+	rootDir: env.LOCAL_SANDBOX_ROOT || join(tmpdir(), 'aura-sandboxes'),
+	workspaceDir: env.LOCAL_SANDBOX_WORKSPACE || '/workspace',
+	shell: env.LOCAL_SANDBOX_SHELL || '/bin/sh',
+	limits: {
+		maxSandboxes: parseInt(env.LOCAL_SANDBOX_MAX || '20'),
+		maxFileSize: parseInt(env.LOCAL_SANDBOX_MAX_FILE_SIZE || '52428800'), // 50MB
+		commandTimeout: parseInt(env.LOCAL_SANDBOX_COMMAND_TIMEOUT || '60000'), // 1 minute
+		maxLogEntries: parseInt(env.LOCAL_SANDBOX_MAX_LOG_ENTRIES || '1000')
+	}
+} as const;
+
+const SANDBOX_PROVIDERS: SandboxProvider[] = ['daytona', 'docker', 'local'];
+
+// Local sandboxes only live in memory and are gone after a restart, so they are
+// never used for projects that do not ask for one
+const DEFAULT_PROVIDERS: SandboxProvider[] = ['daytona', 'docker'];
+
+function defaultSandboxProvider(): SandboxProvider {
+	const provider = env.SANDBOX_DEFAULT_PROVIDER as SandboxProvider | undefined;
+	return provider && DEFAULT_PROVIDERS.includes(provider) ? provider : 'daytona';
+}
+
 // Provider Priority Configuration
 export const providerConfig = {
-	defaultProvider: 'daytona' as const,
+	// Used for new projects that do not pick a provider
+	defaultProvider: defaultSandboxProvider(),
 	failover: {
 		enabled: env.SANDBOX_FAILOVER !== 'false',
 		maxRetries: parseInt(env.SANDBOX_MAX_RETRIES || '2'),
@@ -195,9 +241,38 @@ export const templateConfig = {
 	}
 } as const;
 
+/**
+ * Providers new projects can be created on: Daytona, plus the local providers that are
+ * switched on
+ */
+export function enabledSandboxProviders(): SandboxProvider[] {
+	return SANDBOX_PROVIDERS.filter(
+		(provider) =>
+			provider === 'daytona' ||
+			(provider === 'docker' && dockerConfig.enabled) ||
+			(provider === 'local' && localFsConfig.enabled)
+	);
+}
+
+/**
+ * Workspace directory inside a sandbox, where project files live
+ */
+export function sandboxWorkspaceDir(provider: SandboxProvider | undefined): string {
+	switch (provider) {
+		case 'docker':
+			return dockerConfig.workspaceDir;
+		case 'local':
+			return localFsConfig.workspaceDir;
+		default:
+			return '/home/daytona';
+	}
+}
+
 // Combined sandbox configuration
 export const sandboxConfig = {
 	daytona: daytonaConfig,
+	docker: dockerConfig,
+	local: localFsConfig,
 	provider: providerConfig,
 	resources: resourceLimits,
 	security: securityConfig,
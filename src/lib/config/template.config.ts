@@ -26,7 +26,13 @@ export const templateConfig: TemplateConfig = {
 		enabled: env.TEMPLATE_CACHE_ENABLED !== 'false',
 		ttlHours: parseInt(env.TEMPLATE_CACHE_TTL_HOURS || '24'),
 		maxSize: parseInt(env.TEMPLATE_CACHE_MAX_SIZE || '1000'), // 1000 templates
-		compressionEnabled: env.TEMPLATE_CACHE_COMPRESSION !== 'false'
+		compressionEnabled: env.TEMPLATE_CACHE_COMPRESSION !== 'false',
+		prewarm: (
+			env.TEMPLATE_CACHE_PREWARM || 'react-ts,vite-react-ts,nextjs-ts,sveltekit,vue-ts,node'
+		)
+			.split(',')
+			.map((id) => id.trim())
+			.filter(Boolean)
 	}
 };
 
@@ -60,6 +60,8 @@ export interface TemplateConfig {
 		ttlHours: number;
 		maxSize: number;
 		compressionEnabled: boolean;
+		/** Template IDs downloaded into the cache when the server starts */
+		prewarm: string[];
 	};
 }
 
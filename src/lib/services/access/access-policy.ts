@@ -0,0 +1,224 @@
+/**
+ * Access policy
+ * The one place that decides what a user may do with a project, its sandbox and
+ * its chat threads. A user's project role is the strongest of: owning the project,
+ * being one of its members, and belonging to the organization it is part of.
+ */
+
+import type { Project } from '$lib/types';
+import type { Organization, OrganizationRole, ProjectAction, ProjectRole } from '$lib/types/access';
+import type { ChatThread } from '$lib/types/chat';
+import type { ToolApprovalPolicy } from '$lib/types/tools';
+import { DatabaseService } from '../database.service';
+
+const PROJECT_ROLE_ACTIONS: Record<ProjectRole, readonly ProjectAction[]> = {
+	owner: ['view', 'edit', 'execute', 'manage'],
+	editor: ['view', 'edit', 'execute'],
+	viewer: ['view']
+};
+
+const PROJECT_ROLE_RANK: Record<ProjectRole, number> = { viewer: 1, editor: 2, owner: 3 };
+
+/** Organization roles that may change the organization, its members and its projects */
+const ORGANIZATION_MANAGERS: readonly OrganizationRole[] = ['owner', 'admin'];
+
+/** Agent tools that change the sandbox; a read-only agent may not call them */
+export const MUTATING_AGENT_TOOLS = [
+	'write_file',
+	'edit_file',
+	'delete_file',
+	'create_directory',
+	'execute_command'
+];
+
+export type ProjectAuthorization =
+	{ project: Project; role: ProjectRole } | { error: string; status: 403 | 404 };
+
+export type OrganizationAuthorization =
+	{ organization: Organization; role: OrganizationRole } | { error: string; status: 403 | 404 };
+
+export type ThreadAction = 'view' | 'write' | 'manage' | 'delete';
+
+export function canPerform(role: ProjectRole | null, action: ProjectAction): boolean {
+	return role !== null && PROJECT_ROLE_ACTIONS[role].includes(action);
+}
+
+export function strongestRole(...roles: (ProjectRole | null | undefined)[]): ProjectRole | null {
+	let strongest: ProjectRole | null = null;
+	for (const role of roles) {
+		if (role && (!strongest || PROJECT_ROLE_RANK[role] > PROJECT_ROLE_RANK[strongest])) {
+			strongest = role;
+		}
+	}
+	return strongest;
+}
+
+export function organizationRole(
+	organization: Pick<Organization, 'ownerId' | 'members'>,
+	userId: string
+): OrganizationRole | null {
+	if (organization.ownerId === userId) return 'owner';
+	return organization.members.find((member) => member.userId === userId)?.role ?? null;
+}
+
+export function canManageOrganization(
+	organization: Pick<Organization, 'ownerId' | 'members'>,
+	userId: string
+): boolean {
+	const role = organizationRole(organization, userId);
+	return role !== null && ORGANIZATION_MANAGERS.includes(role);
+}
+
+/**
+ * A user's role in a project, or null when the project is not shared with them.
+ * Pass the project's organization when it is already loaded.
+ */
+export async function resolveProjectRole(
+	project: Pick<Project, 'ownerId' | 'members' | 'organizationId'>,
+	userId: string,
+	organization?: Organization | null
+): Promise<ProjectRole | null> {
+	if (project.ownerId === userId) return 'owner';
+
+	const memberRole = project.members?.find((member) => member.userId === userId)?.role;
+	if (memberRole === 'owner' || !project.organizationId) return memberRole ?? null;
+
+	const team =
+		organization !== undefined
+			? organization
+			: await DatabaseService.findOrganizationById(project.organizationId);
+	const teamRole = team ? organizationRole(team, userId) : null;
+	if (!team || !teamRole) return memberRole ?? null;
+
+	// Organization managers run its projects; other members get the team default
+	return strongestRole(
+		memberRole,
+		ORGANIZATION_MANAGERS.includes(teamRole) ? 'owner' : team.defaultProjectRole
+	);
+}
+
+/**
+ * Load a project and check that a user may perform an action in it
+ */
+export async function authorizeProject(
+	projectId: string,
+	userId: string,
+	action: ProjectAction
+): Promise<ProjectAuthorization> {
+	const project = await DatabaseService.findProjectById(projectId);
+	return authorizeLoadedProject(project, userId, action);
+}
+
+/**
+ * Same as authorizeProject, for routes that address a project by its sandbox
+ */
+export async function authorizeSandbox(
+	sandboxId: string,
+	userId: string,
+	action: ProjectAction
+): Promise<ProjectAuthorization> {
+	const project = await DatabaseService.findProjectBySandboxId(sandboxId);
+	const authorization = await authorizeLoadedProject(project, userId, action);
+	if ('error' in authorization && authorization.status === 404) {
+		return { error: 'Sandbox not found', status: 404 };
+	}
+	return authorization;
+}
+
+export async function authorizeLoadedProject(
+	project: Project | null,
+	userId: string,
+	action: ProjectAction
+): Promise<ProjectAuthorization> {
+	if (!project) {
+		return { error: 'Project not found', status: 404 };
+	}
+
+	const role = await resolveProjectRole(project, userId);
+	if (!role) {
+		return { error: 'Access denied', status: 403 };
+	}
+	if (!canPerform(role, action)) {
+		return { error: deniedMessage(role, action), status: 403 };
+	}
+	return { project, role };
+}
+
+/**
+ * Load an organization and check that a user belongs to it, or manages it when
+ * `manage` is set. Non-members get a 404 so organization IDs cannot be probed.
+ */
+export async function authorizeOrganization(
+	organizationId: string,
+	userId: string,
+	manage = false
+): Promise<OrganizationAuthorization> {
+	const organization = await DatabaseService.findOrganizationById(organizationId);
+	const role = organization ? organizationRole(organization, userId) : null;
+	if (!organization || !role) {
+		return { error: 'Organization not found', status: 404 };
+	}
+	if (manage && !ORGANIZATION_MANAGERS.includes(role)) {
+		return { error: 'Only organization owners and admins can do this', status: 403 };
+	}
+	return { organization, role };
+}
+
+/**
+ * Whether a user may perform an action on a chat thread. Thread participants act
+ * within their thread permissions; anyone who can see the thread's project may read it.
+ */
+export async function canAccessThread(
+	thread: Pick<ChatThread, 'userId' | 'projectId' | 'participants'>,
+	userId: string,
+	action: ThreadAction
+): Promise<boolean> {
+	if (thread.userId === userId) return true;
+
+	const participant = thread.participants?.find((entry) => entry.userId === userId);
+	if (participant) {
+		const { permissions } = participant;
+		switch (action) {
+			case 'view':
+				return true;
+			case 'write':
+				return participant.role !== 'viewer' && permissions?.canWrite !== false;
+			case 'manage':
+				return permissions?.canEditSettings === true;
+			case 'delete':
+				return permissions?.canDelete === true;
+		}
+	}
+
+	if (action !== 'view' || !thread.projectId) return false;
+	const project = await DatabaseService.findProjectById(thread.projectId);
+	return project !== null && (await resolveProjectRole(project, userId)) !== null;
+}
+
+/**
+ * The approval policy an agent runs under for a user with the given role:
+ * roles that cannot edit and execute get an agent that can only read
+ */
+export function agentPolicyForRole(
+	policy: ToolApprovalPolicy,
+	role: ProjectRole
+): ToolApprovalPolicy {
+	if (canPerform(role, 'edit') && canPerform(role, 'execute')) return policy;
+
+	const tools = { ...policy.tools };
+	for (const tool of MUTATING_AGENT_TOOLS) tools[tool] = 'deny';
+	return { ...policy, tools };
+}
+
+function deniedMessage(role: ProjectRole, action: ProjectAction): string {
+	switch (action) {
+		case 'edit':
+			return `A project ${role} cannot change files`;
+		case 'execute':
+			return `A project ${role} cannot run commands`;
+		case 'manage':
+			return 'Only project owners can do this';
+		default:
+			return 'Access denied';
+	}
+}
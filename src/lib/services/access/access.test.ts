@@ -0,0 +1,276 @@
+/**
+ * Access Control Tests
+ */
+
+import type { Project } from '$lib/types';
+import type { Invitation, Organization } from '$lib/types/access';
+import type { ChatThread } from '$lib/types/chat';
+import type { ToolApprovalPolicy } from '$lib/types/tools';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('$env/dynamic/private', () => ({ env: {} }));
+vi.mock('../database.service', () => ({
+	DatabaseService: {
+		findProjectById: vi.fn(),
+		findProjectBySandboxId: vi.fn(),
+		findOrganizationById: vi.fn(),
+		findInvitationByToken: vi.fn(),
+		consumeInvitation: vi.fn(),
+		upsertProjectMember: vi.fn(),
+		upsertOrganizationMember: vi.fn(),
+		findUserProfiles: vi.fn()
+	}
+}));
+
+const { DatabaseService } = await import('../database.service');
+const {
+	agentPolicyForRole,
+	authorizeOrganization,
+	authorizeProject,
+	authorizeSandbox,
+	canAccessThread,
+	resolveProjectRole
+} = await import('./access-policy');
+const { membershipService } = await import('./membership.service');
+
+const db = vi.mocked(DatabaseService);
+
+function project(overrides: Partial<Project> = {}): Project {
+	return {
+		id: 'project-1',
+		name: 'Demo',
+		ownerId: 'owner',
+		sandboxId: 'sandbox-1',
+		members: [
+			{ userId: 'ed', role: 'editor', addedBy: 'owner', addedAt: new Date() },
+			{ userId: 'vi', role: 'viewer', addedBy: 'owner', addedAt: new Date() }
+		],
+		...overrides
+	} as Project;
+}
+
+const team: Organization = {
+	id: 'team-1',
+	name: 'Team',
+	ownerId: 'boss',
+	members: [
+		{ userId: 'boss', role: 'owner', joinedAt: new Date() },
+		{ userId: 'admin', role: 'admin', joinedAt: new Date() },
+		{ userId: 'member', role: 'member', joinedAt: new Date() },
+		{ userId: 'vi', role: 'member', joinedAt: new Date() }
+	],
+	defaultProjectRole: 'editor',
+	createdAt: new Date(),
+	updatedAt: new Date()
+};
+
+function invitation(overrides: Partial<Invitation> = {}): Invitation {
+	return {
+		id: 'invitation-1',
+		token: 'token',
+		scope: 'project',
+		resourceId: 'project-1',
+		role: 'editor',
+		createdBy: 'owner',
+		createdAt: new Date(),
+		expiresAt: new Date(Date.now() + 60_000),
+		uses: 0,
+		...overrides
+	};
+}
+
+beforeEach(() => {
+	vi.resetAllMocks();
+	db.findOrganizationById.mockResolvedValue(team);
+});
+
+describe('resolveProjectRole', () => {
+	it('should give the owner, members and strangers their roles', async () => {
+		expect(await resolveProjectRole(project(), 'owner')).toBe('owner');
+		expect(await resolveProjectRole(project(), 'ed')).toBe('editor');
+		expect(await resolveProjectRole(project(), 'vi')).toBe('viewer');
+		expect(await resolveProjectRole(project(), 'stranger')).toBeNull();
+	});
+
+	it('should take the strongest of the project and organization roles', async () => {
+		const shared = project({ organizationId: 'team-1' });
+
+		expect(await resolveProjectRole(shared, 'boss')).toBe('owner');
+		expect(await resolveProjectRole(shared, 'admin')).toBe('owner');
+		expect(await resolveProjectRole(shared, 'member')).toBe('editor');
+		expect(await resolveProjectRole(shared, 'vi')).toBe('editor');
+		expect(await resolveProjectRole(shared, 'stranger')).toBeNull();
+	});
+});
+
+describe('authorizeProject', () => {
+	it('should keep viewers from editing and running commands', async () => {
+		db.findProjectById.mockResolvedValue(project());
+
+		expect(await authorizeProject('project-1', 'vi', 'view')).toMatchObject({ role: 'viewer' });
+		expect(await authorizeProject('project-1', 'vi', 'edit')).toEqual({
+			error: 'A project viewer cannot change files',
+			status: 403
+		});
+		expect(await authorizeProject('project-1', 'vi', 'execute')).toEqual({
+			error: 'A project viewer cannot run commands',
+			status: 403
+		});
+	});
+
+	it('should let editors run commands but not manage the project', async () => {
+		db.findProjectById.mockResolvedValue(project());
+
+		expect(await authorizeProject('project-1', 'ed', 'execute')).toMatchObject({ role: 'editor' });
+		expect(await authorizeProject('project-1', 'ed', 'manage')).toMatchObject({ status: 403 });
+	});
+
+	it('should deny users the project is not shared with', async () => {
+		db.findProjectById.mockResolvedValue(project());
+		expect(await authorizeProject('project-1', 'stranger', 'view')).toEqual({
+			error: 'Access denied',
+			status: 403
+		});
+
+		db.findProjectById.mockResolvedValue(null);
+		expect(await authorizeProject('missing', 'owner', 'view')).toMatchObject({ status: 404 });
+	});
+
+	it('should report unknown sandboxes as not found', async () => {
+		db.findProjectBySandboxId.mockResolvedValue(null);
+		expect(await authorizeSandbox('missing', 'owner', 'view')).toEqual({
+			error: 'Sandbox not found',
+			status: 404
+		});
+	});
+});
+
+describe('authorizeOrganization', () => {
+	it('should hide organizations from non-members and limit changes to managers', async () => {
+		expect(await authorizeOrganization('team-1', 'stranger')).toMatchObject({ status: 404 });
+		expect(await authorizeOrganization('team-1', 'member')).toMatchObject({ role: 'member' });
+		expect(await authorizeOrganization('team-1', 'member', true)).toMatchObject({ status: 403 });
+		expect(await authorizeOrganization('team-1', 'admin', true)).toMatchObject({ role: 'admin' });
+	});
+});
+
+describe('canAccessThread', () => {
+	const thread: Pick<ChatThread, 'userId' | 'projectId' | 'participants'> = {
+		userId: 'owner',
+		projectId: 'project-1',
+		participants: [
+			{
+				userId: 'guest',
+				role: 'viewer',
+				joinedAt: new Date(),
+				permissions: {
+					canWrite: true,
+					canDelete: false,
+					canManageParticipants: false,
+					canEditSettings: false
+				}
+			}
+		]
+	};
+
+	it('should let project members read but not write to threads they do not own', async () => {
+		db.findProjectById.mockResolvedValue(project());
+
+		expect(await canAccessThread(thread, 'owner', 'delete')).toBe(true);
+		expect(await canAccessThread(thread, 'ed', 'view')).toBe(true);
+		expect(await canAccessThread(thread, 'ed', 'write')).toBe(false);
+		expect(await canAccessThread(thread, 'stranger', 'view')).toBe(false);
+	});
+
+	it('should keep participants within their thread permissions', async () => {
+		expect(await canAccessThread(thread, 'guest', 'view')).toBe(true);
+		expect(await canAccessThread(thread, 'guest', 'write')).toBe(false);
+		expect(await canAccessThread(thread, 'guest', 'delete')).toBe(false);
+	});
+});
+
+describe('agentPolicyForRole', () => {
+	const policy: ToolApprovalPolicy = {
+		tools: { write_file: 'allow', execute_command: 'ask', read_file: 'allow' },
+		commands: { allow: ['^ls\\b'], deny: [] },
+		timeoutMs: 60_000
+	};
+
+	it('should deny file and command tools to viewers only', () => {
+		const viewer = agentPolicyForRole(policy, 'viewer');
+		expect(viewer.tools).toMatchObject({
+			write_file: 'deny',
+			edit_file: 'deny',
+			delete_file: 'deny',
+			create_directory: 'deny',
+			execute_command: 'deny'
+		});
+		expect(viewer.tools.read_file).toBe('allow');
+		expect(policy.tools.write_file).toBe('allow');
+
+		expect(agentPolicyForRole(policy, 'editor')).toBe(policy);
+	});
+});
+
+describe('MembershipService.accept', () => {
+	beforeEach(() => {
+		db.findProjectById.mockResolvedValue(project());
+	});
+
+	it('should add the user with the invited role', async () => {
+		db.findInvitationByToken.mockResolvedValue(invitation());
+		db.consumeInvitation.mockResolvedValue(invitation({ uses: 1 }));
+
+		const result = await membershipService.accept('token', 'newcomer');
+
+		expect(result).toEqual({ scope: 'project', resourceId: 'project-1' });
+		expect(db.upsertProjectMember).toHaveBeenCalledWith(
+			'project-1',
+			expect.objectContaining({ userId: 'newcomer', role: 'editor', addedBy: 'owner' })
+		);
+	});
+
+	it('should not downgrade a stronger role or use up the link', async () => {
+		db.findInvitationByToken.mockResolvedValue(invitation({ role: 'viewer' }));
+
+		await membershipService.accept('token', 'ed');
+
+		expect(db.consumeInvitation).not.toHaveBeenCalled();
+		expect(db.upsertProjectMember).not.toHaveBeenCalled();
+	});
+
+	it('should refuse expired, revoked and used up links', async () => {
+		for (const expired of [
+			invitation({ expiresAt: new Date(Date.now() - 1000) }),
+			invitation({ revokedAt: new Date() }),
+			invitation({ maxUses: 1, uses: 1 })
+		]) {
+			db.findInvitationByToken.mockResolvedValue(expired);
+			expect(await membershipService.accept('token', 'newcomer')).toEqual({
+				error: 'This invitation has expired',
+				status: 410
+			});
+		}
+
+		db.findInvitationByToken.mockResolvedValue(invitation());
+		db.consumeInvitation.mockResolvedValue(null);
+		expect(await membershipService.accept('token', 'newcomer')).toMatchObject({ status: 410 });
+		expect(db.upsertProjectMember).not.toHaveBeenCalled();
+	});
+
+	it('should add organization members', async () => {
+		db.findInvitationByToken.mockResolvedValue(
+			invitation({ scope: 'organization', resourceId: 'team-1', role: 'member' })
+		);
+		db.consumeInvitation.mockResolvedValue(invitation());
+
+		expect(await membershipService.accept('token', 'newcomer')).toEqual({
+			scope: 'organization',
+			resourceId: 'team-1'
+		});
+		expect(db.upsertOrganizationMember).toHaveBeenCalledWith(
+			'team-1',
+			expect.objectContaining({ userId: 'newcomer', role: 'member' })
+		);
+	});
+});
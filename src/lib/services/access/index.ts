@@ -0,0 +1,38 @@
+/**
+ * Access Control Exports
+ */
+export {
+	MUTATING_AGENT_TOOLS,
+	agentPolicyForRole,
+	authorizeLoadedProject,
+	authorizeOrganization,
+	authorizeProject,
+	authorizeSandbox,
+	canAccessThread,
+	canManageOrganization,
+	canPerform,
+	organizationRole,
+	resolveProjectRole,
+	strongestRole
+} from './access-policy';
+export type {
+	OrganizationAuthorization,
+	ProjectAuthorization,
+	ThreadAction
+} from './access-policy';
+export {
+	DEFAULT_INVITATION_TTL,
+	MAX_INVITATION_TTL,
+	MembershipService,
+	membershipService,
+	organizationInvitationSchema,
+	organizationMemberSchema,
+	organizationSchema,
+	projectInvitationSchema,
+	projectMemberSchema
+} from './membership.service';
+export type {
+	AcceptInvitationResult,
+	InvitationInput,
+	ProjectMemberEntry
+} from './membership.service';
@@ -0,0 +1,249 @@
+/**
+ * Membership Service
+ * Invitation links and member lists for projects and organizations. Routes check
+ * permissions with the access policy first; this service only applies the change.
+ */
+
+import type { Project } from '$lib/types';
+import type {
+	Invitation,
+	InvitationPreview,
+	MemberProfile,
+	Organization,
+	OrganizationRole,
+	ProjectRole
+} from '$lib/types/access';
+import { randomBytes } from 'node:crypto';
+import { z } from 'zod';
+import { DatabaseService } from '../database.service';
+import { organizationRole, resolveProjectRole, strongestRole } from './access-policy';
+
+const DAY = 24 * 60 * 60 * 1000;
+export const DEFAULT_INVITATION_TTL = 7 * DAY;
+export const MAX_INVITATION_TTL = 30 * DAY;
+
+const ORGANIZATION_ROLE_RANK: Record<OrganizationRole, number> = { member: 1, admin: 2, owner: 3 };
+
+export const projectInvitationSchema = z.object({
+	role: z.enum(['editor', 'viewer']),
+	expiresInDays: z.number().int().min(1).max(30).optional(),
+	maxUses: z.number().int().min(1).max(1000).optional()
+});
+
+export const organizationInvitationSchema = z.object({
+	role: z.enum(['admin', 'member']),
+	expiresInDays: z.number().int().min(1).max(30).optional(),
+	maxUses: z.number().int().min(1).max(1000).optional()
+});
+
+export const projectMemberSchema = z.object({
+	role: z.enum(['editor', 'viewer'])
+});
+
+export const organizationSchema = z.object({
+	name: z.string().trim().min(1).max(80),
+	defaultProjectRole: z.enum(['editor', 'viewer']).optional()
+});
+
+export const organizationMemberSchema = z.object({
+	role: z.enum(['admin', 'member'])
+});
+
+export type InvitationInput =
+	| ({ scope: 'project' } & z.infer<typeof projectInvitationSchema>)
+	| ({ scope: 'organization' } & z.infer<typeof organizationInvitationSchema>);
+
+export type AcceptInvitationResult =
+	{ scope: Invitation['scope']; resourceId: string } | { error: string; status: 404 | 410 };
+
+export interface ProjectMemberEntry extends MemberProfile {
+	role: ProjectRole;
+	/** Where the role comes from */
+	source: 'owner' | 'member' | 'organization';
+}
+
+export class MembershipService {
+	private static instance: MembershipService;
+
+	static getInstance(): MembershipService {
+		if (!MembershipService.instance) {
+			MembershipService.instance = new MembershipService();
+		}
+		return MembershipService.instance;
+	}
+
+	async createOrganization(
+		input: z.infer<typeof organizationSchema>,
+		ownerId: string
+	): Promise<Organization> {
+		const now = new Date();
+		return DatabaseService.createOrganization({
+			id: crypto.randomUUID(),
+			name: input.name,
+			ownerId,
+			members: [{ userId: ownerId, role: 'owner', joinedAt: now }],
+			defaultProjectRole: input.defaultProjectRole ?? 'viewer',
+			createdAt: now,
+			updatedAt: now
+		});
+	}
+
+	async createInvitation(
+		resourceId: string,
+		input: InvitationInput,
+		createdBy: string
+	): Promise<Invitation> {
+		const now = new Date();
+		const ttl = input.expiresInDays ? input.expiresInDays * DAY : DEFAULT_INVITATION_TTL;
+		return DatabaseService.createInvitation({
+			id: crypto.randomUUID(),
+			token: randomBytes(24).toString('base64url'),
+			scope: input.scope,
+			resourceId,
+			role: input.role,
+			createdBy,
+			createdAt: now,
+			expiresAt: new Date(now.getTime() + Math.min(ttl, MAX_INVITATION_TTL)),
+			...(input.maxUses ? { maxUses: input.maxUses } : {}),
+			uses: 0
+		});
+	}
+
+	/**
+	 * What an invitation link grants, or null when it cannot be used any more
+	 */
+	async preview(token: string): Promise<InvitationPreview | null> {
+		const invitation = await DatabaseService.findInvitationByToken(token);
+		if (!invitation || !isUsable(invitation)) return null;
+
+		const resource =
+			invitation.scope === 'project'
+				? await DatabaseService.findProjectById(invitation.resourceId)
+				: await DatabaseService.findOrganizationById(invitation.resourceId);
+		if (!resource) return null;
+
+		return {
+			scope: invitation.scope,
+			resourceId: invitation.resourceId,
+			name: resource.name,
+			role: invitation.role,
+			expiresAt: invitation.expiresAt
+		};
+	}
+
+	/**
+	 * Make a user a member through an invitation link. Users who already hold the
+	 * invited role or a stronger one keep it, and the link is not used up.
+	 */
+	async accept(token: string, userId: string): Promise<AcceptInvitationResult> {
+		const invitation = await DatabaseService.findInvitationByToken(token);
+		if (!invitation) {
+			return { error: 'Invitation not found', status: 404 };
+		}
+		if (!isUsable(invitation)) {
+			return { error: 'This invitation has expired', status: 410 };
+		}
+		const { scope, resourceId } = invitation;
+
+		if (scope === 'project') {
+			const project = await DatabaseService.findProjectById(resourceId);
+			if (!project) return { error: 'Project not found', status: 404 };
+
+			const role = invitation.role as ProjectRole;
+			if (strongestRole(await resolveProjectRole(project, userId), role) !== role) {
+				return { scope, resourceId };
+			}
+			if (!(await DatabaseService.consumeInvitation(token))) {
+				return { error: 'This invitation has expired', status: 410 };
+			}
+			await DatabaseService.upsertProjectMember(resourceId, {
+				userId,
+				role,
+				addedBy: invitation.createdBy,
+				addedAt: new Date()
+			});
+			return { scope, resourceId };
+		}
+
+		const organization = await DatabaseService.findOrganizationById(resourceId);
+		if (!organization) return { error: 'Organization not found', status: 404 };
+
+		const role = invitation.role as OrganizationRole;
+		const current = organizationRole(organization, userId);
+		if (current && ORGANIZATION_ROLE_RANK[current] >= ORGANIZATION_ROLE_RANK[role]) {
+			return { scope, resourceId };
+		}
+		if (!(await DatabaseService.consumeInvitation(token))) {
+			return { error: 'This invitation has expired', status: 410 };
+		}
+		await DatabaseService.upsertOrganizationMember(resourceId, {
+			userId,
+			role,
+			joinedAt: new Date()
+		});
+		return { scope, resourceId };
+	}
+
+	/**
+	 * Everyone with access to a project: the owner, its members and the members of
+	 * its organization, each once with their strongest role
+	 */
+	async listProjectMembers(project: Project): Promise<ProjectMemberEntry[]> {
+		const organization = project.organizationId
+			? await DatabaseService.findOrganizationById(project.organizationId)
+			: null;
+
+		const entries = new Map<string, Pick<ProjectMemberEntry, 'role' | 'source'>>();
+		entries.set(project.ownerId, { role: 'owner', source: 'owner' });
+		for (const member of project.members ?? []) {
+			if (!entries.has(member.userId)) {
+				entries.set(member.userId, { role: member.role, source: 'member' });
+			}
+		}
+		for (const member of organization?.members ?? []) {
+			const role = await resolveProjectRole(project, member.userId, organization);
+			const existing = entries.get(member.userId);
+			if (role && (!existing || strongestRole(existing.role, role) !== existing.role)) {
+				entries.set(member.userId, { role, source: 'organization' });
+			}
+		}
+
+		return withProfiles(entries);
+	}
+
+	async listOrganizationMembers(
+		organization: Organization
+	): Promise<(MemberProfile & { role: OrganizationRole })[]> {
+		const entries = new Map<string, { role: OrganizationRole }>();
+		entries.set(organization.ownerId, { role: 'owner' });
+		for (const member of organization.members) {
+			if (!entries.has(member.userId)) entries.set(member.userId, { role: member.role });
+		}
+		return withProfiles(entries);
+	}
+}
+
+function isUsable(invitation: Invitation): boolean {
+	return (
+		!invitation.revokedAt &&
+		new Date(invitation.expiresAt).getTime() > Date.now() &&
+		(invitation.maxUses === undefined || invitation.uses < invitation.maxUses)
+	);
+}
+
+async function withProfiles<T extends object>(
+	entries: Map<string, T>
+): Promise<(MemberProfile & T)[]> {
+	const profiles = new Map(
+		(await DatabaseService.findUserProfiles([...entries.keys()])).map((profile) => [
+			profile.userId,
+			profile
+		])
+	);
+	return [...entries].map(([userId, entry]) => ({
+		...(profiles.get(userId) ?? { userId, name: 'Unknown user' }),
+		...entry
+	}));
+}
+
+export const membershipService = MembershipService.getInstance();
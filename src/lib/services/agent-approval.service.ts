@@ -0,0 +1,383 @@
+/**
+ * Agent Approval Service
+ * Enforces per-project approval policies for agent tools. Calls that need a human
+ * decision are held on the server until the user approves or rejects them from the chat.
+ */
+
+import type { SandboxProvider } from '$lib/types/sandbox';
+import type {
+	ToolApprovalDecision,
+	ToolApprovalEvaluation,
+	ToolApprovalMode,
+	ToolApprovalPolicy,
+	ToolApprovalRequest,
+	ToolCallPreview
+} from '$lib/types/tools';
+import type { Tool } from 'ai';
+import { z } from 'zod';
+import { sandboxManager } from './sandbox/sandbox-manager';
+
+const MAX_PREVIEW_SIZE = 200 * 1024; // 200KB
+
+// Chaining, piping, substitution and redirection let an allowed prefix run or write anything
+const SHELL_METACHARACTERS = /[;&|`<>\r\n]|\$\(/;
+
+export const DEFAULT_APPROVAL_POLICY: ToolApprovalPolicy = {
+	tools: {
+		write_file: 'allow',
+		edit_file: 'allow',
+		delete_file: 'ask',
+		execute_command: 'ask'
+	},
+	commands: {
+		// Package scripts are left out: the agent can rewrite them with write_file
+		allow: [
+			'^(ls|pwd|cat|head|tail|wc|which|echo|tree)(\\s.*)?$',
+			// --output writes the diff or log to any file
+			'^git (status|diff|log|show)(?!.*\\s--output\\b)(\\s.*)?$',
+			'^(node|npm|pnpm|yarn|bun|python3?) (-v|--version)$'
+		],
+		deny: [
+			'\\bsudo\\b',
+			'\\brm\\s+-[a-zA-Z]*[rR][a-zA-Z]*\\s+(/|~|\\$HOME)(\\s|$)',
+			'\\bmkfs\\b',
+			'\\bdd\\s+if=',
+			':\\(\\)\\s*\\{',
+			'\\b(curl|wget)\\b[^|]*\\|\\s*(sudo\\s+)?(ba|z)?sh\\b',
+			'\\b(shutdown|reboot|halt)\\b'
+		]
+	},
+	timeoutMs: 5 * 60 * 1000
+};
+
+const patternSchema = z.string().refine(
+	(pattern) => {
+		try {
+			new RegExp(pattern);
+			return true;
+		} catch {
+			return false;
+		}
+	},
+	{ message: 'Invalid regular expression' }
+);
+
+export const approvalPolicySchema = z.object({
+	tools: z.record(z.string(), z.enum(['allow', 'ask', 'deny'])).optional(),
+	commands: z
+		.object({
+			allow: z.array(patternSchema).optional(),
+			deny: z.array(patternSchema).optional()
+		})
+		.optional(),
+	timeoutMs: z
+		.number()
+		.int()
+		.min(10_000)
+		.max(60 * 60 * 1000)
+		.optional()
+});
+
+export type ApprovalPolicyInput = z.infer<typeof approvalPolicySchema>;
+
+/**
+ * Merge a stored project policy over the defaults. Stored tool modes override
+ * defaults per tool; stored command patterns replace the default lists.
+ */
+export function resolveApprovalPolicy(stored?: ApprovalPolicyInput | null): ToolApprovalPolicy {
+	return {
+		tools: { ...DEFAULT_APPROVAL_POLICY.tools, ...stored?.tools },
+		commands: {
+			allow: stored?.commands?.allow ?? DEFAULT_APPROVAL_POLICY.commands.allow,
+			deny: stored?.commands?.deny ?? DEFAULT_APPROVAL_POLICY.commands.deny
+		},
+		timeoutMs: stored?.timeoutMs ?? DEFAULT_APPROVAL_POLICY.timeoutMs
+	};
+}
+
+/**
+ * Decide whether a tool call may run. For `execute_command` a deny pattern always
+ * wins, then an allow pattern, then the tool's own mode. Commands containing shell
+ * metacharacters never match an allow pattern.
+ */
+export function evaluateToolCall(
+	policy: ToolApprovalPolicy,
+	toolName: string,
+	input: Record<string, unknown>
+): ToolApprovalEvaluation {
+	const toolMode: ToolApprovalMode = policy.tools[toolName] ?? 'allow';
+
+	if (toolName === 'execute_command' && typeof input.command === 'string') {
+		const command = input.command.trim();
+
+		const denied = findMatchingPattern(policy.commands.deny, command);
+		if (denied) {
+			return { mode: 'deny', reason: `Command matches deny pattern /${denied}/` };
+		}
+
+		const allowed = SHELL_METACHARACTERS.test(command)
+			? undefined
+			: findMatchingPattern(policy.commands.allow, command);
+		if (allowed && toolMode !== 'deny') {
+			return { mode: 'allow', reason: `Command matches allow pattern /${allowed}/` };
+		}
+	}
+
+	switch (toolMode) {
+		case 'deny':
+			return { mode: 'deny', reason: `The project policy does not allow ${toolName}` };
+		case 'ask':
+			return { mode: 'ask', reason: `The project policy requires approval for ${toolName}` };
+		default:
+			return { mode: 'allow', reason: `${toolName} is allowed` };
+	}
+}
+
+/**
+ * Build a before/after preview of a file-writing tool call
+ */
+export async function buildToolCallPreview(
+	sandboxId: string | undefined,
+	toolName: string,
+	input: Record<string, unknown>,
+	provider?: SandboxProvider
+): Promise<ToolCallPreview | undefined> {
+	if (!['write_file', 'edit_file'].includes(toolName)) return undefined;
+
+	const filePath = (input.filePath || input.path) as string | undefined;
+	if (!filePath) return undefined;
+
+	let previousContent: string | null = null;
+	if (sandboxId) {
+		try {
+			const file = await sandboxManager.readFile(sandboxId, filePath, { provider });
+			const raw = file?.content ?? null;
+			previousContent = raw && typeof raw !== 'string' ? raw.toString('utf-8') : raw;
+		} catch {
+			// Missing files are previewed as new
+		}
+	}
+
+	let proposedContent = (input.content as string | undefined) ?? null;
+	if (toolName === 'edit_file' && previousContent !== null && Array.isArray(input.edits)) {
+		proposedContent = input.edits.reduce(
+			(content: string, edit: { oldText: string; newText: string }) =>
+				content.replace(edit.oldText, edit.newText),
+			previousContent
+		);
+	}
+
+	return {
+		filePath,
+		previousContent: truncatePreview(previousContent),
+		proposedContent: truncatePreview(proposedContent)
+	};
+}
+
+interface PendingApproval {
+	request: ToolApprovalRequest;
+	resolve: (decision: ToolApprovalDecision) => void;
+	timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Holds tool calls that are waiting for a human decision
+ */
+export class ToolApprovalGate {
+	private pending = new Map<string, PendingApproval>();
+
+	/**
+	 * Register a pending approval and wait for the decision. Timeouts and aborted
+	 * runs resolve as rejections.
+	 */
+	wait(
+		request: ToolApprovalRequest,
+		timeoutMs: number,
+		abortSignal?: AbortSignal
+	): Promise<ToolApprovalDecision> {
+		return new Promise((resolve) => {
+			const timer = setTimeout(() => {
+				this.settle(request.id, 'expired', { approved: false, feedback: 'Approval timed out' });
+			}, timeoutMs);
+
+			this.pending.set(request.id, { request, resolve, timer });
+
+			abortSignal?.addEventListener(
+				'abort',
+				() => this.settle(request.id, 'expired', { approved: false, feedback: 'Run was aborted' }),
+				{ once: true }
+			);
+		});
+	}
+
+	/**
+	 * Apply a user's decision. Returns null when the approval does not exist,
+	 * is already settled or belongs to another user.
+	 */
+	decide(id: string, userId: string, decision: ToolApprovalDecision): ToolApprovalRequest | null {
+		const entry = this.pending.get(id);
+		if (!entry || entry.request.userId !== userId) return null;
+
+		return this.settle(id, decision.approved ? 'approved' : 'rejected', decision);
+	}
+
+	get(id: string): ToolApprovalRequest | null {
+		return this.pending.get(id)?.request ?? null;
+	}
+
+	listPending(userId: string, threadId?: string): ToolApprovalRequest[] {
+		return [...this.pending.values()]
+			.map((entry) => entry.request)
+			.filter(
+				(request) => request.userId === userId && (!threadId || request.threadId === threadId)
+			);
+	}
+
+	private settle(
+		id: string,
+		status: ToolApprovalRequest['status'],
+		decision: ToolApprovalDecision
+	): ToolApprovalRequest | null {
+		const entry = this.pending.get(id);
+		if (!entry) return null;
+
+		clearTimeout(entry.timer);
+		this.pending.delete(id);
+
+		entry.request.status = status;
+		entry.request.resolvedAt = new Date().toISOString();
+		entry.request.feedback = decision.feedback;
+		entry.resolve(decision);
+
+		return entry.request;
+	}
+}
+
+export const approvalGate = new ToolApprovalGate();
+
+/** The sandbox a run was authorized for */
+export interface AuthorizedSandbox {
+	sandboxId: string;
+	sandboxType?: SandboxProvider;
+}
+
+/**
+ * Point a tool call at the authorized sandbox, whatever sandbox the model (or an edited
+ * approval) named. Tools without a sandbox input are left alone.
+ */
+export function pinToolSandbox(
+	input: Record<string, unknown>,
+	sandbox: AuthorizedSandbox | undefined
+): Record<string, unknown> {
+	if (!sandbox || !('sandboxId' in input)) return input;
+	return { ...input, sandboxId: sandbox.sandboxId, sandboxType: sandbox.sandboxType };
+}
+
+export interface ApprovalGateOptions {
+	policy: ToolApprovalPolicy;
+	threadId: string;
+	userId: string;
+	projectId?: string;
+	/** Every tool call runs against this sandbox */
+	sandbox?: AuthorizedSandbox;
+	gate?: ToolApprovalGate;
+	/** Called when an approval is requested and again when it is settled */
+	onUpdate?: (request: ToolApprovalRequest) => void;
+}
+
+/**
+ * Wrap agent tools so every call is checked against the approval policy before it runs
+ */
+export function withApprovalGate<TOOLS extends Record<string, Tool>>(
+	tools: TOOLS,
+	options: ApprovalGateOptions
+): TOOLS {
+	const gate = options.gate ?? approvalGate;
+	const wrapped: Record<string, Tool> = { ...tools };
+
+	for (const [name, original] of Object.entries(tools)) {
+		if (!original?.execute) continue;
+
+		const execute = original.execute;
+		wrapped[name] = {
+			...original,
+			execute: async (modelInput: Record<string, unknown>, callOptions) => {
+				const input = pinToolSandbox(modelInput, options.sandbox);
+				const evaluation = evaluateToolCall(options.policy, name, input);
+
+				if (evaluation.mode === 'deny') {
+					console.warn(`🚫 [Approval] Blocked ${name}: ${evaluation.reason}`);
+					return JSON.stringify({
+						success: false,
+						error: `Blocked by project approval policy: ${evaluation.reason}. Do not retry this call.`
+					});
+				}
+
+				if (evaluation.mode === 'allow') {
+					return execute(input, callOptions);
+				}
+
+				const now = new Date();
+				const request: ToolApprovalRequest = {
+					id: crypto.randomUUID(),
+					toolCallId: callOptions.toolCallId,
+					toolName: name,
+					input,
+					reason: evaluation.reason,
+					status: 'pending',
+					threadId: options.threadId,
+					projectId: options.projectId,
+					userId: options.userId,
+					preview: await buildToolCallPreview(
+						input.sandboxId as string | undefined,
+						name,
+						input,
+						input.sandboxType as SandboxProvider | undefined
+					).catch(() => undefined),
+					createdAt: now.toISOString(),
+					expiresAt: new Date(now.getTime() + options.policy.timeoutMs).toISOString()
+				};
+
+				const decision = gate.wait(request, options.policy.timeoutMs, callOptions.abortSignal);
+				options.onUpdate?.({ ...request });
+
+				const { approved, input: overrides, feedback } = await decision;
+				options.onUpdate?.({ ...request });
+
+				if (!approved) {
+					return JSON.stringify({
+						success: false,
+						rejected: true,
+						error:
+							request.status === 'expired'
+								? `No approval was given for ${name} (${feedback}).`
+								: `The user rejected this ${name} call.`,
+						feedback
+					});
+				}
+
+				return execute(
+					overrides ? pinToolSandbox({ ...input, ...overrides }, options.sandbox) : input,
+					callOptions
+				);
+			}
+		} as Tool;
+	}
+
+	return wrapped as TOOLS;
+}
+
+function findMatchingPattern(patterns: string[], command: string): string | undefined {
+	return patterns.find((pattern) => {
+		try {
+			return new RegExp(pattern).test(command);
+		} catch {
+			return false;
+		}
+	});
+}
+
+function truncatePreview(content: string | null): string | null {
+	if (content === null || content.length <= MAX_PREVIEW_SIZE) return content;
+	return `${content.slice(0, MAX_PREVIEW_SIZE)}\n… (truncated)`;
+}
@@ -0,0 +1,298 @@
+/**
+ * Agent Checkpoint Service Tests
+ */
+
+import type { AgentCheckpoint, ChatMessage } from '$lib/types/chat';
+import { tool } from 'ai';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { z } from 'zod';
+
+const files = new Map<string, string>();
+const directories = new Set<string>();
+const checkpoints = new Map<string, AgentCheckpoint>();
+
+vi.mock('./database.service', () => ({
+	DatabaseService: {
+		appendAgentCheckpointFile: vi.fn(async (checkpoint, file) => {
+			const existing = checkpoints.get(checkpoint.messageId);
+			if (existing) {
+				existing.files.push(file);
+			} else {
+				checkpoints.set(checkpoint.messageId, {
+					...checkpoint,
+					files: [file],
+					updatedAt: new Date()
+				});
+			}
+		}),
+		appendAgentCheckpointCommand: vi.fn(async (checkpoint, command) => {
+			const existing = checkpoints.get(checkpoint.messageId);
+			if (existing) {
+				existing.commands = [...(existing.commands ?? []), command];
+			} else {
+				checkpoints.set(checkpoint.messageId, {
+					...checkpoint,
+					files: [],
+					commands: [command],
+					updatedAt: new Date()
+				});
+			}
+		}),
+		findAgentCheckpointByMessageId: vi.fn(
+			async (messageId: string) => checkpoints.get(messageId) ?? null
+		),
+		findActiveAgentCheckpointsSince: vi.fn(async (threadId: string, since: Date) =>
+			[...checkpoints.values()]
+				.filter((c) => c.threadId === threadId && c.createdAt >= since && !c.revertedAt)
+				.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+		),
+		markAgentCheckpointsReverted: vi.fn(async (ids: string[], revertedAt: Date) => {
+			for (const checkpoint of checkpoints.values()) {
+				if (ids.includes(checkpoint.id)) checkpoint.revertedAt = revertedAt;
+			}
+			return ids.length;
+		}),
+		findChatMessageById: vi.fn(async () => null),
+		updateChatMessage: vi.fn(async () => null)
+	}
+}));
+
+vi.mock('./sandbox/sandbox-manager', () => ({
+	sandboxManager: {
+		readFile: vi.fn(async (_sandboxId: string, path: string) =>
+			files.has(path) ? { path, content: files.get(path)! } : null
+		),
+		writeFile: vi.fn(async (_sandboxId: string, path: string, content: string) => {
+			files.set(path, content);
+			return true;
+		}),
+		deleteFile: vi.fn(async (_sandboxId: string, path: string) => files.delete(path)),
+		executeCommand: vi.fn(async (_sandboxId: string, command: string) => {
+			const find = command.match(/^find (\S+) -type f \| head -n (\d+)$/);
+			if (find) {
+				const below = [...files.keys()].filter((file) => file.startsWith(`${find[1]}/`));
+				return { success: true, output: below.slice(0, Number(find[2])).join('\n') };
+			}
+			const [, program, quoted] = command.match(/^(test -e|rmdir) (.*)$/) ?? [];
+			const path = quoted?.startsWith("'") ? quoted.slice(1, -1).replace(/'\\''/g, "'") : quoted;
+			if (program === 'rmdir') {
+				const empty = ![...files.keys()].some((file) => file.startsWith(`${path}/`));
+				return { success: empty && directories.delete(path), output: '' };
+			}
+			return { success: files.has(path) || directories.has(path), output: '' };
+		})
+	}
+}));
+
+const { CheckpointRecorder, revertToBeforeMessage, withCheckpoints } =
+	await import('./agent-checkpoint.service');
+
+const writeFileTool = tool({
+	description: 'write',
+	inputSchema: z.object({ sandboxId: z.string(), filePath: z.string(), content: z.string() }),
+	execute: async ({ filePath, content }) => {
+		files.set(filePath, content);
+		return 'ok';
+	}
+});
+
+const createDirectoryTool = tool({
+	description: 'mkdir',
+	inputSchema: z.object({ sandboxId: z.string(), path: z.string() }),
+	execute: async ({ path }) => {
+		directories.add(path);
+		return 'ok';
+	}
+});
+
+const deleteFileTool = tool({
+	description: 'delete',
+	inputSchema: z.object({ sandboxId: z.string(), path: z.string(), recursive: z.boolean() }),
+	execute: async ({ path }) => {
+		for (const file of [...files.keys()]) {
+			if (file === path || file.startsWith(`${path}/`)) files.delete(file);
+		}
+		return 'ok';
+	}
+});
+
+const executeCommandTool = tool({
+	description: 'run',
+	inputSchema: z.object({ sandboxId: z.string(), command: z.string() }),
+	execute: async () => 'ok'
+});
+
+async function runAgent(messageId: string, writes: Array<[string, string]>, userId = 'user-1') {
+	const recorder = new CheckpointRecorder({ messageId, threadId: 'thread-1', userId });
+	const tools = withCheckpoints({ write_file: writeFileTool }, recorder);
+	for (const [filePath, content] of writes) {
+		await tools.write_file.execute!(
+			{ sandboxId: 'sandbox-1', filePath, content },
+			{ toolCallId: filePath, messages: [] }
+		);
+	}
+	return recorder;
+}
+
+function assistantMessage(id: string): ChatMessage {
+	return {
+		id,
+		threadId: 'thread-1',
+		userId: 'user-1',
+		role: 'assistant',
+		content: '',
+		contentMarkdown: '',
+		timestamp: new Date(),
+		createdAt: new Date(),
+		updatedAt: new Date()
+	};
+}
+
+describe('Agent checkpoints', () => {
+	beforeEach(() => {
+		files.clear();
+		directories.clear();
+		checkpoints.clear();
+		files.set('src/app.ts', 'original');
+	});
+
+	it('should capture each file once, before the first write', async () => {
+		const recorder = await runAgent('message-1', [
+			['src/app.ts', 'edit 1'],
+			['src/app.ts', 'edit 2'],
+			['src/new.ts', 'created']
+		]);
+
+		expect(recorder.fileCount).toBe(2);
+		expect(checkpoints.get('message-1')?.files).toMatchObject([
+			{ path: 'src/app.ts', existed: true, content: 'original' },
+			{ path: 'src/new.ts', existed: false }
+		]);
+	});
+
+	it('should revert the message and every later run in the thread', async () => {
+		await runAgent('message-1', [['src/app.ts', 'run 1']]);
+		await new Promise((resolve) => setTimeout(resolve, 5));
+		await runAgent('message-2', [
+			['src/app.ts', 'run 2'],
+			['src/new.ts', 'created']
+		]);
+
+		const result = await revertToBeforeMessage(assistantMessage('message-1'));
+
+		expect(result.checkpoints).toBe(2);
+		expect(result.restored).toEqual(['src/app.ts']);
+		expect(result.deleted).toEqual(['src/new.ts']);
+		expect(files.get('src/app.ts')).toBe('original');
+		expect(files.has('src/new.ts')).toBe(false);
+		expect([...checkpoints.values()].every((c) => c.revertedAt)).toBe(true);
+	});
+
+	it('should leave earlier runs untouched when reverting a later message', async () => {
+		await runAgent('message-1', [['src/app.ts', 'run 1']]);
+		await new Promise((resolve) => setTimeout(resolve, 5));
+		await runAgent('message-2', [['src/app.ts', 'run 2']]);
+
+		await revertToBeforeMessage(assistantMessage('message-2'));
+
+		expect(files.get('src/app.ts')).toBe('run 1');
+		expect(checkpoints.get('message-1')?.revertedAt).toBeUndefined();
+	});
+
+	it("should leave files another participant's later run changed", async () => {
+		files.set('src/other.ts', 'original');
+		await runAgent('message-1', [
+			['src/app.ts', 'run 1'],
+			['src/other.ts', 'run 1']
+		]);
+		await new Promise((resolve) => setTimeout(resolve, 5));
+		await runAgent('message-2', [['src/app.ts', 'teammate']], 'user-2');
+
+		const result = await revertToBeforeMessage(assistantMessage('message-1'));
+
+		expect(result.checkpoints).toBe(1);
+		expect(result.restored).toEqual(['src/other.ts']);
+		expect(result.conflicts).toEqual(['src/app.ts']);
+		expect(files.get('src/app.ts')).toBe('teammate');
+		expect(checkpoints.get('message-2')?.revertedAt).toBeUndefined();
+	});
+
+	it('should report directory deletes with more files than it captures', async () => {
+		for (let index = 0; index < 201; index++) {
+			files.set(`dist/chunk-${index}.js`, 'built');
+		}
+		const recorder = new CheckpointRecorder({
+			messageId: 'message-1',
+			threadId: 'thread-1',
+			userId: 'user-1'
+		});
+		const tools = withCheckpoints({ delete_file: deleteFileTool }, recorder);
+		await tools.delete_file.execute!(
+			{ sandboxId: 'sandbox-1', path: 'dist', recursive: true },
+			{ toolCallId: 'call', messages: [] }
+		);
+
+		const result = await revertToBeforeMessage(assistantMessage('message-1'));
+
+		expect(result.restored).toHaveLength(200);
+		expect(result.incomplete).toEqual(['dist']);
+	});
+
+	it('should redirect tool calls to the authorized sandbox', async () => {
+		const recorder = new CheckpointRecorder({
+			messageId: 'message-1',
+			threadId: 'thread-1',
+			userId: 'user-1',
+			sandbox: { sandboxId: 'sandbox-1', sandboxType: 'daytona' }
+		});
+		const tools = withCheckpoints({ write_file: writeFileTool }, recorder);
+		await tools.write_file.execute!(
+			{ sandboxId: 'foreign-sandbox', filePath: 'src/app.ts', content: 'edit' },
+			{ toolCallId: 'call', messages: [] }
+		);
+
+		expect(checkpoints.get('message-1')?.sandboxId).toBe('sandbox-1');
+	});
+
+	it('should quote paths in the shell commands it runs', async () => {
+		await runAgent('message-1', [[`src/it's $(here).ts`, 'created']]);
+
+		await revertToBeforeMessage(assistantMessage('message-1'));
+
+		expect(files.has(`src/it's $(here).ts`)).toBe(false);
+	});
+
+	it('should remove directories the agent created and report the commands it ran', async () => {
+		directories.add('src');
+		const recorder = new CheckpointRecorder({
+			messageId: 'message-1',
+			threadId: 'thread-1',
+			userId: 'user-1'
+		});
+		const tools = withCheckpoints(
+			{
+				write_file: writeFileTool,
+				create_directory: createDirectoryTool,
+				execute_command: executeCommandTool
+			},
+			recorder
+		);
+		const options = { toolCallId: 'call', messages: [] };
+		await tools.create_directory.execute!({ sandboxId: 'sandbox-1', path: 'src' }, options);
+		await tools.create_directory.execute!({ sandboxId: 'sandbox-1', path: 'src/lib' }, options);
+		await tools.write_file.execute!(
+			{ sandboxId: 'sandbox-1', filePath: 'src/lib/cart.ts', content: 'created' },
+			options
+		);
+		await tools.execute_command.execute!(
+			{ sandboxId: 'sandbox-1', command: 'npm install zod' },
+			options
+		);
+
+		const result = await revertToBeforeMessage(assistantMessage('message-1'));
+
+		expect(result.deleted).toEqual(['src/lib/cart.ts', 'src/lib']);
+		expect(result.commands).toEqual(['npm install zod']);
+		expect([...directories]).toEqual(['src']);
+	});
+});
@@ -0,0 +1,500 @@
+/**
+ * Agent Checkpoint Service
+ * Captures files before the coding agent first modifies them during a run,
+ * so the sandbox can be reverted to its state before any assistant message
+ */
+
+import type { AgentCheckpoint, ChatMessage, CheckpointFile } from '$lib/types/chat';
+import type { SandboxProvider } from '$lib/types/sandbox';
+import type { Tool } from 'ai';
+import { pinToolSandbox, type AuthorizedSandbox } from './agent-approval.service';
+import { DatabaseService } from './database.service';
+import { shellQuote } from './git';
+import { sandboxManager } from './sandbox/sandbox-manager';
+
+// Keeps a checkpoint with many files well under MongoDB's 16MB document limit
+const MAX_CHECKPOINT_FILE_SIZE = 1024 * 1024; // 1MB
+const MAX_FILES_PER_DIRECTORY_DELETE = 200;
+
+// Agent tools that modify files, mapped to the input field holding the target path
+const FILE_MUTATING_TOOLS: Record<string, 'filePath' | 'path'> = {
+	write_file: 'filePath',
+	edit_file: 'filePath',
+	delete_file: 'path',
+	create_directory: 'path'
+};
+
+export interface CheckpointContext {
+	messageId: string;
+	threadId: string;
+	userId: string;
+	projectId?: string;
+	/** Sandbox the run was authorized for; tool calls naming another one are redirected to it */
+	sandbox?: AuthorizedSandbox;
+}
+
+export interface RevertResult {
+	messageId: string;
+	checkpoints: number;
+	restored: string[];
+	deleted: string[];
+	skipped: string[];
+	failed: Array<{ path: string; error: string }>;
+	/** Directories deleted with more files than were captured; the rest are lost */
+	incomplete: string[];
+	/** Files another participant's later run changed, left as they are */
+	conflicts: string[];
+	/** Shell commands run by the reverted messages; whatever they changed is left as is */
+	commands: string[];
+}
+
+/**
+ * Records the original state of every file an agent run touches.
+ * Only the first capture of each path counts, so the checkpoint always holds
+ * the content from before the run.
+ */
+export class CheckpointRecorder {
+	private readonly id = crypto.randomUUID();
+	private readonly createdAt = new Date();
+	private captured = new Set<string>();
+	private context: CheckpointContext;
+
+	constructor(context: CheckpointContext) {
+		this.context = context;
+	}
+
+	get fileCount(): number {
+		return this.captured.size;
+	}
+
+	get sandbox(): AuthorizedSandbox | undefined {
+		return this.context.sandbox;
+	}
+
+	/**
+	 * Capture a path before it is modified. Directory deletes capture the files below the path,
+	 * up to `MAX_FILES_PER_DIRECTORY_DELETE`, and mark the directory incomplete beyond that;
+	 * created directories only record whether they existed.
+	 * Failures are logged rather than thrown so checkpointing never blocks the agent.
+	 */
+	async capture(
+		sandboxId: string,
+		sandboxType: string | undefined,
+		path: string,
+		options: { recursive?: boolean; directory?: boolean } = {}
+	): Promise<void> {
+		if (!sandboxId || !path) return;
+
+		try {
+			const provider = sandboxType as SandboxProvider | undefined;
+			if (options.directory) {
+				await this.captureDirectory(sandboxId, provider, path);
+				return;
+			}
+
+			if (!options.recursive) {
+				await this.captureFile(sandboxId, provider, path);
+				return;
+			}
+
+			const { files, truncated } = await listFilesUnder(sandboxId, path, provider);
+			for (const filePath of files) {
+				await this.captureFile(sandboxId, provider, filePath);
+			}
+			if (truncated) {
+				await DatabaseService.appendAgentCheckpointFile(this.checkpoint(sandboxId, provider), {
+					path,
+					existed: true,
+					directory: true,
+					skipped: 'too-many-files',
+					capturedAt: new Date()
+				});
+			}
+		} catch (error) {
+			console.warn(`⚠️ [Checkpoint] Failed to capture ${path}:`, error);
+		}
+	}
+
+	/**
+	 * Record a shell command the agent is about to run. Its effects cannot be captured,
+	 * so reverts list it instead of undoing it.
+	 */
+	async recordCommand(
+		sandboxId: string,
+		sandboxType: string | undefined,
+		command: string
+	): Promise<void> {
+		if (!sandboxId || !command) return;
+
+		try {
+			await DatabaseService.appendAgentCheckpointCommand(
+				this.checkpoint(sandboxId, sandboxType as SandboxProvider | undefined),
+				command
+			);
+		} catch (error) {
+			console.warn(`⚠️ [Checkpoint] Failed to record command ${command}:`, error);
+		}
+	}
+
+	private async captureFile(
+		sandboxId: string,
+		provider: SandboxProvider | undefined,
+		path: string
+	): Promise<void> {
+		const key = `${sandboxId}:${path}`;
+		if (this.captured.has(key)) return;
+		this.captured.add(key);
+
+		const file = await snapshotFile(sandboxId, path, provider);
+		await DatabaseService.appendAgentCheckpointFile(this.checkpoint(sandboxId, provider), file);
+	}
+
+	private async captureDirectory(
+		sandboxId: string,
+		provider: SandboxProvider | undefined,
+		path: string
+	): Promise<void> {
+		const key = `${sandboxId}:${path}`;
+		if (this.captured.has(key)) return;
+		this.captured.add(key);
+
+		await DatabaseService.appendAgentCheckpointFile(this.checkpoint(sandboxId, provider), {
+			path,
+			existed: await pathExists(sandboxId, path, provider),
+			directory: true,
+			capturedAt: new Date()
+		});
+	}
+
+	private checkpoint(
+		sandboxId: string,
+		provider: SandboxProvider | undefined
+	): Omit<AgentCheckpoint, 'files' | 'updatedAt'> {
+		return {
+			id: this.id,
+			messageId: this.context.messageId,
+			threadId: this.context.threadId,
+			projectId: this.context.projectId,
+			userId: this.context.userId,
+			sandboxId,
+			sandboxType: provider,
+			createdAt: this.createdAt
+		};
+	}
+}
+
+/**
+ * Wrap file-modifying tools so each call is checkpointed before it runs
+ */
+export function withCheckpoints<TOOLS extends Record<string, Tool>>(
+	tools: TOOLS,
+	recorder: CheckpointRecorder
+): TOOLS {
+	const wrapped: Record<string, Tool> = { ...tools };
+
+	for (const [name, pathField] of Object.entries(FILE_MUTATING_TOOLS)) {
+		const original = tools[name];
+		if (!original?.execute) continue;
+
+		const execute = original.execute;
+		wrapped[name] = {
+			...original,
+			execute: async (modelInput: Record<string, unknown>, options) => {
+				const input = pinToolSandbox(modelInput, recorder.sandbox);
+				await recorder.capture(
+					input.sandboxId as string,
+					input.sandboxType as string | undefined,
+					input[pathField] as string,
+					{
+						recursive: name === 'delete_file' && input.recursive === true,
+						directory: name === 'create_directory'
+					}
+				);
+				return execute(input, options);
+			}
+		} as Tool;
+	}
+
+	// Commands can change anything, so they are recorded for the revert report instead
+	const command = tools.execute_command;
+	if (command?.execute) {
+		const execute = command.execute;
+		wrapped.execute_command = {
+			...command,
+			execute: async (modelInput: Record<string, unknown>, options) => {
+				const input = pinToolSandbox(modelInput, recorder.sandbox);
+				await recorder.recordCommand(
+					input.sandboxId as string,
+					input.sandboxType as string | undefined,
+					input.command as string
+				);
+				return execute(input, options);
+			}
+		} as Tool;
+	}
+
+	return wrapped as TOOLS;
+}
+
+/**
+ * Checkpoints a revert to before an assistant message would undo: the message's own run
+ * and the later runs in the thread by the same user, plus the other participants' later
+ * runs, which are left alone
+ */
+export async function findCheckpointsToRevert(
+	message: ChatMessage
+): Promise<{ own: AgentCheckpoint[]; others: AgentCheckpoint[] }> {
+	const ownCheckpoint = await DatabaseService.findAgentCheckpointByMessageId(message.id);
+	const since = ownCheckpoint?.createdAt ?? message.timestamp;
+	const checkpoints = await DatabaseService.findActiveAgentCheckpointsSince(
+		message.threadId,
+		since
+	);
+
+	return {
+		own: checkpoints.filter((checkpoint) => checkpoint.userId === message.userId),
+		others: checkpoints.filter((checkpoint) => checkpoint.userId !== message.userId)
+	};
+}
+
+/**
+ * Revert the sandbox to its state before an assistant message. Changes made by
+ * that message's run and by the same user's later runs in the thread are undone;
+ * files another participant's later run changed are left as they are.
+ */
+export async function revertToBeforeMessage(
+	message: ChatMessage,
+	found?: { own: AgentCheckpoint[]; others: AgentCheckpoint[] }
+): Promise<RevertResult> {
+	const { own: checkpoints, others } = found ?? (await findCheckpointsToRevert(message));
+	const othersFiles = new Set(
+		others.flatMap((checkpoint) =>
+			checkpoint.files.map((file) => `${checkpoint.sandboxId}:${file.path}`)
+		)
+	);
+
+	// Oldest capture per file wins: it is the content from before the first run touched it
+	const originals = new Map<string, { checkpoint: AgentCheckpoint; file: CheckpointFile }>();
+	for (const checkpoint of checkpoints) {
+		for (const file of checkpoint.files) {
+			const key = `${checkpoint.sandboxId}:${file.path}`;
+			if (!originals.has(key)) {
+				originals.set(key, { checkpoint, file });
+			}
+		}
+	}
+
+	const result: RevertResult = {
+		messageId: message.id,
+		checkpoints: checkpoints.length,
+		restored: [],
+		deleted: [],
+		skipped: [],
+		failed: [],
+		incomplete: [],
+		conflicts: [],
+		commands: checkpoints.flatMap((checkpoint) => checkpoint.commands ?? [])
+	};
+
+	// Directories go last, deepest first, so files the agent created in them are gone by then
+	const entries = [...originals.values()].sort(
+		(a, b) =>
+			Number(a.file.directory ?? false) - Number(b.file.directory ?? false) ||
+			(a.file.directory ? b.file.path.length - a.file.path.length : 0)
+	);
+
+	for (const { checkpoint, file } of entries) {
+		const provider = checkpoint.sandboxType as SandboxProvider | undefined;
+
+		if (othersFiles.has(`${checkpoint.sandboxId}:${file.path}`)) {
+			result.conflicts.push(file.path);
+			continue;
+		}
+
+		try {
+			if (file.skipped === 'too-many-files') {
+				result.incomplete.push(file.path);
+			} else if (file.directory) {
+				if (file.existed) continue;
+				if (await removeEmptyDirectory(checkpoint.sandboxId, file.path, provider)) {
+					result.deleted.push(file.path);
+				} else {
+					// Holds files the agent did not create
+					result.skipped.push(file.path);
+				}
+			} else if (file.skipped) {
+				result.skipped.push(file.path);
+			} else if (!file.existed) {
+				await removeFile(checkpoint.sandboxId, file.path, provider, checkpoint);
+				result.deleted.push(file.path);
+			} else {
+				const content =
+					file.encoding === 'base64'
+						? Buffer.from(file.content || '', 'base64')
+						: file.content || '';
+				const success = await sandboxManager.writeFile(checkpoint.sandboxId, file.path, content, {
+					createDirs: true,
+					provider,
+					userId: checkpoint.userId,
+					projectId: checkpoint.projectId
+				});
+				if (!success) {
+					throw new Error('write failed');
+				}
+				result.restored.push(file.path);
+			}
+		} catch (error) {
+			result.failed.push({
+				path: file.path,
+				error: error instanceof Error ? error.message : String(error)
+			});
+		}
+	}
+
+	if (checkpoints.length > 0) {
+		const revertedAt = new Date();
+		await DatabaseService.markAgentCheckpointsReverted(
+			checkpoints.map((checkpoint) => checkpoint.id),
+			revertedAt
+		);
+
+		for (const checkpoint of checkpoints) {
+			const reverted =
+				checkpoint.messageId === message.id
+					? message
+					: await DatabaseService.findChatMessageById(checkpoint.messageId);
+			if (!reverted) continue;
+
+			await DatabaseService.updateChatMessage(reverted.id, {
+				metadata: {
+					...reverted.metadata,
+					checkpoint: { fileCount: checkpoint.files.length, revertedAt }
+				}
+			});
+		}
+	}
+
+	console.log('⏪ [Checkpoint] Reverted agent changes', {
+		messageId: message.id,
+		checkpoints: result.checkpoints,
+		restored: result.restored.length,
+		deleted: result.deleted.length,
+		skipped: result.skipped.length,
+		failed: result.failed.length,
+		incomplete: result.incomplete.length,
+		conflicts: result.conflicts.length,
+		commands: result.commands.length
+	});
+
+	return result;
+}
+
+async function snapshotFile(
+	sandboxId: string,
+	path: string,
+	provider?: SandboxProvider
+): Promise<CheckpointFile> {
+	const capturedAt = new Date();
+
+	try {
+		const file = await sandboxManager.readFile(sandboxId, path, { provider });
+		if (!file) {
+			return { path, existed: false, capturedAt };
+		}
+
+		const size = file.size ?? file.content.length;
+		if (size > MAX_CHECKPOINT_FILE_SIZE) {
+			return { path, existed: true, skipped: 'too-large', capturedAt };
+		}
+
+		return typeof file.content === 'string'
+			? { path, existed: true, content: file.content, encoding: 'utf-8', capturedAt }
+			: {
+					path,
+					existed: true,
+					content: file.content.toString('base64'),
+					encoding: 'base64',
+					capturedAt
+				};
+	} catch {
+		// Some providers throw for missing files instead of returning null
+		const existed = await pathExists(sandboxId, path, provider);
+		return existed
+			? { path, existed: true, skipped: 'unreadable', capturedAt }
+			: { path, existed: false, capturedAt };
+	}
+}
+
+async function removeFile(
+	sandboxId: string,
+	path: string,
+	provider: SandboxProvider | undefined,
+	checkpoint: AgentCheckpoint
+): Promise<void> {
+	if (!(await pathExists(sandboxId, path, provider))) return;
+
+	const success = await sandboxManager.deleteFile(sandboxId, path, {
+		provider,
+		userId: checkpoint.userId,
+		projectId: checkpoint.projectId
+	});
+	if (!success) {
+		throw new Error('delete failed');
+	}
+}
+
+async function pathExists(
+	sandboxId: string,
+	path: string,
+	provider?: SandboxProvider
+): Promise<boolean> {
+	try {
+		const result = await sandboxManager.executeCommand(sandboxId, `test -e ${shellQuote(path)}`, {
+			provider
+		});
+		return result.success;
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Remove a directory the agent created, unless something else was put in it since.
+ * Returns whether the directory is gone.
+ */
+async function removeEmptyDirectory(
+	sandboxId: string,
+	path: string,
+	provider?: SandboxProvider
+): Promise<boolean> {
+	if (!(await pathExists(sandboxId, path, provider))) return true;
+
+	const result = await sandboxManager.executeCommand(sandboxId, `rmdir ${shellQuote(path)}`, {
+		provider
+	});
+	return result.success;
+}
+
+/** Files below a path, up to the capture limit; `truncated` when there are more */
+async function listFilesUnder(
+	sandboxId: string,
+	path: string,
+	provider?: SandboxProvider
+): Promise<{ files: string[]; truncated: boolean }> {
+	const result = await sandboxManager.executeCommand(
+		sandboxId,
+		`find ${shellQuote(path)} -type f | head -n ${MAX_FILES_PER_DIRECTORY_DELETE + 1}`,
+		{ provider }
+	);
+	if (!result.success) return { files: [path], truncated: false };
+
+	const files = result.output
+		.split('\n')
+		.map((line) => line.trim())
+		.filter(Boolean);
+	if (files.length === 0) return { files: [path], truncated: false };
+	return {
+		files: files.slice(0, MAX_FILES_PER_DIRECTORY_DELETE),
+		truncated: files.length > MAX_FILES_PER_DIRECTORY_DELETE
+	};
+}
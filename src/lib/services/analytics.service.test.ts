@@ -0,0 +1,154 @@
+/**
+ * Analytics Service Tests
+ */
+
+import type { Project } from '$lib/types';
+import type { ChatActivity } from '$lib/types/analytics';
+import type { SandboxSession, SessionMetrics } from '$lib/types/sandbox';
+import type { UsageDailyAggregate } from '$lib/types/usage';
+import { describe, expect, it, vi } from 'vitest';
+
+const liveMetrics = new Map<string, SessionMetrics>();
+
+vi.mock('./database.service', () => ({ DatabaseService: {} }));
+vi.mock('./session/sandbox-session.service', () => ({
+	SandboxSessionService: {
+		getInstance: () => ({
+			getSessionMetrics: vi.fn(async (sessionId: string) => liveMetrics.get(sessionId) ?? null)
+		})
+	}
+}));
+
+const { buildAnalyticsReport, measureSandboxUptime } = await import('./analytics.service');
+
+const HOUR = 60 * 60 * 1000;
+
+function project(id: string, name: string): Project {
+	return { id, name, status: 'ready' } as Project;
+}
+
+function session(id: string, projectId: string, start: string, stop?: string): SandboxSession {
+	return {
+		id,
+		sandboxId: `sandbox-${id}`,
+		projectId,
+		status: stop ? 'stopped' : 'running',
+		start_time: new Date(start),
+		stop_time: stop ? new Date(stop) : undefined,
+		created_at: new Date(start),
+		updated_at: new Date(stop ?? start),
+		last_activity: new Date(stop ?? start)
+	} as SandboxSession;
+}
+
+function usage(date: string, projectId: string, totalTokens: number, cost: number) {
+	return {
+		id: `${date}:user-1:${projectId}`,
+		date,
+		month: date.slice(0, 7),
+		userId: 'user-1',
+		projectId,
+		steps: 1,
+		inputTokens: totalTokens,
+		outputTokens: 0,
+		cachedInputTokens: 0,
+		totalTokens,
+		cost,
+		models: { 'gpt-4o': { totalTokens, cost } },
+		updatedAt: new Date()
+	} as UsageDailyAggregate;
+}
+
+describe('buildAnalyticsReport', () => {
+	const activity: ChatActivity = {
+		daily: [
+			{
+				date: '2025-03-02',
+				messages: 4,
+				userMessages: 2,
+				assistantMessages: 2,
+				toolCalls: 5,
+				toolFailures: 1
+			}
+		],
+		projects: [
+			{
+				projectId: 'p1',
+				messages: 4,
+				toolCalls: 5,
+				toolFailures: 1,
+				lastActivity: new Date('2025-03-02T10:00:00Z')
+			}
+		],
+		tools: [{ name: 'edit_file', calls: 5, failures: 1 }]
+	};
+
+	it('should fill every day in the range and merge chat with token usage', () => {
+		const report = buildAnalyticsReport({
+			from: '2025-03-01',
+			to: '2025-03-03',
+			projects: [project('p1', 'Web App'), project('p2', 'API')],
+			activity,
+			usage: [usage('2025-03-02', 'p1', 1200, 0.5), usage('2025-03-03', 'p2', 300, 0.1)],
+			sandboxes: []
+		});
+
+		expect(report.daily.map((d) => d.date)).toEqual(['2025-03-01', '2025-03-02', '2025-03-03']);
+		expect(report.daily[0]).toMatchObject({ messages: 0, totalTokens: 0 });
+		expect(report.daily[1]).toMatchObject({ messages: 4, toolFailures: 1, totalTokens: 1200 });
+		expect(report.totals).toMatchObject({
+			projects: 2,
+			activeProjects: 1,
+			messages: 4,
+			toolCalls: 5,
+			toolFailures: 1
+		});
+		expect(report.usage.totalTokens).toBe(1500);
+		expect(report.projects[0]).toMatchObject({
+			id: 'p1',
+			messages: 4,
+			totalTokens: 1200,
+			cost: 0.5
+		});
+		expect(report.projects[1]).toMatchObject({ id: 'p2', messages: 0, totalTokens: 300 });
+	});
+});
+
+describe('measureSandboxUptime', () => {
+	const start = new Date('2025-03-01T00:00:00Z');
+	const end = new Date('2025-03-02T00:00:00Z');
+
+	it('should clip stopped sessions to the range and skip those outside it', async () => {
+		const uptimes = await measureSandboxUptime(
+			[
+				session('s1', 'p1', '2025-02-28T22:00:00Z', '2025-03-01T03:00:00Z'),
+				session('s2', 'p1', '2025-03-05T00:00:00Z', '2025-03-05T01:00:00Z')
+			],
+			start,
+			end
+		);
+
+		expect(uptimes).toHaveLength(1);
+		expect(uptimes[0]).toMatchObject({ sessionId: 's1', active: false, uptime: 3 * HOUR });
+	});
+
+	it('should measure live sessions with the session service', async () => {
+		const now = new Date('2025-03-01T12:00:00Z');
+		liveMetrics.set('s3', {
+			sessionId: 's3',
+			sandboxId: 'sandbox-s3',
+			uptime: 2 * HOUR,
+			lastActivity: now,
+			resourceUsage: { cpu: 0, memory: 0, storage: 0, network: 0 }
+		});
+
+		const [uptime] = await measureSandboxUptime(
+			[session('s3', 'p1', '2025-02-01T00:00:00Z')],
+			start,
+			end,
+			now
+		);
+
+		expect(uptime).toMatchObject({ sessionId: 's3', active: true, uptime: 2 * HOUR });
+	});
+});
@@ -0,0 +1,214 @@
+/**
+ * Analytics Service
+ * Builds the analytics dashboard from stored projects, chat message metadata,
+ * sandbox sessions and the usage ledger
+ */
+
+import type { Project } from '$lib/types';
+import type {
+	AnalyticsReport,
+	ChatActivity,
+	ProjectAnalytics,
+	SandboxUptime
+} from '$lib/types/analytics';
+import type { SandboxSession } from '$lib/types/sandbox';
+import type { UsageDailyAggregate } from '$lib/types/usage';
+import { DatabaseService } from './database.service';
+import { SandboxSessionService } from './session/sandbox-session.service';
+import { buildUsageReport } from './usage-ledger.service';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_PROJECTS = 500;
+
+export interface AnalyticsQuery {
+	/** Inclusive YYYY-MM-DD (UTC) */
+	from: string;
+	/** Inclusive YYYY-MM-DD (UTC) */
+	to: string;
+	projectId?: string;
+}
+
+/**
+ * Collect analytics for a user, or for a whole project when `allUsers` is set
+ * (project owners see every collaborator's activity)
+ */
+export async function getAnalytics(
+	userId: string,
+	query: AnalyticsQuery,
+	options: { project?: Project; allUsers?: boolean } = {}
+): Promise<AnalyticsReport> {
+	const { start, end } = toRange(query.from, query.to);
+	const scopedUserId = options.allUsers ? undefined : userId;
+
+	const projects = options.project
+		? [options.project]
+		: await DatabaseService.findProjectsByUserId(userId, MAX_PROJECTS);
+	const activity = await DatabaseService.aggregateChatActivity({
+		userId: scopedUserId,
+		projectId: query.projectId,
+		from: start,
+		to: end
+	});
+	const usage = await DatabaseService.findDailyUsage({
+		userId: scopedUserId,
+		projectId: query.projectId,
+		from: query.from,
+		to: query.to
+	});
+	const sessionService = SandboxSessionService.getInstance();
+	const sessions =
+		query.projectId && options.allUsers
+			? await sessionService.getProjectSessions(query.projectId, true)
+			: (await sessionService.getUserSessions(userId, true)).filter(
+					(s) => !query.projectId || s.projectId === query.projectId
+				);
+	const sandboxes = await measureSandboxUptime(sessions, start, end);
+
+	return buildAnalyticsReport({ ...query, projects, activity, usage, sandboxes });
+}
+
+/**
+ * Uptime of each sandbox session clipped to [start, end). Live sessions are measured with
+ * the session service; stopped ones from their recorded start and stop times.
+ */
+export async function measureSandboxUptime(
+	sessions: SandboxSession[],
+	start: Date,
+	end: Date,
+	now = new Date()
+): Promise<SandboxUptime[]> {
+	const sessionService = SandboxSessionService.getInstance();
+	const results: SandboxUptime[] = [];
+
+	for (const session of sessions) {
+		const metrics = await sessionService.getSessionMetrics(session.id).catch((error) => {
+			console.warn(`⚠️ [Analytics] Failed to read metrics for session ${session.id}:`, error);
+			return null;
+		});
+
+		const startedAt = metrics
+			? now.getTime() - metrics.uptime
+			: new Date(session.start_time ?? session.created_at).getTime();
+		const stoppedAt = metrics
+			? now.getTime()
+			: new Date(session.stop_time ?? session.updated_at).getTime();
+		const uptime = Math.max(
+			0,
+			Math.min(end.getTime(), stoppedAt) - Math.max(start.getTime(), startedAt)
+		);
+		if (uptime === 0 && !metrics) continue;
+
+		results.push({
+			sessionId: session.id,
+			sandboxId: session.sandboxId,
+			projectId: session.projectId,
+			status: session.status,
+			active: !!metrics,
+			uptime,
+			lastActivity: metrics?.lastActivity ?? session.last_activity
+		});
+	}
+
+	return results.sort((a, b) => b.uptime - a.uptime);
+}
+
+/**
+ * Merge chat activity, token usage and sandbox uptime into one report
+ */
+export function buildAnalyticsReport(input: {
+	from: string;
+	to: string;
+	projectId?: string;
+	projects: Project[];
+	activity: ChatActivity;
+	usage: UsageDailyAggregate[];
+	sandboxes: SandboxUptime[];
+}): AnalyticsReport {
+	const { activity, sandboxes } = input;
+	const usage = buildUsageReport(input.usage, input.from, input.to);
+
+	const daily = new Map<string, AnalyticsReport['daily'][number]>();
+	for (const date of eachDate(input.from, input.to)) {
+		daily.set(date, {
+			date,
+			messages: 0,
+			userMessages: 0,
+			assistantMessages: 0,
+			toolCalls: 0,
+			toolFailures: 0,
+			totalTokens: 0,
+			cost: 0
+		});
+	}
+	for (const day of activity.daily) {
+		const entry = daily.get(day.date);
+		if (entry) Object.assign(entry, day);
+	}
+	for (const day of usage.daily) {
+		const entry = daily.get(day.date);
+		if (!entry) continue;
+		entry.totalTokens = day.totalTokens;
+		entry.cost = day.cost;
+	}
+
+	const projects: ProjectAnalytics[] = input.projects.map((project) => {
+		const chat = activity.projects.find((p) => p.projectId === project.id);
+		const projectUsage = input.usage.filter((u) => u.projectId === project.id);
+		const projectSandboxes = sandboxes.filter((s) => s.projectId === project.id);
+		return {
+			id: project.id,
+			name: project.name,
+			status: project.status,
+			messages: chat?.messages ?? 0,
+			toolCalls: chat?.toolCalls ?? 0,
+			toolFailures: chat?.toolFailures ?? 0,
+			totalTokens: projectUsage.reduce((sum, u) => sum + u.totalTokens, 0),
+			cost: projectUsage.reduce((sum, u) => sum + u.cost, 0),
+			sandboxUptime: projectSandboxes.reduce((sum, s) => sum + s.uptime, 0),
+			lastActivity: chat?.lastActivity
+		};
+	});
+
+	const sum = (key: 'messages' | 'toolCalls' | 'toolFailures') =>
+		activity.daily.reduce((total, day) => total + day[key], 0);
+
+	return {
+		from: input.from,
+		to: input.to,
+		projectId: input.projectId,
+		totals: {
+			projects: input.projects.length,
+			activeProjects: projects.filter((p) => p.messages > 0).length,
+			messages: sum('messages'),
+			toolCalls: sum('toolCalls'),
+			toolFailures: sum('toolFailures'),
+			activeSandboxes: sandboxes.filter((s) => s.active).length,
+			sandboxUptime: sandboxes.reduce((total, s) => total + s.uptime, 0)
+		},
+		usage: usage.totals,
+		daily: [...daily.values()],
+		tools: activity.tools,
+		models: usage.models,
+		projects: projects.sort(
+			(a, b) => (b.lastActivity?.getTime() ?? 0) - (a.lastActivity?.getTime() ?? 0)
+		),
+		sandboxes
+	};
+}
+
+/** [start of `from`, start of the day after `to`) in UTC */
+function toRange(from: string, to: string): { start: Date; end: Date } {
+	return {
+		start: new Date(`${from}T00:00:00.000Z`),
+		end: new Date(new Date(`${to}T00:00:00.000Z`).getTime() + DAY_MS)
+	};
+}
+
+function eachDate(from: string, to: string): string[] {
+	const { start, end } = toRange(from, to);
+	const dates: string[] = [];
+	for (let time = start.getTime(); time < end.getTime(); time += DAY_MS) {
+		dates.push(new Date(time).toISOString().slice(0, 10));
+	}
+	return dates;
+}
@@ -8,6 +8,7 @@ import { terminalBridge } from '$lib/services/terminal-bridge.service';
 import { agentActions } from '$lib/stores/agent-state.store';
 import type { ChatMessage, ChatThread } from '$lib/stores/chatThreads';
 import { chatThreadsActions, chatThreadsStore } from '$lib/stores/chatThreads';
+import type { ToolApprovalDecision, ToolApprovalRequest } from '$lib/types/tools';
 import { chatFileContext } from '@/stores/editor';
 import { selectedModelStore } from '@/stores/model';
 import { derived, get, writable, type Readable } from 'svelte/store';
@@ -37,6 +38,8 @@ export interface UIChatMessage {
 			fileContent?: string | null;
 		};
 		reason?: string;
+		/** Set when the server is holding the tool call for a decision */
+		approvalId?: string;
 	};
 }
 
@@ -394,7 +397,9 @@ class ChatService {
 			});
 
 			if (!response.ok) {
-				throw new Error(`Stream request failed: ${response.status}`);
+				// Budget and validation errors carry a readable message
+				const data = await response.json().catch(() => ({}));
+				throw new Error(data.error || `Stream request failed: ${response.status}`);
 			}
 
 			// Extract thread ID from headers if available
@@ -519,6 +524,11 @@ class ChatService {
 									agentActions.setStatus('thinking', 'Processing tool result...');
 									break;
 
+								case 'data-approval':
+									// A tool call is paused on the server until the user decides
+									this.handleApprovalEvent(projectId, threadId, event.data);
+									break;
+
 								case 'finish-step':
 									// Step finished (will be followed by another step if agent continues)
 									break;
@@ -644,6 +654,73 @@ class ChatService {
 		}
 	}
 
+	/**
+	 * Show a paused tool call for review, or close the review once it is settled
+	 */
+	private handleApprovalEvent(projectId: string, threadId: string, approval: ToolApprovalRequest) {
+		const messageId = `approval-${approval.id}`;
+
+		if (approval.status === 'pending') {
+			this.isWaitingForInterruptApproval = true;
+			agentActions.setStatus('waiting_approval', `Waiting for approval: ${approval.toolName}`);
+			chatThreadsActions.addMessage(projectId, threadId, 'assistant', approval.reason, {
+				messageId,
+				agentInterrupt: {
+					approvalId: approval.id,
+					toolCalls: [
+						{ name: approval.toolName, parameters: approval.input, id: approval.toolCallId }
+					],
+					stateSnapshot: {
+						sandboxId: (approval.input.sandboxId as string | undefined) ?? null,
+						currentFile: approval.preview?.filePath ?? null,
+						fileContent: approval.preview?.previousContent ?? null
+					},
+					reason: approval.reason
+				}
+			});
+			return;
+		}
+
+		const outcome: Record<Exclude<ToolApprovalRequest['status'], 'pending'>, string> = {
+			approved: `✅ Approved \`${approval.toolName}\``,
+			rejected: `❌ Rejected \`${approval.toolName}\``,
+			expired: `⏱️ \`${approval.toolName}\` was not approved${approval.feedback ? ` (${approval.feedback})` : ''}`
+		};
+
+		this.isWaitingForInterruptApproval = false;
+		agentActions.setStatus(
+			approval.status === 'approved' ? 'executing' : 'thinking',
+			approval.status === 'approved' ? `Executing ${approval.toolName}...` : 'Processing...'
+		);
+		chatThreadsActions.updateMessage(projectId, threadId, messageId, outcome[approval.status], {
+			agentInterrupt: undefined
+		});
+	}
+
+	/**
+	 * Approve or reject a tool call the server is holding. The paused stream
+	 * resumes on its own once the decision is recorded.
+	 */
+	async resolveApproval(approvalId: string, decision: ToolApprovalDecision): Promise<boolean> {
+		try {
+			const response = await fetch(`/api/agent/approvals/${approvalId}`, {
+				method: 'POST',
+				headers: { 'Content-Type': 'application/json' },
+				body: JSON.stringify(decision)
+			});
+
+			if (!response.ok) {
+				const data = await response.json().catch(() => ({}));
+				console.error('Failed to resolve approval:', data.error || response.status);
+				return false;
+			}
+			return true;
+		} catch (err) {
+			console.error('Failed to resolve approval:', err);
+			return false;
+		}
+	}
+
 	/**
 	 * Clear interrupt approval flag (call after user makes a decision)
 	 */
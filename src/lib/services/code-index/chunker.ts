@@ -0,0 +1,280 @@
+/**
+ * Code Chunker
+ * Splits source files into symbol-level chunks for embedding, falling back to line windows
+ */
+
+import type { ChunkDraft, CodeChunkKind } from './code-index.interface.js';
+
+export interface ChunkOptions {
+	maxChunkLines?: number;
+	windowLines?: number;
+	windowOverlap?: number;
+}
+
+interface SymbolPattern {
+	regex: RegExp;
+	kind: CodeChunkKind;
+}
+
+interface SymbolStart {
+	line: number;
+	kind: CodeChunkKind;
+	symbol: string;
+}
+
+const DEFAULT_OPTIONS: Required<ChunkOptions> = {
+	maxChunkLines: 120,
+	windowLines: 60,
+	windowOverlap: 10
+};
+
+// Segments shorter than this are merged into a preceding variable/block chunk
+const MIN_CHUNK_LINES = 3;
+
+const LANGUAGE_BY_EXTENSION: Record<string, string> = {
+	ts: 'typescript',
+	tsx: 'typescript',
+	mts: 'typescript',
+	cts: 'typescript',
+	js: 'javascript',
+	jsx: 'javascript',
+	mjs: 'javascript',
+	cjs: 'javascript',
+	svelte: 'svelte',
+	vue: 'vue',
+	py: 'python',
+	go: 'go',
+	rs: 'rust',
+	java: 'java',
+	rb: 'ruby',
+	php: 'php',
+	cs: 'csharp',
+	c: 'c',
+	h: 'c',
+	cpp: 'cpp',
+	hpp: 'cpp',
+	css: 'css',
+	scss: 'scss',
+	html: 'html',
+	md: 'markdown',
+	json: 'json',
+	yaml: 'yaml',
+	yml: 'yaml',
+	toml: 'toml',
+	sql: 'sql',
+	sh: 'shell'
+};
+
+const JS_PATTERNS: SymbolPattern[] = [
+	{
+		regex: /^(?:export\s+)?(?:default\s+)?(?:async\s+)?function\s*\*?\s*([A-Za-z_$][\w$]*)/,
+		kind: 'function'
+	},
+	{
+		regex: /^(?:export\s+)?(?:default\s+)?(?:abstract\s+)?class\s+([A-Za-z_$][\w$]*)/,
+		kind: 'class'
+	},
+	{ regex: /^(?:export\s+)?(?:declare\s+)?interface\s+([A-Za-z_$][\w$]*)/, kind: 'interface' },
+	{
+		regex: /^(?:export\s+)?(?:declare\s+)?type\s+([A-Za-z_$][\w$]*)\s*(?:<.*>)?\s*=/,
+		kind: 'type'
+	},
+	{ regex: /^(?:export\s+)?(?:declare\s+)?(?:const\s+)?enum\s+([A-Za-z_$][\w$]*)/, kind: 'enum' },
+	{
+		regex: /^(?:export\s+)?(?:const|let|var)\s+([A-Za-z_$][\w$]*)\s*(?::[^=]+)?=/,
+		kind: 'variable'
+	}
+];
+
+const PYTHON_PATTERNS: SymbolPattern[] = [
+	{ regex: /^(?:async\s+)?def\s+(\w+)/, kind: 'function' },
+	{ regex: /^class\s+(\w+)/, kind: 'class' }
+];
+
+const GO_PATTERNS: SymbolPattern[] = [
+	{ regex: /^func\s+(?:\([^)]*\)\s*)?(\w+)/, kind: 'function' },
+	{ regex: /^type\s+(\w+)\s+interface\b/, kind: 'interface' },
+	{ regex: /^type\s+(\w+)/, kind: 'type' }
+];
+
+const RUST_PATTERNS: SymbolPattern[] = [
+	{
+		regex: /^(?:pub(?:\([^)]*\))?\s+)?(?:const\s+)?(?:async\s+)?(?:unsafe\s+)?fn\s+(\w+)/,
+		kind: 'function'
+	},
+	{ regex: /^(?:pub(?:\([^)]*\))?\s+)?(?:struct|union)\s+(\w+)/, kind: 'class' },
+	{ regex: /^(?:pub(?:\([^)]*\))?\s+)?trait\s+(\w+)/, kind: 'interface' },
+	{ regex: /^(?:pub(?:\([^)]*\))?\s+)?enum\s+(\w+)/, kind: 'enum' },
+	{ regex: /^impl(?:<[^>]*>)?\s+(?:[\w:<>, ]+\s+for\s+)?(\w+)/, kind: 'class' }
+];
+
+const PATTERNS_BY_LANGUAGE: Record<string, SymbolPattern[]> = {
+	typescript: JS_PATTERNS,
+	javascript: JS_PATTERNS,
+	svelte: JS_PATTERNS,
+	vue: JS_PATTERNS,
+	python: PYTHON_PATTERNS,
+	go: GO_PATTERNS,
+	rust: RUST_PATTERNS
+};
+
+// Component files keep their script one indentation level deep
+const COMPONENT_LANGUAGES = new Set(['svelte', 'vue']);
+
+/**
+ * Detect the language of a file from its extension
+ */
+export function detectLanguage(filePath: string): string {
+	const name = filePath.split('/').pop() || '';
+	const extension = name.includes('.') ? name.split('.').pop()!.toLowerCase() : '';
+	return LANGUAGE_BY_EXTENSION[extension] || 'text';
+}
+
+/**
+ * Split a file into chunks. Languages with known symbol syntax are split at
+ * top-level declarations; everything else is split into overlapping line windows.
+ */
+export function chunkFile(
+	filePath: string,
+	content: string,
+	options: ChunkOptions = {}
+): ChunkDraft[] {
+	if (!content.trim()) return [];
+
+	const settings = { ...DEFAULT_OPTIONS, ...options };
+	const language = detectLanguage(filePath);
+	const lines = content.split('\n');
+	const starts = findSymbolStarts(lines, language);
+
+	if (starts.length === 0) {
+		const isComponent = COMPONENT_LANGUAGES.has(language);
+		return windowChunks(lines, 0, lines.length - 1, settings, {
+			language,
+			kind: isComponent ? 'component' : 'block',
+			symbol: isComponent ? componentName(filePath) : undefined
+		}).map((chunk) => ({ ...chunk, filePath }));
+	}
+
+	const chunks: Omit<ChunkDraft, 'filePath'>[] = [];
+	const begins = starts.map((start, index) =>
+		attachLeadingComments(lines, start.line, index > 0 ? starts[index - 1].line + 1 : 0)
+	);
+
+	if (begins[0] > 0) {
+		chunks.push(...windowChunks(lines, 0, begins[0] - 1, settings, { language, kind: 'block' }));
+	}
+
+	starts.forEach((start, index) => {
+		let end = index + 1 < starts.length ? begins[index + 1] - 1 : lines.length - 1;
+		while (end > begins[index] && !lines[end].trim()) end--;
+		const segment = { language, kind: start.kind, symbol: start.symbol };
+		const length = end - begins[index] + 1;
+		const previous = chunks[chunks.length - 1];
+
+		if (
+			length < MIN_CHUNK_LINES &&
+			previous &&
+			(previous.kind === 'variable' || previous.kind === 'block') &&
+			previous.endLine - previous.startLine + 1 + length <= settings.maxChunkLines
+		) {
+			previous.kind = 'block';
+			previous.symbol = undefined;
+			previous.endLine = end + 1;
+			previous.content = lines.slice(previous.startLine - 1, end + 1).join('\n');
+			return;
+		}
+
+		chunks.push(...windowChunks(lines, begins[index], end, settings, segment));
+	});
+
+	return chunks.filter((chunk) => chunk.content.trim()).map((chunk) => ({ ...chunk, filePath }));
+}
+
+function findSymbolStarts(lines: string[], language: string): SymbolStart[] {
+	const patterns = PATTERNS_BY_LANGUAGE[language];
+	if (!patterns) return [];
+
+	const allowIndent = COMPONENT_LANGUAGES.has(language);
+	const starts: SymbolStart[] = [];
+
+	lines.forEach((line, index) => {
+		if (!line.trim()) return;
+
+		let candidate = line;
+		if (/^\s/.test(line)) {
+			// Only component script blocks may declare symbols one level deep
+			const match = allowIndent ? line.match(/^(?:\t| {2}| {4})(?=\S)/) : null;
+			if (!match) return;
+			candidate = line.slice(match[0].length);
+		}
+
+		for (const pattern of patterns) {
+			const match = candidate.match(pattern.regex);
+			if (match) {
+				starts.push({ line: index, kind: pattern.kind, symbol: match[1] });
+				break;
+			}
+		}
+	});
+
+	return starts;
+}
+
+/**
+ * Move a chunk start upwards over doc comments, attributes and decorators
+ */
+function attachLeadingComments(lines: string[], line: number, floor: number): number {
+	let begin = line;
+	while (begin - 1 >= floor) {
+		const previous = lines[begin - 1].trim();
+		if (!previous || !/^(\/\/|\/\*|\*|#|@)/.test(previous)) break;
+		begin--;
+	}
+	return begin;
+}
+
+/**
+ * Emit a [from, to] line range as one chunk, or as overlapping windows when it is too long
+ */
+function windowChunks(
+	lines: string[],
+	from: number,
+	to: number,
+	settings: Required<ChunkOptions>,
+	segment: { language: string; kind: CodeChunkKind; symbol?: string }
+): Omit<ChunkDraft, 'filePath'>[] {
+	// Trim trailing blank lines so chunks end at the last meaningful line
+	while (to > from && !lines[to].trim()) to--;
+
+	const length = to - from + 1;
+	const limit = segment.kind === 'block' ? settings.windowLines : settings.maxChunkLines;
+	if (length <= limit) {
+		return [
+			{
+				...segment,
+				startLine: from + 1,
+				endLine: to + 1,
+				content: lines.slice(from, to + 1).join('\n')
+			}
+		];
+	}
+
+	const chunks: Omit<ChunkDraft, 'filePath'>[] = [];
+	const step = Math.max(1, settings.windowLines - settings.windowOverlap);
+	for (let start = from; start <= to; start += step) {
+		const end = Math.min(start + settings.windowLines - 1, to);
+		chunks.push({
+			...segment,
+			startLine: start + 1,
+			endLine: end + 1,
+			content: lines.slice(start, end + 1).join('\n')
+		});
+		if (end === to) break;
+	}
+	return chunks;
+}
+
+function componentName(filePath: string): string {
+	const name = filePath.split('/').pop() || filePath;
+	return name.replace(/\.[^.]+$/, '');
+}
@@ -0,0 +1,66 @@
+/**
+ * Code Index Interfaces
+ * Shared types for chunking, embedding and storing sandbox source code
+ */
+
+export type CodeChunkKind =
+	'function' | 'class' | 'interface' | 'type' | 'enum' | 'variable' | 'component' | 'block';
+
+export interface CodeChunk {
+	id: string;
+	sandboxId: string;
+	filePath: string;
+	language: string;
+	kind: CodeChunkKind;
+	symbol?: string;
+	startLine: number;
+	endLine: number;
+	content: string;
+}
+
+/** Chunk produced by the chunker before it is bound to a sandbox */
+export type ChunkDraft = Omit<CodeChunk, 'id' | 'sandboxId'>;
+
+export interface CodeSearchFilter {
+	pathPrefix?: string;
+	language?: string;
+}
+
+export interface CodeSearchResult {
+	chunk: CodeChunk;
+	score: number;
+}
+
+export interface IEmbedder {
+	readonly name: string;
+	readonly dimensions: number;
+	embed(texts: string[]): Promise<number[][]>;
+}
+
+export interface IVectorStore {
+	readonly name: string;
+	upsert(chunks: CodeChunk[], vectors: number[][]): Promise<void>;
+	deleteFile(sandboxId: string, filePath: string): Promise<void>;
+	deleteSandbox(sandboxId: string): Promise<void>;
+	search(
+		sandboxId: string,
+		vector: number[],
+		limit: number,
+		filter?: CodeSearchFilter
+	): Promise<CodeSearchResult[]>;
+	count(sandboxId: string): Promise<number>;
+}
+
+export type CodeIndexStatus = 'idle' | 'indexing' | 'ready' | 'error';
+
+export interface CodeIndexStats {
+	sandboxId: string;
+	status: CodeIndexStatus;
+	rootPath: string;
+	files: number;
+	chunks: number;
+	embedder: string;
+	store: string;
+	lastIndexedAt?: Date;
+	error?: string;
+}
@@ -0,0 +1,413 @@
+/**
+ * Code Index Service
+ * Builds and queries per-sandbox semantic indexes of source code and keeps them
+ * up to date from file change events
+ */
+
+import { createHash } from 'node:crypto';
+import { codeIndexConfig } from '../../config/code-index.config.js';
+import type { SandboxProvider } from '../../types/sandbox.js';
+import { fileChangeBroadcaster, type FileChangeEvent } from '../file-change-broadcaster.js';
+import { shellQuote } from '../git/index.js';
+import { sandboxManager } from '../sandbox/sandbox-manager.js';
+import { chunkFile } from './chunker.js';
+import type {
+	CodeChunk,
+	CodeIndexStats,
+	CodeIndexStatus,
+	CodeSearchFilter,
+	CodeSearchResult,
+	IEmbedder,
+	IVectorStore
+} from './code-index.interface.js';
+import { createEmbedder } from './embedders.js';
+import { createVectorStore } from './vector-stores.js';
+
+interface IndexedFile {
+	hash: string;
+	chunks: number;
+}
+
+interface SandboxIndex {
+	sandboxId: string;
+	rootPath: string;
+	provider?: SandboxProvider;
+	status: CodeIndexStatus;
+	files: Map<string, IndexedFile>;
+	building: Promise<CodeIndexStats> | null;
+	pendingUpdates: Map<string, ReturnType<typeof setTimeout>>;
+	lastIndexedAt?: Date;
+	error?: string;
+}
+
+export interface IndexSandboxOptions {
+	rootPath?: string;
+	provider?: SandboxProvider;
+	force?: boolean;
+}
+
+export interface CodeSearchOptions extends CodeSearchFilter, Omit<IndexSandboxOptions, 'force'> {
+	limit?: number;
+}
+
+export class CodeIndexService {
+	private static instance: CodeIndexService;
+	private embedder: IEmbedder | null;
+	private store: IVectorStore | null;
+	private indexes = new Map<string, SandboxIndex>();
+	private unsubscribe: (() => void) | null = null;
+
+	constructor(embedder?: IEmbedder, store?: IVectorStore) {
+		this.embedder = embedder ?? null;
+		this.store = store ?? null;
+	}
+
+	static getInstance(): CodeIndexService {
+		if (!CodeIndexService.instance) {
+			CodeIndexService.instance = new CodeIndexService();
+		}
+		return CodeIndexService.instance;
+	}
+
+	/**
+	 * Index (or incrementally re-index) all source files of a sandbox.
+	 * Concurrent calls for the same sandbox share one build.
+	 */
+	async indexSandbox(
+		sandboxId: string,
+		options: IndexSandboxOptions = {}
+	): Promise<CodeIndexStats> {
+		if (!codeIndexConfig.enabled) {
+			throw new Error('Code indexing is disabled (CODE_INDEX_ENABLED=false)');
+		}
+		this.ensureWatching();
+
+		const index = this.getOrCreateIndex(sandboxId, options);
+		if (!index.building) {
+			index.building = this.buildIndex(index, options.force ?? false).finally(() => {
+				index.building = null;
+			});
+		}
+		return index.building;
+	}
+
+	/**
+	 * Search a sandbox index, building it first if the sandbox has not been indexed yet
+	 */
+	async search(
+		sandboxId: string,
+		query: string,
+		options: CodeSearchOptions = {}
+	): Promise<CodeSearchResult[]> {
+		const index = this.indexes.get(sandboxId);
+		if (index?.building) {
+			await index.building;
+		} else if (!index || index.status !== 'ready') {
+			await this.indexSandbox(sandboxId, options);
+		}
+
+		const [vector] = await this.getEmbedder().embed([query]);
+		return this.getStore().search(sandboxId, vector, options.limit ?? 10, {
+			pathPrefix: options.pathPrefix,
+			language: options.language
+		});
+	}
+
+	/**
+	 * Get index statistics for a sandbox, or null if it was never indexed
+	 */
+	getStats(sandboxId: string): CodeIndexStats | null {
+		const index = this.indexes.get(sandboxId);
+		if (!index) return null;
+
+		let chunks = 0;
+		for (const file of index.files.values()) {
+			chunks += file.chunks;
+		}
+
+		return {
+			sandboxId,
+			status: index.status,
+			rootPath: index.rootPath,
+			files: index.files.size,
+			chunks,
+			embedder: this.getEmbedder().name,
+			store: this.getStore().name,
+			lastIndexedAt: index.lastIndexedAt,
+			error: index.error
+		};
+	}
+
+	/**
+	 * Drop a sandbox index and stop tracking its file changes
+	 */
+	async removeSandbox(sandboxId: string): Promise<void> {
+		const index = this.indexes.get(sandboxId);
+		if (index) {
+			for (const timer of index.pendingUpdates.values()) {
+				clearTimeout(timer);
+			}
+			this.indexes.delete(sandboxId);
+		}
+		await this.getStore().deleteSandbox(sandboxId);
+	}
+
+	/**
+	 * Stop listening for file change events
+	 */
+	dispose(): void {
+		this.unsubscribe?.();
+		this.unsubscribe = null;
+		for (const index of this.indexes.values()) {
+			for (const timer of index.pendingUpdates.values()) {
+				clearTimeout(timer);
+			}
+			index.pendingUpdates.clear();
+		}
+	}
+
+	// Embedder and store are created on first use so a misconfigured backend
+	// only fails semantic search, not every module importing this service
+	private getEmbedder(): IEmbedder {
+		if (!this.embedder) {
+			this.embedder = createEmbedder();
+		}
+		return this.embedder;
+	}
+
+	private getStore(): IVectorStore {
+		if (!this.store) {
+			this.store = createVectorStore(this.getEmbedder().dimensions);
+		}
+		return this.store;
+	}
+
+	private getOrCreateIndex(sandboxId: string, options: IndexSandboxOptions): SandboxIndex {
+		let index = this.indexes.get(sandboxId);
+		if (!index) {
+			index = {
+				sandboxId,
+				rootPath: normalizePath(options.rootPath || codeIndexConfig.rootPath),
+				provider: options.provider,
+				status: 'idle',
+				files: new Map(),
+				building: null,
+				pendingUpdates: new Map()
+			};
+			this.indexes.set(sandboxId, index);
+		} else if (options.provider) {
+			index.provider = options.provider;
+		}
+		return index;
+	}
+
+	private async buildIndex(index: SandboxIndex, force: boolean): Promise<CodeIndexStats> {
+		const startTime = Date.now();
+		index.status = 'indexing';
+		index.error = undefined;
+
+		try {
+			const paths = await this.listSourceFiles(index);
+			const seen = new Set<string>();
+			let updated = 0;
+
+			for (const path of paths) {
+				const content = await this.readSourceFile(index, path);
+				if (content === null) continue;
+
+				seen.add(path);
+				const hash = hashContent(content);
+				if (!force && index.files.get(path)?.hash === hash) continue;
+
+				await this.indexContent(index, path, content, hash);
+				updated++;
+			}
+
+			for (const path of [...index.files.keys()]) {
+				if (!seen.has(path)) {
+					await this.removeFile(index, path);
+				}
+			}
+
+			index.status = 'ready';
+			index.lastIndexedAt = new Date();
+
+			console.log('🔎 [CodeIndex] Sandbox indexed', {
+				sandboxId: index.sandboxId,
+				files: index.files.size,
+				updated,
+				duration: Date.now() - startTime
+			});
+		} catch (error) {
+			index.status = 'error';
+			index.error = error instanceof Error ? error.message : String(error);
+			throw new Error(`Failed to index sandbox ${index.sandboxId}: ${index.error}`);
+		}
+
+		return this.getStats(index.sandboxId)!;
+	}
+
+	/**
+	 * List indexable files with a single `find`, which every provider supports
+	 */
+	private async listSourceFiles(index: SandboxIndex): Promise<string[]> {
+		const prune = codeIndexConfig.ignoredDirectories.map((dir) => `-name "${dir}"`).join(' -o ');
+		const include = codeIndexConfig.extensions.map((ext) => `-name "*.${ext}"`).join(' -o ');
+		const command =
+			`find ${shellQuote(index.rootPath)} \\( ${prune} \\) -prune -o -type f \\( ${include} \\)` +
+			` -size -${codeIndexConfig.limits.maxFileSize}c -print | head -n ${codeIndexConfig.limits.maxFiles}`;
+
+		const result = await sandboxManager.executeCommand(index.sandboxId, command, {
+			provider: index.provider
+		});
+		if (!result.success) {
+			throw new Error(result.error || result.output || 'find command failed');
+		}
+
+		return result.output
+			.split('\n')
+			.map((line) => line.trim())
+			.filter(Boolean);
+	}
+
+	private async readSourceFile(index: SandboxIndex, path: string): Promise<string | null> {
+		try {
+			const file = await sandboxManager.readFile(index.sandboxId, path, {
+				provider: index.provider
+			});
+			if (!file) return null;
+
+			const content =
+				typeof file.content === 'string' ? file.content : file.content.toString('utf-8');
+			// Skip binary files that slipped through the extension filter
+			return content.includes('\u0000') ? null : content;
+		} catch (error) {
+			console.warn(`🔎 [CodeIndex] Failed to read ${path}:`, error);
+			return null;
+		}
+	}
+
+	private async indexContent(
+		index: SandboxIndex,
+		path: string,
+		content: string,
+		hash: string
+	): Promise<void> {
+		const chunks: CodeChunk[] = chunkFile(path, content, codeIndexConfig.chunking).map((draft) => ({
+			...draft,
+			id: `${index.sandboxId}:${path}:${draft.startLine}-${draft.endLine}`,
+			sandboxId: index.sandboxId
+		}));
+
+		await this.getStore().deleteFile(index.sandboxId, path);
+		if (chunks.length > 0) {
+			const vectors = await this.getEmbedder().embed(chunks.map(embeddingText));
+			await this.getStore().upsert(chunks, vectors);
+		}
+
+		index.files.set(path, { hash, chunks: chunks.length });
+	}
+
+	private async removeFile(index: SandboxIndex, path: string): Promise<void> {
+		await this.getStore().deleteFile(index.sandboxId, path);
+		index.files.delete(path);
+	}
+
+	private ensureWatching(): void {
+		if (!this.unsubscribe) {
+			this.unsubscribe = fileChangeBroadcaster.subscribe((event) => this.handleFileChange(event));
+		}
+	}
+
+	/**
+	 * Debounce file change events per path so bursts of writes cause one re-embed
+	 */
+	private handleFileChange(event: FileChangeEvent): void {
+		if (!event.sandboxId) return;
+
+		const index = this.indexes.get(event.sandboxId);
+		if (!index || index.status === 'idle') return;
+
+		const path = resolveEventPath(index.rootPath, event.path);
+		const pending = index.pendingUpdates.get(path);
+		if (pending) clearTimeout(pending);
+
+		index.pendingUpdates.set(
+			path,
+			setTimeout(() => {
+				index.pendingUpdates.delete(path);
+				this.applyFileChange(index, path, event).catch((error) => {
+					console.error(`🔎 [CodeIndex] Failed to update index for ${path}:`, error);
+				});
+			}, codeIndexConfig.limits.updateDebounceMs)
+		);
+	}
+
+	private async applyFileChange(
+		index: SandboxIndex,
+		path: string,
+		event: FileChangeEvent
+	): Promise<void> {
+		// A full build will pick the change up; wait so updates don't interleave with it
+		if (index.building) {
+			await index.building.catch(() => undefined);
+		}
+		if (this.indexes.get(index.sandboxId) !== index) return;
+
+		if (event.type === 'deleted' || event.type === 'renamed') {
+			for (const indexed of [...index.files.keys()]) {
+				if (indexed === path || indexed.startsWith(`${path}/`)) {
+					await this.removeFile(index, indexed);
+				}
+			}
+			if (event.type === 'deleted' || !event.newPath) return;
+
+			path = resolveEventPath(index.rootPath, event.newPath);
+		}
+
+		if (!isIndexable(index.rootPath, path)) return;
+
+		const content =
+			event.type !== 'renamed' && event.content !== undefined
+				? event.content
+				: await this.readSourceFile(index, path);
+		if (content === null || content.length > codeIndexConfig.limits.maxFileSize) return;
+
+		const hash = hashContent(content);
+		if (index.files.get(path)?.hash === hash) return;
+
+		await this.indexContent(index, path, content, hash);
+	}
+}
+
+function embeddingText(chunk: CodeChunk): string {
+	const header = chunk.symbol ? `${chunk.filePath} ${chunk.kind} ${chunk.symbol}` : chunk.filePath;
+	return `${header}\n${chunk.content}`;
+}
+
+function hashContent(content: string): string {
+	return createHash('sha1').update(content).digest('hex');
+}
+
+function normalizePath(path: string): string {
+	return path.length > 1 ? path.replace(/\/+$/, '') : path;
+}
+
+function resolveEventPath(rootPath: string, path: string): string {
+	if (path.startsWith('/')) return normalizePath(path);
+	return normalizePath(`${rootPath}/${path.replace(/^\.\//, '')}`);
+}
+
+function isIndexable(rootPath: string, path: string): boolean {
+	if (!path.startsWith(`${rootPath}/`)) return false;
+
+	const segments = path.slice(rootPath.length + 1).split('/');
+	const ignored: readonly string[] = codeIndexConfig.ignoredDirectories;
+	if (segments.slice(0, -1).some((segment) => ignored.includes(segment))) return false;
+
+	const name = segments[segments.length - 1];
+	const extension = name.includes('.') ? name.split('.').pop()!.toLowerCase() : '';
+	return (codeIndexConfig.extensions as readonly string[]).includes(extension);
+}
+
+export const codeIndexService = CodeIndexService.getInstance();
@@ -0,0 +1,192 @@
+/**
+ * Code Index Tests
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('$env/dynamic/private', () => ({
+	env: {
+		CODE_INDEX_UPDATE_DEBOUNCE: '0'
+	}
+}));
+
+const files = new Map<string, string>();
+
+vi.mock('../sandbox/sandbox-manager.js', () => ({
+	sandboxManager: {
+		executeCommand: vi.fn(async () => ({
+			success: true,
+			output: [...files.keys()].join('\n'),
+			exitCode: 0,
+			duration: 0,
+			timestamp: new Date()
+		})),
+		readFile: vi.fn(async (_sandboxId: string, path: string) =>
+			files.has(path) ? { path, content: files.get(path)! } : null
+		)
+	}
+}));
+
+const { chunkFile } = await import('./chunker.js');
+const { LocalHashEmbedder } = await import('./embedders.js');
+const { InMemoryVectorStore } = await import('./vector-stores.js');
+const { CodeIndexService } = await import('./code-index.service.js');
+const { codeIndexConfig } = await import('../../config/code-index.config.js');
+const { fileChangeBroadcaster } = await import('../file-change-broadcaster.js');
+
+const AUTH_SOURCE = `import { db } from './db';
+
+/**
+ * Validate a session token and return the user
+ */
+export async function validateSession(token: string) {
+	const session = await db.sessions.find(token);
+	return session?.user ?? null;
+}
+
+export class PasswordHasher {
+	hash(password: string) {
+		return password;
+	}
+}
+`;
+
+describe('chunkFile', () => {
+	it('should split TypeScript at top-level symbols and keep doc comments', () => {
+		const chunks = chunkFile('/home/daytona/src/auth.ts', AUTH_SOURCE);
+
+		expect(chunks.map((chunk) => [chunk.kind, chunk.symbol])).toEqual([
+			['block', undefined],
+			['function', 'validateSession'],
+			['class', 'PasswordHasher']
+		]);
+		expect(chunks[1].startLine).toBe(3);
+		expect(chunks[1].content).toContain('Validate a session token');
+		expect(chunks[2].endLine).toBe(15);
+		expect(chunks.every((chunk) => chunk.language === 'typescript')).toBe(true);
+	});
+
+	it('should merge runs of one-line declarations into a block', () => {
+		const chunks = chunkFile('/a.ts', 'const a = 1;\nconst b = 2;\nconst c = 3;\n');
+
+		expect(chunks).toHaveLength(1);
+		expect(chunks[0].kind).toBe('block');
+		expect(chunks[0].endLine).toBe(3);
+	});
+
+	it('should find script symbols in Svelte components', () => {
+		const source = '<script lang="ts">\n\tfunction increment() {\n\t\tcount++;\n\t}\n</script>\n';
+		const chunks = chunkFile('/src/Counter.svelte', source);
+
+		expect(chunks.some((chunk) => chunk.symbol === 'increment')).toBe(true);
+	});
+
+	it('should window files without known symbols', () => {
+		const source = Array.from({ length: 130 }, (_, i) => `line ${i + 1}`).join('\n');
+		const chunks = chunkFile('/notes.md', source, { windowLines: 60, windowOverlap: 10 });
+
+		expect(chunks.map((chunk) => [chunk.startLine, chunk.endLine])).toEqual([
+			[1, 60],
+			[51, 110],
+			[101, 130]
+		]);
+	});
+});
+
+describe('LocalHashEmbedder', () => {
+	it('should produce normalized vectors that match split identifiers', async () => {
+		const embedder = new LocalHashEmbedder(256);
+		const [query, related, unrelated] = await embedder.embed([
+			'validate session',
+			'function validateSession(token)',
+			'render chart legend colors'
+		]);
+
+		const dot = (a: number[], b: number[]) => a.reduce((sum, value, i) => sum + value * b[i], 0);
+		expect(query).toHaveLength(256);
+		expect(dot(query, query)).toBeCloseTo(1);
+		expect(dot(query, related)).toBeGreaterThan(dot(query, unrelated));
+	});
+});
+
+describe('CodeIndexService', () => {
+	let service: InstanceType<typeof CodeIndexService>;
+
+	beforeEach(() => {
+		files.clear();
+		files.set('/home/daytona/src/auth.ts', AUTH_SOURCE);
+		files.set(
+			'/home/daytona/src/chart.ts',
+			'export function renderLegend(colors: string[]) {\n\treturn colors.join(",");\n}\n'
+		);
+		service = new CodeIndexService(new LocalHashEmbedder(), new InMemoryVectorStore());
+	});
+
+	afterEach(() => {
+		service.dispose();
+	});
+
+	it('should index lazily on first search and rank relevant symbols first', async () => {
+		const results = await service.search('sandbox-1', 'validate the session token');
+
+		expect(results[0].chunk.symbol).toBe('validateSession');
+		expect(service.getStats('sandbox-1')).toMatchObject({ status: 'ready', files: 2 });
+	});
+
+	it('should filter results by path prefix', async () => {
+		const results = await service.search('sandbox-1', 'validate session', {
+			pathPrefix: '/home/daytona/src/chart'
+		});
+
+		expect(results.every((result) => result.chunk.filePath.endsWith('chart.ts'))).toBe(true);
+	});
+
+	it('should apply file change events incrementally', async () => {
+		await service.indexSandbox('sandbox-1');
+
+		fileChangeBroadcaster.broadcast({
+			type: 'created',
+			path: 'src/billing.ts',
+			content: 'export function chargeInvoice(invoiceId: string) {\n\treturn invoiceId;\n}\n',
+			timestamp: Date.now(),
+			sandboxId: 'sandbox-1'
+		});
+		fileChangeBroadcaster.broadcast({
+			type: 'deleted',
+			path: '/home/daytona/src/chart.ts',
+			timestamp: Date.now(),
+			sandboxId: 'sandbox-1'
+		});
+
+		await vi.waitFor(async () => {
+			const results = await service.search('sandbox-1', 'charge invoice');
+			expect(results[0].chunk.filePath).toBe('/home/daytona/src/billing.ts');
+			expect(results.some((result) => result.chunk.filePath.endsWith('chart.ts'))).toBe(false);
+		});
+		expect(service.getStats('sandbox-1')?.files).toBe(2);
+	});
+
+	it('should skip unchanged files when re-indexing', async () => {
+		await service.indexSandbox('sandbox-1');
+		const embed = vi.spyOn(LocalHashEmbedder.prototype, 'embed');
+
+		files.set('/home/daytona/src/chart.ts', 'export const palette = ["red"];\n');
+		await service.indexSandbox('sandbox-1');
+
+		expect(embed).toHaveBeenCalledTimes(1);
+		embed.mockRestore();
+	});
+
+	it('should refuse to index when code indexing is disabled', async () => {
+		const config = codeIndexConfig as { enabled: boolean };
+		config.enabled = false;
+		try {
+			await expect(service.search('sandbox-1', 'validate session')).rejects.toThrow(
+				'CODE_INDEX_ENABLED'
+			);
+			expect(service.getStats('sandbox-1')).toBeNull();
+		} finally {
+			config.enabled = true;
+		}
+	});
+});
@@ -0,0 +1,141 @@
+/**
+ * Code Index Embedders
+ * A dependency-free local embedder and an OpenAI embedder built on the AI SDK
+ */
+
+import { createOpenAI } from '@ai-sdk/openai';
+import { embedMany } from 'ai';
+import { codeIndexConfig } from '../../config/code-index.config.js';
+import type { IEmbedder } from './code-index.interface.js';
+
+const OPENAI_DIMENSIONS: Record<string, number> = {
+	'text-embedding-3-small': 1536,
+	'text-embedding-3-large': 3072,
+	'text-embedding-ada-002': 1536
+};
+
+/**
+ * Local embedder using feature hashing over identifier tokens.
+ * It needs no network access or model download, at the cost of matching on
+ * vocabulary rather than meaning. Identifiers are split on camelCase and
+ * snake_case so that "getUserById" matches a query like "get user by id".
+ */
+export class LocalHashEmbedder implements IEmbedder {
+	readonly name = 'local-hash';
+	readonly dimensions: number;
+
+	constructor(dimensions = 512) {
+		this.dimensions = dimensions;
+	}
+
+	async embed(texts: string[]): Promise<number[][]> {
+		return texts.map((text) => this.embedOne(text));
+	}
+
+	private embedOne(text: string): number[] {
+		const vector = new Array<number>(this.dimensions).fill(0);
+		const tokens = tokenize(text);
+		const counts = new Map<string, number>();
+
+		for (let i = 0; i < tokens.length; i++) {
+			counts.set(tokens[i], (counts.get(tokens[i]) || 0) + 1);
+			if (i + 1 < tokens.length) {
+				const bigram = `${tokens[i]} ${tokens[i + 1]}`;
+				counts.set(bigram, (counts.get(bigram) || 0) + 0.5);
+			}
+		}
+
+		for (const [feature, count] of counts) {
+			const hash = fnv1a(feature);
+			const sign = hash & 0x80000000 ? -1 : 1;
+			vector[hash % this.dimensions] += sign * (1 + Math.log(count));
+		}
+
+		const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+		return norm > 0 ? vector.map((value) => value / norm) : vector;
+	}
+}
+
+/**
+ * OpenAI embedder using the AI SDK embedding model API
+ */
+export class OpenAIEmbedder implements IEmbedder {
+	readonly name: string;
+	readonly dimensions: number;
+	private model: string;
+	private apiKey: string;
+	private batchSize: number;
+	private requestedDimensions?: number;
+
+	constructor(options: {
+		apiKey: string;
+		model?: string;
+		dimensions?: number;
+		batchSize?: number;
+	}) {
+		if (!options.apiKey) {
+			throw new Error('OpenAI API key is required for the OpenAI embedder');
+		}
+		this.apiKey = options.apiKey;
+		this.model = options.model || 'text-embedding-3-small';
+		this.requestedDimensions = options.dimensions;
+		this.dimensions = options.dimensions || OPENAI_DIMENSIONS[this.model] || 1536;
+		this.batchSize = options.batchSize || 64;
+		this.name = `openai:${this.model}`;
+	}
+
+	async embed(texts: string[]): Promise<number[][]> {
+		const openai = createOpenAI({ apiKey: this.apiKey });
+		const embeddings: number[][] = [];
+
+		for (let i = 0; i < texts.length; i += this.batchSize) {
+			const { embeddings: batch } = await embedMany({
+				model: openai.embedding(this.model),
+				values: texts.slice(i, i + this.batchSize),
+				providerOptions: this.requestedDimensions
+					? { openai: { dimensions: this.requestedDimensions } }
+					: undefined
+			});
+			embeddings.push(...batch);
+		}
+
+		return embeddings;
+	}
+}
+
+/**
+ * Create the embedder selected by CODE_INDEX_EMBEDDER
+ */
+export function createEmbedder(config = codeIndexConfig.embedder): IEmbedder {
+	switch (config.type) {
+		case 'openai':
+			return new OpenAIEmbedder({
+				apiKey: config.apiKey,
+				model: config.model,
+				dimensions: config.dimensions || undefined,
+				batchSize: config.batchSize
+			});
+		case 'local':
+			return new LocalHashEmbedder(config.dimensions || undefined);
+		default:
+			throw new Error(`Unsupported code index embedder: ${config.type}`);
+	}
+}
+
+function tokenize(text: string): string[] {
+	return text
+		.replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+		.replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+		.toLowerCase()
+		.split(/[^a-z0-9]+/)
+		.filter((token) => token.length > 1);
+}
+
+function fnv1a(value: string): number {
+	let hash = 0x811c9dc5;
+	for (let i = 0; i < value.length; i++) {
+		hash ^= value.charCodeAt(i);
+		hash = Math.imul(hash, 0x01000193);
+	}
+	return hash >>> 0;
+}
@@ -0,0 +1,17 @@
+/**
+ * Code Index Service Exports
+ */
+export { chunkFile, detectLanguage } from './chunker';
+export type {
+	CodeChunk,
+	CodeChunkKind,
+	CodeIndexStats,
+	CodeSearchFilter,
+	CodeSearchResult,
+	IEmbedder,
+	IVectorStore
+} from './code-index.interface';
+export { CodeIndexService, codeIndexService } from './code-index.service';
+export type { CodeSearchOptions, IndexSandboxOptions } from './code-index.service';
+export { LocalHashEmbedder, OpenAIEmbedder, createEmbedder } from './embedders';
+export { InMemoryVectorStore, QdrantVectorStore, createVectorStore } from './vector-stores';
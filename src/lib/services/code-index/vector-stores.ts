@@ -0,0 +1,268 @@
+/**
+ * Code Index Vector Stores
+ * In-process store for single-node deployments and a Qdrant store over its REST API
+ */
+
+import { cosineSimilarity } from 'ai';
+import { createHash } from 'node:crypto';
+import { codeIndexConfig } from '../../config/code-index.config.js';
+import type {
+	CodeChunk,
+	CodeSearchFilter,
+	CodeSearchResult,
+	IVectorStore
+} from './code-index.interface.js';
+
+interface QdrantResponse<T> {
+	result: T;
+	status: string;
+}
+
+interface QdrantScoredPoint {
+	score: number;
+	payload: CodeChunk;
+}
+
+interface StoredChunk {
+	chunk: CodeChunk;
+	vector: number[];
+}
+
+/**
+ * In-memory vector store. Indexes live for the lifetime of the server process.
+ */
+export class InMemoryVectorStore implements IVectorStore {
+	readonly name = 'memory';
+	private sandboxes = new Map<string, Map<string, StoredChunk>>();
+
+	async upsert(chunks: CodeChunk[], vectors: number[][]): Promise<void> {
+		chunks.forEach((chunk, index) => {
+			let entries = this.sandboxes.get(chunk.sandboxId);
+			if (!entries) {
+				entries = new Map();
+				this.sandboxes.set(chunk.sandboxId, entries);
+			}
+			entries.set(chunk.id, { chunk, vector: vectors[index] });
+		});
+	}
+
+	async deleteFile(sandboxId: string, filePath: string): Promise<void> {
+		const entries = this.sandboxes.get(sandboxId);
+		if (!entries) return;
+
+		for (const [id, entry] of entries) {
+			if (entry.chunk.filePath === filePath) {
+				entries.delete(id);
+			}
+		}
+	}
+
+	async deleteSandbox(sandboxId: string): Promise<void> {
+		this.sandboxes.delete(sandboxId);
+	}
+
+	async search(
+		sandboxId: string,
+		vector: number[],
+		limit: number,
+		filter?: CodeSearchFilter
+	): Promise<CodeSearchResult[]> {
+		const entries = this.sandboxes.get(sandboxId);
+		if (!entries) return [];
+
+		const results: CodeSearchResult[] = [];
+		for (const { chunk, vector: candidate } of entries.values()) {
+			if (filter?.pathPrefix && !chunk.filePath.startsWith(filter.pathPrefix)) continue;
+			if (filter?.language && chunk.language !== filter.language) continue;
+			results.push({ chunk, score: cosineSimilarity(vector, candidate) });
+		}
+
+		return results.sort((a, b) => b.score - a.score).slice(0, limit);
+	}
+
+	async count(sandboxId: string): Promise<number> {
+		return this.sandboxes.get(sandboxId)?.size ?? 0;
+	}
+}
+
+/**
+ * Qdrant vector store. All sandboxes share one collection and are separated
+ * by a sandboxId payload filter.
+ */
+export class QdrantVectorStore implements IVectorStore {
+	readonly name = 'qdrant';
+	private url: string;
+	private apiKey: string;
+	private collection: string;
+	private dimensions: number;
+	private collectionReady: Promise<void> | null = null;
+
+	constructor(options: { url: string; apiKey?: string; collection: string; dimensions: number }) {
+		this.url = options.url.replace(/\/$/, '');
+		this.apiKey = options.apiKey || '';
+		this.collection = options.collection;
+		this.dimensions = options.dimensions;
+	}
+
+	async upsert(chunks: CodeChunk[], vectors: number[][]): Promise<void> {
+		if (chunks.length === 0) return;
+		await this.ensureCollection();
+
+		await this.request('PUT', `/collections/${this.collection}/points?wait=true`, {
+			points: chunks.map((chunk, index) => ({
+				id: toPointId(chunk.id),
+				vector: vectors[index],
+				payload: chunk
+			}))
+		});
+	}
+
+	async deleteFile(sandboxId: string, filePath: string): Promise<void> {
+		await this.ensureCollection();
+		await this.request('POST', `/collections/${this.collection}/points/delete?wait=true`, {
+			filter: {
+				must: [
+					{ key: 'sandboxId', match: { value: sandboxId } },
+					{ key: 'filePath', match: { value: filePath } }
+				]
+			}
+		});
+	}
+
+	async deleteSandbox(sandboxId: string): Promise<void> {
+		await this.ensureCollection();
+		await this.request('POST', `/collections/${this.collection}/points/delete?wait=true`, {
+			filter: { must: [{ key: 'sandboxId', match: { value: sandboxId } }] }
+		});
+	}
+
+	async search(
+		sandboxId: string,
+		vector: number[],
+		limit: number,
+		filter?: CodeSearchFilter
+	): Promise<CodeSearchResult[]> {
+		await this.ensureCollection();
+
+		const must: Record<string, unknown>[] = [{ key: 'sandboxId', match: { value: sandboxId } }];
+		if (filter?.language) {
+			must.push({ key: 'language', match: { value: filter.language } });
+		}
+
+		// Qdrant has no prefix match on keyword payloads, so over-fetch and filter locally
+		const response = await this.request<QdrantScoredPoint[]>(
+			'POST',
+			`/collections/${this.collection}/points/search`,
+			{
+				vector,
+				limit: filter?.pathPrefix ? limit * 5 : limit,
+				filter: { must },
+				with_payload: true
+			}
+		);
+
+		return (response.result ?? [])
+			.filter(
+				(point) => !filter?.pathPrefix || point.payload.filePath.startsWith(filter.pathPrefix)
+			)
+			.slice(0, limit)
+			.map((point) => ({ chunk: point.payload, score: point.score }));
+	}
+
+	async count(sandboxId: string): Promise<number> {
+		await this.ensureCollection();
+		const response = await this.request<{ count: number }>(
+			'POST',
+			`/collections/${this.collection}/points/count`,
+			{
+				filter: { must: [{ key: 'sandboxId', match: { value: sandboxId } }] },
+				exact: true
+			}
+		);
+		return response.result?.count ?? 0;
+	}
+
+	private ensureCollection(): Promise<void> {
+		if (!this.collectionReady) {
+			this.collectionReady = this.createCollectionIfMissing().catch((error) => {
+				this.collectionReady = null;
+				throw error;
+			});
+		}
+		return this.collectionReady;
+	}
+
+	private async createCollectionIfMissing(): Promise<void> {
+		const existing = await fetch(`${this.url}/collections/${this.collection}`, {
+			headers: this.headers()
+		});
+		if (existing.ok) return;
+
+		await this.request('PUT', `/collections/${this.collection}`, {
+			vectors: { size: this.dimensions, distance: 'Cosine' }
+		});
+		for (const field of ['sandboxId', 'filePath', 'language']) {
+			await this.request('PUT', `/collections/${this.collection}/index?wait=true`, {
+				field_name: field,
+				field_schema: 'keyword'
+			});
+		}
+	}
+
+	private async request<T = unknown>(
+		method: string,
+		path: string,
+		body?: unknown
+	): Promise<QdrantResponse<T>> {
+		const response = await fetch(`${this.url}${path}`, {
+			method,
+			headers: this.headers(),
+			body: body ? JSON.stringify(body) : undefined
+		});
+
+		if (!response.ok) {
+			const text = await response.text().catch(() => '');
+			throw new Error(`Qdrant request failed (${response.status} ${method} ${path}): ${text}`);
+		}
+
+		return response.json();
+	}
+
+	private headers(): Record<string, string> {
+		const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+		if (this.apiKey) {
+			headers['api-key'] = this.apiKey;
+		}
+		return headers;
+	}
+}
+
+/**
+ * Create the vector store selected by CODE_INDEX_STORE
+ */
+export function createVectorStore(
+	dimensions: number,
+	config = codeIndexConfig.store
+): IVectorStore {
+	switch (config.type) {
+		case 'qdrant':
+			return new QdrantVectorStore({
+				url: config.qdrantUrl,
+				apiKey: config.qdrantApiKey,
+				collection: config.collection,
+				dimensions
+			});
+		case 'memory':
+			return new InMemoryVectorStore();
+		default:
+			throw new Error(`Unsupported code index store: ${config.type}`);
+	}
+}
+
+/**
+ * Qdrant point ids must be integers or UUIDs; derive a stable UUID from the chunk id
+ */
+function toPointId(chunkId: string): string {
+	const hex = createHash('sha1').update(chunkId).digest('hex');
+	return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20, 32)}`;
+}
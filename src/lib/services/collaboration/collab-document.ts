@@ -0,0 +1,377 @@
+/**
+ * Shared documents: the server's copy of every file that is open in an editor.
+ *
+ * The server is authoritative. It loads a file from the sandbox into a Yjs
+ * document, merges the updates of every attached editor, relays their cursors,
+ * and writes the merged text back to the sandbox shortly after each change, on
+ * an explicit save and when the last editor leaves. Viewers receive the document
+ * but their updates are dropped. Writes that reach the sandbox from elsewhere
+ * (the agent, a plain file save) are merged in as edits.
+ */
+
+import type { Project } from '$lib/types';
+import type { CollaboratorIdentity, CollaboratorRole } from '$lib/types/collaboration';
+import * as decoding from 'lib0/decoding';
+import * as encoding from 'lib0/encoding';
+import * as awarenessProtocol from 'y-protocols/awareness';
+import * as syncProtocol from 'y-protocols/sync';
+import * as Y from 'yjs';
+import { fileChangeBroadcaster, type FileChangeEvent } from '../file-change-broadcaster';
+import { sandboxManager } from '../sandbox/sandbox-manager';
+import {
+	encodeMessage,
+	encodeRole,
+	encodeSaved,
+	MESSAGE_AWARENESS,
+	MESSAGE_SAVE,
+	MESSAGE_SYNC,
+	replaceText,
+	TEXT_NAME
+} from './collab-protocol';
+
+/** The parts of a WebSocket a document needs */
+export interface CollabSocket {
+	send(data: Uint8Array): void;
+	close(code?: number, reason?: string): void;
+}
+
+export type CollabProject = Pick<Project, 'id' | 'sandboxId' | 'sandboxProvider'>;
+
+/** How long after the last change the merged text is written to the sandbox */
+export const PERSIST_DELAY = 1500;
+/** How long a document stays loaded without editors, so reloading tabs keep their history */
+export const DOCUMENT_IDLE_TIMEOUT = 30 * 1000;
+
+const MAX_FILE_BYTES = 5 * 1024 * 1024;
+/** Transaction origin of changes that arrived through the sandbox */
+const SANDBOX_ORIGIN = Symbol('sandbox');
+
+interface Member {
+	user: CollaboratorIdentity;
+	role: CollaboratorRole;
+	/** Awareness client ids this socket announced */
+	clients: Set<number>;
+}
+
+export class CollabDocument {
+	readonly doc = new Y.Doc();
+	readonly text = this.doc.getText(TEXT_NAME);
+	readonly awareness = new awarenessProtocol.Awareness(this.doc);
+	private members = new Map<CollabSocket, Member>();
+	/** Text the sandbox holds as far as this document knows */
+	private persisted: string;
+	private persistTimer: ReturnType<typeof setTimeout> | null = null;
+	private saving: Promise<void> = Promise.resolve();
+	private lastEditor: string | undefined;
+	private unsubscribe: () => void;
+
+	constructor(
+		readonly project: CollabProject,
+		readonly path: string,
+		content: string
+	) {
+		this.text.insert(0, content);
+		this.persisted = content;
+		// The server only relays cursors; it has none of its own
+		this.awareness.setLocalState(null);
+
+		this.doc.on('update', (update: Uint8Array, origin: unknown) => this.onUpdate(update, origin));
+		this.awareness.on('update', (changes: AwarenessChanges, origin: unknown) =>
+			this.onAwarenessUpdate(changes, origin)
+		);
+		this.unsubscribe = fileChangeBroadcaster.subscribe((event) => this.onFileChange(event));
+	}
+
+	get memberCount(): number {
+		return this.members.size;
+	}
+
+	attach(socket: CollabSocket, user: CollaboratorIdentity, role: CollaboratorRole): void {
+		this.members.set(socket, { user, role, clients: new Set() });
+		socket.send(encodeRole(role));
+		socket.send(
+			encodeMessage(MESSAGE_SYNC, (encoder) => syncProtocol.writeSyncStep1(encoder, this.doc))
+		);
+
+		const clients = [...this.awareness.getStates().keys()];
+		if (clients.length > 0) {
+			socket.send(this.encodeAwareness(clients));
+		}
+	}
+
+	/** Returns how many sockets are still attached */
+	detach(socket: CollabSocket): number {
+		const member = this.members.get(socket);
+		this.members.delete(socket);
+		if (member && member.clients.size > 0) {
+			awarenessProtocol.removeAwarenessStates(this.awareness, [...member.clients], null);
+		}
+		return this.members.size;
+	}
+
+	handle(socket: CollabSocket, data: Uint8Array): void {
+		const member = this.members.get(socket);
+		if (!member) return;
+
+		try {
+			const decoder = decoding.createDecoder(data);
+			switch (decoding.readVarUint(decoder)) {
+				case MESSAGE_SYNC: {
+					const encoder = encoding.createEncoder();
+					encoding.writeVarUint(encoder, MESSAGE_SYNC);
+					if (member.role === 'editor') {
+						syncProtocol.readSyncMessage(decoder, encoder, this.doc, socket);
+					} else if (decoding.readVarUint(decoder) === syncProtocol.messageYjsSyncStep1) {
+						// Viewers may fetch the document but not change it
+						syncProtocol.readSyncStep1(decoder, encoder, this.doc);
+					}
+					if (encoding.length(encoder) > 1) socket.send(encoding.toUint8Array(encoder));
+					break;
+				}
+				case MESSAGE_AWARENESS:
+					awarenessProtocol.applyAwarenessUpdate(
+						this.awareness,
+						decoding.readVarUint8Array(decoder),
+						socket
+					);
+					break;
+				case MESSAGE_SAVE: {
+					const requestId = decoding.readVarUint(decoder);
+					if (member.role !== 'editor') {
+						socket.send(encodeSaved(requestId, 'You can only view this file'));
+						break;
+					}
+					this.save().then(
+						() => socket.send(encodeSaved(requestId)),
+						(error) =>
+							socket.send(
+								encodeSaved(requestId, error instanceof Error ? error.message : 'Save failed')
+							)
+					);
+					break;
+				}
+			}
+		} catch (error) {
+			console.error(`Failed to handle a collaboration message for ${this.path}:`, error);
+		}
+	}
+
+	/**
+	 * Write the merged text to the sandbox unless it already holds it
+	 */
+	save(): Promise<void> {
+		if (this.persistTimer) clearTimeout(this.persistTimer);
+		this.persistTimer = null;
+
+		// Writes are chained so they reach the sandbox in order
+		this.saving = this.saving.catch(() => undefined).then(() => this.persist());
+		return this.saving;
+	}
+
+	async close(): Promise<void> {
+		try {
+			await this.save();
+		} finally {
+			this.unsubscribe();
+			this.awareness.destroy();
+			this.doc.destroy();
+		}
+	}
+
+	private async persist(): Promise<void> {
+		const content = this.text.toString();
+		if (content === this.persisted || !this.project.sandboxId) return;
+
+		// Recorded before writing so the change event the write causes is recognised
+		const previous = this.persisted;
+		this.persisted = content;
+		try {
+			const written = await sandboxManager.writeFile(this.project.sandboxId, this.path, content, {
+				encoding: 'utf-8',
+				provider: this.project.sandboxProvider,
+				projectId: this.project.id,
+				userId: this.lastEditor
+			});
+			if (!written) throw new Error(`Failed to write ${this.path}`);
+		} catch (error) {
+			if (this.persisted === content) this.persisted = previous;
+			throw error;
+		}
+
+		// Editors mark the file as saved
+		const message = encodeSaved(0);
+		for (const socket of this.members.keys()) socket.send(message);
+	}
+
+	private schedulePersist(): void {
+		if (this.persistTimer) clearTimeout(this.persistTimer);
+		this.persistTimer = setTimeout(() => {
+			this.persistTimer = null;
+			this.save().catch((error) =>
+				console.error(`Failed to save the shared document ${this.path}:`, error)
+			);
+		}, PERSIST_DELAY);
+	}
+
+	private onUpdate(update: Uint8Array, origin: unknown): void {
+		const author = this.members.get(origin as CollabSocket);
+		if (author) this.lastEditor = author.user.id;
+
+		const message = encodeMessage(MESSAGE_SYNC, (encoder) =>
+			syncProtocol.writeUpdate(encoder, update)
+		);
+		for (const socket of this.members.keys()) {
+			if (socket !== origin) socket.send(message);
+		}
+
+		if (origin !== SANDBOX_ORIGIN) this.schedulePersist();
+	}
+
+	private onAwarenessUpdate({ added, updated, removed }: AwarenessChanges, origin: unknown): void {
+		const member = this.members.get(origin as CollabSocket);
+		if (member) {
+			for (const client of added) member.clients.add(client);
+			for (const client of removed) member.clients.delete(client);
+			// Identities come from the session, whatever the client claims
+			for (const client of [...added, ...updated]) {
+				const state = this.awareness.states.get(client);
+				if (state) Object.assign(state, { user: member.user, role: member.role });
+			}
+		}
+
+		const changed = [...added, ...updated, ...removed];
+		if (changed.length === 0) return;
+		const message = this.encodeAwareness(changed);
+		for (const socket of this.members.keys()) {
+			if (socket !== origin) socket.send(message);
+		}
+	}
+
+	private onFileChange(event: FileChangeEvent): void {
+		if (event.type !== 'created' && event.type !== 'modified') return;
+		if (event.sandboxId !== this.project.sandboxId || event.path !== this.path) return;
+		if (event.content === undefined || event.content === this.persisted) return;
+
+		this.persisted = event.content;
+		replaceText(this.text, event.content, SANDBOX_ORIGIN);
+	}
+
+	private encodeAwareness(clients: number[]): Uint8Array {
+		return encodeMessage(MESSAGE_AWARENESS, (encoder) =>
+			encoding.writeVarUint8Array(
+				encoder,
+				awarenessProtocol.encodeAwarenessUpdate(this.awareness, clients)
+			)
+		);
+	}
+}
+
+interface AwarenessChanges {
+	added: number[];
+	updated: number[];
+	removed: number[];
+}
+
+export class CollabDocumentManager {
+	private static instance: CollabDocumentManager;
+	private documents = new Map<string, CollabDocument>();
+	private loading = new Map<string, Promise<CollabDocument>>();
+	private idleTimers = new Map<string, ReturnType<typeof setTimeout>>();
+
+	static getInstance(): CollabDocumentManager {
+		if (!CollabDocumentManager.instance) {
+			CollabDocumentManager.instance = new CollabDocumentManager();
+		}
+		return CollabDocumentManager.instance;
+	}
+
+	/**
+	 * The shared document of a file, loaded from the sandbox when nobody has it open
+	 */
+	async open(project: CollabProject, path: string): Promise<CollabDocument> {
+		const key = documentKey(project.id, path);
+		const existing = this.documents.get(key);
+		if (existing) return existing;
+
+		let loading = this.loading.get(key);
+		if (!loading) {
+			loading = this.load(project, path).finally(() => this.loading.delete(key));
+			this.loading.set(key, loading);
+		}
+		return loading;
+	}
+
+	attach(
+		document: CollabDocument,
+		socket: CollabSocket,
+		user: CollaboratorIdentity,
+		role: CollaboratorRole
+	): void {
+		const key = documentKey(document.project.id, document.path);
+		clearTimeout(this.idleTimers.get(key));
+		this.idleTimers.delete(key);
+		document.attach(socket, user, role);
+	}
+
+	detach(document: CollabDocument, socket: CollabSocket): void {
+		if (document.detach(socket) > 0) return;
+
+		document
+			.save()
+			.catch((error) =>
+				console.error(`Failed to save the shared document ${document.path}:`, error)
+			);
+		this.scheduleClose(document);
+	}
+
+	get(projectId: string, path: string): CollabDocument | undefined {
+		return this.documents.get(documentKey(projectId, path));
+	}
+
+	private async load(project: CollabProject, path: string): Promise<CollabDocument> {
+		if (!project.sandboxId) {
+			throw new Error('Project has no sandbox');
+		}
+
+		const file = await sandboxManager.readFile(project.sandboxId, path, {
+			encoding: 'utf-8',
+			maxSize: MAX_FILE_BYTES,
+			provider: project.sandboxProvider
+		});
+		if (!file) {
+			throw new Error(`File not found: ${path}`);
+		}
+
+		const content =
+			typeof file.content === 'string' ? file.content : file.content.toString('utf-8');
+		const document = new CollabDocument(project, path, content);
+		this.documents.set(documentKey(project.id, path), document);
+		// Closed again if the editor that asked for it never attaches
+		this.scheduleClose(document);
+		return document;
+	}
+
+	private scheduleClose(document: CollabDocument): void {
+		const key = documentKey(document.project.id, document.path);
+		clearTimeout(this.idleTimers.get(key));
+		this.idleTimers.set(
+			key,
+			setTimeout(() => {
+				this.idleTimers.delete(key);
+				if (document.memberCount > 0 || this.documents.get(key) !== document) return;
+				this.documents.delete(key);
+				document
+					.close()
+					.catch((error) =>
+						console.error(`Failed to close the shared document ${document.path}:`, error)
+					);
+			}, DOCUMENT_IDLE_TIMEOUT)
+		);
+	}
+}
+
+function documentKey(projectId: string, path: string): string {
+	return `${projectId}:${path}`;
+}
+
+export const collabDocumentManager = CollabDocumentManager.getInstance();
@@ -0,0 +1,99 @@
+/**
+ * Collaboration protocol
+ * The y-websocket message layout (document sync and awareness) plus the messages
+ * this server adds for saving and roles. Used by the server and the editor alike.
+ */
+
+import * as decoding from 'lib0/decoding';
+import * as encoding from 'lib0/encoding';
+import type * as Y from 'yjs';
+import type { CollaboratorRole } from '../../types/collaboration.js';
+
+export const MESSAGE_SYNC = 0;
+export const MESSAGE_AWARENESS = 1;
+/** Client asks for the document to be written to the sandbox now: request id */
+export const MESSAGE_SAVE = 2;
+/** Server answers a save: request id, then an error message or an empty string */
+export const MESSAGE_SAVED = 3;
+/** Server tells a client what it may do once it has joined: role */
+export const MESSAGE_ROLE = 4;
+
+/** Name of the shared text inside every document */
+export const TEXT_NAME = 'content';
+
+const COLLABORATOR_COLORS = [
+	'#e5484d',
+	'#f76b15',
+	'#ffc53d',
+	'#30a46c',
+	'#12a594',
+	'#0090ff',
+	'#6e56cf',
+	'#d6409f'
+];
+
+/** Stable cursor colour for a user, so they look the same in every tab */
+export function collaboratorColor(userId: string): string {
+	let hash = 0;
+	for (const char of userId) {
+		hash = (hash * 31 + char.charCodeAt(0)) | 0;
+	}
+	return COLLABORATOR_COLORS[Math.abs(hash) % COLLABORATOR_COLORS.length];
+}
+
+export function encodeMessage(
+	type: number,
+	write: (encoder: encoding.Encoder) => void
+): Uint8Array {
+	const encoder = encoding.createEncoder();
+	encoding.writeVarUint(encoder, type);
+	write(encoder);
+	return encoding.toUint8Array(encoder);
+}
+
+export function encodeSave(requestId: number): Uint8Array {
+	return encodeMessage(MESSAGE_SAVE, (encoder) => encoding.writeVarUint(encoder, requestId));
+}
+
+export function encodeSaved(requestId: number, error = ''): Uint8Array {
+	return encodeMessage(MESSAGE_SAVED, (encoder) => {
+		encoding.writeVarUint(encoder, requestId);
+		encoding.writeVarString(encoder, error);
+	});
+}
+
+export function encodeRole(role: CollaboratorRole): Uint8Array {
+	return encodeMessage(MESSAGE_ROLE, (encoder) => encoding.writeVarString(encoder, role));
+}
+
+export function decodeSaved(decoder: decoding.Decoder): { requestId: number; error: string } {
+	const requestId = decoding.readVarUint(decoder);
+	return { requestId, error: decoding.readVarString(decoder) };
+}
+
+/**
+ * Make a shared text read `next`, replacing only the part between the common
+ * prefix and suffix so concurrent edits elsewhere in the file survive
+ */
+export function replaceText(ytext: Y.Text, next: string, origin?: unknown): void {
+	const current = ytext.toString();
+	if (current === next) return;
+
+	const shorter = Math.min(current.length, next.length);
+	let start = 0;
+	while (start < shorter && current[start] === next[start]) start++;
+	let end = 0;
+	while (
+		end < shorter - start &&
+		current[current.length - 1 - end] === next[next.length - 1 - end]
+	) {
+		end++;
+	}
+
+	const apply = () => {
+		ytext.delete(start, current.length - start - end);
+		ytext.insert(start, next.slice(start, next.length - end));
+	};
+	if (ytext.doc) ytext.doc.transact(apply, origin);
+	else apply();
+}
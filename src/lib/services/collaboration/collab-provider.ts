@@ -0,0 +1,283 @@
+/**
+ * Collaboration provider
+ * The editor's side of a shared document: a Yjs document and awareness kept in
+ * sync with the server over /api/projects/[id]/collaboration. Runs in the browser.
+ */
+
+import type {
+	CollaborationStatus,
+	CollaboratorAwareness,
+	CollaboratorPresence,
+	CollaboratorRole
+} from '$lib/types/collaboration';
+import * as decoding from 'lib0/decoding';
+import * as encoding from 'lib0/encoding';
+import * as awarenessProtocol from 'y-protocols/awareness';
+import * as syncProtocol from 'y-protocols/sync';
+import * as Y from 'yjs';
+import {
+	decodeSaved,
+	encodeMessage,
+	encodeSave,
+	MESSAGE_AWARENESS,
+	MESSAGE_ROLE,
+	MESSAGE_SAVED,
+	MESSAGE_SYNC,
+	TEXT_NAME
+} from './collab-protocol';
+
+const MAX_RECONNECT_ATTEMPTS = 5;
+const SAVE_TIMEOUT = 30 * 1000;
+
+export interface CollabProviderEvents {
+	/** Connection status, role or the other collaborators changed */
+	change?: () => void;
+	/** The server wrote the document to the sandbox */
+	persisted?: () => void;
+}
+
+export class CollabProvider {
+	readonly doc = new Y.Doc();
+	readonly text = this.doc.getText(TEXT_NAME);
+	readonly awareness = new awarenessProtocol.Awareness(this.doc);
+	readonly undoManager = new Y.UndoManager(this.text);
+	status: CollaborationStatus = 'connecting';
+	role: CollaboratorRole = 'editor';
+	/** The document holds the server's text */
+	synced = false;
+
+	private socket: WebSocket | null = null;
+	private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+	private reconnectAttempts = 0;
+	private destroyed = false;
+	private nextRequestId = 1;
+	private saves = new Map<number, { resolve: () => void; reject: (error: Error) => void }>();
+	private syncWaiters = new Set<(synced: boolean) => void>();
+
+	constructor(
+		readonly projectId: string,
+		readonly path: string,
+		private events: CollabProviderEvents = {}
+	) {
+		this.doc.on('update', (update: Uint8Array, origin: unknown) => {
+			if (origin === this) return;
+			this.send(
+				encodeMessage(MESSAGE_SYNC, (encoder) => syncProtocol.writeUpdate(encoder, update))
+			);
+		});
+		this.awareness.on(
+			'update',
+			({ added, updated, removed }: AwarenessChanges, origin: unknown) => {
+				if (origin !== this) this.sendAwareness([...added, ...updated, ...removed]);
+			}
+		);
+		this.awareness.on('change', () => this.events.change?.());
+		this.open();
+	}
+
+	/** The other collaborators in this document, one entry per tab */
+	get peers(): CollaboratorPresence[] {
+		const peers: CollaboratorPresence[] = [];
+		this.awareness.getStates().forEach((state, clientId) => {
+			const { user, role } = state as CollaboratorAwareness;
+			if (clientId === this.doc.clientID || !user) return;
+			peers.push({ ...user, clientId, role: role ?? 'editor' });
+		});
+		return peers;
+	}
+
+	/**
+	 * Resolves once the server's text has arrived, or with false when it does not in time
+	 */
+	whenSynced(timeout = 10 * 1000): Promise<boolean> {
+		if (this.synced) return Promise.resolve(true);
+		if (this.destroyed) return Promise.resolve(false);
+
+		return new Promise((resolve) => {
+			const done = (synced: boolean) => {
+				clearTimeout(timer);
+				this.syncWaiters.delete(done);
+				resolve(synced);
+			};
+			const timer = setTimeout(() => done(false), timeout);
+			this.syncWaiters.add(done);
+		});
+	}
+
+	/**
+	 * Ask the server to write the document to the sandbox now
+	 */
+	save(): Promise<void> {
+		const requestId = this.nextRequestId++;
+		if (!this.send(encodeSave(requestId))) {
+			return Promise.reject(new Error('Not connected to the collaboration server'));
+		}
+
+		return new Promise((resolve, reject) => {
+			const timer = setTimeout(() => {
+				this.saves.delete(requestId);
+				reject(new Error('Saving timed out'));
+			}, SAVE_TIMEOUT);
+			this.saves.set(requestId, {
+				resolve: () => {
+					clearTimeout(timer);
+					resolve();
+				},
+				reject: (error) => {
+					clearTimeout(timer);
+					reject(error);
+				}
+			});
+		});
+	}
+
+	destroy(): void {
+		if (this.destroyed) return;
+		// Tell the others this cursor is gone while the socket is still open
+		awarenessProtocol.removeAwarenessStates(this.awareness, [this.doc.clientID], 'destroy');
+		this.destroyed = true;
+
+		if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+		this.reconnectTimer = null;
+		const socket = this.socket;
+		this.socket = null;
+		socket?.close(1000);
+
+		for (const waiter of [...this.syncWaiters]) waiter(false);
+		for (const pending of this.saves.values()) pending.reject(new Error('Editor closed'));
+		this.saves.clear();
+		this.undoManager.destroy();
+		this.awareness.destroy();
+		this.doc.destroy();
+	}
+
+	private open(): void {
+		const proto = window.location.protocol === 'https:' ? 'wss' : 'ws';
+		const ws = new WebSocket(
+			`${proto}://${window.location.host}/api/projects/${encodeURIComponent(this.projectId)}/collaboration?path=${encodeURIComponent(this.path)}`
+		);
+		ws.binaryType = 'arraybuffer';
+		this.socket = ws;
+		this.setStatus('connecting');
+		let opened = false;
+
+		ws.onopen = () => {
+			opened = true;
+			this.reconnectAttempts = 0;
+			this.setStatus('connected');
+			this.send(
+				encodeMessage(MESSAGE_SYNC, (encoder) => syncProtocol.writeSyncStep1(encoder, this.doc))
+			);
+			if (this.awareness.getLocalState() !== null) {
+				this.sendAwareness([this.doc.clientID]);
+			}
+		};
+
+		ws.onmessage = (event) => {
+			try {
+				this.handleMessage(new Uint8Array(event.data as ArrayBuffer));
+			} catch (error) {
+				console.error('Failed to handle collaboration message:', error);
+			}
+		};
+
+		ws.onclose = () => {
+			if (this.socket !== ws) return;
+			this.socket = null;
+			this.setStatus('disconnected');
+
+			// A refused upgrade means the file cannot be shared; don't keep the editor waiting
+			if (!opened && !this.synced && this.reconnectAttempts === 0) {
+				for (const waiter of [...this.syncWaiters]) waiter(false);
+			}
+
+			// Cursors of the others are stale until the next sync
+			const others = [...this.awareness.getStates().keys()].filter(
+				(clientId) => clientId !== this.doc.clientID
+			);
+			awarenessProtocol.removeAwarenessStates(this.awareness, others, this);
+			for (const pending of this.saves.values()) pending.reject(new Error('Connection lost'));
+			this.saves.clear();
+
+			if (this.reconnectAttempts < MAX_RECONNECT_ATTEMPTS) {
+				const delay = 1000 * 2 ** this.reconnectAttempts++;
+				this.reconnectTimer = setTimeout(() => {
+					this.reconnectTimer = null;
+					if (!this.destroyed) this.open();
+				}, delay);
+			} else {
+				for (const waiter of [...this.syncWaiters]) waiter(false);
+			}
+		};
+	}
+
+	private handleMessage(data: Uint8Array): void {
+		const decoder = decoding.createDecoder(data);
+		switch (decoding.readVarUint(decoder)) {
+			case MESSAGE_SYNC: {
+				const encoder = encoding.createEncoder();
+				encoding.writeVarUint(encoder, MESSAGE_SYNC);
+				const type = syncProtocol.readSyncMessage(decoder, encoder, this.doc, this);
+				if (encoding.length(encoder) > 1) this.send(encoding.toUint8Array(encoder));
+				if (type === syncProtocol.messageYjsSyncStep2 && !this.synced) {
+					this.synced = true;
+					for (const waiter of [...this.syncWaiters]) waiter(true);
+				}
+				break;
+			}
+			case MESSAGE_AWARENESS:
+				awarenessProtocol.applyAwarenessUpdate(
+					this.awareness,
+					decoding.readVarUint8Array(decoder),
+					this
+				);
+				break;
+			case MESSAGE_ROLE:
+				this.role = decoding.readVarString(decoder) === 'viewer' ? 'viewer' : 'editor';
+				this.events.change?.();
+				break;
+			case MESSAGE_SAVED: {
+				const { requestId, error } = decodeSaved(decoder);
+				// Request id 0 announces a write nobody asked for, such as the debounced one
+				if (requestId === 0) {
+					this.events.persisted?.();
+					break;
+				}
+				const pending = this.saves.get(requestId);
+				this.saves.delete(requestId);
+				if (error) pending?.reject(new Error(error));
+				else pending?.resolve();
+				break;
+			}
+		}
+	}
+
+	private sendAwareness(clients: number[]): void {
+		if (clients.length === 0) return;
+		this.send(
+			encodeMessage(MESSAGE_AWARENESS, (encoder) =>
+				encoding.writeVarUint8Array(
+					encoder,
+					awarenessProtocol.encodeAwarenessUpdate(this.awareness, clients)
+				)
+			)
+		);
+	}
+
+	private send(message: Uint8Array): boolean {
+		if (this.socket?.readyState !== WebSocket.OPEN) return false;
+		this.socket.send(message);
+		return true;
+	}
+
+	private setStatus(status: CollaborationStatus): void {
+		this.status = status;
+		this.events.change?.();
+	}
+}
+
+interface AwarenessChanges {
+	added: number[];
+	updated: number[];
+	removed: number[];
+}
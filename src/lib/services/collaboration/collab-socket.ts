@@ -0,0 +1,73 @@
+/**
+ * WebSocket route for editing a file together
+ * (/api/projects/[id]/collaboration?path=<workspace-relative path>)
+ *
+ * Speaks the y-websocket protocol: binary sync and awareness messages, plus the
+ * save and role messages in collab-protocol.ts. Anyone who may edit the project's
+ * files edits together; project viewers may only watch.
+ */
+
+import type { ProjectRole } from '$lib/types/access';
+import type { CollaboratorRole } from '$lib/types/collaboration';
+import type { RawData } from 'ws';
+import { authorizeProject, canPerform } from '../access';
+import type { SocketRouteHandler } from '../websocket/socket-server';
+import { collabDocumentManager } from './collab-document';
+import { collaboratorColor } from './collab-protocol';
+
+export const handleCollaborationSocket: SocketRouteHandler = async ({ params, url, user }) => {
+	const path = url.searchParams.get('path')?.trim() ?? '';
+	if (!path || path.length > 1024 || path.split('/').includes('..')) {
+		return { error: 'A workspace file path is required', status: 400 };
+	}
+
+	const access = await authorizeProject(params.id, user.id, 'view');
+	if ('error' in access) {
+		return access;
+	}
+	const { project } = access;
+	const role = collaboratorRole(access.role);
+	if (!project.sandboxId) {
+		return { error: 'Project has no sandbox', status: 409 };
+	}
+
+	let document;
+	try {
+		document = await collabDocumentManager.open(project, path);
+	} catch (error) {
+		return {
+			error: error instanceof Error ? error.message : 'Failed to open the file',
+			status: 404
+		};
+	}
+
+	const identity = {
+		id: user.id,
+		name: user.username,
+		image: user.image,
+		color: collaboratorColor(user.id)
+	};
+
+	return {
+		accept: (socket) => {
+			socket.binaryType = 'arraybuffer';
+			collabDocumentManager.attach(document, socket, identity, role);
+
+			socket.on('message', (data: RawData) => {
+				document.handle(socket, toUint8Array(data));
+			});
+			socket.on('close', () => collabDocumentManager.detach(document, socket));
+		}
+	};
+};
+
+/** What a user may do with a shared document, given their project role */
+export function collaboratorRole(role: ProjectRole): CollaboratorRole {
+	return canPerform(role, 'edit') ? 'editor' : 'viewer';
+}
+
+function toUint8Array(data: RawData): Uint8Array {
+	if (Array.isArray(data)) return new Uint8Array(Buffer.concat(data));
+	if (data instanceof ArrayBuffer) return new Uint8Array(data);
+	return new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+}
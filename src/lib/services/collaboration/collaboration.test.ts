@@ -0,0 +1,273 @@
+/**
+ * Collaborative Editing Tests
+ */
+
+import type { CollaboratorIdentity, CollaboratorRole } from '$lib/types/collaboration';
+import * as decoding from 'lib0/decoding';
+import * as encoding from 'lib0/encoding';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import * as awarenessProtocol from 'y-protocols/awareness';
+import * as syncProtocol from 'y-protocols/sync';
+import * as Y from 'yjs';
+
+vi.mock('$env/dynamic/private', () => ({ env: {} }));
+vi.mock('../database.service', () => ({ DatabaseService: {} }));
+vi.mock('../sandbox/sandbox-manager', () => ({
+	sandboxManager: { readFile: vi.fn(), writeFile: vi.fn() }
+}));
+
+const { sandboxManager } = await import('../sandbox/sandbox-manager');
+const { fileChangeBroadcaster } = await import('../file-change-broadcaster');
+const { CollabDocument, PERSIST_DELAY } = await import('./collab-document');
+const {
+	collaboratorColor,
+	decodeSaved,
+	encodeMessage,
+	encodeSave,
+	MESSAGE_AWARENESS,
+	MESSAGE_ROLE,
+	MESSAGE_SAVED,
+	MESSAGE_SYNC,
+	replaceText,
+	TEXT_NAME
+} = await import('./collab-protocol');
+const { collaboratorRole } = await import('./collab-socket');
+
+const project = { id: 'project-1', sandboxId: 'sandbox-1', sandboxProvider: 'daytona' as const };
+
+function user(id: string): CollaboratorIdentity {
+	return { id, name: id, color: collaboratorColor(id) };
+}
+
+/** An editor tab wired straight to a server document */
+function connect(
+	document: InstanceType<typeof CollabDocument>,
+	identity: CollaboratorIdentity,
+	role: CollaboratorRole = 'editor'
+) {
+	const doc = new Y.Doc();
+	const awareness = new awarenessProtocol.Awareness(doc);
+	const saved: { requestId: number; error: string }[] = [];
+	const client = { doc, text: doc.getText(TEXT_NAME), awareness, saved, role: '' };
+
+	const socket = {
+		send(data: Uint8Array) {
+			const decoder = decoding.createDecoder(data);
+			switch (decoding.readVarUint(decoder)) {
+				case MESSAGE_SYNC: {
+					const encoder = encoding.createEncoder();
+					encoding.writeVarUint(encoder, MESSAGE_SYNC);
+					syncProtocol.readSyncMessage(decoder, encoder, doc, socket);
+					if (encoding.length(encoder) > 1) document.handle(socket, encoding.toUint8Array(encoder));
+					break;
+				}
+				case MESSAGE_AWARENESS:
+					awarenessProtocol.applyAwarenessUpdate(
+						awareness,
+						decoding.readVarUint8Array(decoder),
+						socket
+					);
+					break;
+				case MESSAGE_ROLE:
+					client.role = decoding.readVarString(decoder);
+					break;
+				case MESSAGE_SAVED:
+					saved.push(decodeSaved(decoder));
+					break;
+			}
+		},
+		close: vi.fn()
+	};
+
+	doc.on('update', (update: Uint8Array, origin: unknown) => {
+		if (origin === socket) return;
+		document.handle(
+			socket,
+			encodeMessage(MESSAGE_SYNC, (encoder) => syncProtocol.writeUpdate(encoder, update))
+		);
+	});
+	awareness.on('update', ({ added, updated, removed }: AwarenessChanges, origin: unknown) => {
+		if (origin === socket) return;
+		document.handle(
+			socket,
+			encodeMessage(MESSAGE_AWARENESS, (encoder) =>
+				encoding.writeVarUint8Array(
+					encoder,
+					awarenessProtocol.encodeAwarenessUpdate(awareness, [...added, ...updated, ...removed])
+				)
+			)
+		);
+	});
+
+	document.attach(socket, identity, role);
+	// The client's half of the handshake
+	document.handle(
+		socket,
+		encodeMessage(MESSAGE_SYNC, (encoder) => syncProtocol.writeSyncStep1(encoder, doc))
+	);
+	return { ...client, socket };
+}
+
+interface AwarenessChanges {
+	added: number[];
+	updated: number[];
+	removed: number[];
+}
+
+describe('replaceText', () => {
+	it('should only replace the changed middle of the text', () => {
+		const doc = new Y.Doc();
+		const text = doc.getText(TEXT_NAME);
+		text.insert(0, 'const a = 1;\nconst b = 2;\n');
+		const deltas: unknown[] = [];
+		text.observe((event) => deltas.push(event.delta));
+
+		replaceText(text, 'const a = 1;\nconst b = 3;\n');
+
+		expect(text.toString()).toBe('const a = 1;\nconst b = 3;\n');
+		expect(deltas).toEqual([[{ retain: 23 }, { delete: 1 }, { insert: '3' }]]);
+	});
+
+	it('should leave an unchanged text alone', () => {
+		const doc = new Y.Doc();
+		const text = doc.getText(TEXT_NAME);
+		text.insert(0, 'same');
+		const listener = vi.fn();
+		doc.on('update', listener);
+
+		replaceText(text, 'same');
+
+		expect(listener).not.toHaveBeenCalled();
+	});
+});
+
+describe('collaboratorColor', () => {
+	it('should give a user the same colour every time', () => {
+		expect(collaboratorColor('user-1')).toBe(collaboratorColor('user-1'));
+		expect(collaboratorColor('user-1')).toMatch(/^#[0-9a-f]{6}$/);
+	});
+});
+
+describe('CollabDocument', () => {
+	let document: InstanceType<typeof CollabDocument>;
+
+	beforeEach(() => {
+		vi.useFakeTimers();
+		vi.mocked(sandboxManager.writeFile).mockResolvedValue(true);
+		document = new CollabDocument(project, 'src/index.ts', 'hello\n');
+	});
+
+	afterEach(async () => {
+		await document.close();
+		vi.useRealTimers();
+		vi.clearAllMocks();
+	});
+
+	it('should send the server text to a joining editor', () => {
+		const alice = connect(document, user('alice'));
+
+		expect(alice.role).toBe('editor');
+		expect(alice.text.toString()).toBe('hello\n');
+	});
+
+	it('should merge concurrent edits from two editors', () => {
+		const alice = connect(document, user('alice'));
+		const bob = connect(document, user('bob'));
+
+		alice.text.insert(0, '// a\n');
+		bob.text.insert(bob.text.length, '// b\n');
+
+		expect(document.text.toString()).toBe('// a\nhello\n// b\n');
+		expect(alice.text.toString()).toBe(document.text.toString());
+		expect(bob.text.toString()).toBe(document.text.toString());
+	});
+
+	it('should ignore changes from viewers', () => {
+		const alice = connect(document, user('alice'));
+		const viewer = connect(document, user('viewer'), 'viewer');
+
+		viewer.text.insert(0, 'nope ');
+		alice.text.insert(0, 'yes ');
+
+		expect(viewer.role).toBe('viewer');
+		expect(document.text.toString()).toBe('yes hello\n');
+		expect(alice.text.toString()).toBe('yes hello\n');
+	});
+
+	it('should stamp cursors with the identity from the session', () => {
+		const alice = connect(document, user('alice'));
+		const bob = connect(document, user('bob'));
+
+		bob.awareness.setLocalState({ user: { ...user('mallory'), name: 'Mallory' }, cursor: null });
+
+		const seen = alice.awareness.getStates().get(bob.doc.clientID);
+		expect(seen?.user).toMatchObject({ id: 'bob', name: 'bob' });
+		expect(seen?.role).toBe('editor');
+	});
+
+	it('should drop the cursors of an editor that leaves', () => {
+		const alice = connect(document, user('alice'));
+		const bob = connect(document, user('bob'));
+		bob.awareness.setLocalState({ cursor: null });
+		expect(alice.awareness.getStates().has(bob.doc.clientID)).toBe(true);
+
+		document.detach(bob.socket);
+
+		expect(alice.awareness.getStates().has(bob.doc.clientID)).toBe(false);
+	});
+
+	it('should write the merged text to the sandbox after a pause', async () => {
+		const alice = connect(document, user('alice'));
+		alice.text.insert(6, 'world\n');
+
+		await vi.advanceTimersByTimeAsync(PERSIST_DELAY);
+
+		expect(sandboxManager.writeFile).toHaveBeenCalledTimes(1);
+		expect(sandboxManager.writeFile).toHaveBeenCalledWith(
+			'sandbox-1',
+			'src/index.ts',
+			'hello\nworld\n',
+			expect.objectContaining({ projectId: 'project-1', userId: 'alice' })
+		);
+		expect(alice.saved).toEqual([{ requestId: 0, error: '' }]);
+	});
+
+	it('should answer save requests and refuse them from viewers', async () => {
+		const alice = connect(document, user('alice'));
+		const viewer = connect(document, user('viewer'), 'viewer');
+		alice.text.insert(0, '!');
+
+		document.handle(alice.socket, encodeSave(7));
+		document.handle(viewer.socket, encodeSave(3));
+		await vi.advanceTimersByTimeAsync(0);
+
+		expect(sandboxManager.writeFile).toHaveBeenCalledTimes(1);
+		expect(alice.saved).toContainEqual({ requestId: 7, error: '' });
+		expect(viewer.saved).toContainEqual({ requestId: 3, error: 'You can only view this file' });
+	});
+
+	it('should merge writes that reach the sandbox from elsewhere', async () => {
+		const alice = connect(document, user('alice'));
+
+		fileChangeBroadcaster.broadcast({
+			type: 'modified',
+			path: 'src/index.ts',
+			content: 'hello\nfrom the agent\n',
+			sandboxId: 'sandbox-1',
+			timestamp: Date.now()
+		});
+		await vi.advanceTimersByTimeAsync(PERSIST_DELAY);
+
+		expect(alice.text.toString()).toBe('hello\nfrom the agent\n');
+		// The sandbox already holds that text
+		expect(sandboxManager.writeFile).not.toHaveBeenCalled();
+	});
+});
+
+describe('collaboratorRole', () => {
+	it('should let project editors edit and keep viewers read-only', () => {
+		expect(collaboratorRole('owner')).toBe('editor');
+		expect(collaboratorRole('editor')).toBe('editor');
+		expect(collaboratorRole('viewer')).toBe('viewer');
+	});
+});
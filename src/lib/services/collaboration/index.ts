@@ -0,0 +1,13 @@
+/**
+ * Collaboration Exports
+ */
+export {
+	CollabDocument,
+	CollabDocumentManager,
+	collabDocumentManager,
+	DOCUMENT_IDLE_TIMEOUT,
+	PERSIST_DELAY
+} from './collab-document';
+export type { CollabProject, CollabSocket } from './collab-document';
+export { collaboratorColor, replaceText } from './collab-protocol';
+export { collaboratorRole, handleCollaborationSocket } from './collab-socket';
@@ -0,0 +1,117 @@
+/**
+ * Inline Completion Prompt
+ * Fill-in-the-middle and inline edit prompts for chat models, and cleanup of what
+ * they answer. Kept free of server imports so the editor can share the limits.
+ */
+
+import type { InlineCompletionRequest, InlineEditRequest } from '../../types/completion.js';
+
+export const COMPLETION_LIMITS = {
+	prefixChars: 6000,
+	suffixChars: 2000,
+	relatedFiles: 3,
+	relatedFileChars: 2000,
+	completionLines: 16,
+	editContextChars: 4000,
+	editSelectionChars: 20000
+} as const;
+
+export const CURSOR_MARKER = '<|cursor|>';
+
+export const COMPLETION_SYSTEM_PROMPT = [
+	'You are a code completion engine inside an editor.',
+	`The user's file is given with ${CURSOR_MARKER} where the cursor is.`,
+	'Reply with only the text to insert at the cursor: no explanations, no markdown fences,',
+	'and never repeat code that is already before or after the cursor.',
+	'Prefer finishing the current statement or block. Reply with nothing when no completion fits.'
+].join(' ');
+
+export const INLINE_EDIT_SYSTEM_PROMPT = [
+	'You edit code inside an editor.',
+	'You are given the lines the user selected, the code around them and an instruction.',
+	'Reply with only the new text for the selected lines, with their indentation:',
+	'no explanations, no markdown fences and nothing from before or after the selection.'
+].join(' ');
+
+/**
+ * The user prompt: neighbouring files first, then the file with the cursor marked
+ */
+export function buildCompletionPrompt(request: InlineCompletionRequest): string {
+	const prefix = request.prefix.slice(-COMPLETION_LIMITS.prefixChars);
+	const suffix = request.suffix.slice(0, COMPLETION_LIMITS.suffixChars);
+	const related = (request.relatedFiles ?? [])
+		.filter((file) => file.path !== request.path && file.content.trim())
+		.slice(0, COMPLETION_LIMITS.relatedFiles)
+		.map(
+			(file) => `--- ${file.path} ---\n${file.content.slice(0, COMPLETION_LIMITS.relatedFileChars)}`
+		);
+
+	const sections = [];
+	if (related.length > 0) {
+		sections.push(`Other open files:\n${related.join('\n\n')}`);
+	}
+	const language = request.language ? ` (${request.language})` : '';
+	sections.push(`File: ${request.path}${language}\n${prefix}${CURSOR_MARKER}${suffix}`);
+	return sections.join('\n\n');
+}
+
+/**
+ * Strip what chat models add around a completion: fences, a repeat of the
+ * current line and text that is already after the cursor
+ */
+export function cleanCompletion(text: string, prefix: string, suffix: string): string {
+	let completion = stripCodeFences(text.replace(/\r\n/g, '\n')).replace(CURSOR_MARKER, '');
+
+	// Models often start again from the beginning of the line the cursor is on
+	const currentLine = prefix.slice(prefix.lastIndexOf('\n') + 1);
+	if (currentLine.trim() && completion.startsWith(currentLine)) {
+		completion = completion.slice(currentLine.length);
+	}
+
+	// Drop the tail when it repeats the start of the text after the cursor. Short lines
+	// such as a lone `}` are kept: they may close a block the completion opened.
+	const nextLine = suffix
+		.split('\n')
+		.find((line) => line.trim())
+		?.trim();
+	if (nextLine && nextLine.length > 3) {
+		const repeated = completion.lastIndexOf(nextLine);
+		if (repeated > 0 && !completion.slice(repeated + nextLine.length).trim()) {
+			completion = completion.slice(0, repeated).replace(/\s+$/, '');
+		}
+	}
+
+	const lines = completion.split('\n');
+	if (lines.length > COMPLETION_LIMITS.completionLines) {
+		completion = lines.slice(0, COMPLETION_LIMITS.completionLines).join('\n');
+	}
+
+	return completion.trim() ? completion.replace(/\s+$/, '') : '';
+}
+
+/**
+ * The user prompt for rewriting a selection, with some code on either side of it
+ */
+export function buildInlineEditPrompt(request: InlineEditRequest): string {
+	const before = request.prefix.slice(-COMPLETION_LIMITS.editContextChars);
+	const after = request.suffix.slice(0, COMPLETION_LIMITS.editContextChars);
+	const language = request.language ? ` (${request.language})` : '';
+
+	return [
+		`File: ${request.path}${language}`,
+		`Code before the selection:\n${before}`,
+		`Selected lines:\n${request.selection.slice(0, COMPLETION_LIMITS.editSelectionChars)}`,
+		`Code after the selection:\n${after}`,
+		`Instruction: ${request.instruction}`
+	].join('\n\n');
+}
+
+/**
+ * Remove a markdown fence around a reply. Works on partial replies while they stream:
+ * the opening fence is dropped as soon as it arrives, the closing one once complete.
+ */
+export function stripCodeFences(text: string): string {
+	const opening = text.match(/^\s*```[^\n]*(\n|$)/);
+	if (!opening) return text;
+	return text.slice(opening[0].length).replace(/\n?```\s*$/, '');
+}
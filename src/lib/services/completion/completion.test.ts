@@ -0,0 +1,293 @@
+/**
+ * Inline Completion Tests
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const mocks = vi.hoisted(() => ({
+	generateText: vi.fn(),
+	streamText: vi.fn(),
+	applyEdits: vi.fn(),
+	getModel: vi.fn((config: { model: string }) => ({ modelId: config.model })),
+	getModelPreset: vi.fn((name: string) =>
+		name === 'claude-fast' ? { provider: 'anthropic', model: 'claude-haiku' } : undefined
+	),
+	recordStep: vi.fn(async () => {}),
+	recorders: [] as unknown[]
+}));
+
+vi.mock('ai', () => ({ generateText: mocks.generateText, streamText: mocks.streamText }));
+vi.mock('$lib/agent/model-manager', () => ({
+	modelManager: { getModel: mocks.getModel, getModelPreset: mocks.getModelPreset }
+}));
+vi.mock('../morph-code-editing.service', () => ({
+	morphCodeEditingService: { applyEdits: mocks.applyEdits }
+}));
+vi.mock('../usage-ledger.service', () => ({
+	UsageRecorder: class {
+		constructor(context: unknown) {
+			mocks.recorders.push(context);
+		}
+		recordStep = mocks.recordStep;
+	}
+}));
+
+const {
+	buildCompletionPrompt,
+	buildInlineEditPrompt,
+	cleanCompletion,
+	COMPLETION_LIMITS,
+	CURSOR_MARKER,
+	stripCodeFences
+} = await import('./completion-prompt');
+const { COMPLETION_USAGE_THREAD, DEFAULT_COMPLETION_MODEL, inlineCompletionService } =
+	await import('./inline-completion.service');
+const { editHunks } = await import('./inline-edit-hunks');
+const { INLINE_EDIT_USAGE_THREAD, inlineEditService } = await import('./inline-edit.service');
+
+describe('buildCompletionPrompt', () => {
+	it('marks the cursor between prefix and suffix', () => {
+		const prompt = buildCompletionPrompt({
+			path: 'src/sum.ts',
+			language: 'typescript',
+			prefix: 'function sum(a, b) {\n\treturn ',
+			suffix: '\n}'
+		});
+
+		expect(prompt).toBe(
+			`File: src/sum.ts (typescript)\nfunction sum(a, b) {\n\treturn ${CURSOR_MARKER}\n}`
+		);
+	});
+
+	it('puts neighbouring files first, skipping the file itself and empty ones', () => {
+		const prompt = buildCompletionPrompt({
+			path: 'src/a.ts',
+			prefix: 'x',
+			suffix: '',
+			relatedFiles: [
+				{ path: 'src/a.ts', content: 'self' },
+				{ path: 'src/empty.ts', content: '  ' },
+				{ path: 'src/b.ts', content: 'export const b = 1;' }
+			]
+		});
+
+		expect(prompt.startsWith('Other open files:\n--- src/b.ts ---\nexport const b = 1;')).toBe(
+			true
+		);
+		expect(prompt).not.toContain('self');
+		expect(prompt).not.toContain('src/empty.ts');
+	});
+
+	it('trims long context to the limits', () => {
+		const prompt = buildCompletionPrompt({
+			path: 'big.txt',
+			prefix: 'p'.repeat(COMPLETION_LIMITS.prefixChars + 10),
+			suffix: 's'.repeat(COMPLETION_LIMITS.suffixChars + 10)
+		});
+
+		const [prefix, suffix] = prompt.split('\n')[1].split(CURSOR_MARKER);
+		expect(prefix).toHaveLength(COMPLETION_LIMITS.prefixChars);
+		expect(suffix).toHaveLength(COMPLETION_LIMITS.suffixChars);
+	});
+});
+
+describe('cleanCompletion', () => {
+	it('strips markdown fences', () => {
+		expect(cleanCompletion('```ts\na + b;\n```', 'return ', '')).toBe('a + b;');
+	});
+
+	it('drops a repeat of the current line', () => {
+		expect(cleanCompletion('\treturn a + b;', 'function sum(a, b) {\n\treturn ', '\n}')).toBe(
+			'a + b;'
+		);
+	});
+
+	it('drops a tail that repeats the text after the cursor', () => {
+		const suffix = '\nconsole.log(total);';
+		expect(cleanCompletion('total += 1;\nconsole.log(total);', 'let total = 0;\n', suffix)).toBe(
+			'total += 1;'
+		);
+	});
+
+	it('keeps a short closing line that may belong to the completion', () => {
+		expect(cleanCompletion('if (x) {\n\ty();\n}', '', '\n}')).toBe('if (x) {\n\ty();\n}');
+	});
+
+	it('caps the number of lines and returns nothing for blank answers', () => {
+		const long = Array.from({ length: 40 }, (_, index) => `line${index}`).join('\n');
+
+		expect(cleanCompletion(long, '', '').split('\n')).toHaveLength(
+			COMPLETION_LIMITS.completionLines
+		);
+		expect(cleanCompletion('  \n ', 'x', '')).toBe('');
+	});
+});
+
+describe('InlineCompletionService', () => {
+	const usage = { inputTokens: 120, outputTokens: 8, totalTokens: 128 };
+
+	beforeEach(() => {
+		mocks.generateText.mockReset();
+		mocks.recordStep.mockClear();
+		mocks.recorders.length = 0;
+	});
+
+	it('falls back to the default model for unknown presets', () => {
+		expect(inlineCompletionService.resolveModel('claude-fast').model).toBe('claude-haiku');
+		expect(inlineCompletionService.resolveModel('nope')).toEqual(DEFAULT_COMPLETION_MODEL);
+		expect(inlineCompletionService.resolveModel()).toEqual(DEFAULT_COMPLETION_MODEL);
+	});
+
+	it('returns the cleaned completion and records usage', async () => {
+		mocks.generateText.mockResolvedValue({ text: '```\na + b;\n```', usage });
+		const controller = new AbortController();
+
+		const result = await inlineCompletionService.complete(
+			{ projectId: 'p1', path: 'sum.ts', prefix: 'return ', suffix: '', model: 'claude-fast' },
+			'u1',
+			controller.signal
+		);
+
+		expect(result).toEqual({ completion: 'a + b;', model: 'claude-haiku' });
+		expect(mocks.generateText).toHaveBeenCalledWith(
+			expect.objectContaining({
+				model: { modelId: 'claude-haiku' },
+				abortSignal: controller.signal,
+				prompt: expect.stringContaining(CURSOR_MARKER)
+			})
+		);
+		expect(mocks.recorders[0]).toMatchObject({
+			userId: 'u1',
+			projectId: 'p1',
+			threadId: COMPLETION_USAGE_THREAD,
+			model: 'claude-haiku'
+		});
+		expect(mocks.recordStep).toHaveBeenCalledWith(usage);
+	});
+
+	it('passes model errors on to the caller', async () => {
+		mocks.generateText.mockRejectedValue(new Error('aborted'));
+
+		await expect(
+			inlineCompletionService.complete({ path: 'a.ts', prefix: 'x', suffix: '' }, 'u1')
+		).rejects.toThrow('aborted');
+		expect(mocks.recordStep).not.toHaveBeenCalled();
+	});
+});
+
+describe('stripCodeFences', () => {
+	it('drops fences from complete and partial replies', () => {
+		expect(stripCodeFences('```ts\nconst a = 1;\n```')).toBe('const a = 1;');
+		expect(stripCodeFences('```ts\nconst a')).toBe('const a');
+		expect(stripCodeFences('```')).toBe('');
+		expect(stripCodeFences('const a = `x`;')).toBe('const a = `x`;');
+	});
+});
+
+describe('buildInlineEditPrompt', () => {
+	it('includes the context, the selection and the instruction', () => {
+		const prompt = buildInlineEditPrompt({
+			path: 'src/a.ts',
+			instruction: 'use const',
+			prefix: 'a'.repeat(COMPLETION_LIMITS.editContextChars + 5),
+			selection: 'let x = 1;',
+			suffix: 'export { x };'
+		});
+
+		expect(prompt).toContain('Selected lines:\nlet x = 1;');
+		expect(prompt).toContain('Code after the selection:\nexport { x };');
+		expect(prompt.endsWith('Instruction: use const')).toBe(true);
+		expect(
+			prompt.match(/a+/g)?.some((run) => run.length > COMPLETION_LIMITS.editContextChars)
+		).toBe(false);
+	});
+});
+
+describe('editHunks', () => {
+	function applyAll(doc: string, hunks: ReturnType<typeof editHunks>): string {
+		return [...hunks]
+			.reverse()
+			.reduce((text, hunk) => text.slice(0, hunk.from) + hunk.insert + text.slice(hunk.to), doc);
+	}
+
+	const original = ['one', 'two', 'three', 'four', 'five'].join('\n');
+
+	it.each([
+		['a replaced line', ['one', 'TWO', 'three', 'four', 'five']],
+		['removed lines', ['one', 'four', 'five']],
+		['removed last lines', ['one', 'two', 'three']],
+		['lines added at the start', ['zero', 'one', 'two', 'three', 'four', 'five']],
+		['lines added at the end', ['one', 'two', 'three', 'four', 'five', 'six']],
+		['several hunks', ['one', 'two!', 'three', 'four', 'five', 'six']],
+		['everything replaced', ['x']],
+		['everything removed', ['']]
+	])('turns the original into the proposal with %s', (_, lines) => {
+		const proposed = lines.join('\n');
+		const hunks = editHunks(original, proposed);
+
+		expect(applyAll(original, hunks)).toBe(proposed);
+	});
+
+	it('positions hunks in the document and accepts them independently', () => {
+		const prefix = 'header\n';
+		const doc = `${prefix}${original}\nfooter`;
+		const hunks = editHunks(
+			original,
+			['ONE', 'two', 'three', 'four', 'FIVE'].join('\n'),
+			prefix.length
+		);
+
+		expect(hunks).toHaveLength(2);
+		expect(hunks[0]).toMatchObject({ removed: 1, added: ['ONE'], lineFrom: prefix.length });
+		// Accepting only the second hunk leaves the first line alone
+		const second = hunks[1];
+		const accepted = doc.slice(0, second.from) + second.insert + doc.slice(second.to);
+		expect(accepted).toBe(`${prefix}one\ntwo\nthree\nfour\nFIVE\nfooter`);
+	});
+});
+
+describe('InlineEditService', () => {
+	beforeEach(() => {
+		mocks.streamText.mockReset();
+		mocks.applyEdits.mockReset();
+		mocks.recordStep.mockClear();
+		mocks.recorders.length = 0;
+	});
+
+	it('streams the rewrite and records usage when it finishes', async () => {
+		mocks.streamText.mockReturnValue({ toTextStreamResponse: () => new Response('x') });
+
+		inlineEditService.stream(
+			{ projectId: 'p1', path: 'a.ts', instruction: 'fix', prefix: '', selection: 'a', suffix: '' },
+			'u1'
+		);
+
+		const options = mocks.streamText.mock.calls[0][0];
+		expect(options.prompt).toContain('Instruction: fix');
+		await options.onFinish({ totalUsage: { inputTokens: 10, outputTokens: 2 } });
+		expect(mocks.recorders[0]).toMatchObject({
+			threadId: INLINE_EDIT_USAGE_THREAD,
+			projectId: 'p1'
+		});
+		expect(mocks.recordStep).toHaveBeenCalledWith({ inputTokens: 10, outputTokens: 2 });
+	});
+
+	it('writes accepted edits through the Morph merger', async () => {
+		const result = { success: true, mergedContent: 'merged' };
+		mocks.applyEdits.mockResolvedValue({ success: true, results: [{ filePath: 'a.ts', result }] });
+
+		await expect(
+			inlineEditService.apply('sb1', {
+				projectId: 'p1',
+				path: 'a.ts',
+				baseContent: 'old',
+				content: 'new'
+			})
+		).resolves.toBe(result);
+		expect(mocks.applyEdits).toHaveBeenCalledWith(
+			[expect.objectContaining({ filePath: 'a.ts', oldContent: 'old', newContent: 'new' })],
+			'sb1',
+			{ autoResolve: false }
+		);
+	});
+});
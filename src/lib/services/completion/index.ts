@@ -0,0 +1,26 @@
+/**
+ * Inline Completion Exports
+ */
+export {
+	buildCompletionPrompt,
+	buildInlineEditPrompt,
+	cleanCompletion,
+	COMPLETION_LIMITS,
+	COMPLETION_SYSTEM_PROMPT,
+	CURSOR_MARKER,
+	INLINE_EDIT_SYSTEM_PROMPT,
+	stripCodeFences
+} from './completion-prompt';
+export {
+	COMPLETION_USAGE_THREAD,
+	DEFAULT_COMPLETION_MODEL,
+	InlineCompletionService,
+	inlineCompletionService
+} from './inline-completion.service';
+export { editHunks, type EditHunk } from './inline-edit-hunks';
+export {
+	DEFAULT_EDIT_MODEL,
+	INLINE_EDIT_USAGE_THREAD,
+	InlineEditService,
+	inlineEditService
+} from './inline-edit.service';
@@ -0,0 +1,65 @@
+/**
+ * Inline Completion Service
+ * Asks a fast model to fill in the text at the cursor for the editor's ghost text
+ */
+
+import { modelManager, type ModelConfig } from '$lib/agent/model-manager';
+import type { InlineCompletionRequest, InlineCompletionResponse } from '$lib/types/completion';
+import { generateText } from 'ai';
+import { UsageRecorder } from '../usage-ledger.service';
+import {
+	buildCompletionPrompt,
+	cleanCompletion,
+	COMPLETION_SYSTEM_PROMPT
+} from './completion-prompt';
+
+/** Used when the AI settings name a model that is not a known preset */
+export const DEFAULT_COMPLETION_MODEL: ModelConfig = { provider: 'openai', model: 'gpt-4o-mini' };
+
+/** Ledger thread that inline completion usage is booked under */
+export const COMPLETION_USAGE_THREAD = 'inline-completions';
+
+const MAX_OUTPUT_TOKENS = 256;
+const TEMPERATURE = 0.2;
+
+export class InlineCompletionService {
+	resolveModel(name?: string): ModelConfig {
+		return (name && modelManager.getModelPreset(name)) || DEFAULT_COMPLETION_MODEL;
+	}
+
+	/**
+	 * Complete the text at the cursor. The request is cancelled with `signal` when
+	 * the user keeps typing.
+	 */
+	async complete(
+		request: InlineCompletionRequest,
+		userId: string,
+		signal?: AbortSignal
+	): Promise<InlineCompletionResponse> {
+		const config = this.resolveModel(request.model);
+		const { text, usage } = await generateText({
+			model: modelManager.getModel({ ...config, temperature: TEMPERATURE }),
+			system: COMPLETION_SYSTEM_PROMPT,
+			prompt: buildCompletionPrompt(request),
+			temperature: TEMPERATURE,
+			maxOutputTokens: MAX_OUTPUT_TOKENS,
+			abortSignal: signal
+		});
+
+		const recorder = new UsageRecorder({
+			userId,
+			projectId: request.projectId,
+			threadId: COMPLETION_USAGE_THREAD,
+			messageId: crypto.randomUUID(),
+			model: config.model
+		});
+		await recorder.recordStep(usage);
+
+		return {
+			completion: cleanCompletion(text, request.prefix, request.suffix),
+			model: config.model
+		};
+	}
+}
+
+export const inlineCompletionService = new InlineCompletionService();
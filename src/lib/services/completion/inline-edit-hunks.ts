@@ -0,0 +1,116 @@
+/**
+ * Inline Edit Hunks
+ * Splits a proposed rewrite of some lines into hunks that are accepted or rejected
+ * one at a time. Positions are document offsets so the editor can apply them directly.
+ */
+
+import { diffArrays } from 'diff';
+
+export interface EditHunk {
+	/** Change to make when the hunk is accepted */
+	from: number;
+	to: number;
+	insert: string;
+	/** Start of the first line the hunk removes */
+	lineFrom: number;
+	/** Number of original lines the hunk removes */
+	removed: number;
+	/** Lines the hunk adds */
+	added: string[];
+	/** Where the added lines are shown, and on which side of that position */
+	anchor: number;
+	side: -1 | 1;
+}
+
+/**
+ * Line hunks turning `original` into `proposed`, for a document where `original`
+ * starts at `offset`
+ */
+export function editHunks(original: string, proposed: string, offset = 0): EditHunk[] {
+	const lines = original.split('\n');
+	const starts: number[] = [];
+	let position = offset;
+	for (const line of lines) {
+		starts.push(position);
+		position += line.length + 1;
+	}
+	const end = offset + original.length;
+	const lineEnd = (index: number) => starts[index] + lines[index].length;
+
+	function hunk(start: number, removed: number, added: string[]): EditHunk {
+		const lineFrom = start < lines.length ? starts[start] : end;
+
+		if (removed > 0 && added.length > 0) {
+			const last = lineEnd(start + removed - 1);
+			return {
+				from: starts[start],
+				to: last,
+				insert: added.join('\n'),
+				lineFrom,
+				removed,
+				added,
+				anchor: last,
+				side: 1
+			};
+		}
+
+		if (removed > 0) {
+			// Removed lines take a line break with them
+			const last = lineEnd(start + removed - 1);
+			const [from, to] =
+				start + removed < lines.length
+					? [starts[start], starts[start + removed]]
+					: start > 0
+						? [lineEnd(start - 1), end]
+						: [offset, end];
+			return { from, to, insert: '', lineFrom, removed, added, anchor: last, side: 1 };
+		}
+
+		// Added lines go above the next original line, or below the last one
+		return start < lines.length
+			? {
+					from: lineFrom,
+					to: lineFrom,
+					insert: `${added.join('\n')}\n`,
+					lineFrom,
+					removed,
+					added,
+					anchor: lineFrom,
+					side: -1
+				}
+			: {
+					from: end,
+					to: end,
+					insert: `\n${added.join('\n')}`,
+					lineFrom,
+					removed,
+					added,
+					anchor: end,
+					side: 1
+				};
+	}
+
+	const hunks: EditHunk[] = [];
+	let index = 0;
+	let pending: { start: number; removed: number; added: string[] } | null = null;
+
+	for (const part of diffArrays(lines, proposed.split('\n'))) {
+		if (!part.added && !part.removed) {
+			if (pending) hunks.push(hunk(pending.start, pending.removed, pending.added));
+			pending = null;
+			index += part.value.length;
+			continue;
+		}
+
+		pending ??= { start: index, removed: 0, added: [] };
+		if (part.removed) {
+			pending.removed += part.value.length;
+			index += part.value.length;
+		} else {
+			pending.added.push(...part.value);
+		}
+	}
+	if (pending) hunks.push(hunk(pending.start, pending.removed, pending.added));
+
+	return hunks;
+}
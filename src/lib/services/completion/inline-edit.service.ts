@@ -0,0 +1,77 @@
+/**
+ * Inline Edit Service
+ * Rewrites the lines selected in the editor from an instruction, streaming the new
+ * text back, and writes accepted edits to the sandbox through the Morph merger
+ */
+
+import { modelManager, type ModelConfig } from '$lib/agent/model-manager';
+import type { InlineEditApplyRequest, InlineEditRequest } from '$lib/types/completion';
+import { streamText } from 'ai';
+import { morphCodeEditingService, type MergeResult } from '../morph-code-editing.service';
+import { UsageRecorder } from '../usage-ledger.service';
+import { buildInlineEditPrompt, INLINE_EDIT_SYSTEM_PROMPT } from './completion-prompt';
+
+/** Used when the AI settings name a model that is not a known preset */
+export const DEFAULT_EDIT_MODEL: ModelConfig = { provider: 'openai', model: 'gpt-4o' };
+
+/** Ledger thread that inline edit usage is booked under */
+export const INLINE_EDIT_USAGE_THREAD = 'inline-edits';
+
+const MAX_OUTPUT_TOKENS = 4096;
+const TEMPERATURE = 0.2;
+
+export class InlineEditService {
+	resolveModel(name?: string): ModelConfig {
+		return (name && modelManager.getModelPreset(name)) || DEFAULT_EDIT_MODEL;
+	}
+
+	/**
+	 * Stream the replacement for the selected lines. Usage is recorded once the model
+	 * finishes; the editor aborts `signal` when the user cancels.
+	 */
+	stream(request: InlineEditRequest, userId: string, signal?: AbortSignal) {
+		const config = this.resolveModel(request.model);
+		const recorder = new UsageRecorder({
+			userId,
+			projectId: request.projectId,
+			threadId: INLINE_EDIT_USAGE_THREAD,
+			messageId: crypto.randomUUID(),
+			model: config.model
+		});
+
+		return streamText({
+			model: modelManager.getModel({ ...config, temperature: TEMPERATURE }),
+			system: INLINE_EDIT_SYSTEM_PROMPT,
+			prompt: buildInlineEditPrompt(request),
+			temperature: TEMPERATURE,
+			maxOutputTokens: MAX_OUTPUT_TOKENS,
+			abortSignal: signal,
+			onFinish: async ({ totalUsage }) => {
+				await recorder.recordStep(totalUsage);
+			}
+		});
+	}
+
+	/**
+	 * Write the edited file to the sandbox. Changes made on disk since `baseContent`
+	 * are merged in; overlapping ones come back as conflicts.
+	 */
+	async apply(sandboxId: string, request: InlineEditApplyRequest): Promise<MergeResult> {
+		const { results } = await morphCodeEditingService.applyEdits(
+			[
+				{
+					filePath: request.path,
+					oldContent: request.baseContent,
+					newContent: request.content,
+					changeType: 'update',
+					reason: 'Inline edit'
+				}
+			],
+			sandboxId,
+			{ autoResolve: false }
+		);
+		return results[0].result;
+	}
+}
+
+export const inlineEditService = new InlineEditService();
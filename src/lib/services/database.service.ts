@@ -1,6 +1,16 @@
 import { env } from '$env/dynamic/private';
 import type { Project, Session, User } from '$lib/types';
 import type {
+	Invitation,
+	InvitationScope,
+	MemberProfile,
+	Organization,
+	OrganizationMember,
+	ProjectMember
+} from '$lib/types/access';
+import type { ChatActivity } from '$lib/types/analytics';
+import type {
+	AgentCheckpoint,
 	ChatMessage,
 	ChatThread,
 	MessageSearchQuery,
@@ -8,8 +18,17 @@ import type {
 	ThreadSearchQuery,
 	ThreadTemplate
 } from '$lib/types/chat';
+import type { GitCredential } from '$lib/types/git';
 import type { SandboxSession } from '$lib/types/sandbox';
-import { Collection, Db, MongoClient } from 'mongodb';
+import type { SavedTemplate, SavedTemplateSummary, TemplateCacheEntry } from '$lib/types/templates';
+import type { TerminalSessionRecord } from '$lib/types/terminal';
+import type {
+	UsageBudget,
+	UsageBudgetScope,
+	UsageDailyAggregate,
+	UsageLedgerEntry
+} from '$lib/types/usage';
+import { Binary, Collection, Db, MongoClient, ObjectId } from 'mongodb';
 
 const DATABASE_URL = env.DATABASE_URL || 'mongodb://localhost:27017/aura-dev';
 const DATABASE_NAME = env.DATABASE_NAME || 'aura-dev';
@@ -125,6 +144,86 @@ export class DatabaseService {
 		return db.collection<ThreadTemplate>('thread_templates');
 	}
 
+	/**
+	 * Get agent checkpoints collection
+	 */
+	private static async getAgentCheckpointsCollection(): Promise<Collection<AgentCheckpoint>> {
+		const db = await this.getDb();
+		return db.collection<AgentCheckpoint>('agent_checkpoints');
+	}
+
+	/**
+	 * Get usage ledger collection
+	 */
+	private static async getUsageLedgerCollection(): Promise<Collection<UsageLedgerEntry>> {
+		const db = await this.getDb();
+		return db.collection<UsageLedgerEntry>('usage_ledger');
+	}
+
+	/**
+	 * Get daily usage aggregates collection
+	 */
+	private static async getUsageDailyCollection(): Promise<Collection<UsageDailyAggregate>> {
+		const db = await this.getDb();
+		return db.collection<UsageDailyAggregate>('usage_daily');
+	}
+
+	/**
+	 * Get usage budgets collection
+	 */
+	private static async getUsageBudgetsCollection(): Promise<Collection<UsageBudget>> {
+		const db = await this.getDb();
+		return db.collection<UsageBudget>('usage_budgets');
+	}
+
+	/**
+	 * Get git credentials collection
+	 */
+	private static async getGitCredentialsCollection(): Promise<Collection<GitCredential>> {
+		const db = await this.getDb();
+		return db.collection<GitCredential>('git_credentials');
+	}
+
+	/**
+	 * Get terminal sessions collection
+	 */
+	private static async getTerminalSessionsCollection(): Promise<Collection<TerminalSessionRecord>> {
+		const db = await this.getDb();
+		return db.collection<TerminalSessionRecord>('terminal_sessions');
+	}
+
+	/**
+	 * Get organizations collection
+	 */
+	private static async getOrganizationsCollection(): Promise<Collection<Organization>> {
+		const db = await this.getDb();
+		return db.collection<Organization>('organizations');
+	}
+
+	/**
+	 * Get invitations collection
+	 */
+	private static async getInvitationsCollection(): Promise<Collection<Invitation>> {
+		const db = await this.getDb();
+		return db.collection<Invitation>('invitations');
+	}
+
+	/**
+	 * Get saved project templates collection
+	 */
+	private static async getSavedTemplatesCollection(): Promise<Collection<SavedTemplate>> {
+		const db = await this.getDb();
+		return db.collection<SavedTemplate>('saved_templates');
+	}
+
+	/**
+	 * Get downloaded template files cache collection
+	 */
+	private static async getTemplateCacheCollection(): Promise<Collection<TemplateCacheEntry>> {
+		const db = await this.getDb();
+		return db.collection<TemplateCacheEntry>('template_file_cache');
+	}
+
 	/**
 	 * Initialize database indexes
 	 */
@@ -137,6 +236,16 @@ export class DatabaseService {
 			const chatMessagesCollection = await this.getChatMessagesCollection();
 			const messageTemplatesCollection = await this.getMessageTemplatesCollection();
 			const threadTemplatesCollection = await this.getThreadTemplatesCollection();
+			const agentCheckpointsCollection = await this.getAgentCheckpointsCollection();
+			const usageLedgerCollection = await this.getUsageLedgerCollection();
+			const usageDailyCollection = await this.getUsageDailyCollection();
+			const usageBudgetsCollection = await this.getUsageBudgetsCollection();
+			const gitCredentialsCollection = await this.getGitCredentialsCollection();
+			const terminalSessionsCollection = await this.getTerminalSessionsCollection();
+			const organizationsCollection = await this.getOrganizationsCollection();
+			const invitationsCollection = await this.getInvitationsCollection();
+			const savedTemplatesCollection = await this.getSavedTemplatesCollection();
+			const templateCacheCollection = await this.getTemplateCacheCollection();
 
 			// User indexes
 			await usersCollection.createIndex({ email: 1 }, { unique: true });
@@ -148,6 +257,8 @@ export class DatabaseService {
 			await projectsCollection.createIndex({ name: 1, ownerId: 1 });
 			await projectsCollection.createIndex({ createdAt: 1 });
 			await projectsCollection.createIndex({ status: 1 });
+			await projectsCollection.createIndex({ 'members.userId': 1 });
+			await projectsCollection.createIndex({ organizationId: 1 });
 
 			// Session indexes
 			await sessionsCollection.createIndex({ userId: 1 });
@@ -177,6 +288,45 @@ export class DatabaseService {
 			await chatMessagesCollection.createIndex({ 'fileContext.filePath': 1 });
 			await chatMessagesCollection.createIndex({ content: 'text', contentMarkdown: 'text' });
 
+			// Agent checkpoint indexes
+			await agentCheckpointsCollection.createIndex({ messageId: 1 }, { unique: true });
+			await agentCheckpointsCollection.createIndex({ threadId: 1, createdAt: 1 });
+
+			// Usage indexes
+			await usageLedgerCollection.createIndex({ userId: 1, createdAt: -1 });
+			await usageLedgerCollection.createIndex({ projectId: 1, createdAt: -1 });
+			await usageLedgerCollection.createIndex({ threadId: 1 });
+			await usageDailyCollection.createIndex({ userId: 1, date: 1 });
+			await usageDailyCollection.createIndex({ projectId: 1, date: 1 });
+			await usageDailyCollection.createIndex({ month: 1, userId: 1 });
+			await usageDailyCollection.createIndex({ month: 1, projectId: 1 });
+			await usageBudgetsCollection.createIndex({ scope: 1, scopeId: 1 }, { unique: true });
+
+			// Git credential indexes
+			await gitCredentialsCollection.createIndex({ userId: 1, provider: 1 }, { unique: true });
+
+			// Terminal session indexes
+			await terminalSessionsCollection.createIndex({ id: 1 }, { unique: true });
+			await terminalSessionsCollection.createIndex({ projectId: 1, createdAt: 1 });
+			await terminalSessionsCollection.createIndex({ userId: 1, status: 1 });
+
+			// Organization and invitation indexes
+			await organizationsCollection.createIndex({ id: 1 }, { unique: true });
+			await organizationsCollection.createIndex({ 'members.userId': 1 });
+			await invitationsCollection.createIndex({ token: 1 }, { unique: true });
+			await invitationsCollection.createIndex({ scope: 1, resourceId: 1 });
+			await invitationsCollection.createIndex({ expiresAt: 1 });
+
+			// Saved template indexes
+			await savedTemplatesCollection.createIndex({ id: 1 }, { unique: true });
+			await savedTemplatesCollection.createIndex({ ownerId: 1, updatedAt: -1 });
+			await savedTemplatesCollection.createIndex({ organizationId: 1, visibility: 1 });
+
+			// Template cache indexes
+			await templateCacheCollection.createIndex({ key: 1 }, { unique: true });
+			await templateCacheCollection.createIndex({ lastAccessedAt: 1 });
+			await templateCacheCollection.createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
 			// Template indexes
 			await messageTemplatesCollection.createIndex({ category: 1 });
 			await messageTemplatesCollection.createIndex({ createdBy: 1 });
@@ -274,6 +424,31 @@ export class DatabaseService {
 		}
 	}
 
+	/**
+	 * Names and avatars of signed-up users, read from the auth user collection
+	 */
+	static async findUserProfiles(userIds: string[]): Promise<MemberProfile[]> {
+		try {
+			const ids = userIds.filter((id) => ObjectId.isValid(id)).map((id) => new ObjectId(id));
+			if (ids.length === 0) return [];
+
+			const db = await this.getDb();
+			const users = await db
+				.collection<{ _id: ObjectId; name?: string; email?: string; image?: string | null }>('user')
+				.find({ _id: { $in: ids } }, { projection: { name: 1, email: 1, image: 1 } })
+				.toArray();
+			return users.map((user) => ({
+				userId: user._id.toString(),
+				name: user.name || user.email || 'Unknown user',
+				email: user.email,
+				image: user.image || undefined
+			}));
+		} catch (error) {
+			console.error('Failed to find user profiles:', error);
+			throw error;
+		}
+	}
+
 	// Project operations
 	static async createProject(project: Project): Promise<Project> {
 		try {
@@ -311,6 +486,34 @@ export class DatabaseService {
 		}
 	}
 
+	/**
+	 * Projects a user owns, is a member of, or can reach through one of their organizations
+	 */
+	static async findAccessibleProjects(
+		userId: string,
+		organizationIds: string[] = [],
+		limit = 50,
+		offset = 0
+	): Promise<Project[]> {
+		try {
+			const collection = await this.getProjectsCollection();
+			const filter = [
+				{ ownerId: userId },
+				{ 'members.userId': userId },
+				...(organizationIds.length > 0 ? [{ organizationId: { $in: organizationIds } }] : [])
+			];
+			return await collection
+				.find({ $or: filter })
+				.sort({ createdAt: -1 })
+				.skip(offset)
+				.limit(limit)
+				.toArray();
+		} catch (error) {
+			console.error('Failed to find accessible projects:', error);
+			throw error;
+		}
+	}
+
 	static async findProjectBySandboxId(sandboxId: string): Promise<Project | null> {
 		try {
 			const collection = await this.getProjectsCollection();
@@ -347,6 +550,389 @@ export class DatabaseService {
 		}
 	}
 
+	/**
+	 * Add a member to a project, or change the role of an existing one
+	 */
+	static async upsertProjectMember(
+		projectId: string,
+		member: ProjectMember
+	): Promise<Project | null> {
+		try {
+			const collection = await this.getProjectsCollection();
+			const updated = await collection.findOneAndUpdate(
+				{ id: projectId, 'members.userId': member.userId },
+				{ $set: { 'members.$.role': member.role, updatedAt: new Date() } },
+				{ returnDocument: 'after' }
+			);
+			if (updated) return updated;
+
+			return await collection.findOneAndUpdate(
+				{ id: projectId },
+				{ $push: { members: member }, $set: { updatedAt: new Date() } },
+				{ returnDocument: 'after' }
+			);
+		} catch (error) {
+			console.error('Failed to save project member:', error);
+			throw error;
+		}
+	}
+
+	static async removeProjectMember(projectId: string, userId: string): Promise<boolean> {
+		try {
+			const collection = await this.getProjectsCollection();
+			const result = await collection.updateOne(
+				{ id: projectId, 'members.userId': userId },
+				{ $pull: { members: { userId } }, $set: { updatedAt: new Date() } }
+			);
+			return result.modifiedCount > 0;
+		} catch (error) {
+			console.error('Failed to remove project member:', error);
+			throw error;
+		}
+	}
+
+	// Organization operations
+	static async createOrganization(organization: Organization): Promise<Organization> {
+		try {
+			const collection = await this.getOrganizationsCollection();
+			await collection.insertOne({ ...organization });
+			return organization;
+		} catch (error) {
+			console.error('Failed to create organization:', error);
+			throw error;
+		}
+	}
+
+	static async findOrganizationById(id: string): Promise<Organization | null> {
+		try {
+			const collection = await this.getOrganizationsCollection();
+			return await collection.findOne({ id }, { projection: { _id: 0 } });
+		} catch (error) {
+			console.error('Failed to find organization by ID:', error);
+			throw error;
+		}
+	}
+
+	static async findOrganizationsByUserId(userId: string): Promise<Organization[]> {
+		try {
+			const collection = await this.getOrganizationsCollection();
+			return await collection
+				.find({ 'members.userId': userId }, { projection: { _id: 0 } })
+				.sort({ name: 1 })
+				.toArray();
+		} catch (error) {
+			console.error('Failed to find organizations by user ID:', error);
+			throw error;
+		}
+	}
+
+	static async updateOrganization(
+		id: string,
+		updates: Partial<Pick<Organization, 'name' | 'defaultProjectRole'>>
+	): Promise<Organization | null> {
+		try {
+			const collection = await this.getOrganizationsCollection();
+			return await collection.findOneAndUpdate(
+				{ id },
+				{ $set: { ...updates, updatedAt: new Date() } },
+				{ returnDocument: 'after', projection: { _id: 0 } }
+			);
+		} catch (error) {
+			console.error('Failed to update organization:', error);
+			throw error;
+		}
+	}
+
+	/**
+	 * Delete an organization; its projects stay with their owners
+	 */
+	static async deleteOrganization(id: string): Promise<boolean> {
+		try {
+			const collection = await this.getOrganizationsCollection();
+			const result = await collection.deleteOne({ id });
+			if (result.deletedCount === 0) return false;
+
+			const projects = await this.getProjectsCollection();
+			await projects.updateMany({ organizationId: id }, { $unset: { organizationId: '' } });
+			return true;
+		} catch (error) {
+			console.error('Failed to delete organization:', error);
+			throw error;
+		}
+	}
+
+	/**
+	 * Add a member to an organization, or change the role of an existing one
+	 */
+	static async upsertOrganizationMember(
+		organizationId: string,
+		member: OrganizationMember
+	): Promise<Organization | null> {
+		try {
+			const collection = await this.getOrganizationsCollection();
+			const updated = await collection.findOneAndUpdate(
+				{ id: organizationId, 'members.userId': member.userId },
+				{ $set: { 'members.$.role': member.role, updatedAt: new Date() } },
+				{ returnDocument: 'after', projection: { _id: 0 } }
+			);
+			if (updated) return updated;
+
+			return await collection.findOneAndUpdate(
+				{ id: organizationId },
+				{ $push: { members: member }, $set: { updatedAt: new Date() } },
+				{ returnDocument: 'after', projection: { _id: 0 } }
+			);
+		} catch (error) {
+			console.error('Failed to save organization member:', error);
+			throw error;
+		}
+	}
+
+	static async removeOrganizationMember(organizationId: string, userId: string): Promise<boolean> {
+		try {
+			const collection = await this.getOrganizationsCollection();
+			const result = await collection.updateOne(
+				{ id: organizationId, 'members.userId': userId },
+				{ $pull: { members: { userId } }, $set: { updatedAt: new Date() } }
+			);
+			return result.modifiedCount > 0;
+		} catch (error) {
+			console.error('Failed to remove organization member:', error);
+			throw error;
+		}
+	}
+
+	// Invitation operations
+	static async createInvitation(invitation: Invitation): Promise<Invitation> {
+		try {
+			const collection = await this.getInvitationsCollection();
+			await collection.insertOne({ ...invitation });
+			return invitation;
+		} catch (error) {
+			console.error('Failed to create invitation:', error);
+			throw error;
+		}
+	}
+
+	static async findInvitationByToken(token: string): Promise<Invitation | null> {
+		try {
+			const collection = await this.getInvitationsCollection();
+			return await collection.findOne({ token }, { projection: { _id: 0 } });
+		} catch (error) {
+			console.error('Failed to find invitation by token:', error);
+			throw error;
+		}
+	}
+
+	static async findInvitationsByResource(
+		scope: InvitationScope,
+		resourceId: string
+	): Promise<Invitation[]> {
+		try {
+			const collection = await this.getInvitationsCollection();
+			return await collection
+				.find(
+					{ scope, resourceId, revokedAt: { $exists: false }, expiresAt: { $gt: new Date() } },
+					{ projection: { _id: 0 } }
+				)
+				.sort({ createdAt: -1 })
+				.toArray();
+		} catch (error) {
+			console.error('Failed to find invitations:', error);
+			throw error;
+		}
+	}
+
+	/**
+	 * Count one use of an invitation unless it is revoked, expired or used up.
+	 * Returns null when the invitation can no longer be used.
+	 */
+	static async consumeInvitation(token: string): Promise<Invitation | null> {
+		try {
+			const collection = await this.getInvitationsCollection();
+			return await collection.findOneAndUpdate(
+				{
+					token,
+					revokedAt: { $exists: false },
+					expiresAt: { $gt: new Date() },
+					$or: [{ maxUses: { $exists: false } }, { $expr: { $lt: ['$uses', '$maxUses'] } }]
+				},
+				{ $inc: { uses: 1 } },
+				{ returnDocument: 'after', projection: { _id: 0 } }
+			);
+		} catch (error) {
+			console.error('Failed to consume invitation:', error);
+			throw error;
+		}
+	}
+
+	static async revokeInvitation(
+		id: string,
+		scope: InvitationScope,
+		resourceId: string
+	): Promise<boolean> {
+		try {
+			const collection = await this.getInvitationsCollection();
+			const result = await collection.updateOne(
+				{ id, scope, resourceId, revokedAt: { $exists: false } },
+				{ $set: { revokedAt: new Date() } }
+			);
+			return result.modifiedCount > 0;
+		} catch (error) {
+			console.error('Failed to revoke invitation:', error);
+			throw error;
+		}
+	}
+
+	// Saved template operations
+	static async createSavedTemplate(template: SavedTemplate): Promise<SavedTemplate> {
+		try {
+			const collection = await this.getSavedTemplatesCollection();
+			await collection.insertOne({ ...template });
+			return template;
+		} catch (error) {
+			console.error('Failed to create saved template:', error);
+			throw error;
+		}
+	}
+
+	static async findSavedTemplateById(id: string): Promise<SavedTemplate | null> {
+		try {
+			const collection = await this.getSavedTemplatesCollection();
+			return await collection.findOne({ id }, { projection: { _id: 0 } });
+		} catch (error) {
+			console.error('Failed to find saved template by ID:', error);
+			throw error;
+		}
+	}
+
+	/**
+	 * Templates a user saved, plus the team templates of their organizations, without files
+	 */
+	static async findSavedTemplates(
+		userId: string,
+		organizationIds: string[]
+	): Promise<SavedTemplateSummary[]> {
+		try {
+			const collection = await this.getSavedTemplatesCollection();
+			return await collection
+				.find(
+					{
+						$or: [
+							{ ownerId: userId },
+							{ visibility: 'team', organizationId: { $in: organizationIds } }
+						]
+					},
+					{ projection: { _id: 0, files: 0 } }
+				)
+				.sort({ updatedAt: -1 })
+				.toArray();
+		} catch (error) {
+			console.error('Failed to find saved templates:', error);
+			throw error;
+		}
+	}
+
+	static async deleteSavedTemplate(id: string): Promise<boolean> {
+		try {
+			const collection = await this.getSavedTemplatesCollection();
+			const result = await collection.deleteOne({ id });
+			return result.deletedCount > 0;
+		} catch (error) {
+			console.error('Failed to delete saved template:', error);
+			throw error;
+		}
+	}
+
+	// Template cache operations
+	static async findTemplateCacheEntry(key: string): Promise<TemplateCacheEntry | null> {
+		try {
+			const collection = await this.getTemplateCacheCollection();
+			const entry = await collection.findOne({ key }, { projection: { _id: 0 } });
+			if (!entry) return null;
+
+			// The driver returns stored buffers as BSON binaries
+			const data = entry.data as unknown as Binary | Buffer;
+			return { ...entry, data: data instanceof Binary ? Buffer.from(data.buffer) : data };
+		} catch (error) {
+			console.error('Failed to find template cache entry:', error);
+			throw error;
+		}
+	}
+
+	static async upsertTemplateCacheEntry(entry: TemplateCacheEntry): Promise<void> {
+		try {
+			const collection = await this.getTemplateCacheCollection();
+			await collection.replaceOne({ key: entry.key }, { ...entry }, { upsert: true });
+		} catch (error) {
+			console.error('Failed to store template cache entry:', error);
+			throw error;
+		}
+	}
+
+	/**
+	 * Record a cache hit, which also moves the entry to the back of the eviction order
+	 */
+	static async touchTemplateCacheEntry(key: string, accessedAt: Date): Promise<void> {
+		try {
+			const collection = await this.getTemplateCacheCollection();
+			await collection.updateOne(
+				{ key },
+				{ $set: { lastAccessedAt: accessedAt }, $inc: { hits: 1 } }
+			);
+		} catch (error) {
+			console.error('Failed to update template cache entry:', error);
+			throw error;
+		}
+	}
+
+	/**
+	 * Keys of the entries used longest ago, oldest first
+	 */
+	static async findLeastRecentlyUsedTemplateCacheKeys(limit: number): Promise<string[]> {
+		try {
+			const collection = await this.getTemplateCacheCollection();
+			const entries = await collection
+				.find({}, { projection: { _id: 0, key: 1 } })
+				.sort({ lastAccessedAt: 1 })
+				.limit(limit)
+				.toArray();
+			return entries.map((entry) => entry.key);
+		} catch (error) {
+			console.error('Failed to find least recently used template cache entries:', error);
+			throw error;
+		}
+	}
+
+	static async deleteTemplateCacheEntries(keys: string[]): Promise<number> {
+		try {
+			const collection = await this.getTemplateCacheCollection();
+			const result = await collection.deleteMany({ key: { $in: keys } });
+			return result.deletedCount;
+		} catch (error) {
+			console.error('Failed to delete template cache entries:', error);
+			throw error;
+		}
+	}
+
+	/**
+	 * Number of cached templates and the bytes they take up
+	 */
+	static async getTemplateCacheUsage(): Promise<{ entries: number; size: number }> {
+		try {
+			const collection = await this.getTemplateCacheCollection();
+			const [usage] = await collection
+				.aggregate<{ entries: number; size: number }>([
+					{ $group: { _id: null, entries: { $sum: 1 }, size: { $sum: '$size' } } }
+				])
+				.toArray();
+			return { entries: usage?.entries ?? 0, size: usage?.size ?? 0 };
+		} catch (error) {
+			console.error('Failed to get template cache usage:', error);
+			throw error;
+		}
+	}
+
 	// Session operations
 	static async createSession(session: Session): Promise<Session> {
 		try {
@@ -829,6 +1415,506 @@ export class DatabaseService {
 		}
 	}
 
+	/**
+	 * Aggregate message counts, tool calls and tool failures (results with success: false)
+	 * per day, per project and per tool within [from, to)
+	 */
+	static async aggregateChatActivity(filter: {
+		userId?: string;
+		projectId?: string;
+		from: Date;
+		to: Date;
+	}): Promise<ChatActivity> {
+		try {
+			const collection = await this.getChatMessagesCollection();
+			const match: Record<string, unknown> = { timestamp: { $gte: filter.from, $lt: filter.to } };
+			if (filter.userId) match.userId = filter.userId;
+			if (filter.projectId) match.projectId = filter.projectId;
+
+			const toolCalls = { $size: { $ifNull: ['$metadata.toolCalls', []] } };
+			const toolFailures = {
+				$size: {
+					$filter: {
+						input: { $ifNull: ['$metadata.toolResults', []] },
+						cond: { $eq: ['$$this.success', false] }
+					}
+				}
+			};
+
+			const [result] = await collection
+				.aggregate<ChatActivity>([
+					{ $match: match },
+					{
+						$facet: {
+							daily: [
+								{
+									$group: {
+										_id: { $dateToString: { format: '%Y-%m-%d', date: '$timestamp' } },
+										messages: { $sum: 1 },
+										userMessages: { $sum: { $cond: [{ $eq: ['$role', 'user'] }, 1, 0] } },
+										assistantMessages: {
+											$sum: { $cond: [{ $eq: ['$role', 'assistant'] }, 1, 0] }
+										},
+										toolCalls: { $sum: toolCalls },
+										toolFailures: { $sum: toolFailures }
+									}
+								},
+								{ $sort: { _id: 1 } },
+								{
+									$project: {
+										_id: 0,
+										date: '$_id',
+										messages: 1,
+										userMessages: 1,
+										assistantMessages: 1,
+										toolCalls: 1,
+										toolFailures: 1
+									}
+								}
+							],
+							projects: [
+								{
+									$group: {
+										_id: { $ifNull: ['$projectId', null] },
+										messages: { $sum: 1 },
+										toolCalls: { $sum: toolCalls },
+										toolFailures: { $sum: toolFailures },
+										lastActivity: { $max: '$timestamp' }
+									}
+								},
+								{
+									$project: {
+										_id: 0,
+										projectId: '$_id',
+										messages: 1,
+										toolCalls: 1,
+										toolFailures: 1,
+										lastActivity: 1
+									}
+								}
+							],
+							tools: [
+								{
+									$project: {
+										calls: { $ifNull: ['$metadata.toolCalls', []] },
+										results: { $ifNull: ['$metadata.toolResults', []] }
+									}
+								},
+								{
+									$project: {
+										events: {
+											$concatArrays: [
+												{
+													$map: {
+														input: '$calls',
+														in: { name: '$$this.name', failed: 0, called: 1 }
+													}
+												},
+												{
+													$map: {
+														input: {
+															$filter: {
+																input: '$results',
+																cond: { $eq: ['$$this.success', false] }
+															}
+														},
+														in: { name: '$$this.tool_name', failed: 1, called: 0 }
+													}
+												}
+											]
+										}
+									}
+								},
+								{ $unwind: '$events' },
+								{ $match: { 'events.name': { $type: 'string' } } },
+								{
+									$group: {
+										_id: '$events.name',
+										calls: { $sum: '$events.called' },
+										failures: { $sum: '$events.failed' }
+									}
+								},
+								{ $sort: { calls: -1 } },
+								{ $project: { _id: 0, name: '$_id', calls: 1, failures: 1 } }
+							]
+						}
+					}
+				])
+				.toArray();
+
+			return result ?? { daily: [], projects: [], tools: [] };
+		} catch (error) {
+			console.error('Failed to aggregate chat activity:', error);
+			throw error;
+		}
+	}
+
+	// Agent Checkpoint operations
+	/**
+	 * Append a captured file to the checkpoint of an agent run, creating the checkpoint on first use
+	 */
+	static async appendAgentCheckpointFile(
+		checkpoint: Omit<AgentCheckpoint, 'files' | 'updatedAt'>,
+		file: AgentCheckpoint['files'][number]
+	): Promise<void> {
+		try {
+			const collection = await this.getAgentCheckpointsCollection();
+			await collection.updateOne(
+				{ messageId: checkpoint.messageId },
+				{
+					$setOnInsert: checkpoint,
+					$push: { files: file },
+					$set: { updatedAt: new Date() }
+				},
+				{ upsert: true }
+			);
+		} catch (error) {
+			console.error('Failed to append agent checkpoint file:', error);
+			throw error;
+		}
+	}
+
+	/**
+	 * Record a shell command run by an agent run. Commands cannot be undone, so reverts only report them.
+	 */
+	static async appendAgentCheckpointCommand(
+		checkpoint: Omit<AgentCheckpoint, 'files' | 'updatedAt'>,
+		command: string
+	): Promise<void> {
+		try {
+			const collection = await this.getAgentCheckpointsCollection();
+			await collection.updateOne(
+				{ messageId: checkpoint.messageId },
+				{
+					$setOnInsert: { ...checkpoint, files: [] },
+					$push: { commands: command },
+					$set: { updatedAt: new Date() }
+				},
+				{ upsert: true }
+			);
+		} catch (error) {
+			console.error('Failed to append agent checkpoint command:', error);
+			throw error;
+		}
+	}
+
+	static async findAgentCheckpointByMessageId(messageId: string): Promise<AgentCheckpoint | null> {
+		try {
+			const collection = await this.getAgentCheckpointsCollection();
+			return await collection.findOne({ messageId });
+		} catch (error) {
+			console.error('Failed to find agent checkpoint by message ID:', error);
+			throw error;
+		}
+	}
+
+	/**
+	 * Find checkpoints of a thread that have not been reverted, oldest first
+	 */
+	static async findActiveAgentCheckpointsSince(
+		threadId: string,
+		since: Date
+	): Promise<AgentCheckpoint[]> {
+		try {
+			const collection = await this.getAgentCheckpointsCollection();
+			return await collection
+				.find({ threadId, createdAt: { $gte: since }, revertedAt: { $exists: false } })
+				.sort({ createdAt: 1 })
+				.toArray();
+		} catch (error) {
+			console.error('Failed to find agent checkpoints:', error);
+			throw error;
+		}
+	}
+
+	static async markAgentCheckpointsReverted(ids: string[], revertedAt: Date): Promise<number> {
+		try {
+			const collection = await this.getAgentCheckpointsCollection();
+			const result = await collection.updateMany(
+				{ id: { $in: ids } },
+				{ $set: { revertedAt, updatedAt: revertedAt } }
+			);
+			return result.modifiedCount;
+		} catch (error) {
+			console.error('Failed to mark agent checkpoints as reverted:', error);
+			throw error;
+		}
+	}
+
+	// Usage operations
+	static async createUsageLedgerEntry(entry: UsageLedgerEntry): Promise<UsageLedgerEntry> {
+		try {
+			const collection = await this.getUsageLedgerCollection();
+			await collection.insertOne(entry);
+			return entry;
+		} catch (error) {
+			console.error('Failed to create usage ledger entry:', error);
+			throw error;
+		}
+	}
+
+	/**
+	 * Add to the counters of a daily aggregate, creating it on first use
+	 */
+	static async incrementDailyUsage(
+		key: Pick<UsageDailyAggregate, 'id' | 'date' | 'month' | 'userId' | 'projectId'>,
+		increments: Record<string, number>
+	): Promise<void> {
+		try {
+			const collection = await this.getUsageDailyCollection();
+			await collection.updateOne(
+				{ id: key.id },
+				{
+					$setOnInsert: key,
+					$inc: increments,
+					$set: { updatedAt: new Date() }
+				},
+				{ upsert: true }
+			);
+		} catch (error) {
+			console.error('Failed to increment daily usage:', error);
+			throw error;
+		}
+	}
+
+	static async incrementChatThreadUsage(
+		threadId: string,
+		totalTokens: number,
+		cost: number
+	): Promise<void> {
+		try {
+			const collection = await this.getChatThreadsCollection();
+			await collection.updateOne(
+				{ id: threadId },
+				{
+					$inc: { 'statistics.totalTokensUsed': totalTokens, 'statistics.totalCost': cost },
+					$set: { 'statistics.lastActivityAt': new Date() }
+				}
+			);
+		} catch (error) {
+			console.error('Failed to increment chat thread usage:', error);
+			throw error;
+		}
+	}
+
+	/**
+	 * Find daily aggregates for a user and/or project in an inclusive date range
+	 */
+	static async findDailyUsage(filter: {
+		userId?: string;
+		projectId?: string;
+		from: string;
+		to: string;
+	}): Promise<UsageDailyAggregate[]> {
+		try {
+			const collection = await this.getUsageDailyCollection();
+			const query: Record<string, unknown> = { date: { $gte: filter.from, $lte: filter.to } };
+			if (filter.userId) query.userId = filter.userId;
+			if (filter.projectId) query.projectId = filter.projectId;
+
+			return await collection.find(query).sort({ date: 1 }).toArray();
+		} catch (error) {
+			console.error('Failed to find daily usage:', error);
+			throw error;
+		}
+	}
+
+	/**
+	 * Total cost spent in a month by a user (across projects) or in a project (across users)
+	 */
+	static async sumMonthlyUsageCost(
+		scope: UsageBudgetScope,
+		scopeId: string,
+		month: string
+	): Promise<number> {
+		try {
+			const collection = await this.getUsageDailyCollection();
+			const [result] = await collection
+				.aggregate<{ cost: number }>([
+					{ $match: { month, [scope === 'user' ? 'userId' : 'projectId']: scopeId } },
+					{ $group: { _id: null, cost: { $sum: '$cost' } } }
+				])
+				.toArray();
+			return result?.cost ?? 0;
+		} catch (error) {
+			console.error('Failed to sum monthly usage cost:', error);
+			throw error;
+		}
+	}
+
+	static async findUsageBudgets(
+		scopes: Array<{ scope: UsageBudgetScope; scopeId: string }>
+	): Promise<UsageBudget[]> {
+		try {
+			if (scopes.length === 0) return [];
+			const collection = await this.getUsageBudgetsCollection();
+			return await collection.find({ $or: scopes }).toArray();
+		} catch (error) {
+			console.error('Failed to find usage budgets:', error);
+			throw error;
+		}
+	}
+
+	static async upsertUsageBudget(
+		budget: Omit<UsageBudget, 'id' | 'createdAt' | 'updatedAt'>
+	): Promise<UsageBudget | null> {
+		try {
+			const collection = await this.getUsageBudgetsCollection();
+			const now = new Date();
+			return await collection.findOneAndUpdate(
+				{ scope: budget.scope, scopeId: budget.scopeId },
+				{
+					$set: { monthlyLimit: budget.monthlyLimit, createdBy: budget.createdBy, updatedAt: now },
+					$setOnInsert: { id: crypto.randomUUID(), createdAt: now }
+				},
+				{ upsert: true, returnDocument: 'after' }
+			);
+		} catch (error) {
+			console.error('Failed to upsert usage budget:', error);
+			throw error;
+		}
+	}
+
+	static async deleteUsageBudget(scope: UsageBudgetScope, scopeId: string): Promise<boolean> {
+		try {
+			const collection = await this.getUsageBudgetsCollection();
+			const result = await collection.deleteOne({ scope, scopeId });
+			return result.deletedCount > 0;
+		} catch (error) {
+			console.error('Failed to delete usage budget:', error);
+			throw error;
+		}
+	}
+
+	// Git Credential operations
+	static async findGitCredential(
+		userId: string,
+		provider: GitCredential['provider']
+	): Promise<GitCredential | null> {
+		try {
+			const collection = await this.getGitCredentialsCollection();
+			return await collection.findOne({ userId, provider });
+		} catch (error) {
+			console.error('Failed to find git credential:', error);
+			throw error;
+		}
+	}
+
+	static async upsertGitCredential(
+		credential: Omit<GitCredential, 'id' | 'createdAt' | 'updatedAt'>
+	): Promise<GitCredential | null> {
+		try {
+			const collection = await this.getGitCredentialsCollection();
+			const now = new Date();
+			return await collection.findOneAndUpdate(
+				{ userId: credential.userId, provider: credential.provider },
+				{
+					$set: { token: credential.token, username: credential.username, updatedAt: now },
+					$setOnInsert: { id: crypto.randomUUID(), createdAt: now }
+				},
+				{ upsert: true, returnDocument: 'after' }
+			);
+		} catch (error) {
+			console.error('Failed to upsert git credential:', error);
+			throw error;
+		}
+	}
+
+	static async deleteGitCredential(
+		userId: string,
+		provider: GitCredential['provider']
+	): Promise<boolean> {
+		try {
+			const collection = await this.getGitCredentialsCollection();
+			const result = await collection.deleteOne({ userId, provider });
+			return result.deletedCount > 0;
+		} catch (error) {
+			console.error('Failed to delete git credential:', error);
+			throw error;
+		}
+	}
+
+	// Terminal session operations
+	static async createTerminalSession(
+		session: TerminalSessionRecord
+	): Promise<TerminalSessionRecord> {
+		try {
+			const collection = await this.getTerminalSessionsCollection();
+			await collection.insertOne({ ...session });
+			return session;
+		} catch (error) {
+			console.error('Failed to create terminal session:', error);
+			throw error;
+		}
+	}
+
+	static async findTerminalSessionById(id: string): Promise<TerminalSessionRecord | null> {
+		try {
+			const collection = await this.getTerminalSessionsCollection();
+			return await collection.findOne({ id }, { projection: { _id: 0 } });
+		} catch (error) {
+			console.error('Failed to find terminal session by ID:', error);
+			throw error;
+		}
+	}
+
+	static async findTerminalSessionsByProject(projectId: string): Promise<TerminalSessionRecord[]> {
+		try {
+			const collection = await this.getTerminalSessionsCollection();
+			return await collection
+				.find({ projectId }, { projection: { _id: 0 } })
+				.sort({ createdAt: 1 })
+				.toArray();
+		} catch (error) {
+			console.error('Failed to find terminal sessions by project:', error);
+			throw error;
+		}
+	}
+
+	static async findTerminalSessionsByUser(
+		userId: string,
+		status?: TerminalSessionRecord['status']
+	): Promise<TerminalSessionRecord[]> {
+		try {
+			const collection = await this.getTerminalSessionsCollection();
+			return await collection
+				.find({ userId, ...(status ? { status } : {}) }, { projection: { _id: 0 } })
+				.sort({ createdAt: -1 })
+				.toArray();
+		} catch (error) {
+			console.error('Failed to find terminal sessions by user:', error);
+			throw error;
+		}
+	}
+
+	static async updateTerminalSession(
+		id: string,
+		updates: Partial<Omit<TerminalSessionRecord, 'id' | 'createdAt'>>
+	): Promise<TerminalSessionRecord | null> {
+		try {
+			const collection = await this.getTerminalSessionsCollection();
+			return await collection.findOneAndUpdate(
+				{ id },
+				{ $set: { ...updates, updatedAt: new Date() } },
+				{ returnDocument: 'after', projection: { _id: 0 } }
+			);
+		} catch (error) {
+			console.error('Failed to update terminal session:', error);
+			throw error;
+		}
+	}
+
+	static async deleteTerminalSession(id: string): Promise<boolean> {
+		try {
+			const collection = await this.getTerminalSessionsCollection();
+			const result = await collection.deleteOne({ id });
+			return result.deletedCount > 0;
+		} catch (error) {
+			console.error('Failed to delete terminal session:', error);
+			throw error;
+		}
+	}
+
 	// Message Template operations
 	static async createMessageTemplate(template: MessageTemplate): Promise<MessageTemplate> {
 		try {
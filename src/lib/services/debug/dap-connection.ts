@@ -0,0 +1,213 @@
+/**
+ * One Debug Adapter Protocol connection to an adapter behind the in-sandbox bridge.
+ * The server is the DAP client: it sends requests, waits for their responses and
+ * answers the adapter's reverse requests (js-debug's `startDebugging`).
+ */
+
+import type { DapMessage } from '$lib/types/debug';
+import { encodeLspMessage, LspMessageReader } from '../lsp/lsp-framing';
+import type { DebugBridgeEndpoint } from './debug-bridge';
+
+const REQUEST_TIMEOUT = 15000;
+
+export interface DapConnectionHandlers {
+	onEvent(connection: DapConnection, event: DapMessage): void;
+	/** Answer a reverse request; throwing reports the failure to the adapter */
+	onRequest(connection: DapConnection, request: DapMessage): Promise<Record<string, unknown>>;
+	onClose(connection: DapConnection): void;
+}
+
+interface PendingRequest {
+	resolve: (body: Record<string, unknown>) => void;
+	reject: (error: Error) => void;
+	timer: ReturnType<typeof setTimeout>;
+}
+
+export class DapConnection {
+	/** Capabilities the adapter answered `initialize` with */
+	capabilities: Record<string, unknown> = {};
+
+	private reader = new LspMessageReader<DapMessage>();
+	private abort = new AbortController();
+	private sendQueue: Promise<void> = Promise.resolve();
+	private pending = new Map<number, PendingRequest>();
+	private waiters = new Map<string, Array<(event: DapMessage) => void>>();
+	private seq = 1;
+	private closed = false;
+
+	constructor(
+		private endpoint: DebugBridgeEndpoint,
+		readonly id: string,
+		private handlers: DapConnectionHandlers
+	) {}
+
+	get isClosed(): boolean {
+		return this.closed;
+	}
+
+	async open(): Promise<void> {
+		const response = await fetch(
+			`${this.endpoint.url}/stream?connection=${encodeURIComponent(this.id)}`,
+			{ headers: this.endpoint.headers, signal: this.abort.signal }
+		);
+		if (!response.ok || !response.body) {
+			throw new Error(`Debug adapter bridge responded with ${response.status}`);
+		}
+		void this.pump(response.body);
+	}
+
+	request<T = Record<string, unknown>>(
+		command: string,
+		args?: Record<string, unknown>,
+		timeout = REQUEST_TIMEOUT
+	): Promise<T> {
+		if (this.closed) {
+			return Promise.reject(new Error('Debug adapter is not connected'));
+		}
+
+		const seq = this.seq++;
+		return new Promise<T>((resolve, reject) => {
+			const timer = setTimeout(() => {
+				this.pending.delete(seq);
+				reject(new Error(`${command} timed out`));
+			}, timeout);
+			this.pending.set(seq, {
+				resolve: resolve as (body: Record<string, unknown>) => void,
+				reject,
+				timer
+			});
+			this.post({ seq, type: 'request', command, arguments: args });
+		});
+	}
+
+	/** Resolves with the next event of a kind; rejects when the connection closes first */
+	waitForEvent(event: string, timeout = REQUEST_TIMEOUT): Promise<DapMessage> {
+		return new Promise<DapMessage>((resolve, reject) => {
+			const timer = setTimeout(() => {
+				remove();
+				reject(new Error(`Timed out waiting for the ${event} event`));
+			}, timeout);
+			const waiter = (message: DapMessage) => {
+				clearTimeout(timer);
+				if (message.event === event) resolve(message);
+				else reject(new Error('Debug adapter disconnected'));
+			};
+			const remove = () => {
+				const list = this.waiters.get(event) ?? [];
+				this.waiters.set(
+					event,
+					list.filter((candidate) => candidate !== waiter)
+				);
+			};
+			this.waiters.set(event, [...(this.waiters.get(event) ?? []), waiter]);
+		});
+	}
+
+	dispose(): void {
+		if (this.closed) return;
+		this.closed = true;
+		this.abort.abort();
+		this.rejectAll(new Error('Debug adapter disconnected'));
+	}
+
+	private post(message: Omit<DapMessage, 'seq'> & { seq?: number }): void {
+		const frame = encodeLspMessage({ seq: message.seq ?? this.seq++, ...message });
+		// Messages are posted one at a time so the adapter sees them in order
+		this.sendQueue = this.sendQueue
+			.then(async () => {
+				if (this.closed) return;
+				const response = await fetch(
+					`${this.endpoint.url}/send?connection=${encodeURIComponent(this.id)}`,
+					{
+						method: 'POST',
+						headers: { ...this.endpoint.headers, 'content-type': 'application/octet-stream' },
+						body: new Uint8Array(frame)
+					}
+				);
+				if (!response.ok) {
+					throw new Error(`Debug adapter bridge responded with ${response.status}`);
+				}
+			})
+			.catch((error) => {
+				console.error('Failed to forward message to the debug adapter:', error);
+			});
+	}
+
+	private handleMessage(message: DapMessage): void {
+		if (message.type === 'response') {
+			const pending = this.pending.get(message.request_seq ?? -1);
+			if (!pending) return;
+			this.pending.delete(message.request_seq!);
+			clearTimeout(pending.timer);
+			if (message.success) pending.resolve(message.body ?? {});
+			else pending.reject(new Error(message.message || `${message.command} failed`));
+			return;
+		}
+
+		if (message.type === 'event') {
+			const waiters = this.waiters.get(message.event ?? '');
+			if (waiters) {
+				this.waiters.delete(message.event!);
+				for (const waiter of waiters) waiter(message);
+			}
+			this.handlers.onEvent(this, message);
+			return;
+		}
+
+		if (message.type === 'request') {
+			this.handlers.onRequest(this, message).then(
+				(body) => this.respond(message, true, body),
+				(error) =>
+					this.respond(message, false, undefined, error instanceof Error ? error.message : 'Failed')
+			);
+		}
+	}
+
+	private respond(
+		request: DapMessage,
+		success: boolean,
+		body?: Record<string, unknown>,
+		message?: string
+	): void {
+		this.post({
+			type: 'response',
+			request_seq: request.seq,
+			command: request.command,
+			success,
+			body,
+			message
+		});
+	}
+
+	private rejectAll(error: Error): void {
+		for (const pending of this.pending.values()) {
+			clearTimeout(pending.timer);
+			pending.reject(error);
+		}
+		this.pending.clear();
+		for (const waiters of this.waiters.values()) {
+			for (const waiter of waiters) waiter({ seq: 0, type: 'event', event: '' });
+		}
+		this.waiters.clear();
+	}
+
+	private async pump(body: ReadableStream<Uint8Array>): Promise<void> {
+		const reader = body.getReader();
+		try {
+			for (;;) {
+				const { done, value } = await reader.read();
+				if (done) break;
+				for (const message of this.reader.push(value)) {
+					this.handleMessage(message);
+				}
+			}
+		} catch (error) {
+			if (!this.closed) console.error('Lost the debug adapter stream:', error);
+		}
+
+		if (!this.closed) {
+			this.dispose();
+			this.handlers.onClose(this);
+		}
+	}
+}
@@ -0,0 +1,102 @@
+/**
+ * Debug adapters the editor can start inside a sandbox.
+ * Shared by the bridge (which launches them) and the editor (which picks one per file).
+ */
+
+import type { DebugAdapterId, DebugLaunchConfig } from '$lib/types/debug';
+
+const JS_DEBUG_VERSION = 'v1.96.0';
+const ADAPTER_DIR = '/tmp/aura-dap';
+const JS_DEBUG_DIR = `${ADAPTER_DIR}/js-debug`;
+const JS_DEBUG_PORT = 7641;
+const JS_DEBUG_URL = `https://github.com/microsoft/vscode-js-debug/releases/download/${JS_DEBUG_VERSION}/js-debug-dap-${JS_DEBUG_VERSION}.tar.gz`;
+
+export interface DebugAdapterDefinition {
+	id: DebugAdapterId;
+	name: string;
+	/** Shell command that installs the adapter when it is missing and starts it */
+	command: string;
+	/** Port the in-sandbox bridge for this adapter listens on */
+	port: number;
+	/** Port the adapter accepts DAP connections on; the adapter speaks DAP over stdio when absent */
+	adapterPort?: number;
+	/** File extensions of programs this adapter runs */
+	extensions: string[];
+	/** Exception breakpoint filters enabled on launch, so a crash pauses instead of exiting */
+	exceptionFilters: string[];
+	/** Arguments of the DAP `launch` request; paths are absolute inside the sandbox */
+	launchArguments(config: DebugLaunchConfig, root: string): Record<string, unknown>;
+}
+
+export const DEBUG_ADAPTERS: Record<DebugAdapterId, DebugAdapterDefinition> = {
+	node: {
+		id: 'node',
+		name: 'Node.js',
+		// js-debug's standalone DAP server; it launches `node` with the inspector attached
+		command: [
+			`test -f ${JS_DEBUG_DIR}/src/dapDebugServer.js`,
+			`|| (mkdir -p ${ADAPTER_DIR} && curl -fsSL ${JS_DEBUG_URL} | tar -xz -C ${ADAPTER_DIR})`,
+			`&& exec node ${JS_DEBUG_DIR}/src/dapDebugServer.js ${JS_DEBUG_PORT} 127.0.0.1`
+		].join(' '),
+		port: 7631,
+		adapterPort: JS_DEBUG_PORT,
+		extensions: ['js', 'mjs', 'cjs'],
+		exceptionFilters: ['uncaught'],
+		launchArguments: (config, root) => ({
+			type: 'pwa-node',
+			request: 'launch',
+			name: config.program,
+			program: resolveInRoot(root, config.program),
+			args: config.args ?? [],
+			cwd: resolveInRoot(root, config.cwd),
+			stopOnEntry: config.stopOnEntry ?? false,
+			console: 'internalConsole',
+			outputCapture: 'std',
+			skipFiles: ['<node_internals>/**']
+		})
+	},
+	python: {
+		id: 'python',
+		name: 'Python (debugpy)',
+		// stdout carries the protocol, so installation output must not reach it
+		command: [
+			'(python3 -c "import debugpy" >/dev/null 2>&1',
+			'|| python3 -m pip install --quiet --user debugpy >/dev/null 2>&1',
+			'|| python3 -m pip install --quiet --user --break-system-packages debugpy >/dev/null 2>&1)',
+			'; exec python3 -m debugpy.adapter'
+		].join(' '),
+		port: 7632,
+		extensions: ['py'],
+		exceptionFilters: ['uncaught'],
+		launchArguments: (config, root) => ({
+			type: 'python',
+			request: 'launch',
+			name: config.program,
+			program: resolveInRoot(root, config.program),
+			args: config.args ?? [],
+			cwd: resolveInRoot(root, config.cwd),
+			stopOnEntry: config.stopOnEntry ?? false,
+			console: 'internalConsole',
+			redirectOutput: true,
+			justMyCode: true
+		})
+	}
+};
+
+export function isDebugAdapterId(value: string): value is DebugAdapterId {
+	return Object.hasOwn(DEBUG_ADAPTERS, value);
+}
+
+/** Adapter that runs the file at `path`, or null when none does */
+export function debugAdapterForPath(path: string): DebugAdapterDefinition | null {
+	const name = path.split('/').pop() ?? '';
+	if (!name.includes('.')) return null;
+
+	const ext = name.split('.').pop()!.toLowerCase();
+	return Object.values(DEBUG_ADAPTERS).find((adapter) => adapter.extensions.includes(ext)) ?? null;
+}
+
+function resolveInRoot(root: string, path: string | undefined): string {
+	if (!path || path === '.') return root;
+	return path.startsWith('/') ? path : `${root.replace(/\/+$/, '')}/${path.replace(/^\.\//, '')}`;
+}
@@ -0,0 +1,208 @@
+/**
+ * In-sandbox bridge for debug adapters.
+ *
+ * Like the language server bridge, a small dependency-free Node script runs next
+ * to the adapter and exposes it over the sandbox's forwarded HTTP port. Each DAP
+ * connection streams the adapter's output from `GET /stream?connection=<id>` and
+ * posts framed messages to `POST /send?connection=<id>`. Adapters that speak DAP
+ * over stdio get one connection; adapters that listen on a port (js-debug) get a
+ * TCP connection per client, because they open a child session per debuggee.
+ * The adapter, and the program it debugs, stop when the last connection closes.
+ * Requests without the bridge's secret are refused (see `sandbox-bridge`).
+ */
+
+import type { Project } from '$lib/types';
+import {
+	BRIDGE_AUTH_SCRIPT,
+	ensureSandboxBridge,
+	type SandboxBridgeEndpoint
+} from '../sandbox/sandbox-bridge';
+import type { DebugAdapterDefinition } from './debug-adapters';
+
+const BRIDGE_DIR = '/tmp/aura-dap';
+const BRIDGE_PATH = `${BRIDGE_DIR}/bridge.cjs`;
+
+export const DEBUG_BRIDGE_SCRIPT = `'use strict';
+const http = require('http');
+const net = require('net');
+const { spawn } = require('child_process');
+${BRIDGE_AUTH_SCRIPT}
+
+const port = Number(process.argv[2]);
+const command = process.argv[3];
+const adapterPort = Number(process.argv[4]) || 0;
+const IDLE_EXIT_MS = 10 * 60 * 1000;
+const CONNECT_TIMEOUT_MS = 2 * 60 * 1000;
+const CONNECTION_ID = /^[\\w-]{1,64}$/;
+
+const connections = new Map();
+let adapter = null;
+let idleTimer = null;
+
+function armIdleExit() {
+	clearTimeout(idleTimer);
+	idleTimer = setTimeout(() => process.exit(0), IDLE_EXIT_MS);
+}
+
+function stopAdapter() {
+	if (!adapter) return;
+	try {
+		process.kill(-adapter.pid, 'SIGTERM');
+	} catch {
+		adapter.kill('SIGTERM');
+	}
+	adapter = null;
+}
+
+function startAdapter(stdio) {
+	const proc = spawn('sh', ['-c', command], {
+		detached: true,
+		stdio: stdio ? ['pipe', 'pipe', 'ignore'] : 'ignore'
+	});
+	adapter = proc;
+	const exited = () => {
+		if (adapter !== proc) return;
+		adapter = null;
+		for (const connection of connections.values()) connection.close();
+	};
+	proc.on('exit', exited);
+	proc.on('error', exited);
+	return proc;
+}
+
+// The adapter may still be installing itself; keep trying until it listens
+function connectToAdapter(connection, done) {
+	const deadline = Date.now() + CONNECT_TIMEOUT_MS;
+	const attempt = () => {
+		const socket = net.connect(adapterPort, '127.0.0.1');
+		socket.once('connect', () => done(socket));
+		socket.once('error', () => {
+			socket.destroy();
+			if (!adapter || connection.closed || Date.now() > deadline) return done(null);
+			setTimeout(attempt, 250);
+		});
+	};
+	attempt();
+}
+
+function openConnection(id, res) {
+	const connection = {
+		pending: [],
+		socket: null,
+		closed: false,
+		write(chunk) {
+			if (this.socket) this.socket.write(chunk);
+			else this.pending.push(chunk);
+		},
+		close() {
+			this.closed = true;
+			if (this.socket) this.socket.destroy();
+			res.end();
+		}
+	};
+	connections.set(id, connection);
+
+	if (!adapterPort) {
+		// stdio adapters serve a single client
+		stopAdapter();
+		const proc = startAdapter(true);
+		proc.stdin.on('error', () => {});
+		proc.stdout.on('data', (chunk) => res.write(chunk));
+		connection.socket = proc.stdin;
+		return connection;
+	}
+
+	if (!adapter) startAdapter(false);
+	connectToAdapter(connection, (socket) => {
+		if (!socket) return connection.close();
+		if (connection.closed) return socket.destroy();
+		connection.socket = socket;
+		for (const chunk of connection.pending.splice(0)) socket.write(chunk);
+		socket.on('data', (chunk) => res.write(chunk));
+		socket.on('close', () => res.end());
+		socket.on('error', () => res.end());
+	});
+	return connection;
+}
+
+http
+	.createServer((req, res) => {
+		if (!authorized(req)) {
+			res.statusCode = 401;
+			res.end();
+			return;
+		}
+		const url = new URL(req.url, 'http://bridge');
+
+		if (url.pathname === '/health') {
+			res.setHeader('content-type', 'application/json');
+			res.end(JSON.stringify({ root: process.cwd(), command, connections: connections.size }));
+			return;
+		}
+
+		const id = url.searchParams.get('connection') || '';
+		if (!CONNECTION_ID.test(id)) {
+			res.statusCode = 404;
+			res.end();
+			return;
+		}
+
+		if (req.method === 'GET' && url.pathname === '/stream') {
+			clearTimeout(idleTimer);
+			const previous = connections.get(id);
+			if (previous) previous.close();
+
+			res.writeHead(200, {
+				'content-type': 'application/octet-stream',
+				'cache-control': 'no-cache',
+				'x-accel-buffering': 'no'
+			});
+			res.flushHeaders();
+			const connection = openConnection(id, res);
+			res.on('close', () => {
+				connection.closed = true;
+				if (connection.socket && connection.socket.destroy) connection.socket.destroy();
+				if (connections.get(id) === connection) connections.delete(id);
+				if (connections.size === 0) {
+					stopAdapter();
+					armIdleExit();
+				}
+			});
+			return;
+		}
+
+		if (req.method === 'POST' && url.pathname === '/send') {
+			const connection = connections.get(id);
+			if (!connection) {
+				res.statusCode = 409;
+				res.end();
+				return;
+			}
+			req.on('data', (chunk) => connection.write(chunk));
+			req.on('end', () => res.end());
+			return;
+		}
+
+		res.statusCode = 404;
+		res.end();
+	})
+	.listen(port, BRIDGE_HOST, armIdleExit);
+`;
+
+/** Where a debug adapter's bridge can be reached; `root` is the workspace it runs in */
+export type DebugBridgeEndpoint = SandboxBridgeEndpoint;
+
+/** Make sure the bridge for a debug adapter is listening and return how to reach it */
+export function ensureDebugBridge(
+	project: Pick<Project, 'sandboxId' | 'sandboxProvider'>,
+	adapter: DebugAdapterDefinition
+): Promise<DebugBridgeEndpoint> {
+	return ensureSandboxBridge(project, {
+		name: `${adapter.name} debug adapter bridge`,
+		port: adapter.port,
+		path: BRIDGE_PATH,
+		script: DEBUG_BRIDGE_SCRIPT,
+		args: [adapter.command, String(adapter.adapterPort ?? 0)],
+		log: `${BRIDGE_DIR}/${adapter.id}.log`
+	});
+}
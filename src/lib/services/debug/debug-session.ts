@@ -0,0 +1,748 @@
+/**
+ * Debug sessions: the server-side DAP client for a project.
+ *
+ * Each project has at most one session. Editor tabs attach to it over a WebSocket,
+ * send commands (launch, step, set breakpoints) and receive the whole paused state
+ * after every change, so a reloaded tab and the agent see the same picture.
+ */
+
+import type { Project } from '$lib/types';
+import type {
+	DapMessage,
+	DebugBreakpoint,
+	DebugClientMessage,
+	DebugLaunchConfig,
+	DebugScope,
+	DebugServerMessage,
+	DebugSourceBreakpoint,
+	DebugStackFrame,
+	DebugState,
+	DebugVariable,
+	DebugWatch
+} from '$lib/types/debug';
+import { DapConnection } from './dap-connection';
+import { DEBUG_ADAPTERS, type DebugAdapterDefinition } from './debug-adapters';
+import { ensureDebugBridge, type DebugBridgeEndpoint } from './debug-bridge';
+
+/** The parts of a WebSocket the session needs */
+export interface DebugSocket {
+	send(data: string): void;
+	close(code?: number, reason?: string): void;
+}
+
+export type DebugProject = Pick<Project, 'id' | 'sandboxId' | 'sandboxProvider'>;
+
+/** How long a running program survives without an attached editor */
+export const DEBUG_DETACHED_TIMEOUT = 60 * 1000;
+
+// Adapters install themselves on first use, so starting may take a while
+const LAUNCH_TIMEOUT = 2 * 60 * 1000;
+const DISCONNECT_TIMEOUT = 3000;
+const MAX_FRAMES = 50;
+const MAX_VARIABLES = 200;
+const MAX_LOADED_SCOPES = 3;
+const MAX_OUTPUT_LINES = 200;
+
+interface DapStackFrame {
+	id: number;
+	name: string;
+	line: number;
+	column: number;
+	source?: { path?: string };
+}
+
+interface DapVariable {
+	name: string;
+	value: string;
+	type?: string;
+	variablesReference: number;
+}
+
+function initialState(): DebugState {
+	return {
+		status: 'idle',
+		config: null,
+		frames: [],
+		scopes: [],
+		variables: {},
+		watches: [],
+		breakpoints: {}
+	};
+}
+
+// Everything that only holds while the program is paused
+const RUNNING: Partial<DebugState> = {
+	stoppedReason: undefined,
+	stoppedThreadId: undefined,
+	exception: undefined,
+	frames: [],
+	selectedFrameId: undefined,
+	scopes: [],
+	variables: {}
+};
+
+export class DebugSession {
+	private sockets = new Set<DebugSocket>();
+	private state: DebugState = initialState();
+	private sourceBreakpoints = new Map<string, DebugSourceBreakpoint[]>();
+	private watchExpressions: string[] = [];
+	private output: string[] = [];
+	private adapter: DebugAdapterDefinition | null = null;
+	private endpoint: DebugBridgeEndpoint | null = null;
+	private connections: DapConnection[] = [];
+	/** Connection the program runs on: js-debug's child session, or the only connection */
+	private target: DapConnection | null = null;
+	/** Bumped on every launch and stop so late replies from an old run are ignored */
+	private generation = 0;
+
+	constructor(readonly project: DebugProject) {}
+
+	get isActive(): boolean {
+		return ['starting', 'running', 'paused'].includes(this.state.status);
+	}
+
+	get socketCount(): number {
+		return this.sockets.size;
+	}
+
+	attach(socket: DebugSocket): void {
+		this.sockets.add(socket);
+		this.sendTo(socket, { type: 'state', state: this.state });
+	}
+
+	/** Returns how many sockets are still attached */
+	detach(socket: DebugSocket): number {
+		this.sockets.delete(socket);
+		return this.sockets.size;
+	}
+
+	/** Current state and recent program output, for the agent */
+	snapshot(): { state: DebugState; output: string[] } {
+		return { state: this.state, output: [...this.output] };
+	}
+
+	async handle(socket: DebugSocket, message: DebugClientMessage): Promise<void> {
+		try {
+			switch (message.type) {
+				case 'launch':
+					return await this.launch(message.config);
+				case 'stop':
+					return await this.stop();
+				case 'setBreakpoints':
+					return await this.setBreakpoints(message.path, message.breakpoints);
+				case 'setWatches':
+					return await this.setWatches(message.expressions);
+				case 'continue':
+				case 'next':
+				case 'stepIn':
+				case 'stepOut':
+					return await this.step(message.type);
+				case 'pause':
+					return await this.pause();
+				case 'selectFrame':
+					return await this.loadFrame(message.frameId);
+				case 'variables': {
+					const variables = await this.variables(message.variablesReference);
+					this.sendTo(socket, {
+						type: 'variables',
+						variablesReference: message.variablesReference,
+						variables
+					});
+					return;
+				}
+				case 'evaluate':
+					return await this.evaluate(message.expression);
+			}
+		} catch (error) {
+			this.sendTo(socket, {
+				type: 'error',
+				message: error instanceof Error ? error.message : 'Debugger request failed'
+			});
+		}
+	}
+
+	async launch(config: DebugLaunchConfig): Promise<void> {
+		await this.stop();
+		const generation = ++this.generation;
+		const adapter = DEBUG_ADAPTERS[config.adapter];
+		this.adapter = adapter;
+		this.output = [];
+		this.setState({
+			...initialState(),
+			status: 'starting',
+			config,
+			watches: this.pendingWatches(),
+			breakpoints: this.unverifiedBreakpoints()
+		});
+
+		try {
+			this.endpoint = await ensureDebugBridge(this.project, adapter);
+			if (generation !== this.generation) return;
+
+			const connection = await this.connect('main');
+			this.target = connection;
+			await this.configure(
+				connection,
+				'launch',
+				adapter.launchArguments(config, this.endpoint.root)
+			);
+			if (generation === this.generation && this.state.status === 'starting') {
+				this.setState({ status: 'running' });
+			}
+		} catch (error) {
+			if (generation !== this.generation) return;
+			console.error(`Failed to start the ${adapter.name} debugger:`, error);
+			await this.stop(error instanceof Error ? error.message : 'Debugger failed to start');
+		}
+	}
+
+	/** End the program and close every adapter connection */
+	async stop(error?: string): Promise<void> {
+		this.generation++;
+		// Child sessions first, so the parent does not restart them
+		const connections = this.connections.splice(0).reverse();
+		this.target = null;
+		await Promise.all(
+			connections
+				.filter((connection) => !connection.isClosed)
+				.map((connection) =>
+					connection
+						.request('disconnect', { terminateDebuggee: true }, DISCONNECT_TIMEOUT)
+						.catch(() => {})
+				)
+		);
+		for (const connection of connections) connection.dispose();
+
+		if (this.isActive || error) {
+			this.setState({
+				...RUNNING,
+				status: 'terminated',
+				watches: this.pendingWatches(),
+				error
+			});
+		}
+	}
+
+	private async connect(name: string): Promise<DapConnection> {
+		if (!this.endpoint) throw new Error('Debug adapter bridge is not running');
+		const connection = new DapConnection(this.endpoint, `run${this.generation}-${name}`, {
+			onEvent: (source, event) => this.onEvent(source, event),
+			onRequest: (source, request) => this.onRequest(source, request),
+			onClose: (source) => this.onClose(source)
+		});
+		this.connections.push(connection);
+		await connection.open();
+		return connection;
+	}
+
+	// initialize → launch → (initialized) → breakpoints → configurationDone → launch response
+	private async configure(
+		connection: DapConnection,
+		command: 'launch' | 'attach',
+		args: Record<string, unknown>
+	): Promise<void> {
+		connection.capabilities = await connection.request(
+			'initialize',
+			{
+				clientID: 'aura',
+				clientName: 'Aura IDE',
+				adapterID: this.adapter?.id,
+				pathFormat: 'path',
+				linesStartAt1: true,
+				columnsStartAt1: true,
+				supportsVariableType: true,
+				supportsStartDebuggingRequest: true,
+				supportsRunInTerminalRequest: false,
+				locale: 'en'
+			},
+			LAUNCH_TIMEOUT
+		);
+
+		const initialized = connection.waitForEvent('initialized', LAUNCH_TIMEOUT);
+		const started = connection.request(command, args, LAUNCH_TIMEOUT);
+		// Whichever fails first is reported; the other is awaited (or dropped) below
+		initialized.catch(() => {});
+		started.catch(() => {});
+		await Promise.race([initialized, started.then(() => initialized)]);
+
+		for (const path of this.sourceBreakpoints.keys()) {
+			await this.sendBreakpoints(connection, path);
+		}
+		if (this.adapter?.exceptionFilters.length) {
+			await connection
+				.request('setExceptionBreakpoints', { filters: this.adapter.exceptionFilters })
+				.catch((error) => console.warn('Failed to set exception breakpoints:', error));
+		}
+		if (connection.capabilities.supportsConfigurationDoneRequest) {
+			await connection.request('configurationDone');
+		}
+		await started;
+	}
+
+	private async onRequest(
+		_connection: DapConnection,
+		request: DapMessage
+	): Promise<Record<string, unknown>> {
+		// js-debug runs each debuggee in a child session on a connection of its own
+		if (request.command === 'startDebugging') {
+			const args = (request.arguments ?? {}) as {
+				request?: string;
+				configuration?: Record<string, unknown>;
+			};
+			void this.startChild(args.request === 'attach' ? 'attach' : 'launch', args.configuration);
+			return {};
+		}
+		throw new Error(`Unsupported request: ${request.command}`);
+	}
+
+	private async startChild(
+		command: 'launch' | 'attach',
+		configuration: Record<string, unknown> = {}
+	): Promise<void> {
+		const generation = this.generation;
+		try {
+			const child = await this.connect(`child${this.connections.length}`);
+			if (generation !== this.generation) {
+				child.dispose();
+				return;
+			}
+			this.target = child;
+			await this.configure(child, command, configuration);
+			if (this.state.status === 'starting') this.setState({ status: 'running' });
+		} catch (error) {
+			if (generation !== this.generation) return;
+			console.error('Failed to start the debug child session:', error);
+			await this.stop(error instanceof Error ? error.message : 'Debugger failed to start');
+		}
+	}
+
+	private onEvent(connection: DapConnection, event: DapMessage): void {
+		const body = event.body ?? {};
+		switch (event.event) {
+			case 'output':
+				if (body.category !== 'telemetry') {
+					this.appendOutput(String(body.category ?? 'console'), String(body.output ?? ''));
+				}
+				break;
+			case 'stopped':
+				if (connection === this.target) void this.onStopped(body);
+				break;
+			case 'continued':
+				if (connection === this.target && this.state.status === 'paused') {
+					this.setState({ ...RUNNING, status: 'running', watches: this.pendingWatches() });
+				}
+				break;
+			case 'breakpoint':
+				this.onBreakpointChanged(body.breakpoint as { id?: number; verified?: boolean });
+				break;
+			case 'exited':
+				this.setState({ exitCode: Number(body.exitCode) });
+				break;
+			case 'terminated':
+				if (connection === this.target || connection === this.connections[0]) void this.stop();
+				break;
+		}
+	}
+
+	private onClose(connection: DapConnection): void {
+		if (connection === this.target || connection === this.connections[0]) {
+			void this.stop(this.isActive ? 'Debug adapter stopped unexpectedly' : undefined);
+		}
+	}
+
+	private async onStopped(body: Record<string, unknown>): Promise<void> {
+		const generation = this.generation;
+		const target = this.target;
+		if (!target) return;
+		try {
+			let threadId = typeof body.threadId === 'number' ? body.threadId : undefined;
+			if (threadId === undefined) threadId = await this.firstThread();
+
+			const { stackFrames = [] } = await target.request<{ stackFrames?: DapStackFrame[] }>(
+				'stackTrace',
+				{ threadId, startFrame: 0, levels: MAX_FRAMES }
+			);
+
+			let exception: DebugState['exception'];
+			if (body.reason === 'exception') {
+				exception = { description: String(body.text ?? body.description ?? '') || undefined };
+				if (target.capabilities.supportsExceptionInfoRequest) {
+					const info = await target
+						.request<{
+							exceptionId?: string;
+							description?: string;
+							details?: { stackTrace?: string };
+						}>('exceptionInfo', { threadId })
+						.catch(() => null);
+					if (info) {
+						exception = {
+							id: info.exceptionId,
+							description: info.description ?? exception.description,
+							stackTrace: info.details?.stackTrace
+						};
+					}
+				}
+			}
+			if (generation !== this.generation) return;
+
+			const frames = stackFrames.map((frame) => this.toFrame(frame));
+			this.state = {
+				...this.state,
+				status: 'paused',
+				stoppedReason: String(body.reason ?? 'pause'),
+				stoppedThreadId: threadId,
+				exception,
+				frames
+			};
+			await this.loadFrame(frames[0]?.id);
+		} catch (error) {
+			if (generation !== this.generation) return;
+			console.error('Failed to read the paused state:', error);
+			this.setState({ status: 'paused' });
+		}
+	}
+
+	/** Load scopes, cheap variables and watches for a frame of the paused program */
+	private async loadFrame(frameId: number | undefined): Promise<void> {
+		const target = this.target;
+		const scopes: DebugScope[] = [];
+		const variables: Record<number, DebugVariable[]> = {};
+
+		if (target && frameId !== undefined && this.state.status === 'paused') {
+			const result = await target.request<{ scopes?: DebugScope[] }>('scopes', { frameId });
+			for (const scope of result.scopes ?? []) {
+				scopes.push({
+					name: scope.name,
+					variablesReference: scope.variablesReference,
+					expensive: Boolean(scope.expensive)
+				});
+			}
+			for (const scope of scopes.filter((scope) => !scope.expensive).slice(0, MAX_LOADED_SCOPES)) {
+				variables[scope.variablesReference] = await this.variables(scope.variablesReference);
+			}
+		}
+
+		const watches = await this.evaluateWatches(frameId);
+		this.setState({ selectedFrameId: frameId, scopes, variables, watches });
+	}
+
+	private async variables(variablesReference: number): Promise<DebugVariable[]> {
+		const target = this.requireTarget();
+		const { variables = [] } = await target.request<{ variables?: DapVariable[] }>('variables', {
+			variablesReference
+		});
+		return variables.slice(0, MAX_VARIABLES).map((variable) => ({
+			name: variable.name,
+			value: variable.value,
+			type: variable.type,
+			variablesReference: variable.variablesReference
+		}));
+	}
+
+	private async evaluateWatches(frameId: number | undefined): Promise<DebugWatch[]> {
+		const target = this.target;
+		if (!target || this.state.status !== 'paused') return this.pendingWatches();
+
+		return Promise.all(
+			this.watchExpressions.map(async (expression): Promise<DebugWatch> => {
+				try {
+					const result = await target.request<{ result: string; variablesReference?: number }>(
+						'evaluate',
+						{ expression, frameId, context: 'watch' }
+					);
+					return {
+						expression,
+						value: result.result,
+						variablesReference: result.variablesReference
+					};
+				} catch (error) {
+					return {
+						expression,
+						error: error instanceof Error ? error.message : 'Not available'
+					};
+				}
+			})
+		);
+	}
+
+	private async setWatches(expressions: string[]): Promise<void> {
+		this.watchExpressions = expressions;
+		this.setState({ watches: await this.evaluateWatches(this.state.selectedFrameId) });
+	}
+
+	private async setBreakpoints(path: string, breakpoints: DebugSourceBreakpoint[]): Promise<void> {
+		this.sourceBreakpoints.set(path, breakpoints);
+		const target = this.target;
+		if (target && !target.isClosed && this.state.status !== 'starting') {
+			await this.sendBreakpoints(target, path);
+		} else {
+			this.setState({ breakpoints: this.unverifiedBreakpoints() });
+		}
+		// An empty list still has to reach the adapter once to clear the file
+		if (breakpoints.length === 0) this.sourceBreakpoints.delete(path);
+	}
+
+	private async sendBreakpoints(connection: DapConnection, path: string): Promise<void> {
+		const requested = this.sourceBreakpoints.get(path) ?? [];
+		const result = await connection.request<{
+			breakpoints?: Array<{ id?: number; verified?: boolean; message?: string }>;
+		}>('setBreakpoints', {
+			source: { path: this.toAbsolute(path), name: path.split('/').pop() },
+			breakpoints: requested.map(({ line, condition }) => ({ line, condition })),
+			lines: requested.map(({ line }) => line)
+		});
+
+		const reported: DebugBreakpoint[] = requested.map((breakpoint, index) => {
+			const answer = result.breakpoints?.[index];
+			return {
+				...breakpoint,
+				id: answer?.id,
+				verified: Boolean(answer?.verified),
+				message: answer?.message
+			};
+		});
+		const breakpoints = { ...this.state.breakpoints, [path]: reported };
+		if (reported.length === 0) delete breakpoints[path];
+		this.setState({ breakpoints });
+	}
+
+	private onBreakpointChanged(breakpoint: { id?: number; verified?: boolean } | undefined): void {
+		if (breakpoint?.id === undefined) return;
+		const breakpoints: Record<string, DebugBreakpoint[]> = {};
+		let changed = false;
+		for (const [path, list] of Object.entries(this.state.breakpoints)) {
+			breakpoints[path] = list.map((existing) => {
+				if (existing.id !== breakpoint.id) return existing;
+				changed = true;
+				return { ...existing, verified: Boolean(breakpoint.verified) };
+			});
+		}
+		if (changed) this.setState({ breakpoints });
+	}
+
+	private async step(command: 'continue' | 'next' | 'stepIn' | 'stepOut'): Promise<void> {
+		const target = this.requireTarget();
+		const threadId = this.state.stoppedThreadId;
+		if (this.state.status !== 'paused' || threadId === undefined) {
+			throw new Error('The program is not paused');
+		}
+		this.setState({ ...RUNNING, status: 'running', watches: this.pendingWatches() });
+		await target.request(command, { threadId });
+	}
+
+	private async pause(): Promise<void> {
+		const target = this.requireTarget();
+		if (this.state.status !== 'running') throw new Error('The program is not running');
+		await target.request('pause', { threadId: await this.firstThread() });
+	}
+
+	private async evaluate(expression: string): Promise<void> {
+		const target = this.requireTarget();
+		try {
+			const result = await target.request<{ result: string }>('evaluate', {
+				expression,
+				frameId: this.state.selectedFrameId,
+				context: 'repl'
+			});
+			this.appendOutput('console', `> ${expression}\n${result.result}\n`);
+		} catch (error) {
+			const message = error instanceof Error ? error.message : 'Evaluation failed';
+			this.appendOutput('stderr', `> ${expression}\n${message}\n`);
+		}
+	}
+
+	private async firstThread(): Promise<number> {
+		const { threads = [] } = await this.requireTarget().request<{
+			threads?: Array<{ id: number }>;
+		}>('threads');
+		if (threads.length === 0) throw new Error('The program has no threads');
+		return threads[0].id;
+	}
+
+	private requireTarget(): DapConnection {
+		if (!this.target || this.target.isClosed) throw new Error('No program is being debugged');
+		return this.target;
+	}
+
+	private toFrame(frame: DapStackFrame): DebugStackFrame {
+		const path = frame.source?.path;
+		return {
+			id: frame.id,
+			name: frame.name,
+			path: path?.startsWith('/') ? this.toRelative(path) : undefined,
+			line: frame.line,
+			column: frame.column
+		};
+	}
+
+	private toAbsolute(path: string): string {
+		const root = this.endpoint?.root.replace(/\/+$/, '') ?? '';
+		return path.startsWith('/') ? path : `${root}/${path}`;
+	}
+
+	private toRelative(path: string): string {
+		const root = this.endpoint?.root.replace(/\/+$/, '');
+		return root && path.startsWith(`${root}/`) ? path.slice(root.length + 1) : path;
+	}
+
+	private unverifiedBreakpoints(): Record<string, DebugBreakpoint[]> {
+		return Object.fromEntries(
+			[...this.sourceBreakpoints]
+				.filter(([, list]) => list.length > 0)
+				.map(([path, list]) => [path, list.map((bp) => ({ ...bp, verified: false }))])
+		);
+	}
+
+	private pendingWatches(): DebugWatch[] {
+		return this.watchExpressions.map((expression) => ({ expression }));
+	}
+
+	private appendOutput(category: string, output: string): void {
+		if (!output) return;
+		const lines = output.replace(/\r?\n$/, '').split(/\r?\n/);
+		this.output = [...this.output, ...lines].slice(-MAX_OUTPUT_LINES);
+		this.broadcast({ type: 'output', category, output });
+	}
+
+	private setState(update: Partial<DebugState>): void {
+		this.state = { ...this.state, ...update };
+		this.broadcast({ type: 'state', state: this.state });
+	}
+
+	private broadcast(message: DebugServerMessage): void {
+		for (const socket of this.sockets) this.sendTo(socket, message);
+	}
+
+	private sendTo(socket: DebugSocket, message: DebugServerMessage): void {
+		try {
+			socket.send(JSON.stringify(message));
+		} catch (error) {
+			console.warn('Failed to send debugger update:', error);
+		}
+	}
+}
+
+/**
+ * Keeps one debug session per project while editors are attached, and for a
+ * while after the last one leaves so a reload finds the program where it was
+ */
+export class DebugSessionManager {
+	private static instance: DebugSessionManager;
+	private sessions = new Map<string, DebugSession>();
+	private detachTimers = new Map<string, ReturnType<typeof setTimeout>>();
+
+	static getInstance(): DebugSessionManager {
+		if (!DebugSessionManager.instance) {
+			DebugSessionManager.instance = new DebugSessionManager();
+		}
+		return DebugSessionManager.instance;
+	}
+
+	attach(project: DebugProject, socket: DebugSocket): DebugSession {
+		clearTimeout(this.detachTimers.get(project.id));
+		this.detachTimers.delete(project.id);
+
+		let session = this.sessions.get(project.id);
+		if (!session) {
+			session = new DebugSession(project);
+			this.sessions.set(project.id, session);
+		}
+		session.attach(socket);
+		return session;
+	}
+
+	detach(session: DebugSession, socket: DebugSocket): void {
+		const projectId = session.project.id;
+		if (session.detach(socket) > 0 || this.sessions.get(projectId) !== session) return;
+
+		if (!session.isActive) {
+			this.sessions.delete(projectId);
+			return;
+		}
+		this.detachTimers.set(
+			projectId,
+			setTimeout(() => {
+				this.detachTimers.delete(projectId);
+				if (session.socketCount > 0) return;
+				this.sessions.delete(projectId);
+				void session.stop();
+			}, DEBUG_DETACHED_TIMEOUT)
+		);
+	}
+
+	get(projectId: string): DebugSession | undefined {
+		return this.sessions.get(projectId);
+	}
+
+	/** Session of the project running in a sandbox; the agent only knows the sandbox */
+	findBySandbox(sandboxId: string): DebugSession | undefined {
+		return [...this.sessions.values()].find((session) => session.project.sandboxId === sandboxId);
+	}
+}
+
+/**
+ * Plain-text account of a session for the agent: where the program stopped and why,
+ * the call stack, the selected frame's variables, watches and recent output
+ */
+export function describeDebugState(state: DebugState, output: string[] = []): string {
+	const program = state.config ? `${state.config.program} (${state.config.adapter})` : 'nothing';
+	const lines: string[] = [];
+
+	if (state.status === 'idle') {
+		lines.push('No debug session has been started. Launch one from the Run and Debug panel.');
+	} else if (state.status === 'paused') {
+		lines.push(`Paused (${state.stoppedReason ?? 'pause'}) while debugging ${program}`);
+	} else {
+		lines.push(`Debugging ${program}: ${state.status}`);
+	}
+	if (state.error) lines.push(`Error: ${state.error}`);
+	if (state.exitCode !== undefined && !Number.isNaN(state.exitCode)) {
+		lines.push(`Exit code: ${state.exitCode}`);
+	}
+
+	if (state.exception) {
+		lines.push(
+			'',
+			`Exception: ${[state.exception.id, state.exception.description].filter(Boolean).join(': ')}`
+		);
+		if (state.exception.stackTrace) lines.push(state.exception.stackTrace);
+	}
+
+	if (state.frames.length > 0) {
+		lines.push('', 'Call stack:');
+		for (const frame of state.frames) {
+			const selected = frame.id === state.selectedFrameId ? '*' : ' ';
+			const location = frame.path ? `${frame.path}:${frame.line}:${frame.column}` : 'internal';
+			lines.push(`${selected} ${frame.name} (${location})`);
+		}
+	}
+
+	for (const scope of state.scopes) {
+		const variables = state.variables[scope.variablesReference];
+		if (!variables) continue;
+		lines.push('', `${scope.name}:`);
+		if (variables.length === 0) lines.push('  (empty)');
+		for (const variable of variables) {
+			lines.push(
+				`  ${variable.name}${variable.type ? `: ${variable.type}` : ''} = ${variable.value}`
+			);
+		}
+	}
+
+	if (state.watches.length > 0) {
+		lines.push('', 'Watches:');
+		for (const watch of state.watches) {
+			lines.push(
+				`  ${watch.expression} = ${watch.error ? `<${watch.error}>` : (watch.value ?? '<not paused>')}`
+			);
+		}
+	}
+
+	if (output.length > 0) {
+		lines.push('', 'Recent program output:', ...output.slice(-50));
+	}
+
+	return lines.join('\n');
+}
+
+export const debugSessionManager = DebugSessionManager.getInstance();
@@ -0,0 +1,86 @@
+/**
+ * WebSocket route for the editor's connection to a project's debugger
+ * (/api/projects/[id]/debug)
+ *
+ * Every tab of a project attaches to the same session; each receives the full
+ * state after every change and sends commands as JSON messages.
+ */
+
+import type { DebugClientMessage } from '$lib/types/debug';
+import type { RawData } from 'ws';
+import { z } from 'zod';
+import { authorizeProject } from '../access';
+import type { SocketRouteHandler } from '../websocket/socket-server';
+import { debugSessionManager } from './debug-session';
+
+const relativePath = z
+	.string()
+	.trim()
+	.min(1)
+	.max(1024)
+	.refine((path) => !path.split('/').includes('..'), 'Path must stay inside the workspace');
+
+const clientMessageSchema = z.discriminatedUnion('type', [
+	z.object({
+		type: z.literal('launch'),
+		config: z.object({
+			adapter: z.enum(['node', 'python']),
+			program: relativePath,
+			args: z.array(z.string().max(1024)).max(64).optional(),
+			cwd: relativePath.optional(),
+			stopOnEntry: z.boolean().optional()
+		})
+	}),
+	z.object({
+		type: z.literal('setBreakpoints'),
+		path: relativePath,
+		breakpoints: z
+			.array(
+				z.object({
+					line: z.number().int().positive(),
+					condition: z.string().max(1024).optional()
+				})
+			)
+			.max(500)
+	}),
+	z.object({
+		type: z.literal('setWatches'),
+		expressions: z.array(z.string().trim().min(1).max(1024)).max(50)
+	}),
+	z.object({ type: z.enum(['continue', 'next', 'stepIn', 'stepOut', 'pause', 'stop']) }),
+	z.object({ type: z.literal('selectFrame'), frameId: z.number().int() }),
+	z.object({ type: z.literal('variables'), variablesReference: z.number().int().positive() }),
+	z.object({ type: z.literal('evaluate'), expression: z.string().trim().min(1).max(4096) })
+]);
+
+export const handleDebugSocket: SocketRouteHandler = async ({ params, user }) => {
+	const access = await authorizeProject(params.id, user.id, 'execute');
+	if ('error' in access) {
+		return access;
+	}
+	const { project } = access;
+	if (!project.sandboxId) {
+		return { error: 'Project has no sandbox', status: 409 };
+	}
+
+	return {
+		accept: (socket) => {
+			const session = debugSessionManager.attach(project, socket);
+
+			socket.on('message', (data: RawData) => {
+				const message = parseClientMessage(data.toString());
+				if (message) void session.handle(socket, message);
+			});
+			socket.on('close', () => debugSessionManager.detach(session, socket));
+		}
+	};
+};
+
+export function parseClientMessage(text: string): DebugClientMessage | null {
+	try {
+		const parsed = clientMessageSchema.safeParse(JSON.parse(text));
+		return parsed.success ? (parsed.data as DebugClientMessage) : null;
+	} catch {
+		return null;
+	}
+}
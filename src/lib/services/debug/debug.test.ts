@@ -0,0 +1,248 @@
+/**
+ * Debugger Tests
+ */
+
+import type { DapMessage, DebugServerMessage, DebugState } from '$lib/types/debug';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('$env/dynamic/private', () => ({ env: {} }));
+vi.mock('../database.service', () => ({ DatabaseService: {} }));
+vi.mock('./debug-bridge', () => ({
+	ensureDebugBridge: vi.fn().mockResolvedValue({
+		url: 'http://sandbox:7631',
+		headers: {},
+		root: '/home/app'
+	})
+}));
+
+const { encodeLspMessage, LspMessageReader } = await import('../lsp/lsp-framing');
+const { DEBUG_ADAPTERS, debugAdapterForPath } = await import('./debug-adapters');
+const { DebugSession, describeDebugState } = await import('./debug-session');
+const { parseClientMessage } = await import('./debug-socket');
+
+describe('debugAdapterForPath', () => {
+	it('should pick the adapter by extension', () => {
+		expect(debugAdapterForPath('src/server.mjs')?.id).toBe('node');
+		expect(debugAdapterForPath('app/main.py')?.id).toBe('python');
+	});
+
+	it('should return null for files no adapter runs', () => {
+		expect(debugAdapterForPath('README.md')).toBeNull();
+		expect(debugAdapterForPath('Makefile')).toBeNull();
+	});
+
+	it('should resolve launch paths against the workspace root', () => {
+		const args = DEBUG_ADAPTERS.python.launchArguments(
+			{ adapter: 'python', program: './main.py', args: ['-v'] },
+			'/home/app/'
+		);
+
+		expect(args).toMatchObject({ program: '/home/app/main.py', cwd: '/home/app/', args: ['-v'] });
+	});
+});
+
+describe('parseClientMessage', () => {
+	it('should accept well-formed commands', () => {
+		expect(parseClientMessage('{"type":"next"}')).toEqual({ type: 'next' });
+		expect(
+			parseClientMessage(
+				JSON.stringify({ type: 'setBreakpoints', path: 'src/a.js', breakpoints: [{ line: 3 }] })
+			)
+		).toEqual({ type: 'setBreakpoints', path: 'src/a.js', breakpoints: [{ line: 3 }] });
+	});
+
+	it('should reject paths outside the workspace and malformed input', () => {
+		expect(
+			parseClientMessage(
+				JSON.stringify({ type: 'launch', config: { adapter: 'node', program: '../etc/passwd' } })
+			)
+		).toBeNull();
+		expect(
+			parseClientMessage('{"type":"launch","config":{"adapter":"ruby","program":"a.rb"}}')
+		).toBeNull();
+		expect(parseClientMessage('not json')).toBeNull();
+	});
+});
+
+describe('describeDebugState', () => {
+	it('should report where the program stopped and what it held', () => {
+		const state: DebugState = {
+			status: 'paused',
+			config: { adapter: 'node', program: 'src/index.js' },
+			stoppedReason: 'exception',
+			exception: {
+				id: 'TypeError',
+				description: "Cannot read properties of undefined (reading 'id')"
+			},
+			frames: [
+				{ id: 1, name: 'loadUser', path: 'src/users.js', line: 12, column: 5 },
+				{ id: 2, name: 'processTicksAndRejections', line: 95, column: 5 }
+			],
+			selectedFrameId: 1,
+			scopes: [{ name: 'Local', variablesReference: 7, expensive: false }],
+			variables: {
+				7: [{ name: 'user', value: 'undefined', type: 'undefined', variablesReference: 0 }]
+			},
+			watches: [{ expression: 'users.length', value: '0' }],
+			breakpoints: {}
+		};
+
+		const text = describeDebugState(state, ['Loading users']);
+
+		expect(text).toContain('Paused (exception) while debugging src/index.js (node)');
+		expect(text).toContain(
+			"Exception: TypeError: Cannot read properties of undefined (reading 'id')"
+		);
+		expect(text).toContain('* loadUser (src/users.js:12:5)');
+		expect(text).toContain('  processTicksAndRejections (internal)');
+		expect(text).toContain('  user: undefined = undefined');
+		expect(text).toContain('  users.length = 0');
+		expect(text).toContain('Loading users');
+	});
+});
+
+describe('DebugSession', () => {
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	/** Scripted adapter behind a stubbed bridge: answers requests and pauses on configurationDone */
+	function fakeAdapter() {
+		const requests: DapMessage[] = [];
+		const streams = new Map<string, ReadableStreamDefaultController<Uint8Array>>();
+		let seq = 1;
+
+		const emit = (connection: string, message: Omit<DapMessage, 'seq'>) =>
+			streams
+				.get(connection)
+				?.enqueue(new Uint8Array(encodeLspMessage({ seq: seq++, ...message })));
+
+		const answer = (request: DapMessage): Record<string, unknown> => {
+			switch (request.command) {
+				case 'initialize':
+					return { supportsConfigurationDoneRequest: true };
+				case 'setBreakpoints': {
+					const lines = (request.arguments?.breakpoints as Array<{ line: number }>) ?? [];
+					return { breakpoints: lines.map(({ line }) => ({ line, verified: true })) };
+				}
+				case 'stackTrace':
+					return {
+						stackFrames: [
+							{ id: 1, name: 'main', line: 3, column: 1, source: { path: '/home/app/src/a.js' } }
+						]
+					};
+				case 'scopes':
+					return { scopes: [{ name: 'Local', variablesReference: 10, expensive: false }] };
+				case 'variables':
+					return {
+						variables: [{ name: 'count', value: '2', type: 'number', variablesReference: 0 }]
+					};
+				case 'evaluate':
+					return { result: '4', variablesReference: 0 };
+				default:
+					return {};
+			}
+		};
+
+		const fetchMock = vi.fn(async (input: string, init?: RequestInit) => {
+			const url = new URL(input);
+			const connection = url.searchParams.get('connection') ?? '';
+			if (url.pathname === '/stream') {
+				return new Response(
+					new ReadableStream<Uint8Array>({
+						start: (controller) => void streams.set(connection, controller)
+					})
+				);
+			}
+
+			const reader = new LspMessageReader<DapMessage>();
+			for (const request of reader.push(Buffer.from(init?.body as Uint8Array))) {
+				requests.push(request);
+				emit(connection, {
+					type: 'response',
+					request_seq: request.seq,
+					command: request.command,
+					success: true,
+					body: answer(request)
+				});
+				if (request.command === 'initialize') {
+					emit(connection, { type: 'event', event: 'initialized' });
+				}
+				if (request.command === 'configurationDone') {
+					emit(connection, {
+						type: 'event',
+						event: 'stopped',
+						body: { reason: 'breakpoint', threadId: 1 }
+					});
+				}
+			}
+			return new Response(null, { status: 200 });
+		});
+		vi.stubGlobal('fetch', fetchMock);
+
+		return { requests };
+	}
+
+	function recordingSocket() {
+		const messages: DebugServerMessage[] = [];
+		return {
+			messages,
+			socket: { send: (data: string) => void messages.push(JSON.parse(data)), close: vi.fn() }
+		};
+	}
+
+	it('should launch, pause on a breakpoint and load the paused frame', async () => {
+		const adapter = fakeAdapter();
+		const { socket } = recordingSocket();
+		const session = new DebugSession({ id: 'p1', sandboxId: 's1', sandboxProvider: 'daytona' });
+		session.attach(socket);
+
+		await session.handle(socket, {
+			type: 'setBreakpoints',
+			path: 'src/a.js',
+			breakpoints: [{ line: 3 }]
+		});
+		await session.handle(socket, { type: 'setWatches', expressions: ['count * 2'] });
+		await session.handle(socket, {
+			type: 'launch',
+			config: { adapter: 'node', program: 'src/a.js' }
+		});
+
+		await vi.waitFor(() => expect(session.snapshot().state.watches[0]?.value).toBe('4'));
+		const { state } = session.snapshot();
+
+		expect(state.status).toBe('paused');
+		expect(state.stoppedReason).toBe('breakpoint');
+		expect(state.frames).toEqual([{ id: 1, name: 'main', path: 'src/a.js', line: 3, column: 1 }]);
+		expect(state.variables[10]).toEqual([
+			{ name: 'count', value: '2', type: 'number', variablesReference: 0 }
+		]);
+		expect(state.breakpoints['src/a.js']).toEqual([{ line: 3, verified: true }]);
+
+		const commands = adapter.requests.map((request) => request.command);
+		expect(commands.slice(0, 5)).toEqual([
+			'initialize',
+			'launch',
+			'setBreakpoints',
+			'setExceptionBreakpoints',
+			'configurationDone'
+		]);
+		expect(
+			adapter.requests.find((request) => request.command === 'setBreakpoints')?.arguments
+		).toMatchObject({ source: { path: '/home/app/src/a.js' } });
+
+		await session.stop();
+		expect(session.snapshot().state.status).toBe('terminated');
+		expect(session.isActive).toBe(false);
+	});
+
+	it('should report failed commands to the socket that sent them', async () => {
+		const { socket, messages } = recordingSocket();
+		const session = new DebugSession({ id: 'p1', sandboxId: 's1', sandboxProvider: 'daytona' });
+		session.attach(socket);
+
+		await session.handle(socket, { type: 'next' });
+
+		expect(messages.at(-1)).toEqual({ type: 'error', message: 'No program is being debugged' });
+	});
+});
@@ -0,0 +1,17 @@
+/**
+ * Debugger Exports
+ */
+export { DapConnection } from './dap-connection';
+export type { DapConnectionHandlers } from './dap-connection';
+export { DEBUG_ADAPTERS, debugAdapterForPath, isDebugAdapterId } from './debug-adapters';
+export type { DebugAdapterDefinition } from './debug-adapters';
+export { DEBUG_BRIDGE_SCRIPT, ensureDebugBridge } from './debug-bridge';
+export type { DebugBridgeEndpoint } from './debug-bridge';
+export {
+	DEBUG_DETACHED_TIMEOUT,
+	DebugSession,
+	DebugSessionManager,
+	debugSessionManager,
+	describeDebugState
+} from './debug-session';
+export type { DebugProject, DebugSocket } from './debug-session';
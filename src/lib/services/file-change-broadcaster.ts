@@ -1,12 +1,16 @@
 /**
  * File Change Broadcaster Service
- * Broadcasts file change events to all connected clients via SSE
+ * Broadcasts file change events to all connected clients via SSE and to server-side listeners
  */
 
+import { contentHash } from './file-conflicts/content-hash';
+
 export interface FileChangeEvent {
 	type: 'created' | 'modified' | 'deleted' | 'renamed';
 	path: string;
 	content?: string;
+	/** Hash of `content`; filled in by the broadcaster */
+	hash?: string;
 	newPath?: string;
 	timestamp: number;
 	projectId?: string;
@@ -24,9 +28,12 @@ interface ClientConnection {
 	connectedAt: number;
 }
 
+export type FileChangeListener = (event: FileChangeEvent) => void;
+
 class FileChangeBroadcaster {
 	private static instance: FileChangeBroadcaster;
 	private clients: Map<string, ClientConnection> = new Map();
+	private listeners: Set<FileChangeListener> = new Set();
 	private eventQueue: FileChangeEvent[] = [];
 	private readonly maxQueueSize = 100;
 
@@ -77,10 +84,25 @@ class FileChangeBroadcaster {
 		}
 	}
 
+	/**
+	 * Subscribe a server-side listener to every file change event.
+	 * Returns a function that removes the listener.
+	 */
+	subscribe(listener: FileChangeListener): () => void {
+		this.listeners.add(listener);
+		return () => {
+			this.listeners.delete(listener);
+		};
+	}
+
 	/**
 	 * Broadcast a file change event to all relevant clients
 	 */
 	broadcast(event: FileChangeEvent): void {
+		if (event.content !== undefined && !event.hash) {
+			event = { ...event, hash: contentHash(event.content) };
+		}
+
 		// Add to queue for new clients
 		this.eventQueue.push(event);
 		if (this.eventQueue.length > this.maxQueueSize) {
@@ -112,6 +134,14 @@ class FileChangeBroadcaster {
 			}
 		}
 
+		for (const listener of this.listeners) {
+			try {
+				listener(event);
+			} catch (error) {
+				console.error('File change listener failed:', error);
+			}
+		}
+
 		console.log(
 			`📡 Broadcasted file change: ${event.type} ${event.path} (${successCount} clients, ${failureCount} failures)`
 		);
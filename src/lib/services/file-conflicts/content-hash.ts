@@ -0,0 +1,10 @@
+/**
+ * Content Hash
+ * Identifies a version of a file so saves can tell whether it changed on disk
+ */
+
+import { createHash } from 'node:crypto';
+
+export function contentHash(content: string): string {
+	return createHash('sha256').update(content, 'utf8').digest('hex');
+}
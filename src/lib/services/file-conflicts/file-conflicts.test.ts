@@ -0,0 +1,178 @@
+/**
+ * File Conflict Tests
+ */
+
+import { get } from 'svelte/store';
+import { beforeEach, describe, expect, it } from 'vitest';
+
+const { applyChoices, hasConflictMarkers, mergeHunks, threeWayMerge } =
+	await import('./three-way-merge');
+const { contentHash } = await import('./content-hash');
+const { fileStateActions, fileStatesStore } = await import('../../stores/file-states.store');
+const { fileActions, filesStore } = await import('../../stores/files.store');
+
+const BASE = ['import a', 'const x = 1;', 'const y = 2;', 'export { x, y };'].join('\n');
+
+describe('threeWayMerge', () => {
+	it('takes changes made on one side only', () => {
+		const mine = BASE.replace('import a', 'import b');
+		const theirs = BASE.replace('const y = 2;', 'const y = 20;');
+
+		const result = threeWayMerge(BASE, mine, theirs);
+
+		expect(result.conflicts).toBe(0);
+		expect(result.merged).toBe(
+			['import b', 'const x = 1;', 'const y = 20;', 'export { x, y };'].join('\n')
+		);
+	});
+
+	it('treats changes to neighbouring lines as a conflict, like git', () => {
+		const mine = BASE.replace('const x = 1;', 'const x = 10;');
+		const theirs = BASE.replace('const y = 2;', 'const y = 20;');
+
+		expect(threeWayMerge(BASE, mine, theirs).conflicts).toBe(1);
+	});
+
+	it('treats identical changes on both sides as clean', () => {
+		const changed = BASE.replace('import a', 'import b');
+		const result = threeWayMerge(BASE, changed, changed);
+
+		expect(result.conflicts).toBe(0);
+		expect(result.merged).toBe(changed);
+		expect(result.hunks.map((hunk) => hunk.kind)).toEqual(['both', 'unchanged']);
+	});
+
+	it('marks overlapping changes as conflicts', () => {
+		const mine = BASE.replace('const x = 1;', 'const x = 10;');
+		const theirs = BASE.replace('const x = 1;', 'const x = 100;');
+
+		const result = threeWayMerge(BASE, mine, theirs);
+
+		expect(result.conflicts).toBe(1);
+		expect(result.merged.split('\n')).toEqual([
+			'import a',
+			'<<<<<<< Mine',
+			'const x = 10;',
+			'||||||| Base',
+			'const x = 1;',
+			'=======',
+			'const x = 100;',
+			'>>>>>>> Theirs',
+			'const y = 2;',
+			'export { x, y };'
+		]);
+		expect(hasConflictMarkers(result.merged)).toBe(true);
+	});
+
+	it('keeps lines added at the end by either side', () => {
+		const mine = `${BASE}\n// mine`;
+		const theirs = `// theirs\n${BASE}`;
+
+		const result = threeWayMerge(BASE, mine, theirs);
+
+		expect(result.conflicts).toBe(0);
+		expect(result.merged).toBe(`// theirs\n${BASE}\n// mine`);
+	});
+});
+
+describe('applyChoices', () => {
+	const mine = BASE.replace('const x = 1;', 'const x = 10;');
+	const theirs = BASE.replace('const x = 1;', 'const x = 100;');
+	const hunks = mergeHunks(BASE, mine, theirs);
+	const conflict = hunks.findIndex((hunk) => hunk.kind === 'conflict');
+
+	it('writes the chosen side of each conflict', () => {
+		expect(applyChoices(hunks, { [conflict]: 'mine' })).toBe(mine);
+		expect(applyChoices(hunks, { [conflict]: 'theirs' })).toBe(theirs);
+		expect(applyChoices(hunks, { [conflict]: 'both' })).toContain('const x = 10;\nconst x = 100;');
+	});
+
+	it('leaves markers on conflicts without a choice', () => {
+		expect(hasConflictMarkers(applyChoices(hunks, {}))).toBe(true);
+	});
+});
+
+describe('contentHash', () => {
+	it('changes with the content', () => {
+		expect(contentHash('a')).toBe(contentHash('a'));
+		expect(contentHash('a')).not.toBe(contentHash('b'));
+	});
+});
+
+describe('fileStateActions conflicts', () => {
+	const path = '/workspace/src/app.ts';
+
+	function openFile(content: string) {
+		fileActions.handleRemoteFileCreated(path, content);
+		fileStateActions.initializeFileState(path);
+		fileStateActions.setBaseVersion(path, content, contentHash(content));
+	}
+
+	function edit(content: string) {
+		const previous = (get(filesStore).get(path) as { content: string }).content;
+		fileActions.updateFileContent(path, content);
+		fileStateActions.markEdited(path, content, previous);
+	}
+
+	beforeEach(() => {
+		fileStateActions.reset();
+		fileActions.clear();
+	});
+
+	it('applies changes on disk to files without unsaved edits', () => {
+		openFile(BASE);
+		const theirs = `${BASE}\n// agent`;
+
+		expect(fileStateActions.reconcileRemoteChange(path, theirs, contentHash(theirs))).toBe('apply');
+		expect(fileStateActions.getFileState(path)?.baseHash).toBe(contentHash(theirs));
+	});
+
+	it('flags a conflict when a dirty file changes on disk', () => {
+		openFile(BASE);
+		edit(`${BASE}\n// mine`);
+
+		const theirs = `${BASE}\n// agent`;
+		expect(fileStateActions.reconcileRemoteChange(path, theirs, contentHash(theirs))).toBe(
+			'conflict'
+		);
+		expect(fileStateActions.getConflict(path)).toMatchObject({ theirs, source: 'watcher' });
+		// The unsaved edits stay in the editor
+		expect((get(filesStore).get(path) as { content: string }).content).toBe(`${BASE}\n// mine`);
+	});
+
+	it('ignores change events that carry the editor content or the base', () => {
+		openFile(BASE);
+		edit(`${BASE}\n// mine`);
+
+		expect(fileStateActions.reconcileRemoteChange(path, BASE)).toBe('keep');
+		expect(fileStateActions.reconcileRemoteChange(path, `${BASE}\n// mine`, 'hash')).toBe('keep');
+		expect(fileStateActions.getFileState(path)).toMatchObject({ isDirty: false, baseHash: 'hash' });
+	});
+
+	it('makes the disk version the base once a conflict is resolved', () => {
+		openFile(BASE);
+		edit(`${BASE}\n// mine`);
+		const theirs = `// agent\n${BASE}`;
+		fileStateActions.reconcileRemoteChange(path, theirs, contentHash(theirs));
+
+		const merged = `// agent\n${BASE}\n// mine`;
+		fileStateActions.resolveConflict(path, merged);
+
+		const state = get(fileStatesStore).get(path);
+		expect(state).toMatchObject({
+			conflict: null,
+			isDirty: true,
+			baseContent: theirs,
+			baseHash: contentHash(theirs)
+		});
+		expect((get(filesStore).get(path) as { content: string }).content).toBe(merged);
+	});
+
+	it('is clean again when edits return to the base version', () => {
+		openFile(BASE);
+		edit(`${BASE}\n// mine`);
+		edit(BASE);
+
+		expect(fileStateActions.isFileDirty(path)).toBe(false);
+	});
+});
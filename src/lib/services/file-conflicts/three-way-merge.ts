@@ -0,0 +1,194 @@
+/**
+ * Three-way Merge
+ * Line-based diff3 of the version a file was opened at (base), the editor's
+ * unsaved text (mine) and what is on disk now (theirs)
+ */
+
+import { diffArrays } from 'diff';
+
+export type ConflictChoice = 'mine' | 'theirs' | 'both';
+
+export type MergeHunkKind = 'unchanged' | 'mine' | 'theirs' | 'both' | 'conflict';
+
+export interface MergeHunk {
+	kind: MergeHunkKind;
+	base: string[];
+	mine: string[];
+	theirs: string[];
+}
+
+export interface MergeResult {
+	hunks: MergeHunk[];
+	/** Merged text; conflicting hunks are written with git-style markers */
+	merged: string;
+	conflicts: number;
+}
+
+export const CONFLICT_MARKERS = {
+	mine: '<<<<<<< Mine',
+	base: '||||||| Base',
+	separator: '=======',
+	theirs: '>>>>>>> Theirs'
+} as const;
+
+/**
+ * For every base line kept in `other`, the index of that line in `other`
+ */
+function matchLines(base: string[], other: string[]): (number | undefined)[] {
+	const matches: (number | undefined)[] = new Array(base.length);
+	let baseIndex = 0;
+	let otherIndex = 0;
+
+	for (const change of diffArrays(base, other)) {
+		const count = change.value.length;
+		if (change.added) {
+			otherIndex += count;
+		} else if (change.removed) {
+			baseIndex += count;
+		} else {
+			for (let offset = 0; offset < count; offset++) {
+				matches[baseIndex + offset] = otherIndex + offset;
+			}
+			baseIndex += count;
+			otherIndex += count;
+		}
+	}
+	return matches;
+}
+
+function sameLines(a: string[], b: string[]): boolean {
+	return a.length === b.length && a.every((line, index) => line === b[index]);
+}
+
+function classify(base: string[], mine: string[], theirs: string[]): MergeHunkKind {
+	if (sameLines(mine, theirs)) return sameLines(mine, base) ? 'unchanged' : 'both';
+	if (sameLines(mine, base)) return 'theirs';
+	if (sameLines(theirs, base)) return 'mine';
+	return 'conflict';
+}
+
+/**
+ * Split the three versions into hunks. Stable runs are base lines kept by both
+ * sides; everything between two stable runs is one hunk that either side, both
+ * sides or neither side can take cleanly.
+ */
+export function mergeHunks(base: string, mine: string, theirs: string): MergeHunk[] {
+	const baseLines = base.split('\n');
+	const mineLines = mine.split('\n');
+	const theirLines = theirs.split('\n');
+	const inMine = matchLines(baseLines, mineLines);
+	const inTheirs = matchLines(baseLines, theirLines);
+
+	const hunks: MergeHunk[] = [];
+	const push = (hunk: MergeHunk) => {
+		const last = hunks[hunks.length - 1];
+		if (last && last.kind === 'unchanged' && hunk.kind === 'unchanged') {
+			last.base.push(...hunk.base);
+			last.mine.push(...hunk.mine);
+			last.theirs.push(...hunk.theirs);
+		} else if (hunk.base.length || hunk.mine.length || hunk.theirs.length) {
+			hunks.push(hunk);
+		}
+	};
+
+	let b = 0;
+	let m = 0;
+	let t = 0;
+	while (b < baseLines.length || m < mineLines.length || t < theirLines.length) {
+		// Lines all three versions share
+		if (b < baseLines.length && inMine[b] === m && inTheirs[b] === t) {
+			push({
+				kind: 'unchanged',
+				base: [baseLines[b]],
+				mine: [mineLines[m]],
+				theirs: [theirLines[t]]
+			});
+			b++;
+			m++;
+			t++;
+			continue;
+		}
+
+		// The next base line both sides kept ends the changed region
+		let end = b;
+		while (end < baseLines.length && (inMine[end] === undefined || inTheirs[end] === undefined)) {
+			end++;
+		}
+		const mineEnd = end < baseLines.length ? inMine[end]! : mineLines.length;
+		const theirEnd = end < baseLines.length ? inTheirs[end]! : theirLines.length;
+
+		const hunk = {
+			base: baseLines.slice(b, end),
+			mine: mineLines.slice(m, mineEnd),
+			theirs: theirLines.slice(t, theirEnd)
+		};
+		push({ kind: classify(hunk.base, hunk.mine, hunk.theirs), ...hunk });
+		b = end;
+		m = mineEnd;
+		t = theirEnd;
+	}
+
+	return hunks;
+}
+
+/**
+ * The text of a hunk once resolved; unresolved conflicts keep both sides between markers
+ */
+export function resolveHunk(hunk: MergeHunk): string[] {
+	switch (hunk.kind) {
+		case 'unchanged':
+		case 'mine':
+		case 'both':
+			return hunk.mine;
+		case 'theirs':
+			return hunk.theirs;
+		case 'conflict':
+			return [
+				CONFLICT_MARKERS.mine,
+				...hunk.mine,
+				CONFLICT_MARKERS.base,
+				...hunk.base,
+				CONFLICT_MARKERS.separator,
+				...hunk.theirs,
+				CONFLICT_MARKERS.theirs
+			];
+	}
+}
+
+export function threeWayMerge(base: string, mine: string, theirs: string): MergeResult {
+	const hunks = mergeHunks(base, mine, theirs);
+	return {
+		hunks,
+		merged: hunks.flatMap(resolveHunk).join('\n'),
+		conflicts: hunks.filter((hunk) => hunk.kind === 'conflict').length
+	};
+}
+
+/**
+ * Merged text with the side picked for each conflict, keyed by hunk index.
+ * Conflicts without a choice keep their markers.
+ */
+export function applyChoices(hunks: MergeHunk[], choices: Record<number, ConflictChoice>): string {
+	return hunks
+		.flatMap((hunk, index) => {
+			if (hunk.kind !== 'conflict' || !choices[index]) return resolveHunk(hunk);
+			switch (choices[index]) {
+				case 'mine':
+					return hunk.mine;
+				case 'theirs':
+					return hunk.theirs;
+				case 'both':
+					return [...hunk.mine, ...hunk.theirs];
+			}
+		})
+		.join('\n');
+}
+
+/**
+ * Whether text still contains conflict markers written by {@link threeWayMerge}
+ */
+export function hasConflictMarkers(text: string): boolean {
+	return text
+		.split('\n')
+		.some((line) => line === CONFLICT_MARKERS.mine || line === CONFLICT_MARKERS.theirs);
+}
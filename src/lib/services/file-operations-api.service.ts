@@ -9,6 +9,7 @@ export interface FileOperationRequest {
 	sandboxId?: string;
 	path: string;
 	content?: string;
+	baseHash?: string;
 	newPath?: string;
 	metadata?: Record<string, any>;
 }
@@ -59,6 +60,7 @@ export class FileOperationsAPIClient {
 	async updateFile(options: {
 		path: string;
 		content: string;
+		baseHash?: string;
 		projectId?: string;
 		sandboxId?: string;
 		metadata?: Record<string, any>;
@@ -133,6 +135,7 @@ export class FileOperationsAPIClient {
 	async saveFile(options: {
 		path: string;
 		content: string;
+		baseHash?: string;
 		projectId?: string;
 		sandboxId?: string;
 		metadata?: Record<string, any>;
@@ -207,6 +210,11 @@ export class FileOperationsAPIClient {
 					errorData = {};
 				}
 
+				// A conflict carries the version on disk for the merge view
+				if (response.status === 409) {
+					return errorData;
+				}
+
 				throw new Error(errorData.message || `HTTP ${response.status}: ${response.statusText}`);
 			}
 
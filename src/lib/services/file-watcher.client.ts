@@ -9,6 +9,7 @@ export interface FileChangeEvent {
 	type: 'created' | 'modified' | 'deleted' | 'renamed' | 'connected' | 'heartbeat';
 	path: string;
 	content?: string;
+	hash?: string;
 	newPath?: string;
 	timestamp: number;
 	projectId?: string;
@@ -0,0 +1,207 @@
+/**
+ * Git Output Parsers
+ * Turns porcelain git output into the source control types used by the API
+ */
+
+import type {
+	GitBranch,
+	GitChangeKind,
+	GitDiffHunk,
+	GitFileChange,
+	GitStatus
+} from '../../types/git.js';
+
+export interface ParsedDiff {
+	/** File header lines (`diff --git`, `index`, `---`, `+++`, mode lines) */
+	header: string[];
+	hunks: GitDiffHunk[];
+	binary: boolean;
+}
+
+/** Format string for `git for-each-ref` understood by {@link parseBranches} */
+export const BRANCH_FORMAT = '%(HEAD)%00%(refname:short)%00%(upstream:short)%00%(objectname:short)';
+
+const CHANGE_KINDS: Record<string, GitChangeKind> = {
+	M: 'modified',
+	A: 'added',
+	D: 'deleted',
+	R: 'renamed',
+	C: 'copied',
+	T: 'type-changed'
+};
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+/**
+ * Parse `git status --porcelain=v2 --branch -z`
+ */
+export function parseStatus(output: string): GitStatus {
+	const status: GitStatus = {
+		isRepository: true,
+		branch: null,
+		detached: false,
+		commit: null,
+		ahead: 0,
+		behind: 0,
+		files: []
+	};
+
+	const entries = output.split('\0');
+	for (let i = 0; i < entries.length; i++) {
+		const entry = entries[i];
+		if (!entry) continue;
+
+		switch (entry[0]) {
+			case '#':
+				parseBranchHeader(status, entry);
+				break;
+			case '1': {
+				const [fields, path] = splitFields(entry, 8);
+				status.files.push({ path, ...parseXY(fields[1]) });
+				break;
+			}
+			case '2': {
+				// Renames and copies are followed by the original path as its own entry
+				const [fields, path] = splitFields(entry, 9);
+				status.files.push({ path, origPath: entries[++i], ...parseXY(fields[1]) });
+				break;
+			}
+			case 'u': {
+				const [, path] = splitFields(entry, 10);
+				status.files.push({ path, staged: 'conflicted', unstaged: 'conflicted' });
+				break;
+			}
+			case '?':
+				status.files.push({ path: entry.slice(2), staged: null, unstaged: 'untracked' });
+				break;
+		}
+	}
+
+	return status;
+}
+
+/**
+ * Parse `git for-each-ref --format=<BRANCH_FORMAT> refs/heads`
+ */
+export function parseBranches(output: string): GitBranch[] {
+	return output
+		.split('\n')
+		.filter((line) => line.includes('\0'))
+		.map((line) => {
+			const [head, name, upstream, commit] = line.split('\0');
+			return {
+				name,
+				current: head === '*',
+				upstream: upstream || undefined,
+				commit
+			};
+		});
+}
+
+/**
+ * Parse the unified diff of a single file into its header and hunks
+ */
+export function parseDiff(diff: string): ParsedDiff {
+	const parsed: ParsedDiff = { header: [], hunks: [], binary: false };
+	const lines = diff.split('\n');
+	if (lines[lines.length - 1] === '') lines.pop();
+
+	let hunk: GitDiffHunk | null = null;
+	for (const line of lines) {
+		const match = HUNK_HEADER.exec(line);
+		if (match) {
+			hunk = {
+				index: parsed.hunks.length,
+				header: line,
+				oldStart: Number(match[1]),
+				oldLines: match[2] === undefined ? 1 : Number(match[2]),
+				newStart: Number(match[3]),
+				newLines: match[4] === undefined ? 1 : Number(match[4]),
+				lines: []
+			};
+			parsed.hunks.push(hunk);
+		} else if (hunk) {
+			hunk.lines.push(line);
+		} else {
+			if (line.startsWith('Binary files ') || line === 'GIT binary patch') parsed.binary = true;
+			parsed.header.push(line);
+		}
+	}
+
+	return parsed;
+}
+
+/**
+ * Build a patch that applies only one hunk of a parsed diff, for `git apply --cached`
+ */
+export function buildHunkPatch(diff: ParsedDiff, hunkIndex: number): string | null {
+	const hunk = diff.hunks[hunkIndex];
+	if (!hunk || diff.binary) return null;
+	return [...diff.header, hunk.header, ...hunk.lines].join('\n') + '\n';
+}
+
+/**
+ * Line numbers removed from the original side and added to the modified side by a set of hunks
+ */
+export function changedLines(hunks: GitDiffHunk[]): { removed: Set<number>; added: Set<number> } {
+	const removed = new Set<number>();
+	const added = new Set<number>();
+	for (const hunk of hunks) {
+		let oldLine = hunk.oldStart;
+		let newLine = hunk.newStart;
+		for (const line of hunk.lines) {
+			if (line.startsWith('-')) {
+				removed.add(oldLine++);
+			} else if (line.startsWith('+')) {
+				added.add(newLine++);
+			} else if (line.startsWith(' ')) {
+				oldLine++;
+				newLine++;
+			}
+		}
+	}
+	return { removed, added };
+}
+
+function parseBranchHeader(status: GitStatus, entry: string): void {
+	const [key, ...rest] = entry.slice(2).split(' ');
+	const value = rest.join(' ');
+
+	switch (key) {
+		case 'branch.oid':
+			status.commit = value === '(initial)' ? null : value;
+			break;
+		case 'branch.head':
+			status.detached = value === '(detached)';
+			status.branch = status.detached ? null : value;
+			break;
+		case 'branch.upstream':
+			status.upstream = value;
+			break;
+		case 'branch.ab': {
+			const [ahead, behind] = rest;
+			status.ahead = Math.abs(Number(ahead));
+			status.behind = Math.abs(Number(behind));
+			break;
+		}
+	}
+}
+
+function parseXY(xy: string): Pick<GitFileChange, 'staged' | 'unstaged'> {
+	return {
+		staged: CHANGE_KINDS[xy[0]] ?? null,
+		unstaged: CHANGE_KINDS[xy[1]] ?? null
+	};
+}
+
+/** Split off `count` space separated fields; the rest of the entry is the path */
+function splitFields(entry: string, count: number): [string[], string] {
+	const fields: string[] = [];
+	let start = 0;
+	for (let i = 0; i < count; i++) {
+		const end = entry.indexOf(' ', start);
+		fields.push(entry.slice(start, end));
+		start = end + 1;
+	}
+	return [fields, entry.slice(start)];
+}
@@ -0,0 +1,348 @@
+/**
+ * Git Service
+ * Runs git inside a sandbox through the sandbox manager and parses its porcelain output
+ */
+
+import type { Project } from '../../types/index.js';
+import type { GitBranch, GitCommandResult, GitFileDiff, GitStatus } from '../../types/git.js';
+import type { SandboxProvider } from '../../types/sandbox.js';
+import { sandboxManager } from '../sandbox/sandbox-manager.js';
+import {
+	BRANCH_FORMAT,
+	buildHunkPatch,
+	parseBranches,
+	parseDiff,
+	parseStatus
+} from './git-parser.js';
+
+export interface GitRepository {
+	sandboxId: string;
+	provider?: SandboxProvider;
+	/** Repository root inside the sandbox; the provider's workspace when omitted */
+	workingDir?: string;
+}
+
+export interface GitAuthor {
+	name: string;
+	email: string;
+}
+
+export interface GitRemoteOptions {
+	remote?: string;
+	branch?: string;
+	/** GitHub token sent as an HTTP header, never written to the repository config */
+	token?: string;
+}
+
+interface RunOptions {
+	/** Piped to git's stdin */
+	input?: string;
+	/** Return stderr on success too (progress and summaries of push, pull, commit) */
+	includeStderr?: boolean;
+	timeout?: number;
+	/** Extra `-c key=value` settings for this invocation only */
+	config?: string[];
+	/** Environment for the command; keeps secrets out of the command line */
+	environment?: Record<string, string>;
+	/** Strings to mask in the returned output */
+	secrets?: string[];
+}
+
+const GIT_TIMEOUT = 60_000;
+const REMOTE_TIMEOUT = 180_000;
+const GITHUB_URL = 'https://github.com/';
+// Settings from the sandbox's own git config must not run hooks or helpers, or
+// redirect or downgrade the connection, while a token is attached
+const REMOTE_CONFIG = [
+	'core.hooksPath=/dev/null',
+	'core.fsmonitor=false',
+	'credential.helper=',
+	'http.sslVerify=true',
+	'http.proxy='
+];
+const DAYTONA_WORKSPACE = '/home/daytona';
+
+export class GitService {
+	private static instance: GitService;
+
+	static getInstance(): GitService {
+		if (!GitService.instance) {
+			GitService.instance = new GitService();
+		}
+		return GitService.instance;
+	}
+
+	/**
+	 * Current branch, upstream tracking and changed files
+	 */
+	async status(repo: GitRepository): Promise<GitStatus> {
+		const result = await this.run(repo, ['status', '--porcelain=v2', '--branch', '-z']);
+		if (!result.success) {
+			if (/not a git repository/i.test(result.output)) {
+				return {
+					isRepository: false,
+					branch: null,
+					detached: false,
+					commit: null,
+					ahead: 0,
+					behind: 0,
+					files: []
+				};
+			}
+			throw new Error(`git status failed: ${result.output}`);
+		}
+		return parseStatus(result.output);
+	}
+
+	async branches(repo: GitRepository): Promise<GitBranch[]> {
+		const result = await this.run(repo, [
+			'for-each-ref',
+			`--format=${BRANCH_FORMAT}`,
+			'--sort=-committerdate',
+			'refs/heads'
+		]);
+		if (!result.success) {
+			throw new Error(`git for-each-ref failed: ${result.output}`);
+		}
+		return parseBranches(result.output);
+	}
+
+	/**
+	 * Staged (HEAD → index) or unstaged (index → working tree) changes of one file, with
+	 * both sides' full content for a side-by-side view
+	 */
+	async diff(repo: GitRepository, path: string, staged = false): Promise<GitFileDiff> {
+		const status = await this.status(repo);
+		const change = status.files.find((file) => file.path === path);
+		const untracked = change?.unstaged === 'untracked';
+
+		// Untracked files have no diff against the index; they are staged as a whole
+		const diff = untracked
+			? null
+			: await this.run(repo, ['diff', ...(staged ? ['--cached'] : []), '--', path]);
+		if (diff && !diff.success) {
+			throw new Error(`git diff failed: ${diff.output}`);
+		}
+		const parsed = parseDiff(diff?.output ?? '');
+
+		const original = staged
+			? await this.show(repo, `HEAD:${path}`)
+			: await this.show(repo, `:${path}`);
+		const modified = staged
+			? await this.show(repo, `:${path}`)
+			: await this.readWorkingFile(repo, path);
+
+		return {
+			path,
+			staged,
+			original,
+			modified,
+			hunks: parsed.hunks,
+			binary: parsed.binary
+		};
+	}
+
+	async stage(repo: GitRepository, paths: string[]): Promise<GitCommandResult> {
+		return this.run(repo, ['add', '-A', '--', ...paths]);
+	}
+
+	async unstage(repo: GitRepository, paths: string[]): Promise<GitCommandResult> {
+		// Also works before the first commit, where there is no HEAD to restore from
+		return this.run(repo, ['reset', '-q', '--', ...paths]);
+	}
+
+	/**
+	 * Stage a single hunk of a file's unstaged diff
+	 */
+	async stageHunk(repo: GitRepository, path: string, hunkIndex: number): Promise<GitCommandResult> {
+		return this.applyHunk(repo, path, hunkIndex, false);
+	}
+
+	/**
+	 * Unstage a single hunk of a file's staged diff
+	 */
+	async unstageHunk(
+		repo: GitRepository,
+		path: string,
+		hunkIndex: number
+	): Promise<GitCommandResult> {
+		return this.applyHunk(repo, path, hunkIndex, true);
+	}
+
+	async commit(repo: GitRepository, message: string, author: GitAuthor): Promise<GitCommandResult> {
+		return this.run(repo, ['commit', '-F', '-'], {
+			input: message,
+			includeStderr: true,
+			config: [`user.name=${author.name}`, `user.email=${author.email}`]
+		});
+	}
+
+	async checkout(repo: GitRepository, branch: string): Promise<GitCommandResult> {
+		return this.run(repo, ['switch', '--', branch], { includeStderr: true });
+	}
+
+	async createBranch(
+		repo: GitRepository,
+		name: string,
+		options: { from?: string; checkout?: boolean } = {}
+	): Promise<GitCommandResult> {
+		const args =
+			options.checkout === false
+				? ['branch', '--', name, ...(options.from ? [options.from] : [])]
+				: ['switch', '-c', name, '--', ...(options.from ? [options.from] : [])];
+		return this.run(repo, args, { includeStderr: true });
+	}
+
+	async init(repo: GitRepository, defaultBranch = 'main'): Promise<GitCommandResult> {
+		return this.run(repo, ['init', '-b', defaultBranch], { includeStderr: true });
+	}
+
+	/**
+	 * Push the current branch, setting its upstream on the first push
+	 */
+	async push(repo: GitRepository, options: GitRemoteOptions = {}): Promise<GitCommandResult> {
+		const remote = options.remote ?? 'origin';
+		const target = options.branch ?? 'HEAD';
+		return this.run(repo, ['push', '--set-upstream', remote, target], {
+			...this.remoteAuth(options.token),
+			config: REMOTE_CONFIG,
+			includeStderr: true,
+			timeout: REMOTE_TIMEOUT
+		});
+	}
+
+	async pull(repo: GitRepository, options: GitRemoteOptions = {}): Promise<GitCommandResult> {
+		const args = ['pull', '--no-edit', '--no-rebase'];
+		if (options.remote || options.branch) args.push(options.remote ?? 'origin');
+		if (options.branch) args.push(options.branch);
+		return this.run(repo, args, {
+			...this.remoteAuth(options.token),
+			config: REMOTE_CONFIG,
+			includeStderr: true,
+			timeout: REMOTE_TIMEOUT
+		});
+	}
+
+	private async applyHunk(
+		repo: GitRepository,
+		path: string,
+		hunkIndex: number,
+		reverse: boolean
+	): Promise<GitCommandResult> {
+		const diff = await this.run(repo, ['diff', ...(reverse ? ['--cached'] : []), '--', path]);
+		if (!diff.success) return diff;
+
+		const patch = buildHunkPatch(parseDiff(diff.output), hunkIndex);
+		if (!patch) {
+			return { success: false, output: `No hunk ${hunkIndex} in the diff of ${path}` };
+		}
+
+		return this.run(
+			repo,
+			['apply', '--cached', '--whitespace=nowarn', ...(reverse ? ['--reverse'] : []), '-'],
+			{ input: patch }
+		);
+	}
+
+	private async show(repo: GitRepository, object: string): Promise<string> {
+		const result = await this.run(repo, ['show', object]);
+		return result.success ? result.output : '';
+	}
+
+	private async readWorkingFile(repo: GitRepository, path: string): Promise<string> {
+		const result = await this.exec(repo, `cat -- ${shellQuote(path)}`);
+		return result.success ? result.output : '';
+	}
+
+	/**
+	 * Authenticate GitHub remotes with a token header scoped to this invocation. The header
+	 * is passed as GIT_CONFIG_* variables so it never appears in the command line.
+	 */
+	private remoteAuth(token?: string): Pick<RunOptions, 'environment' | 'secrets'> {
+		if (!token) return {};
+		const credentials = Buffer.from(`x-access-token:${token}`).toString('base64');
+		return {
+			environment: {
+				GIT_CONFIG_COUNT: '1',
+				GIT_CONFIG_KEY_0: `http.${GITHUB_URL}.extraheader`,
+				GIT_CONFIG_VALUE_0: `AUTHORIZATION: basic ${credentials}`
+			},
+			secrets: [token, credentials]
+		};
+	}
+
+	private async run(
+		repo: GitRepository,
+		args: string[],
+		options: RunOptions = {}
+	): Promise<GitCommandResult> {
+		const config = ['core.quotepath=off', 'color.ui=false', ...(options.config ?? [])];
+		let command = ['git', ...config.flatMap((setting) => ['-c', setting]), ...args]
+			.map(shellQuote)
+			.join(' ');
+
+		if (options.input !== undefined) {
+			const encoded = Buffer.from(options.input).toString('base64');
+			command = `printf %s ${shellQuote(encoded)} | base64 -d | ${command}`;
+		}
+
+		const result = await this.exec(repo, command, options);
+		let output = result.output;
+		for (const secret of options.secrets ?? []) {
+			output = output.split(secret).join('***');
+		}
+		return { success: result.success, output };
+	}
+
+	/**
+	 * Run a shell command, returning stdout on success and stderr on failure
+	 */
+	private async exec(
+		repo: GitRepository,
+		command: string,
+		options: Pick<RunOptions, 'includeStderr' | 'timeout' | 'environment'> = {}
+	): Promise<GitCommandResult> {
+		const script = options.includeStderr
+			? `export GIT_TERMINAL_PROMPT=0; ${command} 2>&1`
+			: `export GIT_TERMINAL_PROMPT=0; err=$(mktemp); ${command} 2>"$err"; code=$?; ` +
+				`[ $code -eq 0 ] || cat "$err"; rm -f "$err"; exit $code`;
+
+		const result = await sandboxManager.executeCommand(
+			repo.sandboxId,
+			`sh -c ${shellQuote(script)}`,
+			{
+				workingDir: repo.workingDir,
+				timeout: options.timeout ?? GIT_TIMEOUT,
+				environment: options.environment,
+				provider: repo.provider
+			}
+		);
+
+		return {
+			success: result.success,
+			output: result.success ? result.output : result.output || result.error || 'git failed'
+		};
+	}
+}
+
+/**
+ * The repository of a project's sandbox, or null when the project has no sandbox yet
+ */
+export function repositoryForProject(
+	project: Pick<Project, 'sandboxId' | 'sandboxProvider'>
+): GitRepository | null {
+	if (!project.sandboxId) return null;
+	return {
+		sandboxId: project.sandboxId,
+		provider: project.sandboxProvider,
+		workingDir: project.sandboxProvider === 'daytona' ? DAYTONA_WORKSPACE : undefined
+	};
+}
+
+/** Quote an argument for POSIX sh */
+export function shellQuote(value: string): string {
+	if (/^[\w@%+=:,./-]+$/.test(value)) return value;
+	return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+export const gitService = GitService.getInstance();
@@ -0,0 +1,216 @@
+/**
+ * Git Service Tests
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const executed: string[] = [];
+const environments: Array<Record<string, string> | undefined> = [];
+let respond: (command: string) => { success: boolean; output: string } = () => ({
+	success: true,
+	output: ''
+});
+
+vi.mock('../sandbox/sandbox-manager.js', () => ({
+	sandboxManager: {
+		executeCommand: vi.fn(
+			async (
+				_sandboxId: string,
+				command: string,
+				options?: { environment?: Record<string, string> }
+			) => {
+				executed.push(command);
+				environments.push(options?.environment);
+				return { ...respond(command), exitCode: 0, duration: 0, timestamp: new Date() };
+			}
+		)
+	}
+}));
+
+const { buildHunkPatch, changedLines, parseBranches, parseDiff, parseStatus } =
+	await import('./git-parser');
+const { GitService, shellQuote } = await import('./git.service');
+
+const DIFF = [
+	'diff --git a/src/app.ts b/src/app.ts',
+	'index 1111111..2222222 100644',
+	'--- a/src/app.ts',
+	'+++ b/src/app.ts',
+	'@@ -1,3 +1,3 @@',
+	' import a from "a";',
+	'-const x = 1;',
+	'+const x = 2;',
+	' export default x;',
+	'@@ -20 +20,2 @@ function tail() {',
+	' return y;',
+	'+// done',
+	''
+].join('\n');
+
+/** Decode the base64 payload piped to git's stdin */
+function stdin(command: string): string {
+	const match = /printf %s '?([A-Za-z0-9+/=]+)'? \| base64 -d/.exec(command);
+	return match ? Buffer.from(match[1], 'base64').toString() : '';
+}
+
+describe('git parsers', () => {
+	it('should parse porcelain v2 status with branch headers, renames and untracked files', () => {
+		const status = parseStatus(
+			[
+				'# branch.oid 0123456789abcdef0123456789abcdef01234567',
+				'# branch.head feature/login',
+				'# branch.upstream origin/feature/login',
+				'# branch.ab +2 -1',
+				'1 .M N... 100644 100644 100644 aaa bbb src/my file.ts',
+				'1 A. N... 000000 100644 100644 000 ccc src/new.ts',
+				'2 R. N... 100644 100644 100644 ddd eee R100 src/renamed.ts',
+				'src/old.ts',
+				'u UU N... 100644 100644 100644 100644 f1 f2 f3 conflict.ts',
+				'? notes.md',
+				''
+			].join('\0')
+		);
+
+		expect(status).toMatchObject({
+			branch: 'feature/login',
+			upstream: 'origin/feature/login',
+			ahead: 2,
+			behind: 1,
+			detached: false
+		});
+		expect(status.files).toEqual([
+			{ path: 'src/my file.ts', staged: null, unstaged: 'modified' },
+			{ path: 'src/new.ts', staged: 'added', unstaged: null },
+			{ path: 'src/renamed.ts', origPath: 'src/old.ts', staged: 'renamed', unstaged: null },
+			{ path: 'conflict.ts', staged: 'conflicted', unstaged: 'conflicted' },
+			{ path: 'notes.md', staged: null, unstaged: 'untracked' }
+		]);
+	});
+
+	it('should parse detached heads and unborn branches', () => {
+		expect(parseStatus('# branch.oid abc\0# branch.head (detached)\0')).toMatchObject({
+			branch: null,
+			detached: true,
+			commit: 'abc'
+		});
+		expect(parseStatus('# branch.oid (initial)\0# branch.head main\0')).toMatchObject({
+			branch: 'main',
+			commit: null
+		});
+	});
+
+	it('should parse branches from for-each-ref', () => {
+		expect(parseBranches('*\0main\0origin/main\0abc1234\n \0feature\0\0def5678\n')).toEqual([
+			{ name: 'main', current: true, upstream: 'origin/main', commit: 'abc1234' },
+			{ name: 'feature', current: false, upstream: undefined, commit: 'def5678' }
+		]);
+	});
+
+	it('should split a diff into hunks and rebuild single-hunk patches', () => {
+		const parsed = parseDiff(DIFF);
+		expect(parsed.header).toHaveLength(4);
+		expect(parsed.hunks.map((h) => [h.oldStart, h.oldLines, h.newStart, h.newLines])).toEqual([
+			[1, 3, 1, 3],
+			[20, 1, 20, 2]
+		]);
+
+		const patch = buildHunkPatch(parsed, 1);
+		expect(patch).toBe(
+			[...parsed.header, '@@ -20 +20,2 @@ function tail() {', ' return y;', '+// done', ''].join(
+				'\n'
+			)
+		);
+		expect(buildHunkPatch(parsed, 2)).toBeNull();
+	});
+
+	it('should map hunks to the changed line numbers on each side', () => {
+		const { removed, added } = changedLines(parseDiff(DIFF).hunks);
+		expect([...removed]).toEqual([2]);
+		expect([...added]).toEqual([2, 21]);
+	});
+});
+
+describe('GitService', () => {
+	const repo = { sandboxId: 'sb-1', workingDir: '/home/daytona' };
+	let git: InstanceType<typeof GitService>;
+
+	beforeEach(() => {
+		executed.length = 0;
+		environments.length = 0;
+		respond = () => ({ success: true, output: '' });
+		git = new GitService();
+	});
+
+	it('should stage one hunk by piping its patch to git apply --cached', async () => {
+		respond = (command) => ({ success: true, output: command.includes(' diff ') ? DIFF : '' });
+
+		const result = await git.stageHunk(repo, 'src/app.ts', 0);
+
+		expect(result.success).toBe(true);
+		const apply = executed.find((command) => command.includes(' apply '));
+		expect(apply).toContain('--cached');
+		expect(apply).not.toContain('--reverse');
+		expect(stdin(apply!)).toContain('+const x = 2;');
+		expect(stdin(apply!)).not.toContain('+// done');
+	});
+
+	it('should pass commit messages through stdin rather than the command line', async () => {
+		await git.commit(repo, "fix: don't break $HOME", { name: 'Ada', email: 'ada@example.com' });
+
+		expect(executed[0]).not.toContain('$HOME');
+		expect(stdin(executed[0])).toBe("fix: don't break $HOME");
+		expect(executed[0]).toContain('user.email=ada@example.com');
+	});
+
+	it('should authenticate pushes with a token header kept out of the command line', async () => {
+		const credentials = Buffer.from('x-access-token:ghp_secret').toString('base64');
+		respond = () => ({ success: false, output: `fatal: rejected basic ${credentials}` });
+
+		const result = await git.push(repo, { token: 'ghp_secret' });
+
+		expect(result.success).toBe(false);
+		expect(environments[0]).toEqual({
+			GIT_CONFIG_COUNT: '1',
+			GIT_CONFIG_KEY_0: 'http.https://github.com/.extraheader',
+			GIT_CONFIG_VALUE_0: `AUTHORIZATION: basic ${credentials}`
+		});
+		expect(executed[0]).not.toContain(credentials);
+		expect(executed[0]).not.toContain('extraheader');
+		expect(result.output).not.toContain(credentials);
+	});
+
+	it('should ignore hooks, helpers and proxies from the sandbox config on remote commands', async () => {
+		await git.push(repo, { token: 'ghp_secret' });
+		await git.pull(repo, { token: 'ghp_secret' });
+
+		for (const command of executed) {
+			expect(command).toContain('-c core.hooksPath=/dev/null');
+			expect(command).toContain('-c credential.helper= ');
+			expect(command).toContain('-c http.sslVerify=true');
+			expect(command).toContain('-c http.proxy= ');
+		}
+	});
+
+	it('should never read branch names as options', async () => {
+		await git.checkout(repo, '--orphan=x');
+		await git.createBranch(repo, '-D', { from: 'main' });
+		await git.createBranch(repo, '-f', { checkout: false });
+
+		expect(executed[0]).toContain('switch -- --orphan=x');
+		expect(executed[1]).toContain('switch -c -D -- main');
+		expect(executed[2]).toContain('branch -- -f');
+	});
+
+	it('should report a directory without a repository instead of failing', async () => {
+		respond = () => ({ success: false, output: 'fatal: not a git repository' });
+
+		await expect(git.status(repo)).resolves.toMatchObject({ isRepository: false, files: [] });
+	});
+});
+
+describe('shellQuote', () => {
+	it('should leave safe arguments alone and quote everything else', () => {
+		expect(shellQuote('src/app.ts')).toBe('src/app.ts');
+		expect(shellQuote("it's here")).toBe(`'it'\\''s here'`);
+	});
+});
@@ -0,0 +1,7 @@
+/**
+ * Git Service Exports
+ */
+export { buildHunkPatch, changedLines, parseBranches, parseDiff, parseStatus } from './git-parser';
+export type { ParsedDiff } from './git-parser';
+export { GitService, gitService, repositoryForProject, shellQuote } from './git.service';
+export type { GitAuthor, GitRemoteOptions, GitRepository } from './git.service';
@@ -1,11 +1,12 @@
 /**
  * GitHub API Service
- * Service for interacting with GitHub API for template management
+ * Service for interacting with GitHub API for template management and repository export
  */
 
 import { templateConfig } from '$lib/config/template.config.js';
 import { logger } from '$lib/utils/logger.js';
 import { Octokit } from '@octokit/rest';
+import { createHash } from 'crypto';
 
 export interface GitHubRepository {
 	id: number;
@@ -53,6 +54,32 @@ export interface GitHubTreeItem {
 	url: string;
 }
 
+/**
+ * A file to write in a commit; `content: null` deletes the path
+ */
+export interface GitHubFileChange {
+	path: string;
+	content: Buffer | string | null;
+	/** Git file mode, `100755` for executables */
+	mode?: '100644' | '100755';
+}
+
+export interface GitHubCommitResult {
+	sha: string;
+	html_url: string;
+	branch: string;
+}
+
+export interface GitHubPullRequest {
+	number: number;
+	title: string;
+	html_url: string;
+	state: string;
+	draft: boolean;
+	head: string;
+	base: string;
+}
+
 export interface RateLimitInfo {
 	limit: number;
 	remaining: number;
@@ -68,9 +95,12 @@ export class GitHubApiService {
 	private baseUrl = 'https://api.github.com';
 	private rateLimitInfo: RateLimitInfo | null = null;
 
-	constructor() {
+	/**
+	 * @param token - A user's token for write operations; defaults to the template token
+	 */
+	constructor(token?: string) {
 		this.octokit = new Octokit({
-			auth: templateConfig.github.token,
+			auth: token ?? templateConfig.github.token,
 			userAgent: 'Aura-IDE/1.0.0'
 		});
 	}
@@ -793,6 +823,232 @@ export class GitHubApiService {
 		}
 	}
 
+	/**
+	 * Get the login of the token's owner
+	 */
+	async getAuthenticatedUser(): Promise<{ login: string; name: string | null }> {
+		const { data } = await this.octokit.rest.users.getAuthenticated();
+		return { login: data.login, name: data.name };
+	}
+
+	/**
+	 * Create a repository for the authenticated user or an organization. The repository
+	 * starts with one commit so the Git Data API can build on its default branch.
+	 */
+	async createRepository(options: {
+		name: string;
+		description?: string;
+		private?: boolean;
+		org?: string;
+	}): Promise<GitHubRepository> {
+		try {
+			const params = {
+				name: options.name,
+				description: options.description,
+				private: options.private ?? true,
+				auto_init: true
+			};
+			const { data } = options.org
+				? await this.octokit.rest.repos.createInOrg({ org: options.org, ...params })
+				: await this.octokit.rest.repos.createForAuthenticatedUser(params);
+
+			return {
+				id: data.id,
+				name: data.name,
+				full_name: data.full_name,
+				description: data.description,
+				html_url: data.html_url,
+				clone_url: data.clone_url,
+				default_branch: data.default_branch,
+				topics: data.topics || [],
+				language: data.language,
+				stargazers_count: data.stargazers_count,
+				forks_count: data.forks_count,
+				created_at: data.created_at,
+				updated_at: data.updated_at
+			};
+		} catch (error) {
+			logger.error(`Failed to create repository ${options.org ?? ''}/${options.name}:`, error);
+			throw error;
+		}
+	}
+
+	/**
+	 * Delete a repository; the token needs the `delete_repo` scope
+	 */
+	async deleteRepository(owner: string, repo: string): Promise<void> {
+		try {
+			await this.octokit.rest.repos.delete({ owner, repo });
+		} catch (error) {
+			logger.error(`Failed to delete repository ${owner}/${repo}:`, error);
+			throw error;
+		}
+	}
+
+	/**
+	 * Get the commit SHA a branch points to, or null when the branch does not exist
+	 */
+	async getBranchSha(owner: string, repo: string, branch: string): Promise<string | null> {
+		try {
+			const { data } = await this.octokit.rest.git.getRef({ owner, repo, ref: `heads/${branch}` });
+			return data.object.sha;
+		} catch (error) {
+			if ((error as { status?: number }).status === 404) {
+				return null;
+			}
+			logger.error(`Failed to get branch ${branch} of ${owner}/${repo}:`, error);
+			throw error;
+		}
+	}
+
+	/**
+	 * Create a branch at another branch's head (the default branch when omitted)
+	 */
+	async createBranch(owner: string, repo: string, branch: string, from?: string): Promise<string> {
+		try {
+			const base = from ?? (await this.getRepository(owner, repo))?.default_branch;
+			const sha = base ? await this.getBranchSha(owner, repo, base) : null;
+			if (!sha) {
+				throw new Error(`Base branch not found in ${owner}/${repo}: ${base}`);
+			}
+
+			await this.octokit.rest.git.createRef({ owner, repo, ref: `refs/heads/${branch}`, sha });
+			return sha;
+		} catch (error) {
+			logger.error(`Failed to create branch ${branch} in ${owner}/${repo}:`, error);
+			throw error;
+		}
+	}
+
+	/**
+	 * Commit files on top of a branch through the Git Data API (blobs, tree, commit, ref).
+	 * With `replaceTree` the commit contains exactly `files`; otherwise they are applied
+	 * over the branch's current tree. Returns null when the commit would change nothing.
+	 */
+	async commitFiles(
+		owner: string,
+		repo: string,
+		options: {
+			branch: string;
+			message: string;
+			files: GitHubFileChange[];
+			replaceTree?: boolean;
+		}
+	): Promise<GitHubCommitResult | null> {
+		try {
+			const parentSha = await this.getBranchSha(owner, repo, options.branch);
+			if (!parentSha) {
+				throw new Error(`Branch not found in ${owner}/${repo}: ${options.branch}`);
+			}
+			const { data: parent } = await this.octokit.rest.git.getCommit({
+				owner,
+				repo,
+				commit_sha: parentSha
+			});
+
+			const tree: Array<{
+				path: string;
+				mode: '100644' | '100755';
+				type: 'blob';
+				sha: string | null;
+			}> = [];
+
+			// Create blobs in batches to stay under GitHub's secondary rate limits
+			const batchSize = 10;
+			for (let i = 0; i < options.files.length; i += batchSize) {
+				const batch = options.files.slice(i, i + batchSize);
+				const entries = await Promise.all(
+					batch.map(async (file) => {
+						const mode = file.mode ?? '100644';
+						if (file.content === null) {
+							return { path: file.path, mode, type: 'blob' as const, sha: null };
+						}
+						const { data: blob } = await this.octokit.rest.git.createBlob({
+							owner,
+							repo,
+							content: Buffer.from(file.content).toString('base64'),
+							encoding: 'base64'
+						});
+						return { path: file.path, mode, type: 'blob' as const, sha: blob.sha };
+					})
+				);
+				tree.push(...entries);
+			}
+
+			const { data: newTree } = await this.octokit.rest.git.createTree({
+				owner,
+				repo,
+				tree: options.replaceTree ? tree.filter((entry) => entry.sha !== null) : tree,
+				base_tree: options.replaceTree ? undefined : parent.tree.sha
+			});
+			if (newTree.sha === parent.tree.sha) {
+				return null;
+			}
+
+			const { data: commit } = await this.octokit.rest.git.createCommit({
+				owner,
+				repo,
+				message: options.message,
+				tree: newTree.sha,
+				parents: [parentSha]
+			});
+			await this.octokit.rest.git.updateRef({
+				owner,
+				repo,
+				ref: `heads/${options.branch}`,
+				sha: commit.sha
+			});
+
+			logger.info(`Committed ${options.files.length} files to ${owner}/${repo}@${options.branch}`);
+			return { sha: commit.sha, html_url: commit.html_url, branch: options.branch };
+		} catch (error) {
+			logger.error(`Failed to commit files to ${owner}/${repo}@${options.branch}:`, error);
+			throw error;
+		}
+	}
+
+	/**
+	 * Get the raw content of a blob
+	 */
+	async getBlob(owner: string, repo: string, sha: string): Promise<Buffer> {
+		const { data } = await this.octokit.rest.git.getBlob({ owner, repo, file_sha: sha });
+		return Buffer.from(data.content, data.encoding === 'base64' ? 'base64' : 'utf-8');
+	}
+
+	/**
+	 * Open a pull request from `head` into `base`
+	 */
+	async createPullRequest(
+		owner: string,
+		repo: string,
+		options: { title: string; body: string; head: string; base: string; draft?: boolean }
+	): Promise<GitHubPullRequest> {
+		try {
+			const { data } = await this.octokit.rest.pulls.create({
+				owner,
+				repo,
+				title: options.title,
+				body: options.body,
+				head: options.head,
+				base: options.base,
+				draft: options.draft
+			});
+
+			return {
+				number: data.number,
+				title: data.title,
+				html_url: data.html_url,
+				state: data.state,
+				draft: data.draft ?? false,
+				head: data.head.ref,
+				base: data.base.ref
+			};
+		} catch (error) {
+			logger.error(`Failed to open pull request ${options.head} -> ${options.base}:`, error);
+			throw error;
+		}
+	}
+
 	/**
 	 * Get time until rate limit reset
 	 */
@@ -804,6 +1060,14 @@ export class GitHubApiService {
 		return new Date(this.rateLimitInfo.reset * 1000);
 	}
 
+	/**
+	 * SHA git assigns to a blob with this content, for comparing files against a tree
+	 */
+	static blobSha(content: Buffer | string): string {
+		const buffer = Buffer.from(content);
+		return createHash('sha1').update(`blob ${buffer.length}\0`).update(buffer).digest('hex');
+	}
+
 	/**
 	 * Parse repository URL to extract owner and repo
 	 */
@@ -0,0 +1,194 @@
+/**
+ * GitHub Export Service Tests
+ */
+
+import type { Project } from '$lib/types';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('$env/dynamic/private', () => ({ env: {} }));
+const updateProject = vi.fn();
+vi.mock('./database.service', () => ({ DatabaseService: { updateProject } }));
+
+const executeCommand = vi.fn();
+const downloadFiles = vi.fn();
+vi.mock('./sandbox/sandbox-manager', () => ({
+	sandboxManager: { executeCommand, downloadFiles }
+}));
+
+const { GitHubApiService } = await import('./github-api.service');
+const { collectSandboxFiles, describeGitHubError, diffAgainstTree, exportProjectToGitHub } =
+	await import('./github-export.service');
+
+function blob(path: string, content: string) {
+	return {
+		path,
+		mode: '100644',
+		type: 'blob' as const,
+		sha: GitHubApiService.blobSha(content),
+		url: ''
+	};
+}
+
+describe('GitHubApiService.blobSha', () => {
+	it('should match the object id git assigns to a blob', () => {
+		// `printf 'hello\n' | git hash-object --stdin`
+		expect(GitHubApiService.blobSha('hello\n')).toBe('ce013625030ba8dba906f756967f9e9ca394464a');
+	});
+});
+
+describe('diffAgainstTree', () => {
+	const tree = [
+		blob('README.md', '# App\n'),
+		blob('src/app.ts', 'export const x = 1;\n'),
+		blob('src/old.ts', 'old\n'),
+		blob('assets/video.mp4', 'large'),
+		blob('dist/index.js', 'built'),
+		{ path: 'src', mode: '040000', type: 'tree' as const, sha: 'abc', url: '' }
+	];
+
+	it('should report added, modified and deleted files', () => {
+		const files = new Map([
+			['README.md', Buffer.from('# App\n')],
+			['src/app.ts', Buffer.from('export const x = 2;\n')],
+			['src/new.ts', Buffer.from('new\n')]
+		]);
+
+		expect(diffAgainstTree(files, tree, ['assets/video.mp4'])).toEqual([
+			{ path: 'src/app.ts', status: 'modified' },
+			{ path: 'src/new.ts', status: 'added' },
+			{ path: 'src/old.ts', status: 'deleted' }
+		]);
+	});
+
+	it('should report nothing when the sandbox matches the tree', () => {
+		const files = new Map([
+			['README.md', Buffer.from('# App\n')],
+			['src/app.ts', Buffer.from('export const x = 1;\n')],
+			['src/old.ts', Buffer.from('old\n')]
+		]);
+
+		expect(diffAgainstTree(files, tree, ['assets/video.mp4'])).toEqual([]);
+	});
+});
+
+describe('collectSandboxFiles', () => {
+	beforeEach(() => {
+		executeCommand.mockReset();
+		downloadFiles.mockReset();
+	});
+
+	it('should read listed files from the workspace and skip oversized ones', async () => {
+		executeCommand.mockResolvedValue({
+			success: true,
+			output: '- src/app.ts\n- README.md\n- large.bin\nx bin/start\n- src/app.ts\n',
+			exitCode: 0
+		});
+		downloadFiles.mockResolvedValue({
+			'README.md': Buffer.from('# App'),
+			'src/app.ts': Buffer.from('export {};'),
+			'large.bin': Buffer.alloc(6 * 1024 * 1024),
+			'bin/start': Buffer.from('#!/bin/sh')
+		});
+
+		const result = await collectSandboxFiles({ sandboxId: 'sb-1', sandboxProvider: 'daytona' });
+
+		expect(executeCommand.mock.calls[0][1]).toContain(
+			'ls-files --cached --others --exclude-standard'
+		);
+		expect(downloadFiles).toHaveBeenCalledWith(
+			'sb-1',
+			['README.md', 'bin/start', 'large.bin', 'src/app.ts'],
+			{ baseDir: '/home/daytona', provider: 'daytona' }
+		);
+		expect([...result.files.keys()]).toEqual(['README.md', 'bin/start', 'src/app.ts']);
+		expect([...result.executables]).toEqual(['bin/start']);
+		expect(result.skipped).toEqual(['large.bin']);
+	});
+
+	it('should fail for projects without a sandbox', async () => {
+		await expect(collectSandboxFiles({})).rejects.toThrow('Project has no sandbox');
+	});
+});
+
+describe('exportProjectToGitHub', () => {
+	const project = {
+		id: 'p-1',
+		name: 'App',
+		sandboxId: 'sb-1',
+		sandboxProvider: 'daytona',
+		metadata: {}
+	} as unknown as Project;
+
+	beforeEach(() => {
+		vi.restoreAllMocks();
+		updateProject.mockReset();
+		executeCommand.mockReset().mockResolvedValue({
+			success: true,
+			output: '- README.md\nx run.sh\n',
+			exitCode: 0
+		});
+		downloadFiles.mockReset().mockResolvedValue({
+			'README.md': Buffer.from('# App'),
+			'run.sh': Buffer.from('#!/bin/sh')
+		});
+		vi.spyOn(GitHubApiService.prototype, 'createRepository').mockResolvedValue({
+			full_name: 'octo/app',
+			html_url: 'https://github.com/octo/app',
+			default_branch: 'main'
+		} as Awaited<ReturnType<InstanceType<typeof GitHubApiService>['createRepository']>>);
+	});
+
+	it('should commit executables with their mode and link the project', async () => {
+		const commitFiles = vi.spyOn(GitHubApiService.prototype, 'commitFiles').mockResolvedValue(null);
+
+		await exportProjectToGitHub(project, 'token', { name: 'app' });
+
+		expect(commitFiles.mock.calls[0][2].files).toEqual([
+			{ path: 'README.md', content: Buffer.from('# App'), mode: '100644' },
+			{ path: 'run.sh', content: Buffer.from('#!/bin/sh'), mode: '100755' }
+		]);
+		expect(updateProject).toHaveBeenCalledWith('p-1', {
+			metadata: { github: expect.objectContaining({ owner: 'octo', repo: 'app' }) }
+		});
+	});
+
+	it('should delete the repository when the first commit fails', async () => {
+		vi.spyOn(GitHubApiService.prototype, 'commitFiles').mockRejectedValue(new Error('boom'));
+		const deleteRepository = vi
+			.spyOn(GitHubApiService.prototype, 'deleteRepository')
+			.mockResolvedValue();
+
+		await expect(exportProjectToGitHub(project, 'token', { name: 'app' })).rejects.toThrow('boom');
+		expect(deleteRepository).toHaveBeenCalledWith('octo', 'app');
+		expect(updateProject).not.toHaveBeenCalled();
+	});
+
+	it('should link the repository when it cannot be deleted', async () => {
+		vi.spyOn(GitHubApiService.prototype, 'commitFiles').mockRejectedValue(new Error('boom'));
+		vi.spyOn(GitHubApiService.prototype, 'deleteRepository').mockRejectedValue(
+			Object.assign(new Error('Must have admin rights'), { status: 403 })
+		);
+
+		await expect(exportProjectToGitHub(project, 'token', { name: 'app' })).rejects.toThrow('boom');
+		expect(updateProject).toHaveBeenCalledWith('p-1', {
+			metadata: { github: expect.objectContaining({ owner: 'octo', repo: 'app' }) }
+		});
+	});
+});
+
+describe('describeGitHubError', () => {
+	it('should map GitHub API statuses and ignore other errors', () => {
+		const conflict = Object.assign(new Error('name already exists on this account'), {
+			status: 422
+		});
+
+		expect(describeGitHubError(conflict)).toEqual({
+			status: 409,
+			message: 'GitHub rejected the request: name already exists on this account'
+		});
+		expect(
+			describeGitHubError(Object.assign(new Error('Bad credentials'), { status: 401 }))
+		).toMatchObject({ status: 400 });
+		expect(describeGitHubError(new Error('boom'))).toBeNull();
+	});
+});
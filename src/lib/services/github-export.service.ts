@@ -0,0 +1,426 @@
+/**
+ * GitHub Export Service
+ * Publishes a project's sandbox files to GitHub: a new repository on the first export,
+ * then branches and pull requests describing the agent's changes
+ */
+
+import { env } from '$env/dynamic/private';
+import type { Project } from '$lib/types';
+import type { GitHubFileDelta, GitHubProjectLink } from '$lib/types/git';
+import { logger } from '$lib/utils/logger.js';
+import { createOpenAI } from '@ai-sdk/openai';
+import { generateText } from 'ai';
+import { createTwoFilesPatch } from 'diff';
+import { DatabaseService } from './database.service';
+import { repositoryForProject, shellQuote } from './git';
+import {
+	GitHubApiService,
+	type GitHubFileChange,
+	type GitHubPullRequest,
+	type GitHubTreeItem
+} from './github-api.service';
+import { sandboxManager } from './sandbox/sandbox-manager';
+
+const MAX_EXPORT_FILES = 2000;
+// GitHub rejects blobs over 100MB; large files rarely belong in a source export anyway
+const MAX_FILE_SIZE = 5 * 1024 * 1024;
+const EXCLUDED_DIRECTORIES = [
+	'node_modules',
+	'.git',
+	'.svelte-kit',
+	'.next',
+	'.nuxt',
+	'.cache',
+	'dist',
+	'build',
+	'coverage'
+];
+const DESCRIPTION_MODEL = 'gpt-4o-mini';
+const MAX_DESCRIBED_PATCHES = 20;
+const MAX_PATCH_LENGTH = 4000;
+const MAX_AGENT_REQUESTS = 10;
+
+export interface SandboxFiles {
+	files: Map<string, Buffer>;
+	/** Paths of files with the executable bit set */
+	executables: Set<string>;
+	/** Paths left out for exceeding the size or file count limits */
+	skipped: string[];
+}
+
+export interface ExportResult {
+	link: GitHubProjectLink;
+	files: number;
+	skipped: string[];
+}
+
+export interface PullRequestResult {
+	pullRequest: GitHubPullRequest;
+	changes: GitHubFileDelta[];
+	skipped: string[];
+}
+
+/**
+ * Create a repository from the project's files and link the project to it
+ */
+export async function exportProjectToGitHub(
+	project: Project,
+	token: string,
+	options: { name: string; description?: string; private?: boolean; org?: string }
+): Promise<ExportResult> {
+	const github = new GitHubApiService(token);
+	const { files, executables, skipped } = await collectSandboxFiles(project);
+
+	const repository = await github.createRepository({
+		name: options.name,
+		description: options.description ?? project.description,
+		private: options.private,
+		org: options.org
+	});
+	const [owner, repo] = repository.full_name.split('/');
+	const link: GitHubProjectLink = {
+		owner,
+		repo,
+		htmlUrl: repository.html_url,
+		defaultBranch: repository.default_branch,
+		exportedAt: new Date()
+	};
+
+	// Replace the auto-initialized README commit's tree with the project's files
+	try {
+		await github.commitFiles(owner, repo, {
+			branch: repository.default_branch,
+			message: `Export ${project.name} from Aura IDE`,
+			files: [...files].map(([path, content]) => ({
+				path,
+				content,
+				mode: executables.has(path) ? '100755' : '100644'
+			})),
+			replaceTree: true
+		});
+	} catch (error) {
+		await discardRepository(github, project, link);
+		throw error;
+	}
+
+	await DatabaseService.updateProject(project.id, {
+		metadata: { ...project.metadata, github: link }
+	});
+
+	logger.info(`Exported project ${project.id} to ${repository.full_name} (${files.size} files)`);
+	return { link, files: files.size, skipped };
+}
+
+/**
+ * Commit the project's changes against a base branch to a new branch and open a pull
+ * request for them. Returns null when the sandbox matches the base branch.
+ */
+export async function openProjectPullRequest(
+	project: Project,
+	link: GitHubProjectLink,
+	token: string,
+	options: { userId: string; title?: string; branch?: string; base?: string; draft?: boolean }
+): Promise<PullRequestResult | null> {
+	const github = new GitHubApiService(token);
+	const base = options.base ?? link.defaultBranch;
+
+	const baseSha = await github.getBranchSha(link.owner, link.repo, base);
+	if (!baseSha) {
+		throw new Error(`Branch not found in ${link.owner}/${link.repo}: ${base}`);
+	}
+	const tree = await github.getTree(link.owner, link.repo, baseSha, true);
+	if (!tree) {
+		throw new Error(`Failed to read ${link.owner}/${link.repo}@${base}`);
+	}
+
+	const { files, executables, skipped } = await collectSandboxFiles(project);
+	const changes = diffAgainstTree(files, tree.tree, skipped);
+	if (changes.length === 0) {
+		return null;
+	}
+
+	const requests = await recentAgentRequests(project.id, options.userId);
+	const title = options.title?.trim() || defaultTitle(changes);
+	const branch =
+		options.branch ?? `aura/${new Date().toISOString().slice(0, 19).replace(/\D/g, '')}`;
+
+	await github.createBranch(link.owner, link.repo, branch, base);
+	await github.commitFiles(link.owner, link.repo, {
+		branch,
+		message: title,
+		files: changes.map((change): GitHubFileChange => ({
+			path: change.path,
+			content: change.status === 'deleted' ? null : files.get(change.path)!,
+			mode: executables.has(change.path) ? '100755' : '100644'
+		}))
+	});
+
+	const body = await describeChanges({
+		title,
+		changes,
+		requests,
+		patches: await buildPatches(github, link, tree.tree, files, changes)
+	});
+
+	const pullRequest = await github.createPullRequest(link.owner, link.repo, {
+		title,
+		body,
+		head: branch,
+		base,
+		draft: options.draft
+	});
+
+	logger.info(`Opened ${pullRequest.html_url} with ${changes.length} changed files`);
+	return { pullRequest, changes, skipped };
+}
+
+/**
+ * Client-facing status and message for errors returned by the GitHub API, or null for
+ * anything else
+ */
+export function describeGitHubError(error: unknown): { status: number; message: string } | null {
+	const status = (error as { status?: unknown })?.status;
+	if (typeof status !== 'number') return null;
+
+	const message = error instanceof Error ? error.message : 'GitHub request failed';
+	switch (status) {
+		case 401:
+			return { status: 400, message: 'GitHub rejected the stored token; connect GitHub again' };
+		case 403:
+		case 404:
+			return { status: 403, message: `GitHub denied access: ${message}` };
+		case 409:
+		case 422:
+			return { status: 409, message: `GitHub rejected the request: ${message}` };
+		default:
+			return { status: 502, message: `GitHub request failed: ${message}` };
+	}
+}
+
+/**
+ * Remove a repository whose first commit failed so the export can be retried under the
+ * same name. Tokens without the `delete_repo` scope cannot, so the project is linked to
+ * the repository instead and later changes go out as pull requests.
+ */
+async function discardRepository(
+	github: GitHubApiService,
+	project: Project,
+	link: GitHubProjectLink
+): Promise<void> {
+	try {
+		await github.deleteRepository(link.owner, link.repo);
+		return;
+	} catch (error) {
+		logger.warn(`Keeping ${link.owner}/${link.repo} after a failed export:`, error);
+	}
+	try {
+		await DatabaseService.updateProject(project.id, {
+			metadata: { ...project.metadata, github: link }
+		});
+	} catch (error) {
+		logger.error(`Failed to link project ${project.id} to ${link.owner}/${link.repo}:`, error);
+	}
+}
+
+/**
+ * Compare sandbox files with a GitHub tree by blob SHA. Files missing from the sandbox are
+ * deleted, except ones that were skipped or live in directories that are never collected.
+ */
+export function diffAgainstTree(
+	files: Map<string, Buffer>,
+	tree: GitHubTreeItem[],
+	skipped: string[] = []
+): GitHubFileDelta[] {
+	const remote = new Map(
+		tree.filter((item) => item.type === 'blob').map((item) => [item.path, item.sha])
+	);
+	const kept = new Set(skipped);
+	const changes: GitHubFileDelta[] = [];
+
+	for (const [path, content] of files) {
+		const sha = remote.get(path);
+		if (!sha) {
+			changes.push({ path, status: 'added' });
+		} else if (sha !== GitHubApiService.blobSha(content)) {
+			changes.push({ path, status: 'modified' });
+		}
+	}
+	for (const path of remote.keys()) {
+		const excluded = path.split('/').some((segment) => EXCLUDED_DIRECTORIES.includes(segment));
+		if (!files.has(path) && !kept.has(path) && !excluded) {
+			changes.push({ path, status: 'deleted' });
+		}
+	}
+
+	return changes.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/**
+ * Read the project's files from its sandbox. Inside a git repository the file list honours
+ * .gitignore; otherwise common dependency and build directories are left out.
+ */
+export async function collectSandboxFiles(
+	project: Pick<Project, 'sandboxId' | 'sandboxProvider'>
+): Promise<SandboxFiles> {
+	const repository = repositoryForProject(project);
+	if (!repository) {
+		throw new Error('Project has no sandbox');
+	}
+
+	const prune = EXCLUDED_DIRECTORIES.map((dir) => `-name ${shellQuote(dir)}`).join(' -o ');
+	// Each path is printed after `x ` when it is executable and `- ` otherwise
+	const script =
+		`{ if git rev-parse --is-inside-work-tree >/dev/null 2>&1; then ` +
+		`git -c core.quotepath=off ls-files --cached --others --exclude-standard; ` +
+		`else find . \\( ${prune} \\) -prune -o -type f -print | sed 's|^\\./||'; fi; } | ` +
+		`while IFS= read -r path; do if [ -x "$path" ]; then echo "x $path"; else echo "- $path"; fi; done`;
+
+	const listing = await sandboxManager.executeCommand(
+		repository.sandboxId,
+		`sh -c ${shellQuote(script)}`,
+		{ workingDir: repository.workingDir, timeout: 60_000, provider: repository.provider }
+	);
+	if (!listing.success) {
+		throw new Error(`Failed to list sandbox files: ${listing.error || listing.output}`);
+	}
+
+	const executables = new Set<string>();
+	const listed = listing.output
+		.split('\n')
+		.filter((line) => /^[x-] ./.test(line))
+		.map((line) => {
+			const path = line.slice(2);
+			if (line.startsWith('x')) executables.add(path);
+			return path;
+		});
+	const paths = [...new Set(listed)].sort();
+	const included = paths.slice(0, MAX_EXPORT_FILES);
+	const skipped = paths.slice(MAX_EXPORT_FILES);
+
+	const downloaded = await sandboxManager.downloadFiles(repository.sandboxId, included, {
+		baseDir: repository.workingDir,
+		provider: repository.provider
+	});
+
+	const files = new Map<string, Buffer>();
+	for (const path of included) {
+		const content = downloaded[path];
+		if (!content) {
+			// Listed but unreadable (removed meanwhile or a broken symlink)
+			continue;
+		}
+		if (content.length > MAX_FILE_SIZE) {
+			skipped.push(path);
+			continue;
+		}
+		files.set(path, content);
+	}
+
+	return { files, executables, skipped };
+}
+
+/**
+ * Pull request body generated from the changes and what the agent was asked to do,
+ * falling back to a plain file list when no model is available
+ */
+async function describeChanges(input: {
+	title: string;
+	changes: GitHubFileDelta[];
+	requests: string[];
+	patches: string[];
+}): Promise<string> {
+	const fileList = input.changes.map((change) => `- \`${change.path}\` (${change.status})`);
+	const footer = `\n\n---\n_Opened from Aura IDE._`;
+
+	if (!env.OPENAI_API_KEY) {
+		return `## Changes\n\n${fileList.join('\n')}${footer}`;
+	}
+
+	try {
+		const openai = createOpenAI({ apiKey: env.OPENAI_API_KEY });
+		const { text } = await generateText({
+			model: openai(DESCRIPTION_MODEL),
+			system:
+				'You write GitHub pull request descriptions for changes made by a coding agent. ' +
+				'Start with a short summary paragraph, then a "## Changes" section with one bullet ' +
+				'per logical change. Be factual, only describe what the diff shows, and do not ' +
+				'repeat the title.',
+			prompt: [
+				`Title: ${input.title}`,
+				input.requests.length > 0
+					? `Requests the agent worked on (newest first):\n${input.requests.map((r) => `- ${r}`).join('\n')}`
+					: '',
+				`Changed files:\n${fileList.join('\n')}`,
+				input.patches.length > 0 ? `Diffs:\n${input.patches.join('\n')}` : ''
+			]
+				.filter(Boolean)
+				.join('\n\n')
+		});
+		return `${text.trim()}${footer}`;
+	} catch (error) {
+		logger.warn('Failed to generate pull request description:', error);
+		return `## Changes\n\n${fileList.join('\n')}${footer}`;
+	}
+}
+
+/**
+ * Unified diffs of the changed text files, truncated to keep the prompt small
+ */
+async function buildPatches(
+	github: GitHubApiService,
+	link: GitHubProjectLink,
+	tree: GitHubTreeItem[],
+	files: Map<string, Buffer>,
+	changes: GitHubFileDelta[]
+): Promise<string[]> {
+	const shas = new Map(tree.map((item) => [item.path, item.sha]));
+	const patches: string[] = [];
+
+	for (const change of changes.slice(0, MAX_DESCRIBED_PATCHES)) {
+		try {
+			const sha = shas.get(change.path);
+			const before =
+				change.status === 'added' || !sha
+					? ''
+					: (await github.getBlob(link.owner, link.repo, sha)).toString('utf-8');
+			const after =
+				change.status === 'deleted' ? '' : (files.get(change.path)?.toString('utf-8') ?? '');
+			if (before.includes('\0') || after.includes('\0')) {
+				continue; // Binary
+			}
+
+			const patch = createTwoFilesPatch(change.path, change.path, before, after, '', '', {
+				context: 2
+			});
+			patches.push(
+				patch.length > MAX_PATCH_LENGTH ? `${patch.slice(0, MAX_PATCH_LENGTH)}\n[truncated]` : patch
+			);
+		} catch (error) {
+			logger.debug(`Skipping patch for ${change.path}:`, error);
+		}
+	}
+
+	return patches;
+}
+
+async function recentAgentRequests(projectId: string, userId: string): Promise<string[]> {
+	try {
+		const messages = await DatabaseService.getRecentMessagesForProject(projectId, userId, 50);
+		return messages
+			.filter((message) => message.role === 'user' && message.content.trim())
+			.slice(0, MAX_AGENT_REQUESTS)
+			.map((message) => message.content.trim().replace(/\s+/g, ' ').slice(0, 300));
+	} catch (error) {
+		logger.warn(`Failed to load agent requests for project ${projectId}:`, error);
+		return [];
+	}
+}
+
+function defaultTitle(changes: GitHubFileDelta[]): string {
+	if (changes.length === 1) {
+		const [change] = changes;
+		const verb = { added: 'Add', modified: 'Update', deleted: 'Remove' }[change.status];
+		return `${verb} ${change.path}`;
+	}
+	return `Update ${changes.length} files from Aura IDE`;
+}
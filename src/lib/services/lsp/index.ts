@@ -0,0 +1,10 @@
+/**
+ * Language Server Exports
+ */
+export { BRIDGE_SCRIPT, ensureLspBridge } from './lsp-bridge';
+export type { LspBridgeEndpoint } from './lsp-bridge';
+export { encodeLspMessage, LspMessageReader } from './lsp-framing';
+export { isLanguageServerId, LANGUAGE_SERVERS, languageServerForPath } from './lsp-servers';
+export type { LanguageServerDefinition } from './lsp-servers';
+export { LSP_SERVER_EXITED, LspSession, openLspSession, pathToFileUri } from './lsp-session';
+export type { LspSocket } from './lsp-session';
@@ -0,0 +1,149 @@
+/**
+ * In-sandbox bridge for language servers.
+ *
+ * Sandbox providers only expose one-shot commands and forwarded HTTP ports, so a
+ * small dependency-free Node script runs next to each language server. Every
+ * editor connection gets a server of its own, spawned when it attaches to
+ * `GET /connections/:id/stream` (stdout is streamed back) and stopped when that
+ * stream closes; framed messages for stdin go to `POST /connections/:id/send`.
+ * At most MAX_CONNECTIONS servers run at once, further connections get a 429.
+ * Requests without the bridge's secret are refused (see `sandbox-bridge`), and
+ * the bridge exits after sitting idle.
+ */
+
+import type { Project } from '$lib/types';
+import {
+	BRIDGE_AUTH_SCRIPT,
+	ensureSandboxBridge,
+	type SandboxBridgeEndpoint
+} from '../sandbox/sandbox-bridge';
+import type { LanguageServerDefinition } from './lsp-servers';
+
+const BRIDGE_DIR = '/tmp/aura-lsp';
+const BRIDGE_PATH = `${BRIDGE_DIR}/bridge.cjs`;
+
+/** Language servers of one kind that may run in a sandbox at once, one per editor connection */
+export const LSP_MAX_CONNECTIONS = 6;
+
+export const BRIDGE_SCRIPT = `'use strict';
+const http = require('http');
+const { spawn } = require('child_process');
+${BRIDGE_AUTH_SCRIPT}
+
+const port = Number(process.argv[2]);
+const command = process.argv[3];
+const IDLE_EXIT_MS = 10 * 60 * 1000;
+const MAX_CONNECTIONS = ${LSP_MAX_CONNECTIONS};
+const CONNECTION_PATH = /^\\/connections\\/([\\w-]{1,128})\\/(stream|send)$/;
+
+const children = new Map();
+let idleTimer = null;
+
+function armIdleExit() {
+	clearTimeout(idleTimer);
+	if (children.size === 0) idleTimer = setTimeout(() => process.exit(0), IDLE_EXIT_MS);
+}
+
+function stopChild(id) {
+	const proc = children.get(id);
+	if (!proc) return;
+	children.delete(id);
+	try {
+		process.kill(-proc.pid, 'SIGTERM');
+	} catch {
+		proc.kill('SIGTERM');
+	}
+}
+
+http
+	.createServer((req, res) => {
+		if (!authorized(req)) {
+			res.statusCode = 401;
+			res.end();
+			return;
+		}
+
+		if (req.url === '/health') {
+			res.setHeader('content-type', 'application/json');
+			res.end(JSON.stringify({ root: process.cwd(), command, connections: children.size }));
+			return;
+		}
+
+		const match = CONNECTION_PATH.exec(req.url);
+		if (!match) {
+			res.statusCode = 404;
+			res.end();
+			return;
+		}
+		const id = match[1];
+
+		if (req.method === 'GET' && match[2] === 'stream') {
+			if (children.has(id)) {
+				res.statusCode = 409;
+				res.end();
+				return;
+			}
+			if (children.size >= MAX_CONNECTIONS) {
+				res.statusCode = 429;
+				res.end();
+				return;
+			}
+			clearTimeout(idleTimer);
+			const proc = spawn('sh', ['-c', command], { detached: true, stdio: ['pipe', 'pipe', 'ignore'] });
+			children.set(id, proc);
+			res.writeHead(200, {
+				'content-type': 'application/octet-stream',
+				'cache-control': 'no-cache',
+				'x-accel-buffering': 'no'
+			});
+			res.flushHeaders();
+			proc.stdin.on('error', () => {});
+			proc.stdout.on('data', (chunk) => res.write(chunk));
+			proc.on('exit', () => {
+				if (children.get(id) === proc) children.delete(id);
+				res.end();
+				armIdleExit();
+			});
+			proc.on('error', () => res.end());
+			res.on('close', () => {
+				if (children.get(id) === proc) stopChild(id);
+				armIdleExit();
+			});
+			return;
+		}
+
+		if (req.method === 'POST' && match[2] === 'send') {
+			const target = children.get(id);
+			if (!target) {
+				res.statusCode = 409;
+				res.end();
+				return;
+			}
+			req.on('data', (chunk) => target.stdin.write(chunk));
+			req.on('end', () => res.end());
+			return;
+		}
+
+		res.statusCode = 405;
+		res.end();
+	})
+	.listen(port, BRIDGE_HOST, armIdleExit);
+`;
+
+/** Where a language server's bridge can be reached; `root` is the workspace it runs in */
+export type LspBridgeEndpoint = SandboxBridgeEndpoint;
+
+/** Make sure the bridge for a language server is listening and return how to reach it */
+export function ensureLspBridge(
+	project: Pick<Project, 'sandboxId' | 'sandboxProvider'>,
+	server: LanguageServerDefinition
+): Promise<LspBridgeEndpoint> {
+	return ensureSandboxBridge(project, {
+		name: `${server.name} language server bridge`,
+		port: server.port,
+		path: BRIDGE_PATH,
+		script: BRIDGE_SCRIPT,
+		args: [server.command],
+		log: `${BRIDGE_DIR}/${server.id}.log`
+	});
+}
@@ -0,0 +1,51 @@
+/**
+ * LSP base protocol framing: `Content-Length` headers followed by a JSON body.
+ * The Debug Adapter Protocol frames its messages the same way.
+ */
+
+import type { JsonRpcMessage } from '$lib/types/lsp';
+
+const HEADER_SEPARATOR = Buffer.from('\r\n\r\n');
+
+export function encodeLspMessage(message: JsonRpcMessage | object): Buffer {
+	const body = Buffer.from(JSON.stringify(message), 'utf-8');
+	return Buffer.concat([Buffer.from(`Content-Length: ${body.length}\r\n\r\n`, 'ascii'), body]);
+}
+
+/** Incrementally splits a byte stream from a language server into JSON-RPC messages */
+export class LspMessageReader<T = JsonRpcMessage> {
+	private buffer = Buffer.alloc(0);
+
+	push(chunk: Buffer | Uint8Array): T[] {
+		this.buffer = Buffer.concat([this.buffer, chunk]);
+		const messages: T[] = [];
+
+		for (;;) {
+			const headerEnd = this.buffer.indexOf(HEADER_SEPARATOR);
+			if (headerEnd === -1) break;
+
+			const headers = this.buffer.subarray(0, headerEnd).toString('ascii');
+			const length = /content-length:\s*(\d+)/i.exec(headers)?.[1];
+			if (length === undefined) {
+				// Not a valid frame (e.g. stray log output) - skip past the header block
+				this.buffer = this.buffer.subarray(headerEnd + HEADER_SEPARATOR.length);
+				continue;
+			}
+
+			const bodyStart = headerEnd + HEADER_SEPARATOR.length;
+			const bodyEnd = bodyStart + Number(length);
+			if (this.buffer.length < bodyEnd) break;
+
+			const body = this.buffer.subarray(bodyStart, bodyEnd).toString('utf-8');
+			this.buffer = this.buffer.subarray(bodyEnd);
+
+			try {
+				messages.push(JSON.parse(body) as T);
+			} catch {
+				console.warn('Dropping malformed message');
+			}
+		}
+
+		return messages;
+	}
+}
@@ -0,0 +1,70 @@
+/**
+ * Language servers the editor can start inside a sandbox.
+ * Shared by the bridge (which launches them) and the editor (which picks one per file).
+ */
+
+import type { LspServerId } from '$lib/types/lsp';
+
+export interface LanguageServerDefinition {
+	id: LspServerId;
+	name: string;
+	/** Shell command run in the workspace; the server must speak LSP over stdio */
+	command: string;
+	/** Port the in-sandbox bridge for this server listens on */
+	port: number;
+	/** File extension → LSP languageId */
+	languages: Record<string, string>;
+}
+
+export const LANGUAGE_SERVERS: Record<LspServerId, LanguageServerDefinition> = {
+	typescript: {
+		id: 'typescript',
+		name: 'TypeScript',
+		command:
+			'npx --yes -p typescript -p typescript-language-server typescript-language-server --stdio',
+		port: 7611,
+		languages: {
+			ts: 'typescript',
+			tsx: 'typescriptreact',
+			mts: 'typescript',
+			cts: 'typescript',
+			js: 'javascript',
+			jsx: 'javascriptreact',
+			mjs: 'javascript',
+			cjs: 'javascript'
+		}
+	},
+	python: {
+		id: 'python',
+		name: 'Pyright',
+		command: 'npx --yes -p pyright pyright-langserver --stdio',
+		port: 7612,
+		languages: { py: 'python', pyi: 'python' }
+	},
+	svelte: {
+		id: 'svelte',
+		name: 'Svelte',
+		command: 'npx --yes -p svelte-language-server svelteserver --stdio',
+		port: 7613,
+		languages: { svelte: 'svelte' }
+	}
+};
+
+export function isLanguageServerId(value: string): value is LspServerId {
+	return Object.hasOwn(LANGUAGE_SERVERS, value);
+}
+
+/** Language server and languageId for a file, or null when no server handles it */
+export function languageServerForPath(
+	path: string
+): { server: LanguageServerDefinition; languageId: string } | null {
+	const name = path.split('/').pop() ?? '';
+	if (!name.includes('.')) return null;
+
+	const ext = name.split('.').pop()!.toLowerCase();
+	for (const server of Object.values(LANGUAGE_SERVERS)) {
+		const languageId = server.languages[ext];
+		if (languageId) return { server, languageId };
+	}
+	return null;
+}
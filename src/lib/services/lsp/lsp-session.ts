@@ -0,0 +1,136 @@
+/**
+ * One editor connection to a language server running behind the in-sandbox bridge.
+ * Messages from the editor arrive as JSON text and are framed for the server's stdin;
+ * the server's stdout is split back into messages and relayed as JSON text.
+ */
+
+import type { Project } from '$lib/types';
+import { LSP_READY_METHOD, type JsonRpcMessage, type LspReadyParams } from '$lib/types/lsp';
+import { ensureLspBridge, LSP_MAX_CONNECTIONS, type LspBridgeEndpoint } from './lsp-bridge';
+import { encodeLspMessage, LspMessageReader } from './lsp-framing';
+import type { LanguageServerDefinition } from './lsp-servers';
+
+/** The parts of a WebSocket the session needs */
+export interface LspSocket {
+	send(data: string): void;
+	close(code?: number, reason?: string): void;
+}
+
+/** Close code sent when the language server process goes away */
+export const LSP_SERVER_EXITED = 4000;
+
+export class LspSession {
+	private reader = new LspMessageReader();
+	private abort = new AbortController();
+	private sendQueue: Promise<void> = Promise.resolve();
+	private closed = false;
+	/** The bridge runs a separate server for every connection */
+	private connection = `lsp-${crypto.randomUUID()}`;
+
+	constructor(
+		private endpoint: LspBridgeEndpoint,
+		private server: LanguageServerDefinition,
+		private socket: LspSocket
+	) {}
+
+	async start(): Promise<void> {
+		const response = await fetch(`${this.endpoint.url}/connections/${this.connection}/stream`, {
+			headers: this.endpoint.headers,
+			signal: this.abort.signal
+		});
+		if (response.status === 429) {
+			throw new Error(
+				`${this.server.name} is already running for ${LSP_MAX_CONNECTIONS} editors in this sandbox`
+			);
+		}
+		if (!response.ok || !response.body) {
+			throw new Error(`Language server bridge responded with ${response.status}`);
+		}
+
+		const ready: JsonRpcMessage = {
+			jsonrpc: '2.0',
+			method: LSP_READY_METHOD,
+			params: {
+				server: this.server.id,
+				rootUri: pathToFileUri(this.endpoint.root)
+			} satisfies LspReadyParams
+		};
+		this.socket.send(JSON.stringify(ready));
+
+		void this.pump(response.body);
+	}
+
+	/** Forward a message from the editor to the language server */
+	send(data: string): void {
+		if (this.closed) return;
+
+		let message: JsonRpcMessage;
+		try {
+			message = JSON.parse(data);
+		} catch {
+			return;
+		}
+		if (!message || typeof message !== 'object' || message.jsonrpc !== '2.0') return;
+
+		const frame = encodeLspMessage(message);
+		// Requests are posted one at a time so the server sees them in order
+		this.sendQueue = this.sendQueue
+			.then(async () => {
+				if (this.closed) return;
+				const response = await fetch(`${this.endpoint.url}/connections/${this.connection}/send`, {
+					method: 'POST',
+					headers: { ...this.endpoint.headers, 'content-type': 'application/octet-stream' },
+					body: new Uint8Array(frame)
+				});
+				if (!response.ok) {
+					throw new Error(`Language server bridge responded with ${response.status}`);
+				}
+			})
+			.catch((error) => {
+				console.error(`Failed to forward message to the ${this.server.name} server:`, error);
+			});
+	}
+
+	dispose(): void {
+		this.closed = true;
+		this.abort.abort();
+	}
+
+	private async pump(body: ReadableStream<Uint8Array>): Promise<void> {
+		try {
+			const reader = body.getReader();
+			for (;;) {
+				const { done, value } = await reader.read();
+				if (done) break;
+				for (const message of this.reader.push(value)) {
+					this.socket.send(JSON.stringify(message));
+				}
+			}
+		} catch (error) {
+			if (!this.closed) {
+				console.error(`Lost the ${this.server.name} language server stream:`, error);
+			}
+		}
+
+		if (!this.closed) {
+			this.closed = true;
+			this.socket.close(LSP_SERVER_EXITED, `${this.server.name} language server stopped`);
+		}
+	}
+}
+
+/** Start (or reuse) the bridge for a server and attach a new session to it */
+export async function openLspSession(
+	project: Pick<Project, 'sandboxId' | 'sandboxProvider'>,
+	server: LanguageServerDefinition,
+	socket: LspSocket
+): Promise<LspSession> {
+	const endpoint = await ensureLspBridge(project, server);
+	const session = new LspSession(endpoint, server, socket);
+	await session.start();
+	return session;
+}
+
+export function pathToFileUri(path: string): string {
+	return `file://${path.split('/').map(encodeURIComponent).join('/')}`;
+}
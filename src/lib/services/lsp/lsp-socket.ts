@@ -0,0 +1,63 @@
+/**
+ * WebSocket route for editor connections to a project's language servers
+ * (/api/projects/[id]/lsp/[server])
+ */
+
+import type { RawData } from 'ws';
+import { authorizeProject } from '../access';
+import type { SocketRouteHandler } from '../websocket/socket-server';
+import { isLanguageServerId, LANGUAGE_SERVERS } from './lsp-servers';
+import { openLspSession, type LspSession } from './lsp-session';
+
+export const handleLspSocket: SocketRouteHandler = async ({ params, user }) => {
+	if (!isLanguageServerId(params.server)) {
+		return { error: 'Unknown language server', status: 404 };
+	}
+
+	const access = await authorizeProject(params.id, user.id, 'view');
+	if ('error' in access) {
+		return access;
+	}
+	const { project } = access;
+	if (!project.sandboxId) {
+		return { error: 'Project has no sandbox', status: 409 };
+	}
+
+	const server = LANGUAGE_SERVERS[params.server];
+
+	return {
+		accept: async (socket) => {
+			let session: LspSession | null = null;
+			let closed = false;
+			const pending: string[] = [];
+
+			socket.on('message', (data: RawData) => {
+				const text = data.toString();
+				if (session) session.send(text);
+				else pending.push(text);
+			});
+			socket.on('close', () => {
+				closed = true;
+				session?.dispose();
+			});
+
+			try {
+				session = await openLspSession(project, server, socket);
+			} catch (error) {
+				console.error(`Failed to start the ${server.name} language server:`, error);
+				const reason = error instanceof Error ? error.message : 'Language server failed to start';
+				// Close reasons are limited to 123 bytes
+				socket.close(1011, reason.slice(0, 120));
+				return;
+			}
+
+			if (closed) {
+				session.dispose();
+				return;
+			}
+			for (const message of pending.splice(0)) {
+				session.send(message);
+			}
+		}
+	};
+};
@@ -0,0 +1,161 @@
+/**
+ * Language Server Bridge Tests
+ */
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('$env/dynamic/private', () => ({ env: {} }));
+vi.mock('../sandbox/sandbox-manager', () => ({ sandboxManager: {} }));
+
+const { encodeLspMessage, LspMessageReader } = await import('./lsp-framing');
+const { LANGUAGE_SERVERS, languageServerForPath } = await import('./lsp-servers');
+const { LSP_SERVER_EXITED, LspSession, pathToFileUri } = await import('./lsp-session');
+
+describe('LSP framing', () => {
+	it('should round-trip messages split across chunks', () => {
+		const first = encodeLspMessage({ jsonrpc: '2.0', id: 1, result: { label: 'héllo → wörld' } });
+		const second = encodeLspMessage({ jsonrpc: '2.0', method: 'initialized', params: {} });
+		const stream = Buffer.concat([first, second]);
+
+		const reader = new LspMessageReader();
+		expect(reader.push(stream.subarray(0, 10))).toEqual([]);
+		expect(reader.push(stream.subarray(10, first.length + 5))).toEqual([
+			{ jsonrpc: '2.0', id: 1, result: { label: 'héllo → wörld' } }
+		]);
+		expect(reader.push(stream.subarray(first.length + 5))).toEqual([
+			{ jsonrpc: '2.0', method: 'initialized', params: {} }
+		]);
+	});
+
+	it('should count the body length in bytes', () => {
+		const frame = encodeLspMessage({ jsonrpc: '2.0', method: 'x', params: 'é' });
+		const [header, body] = frame.toString('utf-8').split('\r\n\r\n');
+
+		expect(header).toBe(`Content-Length: ${Buffer.byteLength(body)}`);
+	});
+});
+
+describe('languageServerForPath', () => {
+	it('should pick the server and languageId by extension', () => {
+		expect(languageServerForPath('src/App.tsx')).toEqual({
+			server: LANGUAGE_SERVERS.typescript,
+			languageId: 'typescriptreact'
+		});
+		expect(languageServerForPath('app/main.py')?.server.id).toBe('python');
+		expect(languageServerForPath('src/routes/+page.svelte')?.languageId).toBe('svelte');
+	});
+
+	it('should return null for files no server handles', () => {
+		expect(languageServerForPath('README.md')).toBeNull();
+		expect(languageServerForPath('Makefile')).toBeNull();
+	});
+});
+
+describe('LspSession', () => {
+	const endpoint = {
+		url: 'http://sandbox:7611',
+		headers: { 'x-token': 't' },
+		root: '/home/my app'
+	};
+
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	it('should announce the workspace and relay server output as JSON messages', async () => {
+		const frames = [
+			encodeLspMessage({ jsonrpc: '2.0', id: 1, result: { capabilities: {} } }),
+			encodeLspMessage({ jsonrpc: '2.0', method: 'window/logMessage', params: { message: 'ok' } })
+		];
+		const fetchMock = vi.fn().mockResolvedValue(
+			new Response(
+				new ReadableStream({
+					start(controller) {
+						for (const frame of frames) controller.enqueue(new Uint8Array(frame));
+						controller.close();
+					}
+				})
+			)
+		);
+		vi.stubGlobal('fetch', fetchMock);
+
+		const sent: string[] = [];
+		const close = vi.fn();
+		const session = new LspSession(endpoint, LANGUAGE_SERVERS.typescript, {
+			send: (data) => sent.push(data),
+			close
+		});
+		await session.start();
+		await vi.waitFor(() => expect(close).toHaveBeenCalled());
+
+		expect(fetchMock.mock.calls[0][0]).toMatch(
+			/^http:\/\/sandbox:7611\/connections\/lsp-[\w-]+\/stream$/
+		);
+		expect(sent.map((data) => JSON.parse(data))).toEqual([
+			{
+				jsonrpc: '2.0',
+				method: 'aura/ready',
+				params: { server: 'typescript', rootUri: 'file:///home/my%20app' }
+			},
+			{ jsonrpc: '2.0', id: 1, result: { capabilities: {} } },
+			{ jsonrpc: '2.0', method: 'window/logMessage', params: { message: 'ok' } }
+		]);
+		expect(close).toHaveBeenCalledWith(LSP_SERVER_EXITED, 'TypeScript language server stopped');
+	});
+
+	it('should frame editor messages for the server in order and drop invalid ones', async () => {
+		const fetchMock = vi.fn().mockResolvedValue(new Response(null, { status: 200 }));
+		vi.stubGlobal('fetch', fetchMock);
+
+		const session = new LspSession(endpoint, LANGUAGE_SERVERS.typescript, {
+			send: () => {},
+			close: () => {}
+		});
+		session.send('not json');
+		session.send(JSON.stringify({ id: 1 }));
+		session.send(JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'initialize', params: {} }));
+		session.send(JSON.stringify({ jsonrpc: '2.0', method: 'initialized', params: {} }));
+		await vi.waitFor(() => expect(fetchMock).toHaveBeenCalledTimes(2));
+
+		const bodies = fetchMock.mock.calls.map(([url, init]) => {
+			expect(url).toMatch(/^http:\/\/sandbox:7611\/connections\/lsp-[\w-]+\/send$/);
+			expect(init.headers['x-token']).toBe('t');
+			return new LspMessageReader().push(Buffer.from(init.body))[0];
+		});
+		expect(bodies.map((message) => message.method)).toEqual(['initialize', 'initialized']);
+	});
+
+	it('should attach every session to a server of its own', async () => {
+		const fetchMock = vi
+			.fn()
+			.mockImplementation(() => Promise.resolve(new Response(new ReadableStream())));
+		vi.stubGlobal('fetch', fetchMock);
+
+		for (let i = 0; i < 2; i++) {
+			await new LspSession(endpoint, LANGUAGE_SERVERS.typescript, {
+				send: () => {},
+				close: () => {}
+			}).start();
+		}
+
+		const [first, second] = fetchMock.mock.calls.map(([url]) => url);
+		expect(first).not.toBe(second);
+	});
+
+	it('should explain when the sandbox runs as many servers as it may', async () => {
+		vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response(null, { status: 429 })));
+		const close = vi.fn();
+
+		await expect(
+			new LspSession(endpoint, LANGUAGE_SERVERS.typescript, { send: () => {}, close }).start()
+		).rejects.toThrow('TypeScript is already running for 6 editors in this sandbox');
+		expect(close).not.toHaveBeenCalled();
+	});
+});
+
+describe('pathToFileUri', () => {
+	it('should percent-encode path segments', () => {
+		expect(pathToFileUri('/home/daytona')).toBe('file:///home/daytona');
+		expect(pathToFileUri('/tmp/a b#c')).toBe('file:///tmp/a%20b%23c');
+	});
+});
@@ -0,0 +1,349 @@
+/**
+ * Project Configuration Files
+ * Works out the config files a new project needs for the options picked in the
+ * setup wizard, and the packages that have to be installed for them
+ */
+
+import type { ProjectConfiguration } from '../../types/index.js';
+import type { ProjectFile } from '../project-initialization.service.js';
+
+export type ConfigurationStepId =
+	| 'typescript'
+	| 'eslint'
+	| 'prettier'
+	| 'tailwindcss'
+	| 'dev-dependencies'
+	| 'dependencies'
+	| 'post-create';
+
+export interface ConfigurationStep {
+	id: ConfigurationStepId;
+	label: string;
+	status: 'pending' | 'running' | 'done' | 'skipped' | 'failed';
+	message?: string;
+}
+
+export interface ConfigurationPlan {
+	/** Template files with config files added or patched */
+	files: ProjectFile[];
+	steps: ConfigurationStep[];
+	devDependencies: string[];
+	dependencies: string[];
+	/** Shell commands to run after the packages are installed */
+	commands: string[];
+}
+
+const ESLINT_CONFIG = /^(eslint\.config\.[cm]?[jt]s|\.eslintrc(\.(c?js|json|ya?ml))?)$/;
+const PRETTIER_CONFIG =
+	/^(\.prettierrc(\.(json5?|ya?ml|[cm]?js|toml))?|prettier\.config\.[cm]?[jt]s)$/;
+const POSTCSS_CONFIG = /^(postcss\.config\.[cm]?[jt]s|\.postcssrc(\.json)?)$/;
+const STYLESHEETS = [
+	'src/index.css',
+	'src/app.css',
+	'src/styles.css',
+	'src/style.css',
+	'src/styles/global.css',
+	'src/styles/globals.css',
+	'src/app/globals.css',
+	'app/globals.css',
+	'styles/globals.css',
+	'assets/css/main.css'
+];
+const TAILWIND_IMPORT = '@import "tailwindcss";';
+
+/** npm package names, optionally with a version or range: `zod`, `@scope/pkg@^1.2` */
+const PACKAGE_SPEC = /^(@[a-z0-9][a-z0-9._-]*\/)?[a-z0-9][a-z0-9._-]*(@[a-z0-9.^~<>=*_-]+)?$/i;
+
+const PRETTIER_IGNORE = [
+	'node_modules',
+	'dist',
+	'build',
+	'.next',
+	'.svelte-kit',
+	'package-lock.json',
+	'pnpm-lock.yaml',
+	'yarn.lock',
+	'bun.lock',
+	'bun.lockb'
+];
+
+interface PackageJson {
+	scripts?: Record<string, string>;
+	dependencies?: Record<string, string>;
+	devDependencies?: Record<string, string>;
+	prettier?: unknown;
+	[key: string]: unknown;
+}
+
+export function isValidPackageSpec(spec: string): boolean {
+	return spec.length <= 214 && PACKAGE_SPEC.test(spec);
+}
+
+/** Package name without its version: `@scope/pkg@^1` -> `@scope/pkg` */
+export function packageName(spec: string): string {
+	const at = spec.indexOf('@', 1);
+	return at === -1 ? spec : spec.slice(0, at);
+}
+
+// Install verb and dev dependency flag of each supported package manager
+const INSTALL_ARGUMENTS: Record<ProjectConfiguration['packageManager'], [string, string]> = {
+	npm: ['install', '--save-dev'],
+	yarn: ['add', '--dev'],
+	pnpm: ['add', '--save-dev'],
+	bun: ['add', '--dev']
+};
+
+/**
+ * The command that adds packages with the chosen package manager. The manager ends up in a
+ * shell command, so anything but a supported one is rejected.
+ */
+export function installCommand(
+	packageManager: ProjectConfiguration['packageManager'],
+	packages: string[],
+	dev: boolean
+): string {
+	if (!Object.hasOwn(INSTALL_ARGUMENTS, packageManager)) {
+		throw new Error(`Unsupported package manager: ${String(packageManager)}`);
+	}
+	const [verb, devFlag] = INSTALL_ARGUMENTS[packageManager];
+	return [packageManager, verb, ...(dev ? [devFlag] : []), ...packages].join(' ');
+}
+
+function tsconfigFor(framework: string): object {
+	if (/node|express/.test(framework)) {
+		return {
+			compilerOptions: {
+				target: 'ES2022',
+				module: 'NodeNext',
+				moduleResolution: 'NodeNext',
+				strict: true,
+				esModuleInterop: true,
+				skipLibCheck: true,
+				outDir: 'dist'
+			},
+			include: ['src']
+		};
+	}
+
+	const jsx = /react|next/.test(framework) ? { jsx: 'react-jsx' } : {};
+	return {
+		compilerOptions: {
+			target: 'ES2022',
+			lib: ['ES2022', 'DOM', 'DOM.Iterable'],
+			module: 'ESNext',
+			moduleResolution: 'Bundler',
+			strict: true,
+			esModuleInterop: true,
+			skipLibCheck: true,
+			resolveJsonModule: true,
+			isolatedModules: true,
+			noEmit: true,
+			...jsx
+		},
+		include: ['src']
+	};
+}
+
+function eslintConfig(typescript: boolean): string {
+	return [
+		"import js from '@eslint/js';",
+		"import globals from 'globals';",
+		...(typescript ? ["import tseslint from 'typescript-eslint';"] : []),
+		'',
+		'export default [',
+		"\t{ ignores: ['dist', 'build', '.next', '.svelte-kit', 'node_modules'] },",
+		'\tjs.configs.recommended,',
+		...(typescript ? ['\t...tseslint.configs.recommended,'] : []),
+		'\t{ languageOptions: { globals: { ...globals.browser, ...globals.node } } }',
+		'];',
+		''
+	].join('\n');
+}
+
+/**
+ * Plan the configuration of a freshly downloaded template. Existing config files
+ * are left alone; only what is missing is added.
+ */
+export function planConfiguration(
+	templateFiles: ProjectFile[],
+	configuration: ProjectConfiguration,
+	framework: string
+): ConfigurationPlan {
+	const files = templateFiles.map((file) => ({ ...file }));
+	const steps: ConfigurationStep[] = [];
+	const devDependencies: string[] = [];
+	const rootFiles = new Set(files.map((file) => file.path).filter((path) => !path.includes('/')));
+	const find = (path: string) => files.find((file) => file.path === path);
+	const write = (path: string, content: string) => {
+		const existing = find(path);
+		if (existing) {
+			existing.content = content;
+			existing.size = content.length;
+		} else {
+			files.push({ path, content, size: content.length, sha: '' });
+			rootFiles.add(path);
+		}
+	};
+	const hasRootFile = (pattern: RegExp) => [...rootFiles].some((path) => pattern.test(path));
+	const step = (id: ConfigurationStepId, label: string, done: boolean, message: string) =>
+		steps.push({ id, label, status: done ? 'done' : 'skipped', message });
+
+	const packageFile = find('package.json');
+	let pkg: PackageJson | null = null;
+	try {
+		pkg = packageFile ? (JSON.parse(packageFile.content) as PackageJson) : null;
+	} catch {
+		pkg = null;
+	}
+	const installed = new Set([
+		...Object.keys(pkg?.dependencies ?? {}),
+		...Object.keys(pkg?.devDependencies ?? {})
+	]);
+	const needs = (...packages: string[]) => {
+		for (const name of packages) {
+			if (!installed.has(name) && !devDependencies.includes(name)) devDependencies.push(name);
+		}
+	};
+	const scripts: Record<string, string> = {};
+	const addScript = (name: string, command: string) => {
+		if (pkg && !pkg.scripts?.[name]) scripts[name] = command;
+	};
+	const noPackage = 'No package.json in the template';
+
+	// TypeScript
+	const typescript = configuration.typescript || rootFiles.has('tsconfig.json');
+	if (!configuration.typescript) {
+		step('typescript', 'TypeScript', false, 'Not requested');
+	} else if (!pkg) {
+		step('typescript', 'TypeScript', false, noPackage);
+	} else if (rootFiles.has('tsconfig.json') || rootFiles.has('jsconfig.json')) {
+		needs('typescript');
+		step('typescript', 'TypeScript', true, 'Kept the template tsconfig');
+	} else {
+		write('tsconfig.json', `${JSON.stringify(tsconfigFor(framework), null, 2)}\n`);
+		needs('typescript');
+		if (!pkg.scripts?.check) addScript('typecheck', 'tsc --noEmit');
+		step('typescript', 'TypeScript', true, 'Added tsconfig.json');
+	}
+
+	// ESLint
+	if (!configuration.eslint) {
+		step('eslint', 'ESLint', false, 'Not requested');
+	} else if (!pkg) {
+		step('eslint', 'ESLint', false, noPackage);
+	} else if (hasRootFile(ESLINT_CONFIG)) {
+		needs('eslint');
+		addScript('lint', 'eslint .');
+		step('eslint', 'ESLint', true, 'Kept the template ESLint config');
+	} else {
+		write('eslint.config.mjs', eslintConfig(typescript));
+		needs('eslint', '@eslint/js', 'globals', ...(typescript ? ['typescript-eslint'] : []));
+		addScript('lint', 'eslint .');
+		step('eslint', 'ESLint', true, 'Added eslint.config.mjs');
+	}
+
+	// Prettier
+	if (!configuration.prettier) {
+		step('prettier', 'Prettier', false, 'Not requested');
+	} else if (!pkg) {
+		step('prettier', 'Prettier', false, noPackage);
+	} else if (hasRootFile(PRETTIER_CONFIG) || pkg.prettier) {
+		needs('prettier');
+		addScript('format', 'prettier --write .');
+		step('prettier', 'Prettier', true, 'Kept the template Prettier config');
+	} else {
+		const plugins = [
+			...(/svelte/.test(framework) ? ['prettier-plugin-svelte'] : []),
+			// The Tailwind plugin has to come last
+			...(configuration.tailwindcss ? ['prettier-plugin-tailwindcss'] : [])
+		];
+		const prettierConfig = {
+			singleQuote: true,
+			trailingComma: 'es5',
+			printWidth: 100,
+			...(plugins.length > 0 ? { plugins } : {})
+		};
+		write('.prettierrc', `${JSON.stringify(prettierConfig, null, 2)}\n`);
+		if (!rootFiles.has('.prettierignore'))
+			write('.prettierignore', `${PRETTIER_IGNORE.join('\n')}\n`);
+		needs('prettier', ...plugins);
+		addScript('format', 'prettier --write .');
+		step('prettier', 'Prettier', true, 'Added .prettierrc');
+	}
+
+	// Tailwind CSS, through PostCSS so it works with Vite, Next.js and Astro alike
+	if (!configuration.tailwindcss) {
+		step('tailwindcss', 'Tailwind CSS', false, 'Not requested');
+	} else if (!pkg) {
+		step('tailwindcss', 'Tailwind CSS', false, noPackage);
+	} else if (installed.has('tailwindcss')) {
+		step('tailwindcss', 'Tailwind CSS', false, 'Already set up by the template');
+	} else {
+		const notes: string[] = [];
+		if (hasRootFile(POSTCSS_CONFIG)) {
+			notes.push('add @tailwindcss/postcss to the existing PostCSS config');
+		} else {
+			write(
+				'postcss.config.mjs',
+				"export default {\n\tplugins: {\n\t\t'@tailwindcss/postcss': {}\n\t}\n};\n"
+			);
+		}
+
+		const stylesheet = STYLESHEETS.map(find).find((file) => file !== undefined);
+		if (stylesheet) {
+			if (!stylesheet.content.includes(TAILWIND_IMPORT)) {
+				write(stylesheet.path, `${TAILWIND_IMPORT}\n\n${stylesheet.content}`);
+			}
+		} else {
+			write('src/tailwind.css', `${TAILWIND_IMPORT}\n`);
+			notes.push('import src/tailwind.css from the app entry');
+		}
+
+		needs('tailwindcss', '@tailwindcss/postcss', 'postcss');
+		const target = stylesheet?.path ?? 'src/tailwind.css';
+		step(
+			'tailwindcss',
+			'Tailwind CSS',
+			true,
+			[`Imported Tailwind in ${target}`, ...notes].join('; ')
+		);
+	}
+
+	if (pkg && Object.keys(scripts).length > 0) {
+		pkg.scripts = { ...pkg.scripts, ...scripts };
+		const indent = packageFile!.content.includes('\n\t') ? '\t' : 2;
+		write('package.json', `${JSON.stringify(pkg, null, indent)}\n`);
+	}
+
+	steps.push({
+		id: 'dev-dependencies',
+		label: 'Install tooling',
+		status: devDependencies.length > 0 ? 'pending' : 'skipped',
+		message: devDependencies.length > 0 ? devDependencies.join(', ') : 'Nothing to install'
+	});
+
+	// Additional dependencies picked in the wizard
+	const requested = configuration.additionalDependencies ?? [];
+	const rejected = requested.filter((spec) => !isValidPackageSpec(spec));
+	const dependencies = requested.filter(
+		(spec) => isValidPackageSpec(spec) && !installed.has(packageName(spec))
+	);
+	const dependencyNotes = [
+		dependencies.join(', '),
+		rejected.length > 0 ? `ignored invalid names: ${rejected.join(', ')}` : ''
+	].filter(Boolean);
+	steps.push({
+		id: 'dependencies',
+		label: 'Install additional dependencies',
+		status: !pkg || dependencies.length === 0 ? 'skipped' : 'pending',
+		message: !pkg ? noPackage : dependencyNotes.join('; ') || 'Nothing to install'
+	});
+
+	return {
+		files,
+		steps,
+		devDependencies: pkg ? devDependencies : [],
+		dependencies: pkg ? dependencies : [],
+		commands: []
+	};
+}
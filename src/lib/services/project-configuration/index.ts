@@ -0,0 +1,17 @@
+/**
+ * Project Configuration Exports
+ */
+export {
+	installCommand,
+	isValidPackageSpec,
+	packageName,
+	planConfiguration,
+	type ConfigurationPlan,
+	type ConfigurationStep,
+	type ConfigurationStepId
+} from './config-files.js';
+export {
+	DEFAULT_CONFIGURATION,
+	ProjectConfigurationService,
+	projectConfigurationService
+} from './project-configuration.service.js';
@@ -0,0 +1,143 @@
+/**
+ * Project Configuration Service
+ * Applies the options picked in the project setup wizard: config files are added
+ * to the template before it is uploaded, packages are installed and post-create
+ * commands run once the sandbox exists
+ */
+
+import type { ProjectConfiguration } from '../../types/index.js';
+import type { SandboxProvider } from '../../types/sandbox.js';
+import { logger } from '../../utils/logger.js';
+import type { ProjectFile } from '../project-initialization.service.js';
+import {
+	installCommand,
+	planConfiguration,
+	type ConfigurationPlan,
+	type ConfigurationStep,
+	type ConfigurationStepId
+} from './config-files.js';
+
+export const DEFAULT_CONFIGURATION: ProjectConfiguration = {
+	typescript: false,
+	eslint: false,
+	prettier: false,
+	tailwindcss: false,
+	packageManager: 'npm',
+	additionalDependencies: []
+};
+
+const COMMAND_TIMEOUT = 300_000;
+
+export class ProjectConfigurationService {
+	/**
+	 * Add or patch the config files for the requested options. Post-create commands
+	 * (from saved templates) run after the packages are installed.
+	 */
+	prepare(
+		files: ProjectFile[],
+		configuration: Partial<ProjectConfiguration>,
+		framework: string,
+		postCreateCommands: string[] = []
+	): ConfigurationPlan {
+		const plan = planConfiguration(
+			files,
+			{ ...DEFAULT_CONFIGURATION, ...configuration },
+			framework
+		);
+		if (postCreateCommands.length > 0) {
+			plan.commands = [...postCreateCommands];
+			plan.steps.push({
+				id: 'post-create',
+				label: 'Run post-create commands',
+				status: 'pending',
+				message: postCreateCommands.join(' && ')
+			});
+		}
+		return plan;
+	}
+
+	/**
+	 * Install the packages the plan needs inside the sandbox, then run its post-create
+	 * commands. A failed step does not fail the project; it is marked failed and
+	 * reported. `onStep` is called with the steps every time one of them changes.
+	 */
+	async apply(
+		sandboxId: string,
+		plan: ConfigurationPlan,
+		packageManager: ProjectConfiguration['packageManager'],
+		onStep?: (steps: ConfigurationStep[]) => void,
+		provider: SandboxProvider = 'daytona'
+	): Promise<ConfigurationStep[]> {
+		const steps = plan.steps.map((step) => ({ ...step }));
+		const tasks: { id: ConfigurationStepId; commands: string[] }[] = [
+			{
+				id: 'dev-dependencies',
+				commands: plan.devDependencies.length
+					? [installCommand(packageManager, plan.devDependencies, true)]
+					: []
+			},
+			{
+				id: 'dependencies',
+				commands: plan.dependencies.length
+					? [installCommand(packageManager, plan.dependencies, false)]
+					: []
+			},
+			{ id: 'post-create', commands: plan.commands }
+		];
+		const run = await this.commandRunner(sandboxId, provider);
+
+		for (const { id, commands } of tasks) {
+			const step = steps.find((candidate) => candidate.id === id);
+			if (!step || step.status !== 'pending' || commands.length === 0) continue;
+
+			step.status = 'running';
+			onStep?.(steps.map((current) => ({ ...current })));
+
+			step.status = 'done';
+			for (const command of commands) {
+				try {
+					const result = await run(command);
+					if (!result.success || result.exitCode !== 0) {
+						step.status = 'failed';
+						step.message = `\`${command}\` exited with ${result.exitCode}: ${lastLines(result.output)}`;
+					}
+				} catch (error) {
+					logger.error(`Configuration step ${id} failed for sandbox ${sandboxId}:`, error);
+					step.status = 'failed';
+					step.message = error instanceof Error ? error.message : `\`${command}\` failed`;
+				}
+				// Later commands usually depend on earlier ones
+				if (step.status === 'failed') break;
+			}
+			onStep?.(steps.map((current) => ({ ...current })));
+		}
+
+		return steps;
+	}
+
+	/**
+	 * Runs commands in the sandbox's workspace, through the Daytona service for Daytona
+	 * sandboxes and the sandbox manager for local ones
+	 */
+	private async commandRunner(
+		sandboxId: string,
+		provider: SandboxProvider
+	): Promise<(command: string) => Promise<{ success: boolean; output: string; exitCode: number }>> {
+		if (provider === 'daytona') {
+			const { DaytonaService } = await import('../sandbox/daytona.service.js');
+			const daytonaService = DaytonaService.getInstance();
+			return (command) =>
+				daytonaService.executeCommand(sandboxId, command, undefined, undefined, COMMAND_TIMEOUT);
+		}
+
+		const { sandboxManager } = await import('../sandbox/sandbox-manager.js');
+		return (command) =>
+			sandboxManager.executeCommand(sandboxId, command, { timeout: COMMAND_TIMEOUT, provider });
+	}
+}
+
+function lastLines(output: string, count = 5): string {
+	return output.trim().split('\n').slice(-count).join('\n');
+}
+
+export const projectConfigurationService = new ProjectConfigurationService();
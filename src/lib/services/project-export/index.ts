@@ -0,0 +1,18 @@
+/**
+ * Project Export Exports
+ */
+export { createArchiveWriter, type ArchiveWriter, type ExportFormat } from './archive-writer.js';
+export {
+	EXPORT_FORMATS,
+	EXPORT_IGNORED_DIRECTORIES,
+	MAX_EXPORT_FILES,
+	MAX_EXPORT_SIZE,
+	ProjectExportService,
+	isExportFormat,
+	normalizeExportPath,
+	parsePermissions,
+	projectExportService,
+	type ExportFile,
+	type ProjectExport,
+	type ProjectExportResult
+} from './project-export.service.js';
@@ -0,0 +1,266 @@
+/**
+ * Project Export Service
+ * Streams a project, or one folder of it, out of its sandbox as a zip or tar.gz archive
+ */
+
+import { sandboxWorkspaceDir } from '$lib/config/sandbox.config.js';
+import type { Project } from '$lib/types';
+import type { SandboxProvider } from '$lib/types/sandbox.js';
+import { logger } from '$lib/utils/logger.js';
+import { posix } from 'node:path';
+import { repositoryForProject } from '../git/index.js';
+import { sandboxManager } from '../sandbox/sandbox-manager.js';
+import { createArchiveWriter, type ExportFormat } from './archive-writer.js';
+
+/** Largest export, counted before compression */
+export const MAX_EXPORT_SIZE = 500 * 1024 * 1024;
+export const MAX_EXPORT_FILES = 20_000;
+
+/** Dependency and build output directories that are never exported */
+export const EXPORT_IGNORED_DIRECTORIES = [
+	'node_modules',
+	'.git',
+	'.svelte-kit',
+	'.next',
+	'.nuxt',
+	'.output',
+	'.turbo',
+	'.vercel',
+	'.cache',
+	'dist',
+	'build',
+	'coverage'
+];
+
+export const EXPORT_FORMATS: ExportFormat[] = ['zip', 'tar.gz'];
+
+// Files are downloaded a batch at a time while the archive is written
+const DOWNLOAD_BATCH_SIZE = 50;
+
+export interface ExportFile {
+	/** Path inside the archive */
+	name: string;
+	/** Path inside the sandbox */
+	path: string;
+	size: number;
+	modified?: Date;
+	/** Permission bits, when the provider lists them */
+	mode?: number;
+}
+
+export interface ProjectExport {
+	fileName: string;
+	contentType: string;
+	fileCount: number;
+	stream: ReadableStream<Uint8Array>;
+}
+
+export type ProjectExportResult = ProjectExport | { error: string; status: number };
+
+export function isExportFormat(value: string): value is ExportFormat {
+	return (EXPORT_FORMATS as string[]).includes(value);
+}
+
+/**
+ * Folder inside the workspace to export, relative to it. Absolute paths under the
+ * workspace are accepted; anything that leaves it is not.
+ */
+export function normalizeExportPath(path: string, workspace: string): string | null {
+	let relative = path.trim();
+	if (relative === workspace || relative.startsWith(`${workspace}/`)) {
+		relative = relative.slice(workspace.length);
+	}
+	relative = relative.replace(/^\/+|\/+$/g, '');
+	if (!relative) return '';
+
+	const segments = relative.split('/');
+	if (segments.some((segment) => !segment || segment === '.' || segment === '..')) {
+		return null;
+	}
+	return segments.join('/');
+}
+
+/**
+ * Permission bits from a listing, which providers report in octal (`755`, `0755`) or
+ * symbolic (`-rwxr-xr-x`) form
+ */
+export function parsePermissions(permissions: string | undefined): number | undefined {
+	const value = permissions?.trim() ?? '';
+	if (/^[0-7]{3,4}$/.test(value)) {
+		return parseInt(value, 8);
+	}
+	const symbolic = value.match(/^[-dl]?([-r][-w][-xsS][-r][-w][-xsS][-r][-w][-xtT])$/);
+	if (symbolic) {
+		return [...symbolic[1]].reduce(
+			(mode, flag, index) =>
+				flag === '-' || flag === 'S' || flag === 'T' ? mode : mode | (1 << (8 - index)),
+			0
+		);
+	}
+	return undefined;
+}
+
+export class ProjectExportService {
+	private static instance: ProjectExportService;
+
+	static getInstance(): ProjectExportService {
+		if (!ProjectExportService.instance) {
+			ProjectExportService.instance = new ProjectExportService();
+		}
+		return ProjectExportService.instance;
+	}
+
+	/**
+	 * List the files to export and return a stream that downloads them into an archive.
+	 * Fails before anything is streamed when the folder is missing or over the limits.
+	 */
+	async exportProject(
+		project: Pick<Project, 'name' | 'sandboxId' | 'sandboxProvider'>,
+		options: { format: ExportFormat; path?: string }
+	): Promise<ProjectExportResult> {
+		const repository = repositoryForProject(project);
+		if (!repository) {
+			return { error: 'Project has no sandbox', status: 409 };
+		}
+
+		const workspace = repository.workingDir ?? sandboxWorkspaceDir(repository.provider);
+		const folder = normalizeExportPath(options.path ?? '', workspace);
+		if (folder === null) {
+			return { error: 'Invalid path', status: 400 };
+		}
+
+		const root = folder ? posix.join(workspace, folder) : workspace;
+		const files = await this.walk(repository.sandboxId, root, repository.provider);
+		if (files.length === 0) {
+			return { error: folder ? 'Folder not found or empty' : 'Project has no files', status: 404 };
+		}
+		if (files.length > MAX_EXPORT_FILES) {
+			return { error: `Exports are limited to ${MAX_EXPORT_FILES} files`, status: 413 };
+		}
+		const size = files.reduce((total, file) => total + file.size, 0);
+		if (size > MAX_EXPORT_SIZE) {
+			return {
+				error: `Exports are limited to ${MAX_EXPORT_SIZE / 1024 / 1024}MB`,
+				status: 413
+			};
+		}
+
+		const baseName = archiveBaseName(folder ? posix.basename(folder) : project.name);
+		const archive = this.archiveStream(
+			repository.sandboxId,
+			files,
+			options.format,
+			repository.provider
+		);
+
+		return {
+			fileName: `${baseName}.${options.format}`,
+			contentType: options.format === 'zip' ? 'application/zip' : 'application/gzip',
+			fileCount: files.length,
+			stream: options.format === 'tar.gz' ? archive.pipeThrough(gzipStream()) : archive
+		};
+	}
+
+	/**
+	 * Every file under `root`, one directory listing at a time, leaving out ignored
+	 * directories. Providers list either names or absolute paths, so only the last
+	 * segment of each entry is used.
+	 */
+	private async walk(
+		sandboxId: string,
+		root: string,
+		provider: SandboxProvider | undefined
+	): Promise<ExportFile[]> {
+		const files: ExportFile[] = [];
+		const queue = [{ path: root, name: '' }];
+
+		while (queue.length > 0 && files.length <= MAX_EXPORT_FILES) {
+			const directory = queue.shift()!;
+			const entries = await sandboxManager.listFiles(sandboxId, directory.path, {
+				includeHidden: true,
+				provider
+			});
+
+			for (const entry of entries) {
+				const baseName = entry.path.split('/').filter(Boolean).pop();
+				if (!baseName) continue;
+
+				const path = posix.join(directory.path, baseName);
+				const name = directory.name ? `${directory.name}/${baseName}` : baseName;
+				if (entry.type === 'directory') {
+					if (!EXPORT_IGNORED_DIRECTORIES.includes(baseName)) {
+						queue.push({ path, name });
+					}
+				} else {
+					files.push({
+						name,
+						path,
+						size: entry.size ?? 0,
+						modified: entry.modified,
+						mode: parsePermissions(entry.permissions)
+					});
+				}
+			}
+		}
+
+		return files.sort((a, b) => a.name.localeCompare(b.name));
+	}
+
+	private archiveStream(
+		sandboxId: string,
+		files: ExportFile[],
+		format: ExportFormat,
+		provider: SandboxProvider | undefined
+	): ReadableStream<Uint8Array> {
+		const writer = createArchiveWriter(format);
+		let next = 0;
+
+		return new ReadableStream<Uint8Array>({
+			async pull(controller) {
+				if (next >= files.length) {
+					controller.enqueue(writer.finish());
+					controller.close();
+					return;
+				}
+
+				const batch = files.slice(next, next + DOWNLOAD_BATCH_SIZE);
+				next += batch.length;
+				try {
+					const downloaded = await sandboxManager.downloadFiles(
+						sandboxId,
+						batch.map((file) => file.path),
+						{ provider }
+					);
+					for (const file of batch) {
+						const content = downloaded[file.path];
+						if (!content) {
+							// Deleted or unreadable since it was listed
+							logger.warn(`Skipping ${file.path} in export of sandbox ${sandboxId}`);
+							continue;
+						}
+						controller.enqueue(writer.add(file.name, content, file.modified, file.mode));
+					}
+				} catch (error) {
+					logger.error(`Export of sandbox ${sandboxId} failed:`, error);
+					controller.error(error);
+				}
+			}
+		});
+	}
+}
+
+/** CompressionStream is typed for any BufferSource, the archive is always bytes */
+function gzipStream(): TransformStream<Uint8Array, Uint8Array> {
+	return new CompressionStream('gzip') as unknown as TransformStream<Uint8Array, Uint8Array>;
+}
+
+/** A file name for the download without characters that upset browsers or shells */
+function archiveBaseName(name: string | undefined): string {
+	const cleaned = (name ?? '')
+		.trim()
+		.replace(/[^\w.-]+/g, '-')
+		.replace(/^[-.]+|-+$/g, '');
+	return cleaned || 'project';
+}
+
+export const projectExportService = ProjectExportService.getInstance();
@@ -0,0 +1,259 @@
+/**
+ * Project Export Tests
+ */
+
+import { gunzipSync, inflateRawSync } from 'node:zlib';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const sandbox = vi.hoisted(() => ({
+	files: new Map<string, string>(),
+	listFiles: vi.fn(),
+	downloadFiles: vi.fn()
+}));
+
+vi.mock('../sandbox/sandbox-manager.js', () => ({ sandboxManager: sandbox }));
+
+const {
+	createArchiveWriter,
+	normalizeExportPath,
+	parsePermissions,
+	ProjectExportService,
+	MAX_EXPORT_FILES
+} = await import('./index');
+
+const PROJECT = { name: 'My Shop', sandboxId: 'sandbox-1', sandboxProvider: 'daytona' as const };
+
+/** Entries of a directory the way Daytona lists them: names only */
+function listDirectory(directory: string) {
+	const children = new Map<string, 'file' | 'directory'>();
+	for (const path of sandbox.files.keys()) {
+		if (!path.startsWith(`${directory}/`)) continue;
+		const [name, ...rest] = path.slice(directory.length + 1).split('/');
+		children.set(name, rest.length > 0 ? 'directory' : 'file');
+	}
+	return [...children].map(([name, type]) => ({
+		path: name,
+		type,
+		size: type === 'file' ? sandbox.files.get(`${directory}/${name}`)!.length : 0,
+		permissions: type === 'file' && !name.endsWith('.sh') ? '644' : '755'
+	}));
+}
+
+async function readAll(stream: ReadableStream<Uint8Array>): Promise<Buffer> {
+	const chunks: Buffer[] = [];
+	for await (const chunk of stream as unknown as AsyncIterable<Uint8Array>) {
+		chunks.push(Buffer.from(chunk));
+	}
+	return Buffer.concat(chunks);
+}
+
+/** Contents by name; permission bits go to `modes` when given */
+function readTar(archive: Buffer, modes: Record<string, number> = {}): Record<string, string> {
+	const files: Record<string, string> = {};
+	let offset = 0;
+	let longName: string | null = null;
+	while (offset + 512 <= archive.length && archive[offset] !== 0) {
+		const header = archive.subarray(offset, offset + 512);
+		const size = parseInt(header.toString('ascii', 124, 135), 8);
+		const body = archive.subarray(offset + 512, offset + 512 + size).toString('utf8');
+		if (header.toString('ascii', 156, 157) === 'x') {
+			longName = body.match(/ path=(.*)\n/)![1];
+		} else {
+			const name = longName ?? header.toString('utf8', 0, 100).replace(/\0.*$/, '');
+			files[name] = body;
+			modes[name] = parseInt(header.toString('ascii', 100, 107), 8);
+			longName = null;
+		}
+		offset += 512 + Math.ceil(size / 512) * 512;
+	}
+	return files;
+}
+
+function readZip(archive: Buffer, modes: Record<string, number> = {}): Record<string, string> {
+	const files: Record<string, string> = {};
+	const end = archive.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]));
+	let offset = archive.readUInt32LE(end + 16);
+	for (let index = 0; index < archive.readUInt16LE(end + 10); index++) {
+		const nameLength = archive.readUInt16LE(offset + 28);
+		const local = archive.readUInt32LE(offset + 42);
+		const method = archive.readUInt16LE(local + 8);
+		const compressedSize = archive.readUInt32LE(local + 18);
+		const start = local + 30 + archive.readUInt16LE(local + 26);
+		const body = archive.subarray(start, start + compressedSize);
+		const name = archive.toString('utf8', offset + 46, offset + 46 + nameLength);
+		files[name] = (method === 8 ? inflateRawSync(body) : body).toString('utf8');
+		modes[name] = (archive.readUInt32LE(offset + 38) >>> 16) & 0o7777;
+		offset += 46 + nameLength;
+	}
+	return files;
+}
+
+describe('archive writers', () => {
+	const long = `${'nested/'.repeat(20)}file.txt`;
+	const entries: Record<string, string> = {
+		'README.md': '# Shop\n'.repeat(50),
+		'src/héllo.ts': 'export {};',
+		[long]: 'deep'
+	};
+
+	function write(format: 'zip' | 'tar.gz'): Buffer {
+		const writer = createArchiveWriter(format);
+		return Buffer.concat([
+			...Object.entries(entries).map(([name, content]) => writer.add(name, Buffer.from(content))),
+			writer.finish()
+		]);
+	}
+
+	it('writes tar entries, using pax headers for long names', () => {
+		const archive = write('tar.gz');
+		expect(archive.length % 512).toBe(0);
+		expect(readTar(archive)).toEqual(entries);
+	});
+
+	it('writes zip entries with a central directory', () => {
+		const archive = write('zip');
+		expect(archive.readUInt32LE(0)).toBe(0x04034b50);
+		expect(readZip(archive)).toEqual(entries);
+	});
+
+	it('keeps permission bits, defaulting to 0644', () => {
+		for (const format of ['zip', 'tar.gz'] as const) {
+			const writer = createArchiveWriter(format);
+			const archive = Buffer.concat([
+				writer.add('run.sh', Buffer.from('#!/bin/sh'), undefined, 0o755),
+				writer.add('README.md', Buffer.from('# Shop')),
+				writer.finish()
+			]);
+			const modes: Record<string, number> = {};
+			(format === 'zip' ? readZip : readTar)(archive, modes);
+			expect(modes).toEqual({ 'run.sh': 0o755, 'README.md': 0o644 });
+		}
+	});
+});
+
+describe('normalizeExportPath', () => {
+	it('keeps folders inside the workspace', () => {
+		expect(normalizeExportPath('', '/home/daytona')).toBe('');
+		expect(normalizeExportPath('/src/lib/', '/home/daytona')).toBe('src/lib');
+		expect(normalizeExportPath('/home/daytona/src', '/home/daytona')).toBe('src');
+		expect(normalizeExportPath('/home/daytona', '/home/daytona')).toBe('');
+	});
+
+	it('rejects paths that leave the workspace', () => {
+		expect(normalizeExportPath('../etc', '/home/daytona')).toBeNull();
+		expect(normalizeExportPath('src/../../etc', '/home/daytona')).toBeNull();
+		expect(normalizeExportPath('src//lib', '/home/daytona')).toBeNull();
+	});
+});
+
+describe('parsePermissions', () => {
+	it('reads octal and symbolic permissions', () => {
+		expect(parsePermissions('755')).toBe(0o755);
+		expect(parsePermissions('0644')).toBe(0o644);
+		expect(parsePermissions('-rwxr-xr-x')).toBe(0o755);
+		expect(parsePermissions('-rw-r-----')).toBe(0o640);
+		expect(parsePermissions(undefined)).toBeUndefined();
+		expect(parsePermissions('unknown')).toBeUndefined();
+	});
+});
+
+describe('ProjectExportService', () => {
+	const service = new ProjectExportService();
+
+	beforeEach(() => {
+		sandbox.files = new Map([
+			['/home/daytona/package.json', '{"name":"shop"}'],
+			['/home/daytona/.env.example', 'KEY='],
+			['/home/daytona/src/main.ts', 'render();'],
+			['/home/daytona/scripts/setup.sh', 'npm ci'],
+			['/home/daytona/src/lib/cart.ts', 'export {};'],
+			['/home/daytona/node_modules/react/index.js', 'module.exports = {};'],
+			['/home/daytona/.git/HEAD', 'ref: refs/heads/main'],
+			['/home/daytona/dist/main.js', 'render();']
+		]);
+		sandbox.listFiles.mockReset().mockImplementation(async (_id: string, path: string) => {
+			return listDirectory(path);
+		});
+		sandbox.downloadFiles.mockReset().mockImplementation(async (_id: string, paths: string[]) => {
+			return Object.fromEntries(
+				paths
+					.filter((path) => sandbox.files.has(path))
+					.map((path) => [path, Buffer.from(sandbox.files.get(path)!)])
+			);
+		});
+	});
+
+	it('streams the workspace without dependencies and build output', async () => {
+		const result = await service.exportProject(PROJECT, { format: 'tar.gz' });
+		if ('error' in result) throw new Error(result.error);
+
+		expect(result).toMatchObject({
+			fileName: 'My-Shop.tar.gz',
+			contentType: 'application/gzip',
+			fileCount: 5
+		});
+		const modes: Record<string, number> = {};
+		expect(readTar(gunzipSync(await readAll(result.stream)), modes)).toEqual({
+			'.env.example': 'KEY=',
+			'package.json': '{"name":"shop"}',
+			'scripts/setup.sh': 'npm ci',
+			'src/lib/cart.ts': 'export {};',
+			'src/main.ts': 'render();'
+		});
+		expect(modes).toMatchObject({ 'scripts/setup.sh': 0o755, 'src/main.ts': 0o644 });
+		expect(sandbox.listFiles).not.toHaveBeenCalledWith(
+			'sandbox-1',
+			'/home/daytona/node_modules',
+			expect.anything()
+		);
+	});
+
+	it('exports a single folder named after it', async () => {
+		const result = await service.exportProject(PROJECT, { format: 'zip', path: 'src' });
+		if ('error' in result) throw new Error(result.error);
+
+		expect(result.fileName).toBe('src.zip');
+		expect(readZip(await readAll(result.stream))).toEqual({
+			'lib/cart.ts': 'export {};',
+			'main.ts': 'render();'
+		});
+	});
+
+	it('skips files that disappear before they are downloaded', async () => {
+		const download = sandbox.downloadFiles.getMockImplementation()!;
+		sandbox.downloadFiles.mockImplementation(async (id: string, paths: string[]) => {
+			sandbox.files.delete('/home/daytona/src/main.ts');
+			return download(id, paths);
+		});
+		const result = await service.exportProject(PROJECT, { format: 'zip' });
+		if ('error' in result) throw new Error(result.error);
+
+		expect(Object.keys(readZip(await readAll(result.stream)))).not.toContain('src/main.ts');
+	});
+
+	it('refuses invalid paths, empty folders and oversized projects', async () => {
+		expect(await service.exportProject(PROJECT, { format: 'zip', path: '../' })).toEqual({
+			error: 'Invalid path',
+			status: 400
+		});
+		expect(await service.exportProject(PROJECT, { format: 'zip', path: 'docs' })).toMatchObject({
+			status: 404
+		});
+
+		sandbox.files = new Map(
+			Array.from({ length: MAX_EXPORT_FILES + 1 }, (_, index) => [
+				`/home/daytona/file-${index}.txt`,
+				'x'
+			])
+		);
+		expect(await service.exportProject(PROJECT, { format: 'zip' })).toMatchObject({
+			status: 413
+		});
+	});
+
+	it('needs a sandbox', async () => {
+		expect(
+			await service.exportProject({ ...PROJECT, sandboxId: undefined }, { format: 'zip' })
+		).toMatchObject({ status: 409 });
+	});
+});
@@ -0,0 +1,210 @@
+/**
+ * Project Import Sources
+ * Git URLs and uploaded archives that new projects can be created from, and the shell
+ * script that unpacks them in the sandbox
+ */
+
+import { shellQuote, type GitAuthor } from '../git/index.js';
+
+/** Largest archive accepted for upload */
+export const MAX_ARCHIVE_SIZE = 100 * 1024 * 1024;
+/** Largest project after unpacking and dropping ignored files */
+export const MAX_IMPORT_SIZE = 500 * 1024 * 1024;
+export const MAX_IMPORT_FILES = 20_000;
+
+const ARCHIVE_FORMATS = [
+	['.tar.gz', 'tar.gz'],
+	['.tgz', 'tar.gz'],
+	['.tar', 'tar'],
+	['.zip', 'zip']
+] as const;
+
+export type ArchiveFormat = (typeof ARCHIVE_FORMATS)[number][1];
+
+export type ProjectImportSource = (
+	| { type: 'git'; url: string; branch?: string }
+	| { type: 'archive'; fileName: string; format: ArchiveFormat; data: Buffer }
+) & {
+	/** Author of the initial commit, made when the import is not a git repository yet */
+	author?: GitAuthor;
+};
+
+const DEFAULT_AUTHOR: GitAuthor = { name: 'Aura', email: 'aura@localhost' };
+
+const BRANCH_PATTERN = /^[a-zA-Z0-9._/-]+$/;
+
+/** Where archives are uploaded and unpacked before they are copied into the workspace */
+const STAGING_DIR = '/tmp/aura-import';
+export const ARCHIVE_UPLOAD_PATH = `${STAGING_DIR}/archive`;
+
+/**
+ * Check a repository URL for cloning. Any HTTPS host works (GitLab, Gitea, self-hosted);
+ * credentials in the URL are allowed for private repositories.
+ */
+export function validateGitUrl(value: string): { url: string } | { error: string } {
+	let url: URL;
+	try {
+		url = new URL(value.trim());
+	} catch {
+		return { error: 'Invalid repository URL' };
+	}
+
+	if (url.protocol !== 'https:') {
+		return { error: 'Repository URL must use https://' };
+	}
+	if (url.pathname.replace(/\/+$/, '').length <= 1) {
+		return { error: 'Repository URL must include the repository path' };
+	}
+	if (url.search || url.hash) {
+		return { error: 'Repository URL cannot contain a query or fragment' };
+	}
+
+	return { url: url.toString() };
+}
+
+export function isValidBranch(branch: string): boolean {
+	return BRANCH_PATTERN.test(branch) && !branch.startsWith('-') && !branch.includes('..');
+}
+
+/**
+ * The URL without credentials, for logs, status messages and project metadata
+ */
+export function redactGitUrl(value: string): string {
+	try {
+		const url = new URL(value);
+		url.username = '';
+		url.password = '';
+		return url.toString();
+	} catch {
+		return value;
+	}
+}
+
+/**
+ * Environment that hands the credentials of a git URL to the clone as an authorization
+ * header (GIT_CONFIG_*), so they never appear in the command line or the logs
+ */
+export function importEnvironment(source: ProjectImportSource): Record<string, string> | undefined {
+	if (source.type !== 'git') return undefined;
+
+	let url: URL;
+	try {
+		url = new URL(source.url);
+	} catch {
+		return undefined;
+	}
+	if (!url.username && !url.password) return undefined;
+
+	const credentials = Buffer.from(
+		`${decodeURIComponent(url.username)}:${decodeURIComponent(url.password)}`
+	).toString('base64');
+	return {
+		GIT_CONFIG_COUNT: '1',
+		GIT_CONFIG_KEY_0: `http.${url.origin}/.extraheader`,
+		GIT_CONFIG_VALUE_0: `AUTHORIZATION: basic ${credentials}`
+	};
+}
+
+export function archiveFormat(fileName: string): ArchiveFormat | null {
+	const name = fileName.toLowerCase();
+	return ARCHIVE_FORMATS.find(([extension]) => name.endsWith(extension))?.[1] ?? null;
+}
+
+/** Human-readable description of a source, without credentials */
+export function describeImportSource(source: ProjectImportSource): string {
+	return source.type === 'git' ? redactGitUrl(source.url) : source.fileName;
+}
+
+/**
+ * Shell script that clones or unpacks `source` into `workspace`; run it with
+ * importEnvironment(source). Files matched by the
+ * project's .gitignore and `node_modules` directories are dropped, and the import fails
+ * when it is larger than the import limits. Prints `imported <file count>` when done and
+ * `error: <reason>` before exiting with status 3 otherwise.
+ */
+export function importScript(source: ProjectImportSource, workspace: string): string {
+	const author = source.author ?? DEFAULT_AUTHOR;
+	const maxKilobytes = MAX_IMPORT_SIZE / 1024;
+	const limitMessage = `the project is larger than ${MAX_IMPORT_SIZE / 1024 / 1024}MB`;
+	const lines = [
+		'set -e',
+		'fail() { echo "error: $1"; exit 3; }',
+		`mkdir -p ${STAGING_DIR} && cd ${STAGING_DIR}`,
+		'rm -rf src && mkdir src'
+	];
+
+	if (source.type === 'git') {
+		const branch = source.branch ? `--branch ${shellQuote(source.branch)} ` : '';
+		// Credentials come from importEnvironment, so the URL cloned (and kept as the
+		// project's remote) never contains them
+		const redacted = redactGitUrl(source.url);
+		lines.push(
+			`GIT_TERMINAL_PROMPT=0 git clone --quiet --depth 1 --single-branch ${branch}` +
+				`-- ${shellQuote(redacted)} src >/dev/null 2>&1 || ` +
+				`fail ${shellQuote(`could not clone ${redacted}; check the URL, branch and access`)}`
+		);
+	} else {
+		lines.push(...extractCommands(source.format), 'rm -f archive');
+	}
+
+	lines.push(
+		'cd src',
+		// Archives made from a folder wrap everything in that folder
+		'entries=$(ls -A)',
+		'if [ "$(printf \'%s\\n\' "$entries" | wc -l)" -eq 1 ] && [ -d "$entries" ]; then cd "$entries"; fi',
+		'created=0',
+		'[ -d .git ] || { git init -q; created=1; }',
+		'git clean -fdXq',
+		'find . -name node_modules -type d -prune -exec rm -rf {} +',
+		`[ "$(du -sk --exclude=.git . | cut -f1)" -le ${maxKilobytes} ] || fail ${shellQuote(limitMessage)}`,
+		'count=$(find . -path ./.git -prune -o -type f -print | wc -l)',
+		`[ "$count" -le ${MAX_IMPORT_FILES} ] || fail ${shellQuote(`the project has more than ${MAX_IMPORT_FILES} files`)}`,
+		`cp -a . ${shellQuote(workspace)}/`,
+		`cd ${shellQuote(workspace)}`,
+		`rm -rf ${STAGING_DIR}`,
+		'if [ "$created" -eq 1 ]; then',
+		`git add -A && git -c user.name=${shellQuote(author.name)} -c user.email=${shellQuote(author.email)} commit -qm 'Initial commit' || true`,
+		'fi',
+		'echo "imported $count"'
+	);
+
+	return lines.join('\n');
+}
+
+/**
+ * Commands that check `archive` and its unpacked size, then unpack it into `src`
+ */
+function extractCommands(format: ArchiveFormat): string[] {
+	const invalid = `fail ${shellQuote(`the file is not a valid ${format} archive`)}`;
+	const check = [
+		`case "$size" in ''|*[!0-9]*) ${invalid} ;; esac`,
+		`[ "$size" -le ${MAX_IMPORT_SIZE} ] || fail ${shellQuote(
+			`the archive unpacks to more than ${MAX_IMPORT_SIZE / 1024 / 1024}MB`
+		)}`
+	];
+
+	if (format === 'zip') {
+		const pythonSize =
+			`python3 -c 'import sys, zipfile; ` +
+			`print(sum(i.file_size for i in zipfile.ZipFile(sys.argv[1]).infolist()))' archive`;
+		return [
+			'if command -v unzip >/dev/null 2>&1; then',
+			`size=$(unzip -Zt archive 2>/dev/null | awk '{ print $3 }')`,
+			...check,
+			`unzip -qo archive -d src || ${invalid}`,
+			'else',
+			`size=$(${pythonSize} 2>/dev/null) || ${invalid}`,
+			...check,
+			`python3 -m zipfile -e archive src || ${invalid}`,
+			'fi'
+		];
+	}
+
+	const flags = format === 'tar.gz' ? 'z' : '';
+	return [
+		`tar -t${flags}f archive >/dev/null 2>&1 || ${invalid}`,
+		`size=$(tar -tv${flags}f archive | awk '{ s += $3 } END { print s + 0 }')`,
+		...check,
+		`tar -x${flags}f archive -C src --no-same-owner || ${invalid}`
+	];
+}
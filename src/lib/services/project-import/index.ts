@@ -0,0 +1,22 @@
+/**
+ * Project Import Exports
+ */
+export {
+	MAX_ARCHIVE_SIZE,
+	MAX_IMPORT_SIZE,
+	MAX_IMPORT_FILES,
+	archiveFormat,
+	describeImportSource,
+	importEnvironment,
+	importScript,
+	isValidBranch,
+	redactGitUrl,
+	validateGitUrl,
+	type ArchiveFormat,
+	type ProjectImportSource
+} from './import-source.js';
+export {
+	ProjectImportService,
+	projectImportService,
+	type ProjectImportResult
+} from './project-import.service.js';
@@ -0,0 +1,89 @@
+/**
+ * Project Import Service
+ * Fills a new project's sandbox from a git repository on any HTTPS host or from an
+ * uploaded zip/tar archive
+ */
+
+import { sandboxWorkspaceDir } from '$lib/config/sandbox.config.js';
+import type { SandboxProvider } from '$lib/types/sandbox.js';
+import { logger } from '$lib/utils/logger.js';
+import { repositoryForProject, shellQuote } from '../git/index.js';
+import { sandboxManager } from '../sandbox/sandbox-manager.js';
+import {
+	ARCHIVE_UPLOAD_PATH,
+	describeImportSource,
+	importEnvironment,
+	importScript,
+	type ProjectImportSource
+} from './import-source.js';
+
+// Large repositories and archives take a while to clone and unpack
+const IMPORT_TIMEOUT = 300_000;
+
+export interface ProjectImportResult {
+	fileCount: number;
+}
+
+export class ProjectImportService {
+	private static instance: ProjectImportService;
+
+	static getInstance(): ProjectImportService {
+		if (!ProjectImportService.instance) {
+			ProjectImportService.instance = new ProjectImportService();
+		}
+		return ProjectImportService.instance;
+	}
+
+	/**
+	 * Clone or unpack `source` into the workspace of a new sandbox. Throws with the reason
+	 * when the source cannot be read or is over the import limits.
+	 */
+	async importIntoSandbox(
+		sandboxId: string,
+		source: ProjectImportSource,
+		provider: SandboxProvider = 'daytona'
+	): Promise<ProjectImportResult> {
+		const repository = repositoryForProject({ sandboxId, sandboxProvider: provider });
+		if (!repository) {
+			throw new Error('Sandbox has no workspace');
+		}
+		const workspace = repository.workingDir ?? sandboxWorkspaceDir(provider);
+
+		logger.info(`Importing ${describeImportSource(source)} into sandbox ${sandboxId}`);
+
+		if (source.type === 'archive') {
+			const upload = await sandboxManager.uploadFiles(
+				sandboxId,
+				{ [ARCHIVE_UPLOAD_PATH]: source.data },
+				{ createDirs: true, overwrite: true, provider: repository.provider }
+			);
+			if (upload.failed.length > 0) {
+				throw new Error(`Failed to upload ${source.fileName} to the sandbox`);
+			}
+		}
+
+		const result = await sandboxManager.executeCommand(
+			sandboxId,
+			`sh -c ${shellQuote(importScript(source, workspace))}`,
+			{
+				timeout: IMPORT_TIMEOUT,
+				environment: importEnvironment(source),
+				provider: repository.provider
+			}
+		);
+
+		const output = result.output ?? '';
+		const failure = output.match(/^error: (.+)$/m);
+		if (failure) {
+			throw new Error(`Import failed: ${failure[1]}`);
+		}
+		const imported = output.match(/^imported (\d+)$/m);
+		if (!result.success || !imported) {
+			throw new Error(`Import failed: ${result.error || output.trim() || 'unknown error'}`);
+		}
+
+		return { fileCount: Number(imported[1]) };
+	}
+}
+
+export const projectImportService = ProjectImportService.getInstance();
@@ -2,15 +2,44 @@
  * Project Initialization Service
  * Handles complete project lifecycle:
  * 1. GitHub template cloning
- * 2. Sandbox creation (Daytona)
- * 3. Status tracking
+ * 2. Project configuration (config files and packages)
+ * 3. Sandbox creation (Daytona, or a local provider)
+ * 4. Status tracking
  */
 
 import type { Project } from '$lib/types/index.js';
+import type { SandboxProvider } from '$lib/types/sandbox.js';
+import type { SavedTemplate } from '$lib/types/templates.js';
 import { logger } from '$lib/utils/logger.js';
 import { nanoid } from 'nanoid';
 import { DatabaseService } from './database.service.js';
+import { DEBUG_ADAPTERS } from './debug/debug-adapters.js';
 import { GitHubApiService } from './github-api.service.js';
+import {
+	projectConfigurationService,
+	type ConfigurationPlan,
+	type ConfigurationStep
+} from './project-configuration/index.js';
+import { LANGUAGE_SERVERS } from './lsp/lsp-servers.js';
+import {
+	describeImportSource,
+	projectImportService,
+	type ProjectImportSource
+} from './project-import/index.js';
+import type { PortMapping } from './sandbox/sandbox-provider.interface.js';
+import { sandboxManager } from './sandbox/sandbox-manager.js';
+import { templateCacheService } from './template-cache.service.js';
+import { PTY_BRIDGE_PORT } from './terminal/pty-bridge.js';
+
+// Ports the editor's bridges use inside a sandbox. Docker can only publish ports when
+// the container is created, so they are all published up front.
+const BRIDGE_PORTS: PortMapping[] = [
+	...Object.values(LANGUAGE_SERVERS).map((server) => server.port),
+	PTY_BRIDGE_PORT,
+	...Object.values(DEBUG_ADAPTERS).flatMap((adapter) =>
+		adapter.adapterPort ? [adapter.port, adapter.adapterPort] : [adapter.port]
+	)
+].map((port) => ({ internal: port, protocol: 'tcp', public: false }));
 
 export interface ProjectInitializationOptions {
 	name: string;
@@ -19,13 +48,17 @@ export interface ProjectInitializationOptions {
 	userId: string;
 	description?: string;
 	initialPrompt?: string; // What the user wants to build - passed to the agent
-	sandboxProvider: 'daytona';
+	sandboxProvider: SandboxProvider;
 	customRepo?: {
 		owner: string;
 		repo: string;
 		branch?: string;
 		path?: string;
 	};
+	/** Start from a saved template's files instead of downloading a template */
+	savedTemplate?: SavedTemplate;
+	/** Clone or unpack the project into the sandbox instead of starting from a template */
+	importSource?: ProjectImportSource;
 	configuration?: {
 		typescript?: boolean;
 		eslint?: boolean;
@@ -46,6 +79,8 @@ export interface ProjectInitializationOptions {
 export interface ProjectFile {
 	path: string;
 	content: string;
+	/** Set to base64 for binary files from saved templates */
+	encoding?: 'utf-8' | 'base64';
 	size: number;
 	sha?: string;
 }
@@ -53,22 +88,32 @@ export interface ProjectFile {
 export interface ProjectInitializationResult {
 	project: Project;
 	files: ProjectFile[];
-	sandboxResult?: {
-		provider: 'daytona';
-		sandboxId: string;
-		url?: string;
-		status: string;
-	};
+	sandboxResult?: SandboxResult;
+}
+
+interface SandboxResult {
+	provider: SandboxProvider;
+	sandboxId: string;
+	url?: string;
+	status: string;
 }
 
 export interface ProjectStatus {
-	phase: 'initializing' | 'downloading' | 'creating-sandboxes' | 'ready' | 'error';
+	phase:
+		| 'initializing'
+		| 'downloading'
+		| 'creating-sandboxes'
+		| 'importing'
+		| 'configuring'
+		| 'ready'
+		| 'error';
 	progress: number; // 0-100
 	message: string;
 	details?: {
 		filesDownloaded?: number;
 		totalFiles?: number;
 		sandboxStatus?: Record<string, string>;
+		configurationSteps?: ConfigurationStep[];
 	};
 	error?: string;
 }
@@ -107,70 +152,129 @@ export class ProjectInitializationService {
 			const project = await this.createProjectRecord(projectId, options);
 			logger.info(`Project record created: ${project.id}`);
 
+			// Imported projects are cloned or unpacked inside the sandbox once it exists
+			if (options.importSource) {
+				return await this.initializeImportedProject(project, options, options.importSource);
+			}
+
 			// Step 2: Download template files from GitHub
 			this.updateProjectStatus(projectId, {
 				phase: 'downloading',
 				progress: 10,
-				message: 'Downloading template files from GitHub...'
+				message: options.savedTemplate
+					? `Loading saved template ${options.savedTemplate.name}...`
+					: 'Downloading template files from GitHub...'
 			});
 
 			logger.info(
-				options.customRepo
-					? `🎯 Using custom repository: ${options.customRepo.owner}/${options.customRepo.repo}`
-					: `📦 Using predefined template: ${options.templateId} for framework: ${options.framework}`
+				options.savedTemplate
+					? `💾 Using saved template: ${options.savedTemplate.id}`
+					: options.customRepo
+						? `🎯 Using custom repository: ${options.customRepo.owner}/${options.customRepo.repo}`
+						: `📦 Using predefined template: ${options.templateId} for framework: ${options.framework}`
 			);
 
-			const files = await Promise.race([
-				this.downloadTemplateFiles(options.templateId, options.framework, options.customRepo),
-				new Promise<never>((_, reject) =>
-					setTimeout(() => reject(new Error('Template download timeout')), 30000)
-				)
-			]);
+			const templateFiles: ProjectFile[] = options.savedTemplate
+				? options.savedTemplate.files.map((file) => ({ ...file }))
+				: await Promise.race([
+						this.downloadTemplateFiles(options.templateId, options.framework, options.customRepo),
+						new Promise<never>((_, reject) =>
+							setTimeout(() => reject(new Error('Template download timeout')), 30000)
+						)
+					]);
 			
 			this.updateProjectStatus(projectId, {
 				phase: 'downloading',
 				progress: 40,
-				message: `Downloaded ${files.length} files from template`,
+				message: options.savedTemplate
+					? `Loaded ${templateFiles.length} files from saved template`
+					: `Downloaded ${templateFiles.length} files from template`,
 				details: {
-					filesDownloaded: files.length,
-					totalFiles: files.length
+					filesDownloaded: templateFiles.length,
+					totalFiles: templateFiles.length
 				}
 			});
 
-			// Step 3: Create Daytona sandbox
+			// Step 3: Add the config files for the options picked in the setup wizard
+			let configuration: ConfigurationPlan | undefined;
+			let files = templateFiles;
+			if (options.configuration) {
+				configuration = projectConfigurationService.prepare(
+					templateFiles,
+					options.configuration,
+					options.framework,
+					options.savedTemplate?.postCreateCommands
+				);
+				files = configuration.files;
+
+				this.updateProjectStatus(projectId, {
+					phase: 'configuring',
+					progress: 50,
+					message: 'Added project configuration files',
+					details: {
+						filesDownloaded: templateFiles.length,
+						totalFiles: files.length,
+						configurationSteps: configuration.steps
+					}
+				});
+			}
+
+			// Step 4: Create the sandbox
 			this.updateProjectStatus(projectId, {
 				phase: 'creating-sandboxes',
 				progress: 60,
-				message: 'Creating Daytona workspace and cloning project...'
+				message: `Creating ${sandboxLabel(options.sandboxProvider)} and cloning project...`,
+				details: configuration ? { configurationSteps: configuration.steps } : undefined
 			});
 
-			logger.info(`Creating Daytona workspace for project ${projectId}`);
+			logger.info(`Creating ${options.sandboxProvider} sandbox for project ${projectId}`);
 			let sandboxResult;
 			
 			try {
-				sandboxResult = await Promise.race([
-					this.createDaytonaSandbox(projectId, options, files),
-					new Promise<never>((_, reject) =>
-						setTimeout(() => reject(new Error('Daytona sandbox creation timeout')), 60000)
-					)
-				]);
-				logger.info(`Daytona workspace created:`, sandboxResult);
+				sandboxResult = await this.createSandbox(projectId, options, files);
+				logger.info(`Sandbox created:`, sandboxResult);
 			} catch (err) {
-				logger.error('Failed to create Daytona sandbox:', err);
+				logger.error(`Failed to create ${options.sandboxProvider} sandbox:`, err);
 				throw err;
 			}
 
-			// Step 4: Finalize project
+			// Step 5: Install the packages the configuration needs
+			let configurationSteps = configuration?.steps;
+			if (configuration) {
+				const packageManager = options.configuration?.packageManager || 'npm';
+				configurationSteps = await projectConfigurationService.apply(
+					sandboxResult.sandboxId,
+					configuration,
+					packageManager,
+					(steps) => {
+						const running = steps.find((step) => step.status === 'running');
+						const settled = steps.filter(
+							(step) => step.status !== 'pending' && step.status !== 'running'
+						);
+						this.updateProjectStatus(projectId, {
+							phase: 'configuring',
+							progress: 80 + Math.round((settled.length / steps.length) * 15),
+							message: running ? `${running.label}...` : 'Configured project',
+							details: { configurationSteps: steps }
+						});
+					},
+					sandboxResult.provider
+				);
+			}
+
+			// Step 6: Finalize project
 			logger.info(`Finalizing project ${projectId}`);
 			const updatedProject = await this.finalizeProject(project, {
 				files,
-				sandboxResult
+				sandboxResult,
+				configurationSteps
 			});
 
 			this.updateProjectStatus(projectId, {
 				phase: 'ready',
 				progress: 100,
-				message: 'Project initialized successfully!'
+				message: 'Project initialized successfully!',
+				details: configurationSteps ? { configurationSteps } : undefined
 			});
 
 			logger.info(`Project ${projectId} initialized successfully`);
@@ -204,6 +308,53 @@ export class ProjectInitializationService {
 		}
 	}
 
+	/**
+	 * Create the sandbox of an imported project, then clone or unpack the project into it.
+	 * Imported projects keep their own tooling, so no configuration is applied.
+	 */
+	private async initializeImportedProject(
+		project: Project,
+		options: ProjectInitializationOptions,
+		source: ProjectImportSource
+	): Promise<ProjectInitializationResult> {
+		const importedFrom = describeImportSource(source);
+		logger.info(`📥 Importing project from: ${importedFrom}`);
+
+		this.updateProjectStatus(project.id, {
+			phase: 'creating-sandboxes',
+			progress: 20,
+			message: `Creating ${sandboxLabel(options.sandboxProvider)}...`
+		});
+		const sandboxResult = await this.createSandbox(project.id, options, []);
+
+		this.updateProjectStatus(project.id, {
+			phase: 'importing',
+			progress: 50,
+			message:
+				source.type === 'git' ? `Cloning ${importedFrom}...` : `Unpacking ${importedFrom}...`
+		});
+		const { fileCount } = await projectImportService.importIntoSandbox(
+			sandboxResult.sandboxId,
+			source,
+			sandboxResult.provider
+		);
+
+		const updatedProject = await this.finalizeProject(project, {
+			files: [],
+			fileCount,
+			importedFrom,
+			sandboxResult
+		});
+
+		this.updateProjectStatus(project.id, {
+			phase: 'ready',
+			progress: 100,
+			message: `Imported ${fileCount} files from ${importedFrom}`
+		});
+
+		return { project: updatedProject, files: [], sandboxResult };
+	}
+
 	/**
 	 * Get project initialization status
 	 */
@@ -294,13 +445,13 @@ export class ProjectInitializationService {
 				path = templateConfig.path;
 			}
 
-			// Download the template files from GitHub
-			const files = await this.githubService.downloadRepositoryFiles(
-				owner,
-				repo,
-				branch,
-				path
-			);
+			// Download the template files from GitHub. Built-in templates go through the
+			// template cache; custom repositories are always downloaded fresh.
+			const download = () =>
+				this.githubService.downloadRepositoryFiles(owner, repo, branch, path);
+			const files = customRepo
+				? await download()
+				: await templateCacheService.getFiles({ owner, repo, ref: branch, path }, download);
 
 			if (!files || Object.keys(files).length === 0) {
 				throw new Error(
@@ -328,6 +479,69 @@ export class ProjectInitializationService {
 		}
 	}
 
+	/**
+	 * Create the project's sandbox on the provider it was created with and put the files
+	 * in its workspace
+	 */
+	private async createSandbox(
+		projectId: string,
+		options: ProjectInitializationOptions,
+		files: ProjectFile[]
+	): Promise<SandboxResult> {
+		if (options.sandboxProvider !== 'daytona') {
+			return this.createProviderSandbox(projectId, options, files);
+		}
+
+		return Promise.race([
+			this.createDaytonaSandbox(projectId, options, files),
+			new Promise<never>((_, reject) =>
+				setTimeout(() => reject(new Error('Daytona sandbox creation timeout')), 60000)
+			)
+		]);
+	}
+
+	/**
+	 * Create a sandbox on a local provider (Docker or the local filesystem) through the
+	 * sandbox manager, then upload the files into its workspace
+	 */
+	private async createProviderSandbox(
+		projectId: string,
+		options: ProjectInitializationOptions,
+		files: ProjectFile[]
+	): Promise<SandboxResult> {
+		const sandbox = await sandboxManager.createSandbox({
+			provider: options.sandboxProvider,
+			projectId,
+			userId: options.userId,
+			name: options.name,
+			template: options.templateId,
+			ports: options.sandboxProvider === 'docker' ? BRIDGE_PORTS : undefined
+		});
+
+		if (files.length > 0) {
+			const upload = await sandboxManager.uploadFiles(
+				sandbox.id,
+				Object.fromEntries(
+					files.map((file) => [
+						file.path,
+						file.encoding === 'base64' ? Buffer.from(file.content, 'base64') : file.content
+					])
+				),
+				{ createDirs: true, overwrite: true, provider: sandbox.provider }
+			);
+			if (upload.failed.length > 0) {
+				throw new Error(`Failed to upload ${upload.failed.length} files to the sandbox`);
+			}
+		}
+
+		return {
+			provider: sandbox.provider,
+			sandboxId: sandbox.id,
+			url: sandbox.network.publicUrl,
+			status: sandbox.status
+		};
+	}
+
 	/**
 	 * Create Daytona sandbox and clone project directly into it
 	 */
@@ -356,8 +570,10 @@ export class ProjectInitializationService {
 				}
 			});
 
-			// Clone project directly into Daytona workspace
-			await daytonaService.cloneProjectIntoSandbox(daytonaSandbox.id, options.templateId, files);
+			// Clone project directly into Daytona workspace; imports fill it themselves
+			if (!options.importSource) {
+				await daytonaService.cloneProjectIntoSandbox(daytonaSandbox.id, options.templateId, files);
+			}
 
 			return {
 				provider: 'daytona',
@@ -378,7 +594,11 @@ export class ProjectInitializationService {
 		project: Project,
 		result: {
 			files: ProjectFile[];
+			/** Set for imports, whose files are only in the sandbox */
+			fileCount?: number;
+			importedFrom?: string;
 			sandboxResult?: any;
+			configurationSteps?: ConfigurationStep[];
 		}
 	): Promise<Project> {
 		const updates: Partial<Project> = {
@@ -387,7 +607,9 @@ export class ProjectInitializationService {
 			metadata: {
 				...project.metadata,
 				initializationCompleted: new Date().toISOString(),
-				fileCount: result.files.length,
+				fileCount: result.fileCount ?? result.files.length,
+				importedFrom: result.importedFrom,
+				configurationSteps: result.configurationSteps,
 				sandboxes: result.sandboxResult ? {
 					[result.sandboxResult.provider]: {
 						id: result.sandboxResult.sandboxId,
@@ -461,4 +683,8 @@ export class ProjectInitializationService {
 	}
 }
 
+function sandboxLabel(provider: SandboxProvider): string {
+	return provider === 'daytona' ? 'Daytona workspace' : `${provider} sandbox`;
+}
+
 export const projectInitializationService = new ProjectInitializationService();
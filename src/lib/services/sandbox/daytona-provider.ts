@@ -254,7 +254,11 @@ export class DaytonaProvider implements ISandboxProvider {
 				};
 			}
 
-			const result = await daytonaSandbox.process.executeCommand(command, options?.workingDir);
+			const result = await daytonaSandbox.process.executeCommand(
+				command,
+				options?.workingDir,
+				options?.environment
+			);
 
 			return {
 				success: result.exitCode === 0,
@@ -499,8 +503,22 @@ export class DaytonaProvider implements ISandboxProvider {
 			protocol?: 'tcp' | 'udp';
 			public?: boolean;
 		}
-	): Promise<{ externalPort: number; url?: string }> {
-		throw new Error('forwardPort not implemented');
+	): Promise<{ externalPort: number; url?: string; headers?: Record<string, string> }> {
+		await this.ensureInitialized();
+
+		const sandboxes = await this.daytona.list();
+		const daytonaSandbox = sandboxes.find((s) => s.id === sandboxId);
+		if (!daytonaSandbox) {
+			throw new Error('Sandbox not found');
+		}
+
+		// Daytona serves ports through preview URLs guarded by a per-sandbox token
+		const preview = await daytonaSandbox.getPreviewLink(internalPort);
+		return {
+			externalPort: internalPort,
+			url: preview.url,
+			headers: preview.token ? { 'x-daytona-preview-token': preview.token } : undefined
+		};
 	}
 
 	async removePortForward(sandboxId: string, externalPort: number): Promise<boolean> {
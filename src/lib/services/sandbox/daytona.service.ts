@@ -5,7 +5,7 @@
 
 import { env } from '$env/dynamic/private';
 import type { Directory, File } from '$lib/types/files';
-import { logger } from '$lib/utils/logger.js';
+import { logger, redactCommand } from '$lib/utils/logger.js';
 import type { ProjectFile } from '../project-initialization.service.js';
 
 export interface DaytonaSandboxConfig {
@@ -229,17 +229,19 @@ export class DaytonaService {
 			// Upload files to Daytona sandbox using the correct SDK method
 			for (const file of files) {
 				try {
+					const content =
+						file.encoding === 'base64' ? Buffer.from(file.content, 'base64') : file.content;
 					// Try different methods to upload files
 					if (sandbox.daytonaSandbox.fs && sandbox.daytonaSandbox.fs.uploadFile) {
-						await sandbox.daytonaSandbox.fs.uploadFile(Buffer.from(file.content), file.path);
+						await sandbox.daytonaSandbox.fs.uploadFile(Buffer.from(content), file.path);
 						uploadedCount++;
 						logger.debug(`✅ Uploaded: ${file.path}`);
 					} else if (sandbox.daytonaSandbox.writeFile) {
-						await sandbox.daytonaSandbox.writeFile(file.path, file.content);
+						await sandbox.daytonaSandbox.writeFile(file.path, content);
 						uploadedCount++;
 						logger.debug(`✅ Uploaded: ${file.path}`);
 					} else if (sandbox.daytonaSandbox.files && sandbox.daytonaSandbox.files.write) {
-						await sandbox.daytonaSandbox.files.write(file.path, file.content);
+						await sandbox.daytonaSandbox.files.write(file.path, content);
 						uploadedCount++;
 						logger.debug(`✅ Uploaded: ${file.path}`);
 					} else {
@@ -498,7 +500,7 @@ export class DaytonaService {
 		}
 
 		try {
-			logger.info(`Executing command in Daytona sandbox ${sandboxId}: ${command}`);
+			logger.info(`Executing command in Daytona sandbox ${sandboxId}: ${redactCommand(command)}`);
 			logger.info(`📁 Working directory: ${workingDir || '/workspace'}`);
 			logger.info(`🌍 Environment: ${environment ? Object.keys(environment).join(', ') : 'none'}`);
 
@@ -591,7 +593,9 @@ export class DaytonaService {
 				exitCode = success ? 0 : 1;
 			}
 
-			logger.info(`✅ Command executed successfully in ${executionTime}: ${command}`);
+			logger.info(
+				`✅ Command executed successfully in ${executionTime}: ${redactCommand(command)}`
+			);
 			logger.info(`📤 Exit code: ${exitCode}, Success: ${success}`);
 			logger.info(`📝 Output length: ${output.length} characters`);
 			logger.info(
@@ -630,7 +634,9 @@ export class DaytonaService {
 		executionTime: string;
 	}> {
 		try {
-			logger.info(`🌐 Executing command via API in Daytona sandbox ${sandboxId}: ${command}`);
+			logger.info(
+				`🌐 Executing command via API in Daytona sandbox ${sandboxId}: ${redactCommand(command)}`
+			);
 
 			const startTime = Date.now();
 
@@ -658,7 +664,9 @@ export class DaytonaService {
 			const result = await response.json();
 			const executionTime = `${Date.now() - startTime}ms`;
 
-			logger.info(`✅ Command executed via API successfully in ${executionTime}: ${command}`);
+			logger.info(
+				`✅ Command executed via API successfully in ${executionTime}: ${redactCommand(command)}`
+			);
 
 			const output = result.stdout || result.output || result.result || 'Command completed';
 			const exitCode = result.exitCode || result.exit_code || 0;
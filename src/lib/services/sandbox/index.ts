@@ -23,6 +23,8 @@ export type {
 export { DaytonaProvider } from './daytona-provider.js';
 export { E2BProvider } from './e2b-provider.js';
 export { LocalProvider } from './local-provider.js';
+export { LocalDockerProvider } from './local-docker-provider.js';
+export { LocalFsProvider } from './local-fs-provider.js';
 
 // Factory and manager
 export { SandboxProviderFactory } from './provider-factory.js';
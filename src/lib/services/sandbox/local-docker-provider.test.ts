@@ -0,0 +1,189 @@
+/**
+ * Local Docker Provider Tests
+ */
+
+import { EventEmitter } from 'node:events';
+import { PassThrough } from 'node:stream';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+/** Answers for docker CLI calls, by subcommand; every call is recorded */
+const docker = vi.hoisted(() => ({
+	calls: [] as string[][],
+	environments: [] as Array<Record<string, string | undefined>>,
+	containers: new Map<string, unknown>(),
+	reply: (args: string[]): { stdout?: string; stderr?: string; code?: number } => {
+		switch (args[0]) {
+			case 'version':
+				return { stdout: '27.0.1\n' };
+			case 'inspect':
+				return {
+					stdout: JSON.stringify(args.slice(3).flatMap((name) => docker.containers.get(name) ?? []))
+				};
+			default:
+				return { stdout: '' };
+		}
+	}
+}));
+
+vi.mock('node:child_process', () => ({
+	spawn: vi.fn((_binary: string, args: string[], options: { env: Record<string, string> }) => {
+		docker.calls.push(args);
+		docker.environments.push(options.env);
+		const child = Object.assign(new EventEmitter(), {
+			stdout: new PassThrough(),
+			stderr: new PassThrough(),
+			stdin: new PassThrough(),
+			kill: vi.fn()
+		});
+		const { stdout = '', stderr = '', code = 0 } = docker.reply(args);
+		setImmediate(() => {
+			child.stdout.end(stdout);
+			child.stderr.end(stderr);
+			setImmediate(() => child.emit('close', code));
+		});
+		return child;
+	})
+}));
+
+vi.mock('$env/dynamic/private', () => ({ env: { DOCKER_SANDBOX_ENABLED: 'true' } }));
+
+const { LocalDockerProvider, parseDockerSize } = await import('./local-docker-provider.js');
+
+function container(name: string, status: string, overrides: Record<string, unknown> = {}) {
+	return {
+		Id: `id-${name}`,
+		Name: `/${name}`,
+		Created: '2026-01-01T00:00:00Z',
+		State: { Status: status, StartedAt: '2026-01-01T00:00:05Z' },
+		Config: {
+			Image: 'node:20-bookworm',
+			Labels: { 'aura.sandbox': 'true', 'aura.template': 'blank', 'aura.projectId': 'p-1' }
+		},
+		HostConfig: { NanoCpus: 2e9, Memory: 2048 * 1024 * 1024 },
+		NetworkSettings: {
+			Ports: {
+				'3000/tcp': [{ HostIp: '127.0.0.1', HostPort: '49153' }],
+				'5173/tcp': null
+			}
+		},
+		...overrides
+	};
+}
+
+describe('parseDockerSize', () => {
+	it('reads binary and decimal units', () => {
+		expect(parseDockerSize('12MiB')).toBe(12 * 1024 * 1024);
+		expect(parseDockerSize('1.5kB')).toBe(1500);
+		expect(parseDockerSize('2GB')).toBe(2e9);
+		expect(parseDockerSize('512B')).toBe(512);
+		expect(parseDockerSize(' 3 KiB ')).toBe(3072);
+	});
+
+	it('treats output it cannot read as zero', () => {
+		expect(parseDockerSize('--')).toBe(0);
+		expect(parseDockerSize('')).toBe(0);
+	});
+});
+
+describe('LocalDockerProvider', () => {
+	let provider: InstanceType<typeof LocalDockerProvider>;
+
+	beforeEach(() => {
+		docker.calls = [];
+		docker.environments = [];
+		docker.containers.clear();
+		provider = new LocalDockerProvider();
+	});
+
+	it('runs the configured image whatever template is asked for', async () => {
+		const spawned = vi.fn((args: string[]) => {
+			docker.containers.set(args[3], container(args[3], 'running'));
+		});
+		const reply = docker.reply;
+		docker.reply = (args) => {
+			if (args[0] === 'run') spawned(args);
+			return reply(args);
+		};
+
+		try {
+			const sandbox = await provider.createSandbox({
+				template: 'blank',
+				projectId: 'p-1',
+				userId: 'u-1',
+				environment: { NODE_ENV: 'development' },
+				resources: { cpu: 2, memory: 2048 },
+				ports: [{ internal: 3000, protocol: 'tcp', public: false }]
+			});
+
+			const run = docker.calls.find((args) => args[0] === 'run')!;
+			expect(run.slice(-4)).toEqual(['node:20-bookworm', 'tail', '-f', '/dev/null']);
+			expect(run).not.toContain('blank');
+			expect(run).toEqual(
+				expect.arrayContaining(['-w', '/workspace', '--cpus', '2', '--memory', '2048m'])
+			);
+			expect(run.join(' ')).toContain('--label aura.template=blank');
+			expect(run.join(' ')).toContain('-e NODE_ENV=development');
+			expect(run.join(' ')).toContain('-p 127.0.0.1::3000/tcp');
+			expect(sandbox.provider).toBe('docker');
+		} finally {
+			docker.reply = reply;
+		}
+	});
+
+	it('maps container states to sandbox statuses', async () => {
+		const states: Record<string, string> = {
+			running: 'running',
+			created: 'stopped',
+			exited: 'stopped',
+			paused: 'stopped',
+			removing: 'terminating',
+			dead: 'error',
+			restarting: 'initializing'
+		};
+		for (const [state, status] of Object.entries(states)) {
+			docker.containers.set(`aura-${state}`, container(`aura-${state}`, state));
+			expect((await provider.getSandbox(`aura-${state}`))?.status).toBe(status);
+		}
+	});
+
+	it('reads resources, ports and labels back from docker inspect', async () => {
+		docker.containers.set('aura-abc', container('aura-abc', 'running'));
+
+		const sandbox = await provider.getSandbox('aura-abc');
+		expect(sandbox).toMatchObject({
+			id: 'aura-abc',
+			template: 'blank',
+			resources: { cpu: 2, memory: 2048 },
+			metadata: { projectId: 'p-1', image: 'node:20-bookworm' },
+			network: { publicUrl: 'http://localhost:49153' }
+		});
+		expect(sandbox?.network.ports).toEqual([
+			{ internal: 3000, external: 49153, protocol: 'tcp', public: false },
+			{ internal: 5173, external: undefined, protocol: 'tcp', public: false }
+		]);
+		expect(await provider.getSandbox('aura-missing')).toBeNull();
+	});
+
+	it('treats containers it did not create as missing', async () => {
+		docker.containers.set(
+			'postgres',
+			container('postgres', 'running', { Config: { Image: 'postgres:16', Labels: {} } })
+		);
+
+		expect(await provider.getSandbox('postgres')).toBeNull();
+		expect(await provider.deleteSandbox('postgres')).toBe(false);
+		await expect(provider.stopSandbox('postgres')).rejects.toThrow('not found');
+		expect(docker.calls.some((args) => ['rm', 'stop'].includes(args[0]))).toBe(false);
+	});
+
+	it('passes command environment values outside the docker arguments', async () => {
+		await provider.executeCommand('aura-abc', 'git push', {
+			environment: { GIT_CONFIG_VALUE_0: 'AUTHORIZATION: basic c2VjcmV0' }
+		});
+
+		const exec = docker.calls.findIndex((args) => args[0] === 'exec');
+		expect(docker.calls[exec]).toEqual(expect.arrayContaining(['-e', 'GIT_CONFIG_VALUE_0']));
+		expect(docker.calls[exec].join(' ')).not.toContain('c2VjcmV0');
+		expect(docker.environments[exec].GIT_CONFIG_VALUE_0).toBe('AUTHORIZATION: basic c2VjcmV0');
+	});
+});
@@ -0,0 +1,1125 @@
+/**
+ * Local Docker Sandbox Provider Implementation
+ * Runs sandboxes as containers on a local Docker daemon through the docker CLI,
+ * so Aura can be used without a Daytona account (air-gapped machines, CI)
+ */
+
+import type { SandboxProvider, SandboxStatus } from '$lib/types/sandbox.js';
+import { spawn } from 'node:child_process';
+import { posix } from 'node:path';
+import { customAlphabet } from 'nanoid';
+import { dockerConfig, resourceLimits } from '../../config/sandbox.config.js';
+import type {
+	ExecutionResult,
+	FileSystemEntry,
+	ISandboxProvider,
+	PortMapping,
+	SandboxCreateOptions,
+	SandboxEnvironment,
+	SandboxFile,
+	SandboxMetrics,
+	SandboxProviderEvents,
+	SandboxUpdateOptions
+} from './sandbox-provider.interface.js';
+
+const SANDBOX_LABEL = 'aura.sandbox';
+
+// Container names must be lowercase-safe, so avoid nanoid's default `_` and `-`
+const createId = customAlphabet('0123456789abcdefghijklmnopqrstuvwxyz', 12);
+
+interface DockerCommandResult {
+	stdout: Buffer;
+	stderr: string;
+	exitCode: number;
+}
+
+interface ContainerSpec {
+	image: string;
+	labels: Record<string, string>;
+	environment: Record<string, string>;
+	cpu?: number;
+	memory?: number; // MB
+	ports: PortMapping[];
+}
+
+/**
+ * Subset of `docker inspect` output used by this provider
+ */
+interface ContainerInspect {
+	Id: string;
+	Name: string;
+	Created: string;
+	State: { Status: string; StartedAt?: string };
+	Config: { Image: string; Env?: string[]; Labels?: Record<string, string> };
+	HostConfig: { NanoCpus?: number; Memory?: number };
+	NetworkSettings: {
+		Ports?: Record<string, Array<{ HostIp: string; HostPort: string }> | null>;
+	};
+}
+
+/**
+ * Local Docker Provider Implementation using the docker CLI
+ */
+export class LocalDockerProvider implements ISandboxProvider {
+	readonly name: SandboxProvider = 'docker';
+	readonly capabilities = {
+		supportsFileSystem: true,
+		supportsTerminal: true,
+		supportsPortForwarding: true, // Ports must be published when the container is created
+		supportsSnapshots: true, // Implemented with `docker commit`
+		supportsResourceScaling: true,
+		maxConcurrentSessions: dockerConfig.limits.maxConcurrentContainers,
+		supportedRuntimes: ['node', 'python', 'universal']
+	};
+
+	private initialized = false;
+	private serverVersion = 'unknown';
+	private terminalSessions = new Map<string, string>(); // sessionId -> sandboxId
+	private eventListeners = new Map<
+		keyof SandboxProviderEvents,
+		SandboxProviderEvents[keyof SandboxProviderEvents][]
+	>();
+
+	constructor(private config: typeof dockerConfig = dockerConfig) {}
+
+	async initialize(): Promise<void> {
+		if (this.initialized) return;
+
+		const result = await this.docker(['version', '--format', '{{.Server.Version}}']);
+		if (result.exitCode !== 0) {
+			throw new Error(`Failed to initialize Docker provider: ${result.stderr.trim()}`);
+		}
+
+		this.serverVersion = result.stdout.toString('utf-8').trim();
+		this.initialized = true;
+	}
+
+	async createSandbox(config: SandboxCreateOptions): Promise<SandboxEnvironment> {
+		await this.ensureInitialized();
+
+		const sandboxId = `aura-${createId()}`;
+		const labels: Record<string, string> = { [SANDBOX_LABEL]: 'true' };
+		if (config.userId) labels['aura.userId'] = config.userId;
+		if (config.projectId) labels['aura.projectId'] = config.projectId;
+		if (config.template) labels['aura.template'] = config.template;
+		if (config.runtime) labels['aura.runtime'] = config.runtime;
+		if (config.name) labels['aura.name'] = config.name;
+
+		const result = await this.docker(
+			this.buildRunArgs(sandboxId, {
+				// Template IDs name project starters, not images; every sandbox runs the same image
+				image: this.config.image,
+				labels,
+				environment: config.environment || {},
+				cpu: config.resources?.cpu ?? resourceLimits.cpu.default,
+				memory: config.resources?.memory ?? resourceLimits.memory.default,
+				ports: config.ports || []
+			}),
+			{ timeout: this.config.limits.maxExecutionTime }
+		);
+
+		if (result.exitCode !== 0) {
+			throw new Error(`Failed to create Docker container: ${result.stderr.trim()}`);
+		}
+
+		const environment = await this.getSandbox(sandboxId);
+		if (!environment) {
+			throw new Error(`Failed to create Docker container: ${sandboxId} not found after start`);
+		}
+
+		this.emit('sandbox:created', environment);
+		return environment;
+	}
+
+	async getSandbox(sandboxId: string): Promise<SandboxEnvironment | null> {
+		await this.ensureInitialized();
+
+		const [container] = await this.inspectContainers([sandboxId]);
+		return container ? this.mapContainerToEnvironment(container) : null;
+	}
+
+	async listSandboxes(filters?: {
+		userId?: string;
+		projectId?: string;
+		status?: SandboxStatus;
+		template?: string;
+	}): Promise<SandboxEnvironment[]> {
+		await this.ensureInitialized();
+
+		const args = ['ps', '-a', '--filter', `label=${SANDBOX_LABEL}=true`];
+		if (filters?.userId) args.push('--filter', `label=aura.userId=${filters.userId}`);
+		if (filters?.projectId) args.push('--filter', `label=aura.projectId=${filters.projectId}`);
+		if (filters?.template) args.push('--filter', `label=aura.template=${filters.template}`);
+		args.push('--format', '{{.Names}}');
+
+		const result = await this.docker(args);
+		if (result.exitCode !== 0) {
+			throw new Error(`Failed to list Docker containers: ${result.stderr.trim()}`);
+		}
+
+		const names = result.stdout.toString('utf-8').split('\n').filter(Boolean);
+		const containers = await this.inspectContainers(names);
+		const environments = containers.map((container) => this.mapContainerToEnvironment(container));
+
+		return filters?.status
+			? environments.filter((environment) => environment.status === filters.status)
+			: environments;
+	}
+
+	async updateSandbox(
+		sandboxId: string,
+		options: SandboxUpdateOptions
+	): Promise<SandboxEnvironment> {
+		await this.ensureInitialized();
+
+		if (options.environment || options.ports) {
+			throw new Error(
+				'Changing environment variables or ports requires recreating the Docker container'
+			);
+		}
+
+		await this.requireSandbox(sandboxId);
+		const args = ['update'];
+		if (options.resources?.cpu) args.push('--cpus', String(options.resources.cpu));
+		if (options.resources?.memory) {
+			args.push('--memory', `${options.resources.memory}m`);
+			args.push('--memory-swap', `${options.resources.memory}m`);
+		}
+
+		if (args.length > 1) {
+			const result = await this.docker([...args, sandboxId]);
+			if (result.exitCode !== 0) {
+				throw new Error(`Failed to update Docker container: ${result.stderr.trim()}`);
+			}
+		}
+
+		return await this.requireSandbox(sandboxId);
+	}
+
+	async startSandbox(sandboxId: string): Promise<SandboxEnvironment> {
+		await this.runLifecycleCommand('start', sandboxId);
+		const environment = await this.requireSandbox(sandboxId);
+		this.emit('sandbox:started', environment);
+		return environment;
+	}
+
+	async stopSandbox(sandboxId: string): Promise<SandboxEnvironment> {
+		await this.runLifecycleCommand('stop', sandboxId);
+		const environment = await this.requireSandbox(sandboxId);
+		this.emit('sandbox:stopped', environment);
+		return environment;
+	}
+
+	async restartSandbox(sandboxId: string): Promise<SandboxEnvironment> {
+		await this.runLifecycleCommand('restart', sandboxId);
+		const environment = await this.requireSandbox(sandboxId);
+		this.emit('sandbox:started', environment);
+		return environment;
+	}
+
+	async deleteSandbox(sandboxId: string): Promise<boolean> {
+		await this.ensureInitialized();
+
+		const [container] = await this.inspectContainers([sandboxId]);
+		if (!container) return false;
+
+		const result = await this.docker(['rm', '-f', '-v', sandboxId]);
+		if (result.exitCode !== 0) {
+			if (/no such container/i.test(result.stderr)) return false;
+
+			const error = new Error(`Failed to delete Docker container: ${result.stderr.trim()}`);
+			this.emit('sandbox:error', sandboxId, error);
+			throw error;
+		}
+
+		for (const [sessionId, terminalSandboxId] of this.terminalSessions) {
+			if (terminalSandboxId === sandboxId) this.terminalSessions.delete(sessionId);
+		}
+
+		this.emit('sandbox:deleted', sandboxId);
+		return true;
+	}
+
+	async getMetrics(sandboxId: string): Promise<SandboxMetrics | null> {
+		await this.ensureInitialized();
+
+		const [container] = await this.inspectContainers([sandboxId]);
+		if (!container || container.State.Status !== 'running') return null;
+
+		const stats = await this.docker(['stats', '--no-stream', '--format', '{{json .}}', sandboxId]);
+		if (stats.exitCode !== 0) return null;
+
+		let parsed: Record<string, string>;
+		try {
+			parsed = JSON.parse(stats.stdout.toString('utf-8').trim());
+		} catch {
+			return null;
+		}
+
+		const [memoryUsed, memoryLimit] = this.splitPair(parsed.MemUsage).map(parseDockerSize);
+		const [bytesIn, bytesOut] = this.splitPair(parsed.NetIO).map(parseDockerSize);
+
+		const storageResult = await this.docker([
+			'exec',
+			sandboxId,
+			'du',
+			'-sm',
+			this.config.workspaceDir
+		]);
+		const storageUsage =
+			storageResult.exitCode === 0
+				? parseInt(storageResult.stdout.toString('utf-8').split(/\s+/)[0], 10) || 0
+				: 0;
+		const storageLimit = resourceLimits.storage.default;
+
+		const cpuLimit = container.HostConfig.NanoCpus ? container.HostConfig.NanoCpus / 1e9 : 0;
+		const startedAt = container.State.StartedAt ? new Date(container.State.StartedAt) : null;
+
+		return {
+			cpu: {
+				usage: parseFloat(parsed.CPUPerc) || 0,
+				limit: cpuLimit
+			},
+			memory: {
+				usage: bytesToMb(memoryUsed),
+				limit: bytesToMb(memoryLimit),
+				percentage: parseFloat(parsed.MemPerc) || 0
+			},
+			storage: {
+				usage: storageUsage,
+				limit: storageLimit,
+				percentage: storageLimit ? Math.round((storageUsage / storageLimit) * 10000) / 100 : 0
+			},
+			network: {
+				bytesIn,
+				bytesOut,
+				connectionsActive: 0 // Not reported by docker stats
+			},
+			uptime: startedAt ? Math.max(0, Math.floor((Date.now() - startedAt.getTime()) / 1000)) : 0,
+			lastUpdated: new Date()
+		};
+	}
+
+	async executeCommand(
+		sandboxId: string,
+		command: string,
+		options?: {
+			workingDir?: string;
+			timeout?: number;
+			environment?: Record<string, string>;
+		}
+	): Promise<ExecutionResult> {
+		await this.ensureInitialized();
+
+		const startTime = Date.now();
+		// Values are handed to the docker CLI through its environment, not its arguments,
+		// so secrets such as git credentials do not show up in the host's process list
+		const args = ['exec', '-w', options?.workingDir || this.config.workspaceDir];
+		for (const key of Object.keys(options?.environment || {})) {
+			args.push('-e', key);
+		}
+		args.push(sandboxId, 'sh', '-c', command);
+
+		try {
+			const result = await this.docker(args, {
+				timeout: options?.timeout || this.config.limits.commandTimeout,
+				environment: options?.environment
+			});
+
+			return {
+				success: result.exitCode === 0,
+				output: result.stdout.toString('utf-8'),
+				error: result.stderr || undefined,
+				exitCode: result.exitCode,
+				duration: Date.now() - startTime,
+				timestamp: new Date()
+			};
+		} catch (error) {
+			return {
+				success: false,
+				output: '',
+				error: error instanceof Error ? error.message : String(error),
+				exitCode: 1,
+				duration: Date.now() - startTime,
+				timestamp: new Date()
+			};
+		}
+	}
+
+	async listFiles(
+		sandboxId: string,
+		path = this.config.workspaceDir,
+		options?: {
+			recursive?: boolean;
+			includeHidden?: boolean;
+			maxDepth?: number;
+		}
+	): Promise<FileSystemEntry[]> {
+		await this.ensureInitialized();
+
+		const depth = options?.recursive ? options.maxDepth || 10 : 1;
+		const args = ['exec', sandboxId, 'find', path, '-mindepth', '1', '-maxdepth', String(depth)];
+		if (!options?.includeHidden) {
+			args.push('-not', '-path', '*/.*');
+		}
+		args.push('-exec', 'stat', '-c', '%F|%s|%Y|%a|%n', '{}', '+');
+
+		const result = await this.docker(args);
+		if (result.exitCode !== 0 && result.stdout.length === 0) {
+			if (/no such file/i.test(result.stderr)) return [];
+			throw new Error(`Failed to list files in Docker container: ${result.stderr.trim()}`);
+		}
+
+		return result.stdout
+			.toString('utf-8')
+			.split('\n')
+			.filter(Boolean)
+			.map((line) => {
+				const [kind, size, modified, permissions, ...rest] = line.split('|');
+				return {
+					path: rest.join('|'),
+					type: kind === 'directory' ? 'directory' : 'file',
+					size: parseInt(size, 10) || 0,
+					modified: new Date(parseInt(modified, 10) * 1000),
+					permissions
+				} satisfies FileSystemEntry;
+			});
+	}
+
+	async readFile(
+		sandboxId: string,
+		filePath: string,
+		options?: {
+			encoding?: 'utf-8' | 'base64' | 'binary';
+			maxSize?: number;
+		}
+	): Promise<SandboxFile | null> {
+		await this.ensureInitialized();
+
+		const result = await this.docker(['exec', sandboxId, 'cat', '--', filePath]);
+		if (result.exitCode !== 0) {
+			if (/no such (file|container)/i.test(result.stderr)) return null;
+			throw new Error(`Failed to read file from Docker container: ${result.stderr.trim()}`);
+		}
+
+		const maxSize = options?.maxSize ?? this.config.limits.maxFileSize;
+		if (result.stdout.length > maxSize) {
+			throw new Error(`File ${filePath} exceeds maximum size of ${maxSize} bytes`);
+		}
+
+		const encoding = options?.encoding || 'utf-8';
+		return {
+			path: filePath,
+			content:
+				encoding === 'binary'
+					? result.stdout
+					: result.stdout.toString(encoding === 'base64' ? 'base64' : 'utf-8'),
+			encoding,
+			size: result.stdout.length
+		};
+	}
+
+	async writeFile(
+		sandboxId: string,
+		filePath: string,
+		content: string | Buffer,
+		options?: {
+			encoding?: 'utf-8' | 'base64' | 'binary';
+			createDirs?: boolean;
+			backup?: boolean;
+		}
+	): Promise<boolean> {
+		await this.ensureInitialized();
+
+		const buffer = Buffer.isBuffer(content)
+			? content
+			: Buffer.from(content, options?.encoding === 'base64' ? 'base64' : 'utf-8');
+
+		const script = [
+			options?.createDirs !== false ? 'mkdir -p "$(dirname "$1")"' : null,
+			options?.backup ? '[ -f "$1" ] && cp -p "$1" "$1.bak"' : null,
+			'cat > "$1"'
+		]
+			.filter(Boolean)
+			.join('; ');
+
+		const result = await this.docker(
+			['exec', '-i', sandboxId, 'sh', '-c', script, 'sh', filePath],
+			{
+				input: buffer
+			}
+		);
+
+		if (result.exitCode !== 0) {
+			throw new Error(`Failed to write file to Docker container: ${result.stderr.trim()}`);
+		}
+
+		this.emit('file:changed', sandboxId, filePath, 'modified');
+		return true;
+	}
+
+	async deleteFile(
+		sandboxId: string,
+		filePath: string,
+		options?: {
+			recursive?: boolean;
+			force?: boolean;
+		}
+	): Promise<boolean> {
+		await this.ensureInitialized();
+
+		const flags = `${options?.recursive ? 'r' : ''}${options?.force ? 'f' : ''}`;
+		const args = ['exec', sandboxId, 'rm', ...(flags ? [`-${flags}`] : []), '--', filePath];
+
+		const result = await this.docker(args);
+		if (result.exitCode !== 0) {
+			if (/no such file/i.test(result.stderr)) return false;
+			throw new Error(`Failed to delete file from Docker container: ${result.stderr.trim()}`);
+		}
+
+		this.emit('file:changed', sandboxId, filePath, 'deleted');
+		return true;
+	}
+
+	async createDirectory(
+		sandboxId: string,
+		dirPath: string,
+		options?: {
+			recursive?: boolean;
+			permissions?: string;
+		}
+	): Promise<boolean> {
+		await this.ensureInitialized();
+
+		const args = ['exec', sandboxId, 'mkdir'];
+		if (options?.recursive !== false) args.push('-p');
+		if (options?.permissions) args.push('-m', options.permissions);
+		args.push('--', dirPath);
+
+		const result = await this.docker(args);
+		if (result.exitCode !== 0) {
+			throw new Error(`Failed to create directory in Docker container: ${result.stderr.trim()}`);
+		}
+
+		return true;
+	}
+
+	async uploadFiles(
+		sandboxId: string,
+		files: Record<string, string | Buffer>,
+		options?: {
+			baseDir?: string;
+			overwrite?: boolean;
+			createDirs?: boolean;
+		}
+	): Promise<{ uploaded: string[]; failed: string[] }> {
+		await this.ensureInitialized();
+
+		const uploaded: string[] = [];
+		const failed: string[] = [];
+		const baseDir = options?.baseDir || this.config.workspaceDir;
+
+		for (const [filePath, content] of Object.entries(files)) {
+			try {
+				const fullPath = filePath.startsWith('/') ? filePath : posix.join(baseDir, filePath);
+
+				if (options?.overwrite === false) {
+					const exists = await this.docker(['exec', sandboxId, 'test', '-e', fullPath]);
+					if (exists.exitCode === 0) {
+						failed.push(filePath);
+						continue;
+					}
+				}
+
+				await this.writeFile(sandboxId, fullPath, content, {
+					createDirs: options?.createDirs,
+					encoding: typeof content === 'string' ? 'utf-8' : 'binary'
+				});
+				uploaded.push(filePath);
+			} catch {
+				failed.push(filePath);
+			}
+		}
+
+		return { uploaded, failed };
+	}
+
+	async downloadFiles(
+		sandboxId: string,
+		filePaths: string[],
+		options?: {
+			baseDir?: string;
+			compress?: boolean;
+		}
+	): Promise<Record<string, Buffer>> {
+		await this.ensureInitialized();
+
+		const files: Record<string, Buffer> = {};
+		const baseDir = options?.baseDir || this.config.workspaceDir;
+
+		for (const filePath of filePaths) {
+			try {
+				const fullPath = filePath.startsWith('/') ? filePath : posix.join(baseDir, filePath);
+				const file = await this.readFile(sandboxId, fullPath, { encoding: 'binary' });
+				if (file) {
+					files[filePath] = Buffer.isBuffer(file.content)
+						? file.content
+						: Buffer.from(file.content);
+				}
+			} catch {
+				// Skip failed files
+			}
+		}
+
+		return files;
+	}
+
+	async createSnapshot(
+		sandboxId: string,
+		name?: string,
+		options?: {
+			description?: string;
+			includeRuntime?: boolean;
+			compress?: boolean;
+		}
+	): Promise<{ snapshotId: string; size: number }> {
+		await this.ensureInitialized();
+
+		const tag = (name || `${sandboxId}-${Date.now()}`).toLowerCase().replace(/[^a-z0-9_.-]/g, '-');
+		const snapshotId = `${this.config.snapshotRepository}:${tag}`;
+
+		const args = ['commit'];
+		if (options?.description) args.push('--message', options.description);
+		// Pausing keeps the filesystem consistent; skip it when the caller wants the runtime untouched
+		args.push(`--pause=${options?.includeRuntime === false ? 'false' : 'true'}`);
+		args.push(sandboxId, snapshotId);
+
+		const result = await this.docker(args, { timeout: this.config.limits.maxExecutionTime });
+		if (result.exitCode !== 0) {
+			throw new Error(`Failed to snapshot Docker container: ${result.stderr.trim()}`);
+		}
+
+		const sizeResult = await this.docker(['image', 'inspect', '--format', '{{.Size}}', snapshotId]);
+		const size = parseInt(sizeResult.stdout.toString('utf-8').trim(), 10) || 0;
+
+		return { snapshotId, size };
+	}
+
+	async restoreSnapshot(
+		sandboxId: string,
+		snapshotId: string,
+		options?: {
+			preserveFiles?: string[];
+			restartAfter?: boolean;
+		}
+	): Promise<boolean> {
+		await this.ensureInitialized();
+
+		const [container] = await this.inspectContainers([sandboxId]);
+		if (!container) return false;
+
+		// Containers cannot switch images in place, so recreate it under the same name
+		const preserved = options?.preserveFiles?.length
+			? await this.downloadFiles(sandboxId, options.preserveFiles)
+			: {};
+		const spec = this.containerSpecFromInspect(container);
+		const wasRunning = container.State.Status === 'running';
+
+		const removed = await this.docker(['rm', '-f', sandboxId]);
+		if (removed.exitCode !== 0) {
+			throw new Error(`Failed to restore Docker snapshot: ${removed.stderr.trim()}`);
+		}
+
+		const created = await this.docker(
+			this.buildRunArgs(sandboxId, { ...spec, image: snapshotId }),
+			{
+				timeout: this.config.limits.maxExecutionTime
+			}
+		);
+		if (created.exitCode !== 0) {
+			throw new Error(`Failed to restore Docker snapshot: ${created.stderr.trim()}`);
+		}
+
+		if (Object.keys(preserved).length > 0) {
+			await this.uploadFiles(sandboxId, preserved);
+		}
+
+		if (!wasRunning && options?.restartAfter === false) {
+			await this.runLifecycleCommand('stop', sandboxId);
+		}
+
+		return true;
+	}
+
+	async getLogs(
+		sandboxId: string,
+		options?: {
+			since?: Date;
+			until?: Date;
+			tail?: number;
+			follow?: boolean;
+		}
+	): Promise<string[]> {
+		await this.ensureInitialized();
+
+		// `follow` is ignored: this provider only returns a point-in-time view of the logs
+		const args = ['logs'];
+		if (options?.since) args.push('--since', options.since.toISOString());
+		if (options?.until) args.push('--until', options.until.toISOString());
+		if (options?.tail) args.push('--tail', String(options.tail));
+		args.push(sandboxId);
+
+		const result = await this.docker(args);
+		if (result.exitCode !== 0) {
+			throw new Error(`Failed to read Docker container logs: ${result.stderr.trim()}`);
+		}
+
+		return `${result.stdout.toString('utf-8')}${result.stderr}`.split('\n').filter(Boolean);
+	}
+
+	async connectTerminal(
+		sandboxId: string,
+		options?: {
+			shell?: string;
+			workingDir?: string;
+			rows?: number;
+			cols?: number;
+		}
+	): Promise<{
+		sessionId: string;
+		wsUrl?: string;
+		sshConnection?: { host: string; port?: number; user?: string; instructions?: string };
+	}> {
+		await this.requireSandbox(sandboxId);
+
+		const sessionId = `docker-term-${createId()}`;
+		this.terminalSessions.set(sessionId, sandboxId);
+		this.emit('terminal:connected', sandboxId, sessionId);
+
+		const shell = options?.shell || 'sh';
+		const workingDir = options?.workingDir || this.config.workspaceDir;
+		return {
+			sessionId,
+			sshConnection: {
+				host: 'localhost',
+				instructions: `${this.config.binary} exec -it -w ${workingDir} ${sandboxId} ${shell}`
+			}
+		};
+	}
+
+	async disconnectTerminal(sessionId: string): Promise<boolean> {
+		const sandboxId = this.terminalSessions.get(sessionId);
+		if (!sandboxId) return false;
+
+		this.terminalSessions.delete(sessionId);
+		this.emit('terminal:disconnected', sandboxId, sessionId);
+		return true;
+	}
+
+	async forwardPort(
+		sandboxId: string,
+		internalPort: number,
+		options?: {
+			externalPort?: number;
+			protocol?: 'tcp' | 'udp';
+			public?: boolean;
+		}
+	): Promise<{ externalPort: number; url?: string }> {
+		const environment = await this.requireSandbox(sandboxId);
+		const protocol = options?.protocol || 'tcp';
+
+		const mapping = environment.network.ports.find(
+			(port) => port.internal === internalPort && port.protocol === protocol && port.external
+		);
+		if (!mapping?.external) {
+			throw new Error(
+				`Port ${internalPort}/${protocol} was not published when the Docker container was created`
+			);
+		}
+
+		return {
+			externalPort: mapping.external,
+			url: protocol === 'tcp' ? `http://localhost:${mapping.external}` : undefined
+		};
+	}
+
+	async removePortForward(sandboxId: string, externalPort: number): Promise<boolean> {
+		throw new Error(
+			`Port ${externalPort} on ${sandboxId} cannot be unpublished without recreating the container`
+		);
+	}
+
+	async getProviderInfo(): Promise<{
+		version: string;
+		status: 'healthy' | 'degraded' | 'unavailable';
+		limits: {
+			maxSandboxes: number;
+			maxConcurrentSessions: number;
+			maxFileSize: number;
+			maxExecutionTime: number;
+		};
+		usage: {
+			activeSandboxes: number;
+			totalSandboxes: number;
+			resourceUsage: {
+				cpu: number;
+				memory: number;
+				storage: number;
+			};
+		};
+	}> {
+		const limits = {
+			maxSandboxes: this.config.limits.maxConcurrentContainers,
+			maxConcurrentSessions: this.config.limits.maxConcurrentContainers,
+			maxFileSize: this.config.limits.maxFileSize,
+			maxExecutionTime: this.config.limits.maxExecutionTime
+		};
+
+		try {
+			const sandboxes = await this.listSandboxes();
+			const active = sandboxes.filter((sandbox) => sandbox.status === 'running');
+
+			return {
+				version: this.serverVersion,
+				status: 'healthy',
+				limits,
+				usage: {
+					activeSandboxes: active.length,
+					totalSandboxes: sandboxes.length,
+					resourceUsage: {
+						cpu: active.reduce((sum, sandbox) => sum + sandbox.resources.cpu, 0),
+						memory: active.reduce((sum, sandbox) => sum + sandbox.resources.memory, 0),
+						storage: 0 // Not tracked per container
+					}
+				}
+			};
+		} catch {
+			return {
+				version: 'unknown',
+				status: 'unavailable',
+				limits,
+				usage: {
+					activeSandboxes: 0,
+					totalSandboxes: 0,
+					resourceUsage: {
+						cpu: 0,
+						memory: 0,
+						storage: 0
+					}
+				}
+			};
+		}
+	}
+
+	async healthCheck(): Promise<{
+		healthy: boolean;
+		latency: number;
+		error?: string;
+		details?: Record<string, unknown>;
+	}> {
+		const startTime = Date.now();
+
+		try {
+			const result = await this.docker(['info', '--format', '{{.ServerVersion}}'], {
+				timeout: 10000
+			});
+			const latency = Date.now() - startTime;
+
+			if (result.exitCode !== 0) {
+				return { healthy: false, latency, error: result.stderr.trim() };
+			}
+
+			return {
+				healthy: true,
+				latency,
+				details: { serverVersion: result.stdout.toString('utf-8').trim() }
+			};
+		} catch (error) {
+			return {
+				healthy: false,
+				latency: Date.now() - startTime,
+				error: error instanceof Error ? error.message : String(error)
+			};
+		}
+	}
+
+	async cleanup(): Promise<void> {
+		// Containers are left running; they are owned by the Docker daemon, not this process
+		this.terminalSessions.clear();
+		this.eventListeners.clear();
+		this.initialized = false;
+	}
+
+	// Event management methods
+	on<K extends keyof SandboxProviderEvents>(event: K, listener: SandboxProviderEvents[K]): void {
+		if (!this.eventListeners.has(event)) {
+			this.eventListeners.set(event, []);
+		}
+		this.eventListeners.get(event)!.push(listener);
+	}
+
+	off<K extends keyof SandboxProviderEvents>(event: K, listener: SandboxProviderEvents[K]): void {
+		const listeners = this.eventListeners.get(event) || [];
+		const index = listeners.indexOf(listener);
+		if (index > -1) {
+			listeners.splice(index, 1);
+		}
+	}
+
+	// Private helper methods
+	private async ensureInitialized(): Promise<void> {
+		if (!this.initialized) {
+			await this.initialize();
+		}
+	}
+
+	private async requireSandbox(sandboxId: string): Promise<SandboxEnvironment> {
+		const environment = await this.getSandbox(sandboxId);
+		if (!environment) {
+			throw new Error(`Docker container ${sandboxId} not found`);
+		}
+		return environment;
+	}
+
+	private async runLifecycleCommand(
+		command: 'start' | 'stop' | 'restart',
+		sandboxId: string
+	): Promise<void> {
+		await this.ensureInitialized();
+		await this.requireSandbox(sandboxId);
+
+		const result = await this.docker([command, sandboxId], {
+			timeout: this.config.limits.maxExecutionTime
+		});
+		if (result.exitCode !== 0) {
+			const error = new Error(`Failed to ${command} Docker container: ${result.stderr.trim()}`);
+			this.emit('sandbox:error', sandboxId, error);
+			throw error;
+		}
+	}
+
+	private async inspectContainers(names: string[]): Promise<ContainerInspect[]> {
+		if (names.length === 0) return [];
+
+		// `docker inspect` prints the containers it found even when some names are unknown.
+		// Containers Aura did not create are treated as missing.
+		const result = await this.docker(['inspect', '--type', 'container', ...names]);
+		try {
+			const parsed = JSON.parse(result.stdout.toString('utf-8') || '[]');
+			return Array.isArray(parsed)
+				? parsed.filter(
+						(container: ContainerInspect) => container.Config?.Labels?.[SANDBOX_LABEL] === 'true'
+					)
+				: [];
+		} catch {
+			return [];
+		}
+	}
+
+	private buildRunArgs(sandboxId: string, spec: ContainerSpec): string[] {
+		const args = [
+			'run',
+			'-d',
+			'--name',
+			sandboxId,
+			'--hostname',
+			sandboxId,
+			'-w',
+			this.config.workspaceDir,
+			'--network',
+			this.config.network
+		];
+
+		for (const [key, value] of Object.entries(spec.labels)) {
+			args.push('--label', `${key}=${value}`);
+		}
+		for (const [key, value] of Object.entries(spec.environment)) {
+			args.push('-e', `${key}=${value}`);
+		}
+		if (spec.cpu) args.push('--cpus', String(spec.cpu));
+		if (spec.memory) args.push('--memory', `${spec.memory}m`);
+		for (const port of spec.ports) {
+			const host = port.public ? '' : '127.0.0.1:';
+			const external = port.external ? String(port.external) : '';
+			args.push('-p', `${host}${external}:${port.internal}/${port.protocol}`);
+		}
+
+		// Keep the container alive; all work happens through `docker exec`
+		args.push(spec.image, 'tail', '-f', '/dev/null');
+		return args;
+	}
+
+	private containerSpecFromInspect(container: ContainerInspect): ContainerSpec {
+		const environment: Record<string, string> = {};
+		for (const entry of container.Config.Env || []) {
+			const separator = entry.indexOf('=');
+			if (separator > 0) environment[entry.slice(0, separator)] = entry.slice(separator + 1);
+		}
+
+		return {
+			image: container.Config.Image,
+			labels: container.Config.Labels || {},
+			environment,
+			cpu: container.HostConfig.NanoCpus ? container.HostConfig.NanoCpus / 1e9 : undefined,
+			memory: container.HostConfig.Memory
+				? Math.round(container.HostConfig.Memory / 1024 / 1024)
+				: undefined,
+			ports: this.mapPorts(container)
+		};
+	}
+
+	private mapPorts(container: ContainerInspect): PortMapping[] {
+		return Object.entries(container.NetworkSettings.Ports || {}).map(([key, bindings]) => {
+			const [internal, protocol] = key.split('/');
+			const binding = bindings?.[0];
+			return {
+				internal: parseInt(internal, 10),
+				external: binding ? parseInt(binding.HostPort, 10) : undefined,
+				protocol: protocol === 'udp' ? 'udp' : 'tcp',
+				public: !!binding && binding.HostIp !== '127.0.0.1'
+			};
+		});
+	}
+
+	private mapContainerToEnvironment(container: ContainerInspect): SandboxEnvironment {
+		const labels = container.Config.Labels || {};
+		const sandboxId = container.Name.replace(/^\//, '');
+		const ports = this.mapPorts(container);
+		const publicPort = ports.find((port) => port.external && port.protocol === 'tcp');
+		const startedAt =
+			container.State.StartedAt && !container.State.StartedAt.startsWith('0001')
+				? new Date(container.State.StartedAt)
+				: undefined;
+
+		return {
+			id: sandboxId,
+			name: labels['aura.name'] || sandboxId,
+			provider: 'docker',
+			status: this.mapContainerStateToStatus(container.State.Status),
+			template: labels['aura.template'],
+			runtime: labels['aura.runtime'],
+			resources: {
+				cpu: container.HostConfig.NanoCpus
+					? container.HostConfig.NanoCpus / 1e9
+					: resourceLimits.cpu.default,
+				memory: container.HostConfig.Memory
+					? Math.round(container.HostConfig.Memory / 1024 / 1024)
+					: resourceLimits.memory.default,
+				storage: resourceLimits.storage.default
+			},
+			network: {
+				ports,
+				publicUrl: publicPort ? `http://localhost:${publicPort.external}` : undefined
+			},
+			metadata: {
+				containerId: container.Id,
+				image: container.Config.Image,
+				userId: labels['aura.userId'],
+				projectId: labels['aura.projectId']
+			},
+			createdAt: new Date(container.Created),
+			lastActivity: startedAt || new Date(container.Created)
+		};
+	}
+
+	private mapContainerStateToStatus(state: string): SandboxStatus {
+		switch (state) {
+			case 'running':
+				return 'running';
+			case 'created':
+			case 'exited':
+			case 'paused':
+				return 'stopped';
+			case 'removing':
+				return 'terminating';
+			case 'dead':
+				return 'error';
+			default:
+				return 'initializing';
+		}
+	}
+
+	private emit<K extends keyof SandboxProviderEvents>(
+		event: K,
+		...args: Parameters<SandboxProviderEvents[K]>
+	): void {
+		const listeners = (this.eventListeners.get(event) || []) as SandboxProviderEvents[K][];
+		listeners.forEach((listener) => {
+			try {
+				(listener as (...args: Parameters<SandboxProviderEvents[K]>) => void)(...args);
+			} catch (error) {
+				console.error(`Error in ${event} event listener:`, error);
+			}
+		});
+	}
+
+	private splitPair(value?: string): [string, string] {
+		const [first = '0B', second = '0B'] = (value || '').split('/').map((part) => part.trim());
+		return [first, second];
+	}
+
+	private docker(
+		args: string[],
+		options?: { input?: Buffer; timeout?: number; environment?: Record<string, string> }
+	): Promise<DockerCommandResult> {
+		return new Promise((resolve, reject) => {
+			const child = spawn(this.config.binary, args, {
+				env: {
+					...process.env,
+					...(this.config.host ? { DOCKER_HOST: this.config.host } : {}),
+					...options?.environment
+				}
+			});
+
+			const stdout: Buffer[] = [];
+			const stderr: Buffer[] = [];
+			let timedOut = false;
+
+			const timer = setTimeout(() => {
+				timedOut = true;
+				child.kill('SIGKILL');
+			}, options?.timeout || this.config.limits.commandTimeout);
+
+			child.stdout.on('data', (chunk: Buffer) => stdout.push(chunk));
+			child.stderr.on('data', (chunk: Buffer) => stderr.push(chunk));
+			child.on('error', (error) => {
+				clearTimeout(timer);
+				reject(new Error(`Failed to run ${this.config.binary}: ${error.message}`));
+			});
+			child.on('close', (code) => {
+				clearTimeout(timer);
+				resolve({
+					stdout: Buffer.concat(stdout),
+					stderr: timedOut
+						? `Command timed out after ${options?.timeout || this.config.limits.commandTimeout}ms`
+						: Buffer.concat(stderr).toString('utf-8'),
+					exitCode: timedOut ? 124 : (code ?? 1)
+				});
+			});
+
+			child.stdin.end(options?.input);
+		});
+	}
+}
+
+/**
+ * Parse sizes printed by `docker stats` (e.g. "12.5MiB", "1.2kB") into bytes
+ */
+export function parseDockerSize(value: string): number {
+	const match = value.trim().match(/^([\d.]+)\s*([kKMGT]?i?B)?$/);
+	if (!match) return 0;
+
+	const amount = parseFloat(match[1]);
+	const unit = match[2] || 'B';
+	const binary = unit.includes('i');
+	const base = binary ? 1024 : 1000;
+	const power = { B: 0, K: 1, k: 1, M: 2, G: 3, T: 4 }[
+		unit[0] as 'B' | 'K' | 'k' | 'M' | 'G' | 'T'
+	];
+
+	return Math.round(amount * Math.pow(base, power ?? 0));
+}
+
+function bytesToMb(bytes: number): number {
+	return Math.round((bytes / 1024 / 1024) * 100) / 100;
+}
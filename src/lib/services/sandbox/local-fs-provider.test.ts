@@ -0,0 +1,204 @@
+/**
+ * Local Filesystem Provider Tests
+ */
+
+import { existsSync, mkdtempSync, rmSync, symlinkSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterAll, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const testRoot = mkdtempSync(join(tmpdir(), 'aura-local-fs-test-'));
+
+vi.mock('$env/dynamic/private', () => ({
+	env: {
+		LOCAL_SANDBOX_ENABLED: 'true',
+		LOCAL_SANDBOX_ROOT: testRoot
+	}
+}));
+
+const { LocalFsProvider } = await import('./local-fs-provider.js');
+
+describe('LocalFsProvider', () => {
+	let provider: InstanceType<typeof LocalFsProvider>;
+	let sandboxId: string;
+
+	beforeEach(async () => {
+		provider = new LocalFsProvider();
+		await provider.initialize();
+		const sandbox = await provider.createSandbox({ userId: 'user-1', projectId: 'project-1' });
+		sandboxId = sandbox.id;
+	});
+
+	afterAll(() => {
+		rmSync(testRoot, { recursive: true, force: true });
+	});
+
+	describe('File Operations', () => {
+		it('should write and read files under the workspace', async () => {
+			await provider.writeFile(sandboxId, '/workspace/src/index.ts', 'export const a = 1;');
+
+			const file = await provider.readFile(sandboxId, '/workspace/src/index.ts');
+			expect(file?.content).toBe('export const a = 1;');
+			expect(file?.size).toBe(19);
+		});
+
+		it('should return null for missing files', async () => {
+			expect(await provider.readFile(sandboxId, '/workspace/missing.txt')).toBeNull();
+		});
+
+		it('should list files with virtual paths', async () => {
+			await provider.writeFile(sandboxId, '/workspace/a.txt', 'a');
+			await provider.writeFile(sandboxId, '/workspace/dir/b.txt', 'b');
+			await provider.writeFile(sandboxId, '/workspace/.hidden', 'h');
+
+			const shallow = await provider.listFiles(sandboxId, '/workspace');
+			expect(shallow.map((entry) => entry.path).sort()).toEqual([
+				'/workspace/a.txt',
+				'/workspace/dir'
+			]);
+
+			const deep = await provider.listFiles(sandboxId, '/workspace', {
+				recursive: true,
+				includeHidden: true
+			});
+			expect(deep.map((entry) => entry.path).sort()).toEqual([
+				'/workspace/.hidden',
+				'/workspace/a.txt',
+				'/workspace/dir',
+				'/workspace/dir/b.txt'
+			]);
+		});
+
+		it('should upload and download files relative to the base directory', async () => {
+			const result = await provider.uploadFiles(sandboxId, {
+				'package.json': '{"name":"demo"}',
+				'bin/data.bin': Buffer.from([0, 1, 2])
+			});
+			expect(result.uploaded).toHaveLength(2);
+			expect(result.failed).toHaveLength(0);
+
+			const files = await provider.downloadFiles(sandboxId, ['package.json', 'bin/data.bin']);
+			expect(files['package.json'].toString('utf-8')).toBe('{"name":"demo"}');
+			expect([...files['bin/data.bin']]).toEqual([0, 1, 2]);
+		});
+	});
+
+	describe('Path Escape Protection', () => {
+		it('should reject traversal above the sandbox root', async () => {
+			await expect(provider.writeFile(sandboxId, '/../../escape.txt', 'x')).rejects.toThrow(
+				'Path escapes sandbox root'
+			);
+			await expect(provider.listFiles(sandboxId, '/workspace/../../..')).rejects.toThrow(
+				'Path escapes sandbox root'
+			);
+		});
+
+		it('should allow traversal that stays inside the sandbox', async () => {
+			await provider.writeFile(sandboxId, '/workspace/src/../notes.txt', 'inside');
+
+			const file = await provider.readFile(sandboxId, '/workspace/notes.txt');
+			expect(file?.content).toBe('inside');
+		});
+
+		it('should reject symlinks pointing outside the sandbox', async () => {
+			const environment = await provider.getSandbox(sandboxId);
+			symlinkSync(tmpdir(), join(environment!.metadata.rootDir, 'workspace', 'link'));
+
+			await expect(provider.readFile(sandboxId, '/workspace/link/anything')).rejects.toThrow(
+				'Path escapes sandbox root'
+			);
+			await expect(provider.writeFile(sandboxId, '/workspace/link/x.txt', 'x')).rejects.toThrow(
+				'Path escapes sandbox root'
+			);
+		});
+
+		it('should reject dangling symlinks pointing outside the sandbox', async () => {
+			const environment = await provider.getSandbox(sandboxId);
+			const outside = join(testRoot, 'outside.txt');
+			symlinkSync(outside, join(environment!.metadata.rootDir, 'workspace', 'dangling'));
+
+			await expect(provider.writeFile(sandboxId, '/workspace/dangling', 'x')).rejects.toThrow(
+				'Path escapes sandbox root'
+			);
+			expect(existsSync(outside)).toBe(false);
+		});
+
+		it('should follow dangling symlinks that stay inside the sandbox', async () => {
+			const environment = await provider.getSandbox(sandboxId);
+			const workspace = join(environment!.metadata.rootDir, 'workspace');
+			symlinkSync(join(workspace, 'target.txt'), join(workspace, 'alias.txt'));
+
+			await provider.writeFile(sandboxId, '/workspace/alias.txt', 'inside');
+			expect((await provider.readFile(sandboxId, '/workspace/target.txt'))?.content).toBe('inside');
+		});
+
+		it('should skip escaping paths when uploading', async () => {
+			const environment = await provider.getSandbox(sandboxId);
+			symlinkSync(tmpdir(), join(environment!.metadata.rootDir, 'workspace', 'link'));
+
+			const result = await provider.uploadFiles(sandboxId, { 'link/x.txt': 'x', 'ok.txt': 'ok' });
+			expect(result.uploaded).toEqual(['ok.txt']);
+			expect(result.failed).toEqual(['link/x.txt']);
+		});
+	});
+
+	describe('Command Execution', () => {
+		it('should run commands in the workspace directory', async () => {
+			await provider.writeFile(sandboxId, '/workspace/hello.txt', 'hello');
+
+			const result = await provider.executeCommand(sandboxId, 'cat hello.txt && pwd');
+			expect(result.success).toBe(true);
+			expect(result.output).toContain('hello');
+			expect(result.output.trim().endsWith('/workspace')).toBe(true);
+		});
+
+		it('should report failures and stderr', async () => {
+			const result = await provider.executeCommand(sandboxId, 'echo oops >&2; exit 3');
+			expect(result.success).toBe(false);
+			expect(result.exitCode).toBe(3);
+			expect(result.error).toContain('oops');
+		});
+
+		it('should record executed commands in the logs', async () => {
+			await provider.executeCommand(sandboxId, 'true');
+
+			const logs = await provider.getLogs(sandboxId, { tail: 2 });
+			expect(logs).toHaveLength(2);
+			expect(logs[0]).toContain('$ true');
+			expect(logs[1]).toContain('exit 0');
+		});
+	});
+
+	describe('Port Forwarding', () => {
+		it('should give every sandbox a host port of its own', async () => {
+			const other = await provider.createSandbox({ userId: 'user-1', projectId: 'project-2' });
+
+			const first = await provider.forwardPort(sandboxId, 7620);
+			const second = await provider.forwardPort(other.id, 7620);
+
+			expect(first.externalPort).not.toBe(second.externalPort);
+			expect(await provider.forwardPort(sandboxId, 7620)).toEqual(first);
+			expect(first.url).toBe(`http://localhost:${first.externalPort}`);
+		});
+	});
+
+	describe('Lifecycle', () => {
+		it('should delete the sandbox directory', async () => {
+			const environment = await provider.getSandbox(sandboxId);
+			expect(await provider.deleteSandbox(sandboxId)).toBe(true);
+			expect(await provider.getSandbox(sandboxId)).toBeNull();
+			expect(await provider.deleteSandbox(sandboxId)).toBe(false);
+			expect(environment?.metadata.rootDir).toBeDefined();
+		});
+
+		it('should restore snapshots', async () => {
+			await provider.writeFile(sandboxId, '/workspace/state.txt', 'before');
+			const { snapshotId } = await provider.createSnapshot(sandboxId);
+			await provider.writeFile(sandboxId, '/workspace/state.txt', 'after');
+
+			expect(await provider.restoreSnapshot(sandboxId, snapshotId)).toBe(true);
+			const file = await provider.readFile(sandboxId, '/workspace/state.txt');
+			expect(file?.content).toBe('before');
+		});
+	});
+});
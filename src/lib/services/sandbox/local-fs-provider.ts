@@ -0,0 +1,965 @@
+/**
+ * Local Filesystem Sandbox Provider Implementation
+ * Maps each sandbox to a temporary directory on the host and runs commands with child_process.
+ * Intended for tests and offline development: file access is confined to the sandbox
+ * directory, but commands run as the host user without any isolation.
+ */
+
+import type { SandboxProvider, SandboxStatus } from '$lib/types/sandbox.js';
+import { spawn } from 'node:child_process';
+import {
+	cp,
+	lstat,
+	mkdir,
+	mkdtemp,
+	readdir,
+	readFile,
+	readlink,
+	realpath,
+	rm,
+	stat,
+	writeFile
+} from 'node:fs/promises';
+import { createServer } from 'node:net';
+import { dirname, join, posix, relative, resolve, sep } from 'node:path';
+import { nanoid } from 'nanoid';
+import { localFsConfig, resourceLimits } from '../../config/sandbox.config.js';
+import type {
+	ExecutionResult,
+	FileSystemEntry,
+	ISandboxProvider,
+	SandboxCreateOptions,
+	SandboxEnvironment,
+	SandboxFile,
+	SandboxMetrics,
+	SandboxProviderEvents,
+	SandboxUpdateOptions
+} from './sandbox-provider.interface.js';
+
+interface LocalSandbox {
+	environment: SandboxEnvironment;
+	rootDir: string;
+	env: Record<string, string>;
+	logs: Array<{ timestamp: Date; line: string }>;
+	snapshots: Map<string, string>; // snapshotId -> directory
+	startedAt: Date;
+}
+
+/**
+ * Local Filesystem Provider Implementation
+ */
+export class LocalFsProvider implements ISandboxProvider {
+	readonly name: SandboxProvider = 'local';
+	readonly capabilities = {
+		supportsFileSystem: true,
+		supportsTerminal: false,
+		supportsPortForwarding: true, // Commands run on the host, so ports are host ports
+		supportsSnapshots: true,
+		supportsResourceScaling: false,
+		maxConcurrentSessions: localFsConfig.limits.maxSandboxes,
+		supportedRuntimes: ['universal']
+	};
+
+	private initialized = false;
+	private sandboxes = new Map<string, LocalSandbox>();
+	private eventListeners = new Map<
+		keyof SandboxProviderEvents,
+		SandboxProviderEvents[keyof SandboxProviderEvents][]
+	>();
+
+	constructor(private config: typeof localFsConfig = localFsConfig) {}
+
+	async initialize(): Promise<void> {
+		if (this.initialized) return;
+
+		try {
+			await mkdir(this.config.rootDir, { recursive: true });
+			this.initialized = true;
+		} catch (error) {
+			throw new Error(`Failed to initialize local filesystem provider: ${error}`);
+		}
+	}
+
+	async createSandbox(config: SandboxCreateOptions): Promise<SandboxEnvironment> {
+		await this.ensureInitialized();
+
+		if (this.sandboxes.size >= this.config.limits.maxSandboxes) {
+			throw new Error(`Local sandbox limit reached (${this.config.limits.maxSandboxes} sandboxes)`);
+		}
+
+		const sandboxId = `local-${nanoid(10)}`;
+		const rootDir = await realpath(await mkdtemp(join(this.config.rootDir, `${sandboxId}-`)));
+		await mkdir(join(rootDir, this.config.workspaceDir), { recursive: true });
+
+		const now = new Date();
+		const environment: SandboxEnvironment = {
+			id: sandboxId,
+			name: config.name || sandboxId,
+			provider: 'local',
+			status: 'running',
+			template: config.template,
+			runtime: config.runtime,
+			resources: {
+				cpu: config.resources?.cpu ?? resourceLimits.cpu.default,
+				memory: config.resources?.memory ?? resourceLimits.memory.default,
+				storage: config.resources?.storage ?? resourceLimits.storage.default
+			},
+			network: {
+				ports: config.ports || []
+			},
+			metadata: {
+				...config.metadata,
+				rootDir,
+				userId: config.userId,
+				projectId: config.projectId
+			},
+			createdAt: now,
+			lastActivity: now
+		};
+
+		this.sandboxes.set(sandboxId, {
+			environment,
+			rootDir,
+			env: { ...config.environment },
+			logs: [],
+			snapshots: new Map(),
+			startedAt: now
+		});
+		this.log(sandboxId, `Sandbox created at ${rootDir}`);
+
+		this.emit('sandbox:created', environment);
+		return environment;
+	}
+
+	async getSandbox(sandboxId: string): Promise<SandboxEnvironment | null> {
+		await this.ensureInitialized();
+		return this.sandboxes.get(sandboxId)?.environment || null;
+	}
+
+	async listSandboxes(filters?: {
+		userId?: string;
+		projectId?: string;
+		status?: SandboxStatus;
+		template?: string;
+	}): Promise<SandboxEnvironment[]> {
+		await this.ensureInitialized();
+
+		return Array.from(this.sandboxes.values())
+			.map((sandbox) => sandbox.environment)
+			.filter(
+				(environment) =>
+					(!filters?.userId || environment.metadata.userId === filters.userId) &&
+					(!filters?.projectId || environment.metadata.projectId === filters.projectId) &&
+					(!filters?.status || environment.status === filters.status) &&
+					(!filters?.template || environment.template === filters.template)
+			);
+	}
+
+	async updateSandbox(
+		sandboxId: string,
+		options: SandboxUpdateOptions
+	): Promise<SandboxEnvironment> {
+		const sandbox = this.requireSandbox(sandboxId);
+
+		if (options.environment) sandbox.env = { ...sandbox.env, ...options.environment };
+		if (options.ports) sandbox.environment.network.ports = options.ports;
+		if (options.metadata) {
+			sandbox.environment.metadata = { ...sandbox.environment.metadata, ...options.metadata };
+		}
+		if (options.resources) {
+			sandbox.environment.resources = {
+				...sandbox.environment.resources,
+				...Object.fromEntries(
+					Object.entries(options.resources).filter(([, value]) => value !== undefined)
+				)
+			};
+		}
+
+		return sandbox.environment;
+	}
+
+	async startSandbox(sandboxId: string): Promise<SandboxEnvironment> {
+		const sandbox = this.requireSandbox(sandboxId);
+		sandbox.environment.status = 'running';
+		sandbox.startedAt = new Date();
+		this.log(sandboxId, 'Sandbox started');
+
+		this.emit('sandbox:started', sandbox.environment);
+		return sandbox.environment;
+	}
+
+	async stopSandbox(sandboxId: string): Promise<SandboxEnvironment> {
+		const sandbox = this.requireSandbox(sandboxId);
+		sandbox.environment.status = 'stopped';
+		this.log(sandboxId, 'Sandbox stopped');
+
+		this.emit('sandbox:stopped', sandbox.environment);
+		return sandbox.environment;
+	}
+
+	async restartSandbox(sandboxId: string): Promise<SandboxEnvironment> {
+		await this.stopSandbox(sandboxId);
+		return await this.startSandbox(sandboxId);
+	}
+
+	async deleteSandbox(sandboxId: string): Promise<boolean> {
+		await this.ensureInitialized();
+
+		const sandbox = this.sandboxes.get(sandboxId);
+		if (!sandbox) return false;
+
+		try {
+			await rm(sandbox.rootDir, { recursive: true, force: true });
+			for (const snapshotDir of sandbox.snapshots.values()) {
+				await rm(snapshotDir, { recursive: true, force: true });
+			}
+		} catch (error) {
+			this.emit(
+				'sandbox:error',
+				sandboxId,
+				error instanceof Error ? error : new Error(String(error))
+			);
+			throw new Error(`Failed to delete local sandbox: ${error}`);
+		}
+
+		this.sandboxes.delete(sandboxId);
+		this.emit('sandbox:deleted', sandboxId);
+		return true;
+	}
+
+	async getMetrics(sandboxId: string): Promise<SandboxMetrics | null> {
+		const sandbox = this.sandboxes.get(sandboxId);
+		if (!sandbox) return null;
+
+		const storageMb =
+			Math.round(((await directorySize(sandbox.rootDir)) / 1024 / 1024) * 100) / 100;
+		const storageLimit = sandbox.environment.resources.storage;
+
+		return {
+			cpu: { usage: 0, limit: sandbox.environment.resources.cpu }, // Not tracked per sandbox
+			memory: { usage: 0, limit: sandbox.environment.resources.memory, percentage: 0 },
+			storage: {
+				usage: storageMb,
+				limit: storageLimit,
+				percentage: storageLimit ? Math.round((storageMb / storageLimit) * 10000) / 100 : 0
+			},
+			network: { bytesIn: 0, bytesOut: 0, connectionsActive: 0 },
+			uptime:
+				sandbox.environment.status === 'running'
+					? Math.floor((Date.now() - sandbox.startedAt.getTime()) / 1000)
+					: 0,
+			lastUpdated: new Date()
+		};
+	}
+
+	async executeCommand(
+		sandboxId: string,
+		command: string,
+		options?: {
+			workingDir?: string;
+			timeout?: number;
+			environment?: Record<string, string>;
+		}
+	): Promise<ExecutionResult> {
+		const startTime = Date.now();
+
+		try {
+			const sandbox = this.requireRunningSandbox(sandboxId);
+			const cwd = await this.resolvePath(sandbox, options?.workingDir || this.config.workspaceDir);
+			const timeout = options?.timeout || this.config.limits.commandTimeout;
+
+			this.log(sandboxId, `$ ${command}`);
+			const result = await runShell(this.config.shell, command, {
+				cwd,
+				timeout,
+				env: {
+					PATH: process.env.PATH || '/usr/local/bin:/usr/bin:/bin',
+					HOME: sandbox.rootDir,
+					AURA_SANDBOX_ID: sandboxId,
+					AURA_SANDBOX_ROOT: sandbox.rootDir,
+					...sandbox.env,
+					...options?.environment
+				}
+			});
+			this.log(sandboxId, `exit ${result.exitCode} (${Date.now() - startTime}ms)`);
+			this.touch(sandbox);
+
+			return {
+				success: result.exitCode === 0,
+				output: result.stdout,
+				error: result.stderr || undefined,
+				exitCode: result.exitCode,
+				duration: Date.now() - startTime,
+				timestamp: new Date()
+			};
+		} catch (error) {
+			return {
+				success: false,
+				output: '',
+				error: error instanceof Error ? error.message : String(error),
+				exitCode: 1,
+				duration: Date.now() - startTime,
+				timestamp: new Date()
+			};
+		}
+	}
+
+	async listFiles(
+		sandboxId: string,
+		path = this.config.workspaceDir,
+		options?: {
+			recursive?: boolean;
+			includeHidden?: boolean;
+			maxDepth?: number;
+		}
+	): Promise<FileSystemEntry[]> {
+		const sandbox = this.requireSandbox(sandboxId);
+		const directory = await this.resolvePath(sandbox, path);
+		const maxDepth = options?.recursive ? options.maxDepth || 10 : 1;
+		const entries: FileSystemEntry[] = [];
+
+		const walk = async (current: string, depth: number): Promise<void> => {
+			let dirents;
+			try {
+				dirents = await readdir(current, { withFileTypes: true });
+			} catch (error) {
+				if ((error as NodeJS.ErrnoException).code === 'ENOENT' && current === directory) return;
+				throw new Error(`Failed to list files in local sandbox: ${error}`);
+			}
+
+			for (const dirent of dirents) {
+				if (!options?.includeHidden && dirent.name.startsWith('.')) continue;
+
+				const fullPath = join(current, dirent.name);
+				const info = await stat(fullPath).catch(() => null);
+				if (!info) continue;
+
+				entries.push({
+					path: this.toVirtualPath(sandbox, fullPath),
+					type: info.isDirectory() ? 'directory' : 'file',
+					size: info.size,
+					modified: info.mtime,
+					permissions: (info.mode & 0o777).toString(8)
+				});
+
+				if (info.isDirectory() && depth < maxDepth) {
+					await walk(fullPath, depth + 1);
+				}
+			}
+		};
+
+		await walk(directory, 1);
+		this.touch(sandbox);
+		return entries;
+	}
+
+	async readFile(
+		sandboxId: string,
+		filePath: string,
+		options?: {
+			encoding?: 'utf-8' | 'base64' | 'binary';
+			maxSize?: number;
+		}
+	): Promise<SandboxFile | null> {
+		const sandbox = this.requireSandbox(sandboxId);
+		const fullPath = await this.resolvePath(sandbox, filePath);
+
+		const info = await stat(fullPath).catch(() => null);
+		if (!info || !info.isFile()) return null;
+
+		const maxSize = options?.maxSize ?? this.config.limits.maxFileSize;
+		if (info.size > maxSize) {
+			throw new Error(`File ${filePath} exceeds maximum size of ${maxSize} bytes`);
+		}
+
+		const buffer = await readFile(fullPath);
+		const encoding = options?.encoding || 'utf-8';
+		this.touch(sandbox);
+
+		return {
+			path: filePath,
+			content:
+				encoding === 'binary'
+					? buffer
+					: buffer.toString(encoding === 'base64' ? 'base64' : 'utf-8'),
+			encoding,
+			size: buffer.length,
+			modified: info.mtime
+		};
+	}
+
+	async writeFile(
+		sandboxId: string,
+		filePath: string,
+		content: string | Buffer,
+		options?: {
+			encoding?: 'utf-8' | 'base64' | 'binary';
+			createDirs?: boolean;
+			backup?: boolean;
+		}
+	): Promise<boolean> {
+		const sandbox = this.requireRunningSandbox(sandboxId);
+		const fullPath = await this.resolvePath(sandbox, filePath);
+
+		const buffer = Buffer.isBuffer(content)
+			? content
+			: Buffer.from(content, options?.encoding === 'base64' ? 'base64' : 'utf-8');
+		if (buffer.length > this.config.limits.maxFileSize) {
+			throw new Error(
+				`File ${filePath} exceeds maximum size of ${this.config.limits.maxFileSize} bytes`
+			);
+		}
+
+		try {
+			if (options?.createDirs !== false) {
+				await mkdir(dirname(fullPath), { recursive: true });
+			}
+			if (options?.backup) {
+				await cp(fullPath, `${fullPath}.bak`).catch(() => undefined);
+			}
+			await writeFile(fullPath, buffer);
+		} catch (error) {
+			throw new Error(`Failed to write file to local sandbox: ${error}`);
+		}
+
+		this.touch(sandbox);
+		this.emit('file:changed', sandboxId, filePath, 'modified');
+		return true;
+	}
+
+	async deleteFile(
+		sandboxId: string,
+		filePath: string,
+		options?: {
+			recursive?: boolean;
+			force?: boolean;
+		}
+	): Promise<boolean> {
+		const sandbox = this.requireRunningSandbox(sandboxId);
+		const fullPath = await this.resolvePath(sandbox, filePath);
+
+		if (fullPath === sandbox.rootDir) {
+			throw new Error('Refusing to delete the sandbox root');
+		}
+
+		const info = await stat(fullPath).catch(() => null);
+		if (!info) return false;
+
+		try {
+			await rm(fullPath, { recursive: options?.recursive, force: options?.force });
+		} catch (error) {
+			throw new Error(`Failed to delete file from local sandbox: ${error}`);
+		}
+
+		this.touch(sandbox);
+		this.emit('file:changed', sandboxId, filePath, 'deleted');
+		return true;
+	}
+
+	async createDirectory(
+		sandboxId: string,
+		dirPath: string,
+		options?: {
+			recursive?: boolean;
+			permissions?: string;
+		}
+	): Promise<boolean> {
+		const sandbox = this.requireRunningSandbox(sandboxId);
+		const fullPath = await this.resolvePath(sandbox, dirPath);
+
+		try {
+			await mkdir(fullPath, {
+				recursive: options?.recursive !== false,
+				mode: options?.permissions ? parseInt(options.permissions, 8) : undefined
+			});
+		} catch (error) {
+			throw new Error(`Failed to create directory in local sandbox: ${error}`);
+		}
+
+		this.touch(sandbox);
+		return true;
+	}
+
+	async uploadFiles(
+		sandboxId: string,
+		files: Record<string, string | Buffer>,
+		options?: {
+			baseDir?: string;
+			overwrite?: boolean;
+			createDirs?: boolean;
+		}
+	): Promise<{ uploaded: string[]; failed: string[] }> {
+		const sandbox = this.requireRunningSandbox(sandboxId);
+
+		const uploaded: string[] = [];
+		const failed: string[] = [];
+		const baseDir = options?.baseDir || this.config.workspaceDir;
+
+		for (const [filePath, content] of Object.entries(files)) {
+			try {
+				const virtualPath = filePath.startsWith('/') ? filePath : posix.join(baseDir, filePath);
+
+				if (options?.overwrite === false) {
+					const exists = await stat(await this.resolvePath(sandbox, virtualPath)).catch(() => null);
+					if (exists) {
+						failed.push(filePath);
+						continue;
+					}
+				}
+
+				await this.writeFile(sandboxId, virtualPath, content, {
+					createDirs: options?.createDirs,
+					encoding: typeof content === 'string' ? 'utf-8' : 'binary'
+				});
+				uploaded.push(filePath);
+			} catch {
+				failed.push(filePath);
+			}
+		}
+
+		return { uploaded, failed };
+	}
+
+	async downloadFiles(
+		sandboxId: string,
+		filePaths: string[],
+		options?: {
+			baseDir?: string;
+			compress?: boolean;
+		}
+	): Promise<Record<string, Buffer>> {
+		this.requireSandbox(sandboxId);
+
+		const files: Record<string, Buffer> = {};
+		const baseDir = options?.baseDir || this.config.workspaceDir;
+
+		for (const filePath of filePaths) {
+			try {
+				const virtualPath = filePath.startsWith('/') ? filePath : posix.join(baseDir, filePath);
+				const file = await this.readFile(sandboxId, virtualPath, { encoding: 'binary' });
+				if (file) {
+					files[filePath] = Buffer.isBuffer(file.content)
+						? file.content
+						: Buffer.from(file.content);
+				}
+			} catch {
+				// Skip failed files, including paths that escape the sandbox
+			}
+		}
+
+		return files;
+	}
+
+	async createSnapshot(
+		sandboxId: string,
+		name?: string,
+		options?: {
+			description?: string;
+			includeRuntime?: boolean;
+			compress?: boolean;
+		}
+	): Promise<{ snapshotId: string; size: number }> {
+		const sandbox = this.requireSandbox(sandboxId);
+
+		const snapshotId = `${sandboxId}-snap-${nanoid(8)}`;
+		const snapshotDir = join(this.config.rootDir, snapshotId);
+
+		try {
+			await cp(sandbox.rootDir, snapshotDir, { recursive: true });
+		} catch (error) {
+			throw new Error(`Failed to snapshot local sandbox: ${error}`);
+		}
+
+		sandbox.snapshots.set(snapshotId, snapshotDir);
+		this.log(
+			sandboxId,
+			`Snapshot ${snapshotId} created${name ? ` (${name})` : ''}${
+				options?.description ? `: ${options.description}` : ''
+			}`
+		);
+
+		return { snapshotId, size: await directorySize(snapshotDir) };
+	}
+
+	async restoreSnapshot(
+		sandboxId: string,
+		snapshotId: string,
+		options?: {
+			preserveFiles?: string[];
+			restartAfter?: boolean;
+		}
+	): Promise<boolean> {
+		const sandbox = this.requireSandbox(sandboxId);
+		const snapshotDir = sandbox.snapshots.get(snapshotId);
+		if (!snapshotDir) return false;
+
+		const preserved = options?.preserveFiles?.length
+			? await this.downloadFiles(sandboxId, options.preserveFiles)
+			: {};
+
+		try {
+			await rm(sandbox.rootDir, { recursive: true, force: true });
+			await cp(snapshotDir, sandbox.rootDir, { recursive: true });
+		} catch (error) {
+			throw new Error(`Failed to restore local sandbox snapshot: ${error}`);
+		}
+
+		if (Object.keys(preserved).length > 0) {
+			await this.uploadFiles(sandboxId, preserved);
+		}
+
+		this.log(sandboxId, `Snapshot ${snapshotId} restored`);
+		if (options?.restartAfter) {
+			await this.restartSandbox(sandboxId);
+		}
+
+		return true;
+	}
+
+	async getLogs(
+		sandboxId: string,
+		options?: {
+			since?: Date;
+			until?: Date;
+			tail?: number;
+			follow?: boolean;
+		}
+	): Promise<string[]> {
+		const sandbox = this.requireSandbox(sandboxId);
+
+		const lines = sandbox.logs
+			.filter(
+				(entry) =>
+					(!options?.since || entry.timestamp >= options.since) &&
+					(!options?.until || entry.timestamp <= options.until)
+			)
+			.map((entry) => `${entry.timestamp.toISOString()} ${entry.line}`);
+
+		return options?.tail ? lines.slice(-options.tail) : lines;
+	}
+
+	async connectTerminal(sandboxId: string): Promise<{ sessionId: string; wsUrl?: string }> {
+		throw new Error(
+			`Interactive terminals are not supported by the local filesystem provider (${sandboxId})`
+		);
+	}
+
+	async disconnectTerminal(): Promise<boolean> {
+		return false;
+	}
+
+	/**
+	 * Sandboxes share the host's network, so each sandbox gets a host port of its own
+	 * for an internal port; processes in the sandbox must listen on that host port
+	 */
+	async forwardPort(
+		sandboxId: string,
+		internalPort: number,
+		options?: {
+			externalPort?: number;
+			protocol?: 'tcp' | 'udp';
+			public?: boolean;
+		}
+	): Promise<{ externalPort: number; url?: string }> {
+		const sandbox = this.requireSandbox(sandboxId);
+		const protocol = options?.protocol || 'tcp';
+
+		let mapping = sandbox.environment.network.ports.find(
+			(port) => port.internal === internalPort && port.protocol === protocol && port.external
+		);
+		if (!mapping) {
+			mapping = {
+				internal: internalPort,
+				external: await this.allocateHostPort(options?.externalPort),
+				protocol,
+				public: false
+			};
+			sandbox.environment.network.ports.push(mapping);
+		}
+
+		const externalPort = mapping.external!;
+		return {
+			externalPort,
+			url: protocol === 'tcp' ? `http://localhost:${externalPort}` : undefined
+		};
+	}
+
+	async removePortForward(sandboxId: string, externalPort: number): Promise<boolean> {
+		const sandbox = this.requireSandbox(sandboxId);
+		const ports = sandbox.environment.network.ports;
+		const index = ports.findIndex((port) => port.external === externalPort);
+		if (index === -1) return false;
+
+		ports.splice(index, 1);
+		return true;
+	}
+
+	async getProviderInfo(): Promise<{
+		version: string;
+		status: 'healthy' | 'degraded' | 'unavailable';
+		limits: {
+			maxSandboxes: number;
+			maxConcurrentSessions: number;
+			maxFileSize: number;
+			maxExecutionTime: number;
+		};
+		usage: {
+			activeSandboxes: number;
+			totalSandboxes: number;
+			resourceUsage: {
+				cpu: number;
+				memory: number;
+				storage: number;
+			};
+		};
+	}> {
+		const sandboxes = Array.from(this.sandboxes.values());
+
+		return {
+			version: process.version,
+			status: this.initialized ? 'healthy' : 'unavailable',
+			limits: {
+				maxSandboxes: this.config.limits.maxSandboxes,
+				maxConcurrentSessions: this.config.limits.maxSandboxes,
+				maxFileSize: this.config.limits.maxFileSize,
+				maxExecutionTime: this.config.limits.commandTimeout
+			},
+			usage: {
+				activeSandboxes: sandboxes.filter((sandbox) => sandbox.environment.status === 'running')
+					.length,
+				totalSandboxes: sandboxes.length,
+				resourceUsage: {
+					cpu: 0,
+					memory: 0,
+					storage: 0
+				}
+			}
+		};
+	}
+
+	async healthCheck(): Promise<{
+		healthy: boolean;
+		latency: number;
+		error?: string;
+		details?: Record<string, unknown>;
+	}> {
+		const startTime = Date.now();
+
+		try {
+			await mkdir(this.config.rootDir, { recursive: true });
+			await stat(this.config.rootDir);
+			return {
+				healthy: true,
+				latency: Date.now() - startTime,
+				details: { rootDir: this.config.rootDir, sandboxes: this.sandboxes.size }
+			};
+		} catch (error) {
+			return {
+				healthy: false,
+				latency: Date.now() - startTime,
+				error: error instanceof Error ? error.message : String(error)
+			};
+		}
+	}
+
+	async cleanup(): Promise<void> {
+		for (const sandboxId of Array.from(this.sandboxes.keys())) {
+			await this.deleteSandbox(sandboxId).catch(() => undefined);
+		}
+		this.eventListeners.clear();
+		this.initialized = false;
+	}
+
+	// Event management methods
+	on<K extends keyof SandboxProviderEvents>(event: K, listener: SandboxProviderEvents[K]): void {
+		if (!this.eventListeners.has(event)) {
+			this.eventListeners.set(event, []);
+		}
+		this.eventListeners.get(event)!.push(listener);
+	}
+
+	off<K extends keyof SandboxProviderEvents>(event: K, listener: SandboxProviderEvents[K]): void {
+		const listeners = this.eventListeners.get(event) || [];
+		const index = listeners.indexOf(listener);
+		if (index > -1) {
+			listeners.splice(index, 1);
+		}
+	}
+
+	// Private helper methods
+	private async ensureInitialized(): Promise<void> {
+		if (!this.initialized) {
+			await this.initialize();
+		}
+	}
+
+	/** A free host port that no other sandbox has been given */
+	private async allocateHostPort(requested?: number): Promise<number> {
+		const taken = new Set(
+			[...this.sandboxes.values()].flatMap((sandbox) =>
+				sandbox.environment.network.ports.map((port) => port.external)
+			)
+		);
+		if (requested && !taken.has(requested)) return requested;
+
+		for (;;) {
+			const port = await new Promise<number>((resolvePort, reject) => {
+				const server = createServer();
+				server.once('error', reject);
+				server.listen(0, '127.0.0.1', () => {
+					const address = server.address();
+					server.close(() =>
+						typeof address === 'object' && address
+							? resolvePort(address.port)
+							: reject(new Error('No port was assigned'))
+					);
+				});
+			});
+			if (!taken.has(port)) return port;
+		}
+	}
+
+	private requireSandbox(sandboxId: string): LocalSandbox {
+		const sandbox = this.sandboxes.get(sandboxId);
+		if (!sandbox) {
+			throw new Error(`Local sandbox ${sandboxId} not found`);
+		}
+		return sandbox;
+	}
+
+	private requireRunningSandbox(sandboxId: string): LocalSandbox {
+		const sandbox = this.requireSandbox(sandboxId);
+		if (sandbox.environment.status !== 'running') {
+			throw new Error(`Local sandbox ${sandboxId} is not running`);
+		}
+		return sandbox;
+	}
+
+	/**
+	 * Resolve a sandbox path to a host path, treating `/` as the sandbox root.
+	 * Rejects `..` traversal and symlinks that point outside the sandbox, including
+	 * dangling ones that writing through would create the target of.
+	 */
+	private async resolvePath(sandbox: LocalSandbox, virtualPath: string): Promise<string> {
+		const target = resolve(sandbox.rootDir, `.${posix.sep}${virtualPath.replace(/^\/+/, '')}`);
+		if (!isInside(sandbox.rootDir, target)) {
+			throw new Error(`Path escapes sandbox root: ${virtualPath}`);
+		}
+
+		// Follow symlinks on the longest existing prefix of the path
+		let existing = target;
+		while (existing !== sandbox.rootDir) {
+			try {
+				const real = await realpath(existing);
+				if (!isInside(sandbox.rootDir, real)) {
+					throw new Error(`Path escapes sandbox root: ${virtualPath}`);
+				}
+				break;
+			} catch (error) {
+				if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+
+				// realpath fails on a dangling symlink, so check where it points by hand
+				const link = await lstat(existing).catch(() => null);
+				if (link?.isSymbolicLink()) {
+					const linkTarget = resolve(dirname(existing), await readlink(existing));
+					if (!isInside(sandbox.rootDir, linkTarget)) {
+						throw new Error(`Path escapes sandbox root: ${virtualPath}`);
+					}
+					existing = linkTarget;
+					continue;
+				}
+				existing = dirname(existing);
+			}
+		}
+
+		return target;
+	}
+
+	private toVirtualPath(sandbox: LocalSandbox, hostPath: string): string {
+		return `/${relative(sandbox.rootDir, hostPath).split(sep).join('/')}`;
+	}
+
+	private touch(sandbox: LocalSandbox): void {
+		sandbox.environment.lastActivity = new Date();
+	}
+
+	private log(sandboxId: string, line: string): void {
+		const sandbox = this.sandboxes.get(sandboxId);
+		if (!sandbox) return;
+
+		sandbox.logs.push({ timestamp: new Date(), line });
+		if (sandbox.logs.length > this.config.limits.maxLogEntries) {
+			sandbox.logs.splice(0, sandbox.logs.length - this.config.limits.maxLogEntries);
+		}
+	}
+
+	private emit<K extends keyof SandboxProviderEvents>(
+		event: K,
+		...args: Parameters<SandboxProviderEvents[K]>
+	): void {
+		const listeners = (this.eventListeners.get(event) || []) as SandboxProviderEvents[K][];
+		listeners.forEach((listener) => {
+			try {
+				(listener as (...args: Parameters<SandboxProviderEvents[K]>) => void)(...args);
+			} catch (error) {
+				console.error(`Error in ${event} event listener:`, error);
+			}
+		});
+	}
+}
+
+function isInside(root: string, target: string): boolean {
+	return target === root || target.startsWith(root + sep);
+}
+
+async function directorySize(directory: string): Promise<number> {
+	let total = 0;
+	const dirents = await readdir(directory, { withFileTypes: true }).catch(() => []);
+
+	for (const dirent of dirents) {
+		const fullPath = join(directory, dirent.name);
+		if (dirent.isDirectory()) {
+			total += await directorySize(fullPath);
+		} else if (dirent.isFile()) {
+			total += (await stat(fullPath).catch(() => null))?.size || 0;
+		}
+	}
+
+	return total;
+}
+
+function runShell(
+	shell: string,
+	command: string,
+	options: { cwd: string; timeout: number; env: Record<string, string> }
+): Promise<{ stdout: string; stderr: string; exitCode: number }> {
+	return new Promise((resolvePromise, reject) => {
+		const child = spawn(shell, ['-c', command], { cwd: options.cwd, env: options.env });
+
+		let stdout = '';
+		let stderr = '';
+		let timedOut = false;
+
+		const timer = setTimeout(() => {
+			timedOut = true;
+			child.kill('SIGKILL');
+		}, options.timeout);
+
+		child.stdout.on('data', (chunk: Buffer) => (stdout += chunk.toString('utf-8')));
+		child.stderr.on('data', (chunk: Buffer) => (stderr += chunk.toString('utf-8')));
+		child.on('error', (error) => {
+			clearTimeout(timer);
+			reject(error);
+		});
+		child.on('close', (code) => {
+			clearTimeout(timer);
+			resolvePromise({
+				stdout,
+				stderr: timedOut ? `${stderr}Command timed out after ${options.timeout}ms` : stderr,
+				exitCode: timedOut ? 124 : (code ?? 1)
+			});
+		});
+
+		child.stdin.end();
+	});
+}
@@ -1,11 +1,13 @@
 /**
  * Sandbox Provider Factory
- * Creates and manages sandbox provider instances (Daytona only)
+ * Creates and manages sandbox provider instances (Daytona, local Docker, local filesystem)
  */
 
 import type { SandboxProvider } from '$lib/types/sandbox.js';
 import { sandboxConfig } from '../../config/sandbox.config.js';
 import { DaytonaProvider } from './daytona-provider.js';
+import { LocalDockerProvider } from './local-docker-provider.js';
+import { LocalFsProvider } from './local-fs-provider.js';
 import type { ISandboxProvider, ISandboxProviderFactory } from './sandbox-provider.interface.js';
 
 /**
@@ -37,6 +39,14 @@ export class SandboxProviderFactory implements ISandboxProviderFactory {
 				provider = new DaytonaProvider(config || sandboxConfig.daytona);
 				break;
 
+			case 'docker':
+				provider = new LocalDockerProvider(config || sandboxConfig.docker);
+				break;
+
+			case 'local':
+				provider = new LocalFsProvider(config || sandboxConfig.local);
+				break;
+
 			default:
 				throw new Error(`Unsupported provider type: ${type}`);
 		}
@@ -58,6 +68,16 @@ export class SandboxProviderFactory implements ISandboxProviderFactory {
 			available.push('daytona');
 		}
 
+		// Check local Docker
+		if (sandboxConfig.docker.enabled) {
+			available.push('docker');
+		}
+
+		// Check local filesystem
+		if (sandboxConfig.local.enabled) {
+			available.push('local');
+		}
+
 		return available;
 	}
 
@@ -66,6 +86,12 @@ export class SandboxProviderFactory implements ISandboxProviderFactory {
 			case 'daytona':
 				return !!(config.apiKey && config.apiUrl);
 
+			case 'docker':
+				return !!(config.enabled && config.binary && config.image);
+
+			case 'local':
+				return !!(config.enabled && config.rootDir);
+
 			default:
 				return false;
 		}
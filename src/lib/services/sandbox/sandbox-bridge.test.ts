@@ -0,0 +1,120 @@
+/**
+ * Sandbox Bridge Tests
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const sandbox = vi.hoisted(() => ({
+	executeCommand: vi.fn(),
+	forwardPort: vi.fn()
+}));
+
+vi.mock('./sandbox-manager', () => ({ sandboxManager: sandbox }));
+
+const { BRIDGE_SECRET_HEADER, ensureSandboxBridge, probeSandboxBridge } =
+	await import('./sandbox-bridge');
+
+const BRIDGE = {
+	name: 'test bridge',
+	port: 7690,
+	path: '/tmp/aura-test/bridge.cjs',
+	script: 'process.exit(0)',
+	log: '/tmp/aura-test/bridge.log'
+};
+
+describe('ensureSandboxBridge', () => {
+	let running: string | null;
+	let sandboxId = 0;
+
+	beforeEach(() => {
+		running = null;
+		sandboxId++;
+		sandbox.forwardPort.mockReset().mockResolvedValue({
+			externalPort: 7690,
+			url: 'https://7690-sandbox.proxy/',
+			headers: { 'x-daytona-preview-token': 'preview' }
+		});
+		sandbox.executeCommand
+			.mockReset()
+			.mockImplementation(
+				async (_id: string, command: string, options: { environment?: Record<string, string> }) => {
+					if (command.startsWith('cat ')) {
+						return running
+							? { success: true, output: running }
+							: { success: false, output: '', error: 'No such file' };
+					}
+					running = options.environment?.AURA_BRIDGE_SECRET ?? null;
+					return { success: true, output: '' };
+				}
+			);
+		vi.stubGlobal(
+			'fetch',
+			vi.fn(async (_url: string, init: { headers: Record<string, string> }) =>
+				running && init.headers[BRIDGE_SECRET_HEADER] === running
+					? Response.json({ root: '/home/daytona' })
+					: new Response(null, { status: 401 })
+			)
+		);
+	});
+
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	it('should start the bridge with a secret passed through its environment', async () => {
+		const endpoint = await ensureSandboxBridge(
+			{ sandboxId: `sb-${sandboxId}`, sandboxProvider: 'daytona' },
+			BRIDGE
+		);
+
+		const [, command, options] = sandbox.executeCommand.mock.calls.at(-1)!;
+		expect(options.environment).toEqual({
+			AURA_BRIDGE_SECRET: expect.stringMatching(/^[0-9a-f]{64}$/),
+			AURA_BRIDGE_HOST: '0.0.0.0'
+		});
+		expect(command).not.toContain(options.environment.AURA_BRIDGE_SECRET);
+		expect(command).toContain('umask 077');
+		expect(endpoint).toEqual({
+			url: 'https://7690-sandbox.proxy',
+			headers: {
+				'x-daytona-preview-token': 'preview',
+				[BRIDGE_SECRET_HEADER]: options.environment.AURA_BRIDGE_SECRET
+			},
+			root: '/home/daytona'
+		});
+	});
+
+	it('should bind bridges of local sandboxes to the loopback interface', async () => {
+		await ensureSandboxBridge({ sandboxId: `sb-${sandboxId}`, sandboxProvider: 'local' }, BRIDGE);
+
+		const [, , options] = sandbox.executeCommand.mock.calls.at(-1)!;
+		expect(options.environment.AURA_BRIDGE_HOST).toBe('127.0.0.1');
+	});
+
+	it('should listen on the host port given to a local sandbox', async () => {
+		sandbox.forwardPort.mockResolvedValue({
+			externalPort: 41234,
+			url: 'http://localhost:41234'
+		});
+
+		await ensureSandboxBridge({ sandboxId: `sb-${sandboxId}`, sandboxProvider: 'local' }, BRIDGE);
+
+		const [, command] = sandbox.executeCommand.mock.calls.at(-1)!;
+		expect(command).toContain('/tmp/aura-test/bridge.cjs 41234');
+		expect(command).toContain('/tmp/aura-test/bridge.41234.secret');
+		expect(sandbox.executeCommand.mock.calls[0][1]).toBe('cat /tmp/aura-test/bridge.41234.secret');
+	});
+
+	it('should reuse a running bridge through the secret stored in the sandbox', async () => {
+		running = 'a'.repeat(64);
+
+		const endpoint = await probeSandboxBridge(
+			{ sandboxId: `sb-${sandboxId}`, sandboxProvider: 'daytona' },
+			BRIDGE
+		);
+
+		expect(endpoint?.headers[BRIDGE_SECRET_HEADER]).toBe(running);
+		expect(sandbox.executeCommand).toHaveBeenCalledTimes(1);
+		expect(sandbox.executeCommand.mock.calls[0][1]).toBe('cat /tmp/aura-test/bridge.7690.secret');
+	});
+});
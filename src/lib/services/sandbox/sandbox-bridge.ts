@@ -0,0 +1,243 @@
+/**
+ * Helper processes that run inside a sandbox behind a forwarded HTTP port.
+ *
+ * Sandbox providers only expose one-shot commands and forwarded ports, so
+ * long-lived features (language servers, interactive shells) run a small
+ * dependency-free Node script in the sandbox and talk to it over HTTP. Every
+ * bridge answers `GET /health` with at least `{ root }`, its working directory.
+ *
+ * Forwarded ports can be reached by anyone who knows the URL, so each bridge is
+ * started with a random secret and answers only requests that carry it in the
+ * `BRIDGE_SECRET_HEADER` header. The secret reaches the bridge through its
+ * environment and is kept in a file only the sandbox user can read, so the app
+ * server can pick it up again after a restart.
+ */
+
+import type { Project } from '$lib/types';
+import type { SandboxProvider } from '$lib/types/sandbox';
+import { randomBytes } from 'node:crypto';
+import { repositoryForProject, shellQuote, type GitRepository } from '../git/git.service';
+import { sandboxManager } from './sandbox-manager';
+
+const BRIDGE_STARTUP_TIMEOUT = 15000;
+const BRIDGE_SECRET_ENV = 'AURA_BRIDGE_SECRET';
+const BRIDGE_HOST_ENV = 'AURA_BRIDGE_HOST';
+
+/** Header every bridge request must carry the bridge's secret in */
+export const BRIDGE_SECRET_HEADER = 'x-aura-bridge-secret';
+
+/**
+ * Preamble for bridge scripts: reads the secret and listen address from the
+ * environment, keeps them from the processes the bridge spawns and defines
+ * `authorized(req)`. Scripts answer 401 when it returns false and listen on
+ * `BRIDGE_HOST`.
+ */
+export const BRIDGE_AUTH_SCRIPT = `const BRIDGE_SECRET = Buffer.from(process.env.${BRIDGE_SECRET_ENV} || '');
+const BRIDGE_HOST = process.env.${BRIDGE_HOST_ENV} || '0.0.0.0';
+delete process.env.${BRIDGE_SECRET_ENV};
+delete process.env.${BRIDGE_HOST_ENV};
+if (BRIDGE_SECRET.length === 0) {
+	console.error('${BRIDGE_SECRET_ENV} is not set');
+	process.exit(1);
+}
+
+function authorized(req) {
+	const given = Buffer.from(String(req.headers['${BRIDGE_SECRET_HEADER}'] || ''));
+	return given.length === BRIDGE_SECRET.length && require('crypto').timingSafeEqual(given, BRIDGE_SECRET);
+}`;
+
+/** Secrets of the bridges this server started or found, by sandbox and port */
+const bridgeSecrets = new Map<string, string>();
+
+export interface SandboxBridgeDefinition {
+	/** Human-readable name used in errors */
+	name: string;
+	/** Port the bridge listens on inside the sandbox */
+	port: number;
+	/** Where the script is written inside the sandbox */
+	path: string;
+	/** Source of the Node script */
+	script: string;
+	/** Extra command-line arguments after the port */
+	args?: string[];
+	/** Where the bridge's stdout and stderr go */
+	log: string;
+}
+
+export interface SandboxBridgeEndpoint {
+	/** Base URL of the bridge's forwarded port */
+	url: string;
+	/** Extra headers the provider's port forward requires (e.g. preview tokens) */
+	headers: Record<string, string>;
+	/** Absolute directory the bridge runs in */
+	root: string;
+}
+
+/** Make sure a bridge is listening in the project's sandbox and return how to reach it */
+export async function ensureSandboxBridge(
+	project: Pick<Project, 'sandboxId' | 'sandboxProvider'>,
+	bridge: SandboxBridgeDefinition
+): Promise<SandboxBridgeEndpoint> {
+	const repository = repositoryForProject(project);
+	if (!repository) {
+		throw new Error('Project has no sandbox');
+	}
+	const forward = await forwardBridgePort(repository, bridge);
+	let endpoint = withSecret(forward, await readBridgeSecret(repository, bridge, forward.port));
+
+	let health = await fetchHealth(endpoint);
+	if (!health) {
+		const secret = randomBytes(32).toString('hex');
+		endpoint = withSecret(forward, secret);
+
+		// Written through the shell so the script lands where `node` runs, whatever the provider.
+		// A bridge still holding the port under a lost secret is stopped first.
+		const script = Buffer.from(bridge.script).toString('base64');
+		const dir = bridge.path.slice(0, bridge.path.lastIndexOf('/')) || '/';
+		const args = [String(forward.port), ...(bridge.args ?? [])].map(shellQuote).join(' ');
+		const { secretFile, pidFile } = bridgeFiles(bridge, forward.port);
+		const start = [
+			`mkdir -p ${shellQuote(dir)}`,
+			`umask 077`,
+			`echo ${script} | base64 -d > ${shellQuote(bridge.path)}`,
+			`printf %s "$${BRIDGE_SECRET_ENV}" > ${shellQuote(secretFile)}`,
+			`{ [ ! -f ${shellQuote(pidFile)} ] || kill "$(cat ${shellQuote(pidFile)})" 2>/dev/null; true; }`,
+			`(nohup node ${shellQuote(bridge.path)} ${args} > ${shellQuote(bridge.log)} 2>&1 & echo $! > ${shellQuote(pidFile)})`
+		].join(' && ');
+		const result = await sandboxManager.executeCommand(
+			repository.sandboxId,
+			`sh -c ${shellQuote(start)}`,
+			{
+				workingDir: repository.workingDir,
+				timeout: 10000,
+				environment: {
+					[BRIDGE_SECRET_ENV]: secret,
+					[BRIDGE_HOST_ENV]: bridgeHost(repository.provider)
+				},
+				provider: repository.provider
+			}
+		);
+		if (!result.success) {
+			throw new Error(result.error || `Failed to start the ${bridge.name}`);
+		}
+		bridgeSecrets.set(secretKey(repository, bridge), secret);
+
+		const deadline = Date.now() + BRIDGE_STARTUP_TIMEOUT;
+		while (!health && Date.now() < deadline) {
+			await new Promise((resolve) => setTimeout(resolve, 500));
+			health = await fetchHealth(endpoint);
+		}
+		if (!health) {
+			throw new Error(`The ${bridge.name} did not come up`);
+		}
+	}
+
+	return { ...endpoint, root: health.root };
+}
+
+/** Reach a bridge that is already running, without starting it; null when it is not up */
+export async function probeSandboxBridge(
+	project: Pick<Project, 'sandboxId' | 'sandboxProvider'>,
+	bridge: SandboxBridgeDefinition
+): Promise<SandboxBridgeEndpoint | null> {
+	const repository = repositoryForProject(project);
+	if (!repository) return null;
+
+	try {
+		const forward = await forwardBridgePort(repository, bridge);
+		const endpoint = withSecret(forward, await readBridgeSecret(repository, bridge, forward.port));
+		const health = await fetchHealth(endpoint);
+		return health ? { ...endpoint, root: health.root } : null;
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Only the local provider runs bridges on this machine; container and remote sandboxes
+ * are reached through a proxy outside the sandbox's loopback interface
+ */
+function bridgeHost(provider: SandboxProvider | undefined): string {
+	return provider === 'local' ? '127.0.0.1' : '0.0.0.0';
+}
+
+/** Files are named after the port the bridge listens on, which differs per local sandbox */
+function bridgeFiles(
+	bridge: SandboxBridgeDefinition,
+	port: number
+): { secretFile: string; pidFile: string } {
+	const base = bridge.path.replace(/\.c?js$/, '');
+	return { secretFile: `${base}.${port}.secret`, pidFile: `${base}.${port}.pid` };
+}
+
+function secretKey(repository: GitRepository, bridge: SandboxBridgeDefinition): string {
+	return `${repository.sandboxId}:${bridge.port}`;
+}
+
+/** The secret of a running bridge, from memory or its file in the sandbox; '' when unknown */
+async function readBridgeSecret(
+	repository: GitRepository,
+	bridge: SandboxBridgeDefinition,
+	port: number
+): Promise<string> {
+	const key = secretKey(repository, bridge);
+	const cached = bridgeSecrets.get(key);
+	if (cached) return cached;
+
+	const result = await sandboxManager.executeCommand(
+		repository.sandboxId,
+		`cat ${shellQuote(bridgeFiles(bridge, port).secretFile)}`,
+		{ workingDir: repository.workingDir, timeout: 10000, provider: repository.provider }
+	);
+	const secret = result.success ? result.output.trim() : '';
+	if (/^[0-9a-f]{64}$/.test(secret)) {
+		bridgeSecrets.set(key, secret);
+		return secret;
+	}
+	return '';
+}
+
+function withSecret(
+	endpoint: { url: string; headers: Record<string, string> },
+	secret: string
+): { url: string; headers: Record<string, string> } {
+	return { url: endpoint.url, headers: { ...endpoint.headers, [BRIDGE_SECRET_HEADER]: secret } };
+}
+
+/**
+ * Forward the bridge's port. `port` is the one the bridge listens on: local sandboxes
+ * share the host's network, so their bridges listen on the host port they were given.
+ */
+async function forwardBridgePort(
+	repository: GitRepository,
+	bridge: SandboxBridgeDefinition
+): Promise<{ url: string; headers: Record<string, string>; port: number }> {
+	const forward = await sandboxManager.forwardPort(repository.sandboxId, bridge.port, {
+		provider: repository.provider
+	});
+	if (!forward.url) {
+		throw new Error(`Port ${bridge.port} could not be forwarded for the ${bridge.name}`);
+	}
+	return {
+		url: forward.url.replace(/\/$/, ''),
+		headers: forward.headers ?? {},
+		port: repository.provider === 'local' ? forward.externalPort : bridge.port
+	};
+}
+
+async function fetchHealth(endpoint: {
+	url: string;
+	headers: Record<string, string>;
+}): Promise<{ root: string } | null> {
+	try {
+		const response = await fetch(`${endpoint.url}/health`, {
+			headers: endpoint.headers,
+			signal: AbortSignal.timeout(3000)
+		});
+		if (!response.ok) return null;
+		const body = (await response.json()) as { root?: unknown };
+		return typeof body.root === 'string' ? { root: body.root } : null;
+	} catch {
+		return null;
+	}
+}
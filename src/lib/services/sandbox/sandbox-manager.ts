@@ -5,6 +5,7 @@
 
 import { sandboxConfig } from '../../config/sandbox.config.js';
 import type { SandboxProvider, SandboxStatus } from '../../types/sandbox.js';
+import { redactCommand } from '../../utils/logger.js';
 import { fileChangeBroadcaster } from '../file-change-broadcaster.js';
 import { SandboxProviderFactory } from './provider-factory.js';
 import type {
@@ -285,7 +286,7 @@ export class SandboxManager {
 	): Promise<ExecutionResult> {
 		console.log('⚡ [SandboxManager] Starting executeCommand', {
 			sandboxId,
-			command,
+			command: redactCommand(command),
 			workingDir: options?.workingDir,
 			timeout: options?.timeout,
 			provider: options?.provider,
@@ -305,7 +306,7 @@ export class SandboxManager {
 			console.log('✅ [SandboxManager] Provider found, executing command', {
 				providerType: providerInstance.constructor.name,
 				sandboxId,
-				command
+				command: redactCommand(command)
 			});
 
 			const startTime = Date.now();
@@ -318,7 +319,7 @@ export class SandboxManager {
 
 			console.log('⚡ [SandboxManager] Command execution completed', {
 				sandboxId,
-				command,
+				command: redactCommand(command),
 				success: result.success,
 				exitCode: result.exitCode,
 				outputLength: result.output?.length || 0,
@@ -337,8 +338,9 @@ export class SandboxManager {
 				error: error instanceof Error ? error.message : String(error),
 				stack: error instanceof Error ? error.stack : undefined,
 				sandboxId,
-				command,
-				options,
+				command: redactCommand(command),
+				workingDir: options?.workingDir,
+				provider: options?.provider,
 				timestamp: new Date().toISOString()
 			});
 			throw error;
@@ -673,7 +675,7 @@ export class SandboxManager {
 			public?: boolean;
 			provider?: SandboxProvider;
 		}
-	): Promise<{ externalPort: number; url?: string }> {
+	): Promise<{ externalPort: number; url?: string; headers?: Record<string, string> }> {
 		await this.ensureInitialized();
 
 		const providerInstance = await this.getProviderForSandbox(sandboxId, options?.provider);
@@ -361,7 +361,7 @@ export interface ISandboxProvider {
 			protocol?: 'tcp' | 'udp';
 			public?: boolean;
 		}
-	): Promise<{ externalPort: number; url?: string }>;
+	): Promise<{ externalPort: number; url?: string; headers?: Record<string, string> }>;
 
 	/**
 	 * Remove port forwarding
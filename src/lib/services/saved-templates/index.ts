@@ -0,0 +1,19 @@
+/**
+ * Saved Template Exports
+ */
+export {
+	SAVED_TEMPLATE_PREFIX,
+	MAX_TEMPLATE_FILES,
+	MAX_TEMPLATE_SIZE,
+	savedTemplateId,
+	snapshotFiles,
+	templateDependencies,
+	type TemplateSnapshot
+} from './template-snapshot.js';
+export {
+	SavedTemplateService,
+	savedTemplateService,
+	saveTemplateSchema,
+	type SaveTemplateInput,
+	type SaveTemplateResult
+} from './saved-template.service.js';
@@ -0,0 +1,144 @@
+/**
+ * Saved Template Service
+ * Saves a project's files as a template that new projects can start from, privately
+ * or for everyone in one of the user's organizations
+ */
+
+import type { Project } from '../../types/index.js';
+import type { SavedTemplate, SavedTemplateSummary } from '../../types/templates.js';
+import { z } from 'zod';
+import { canManageOrganization, organizationRole } from '../access/access-policy.js';
+import { DatabaseService } from '../database.service.js';
+import { collectSandboxFiles } from '../github-export.service.js';
+import { snapshotFiles, templateDependencies } from './template-snapshot.js';
+
+export const saveTemplateSchema = z.object({
+	name: z.string().trim().min(1).max(80),
+	description: z.string().trim().max(500).optional(),
+	visibility: z.enum(['private', 'team']).default('private'),
+	/** Defaults to the project's organization for team templates */
+	organizationId: z.string().optional(),
+	postCreateCommands: z.array(z.string().trim().min(1).max(500)).max(10).default([]),
+	initialPrompt: z.string().trim().max(1000).optional()
+});
+
+export type SaveTemplateInput = z.infer<typeof saveTemplateSchema>;
+
+export type SaveTemplateResult =
+	{ template: SavedTemplateSummary; skipped: string[] } | { error: string; status: 400 | 404 };
+
+export class SavedTemplateService {
+	private static instance: SavedTemplateService;
+
+	static getInstance(): SavedTemplateService {
+		if (!SavedTemplateService.instance) {
+			SavedTemplateService.instance = new SavedTemplateService();
+		}
+		return SavedTemplateService.instance;
+	}
+
+	/**
+	 * Snapshot a project's sandbox files into a new template. Team templates need an
+	 * organization the user belongs to.
+	 */
+	async saveFromProject(
+		project: Project,
+		input: SaveTemplateInput,
+		userId: string
+	): Promise<SaveTemplateResult> {
+		if (!project.sandboxId) {
+			return { error: 'Project has no sandbox', status: 400 };
+		}
+
+		let organizationId: string | undefined;
+		if (input.visibility === 'team') {
+			organizationId = input.organizationId ?? project.organizationId;
+			if (!organizationId) {
+				return { error: 'Choose an organization to share the template with', status: 400 };
+			}
+			const organization = await DatabaseService.findOrganizationById(organizationId);
+			if (!organization || !organizationRole(organization, userId)) {
+				return { error: 'Organization not found', status: 404 };
+			}
+		}
+
+		const snapshot = snapshotFiles((await collectSandboxFiles(project)).files);
+		if (snapshot.files.length === 0) {
+			return { error: 'The project has no files to save', status: 400 };
+		}
+
+		const now = new Date();
+		const summary: SavedTemplateSummary = {
+			id: crypto.randomUUID(),
+			name: input.name,
+			description: input.description || undefined,
+			framework: project.framework,
+			ownerId: userId,
+			visibility: input.visibility,
+			...(organizationId ? { organizationId } : {}),
+			sourceProjectId: project.id,
+			fileCount: snapshot.files.length,
+			totalSize: snapshot.totalSize,
+			dependencies: templateDependencies(snapshot.files),
+			configuration: project.configuration,
+			postCreateCommands: input.postCreateCommands,
+			initialPrompt: input.initialPrompt || undefined,
+			createdAt: now,
+			updatedAt: now
+		};
+		await DatabaseService.createSavedTemplate({ ...summary, files: snapshot.files });
+
+		return { template: summary, skipped: snapshot.skipped };
+	}
+
+	/**
+	 * The user's own templates and the team templates of their organizations
+	 */
+	async listForUser(userId: string): Promise<SavedTemplateSummary[]> {
+		const organizations = await DatabaseService.findOrganizationsByUserId(userId);
+		return DatabaseService.findSavedTemplates(
+			userId,
+			organizations.map((organization) => organization.id)
+		);
+	}
+
+	/**
+	 * A template with its files, or null when it does not exist or is not shared with the user
+	 */
+	async getForUser(id: string, userId: string): Promise<SavedTemplate | null> {
+		const template = await DatabaseService.findSavedTemplateById(id);
+		if (!template) return null;
+		if (template.ownerId === userId) return template;
+		if (template.visibility !== 'team' || !template.organizationId) return null;
+
+		const organization = await DatabaseService.findOrganizationById(template.organizationId);
+		return organization && organizationRole(organization, userId) ? template : null;
+	}
+
+	/**
+	 * Delete a template. Its owner can, and so can the managers of a team template's organization.
+	 */
+	async remove(
+		id: string,
+		userId: string
+	): Promise<{ success: true } | { error: string; status: 403 | 404 }> {
+		const template = await this.getForUser(id, userId);
+		if (!template) {
+			return { error: 'Template not found', status: 404 };
+		}
+
+		let allowed = template.ownerId === userId;
+		if (!allowed && template.organizationId) {
+			const organization = await DatabaseService.findOrganizationById(template.organizationId);
+			allowed = !!organization && canManageOrganization(organization, userId);
+		}
+		if (!allowed) {
+			return { error: 'Only the template owner or organization admins can delete it', status: 403 };
+		}
+
+		await DatabaseService.deleteSavedTemplate(id);
+		return { success: true };
+	}
+}
+
+export const savedTemplateService = SavedTemplateService.getInstance();
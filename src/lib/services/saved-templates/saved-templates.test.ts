@@ -0,0 +1,220 @@
+/**
+ * Saved Template Tests
+ */
+
+import type { Organization } from '$lib/types/access';
+import type { Project } from '$lib/types';
+import type { SavedTemplate } from '$lib/types/templates';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const db = vi.hoisted(() => ({
+	templates: new Map<string, SavedTemplate>(),
+	organizations: new Map<string, Organization>()
+}));
+const sandboxFiles = vi.hoisted(() => ({ files: new Map<string, Buffer>() }));
+
+vi.mock('../database.service.js', () => ({
+	DatabaseService: {
+		createSavedTemplate: vi.fn(async (template: SavedTemplate) => {
+			db.templates.set(template.id, template);
+			return template;
+		}),
+		findSavedTemplateById: vi.fn(async (id: string) => db.templates.get(id) ?? null),
+		deleteSavedTemplate: vi.fn(async (id: string) => db.templates.delete(id)),
+		findOrganizationById: vi.fn(async (id: string) => db.organizations.get(id) ?? null)
+	}
+}));
+
+vi.mock('../github-export.service.js', () => ({
+	collectSandboxFiles: vi.fn(async () => ({ files: sandboxFiles.files, skipped: [] }))
+}));
+
+const { savedTemplateId, snapshotFiles, templateDependencies, MAX_TEMPLATE_FILES } =
+	await import('./template-snapshot');
+const { SavedTemplateService, saveTemplateSchema } = await import('./saved-template.service');
+
+const text = (content: string) => Buffer.from(content);
+
+const PROJECT = {
+	id: 'project-1',
+	name: 'Shop',
+	ownerId: 'alice',
+	framework: 'react',
+	sandboxId: 'sandbox-1',
+	configuration: {
+		typescript: true,
+		eslint: true,
+		prettier: false,
+		tailwindcss: false,
+		packageManager: 'pnpm',
+		additionalDependencies: []
+	}
+} as unknown as Project;
+
+const TEAM: Organization = {
+	id: 'team-1',
+	name: 'Team',
+	ownerId: 'alice',
+	members: [
+		{ userId: 'alice', role: 'owner', joinedAt: new Date() },
+		{ userId: 'bob', role: 'member', joinedAt: new Date() }
+	],
+	defaultProjectRole: 'viewer',
+	createdAt: new Date(),
+	updatedAt: new Date()
+};
+
+describe('snapshotFiles', () => {
+	it('leaves out secrets and keeps binary files base64-encoded', () => {
+		const logo = Buffer.from([0x89, 0x50, 0x00, 0x47]);
+		const snapshot = snapshotFiles(
+			new Map([
+				['src/app.ts', text('export {};')],
+				['.env', text('SECRET=1')],
+				['config/.env.local', text('SECRET=2')],
+				['.env.example', text('SECRET=')],
+				['logo.png', logo]
+			])
+		);
+
+		expect(snapshot.files).toEqual([
+			{ path: '.env.example', content: 'SECRET=', size: 7 },
+			{ path: 'logo.png', content: logo.toString('base64'), encoding: 'base64', size: 4 },
+			{ path: 'src/app.ts', content: 'export {};', size: 10 }
+		]);
+		expect(snapshot.skipped.sort()).toEqual(['.env', 'config/.env.local']);
+		expect(snapshot.totalSize).toBe('export {};'.length + 'SECRET='.length + logo.length);
+	});
+
+	it('stops at the file limit', () => {
+		const files = new Map(
+			Array.from({ length: MAX_TEMPLATE_FILES + 2 }, (_, index) => [
+				`file-${String(index).padStart(5, '0')}.txt`,
+				text('x')
+			])
+		);
+		const snapshot = snapshotFiles(files);
+
+		expect(snapshot.files).toHaveLength(MAX_TEMPLATE_FILES);
+		expect(snapshot.skipped).toHaveLength(2);
+	});
+});
+
+describe('templateDependencies', () => {
+	it('reads every dependency section of package.json', () => {
+		const manifest = JSON.stringify({
+			dependencies: { react: '^19.0.0' },
+			devDependencies: { vite: '^6.0.0' },
+			peerDependencies: { 'react-dom': '*' }
+		});
+		expect(
+			templateDependencies([{ path: 'package.json', content: manifest, size: manifest.length }])
+		).toEqual([
+			{ name: 'react', version: '^19.0.0', type: 'runtime' },
+			{ name: 'vite', version: '^6.0.0', type: 'dev' },
+			{ name: 'react-dom', version: '*', type: 'peer' }
+		]);
+	});
+
+	it('ignores a broken package.json', () => {
+		expect(templateDependencies([{ path: 'package.json', content: '{', size: 1 }])).toEqual([]);
+	});
+});
+
+describe('savedTemplateId', () => {
+	it('only accepts saved template references', () => {
+		expect(savedTemplateId('saved:abc')).toBe('abc');
+		expect(savedTemplateId('saved:')).toBeNull();
+		expect(savedTemplateId('react-ts')).toBeNull();
+		expect(savedTemplateId(undefined)).toBeNull();
+	});
+});
+
+describe('SavedTemplateService', () => {
+	const service = new SavedTemplateService();
+	const input = (overrides: Record<string, unknown> = {}) =>
+		saveTemplateSchema.parse({ name: 'Shop starter', ...overrides });
+
+	beforeEach(() => {
+		db.templates.clear();
+		db.organizations.clear();
+		db.organizations.set(TEAM.id, TEAM);
+		sandboxFiles.files = new Map([
+			['package.json', text('{"dependencies":{"react":"^19.0.0"}}')],
+			['src/main.tsx', text('render();')]
+		]);
+	});
+
+	it("saves the project's files, configuration and commands", async () => {
+		const result = await service.saveFromProject(
+			PROJECT,
+			input({ postCreateCommands: ['pnpm install'], initialPrompt: 'A shop' }),
+			'alice'
+		);
+		if ('error' in result) throw new Error(result.error);
+
+		expect(result.template).not.toHaveProperty('files');
+		const stored = db.templates.get(result.template.id)!;
+		expect(stored).toMatchObject({
+			framework: 'react',
+			ownerId: 'alice',
+			visibility: 'private',
+			sourceProjectId: 'project-1',
+			fileCount: 2,
+			configuration: PROJECT.configuration,
+			postCreateCommands: ['pnpm install'],
+			initialPrompt: 'A shop'
+		});
+		expect(stored.files.map((file) => file.path)).toEqual(['package.json', 'src/main.tsx']);
+		expect(stored.dependencies).toEqual([{ name: 'react', version: '^19.0.0', type: 'runtime' }]);
+	});
+
+	it('only shares team templates with organizations the user belongs to', async () => {
+		expect(
+			await service.saveFromProject(PROJECT, input({ visibility: 'team' }), 'alice')
+		).toMatchObject({ error: expect.stringContaining('organization'), status: 400 });
+		expect(
+			await service.saveFromProject(
+				PROJECT,
+				input({ visibility: 'team', organizationId: TEAM.id }),
+				'mallory'
+			)
+		).toMatchObject({ status: 404 });
+	});
+
+	it('lets team members use team templates but not private ones', async () => {
+		const team = await service.saveFromProject(
+			PROJECT,
+			input({ visibility: 'team', organizationId: TEAM.id }),
+			'alice'
+		);
+		const personal = await service.saveFromProject(PROJECT, input(), 'alice');
+		if ('error' in team || 'error' in personal) throw new Error('save failed');
+
+		expect(await service.getForUser(team.template.id, 'bob')).not.toBeNull();
+		expect(await service.getForUser(team.template.id, 'mallory')).toBeNull();
+		expect(await service.getForUser(personal.template.id, 'bob')).toBeNull();
+	});
+
+	it('lets owners and organization admins delete templates', async () => {
+		const team = await service.saveFromProject(
+			PROJECT,
+			input({ visibility: 'team', organizationId: TEAM.id }),
+			'bob'
+		);
+		if ('error' in team) throw new Error(team.error);
+
+		const admins = await service.saveFromProject(
+			PROJECT,
+			input({ visibility: 'team', organizationId: TEAM.id }),
+			'alice'
+		);
+		if ('error' in admins) throw new Error(admins.error);
+		expect(await service.remove(admins.template.id, 'bob')).toMatchObject({ status: 403 });
+		await service.remove(admins.template.id, 'alice');
+
+		expect(await service.remove(team.template.id, 'mallory')).toMatchObject({ status: 404 });
+		expect(await service.remove(team.template.id, 'alice')).toEqual({ success: true });
+		expect(db.templates.size).toBe(0);
+	});
+});
@@ -0,0 +1,90 @@
+/**
+ * Template Snapshots
+ * Turns a project's files into the snapshot stored with a saved template
+ */
+
+import type { SavedTemplateDependency, SavedTemplateFile } from '../../types/templates.js';
+
+/** Project creation requests refer to saved templates as `saved:<id>` */
+export const SAVED_TEMPLATE_PREFIX = 'saved:';
+
+// Templates are stored in one database document, which is capped at 16MB
+export const MAX_TEMPLATE_FILES = 1000;
+export const MAX_TEMPLATE_SIZE = 8 * 1024 * 1024;
+const MAX_FILE_SIZE = 1024 * 1024;
+
+/** Local secrets never go into a template, even when the project does not ignore them */
+const SECRET_FILES =
+	/(^|\/)(\.env(\.(?!example$|sample$|template$)[^/]+)?|\.npmrc|id_(rsa|ed25519))$/;
+
+export interface TemplateSnapshot {
+	files: SavedTemplateFile[];
+	totalSize: number;
+	/** Paths left out: secrets and files over the size limits */
+	skipped: string[];
+}
+
+export function savedTemplateId(templateId: string | undefined): string | null {
+	return templateId?.startsWith(SAVED_TEMPLATE_PREFIX)
+		? templateId.slice(SAVED_TEMPLATE_PREFIX.length) || null
+		: null;
+}
+
+/**
+ * Snapshot of the files in `files`, with binary files base64-encoded. Callers list files
+ * the way the project's .gitignore does, so ignored paths are already gone.
+ */
+export function snapshotFiles(files: Map<string, Buffer>): TemplateSnapshot {
+	const snapshot: TemplateSnapshot = { files: [], totalSize: 0, skipped: [] };
+
+	for (const [path, content] of [...files].sort(([a], [b]) => a.localeCompare(b))) {
+		const full =
+			snapshot.files.length >= MAX_TEMPLATE_FILES ||
+			snapshot.totalSize + content.length > MAX_TEMPLATE_SIZE;
+		if (SECRET_FILES.test(path) || content.length > MAX_FILE_SIZE || full) {
+			snapshot.skipped.push(path);
+			continue;
+		}
+
+		// Base64 grows binary files by a third, which the 8MB limit leaves room for
+		const binary = content.subarray(0, 8000).includes(0);
+		snapshot.files.push(
+			binary
+				? { path, content: content.toString('base64'), encoding: 'base64', size: content.length }
+				: { path, content: content.toString('utf8'), size: content.length }
+		);
+		snapshot.totalSize += content.length;
+	}
+
+	return snapshot;
+}
+
+/**
+ * Packages declared in the snapshot's root package.json
+ */
+export function templateDependencies(files: SavedTemplateFile[]): SavedTemplateDependency[] {
+	const manifest = files.find((file) => file.path === 'package.json');
+	if (!manifest) return [];
+
+	let pkg: Record<string, unknown>;
+	try {
+		pkg = JSON.parse(manifest.content);
+	} catch {
+		return [];
+	}
+
+	const sections = [
+		['dependencies', 'runtime'],
+		['devDependencies', 'dev'],
+		['peerDependencies', 'peer']
+	] as const;
+	return sections.flatMap(([section, type]) => {
+		const entries = pkg[section];
+		if (!entries || typeof entries !== 'object') return [];
+		return Object.entries(entries as Record<string, unknown>).map(([name, version]) => ({
+			name,
+			version: String(version),
+			type
+		}));
+	});
+}
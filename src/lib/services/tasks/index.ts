@@ -0,0 +1,14 @@
+/**
+ * Task Runner Exports
+ */
+export {
+	detectPackageManager,
+	inferProblemMatchers,
+	parseMakefileTargets,
+	parsePackageScripts,
+	parseTaskConfig
+} from './task-discovery';
+export type { PackageManager } from './task-discovery';
+export { matchProblems, resolvePath, stripAnsi } from './problem-matchers';
+export type { ProblemMatchOptions } from './problem-matchers';
+export { TASK_CONFIG_PATH, TaskService, parseDiscoveryOutput, taskService } from './task.service';
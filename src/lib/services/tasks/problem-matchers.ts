@@ -0,0 +1,172 @@
+/**
+ * Problem matchers
+ * Extract TypeScript and ESLint diagnostics from a task's terminal output
+ */
+
+import type { ProblemMatcherName, TaskProblem } from '../../types/tasks.js';
+
+export interface ProblemMatchOptions {
+	/** Absolute workspace root; paths under it are reported relative to it */
+	root?: string | null;
+	/** Task directory relative to the root, which relative paths in the output start from */
+	cwd?: string;
+}
+
+// CSI sequences (colors, cursor movement) and OSC sequences (window titles, links)
+// eslint-disable-next-line no-control-regex
+const ANSI_PATTERN = /\x1b\[[0-?]*[ -/]*[@-~]|\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)/g;
+
+// src/app.ts(12,5): error TS2322: Type 'string' is not assignable to type 'number'.
+const TSC_PATTERN = /^(.+?)\((\d+),(\d+)\):\s+(error|warning|message)\s+(TS\d+)\s*:\s*(.*)$/;
+// src/app.ts:12:5 - error TS2322: Type 'string' is not assignable to type 'number'. (--pretty)
+const TSC_PRETTY_PATTERN = /^(.+?):(\d+):(\d+)\s+-\s+(error|warning|message)\s+(TS\d+):\s*(.*)$/;
+// svelte-check: the location on one line, `Error: message (ts)` on the next
+const LOCATION_PATTERN = /^(\S.*?):(\d+):(\d+)$/;
+const SVELTE_CHECK_PATTERN = /^(Error|Warn|Warning|Hint):\s+(.*?)(?:\s+\((ts|js|svelte|css)\))?$/;
+
+// ESLint's default "stylish" format: a file path, then indented `line:col  severity  message  rule`
+const ESLINT_FILE_PATTERN = /^(\/\S.*|[\w.@-][^\s:]*\.\w+)$/;
+const ESLINT_STYLISH_PATTERN = /^\s+(\d+):(\d+)\s+(error|warning)\s+(.*?)(?:\s{2,}(\S+))?$/;
+// --format unix: src/app.ts:3:7: 'x' is assigned a value but never used. [Error/no-unused-vars]
+const ESLINT_UNIX_PATTERN = /^(.+?):(\d+):(\d+):\s+(.*?)\s+\[(Error|Warning)(?:\/(.+))?\]$/;
+
+export function stripAnsi(text: string): string {
+	return text.replace(ANSI_PATTERN, '');
+}
+
+/**
+ * Diagnostics found in terminal output, in the order they were printed and without duplicates
+ */
+export function matchProblems(
+	output: string,
+	matchers: ProblemMatcherName[],
+	options: ProblemMatchOptions = {}
+): TaskProblem[] {
+	if (matchers.length === 0) return [];
+
+	const problems: TaskProblem[] = [];
+	const seen = new Set<string>();
+	const add = (problem: Omit<TaskProblem, 'path'> & { file: string }) => {
+		const { file, ...rest } = problem;
+		const entry = { path: resolvePath(file, options), ...rest };
+		const key = `${entry.path}:${entry.line}:${entry.column}:${entry.message}`;
+		if (seen.has(key)) return;
+		seen.add(key);
+		problems.push(entry);
+	};
+
+	const useTsc = matchers.includes('tsc');
+	const useEslint = matchers.includes('eslint');
+	let location: { file: string; line: number; column: number } | null = null;
+	let eslintFile: string | null = null;
+
+	// Carriage returns without a newline redraw the line (progress output); keep the last state
+	const lines = stripAnsi(output)
+		.split(/\r?\n/)
+		.map((line) => line.slice(line.lastIndexOf('\r') + 1));
+
+	for (const line of lines) {
+		if (useTsc) {
+			const match = TSC_PATTERN.exec(line) ?? TSC_PRETTY_PATTERN.exec(line);
+			if (match) {
+				add({
+					file: match[1].trim(),
+					line: Number(match[2]),
+					column: Number(match[3]),
+					severity: match[4] === 'message' ? 'info' : (match[4] as 'error' | 'warning'),
+					code: match[5],
+					message: match[6].trim(),
+					source: 'tsc'
+				});
+				location = null;
+				continue;
+			}
+
+			const svelteCheck = location ? SVELTE_CHECK_PATTERN.exec(line) : null;
+			if (location && svelteCheck) {
+				add({
+					...location,
+					severity:
+						svelteCheck[1] === 'Error' ? 'error' : svelteCheck[1] === 'Hint' ? 'info' : 'warning',
+					message: svelteCheck[2].trim(),
+					source: 'tsc'
+				});
+				location = null;
+				continue;
+			}
+
+			const found = LOCATION_PATTERN.exec(line);
+			location = found
+				? { file: found[1], line: Number(found[2]), column: Number(found[3]) }
+				: null;
+		}
+
+		if (useEslint) {
+			const unix = ESLINT_UNIX_PATTERN.exec(line);
+			if (unix) {
+				add({
+					file: unix[1],
+					line: Number(unix[2]),
+					column: Number(unix[3]),
+					severity: unix[5] === 'Error' ? 'error' : 'warning',
+					message: unix[4].trim(),
+					code: unix[6],
+					source: 'eslint'
+				});
+				continue;
+			}
+
+			const stylish = eslintFile ? ESLINT_STYLISH_PATTERN.exec(line) : null;
+			if (eslintFile && stylish) {
+				add({
+					file: eslintFile,
+					line: Number(stylish[1]),
+					column: Number(stylish[2]),
+					severity: stylish[3] as 'error' | 'warning',
+					message: stylish[4].trim(),
+					code: stylish[5],
+					source: 'eslint'
+				});
+				continue;
+			}
+
+			if (ESLINT_FILE_PATTERN.test(line)) {
+				eslintFile = line;
+			} else if (!line.trim()) {
+				eslintFile = null;
+			}
+		}
+	}
+
+	return problems;
+}
+
+/**
+ * A path from tool output, relative to the workspace root when it lies inside it
+ */
+export function resolvePath(file: string, options: ProblemMatchOptions = {}): string {
+	const root = options.root?.replace(/\/+$/, '');
+	let path = file.trim();
+
+	if (path.startsWith('/')) {
+		if (!root || !path.startsWith(`${root}/`)) return normalize(path);
+		path = path.slice(root.length + 1);
+	} else if (options.cwd) {
+		path = `${options.cwd}/${path}`;
+	}
+	return normalize(path).replace(/^\//, '');
+}
+
+function normalize(path: string): string {
+	const absolute = path.startsWith('/');
+	const parts: string[] = [];
+	for (const part of path.split('/')) {
+		if (!part || part === '.') continue;
+		if (part === '..' && parts.length > 0 && parts[parts.length - 1] !== '..') {
+			parts.pop();
+		} else {
+			parts.push(part);
+		}
+	}
+	return (absolute ? '/' : '') + parts.join('/');
+}
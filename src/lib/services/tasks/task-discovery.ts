@@ -0,0 +1,167 @@
+/**
+ * Task discovery
+ * Turns package.json scripts, Makefile targets and `.aura/tasks.json` into runnable tasks
+ */
+
+import {
+	PROBLEM_MATCHERS,
+	type ProblemMatcherName,
+	type TaskDefinition
+} from '../../types/tasks.js';
+import { shellQuote } from '../git/git.service.js';
+import { z } from 'zod';
+
+export type PackageManager = 'npm' | 'pnpm' | 'yarn' | 'bun';
+
+const LOCKFILES: Array<[string, PackageManager]> = [
+	['pnpm-lock.yaml', 'pnpm'],
+	['yarn.lock', 'yarn'],
+	['bun.lockb', 'bun'],
+	['bun.lock', 'bun']
+];
+
+const taskConfigSchema = z.object({
+	tasks: z
+		.array(
+			z.object({
+				label: z.string().trim().min(1).max(100),
+				command: z.string().trim().min(1),
+				cwd: z.string().trim().min(1).optional(),
+				detail: z.string().optional(),
+				group: z.enum(['build', 'test']).optional(),
+				problemMatcher: z
+					.union([z.enum(['tsc', 'eslint']), z.array(z.enum(['tsc', 'eslint']))])
+					.optional()
+			})
+		)
+		.max(200)
+});
+
+/**
+ * The package manager whose lockfile is present; npm when there is none
+ */
+export function detectPackageManager(files: string[]): PackageManager {
+	return LOCKFILES.find(([lockfile]) => files.includes(lockfile))?.[1] ?? 'npm';
+}
+
+/**
+ * Problem matchers that apply to a command, judged by the tools it calls
+ */
+export function inferProblemMatchers(command: string): ProblemMatcherName[] {
+	const matchers: ProblemMatcherName[] = [];
+	if (/\b(tsc|vue-tsc|svelte-check)\b/.test(command)) matchers.push('tsc');
+	if (/\beslint\b/.test(command)) matchers.push('eslint');
+	return matchers;
+}
+
+/**
+ * One task per `scripts` entry; throws when the file is not valid JSON
+ */
+export function parsePackageScripts(
+	content: string,
+	packageManager: PackageManager = 'npm'
+): TaskDefinition[] {
+	const manifest = JSON.parse(content) as { scripts?: Record<string, unknown> };
+	const scripts = manifest.scripts && typeof manifest.scripts === 'object' ? manifest.scripts : {};
+
+	return Object.entries(scripts)
+		.filter((entry): entry is [string, string] => typeof entry[1] === 'string')
+		.map(([name, script]) => ({
+			id: `npm:${name}`,
+			label: name,
+			source: 'npm',
+			command: `${packageManager} run ${shellQuote(name)}`,
+			detail: script,
+			group: groupFor(name),
+			problemMatchers: inferProblemMatchers(script)
+		}));
+}
+
+/**
+ * Explicit targets of a Makefile, with their `## description` comments and recipes
+ */
+export function parseMakefileTargets(content: string): TaskDefinition[] {
+	const tasks: TaskDefinition[] = [];
+	// Targets of the rule being read and its recipe lines
+	let targets: TaskDefinition[] = [];
+	let recipe: string[] = [];
+
+	const flush = () => {
+		const commands = recipe.join('; ');
+		for (const task of targets) {
+			task.detail ??= commands || undefined;
+			task.problemMatchers = inferProblemMatchers(commands);
+		}
+		targets = [];
+		recipe = [];
+	};
+
+	for (const line of content.split(/\r?\n/)) {
+		if (line.startsWith('\t')) {
+			if (targets.length > 0) recipe.push(line.trim());
+			continue;
+		}
+		if (!line.trim() || line.trimStart().startsWith('#')) continue;
+
+		flush();
+		// Variable assignments (`X := y`, `X ::= y`) are not targets
+		const match = /^([A-Za-z0-9][\w./-]*(?:\s+[A-Za-z0-9][\w./-]*)*)\s*:(?![:=])(.*)$/.exec(line);
+		if (!match) continue;
+
+		const description = /##\s*(.+)$/.exec(match[2])?.[1].trim();
+		for (const name of match[1].split(/\s+/)) {
+			if (tasks.some((task) => task.id === `make:${name}`)) continue;
+			const task: TaskDefinition = {
+				id: `make:${name}`,
+				label: name,
+				source: 'make',
+				command: `make ${shellQuote(name)}`,
+				detail: description,
+				group: groupFor(name),
+				problemMatchers: []
+			};
+			tasks.push(task);
+			targets.push(task);
+		}
+	}
+	flush();
+
+	return tasks;
+}
+
+/**
+ * Tasks declared in `.aura/tasks.json`; throws with a readable message when the file is invalid
+ *
+ * ```json
+ * { "tasks": [{ "label": "Typecheck", "command": "npx tsc --noEmit", "problemMatcher": "tsc" }] }
+ * ```
+ */
+export function parseTaskConfig(content: string): TaskDefinition[] {
+	const parsed = taskConfigSchema.safeParse(JSON.parse(content));
+	if (!parsed.success) {
+		const issue = parsed.error.issues[0];
+		throw new Error(`${issue.path.join('.') || 'tasks'}: ${issue.message}`);
+	}
+
+	return parsed.data.tasks.map((task) => {
+		const matchers = task.problemMatcher
+			? [task.problemMatcher].flat()
+			: inferProblemMatchers(task.command);
+		return {
+			id: `aura:${task.label}`,
+			label: task.label,
+			source: 'aura',
+			command: task.command,
+			cwd: task.cwd?.replace(/^\.(\/+|$)/, '').replace(/\/+$/, '') || undefined,
+			detail: task.detail ?? task.command,
+			group: task.group,
+			problemMatchers: PROBLEM_MATCHERS.filter((name) => matchers.includes(name))
+		};
+	});
+}
+
+function groupFor(name: string): TaskDefinition['group'] {
+	if (/^(build|compile|check|typecheck|lint)(:|$)/.test(name)) return 'build';
+	if (/^test(:|$)/.test(name)) return 'test';
+	return undefined;
+}
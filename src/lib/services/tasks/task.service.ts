@@ -0,0 +1,145 @@
+/**
+ * Task Service
+ * Discovers a project's tasks in its sandbox and starts them in named terminal sessions
+ */
+
+import type { Project } from '../../types/index.js';
+import type { TaskDefinition, TaskListResponse, TaskRunResponse } from '../../types/tasks.js';
+import { repositoryForProject, shellQuote } from '../git/git.service.js';
+import { sandboxManager } from '../sandbox/sandbox-manager.js';
+import { ptySessionManager } from '../terminal/pty-session.js';
+import {
+	NAMED_SESSION_DETACHED_TIMEOUT,
+	terminalSessionService
+} from '../terminal/terminal-session.service.js';
+import {
+	detectPackageManager,
+	parseMakefileTargets,
+	parsePackageScripts,
+	parseTaskConfig
+} from './task-discovery.js';
+
+export const TASK_CONFIG_PATH = '.aura/tasks.json';
+
+const FILE_MARKER = '@@aura-task-file@@';
+const MAKEFILES = ['GNUmakefile', 'makefile', 'Makefile'];
+const LOCKFILES = ['pnpm-lock.yaml', 'yarn.lock', 'bun.lockb', 'bun.lock'];
+const MAX_FILE_BYTES = 256 * 1024;
+const DISCOVERY_TIMEOUT = 30_000;
+
+/** Prints the workspace root, then every task file (and the lockfiles' names) after a marker */
+const DISCOVERY_SCRIPT = [
+	'pwd',
+	`for f in package.json ${MAKEFILES.join(' ')} ${TASK_CONFIG_PATH} ${LOCKFILES.join(' ')}; do`,
+	'[ -f "$f" ] || continue',
+	`printf '\\n${FILE_MARKER} %s\\n' "$f"`,
+	`case "$f" in *.lock|*.lockb|*.yaml) ;; *) head -c ${MAX_FILE_BYTES} "$f" ;; esac`,
+	'done'
+].join('\n');
+
+export class TaskService {
+	private static instance: TaskService;
+
+	static getInstance(): TaskService {
+		if (!TaskService.instance) {
+			TaskService.instance = new TaskService();
+		}
+		return TaskService.instance;
+	}
+
+	/**
+	 * Tasks from package.json, the Makefile and `.aura/tasks.json`, in that order
+	 */
+	async discover(project: Project): Promise<TaskListResponse> {
+		const repo = repositoryForProject(project);
+		if (!repo) {
+			throw new Error('Project has no sandbox');
+		}
+
+		const result = await sandboxManager.executeCommand(
+			repo.sandboxId,
+			`sh -c ${shellQuote(DISCOVERY_SCRIPT)}`,
+			{
+				workingDir: repo.workingDir,
+				timeout: DISCOVERY_TIMEOUT,
+				provider: repo.provider
+			}
+		);
+		if (!result.success) {
+			throw new Error(`Failed to read task files: ${result.error || result.output}`);
+		}
+
+		return parseDiscoveryOutput(result.output);
+	}
+
+	/**
+	 * Start a task in a new named terminal session; the editor attaches to it by id
+	 */
+	async run(
+		project: Project,
+		userId: string,
+		task: TaskDefinition,
+		size: { cols: number; rows: number }
+	): Promise<TaskRunResponse> {
+		const session = await terminalSessionService.create(project, userId, {
+			name: `Task: ${task.label}`,
+			shell: 'bash'
+		});
+
+		try {
+			await ptySessionManager.open(project, session.id, {
+				userId,
+				shell: session.shell,
+				cols: size.cols,
+				rows: size.rows,
+				detachedTimeout: NAMED_SESSION_DETACHED_TIMEOUT,
+				command: task.command,
+				cwd: task.cwd
+			});
+		} catch (error) {
+			await terminalSessionService.remove(project, session).catch(() => {});
+			throw error;
+		}
+
+		return { task, sessionId: session.id, name: session.name };
+	}
+}
+
+/**
+ * Split the discovery script's output into files and parse each one; a file that
+ * fails to parse is reported instead of failing the whole list
+ */
+export function parseDiscoveryOutput(output: string): TaskListResponse {
+	const [head, ...sections] = output.split(new RegExp(`\\r?\\n${FILE_MARKER} `));
+	const root = head.trim().split(/\r?\n/).pop()?.trim() || null;
+
+	const files = new Map<string, string>();
+	for (const section of sections) {
+		const newline = section.indexOf('\n');
+		const name = (newline === -1 ? section : section.slice(0, newline)).trim();
+		files.set(name, newline === -1 ? '' : section.slice(newline + 1));
+	}
+
+	const tasks: TaskDefinition[] = [];
+	const errors: string[] = [];
+	const collect = (file: string, parse: (content: string) => TaskDefinition[]) => {
+		const content = files.get(file);
+		if (content === undefined) return;
+		try {
+			tasks.push(...parse(content));
+		} catch (error) {
+			errors.push(`${file}: ${error instanceof Error ? error.message : String(error)}`);
+		}
+	};
+
+	const packageManager = detectPackageManager([...files.keys()]);
+	collect('package.json', (content) => parsePackageScripts(content, packageManager));
+	// make reads the first of these that exists
+	const makefile = MAKEFILES.find((name) => files.has(name));
+	if (makefile) collect(makefile, parseMakefileTargets);
+	collect(TASK_CONFIG_PATH, parseTaskConfig);
+
+	return { tasks, root, errors };
+}
+
+export const taskService = TaskService.getInstance();
@@ -0,0 +1,161 @@
+/**
+ * Task Runner Tests
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('$env/dynamic/private', () => ({ env: {} }));
+vi.mock('../sandbox/sandbox-manager.js', () => ({ sandboxManager: {} }));
+vi.mock('../database.service', () => ({ DatabaseService: {} }));
+vi.mock('../terminal/pty-bridge', () => ({
+	ensurePtyBridge: vi.fn(),
+	listPtyBridgeSessions: vi.fn(),
+	stopPtyBridgeSession: vi.fn()
+}));
+
+const { detectPackageManager, parseMakefileTargets, parsePackageScripts, parseTaskConfig } =
+	await import('./task-discovery');
+const { matchProblems, resolvePath, stripAnsi } = await import('./problem-matchers');
+const { parseDiscoveryOutput } = await import('./task.service');
+
+describe('task discovery', () => {
+	it('should turn package.json scripts into tasks with inferred matchers', () => {
+		const tasks = parsePackageScripts(
+			JSON.stringify({
+				scripts: { build: 'vite build', check: 'svelte-check && tsc', lint: 'eslint .', x: 1 }
+			}),
+			'pnpm'
+		);
+
+		expect(tasks.map((task) => task.id)).toEqual(['npm:build', 'npm:check', 'npm:lint']);
+		expect(tasks[0]).toMatchObject({ command: 'pnpm run build', group: 'build' });
+		expect(tasks[1].problemMatchers).toEqual(['tsc']);
+		expect(tasks[2].problemMatchers).toEqual(['eslint']);
+	});
+
+	it('should pick the package manager from the lockfile', () => {
+		expect(detectPackageManager(['package.json', 'yarn.lock'])).toBe('yarn');
+		expect(detectPackageManager(['package.json'])).toBe('npm');
+	});
+
+	it('should read Makefile targets, descriptions and recipes', () => {
+		const tasks = parseMakefileTargets(
+			[
+				'CC := gcc',
+				'build: deps ## Compile everything',
+				'\tnpx tsc -p .',
+				'',
+				'test lint:',
+				'\tnpx eslint src',
+				'.PHONY: build'
+			].join('\n')
+		);
+
+		expect(tasks.map((task) => task.label)).toEqual(['build', 'test', 'lint']);
+		expect(tasks[0]).toMatchObject({ detail: 'Compile everything', problemMatchers: ['tsc'] });
+		expect(tasks[1]).toMatchObject({ command: 'make test', problemMatchers: ['eslint'] });
+	});
+
+	it('should validate .aura/tasks.json', () => {
+		const [task] = parseTaskConfig(
+			JSON.stringify({
+				tasks: [{ label: 'Typecheck', command: 'npm run tc', cwd: './web/', problemMatcher: 'tsc' }]
+			})
+		);
+
+		expect(task).toMatchObject({ id: 'aura:Typecheck', cwd: 'web', problemMatchers: ['tsc'] });
+		expect(() => parseTaskConfig(JSON.stringify({ tasks: [{ label: 'x' }] }))).toThrow(
+			/tasks\.0\.command/
+		);
+	});
+
+	it('should split discovery output and report files that fail to parse', () => {
+		const output = [
+			'/home/daytona/app',
+			'',
+			'@@aura-task-file@@ package.json',
+			'{ "scripts": { "dev": "vite" } }',
+			'@@aura-task-file@@ .aura/tasks.json',
+			'{ not json',
+			'@@aura-task-file@@ bun.lock',
+			''
+		].join('\n');
+
+		const result = parseDiscoveryOutput(output);
+
+		expect(result.root).toBe('/home/daytona/app');
+		expect(result.tasks).toHaveLength(1);
+		expect(result.tasks[0].command).toBe('bun run dev');
+		expect(result.errors).toHaveLength(1);
+		expect(result.errors[0]).toMatch(/^\.aura\/tasks\.json: /);
+	});
+});
+
+describe('problem matchers', () => {
+	const root = '/home/daytona/app';
+
+	it('should match tsc output in both formats', () => {
+		const output = [
+			"src/a.ts(3,7): error TS2322: Type 'string' is not assignable to type 'number'.",
+			'\x1b[96msrc/b.ts\x1b[0m:\x1b[93m10\x1b[0m:\x1b[93m1\x1b[0m - \x1b[91merror\x1b[0m TS1005: ";" expected.',
+			'Found 2 errors.'
+		].join('\n');
+
+		const problems = matchProblems(output, ['tsc'], { root });
+
+		expect(problems).toEqual([
+			expect.objectContaining({ path: 'src/a.ts', line: 3, column: 7, code: 'TS2322' }),
+			expect.objectContaining({ path: 'src/b.ts', line: 10, column: 1, message: '";" expected.' })
+		]);
+	});
+
+	it('should match svelte-check output', () => {
+		const output = [
+			'/home/daytona/app/src/App.svelte:4:2',
+			"Error: Cannot find name 'foo'. (ts)",
+			'/home/daytona/app/src/lib/x.ts:1:1',
+			'Warn: Unused import (ts)'
+		].join('\n');
+
+		const problems = matchProblems(output, ['tsc'], { root });
+
+		expect(problems.map((problem) => [problem.path, problem.severity])).toEqual([
+			['src/App.svelte', 'error'],
+			['src/lib/x.ts', 'warning']
+		]);
+	});
+
+	it('should match ESLint stylish output', () => {
+		const output = [
+			'',
+			'/home/daytona/app/src/a.ts',
+			"  3:7   error    'x' is assigned a value but never used  no-unused-vars",
+			'  5:1   warning  Unexpected console statement             no-console',
+			'',
+			'✖ 2 problems (1 error, 1 warning)'
+		].join('\n');
+
+		const problems = matchProblems(output, ['eslint'], { root });
+
+		expect(problems).toHaveLength(2);
+		expect(problems[0]).toMatchObject({
+			path: 'src/a.ts',
+			line: 3,
+			severity: 'error',
+			code: 'no-unused-vars',
+			source: 'eslint'
+		});
+		expect(problems[1]).toMatchObject({ line: 5, severity: 'warning', code: 'no-console' });
+	});
+
+	it('should ignore output when the task has no matchers', () => {
+		expect(matchProblems('src/a.ts(1,1): error TS1: x', [])).toEqual([]);
+	});
+
+	it('should resolve paths against the root and the task directory', () => {
+		expect(resolvePath('/home/daytona/app/src/a.ts', { root })).toBe('src/a.ts');
+		expect(resolvePath('/tmp/other.ts', { root })).toBe('/tmp/other.ts');
+		expect(resolvePath('./src/../lib/a.ts', { root, cwd: 'web' })).toBe('web/lib/a.ts');
+		expect(stripAnsi('\x1b[31mred\x1b[0m')).toBe('red');
+	});
+});
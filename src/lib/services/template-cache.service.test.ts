@@ -0,0 +1,174 @@
+/**
+ * Template Cache Service Tests
+ */
+
+import type { TemplateCacheEntry } from '$lib/types/templates';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const db = vi.hoisted(() => ({ entries: new Map<string, TemplateCacheEntry>() }));
+const github = vi.hoisted(() => ({ downloadRepositoryFiles: vi.fn() }));
+
+vi.mock('./database.service.js', () => ({
+	DatabaseService: {
+		findTemplateCacheEntry: vi.fn(async (key: string) => db.entries.get(key) ?? null),
+		upsertTemplateCacheEntry: vi.fn(async (entry: TemplateCacheEntry) => {
+			db.entries.set(entry.key, entry);
+		}),
+		touchTemplateCacheEntry: vi.fn(async (key: string, accessedAt: Date) => {
+			const entry = db.entries.get(key);
+			if (!entry) return;
+			db.entries.set(key, { ...entry, lastAccessedAt: accessedAt, hits: entry.hits + 1 });
+		}),
+		findLeastRecentlyUsedTemplateCacheKeys: vi.fn(async (limit: number) =>
+			[...db.entries.values()]
+				.sort((a, b) => a.lastAccessedAt.getTime() - b.lastAccessedAt.getTime())
+				.slice(0, limit)
+				.map((entry) => entry.key)
+		),
+		deleteTemplateCacheEntries: vi.fn(async (keys: string[]) => {
+			keys.forEach((key) => db.entries.delete(key));
+			return keys.length;
+		}),
+		getTemplateCacheUsage: vi.fn(async () => ({
+			entries: db.entries.size,
+			size: [...db.entries.values()].reduce((total, entry) => total + entry.size, 0)
+		}))
+	}
+}));
+
+vi.mock('./github-api.service.js', () => ({ gitHubApiService: github }));
+
+const { TemplateCacheService, templateCacheKey } = await import('./template-cache.service');
+
+const CONFIG = {
+	enabled: true,
+	ttlHours: 24,
+	maxSize: 2,
+	compressionEnabled: true,
+	prewarm: []
+};
+
+const source = (path: string) => ({ owner: 'stackblitz', repo: 'starters', path });
+const files = (name: string) => ({ 'package.json': `{"name":"${name}"}`, 'src/index.ts': '' });
+
+describe('templateCacheKey', () => {
+	it('ignores the case of the repository but not of the path', () => {
+		expect(templateCacheKey({ owner: 'StackBlitz', repo: 'Starters', path: '/React/' })).toBe(
+			'stackblitz/starters@HEAD:React'
+		);
+		expect(templateCacheKey({ owner: 'a', repo: 'b', ref: 'v2' })).toBe('a/b@v2:');
+	});
+});
+
+describe('TemplateCacheService', () => {
+	beforeEach(() => {
+		vi.useRealTimers();
+		db.entries.clear();
+		github.downloadRepositoryFiles.mockReset();
+	});
+
+	it('downloads a template once and serves it from the cache afterwards', async () => {
+		const cache = new TemplateCacheService(CONFIG);
+		const download = vi.fn(async () => files('react'));
+
+		expect(await cache.getFiles(source('react'), download)).toEqual(files('react'));
+		expect(await cache.getFiles(source('react'), download)).toEqual(files('react'));
+
+		expect(download).toHaveBeenCalledTimes(1);
+		const entry = db.entries.get('stackblitz/starters@HEAD:react')!;
+		expect(entry).toMatchObject({ compressed: true, fileCount: 2, hits: 1 });
+		expect(entry.data.toString('utf8')).not.toContain('package.json');
+		expect(await cache.getStats()).toMatchObject({ entries: 1, hits: 1, misses: 1, hitRate: 0.5 });
+	});
+
+	it('stores plain JSON when compression is off', async () => {
+		const cache = new TemplateCacheService({ ...CONFIG, compressionEnabled: false });
+		await cache.getFiles(source('vue'), async () => files('vue'));
+
+		const entry = db.entries.get('stackblitz/starters@HEAD:vue')!;
+		expect(entry.compressed).toBe(false);
+		expect(JSON.parse(entry.data.toString('utf8'))).toEqual(files('vue'));
+	});
+
+	it('downloads again once an entry has expired', async () => {
+		vi.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+		const cache = new TemplateCacheService(CONFIG);
+		const download = vi.fn(async () => files('svelte'));
+
+		await cache.getFiles(source('svelte'), download);
+		vi.setSystemTime(new Date('2026-01-02T00:00:01Z'));
+		await cache.getFiles(source('svelte'), download);
+
+		expect(download).toHaveBeenCalledTimes(2);
+	});
+
+	it('evicts the least recently used template beyond the size limit', async () => {
+		vi.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+		const cache = new TemplateCacheService(CONFIG);
+
+		await cache.getFiles(source('react'), async () => files('react'));
+		vi.advanceTimersByTime(1000);
+		await cache.getFiles(source('vue'), async () => files('vue'));
+		vi.advanceTimersByTime(1000);
+		await cache.getFiles(source('react'), async () => files('react'));
+		vi.advanceTimersByTime(1000);
+		await cache.getFiles(source('svelte'), async () => files('svelte'));
+
+		expect([...db.entries.keys()].sort()).toEqual([
+			'stackblitz/starters@HEAD:react',
+			'stackblitz/starters@HEAD:svelte'
+		]);
+	});
+
+	it('shares one download between concurrent misses', async () => {
+		const cache = new TemplateCacheService(CONFIG);
+		const download = vi.fn(async () => files('angular'));
+
+		await Promise.all([
+			cache.getFiles(source('angular'), download),
+			cache.getFiles(source('angular'), download)
+		]);
+
+		expect(download).toHaveBeenCalledTimes(1);
+	});
+
+	it('still downloads when the cache cannot be reached', async () => {
+		const { DatabaseService } = await import('./database.service.js');
+		vi.mocked(DatabaseService.findTemplateCacheEntry).mockRejectedValueOnce(new Error('offline'));
+		vi.mocked(DatabaseService.upsertTemplateCacheEntry).mockRejectedValueOnce(new Error('offline'));
+		const cache = new TemplateCacheService(CONFIG);
+
+		expect(await cache.getFiles(source('node'), async () => files('node'))).toEqual(files('node'));
+	});
+
+	it('bypasses the cache when disabled', async () => {
+		const cache = new TemplateCacheService({ ...CONFIG, enabled: false });
+		const download = vi.fn(async () => files('react'));
+
+		await cache.getFiles(source('react'), download);
+		await cache.getFiles(source('react'), download);
+
+		expect(download).toHaveBeenCalledTimes(2);
+		expect(db.entries.size).toBe(0);
+	});
+
+	it('prewarms templates that are not cached yet', async () => {
+		const cache = new TemplateCacheService({ ...CONFIG, maxSize: 10 });
+		github.downloadRepositoryFiles.mockImplementation(
+			async (_owner: string, _repo: string, _ref: string, path: string) => files(path)
+		);
+		await cache.getFiles(source('vue'), async () => files('vue'));
+
+		expect(await cache.prewarm(['react', 'vue', 'no-such-template'])).toEqual({
+			warmed: ['react'],
+			failed: ['no-such-template']
+		});
+		expect(github.downloadRepositoryFiles).toHaveBeenCalledTimes(1);
+		expect(github.downloadRepositoryFiles).toHaveBeenCalledWith(
+			'stackblitz',
+			'starters',
+			undefined,
+			'react'
+		);
+	});
+});
@@ -0,0 +1,200 @@
+/**
+ * Template Cache Service
+ * Keeps the files of downloaded GitHub templates in MongoDB so creating a project does
+ * not download its template again, following `templateConfig.cache`
+ */
+
+import { getGitHubTemplate, templateConfig } from '$lib/config/template.config.js';
+import type { TemplateConfig } from '$lib/config/types.js';
+import type { TemplateCacheEntry, TemplateCacheStats } from '$lib/types/templates.js';
+import { logger } from '$lib/utils/logger.js';
+import { gunzipSync, gzipSync } from 'node:zlib';
+import { DatabaseService } from './database.service.js';
+import { gitHubApiService } from './github-api.service.js';
+
+export interface TemplateSource {
+	owner: string;
+	repo: string;
+	/** Branch, tag or commit; the default branch when left out */
+	ref?: string;
+	/** Directory of the template inside the repository */
+	path?: string;
+}
+
+type TemplateFiles = Record<string, string>;
+
+/**
+ * Cache key of a template: `owner/repo@ref:path`. GitHub owner and repository names are
+ * case-insensitive, paths are not.
+ */
+export function templateCacheKey({ owner, repo, ref, path }: TemplateSource): string {
+	const directory = (path ?? '').replace(/^\/+|\/+$/g, '');
+	return `${owner}/${repo}`.toLowerCase() + `@${ref || 'HEAD'}:${directory}`;
+}
+
+export class TemplateCacheService {
+	private static instance: TemplateCacheService;
+	private hits = 0;
+	private misses = 0;
+	/** Downloads in progress, so concurrent misses for one template download it once */
+	private pending = new Map<string, Promise<TemplateFiles>>();
+
+	constructor(private config: TemplateConfig['cache'] = templateConfig.cache) {}
+
+	static getInstance(): TemplateCacheService {
+		if (!TemplateCacheService.instance) {
+			TemplateCacheService.instance = new TemplateCacheService();
+		}
+		return TemplateCacheService.instance;
+	}
+
+	/**
+	 * The template's files from the cache, or from `download` when they are not cached or
+	 * have expired. A cache that cannot be read or written never fails the download.
+	 */
+	async getFiles(
+		source: TemplateSource,
+		download: () => Promise<TemplateFiles>
+	): Promise<TemplateFiles> {
+		if (!this.config.enabled) {
+			return download();
+		}
+
+		const key = templateCacheKey(source);
+		const cached = await this.read(key).catch((error) => {
+			logger.warn(`Template cache lookup failed for ${key}:`, error);
+			return null;
+		});
+		if (cached) {
+			this.hits++;
+			return cached;
+		}
+
+		this.misses++;
+		const inFlight = this.pending.get(key);
+		if (inFlight) return inFlight;
+
+		const downloading = download()
+			.then(async (files) => {
+				if (Object.keys(files).length > 0) {
+					await this.write(key, source, files).catch((error) =>
+						logger.warn(`Failed to cache template ${key}:`, error)
+					);
+				}
+				return files;
+			})
+			.finally(() => this.pending.delete(key));
+		this.pending.set(key, downloading);
+		return downloading;
+	}
+
+	/**
+	 * Download templates that are not cached yet, one at a time. Returns the IDs that were
+	 * downloaded and those that failed; unknown IDs count as failed.
+	 */
+	async prewarm(
+		templateIds: string[] = this.config.prewarm
+	): Promise<{ warmed: string[]; failed: string[] }> {
+		const result = { warmed: [] as string[], failed: [] as string[] };
+		if (!this.config.enabled) return result;
+
+		for (const templateId of templateIds) {
+			const template = getGitHubTemplate(templateId);
+			if (!template) {
+				result.failed.push(templateId);
+				continue;
+			}
+
+			try {
+				const key = templateCacheKey(template);
+				if (await this.read(key, false)) continue;
+
+				await this.getFiles(template, () =>
+					gitHubApiService.downloadRepositoryFiles(
+						template.owner,
+						template.repo,
+						undefined,
+						template.path
+					)
+				);
+				result.warmed.push(templateId);
+			} catch (error) {
+				logger.warn(`Failed to prewarm template ${templateId}:`, error);
+				result.failed.push(templateId);
+			}
+		}
+
+		return result;
+	}
+
+	async getStats(): Promise<TemplateCacheStats> {
+		const usage = this.config.enabled
+			? await DatabaseService.getTemplateCacheUsage()
+			: { entries: 0, size: 0 };
+		const lookups = this.hits + this.misses;
+
+		return {
+			enabled: this.config.enabled,
+			entries: usage.entries,
+			maxEntries: this.config.maxSize,
+			totalSize: usage.size,
+			ttlHours: this.config.ttlHours,
+			compression: this.config.compressionEnabled,
+			hits: this.hits,
+			misses: this.misses,
+			hitRate: lookups > 0 ? this.hits / lookups : 0
+		};
+	}
+
+	/**
+	 * Cached files of a template that has not expired. MongoDB removes expired entries on
+	 * its own schedule, so expiry is checked here as well.
+	 */
+	private async read(key: string, touch = true): Promise<TemplateFiles | null> {
+		const entry = await DatabaseService.findTemplateCacheEntry(key);
+		const now = new Date();
+		if (!entry || entry.expiresAt <= now) return null;
+
+		if (touch) await DatabaseService.touchTemplateCacheEntry(key, now);
+		const json = entry.compressed ? gunzipSync(entry.data) : entry.data;
+		return JSON.parse(json.toString('utf8'));
+	}
+
+	private async write(key: string, source: TemplateSource, files: TemplateFiles): Promise<void> {
+		const json = Buffer.from(JSON.stringify(files));
+		const data = this.config.compressionEnabled ? gzipSync(json) : json;
+		const now = new Date();
+
+		const entry: TemplateCacheEntry = {
+			key,
+			owner: source.owner,
+			repo: source.repo,
+			...(source.ref ? { ref: source.ref } : {}),
+			...(source.path ? { path: source.path } : {}),
+			data,
+			compressed: this.config.compressionEnabled,
+			fileCount: Object.keys(files).length,
+			size: data.length,
+			hits: 0,
+			createdAt: now,
+			lastAccessedAt: now,
+			expiresAt: new Date(now.getTime() + this.config.ttlHours * 60 * 60 * 1000)
+		};
+		await DatabaseService.upsertTemplateCacheEntry(entry);
+		await this.evict();
+	}
+
+	/**
+	 * Drop the least recently used entries beyond `maxSize`
+	 */
+	private async evict(): Promise<void> {
+		const { entries } = await DatabaseService.getTemplateCacheUsage();
+		const excess = entries - this.config.maxSize;
+		if (excess <= 0) return;
+
+		const keys = await DatabaseService.findLeastRecentlyUsedTemplateCacheKeys(excess);
+		await DatabaseService.deleteTemplateCacheEntries(keys);
+	}
+}
+
+export const templateCacheService = TemplateCacheService.getInstance();
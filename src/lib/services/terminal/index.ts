@@ -0,0 +1,26 @@
+/**
+ * Sandbox Terminal Exports
+ */
+export {
+	ensurePtyBridge,
+	listPtyBridgeSessions,
+	PTY_BRIDGE_PORT,
+	PTY_BRIDGE_SCRIPT,
+	stopPtyBridgeSession
+} from './pty-bridge';
+export type { PtyBridgeSession } from './pty-bridge';
+export {
+	MAX_PTY_SESSIONS_PER_SANDBOX,
+	PTY_DETACHED_TIMEOUT,
+	PtySession,
+	PtySessionManager,
+	ptySessionManager
+} from './pty-session';
+export type { PtySessionOptions, PtySocket } from './pty-session';
+export { handlePtySocket } from './pty-socket';
+export { DEFAULT_SCROLLBACK_LIMIT, ScrollbackBuffer } from './scrollback-buffer';
+export {
+	NAMED_SESSION_DETACHED_TIMEOUT,
+	TerminalSessionService,
+	terminalSessionService
+} from './terminal-session.service';
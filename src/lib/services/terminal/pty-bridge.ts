@@ -0,0 +1,348 @@
+/**
+ * In-sandbox bridge for interactive shells.
+ *
+ * The script keeps every shell in its own pseudo-terminal (allocated with
+ * `script(1)`) so sessions outlive the browser and the app server. Output is
+ * streamed from `GET /sessions/:id/stream` (the session is created on first
+ * attach and its recent output replayed; `command` and `cwd` run a task first),
+ * keystrokes go to `POST /sessions/:id/input`,
+ * `POST /sessions/:id/resize` sets the window size, `DELETE /sessions/:id`
+ * hangs up, and `GET /sessions` lists the running shells. Shells nobody streams for half an hour are killed, and the bridge
+ * exits once it has had no shells for ten minutes. Requests without the bridge's
+ * secret are refused (see `sandbox-bridge`).
+ */
+
+import type { Project } from '$lib/types';
+import {
+	BRIDGE_AUTH_SCRIPT,
+	ensureSandboxBridge,
+	probeSandboxBridge,
+	type SandboxBridgeDefinition,
+	type SandboxBridgeEndpoint
+} from '../sandbox/sandbox-bridge';
+
+const BRIDGE_DIR = '/tmp/aura-pty';
+
+/** Port the PTY bridge listens on inside the sandbox */
+export const PTY_BRIDGE_PORT = 7620;
+
+export const PTY_BRIDGE_SCRIPT = `'use strict';
+const http = require('http');
+const fs = require('fs');
+const { spawn, execFile } = require('child_process');
+${BRIDGE_AUTH_SCRIPT}
+
+const port = Number(process.argv[2]);
+const STATE_DIR = '${BRIDGE_DIR}';
+const SCROLLBACK_BYTES = 256 * 1024;
+const DETACHED_KILL_MS = 30 * 60 * 1000;
+const IDLE_EXIT_MS = 10 * 60 * 1000;
+const SESSION_PATH = /^\\/sessions\\/([\\w-]{1,128})(\\/stream|\\/input|\\/resize)?$/;
+const SHELL = /^[\\w/.-]{1,64}$/;
+
+const sessions = new Map();
+let exitTimer = null;
+
+function armIdleExit() {
+	clearTimeout(exitTimer);
+	if (sessions.size === 0) exitTimer = setTimeout(() => process.exit(0), IDLE_EXIT_MS);
+}
+
+function armDetachedKill(session) {
+	clearTimeout(session.killTimer);
+	if (session.streams.size === 0) {
+		session.killTimer = setTimeout(() => hangUp(session), DETACHED_KILL_MS);
+	}
+}
+
+// script(1) and interactive shells shrug off SIGHUP and SIGTERM; killing script
+// closes the terminal, and the kernel hangs up everything running in it
+function hangUp(session) {
+	try {
+		process.kill(-session.proc.pid, 'SIGKILL');
+	} catch {
+		session.proc.kill('SIGKILL');
+	}
+}
+
+function dimension(value, fallback) {
+	const number = Number(value);
+	return Number.isInteger(number) && number > 0 && number <= 1000 ? number : fallback;
+}
+
+function describe(session) {
+	return {
+		id: session.id,
+		shell: session.shell,
+		pid: session.proc.pid,
+		cols: session.cols,
+		rows: session.rows,
+		startedAt: session.startedAt,
+		attached: session.streams.size
+	};
+}
+
+function createSession(id, shell, cols, rows, task) {
+	fs.mkdirSync(STATE_DIR, { recursive: true });
+	const ttyFile = STATE_DIR + '/' + id + '.tty';
+	// The shell records its terminal so resizes can target it with stty
+	let init = 'stty rows ' + rows + ' cols ' + cols + ' 2>/dev/null; tty > ' + ttyFile + '; ';
+	const env = { TERM: 'xterm-256color', COLORTERM: 'truecolor' };
+	if (task) {
+		// Tasks arrive through the environment so they need no quoting; the exit code is
+		// printed for the task runner and the terminal stays usable afterwards
+		init +=
+			'cd -- "$AURA_TASK_CWD" && ' + shell + ' -lc "$AURA_TASK_COMMAND"; ' +
+			'printf "\\n[Task exited with code %s]\\n" "$?"; ';
+		env.AURA_TASK_COMMAND = task.command;
+		env.AURA_TASK_CWD = task.cwd || '.';
+	}
+	init += 'exec ' + shell + ' -l';
+	const proc = spawn('script', ['-qfc', init, '/dev/null'], {
+		detached: true,
+		env: Object.assign({}, process.env, env),
+		stdio: ['pipe', 'pipe', 'pipe']
+	});
+	const session = {
+		id,
+		shell,
+		proc,
+		ttyFile,
+		cols,
+		rows,
+		startedAt: new Date().toISOString(),
+		chunks: [],
+		size: 0,
+		streams: new Set(),
+		killTimer: null,
+		finished: false
+	};
+
+	const record = (chunk) => {
+		session.chunks.push(chunk);
+		session.size += chunk.length;
+		while (session.size > SCROLLBACK_BYTES && session.chunks.length > 1) {
+			session.size -= session.chunks.shift().length;
+		}
+		for (const res of session.streams) res.write(chunk);
+	};
+	const finish = () => {
+		if (session.finished) return;
+		session.finished = true;
+		clearTimeout(session.killTimer);
+		if (sessions.get(id) === session) sessions.delete(id);
+		for (const res of session.streams) res.end();
+		session.streams.clear();
+		fs.rm(ttyFile, { force: true }, () => {});
+		armIdleExit();
+	};
+
+	proc.stdout.on('data', record);
+	proc.stderr.on('data', record);
+	proc.stdin.on('error', () => {});
+	proc.on('error', (error) => {
+		record(Buffer.from('\\r\\nCould not start a terminal: ' + error.message + '\\r\\n'));
+		finish();
+	});
+	proc.on('close', finish);
+
+	sessions.set(id, session);
+	clearTimeout(exitTimer);
+	armDetachedKill(session);
+	return session;
+}
+
+function readBody(req, callback) {
+	const chunks = [];
+	req.on('data', (chunk) => chunks.push(chunk));
+	req.on('end', () => callback(Buffer.concat(chunks)));
+}
+
+http
+	.createServer((req, res) => {
+		if (!authorized(req)) {
+			res.statusCode = 401;
+			res.end();
+			return;
+		}
+		const url = new URL(req.url, 'http://bridge');
+
+		if (url.pathname === '/health') {
+			res.setHeader('content-type', 'application/json');
+			res.end(JSON.stringify({ root: process.cwd(), sessions: sessions.size }));
+			return;
+		}
+
+		if (req.method === 'GET' && url.pathname === '/sessions') {
+			res.setHeader('content-type', 'application/json');
+			res.end(JSON.stringify(Array.from(sessions.values(), describe)));
+			return;
+		}
+
+		const match = SESSION_PATH.exec(url.pathname);
+		if (!match) {
+			res.statusCode = 404;
+			res.end();
+			return;
+		}
+		const id = match[1];
+		const action = match[2];
+		let session = sessions.get(id);
+
+		if (req.method === 'GET' && action === '/stream') {
+			if (!session) {
+				const shell = url.searchParams.get('shell') || 'bash';
+				if (!SHELL.test(shell)) {
+					res.statusCode = 400;
+					res.end();
+					return;
+				}
+				const cols = dimension(url.searchParams.get('cols'), 80);
+				const rows = dimension(url.searchParams.get('rows'), 24);
+				const command = url.searchParams.get('command');
+				const task = command ? { command, cwd: url.searchParams.get('cwd') } : null;
+				session = createSession(id, shell, cols, rows, task);
+			}
+			res.writeHead(200, {
+				'content-type': 'application/octet-stream',
+				'cache-control': 'no-cache',
+				'x-accel-buffering': 'no'
+			});
+			res.flushHeaders();
+			if (url.searchParams.get('replay') !== '0' && session.size > 0) {
+				res.write(Buffer.concat(session.chunks));
+			}
+			if (session.finished) {
+				res.end();
+				return;
+			}
+			const attached = session;
+			attached.streams.add(res);
+			clearTimeout(attached.killTimer);
+			res.on('close', () => {
+				attached.streams.delete(res);
+				if (!attached.finished) armDetachedKill(attached);
+			});
+			return;
+		}
+
+		if (!session) {
+			res.statusCode = 404;
+			res.end();
+			return;
+		}
+
+		if (req.method === 'GET' && !action) {
+			res.setHeader('content-type', 'application/json');
+			res.end(JSON.stringify(describe(session)));
+			return;
+		}
+
+		if (req.method === 'POST' && action === '/input') {
+			const target = session;
+			readBody(req, (body) => {
+				target.proc.stdin.write(body);
+				res.end();
+			});
+			return;
+		}
+
+		if (req.method === 'POST' && action === '/resize') {
+			const cols = dimension(url.searchParams.get('cols'), session.cols);
+			const rows = dimension(url.searchParams.get('rows'), session.rows);
+			let tty;
+			try {
+				tty = fs.readFileSync(session.ttyFile, 'utf-8').trim();
+			} catch {
+				res.statusCode = 409;
+				res.end();
+				return;
+			}
+			const target = session;
+			execFile('stty', ['-F', tty, 'rows', String(rows), 'cols', String(cols)], (error) => {
+				if (!error) {
+					target.cols = cols;
+					target.rows = rows;
+				}
+				res.statusCode = error ? 500 : 204;
+				res.end();
+			});
+			return;
+		}
+
+		if (req.method === 'DELETE' && !action) {
+			hangUp(session);
+			res.statusCode = 204;
+			res.end();
+			return;
+		}
+
+		res.statusCode = 405;
+		res.end();
+	})
+	.listen(port, BRIDGE_HOST, armIdleExit);
+`;
+
+/** What the bridge reports about a running shell */
+export interface PtyBridgeSession {
+	id: string;
+	shell: string;
+	pid: number;
+	cols: number;
+	rows: number;
+	startedAt: string;
+	attached: number;
+}
+
+const PTY_BRIDGE: SandboxBridgeDefinition = {
+	name: 'terminal bridge',
+	port: PTY_BRIDGE_PORT,
+	path: `${BRIDGE_DIR}/bridge.cjs`,
+	script: PTY_BRIDGE_SCRIPT,
+	log: `${BRIDGE_DIR}/bridge.log`
+};
+
+/** Make sure the PTY bridge is listening in the project's sandbox and return how to reach it */
+export function ensurePtyBridge(
+	project: Pick<Project, 'sandboxId' | 'sandboxProvider'>
+): Promise<SandboxBridgeEndpoint> {
+	return ensureSandboxBridge(project, PTY_BRIDGE);
+}
+
+/** Shells running in the sandbox; empty when the bridge is not up (it is not started for this) */
+export async function listPtyBridgeSessions(
+	project: Pick<Project, 'sandboxId' | 'sandboxProvider'>
+): Promise<PtyBridgeSession[]> {
+	const endpoint = await probeSandboxBridge(project, PTY_BRIDGE);
+	if (!endpoint) return [];
+
+	try {
+		const response = await fetch(`${endpoint.url}/sessions`, {
+			headers: endpoint.headers,
+			signal: AbortSignal.timeout(3000)
+		});
+		return response.ok ? ((await response.json()) as PtyBridgeSession[]) : [];
+	} catch {
+		return [];
+	}
+}
+
+/** Hang up a shell the bridge is running; false when it was not running */
+export async function stopPtyBridgeSession(
+	project: Pick<Project, 'sandboxId' | 'sandboxProvider'>,
+	sessionId: string
+): Promise<boolean> {
+	const endpoint = await probeSandboxBridge(project, PTY_BRIDGE);
+	if (!endpoint) return false;
+
+	try {
+		const response = await fetch(`${endpoint.url}/sessions/${encodeURIComponent(sessionId)}`, {
+			method: 'DELETE',
+			headers: endpoint.headers,
+			signal: AbortSignal.timeout(3000)
+		});
+		return response.ok;
+	} catch {
+		return false;
+	}
+}
@@ -0,0 +1,355 @@
+/**
+ * Interactive shells in project sandboxes, shared by every browser tab attached to them.
+ *
+ * Each session holds one output stream from the in-sandbox PTY bridge and fans it
+ * out to its sockets, keeping a bounded scrollback so reconnecting tabs can be
+ * replayed. Shells outlive their tabs for a while and are hung up once nobody has
+ * been attached for `PTY_DETACHED_TIMEOUT`.
+ */
+
+import type { Project } from '$lib/types';
+import { TERMINAL_SESSION_ENDED, type TerminalServerMessage } from '$lib/types/terminal';
+import type { SandboxBridgeEndpoint } from '../sandbox/sandbox-bridge';
+import { ensurePtyBridge } from './pty-bridge';
+import { ScrollbackBuffer } from './scrollback-buffer';
+
+/** The parts of a WebSocket a session needs */
+export interface PtySocket {
+	send(data: string): void;
+	close(code?: number, reason?: string): void;
+}
+
+export interface PtySessionOptions {
+	/** The user who started the shell; nobody else may attach to it */
+	userId: string;
+	shell: string;
+	cols: number;
+	rows: number;
+	/** How long the shell survives without tabs; defaults to `PTY_DETACHED_TIMEOUT` */
+	detachedTimeout?: number;
+	/** Run this first (a task), then leave an interactive shell behind */
+	command?: string;
+	/** Directory of `command`, relative to the workspace root */
+	cwd?: string;
+}
+
+/** How long a shell is kept running after its last tab detaches */
+export const PTY_DETACHED_TIMEOUT = 15 * 60 * 1000;
+
+/** Shells one sandbox may run at once */
+export const MAX_PTY_SESSIONS_PER_SANDBOX = 8;
+
+/** Times the output stream is reopened in a row before the shell is given up on */
+const MAX_STREAM_REOPENS = 3;
+
+export class PtySession {
+	readonly scrollback = new ScrollbackBuffer();
+	readonly createdAt = new Date();
+	lastActivity = new Date();
+	readonly userId: string;
+	readonly shell: string;
+	readonly command?: string;
+	readonly cwd?: string;
+	cols: number;
+	rows: number;
+
+	private clients = new Set<PtySocket>();
+	private abort = new AbortController();
+	private decoder = new TextDecoder();
+	private requestQueue: Promise<void> = Promise.resolve();
+	private idleTimer: ReturnType<typeof setTimeout> | null = null;
+	private closed = false;
+	private detachedTimeout: number;
+
+	constructor(
+		readonly id: string,
+		readonly sandboxId: string,
+		private endpoint: SandboxBridgeEndpoint,
+		options: PtySessionOptions,
+		private onClose: (session: PtySession) => void = () => {}
+	) {
+		this.userId = options.userId;
+		this.shell = options.shell;
+		this.command = options.command;
+		this.cwd = options.cwd;
+		this.cols = options.cols;
+		this.rows = options.rows;
+		this.detachedTimeout = options.detachedTimeout ?? PTY_DETACHED_TIMEOUT;
+	}
+
+	/** Number of sockets currently attached */
+	get attached(): number {
+		return this.clients.size;
+	}
+
+	get isClosed(): boolean {
+		return this.closed;
+	}
+
+	/** Start (or pick up) the shell in the sandbox and begin relaying its output */
+	async start(): Promise<void> {
+		const body = await this.openStream(true);
+		void this.pump(body);
+		this.armIdleTimeout();
+	}
+
+	/** Attach a socket and replay the scrollback to it */
+	attach(socket: PtySocket): void {
+		if (this.closed) {
+			socket.close(TERMINAL_SESSION_ENDED, 'Terminal session ended');
+			return;
+		}
+
+		this.clearIdleTimeout();
+		this.clients.add(socket);
+		send(socket, { type: 'ready', sessionId: this.id, cols: this.cols, rows: this.rows });
+		const replay = this.scrollback.toString();
+		if (replay) send(socket, { type: 'output', data: replay });
+	}
+
+	detach(socket: PtySocket): void {
+		this.clients.delete(socket);
+		if (this.clients.size === 0) this.armIdleTimeout();
+	}
+
+	/** Forward keystrokes to the shell */
+	write(data: string): void {
+		if (!data) return;
+		this.lastActivity = new Date();
+		this.enqueue('input', {
+			method: 'POST',
+			headers: { 'content-type': 'application/octet-stream' },
+			body: data
+		});
+	}
+
+	resize(cols: number, rows: number): void {
+		if (cols === this.cols && rows === this.rows) return;
+		this.cols = cols;
+		this.rows = rows;
+		this.enqueue(`resize?cols=${cols}&rows=${rows}`, { method: 'POST' });
+	}
+
+	/** Hang up the shell and disconnect every tab */
+	async kill(): Promise<void> {
+		if (this.closed) return;
+		try {
+			await fetch(this.sessionUrl(), { method: 'DELETE', headers: this.endpoint.headers });
+		} catch (error) {
+			console.error(`Failed to stop terminal session ${this.id}:`, error);
+		}
+		this.dispose();
+	}
+
+	/** Stop relaying without touching the shell */
+	dispose(): void {
+		if (this.closed) return;
+		this.closed = true;
+		this.clearIdleTimeout();
+		this.abort.abort();
+		for (const socket of this.clients) {
+			socket.close(TERMINAL_SESSION_ENDED, 'Terminal session ended');
+		}
+		this.clients.clear();
+		this.onClose(this);
+	}
+
+	private sessionUrl(action?: string): string {
+		const base = `${this.endpoint.url}/sessions/${encodeURIComponent(this.id)}`;
+		return action ? `${base}/${action}` : base;
+	}
+
+	private async openStream(replay: boolean): Promise<ReadableStream<Uint8Array>> {
+		const query = new URLSearchParams({
+			shell: this.shell,
+			cols: String(this.cols),
+			rows: String(this.rows)
+		});
+		if (this.command) query.set('command', this.command);
+		if (this.cwd) query.set('cwd', this.cwd);
+		if (!replay) query.set('replay', '0');
+
+		const response = await fetch(`${this.sessionUrl('stream')}?${query}`, {
+			headers: this.endpoint.headers,
+			signal: this.abort.signal
+		});
+		if (!response.ok || !response.body) {
+			throw new Error(`Terminal bridge responded with ${response.status}`);
+		}
+		return response.body;
+	}
+
+	private async pump(body: ReadableStream<Uint8Array>): Promise<void> {
+		let reopens = 0;
+		for (;;) {
+			const reader = body.getReader();
+			try {
+				for (;;) {
+					const { done, value } = await reader.read();
+					if (done) break;
+					reopens = 0;
+					this.broadcast(this.decoder.decode(value, { stream: true }));
+				}
+			} catch (error) {
+				if (this.closed) return;
+				console.warn(`Lost the output stream of terminal session ${this.id}:`, error);
+			}
+			if (this.closed) return;
+
+			// Forwarded ports drop long-lived responses; pick the shell back up if it is still running
+			if (reopens >= MAX_STREAM_REOPENS || !(await this.isRunning())) break;
+			try {
+				reopens++;
+				body = await this.openStream(false);
+			} catch (error) {
+				console.error(`Failed to reopen terminal session ${this.id}:`, error);
+				break;
+			}
+		}
+
+		if (this.closed) return;
+		for (const socket of this.clients) send(socket, { type: 'exit' });
+		this.dispose();
+	}
+
+	private broadcast(data: string): void {
+		if (!data) return;
+		this.lastActivity = new Date();
+		this.scrollback.append(data);
+		for (const socket of this.clients) send(socket, { type: 'output', data });
+	}
+
+	private async isRunning(): Promise<boolean> {
+		try {
+			const response = await fetch(this.sessionUrl(), {
+				headers: this.endpoint.headers,
+				signal: AbortSignal.timeout(3000)
+			});
+			return response.ok;
+		} catch {
+			return false;
+		}
+	}
+
+	private enqueue(action: string, init: RequestInit): void {
+		if (this.closed) return;
+		// Requests are posted one at a time so keystrokes reach the shell in order
+		this.requestQueue = this.requestQueue
+			.then(async () => {
+				if (this.closed) return;
+				const response = await fetch(this.sessionUrl(action), {
+					...init,
+					headers: { ...this.endpoint.headers, ...init.headers }
+				});
+				if (!response.ok) {
+					throw new Error(`Terminal bridge responded with ${response.status}`);
+				}
+			})
+			.catch((error) => {
+				console.error(`Failed to forward ${action} to terminal session ${this.id}:`, error);
+			});
+	}
+
+	private armIdleTimeout(): void {
+		this.clearIdleTimeout();
+		if (this.clients.size > 0) return;
+		this.idleTimer = setTimeout(() => void this.kill(), this.detachedTimeout);
+	}
+
+	private clearIdleTimeout(): void {
+		if (this.idleTimer) clearTimeout(this.idleTimer);
+		this.idleTimer = null;
+	}
+}
+
+/** Keeps the running shells of every sandbox, keyed by sandbox and session id */
+export class PtySessionManager {
+	private static instance: PtySessionManager;
+	private sessions = new Map<string, PtySession>();
+	private starting = new Map<string, Promise<PtySession>>();
+	private closeListeners: Array<(session: PtySession) => void> = [];
+
+	static getInstance(): PtySessionManager {
+		if (!PtySessionManager.instance) {
+			PtySessionManager.instance = new PtySessionManager();
+		}
+		return PtySessionManager.instance;
+	}
+
+	/** Be told whenever a shell goes away, whether it exited, timed out or was hung up */
+	onClose(listener: (session: PtySession) => void): void {
+		this.closeListeners.push(listener);
+	}
+
+	get(sandboxId: string, sessionId: string): PtySession | undefined {
+		return this.sessions.get(key(sandboxId, sessionId));
+	}
+
+	/** Running sessions of a sandbox, oldest first */
+	list(sandboxId: string): PtySession[] {
+		return [...this.sessions.values()].filter((session) => session.sandboxId === sandboxId);
+	}
+
+	/** Whether another shell may be started in the sandbox */
+	hasCapacity(sandboxId: string): boolean {
+		const starting = [...this.starting.keys()].filter((id) => id.startsWith(`${sandboxId}/`));
+		return this.list(sandboxId).length + starting.length < MAX_PTY_SESSIONS_PER_SANDBOX;
+	}
+
+	/** Return the running session of the same user, or start the shell in the sandbox */
+	async open(
+		project: Pick<Project, 'sandboxId' | 'sandboxProvider'>,
+		sessionId: string,
+		options: PtySessionOptions
+	): Promise<PtySession> {
+		const sandboxId = project.sandboxId;
+		if (!sandboxId) {
+			throw new Error('Project has no sandbox');
+		}
+
+		const id = key(sandboxId, sessionId);
+		const existing = this.sessions.get(id);
+		if (existing && !existing.isClosed) return owned(existing, options.userId);
+
+		const starting = this.starting.get(id);
+		if (starting) return owned(await starting, options.userId);
+
+		const pending = (async () => {
+			const endpoint = await ensurePtyBridge(project);
+			const session = new PtySession(sessionId, sandboxId, endpoint, options, (closed) => {
+				if (this.sessions.get(id) === closed) this.sessions.delete(id);
+				for (const listener of this.closeListeners) listener(closed);
+			});
+			await session.start();
+			if (!session.isClosed) this.sessions.set(id, session);
+			return session;
+		})().finally(() => this.starting.delete(id));
+		this.starting.set(id, pending);
+		return pending;
+	}
+
+	/** Hang up a shell; returns false when it was not running */
+	async close(sandboxId: string, sessionId: string): Promise<boolean> {
+		const session = this.sessions.get(key(sandboxId, sessionId));
+		if (!session) return false;
+		await session.kill();
+		return true;
+	}
+}
+
+function key(sandboxId: string, sessionId: string): string {
+	return `${sandboxId}/${sessionId}`;
+}
+
+function owned(session: PtySession, userId: string): PtySession {
+	if (session.userId !== userId) {
+		throw new Error('Terminal session not found');
+	}
+	return session;
+}
+
+function send(socket: PtySocket, message: TerminalServerMessage): void {
+	socket.send(JSON.stringify(message));
+}
+
+export const ptySessionManager = PtySessionManager.getInstance();
@@ -0,0 +1,124 @@
+/**
+ * WebSocket route for interactive sandbox terminals
+ * (/api/sandbox/[id]/terminal/proxy/[sessionId])
+ *
+ * Query parameters `shell`, `cols` and `rows` only apply when the session is
+ * started; reconnecting with the same session id reattaches to the running shell.
+ * Ids of named sessions (see terminal-session.service) use the stored shell and
+ * the longer detached timeout. Only the user who started a shell may reattach to it.
+ */
+
+import {
+	TERMINAL_SESSION_ID_PATTERN,
+	TERMINAL_SHELL_PATTERN,
+	type TerminalClientMessage
+} from '$lib/types/terminal';
+import type { RawData } from 'ws';
+import { authorizeSandbox } from '../access';
+import type { SocketRouteHandler } from '../websocket/socket-server';
+import { ptySessionManager, type PtySession, type PtySessionOptions } from './pty-session';
+import { NAMED_SESSION_DETACHED_TIMEOUT, terminalSessionService } from './terminal-session.service';
+
+export const handlePtySocket: SocketRouteHandler = async ({ params, url, user }) => {
+	const sessionId = params.sessionId;
+	if (!TERMINAL_SESSION_ID_PATTERN.test(sessionId)) {
+		return { error: 'Invalid terminal session id', status: 400 };
+	}
+	const access = await authorizeSandbox(params.id, user.id, 'execute');
+	if ('error' in access) {
+		return access;
+	}
+	const { project } = access;
+
+	const named = await terminalSessionService.get(sessionId);
+	if (named && (named.projectId !== project.id || named.userId !== user.id)) {
+		return { error: 'Terminal session not found', status: 404 };
+	}
+	const running = ptySessionManager.get(params.id, sessionId);
+	if (running && running.userId !== user.id) {
+		return { error: 'Terminal session not found', status: 404 };
+	}
+	const shell = named?.shell || url.searchParams.get('shell') || 'bash';
+	if (!TERMINAL_SHELL_PATTERN.test(shell)) {
+		return { error: 'Invalid shell', status: 400 };
+	}
+	if (!running && !ptySessionManager.hasCapacity(params.id)) {
+		return { error: 'Too many terminal sessions are open for this sandbox', status: 429 };
+	}
+
+	const options: PtySessionOptions = {
+		userId: user.id,
+		shell,
+		cols: dimension(url.searchParams.get('cols'), 80),
+		rows: dimension(url.searchParams.get('rows'), 24),
+		detachedTimeout: named ? NAMED_SESSION_DETACHED_TIMEOUT : undefined
+	};
+
+	return {
+		accept: async (socket) => {
+			let session: PtySession | null = null;
+			let closed = false;
+			const pending: TerminalClientMessage[] = [];
+
+			const handle = (message: TerminalClientMessage) => {
+				if (!session) {
+					pending.push(message);
+				} else if (message.type === 'input') {
+					session.write(message.data);
+				} else {
+					session.resize(message.cols, message.rows);
+				}
+			};
+
+			socket.on('message', (data: RawData) => {
+				const message = parseClientMessage(data.toString());
+				if (message) handle(message);
+			});
+			socket.on('close', () => {
+				closed = true;
+				session?.detach(socket);
+			});
+
+			try {
+				session = await ptySessionManager.open(project, sessionId, options);
+			} catch (error) {
+				console.error(`Failed to start terminal session ${sessionId}:`, error);
+				const reason = error instanceof Error ? error.message : 'Terminal failed to start';
+				// Close reasons are limited to 123 bytes
+				socket.close(1011, reason.slice(0, 120));
+				return;
+			}
+
+			if (closed) return;
+			session.attach(socket);
+			for (const message of pending.splice(0)) handle(message);
+			if (named) await terminalSessionService.markAttached(named.id);
+		}
+	};
+};
+
+function parseClientMessage(text: string): TerminalClientMessage | null {
+	let message: unknown;
+	try {
+		message = JSON.parse(text);
+	} catch {
+		return null;
+	}
+	if (!message || typeof message !== 'object') return null;
+
+	const candidate = message as Record<string, unknown>;
+	if (candidate.type === 'input' && typeof candidate.data === 'string') {
+		return { type: 'input', data: candidate.data };
+	}
+	if (candidate.type === 'resize') {
+		const cols = dimension(candidate.cols, 0);
+		const rows = dimension(candidate.rows, 0);
+		return cols && rows ? { type: 'resize', cols, rows } : null;
+	}
+	return null;
+}
+
+function dimension(value: unknown, fallback: number): number {
+	const number = Number(value);
+	return Number.isInteger(number) && number > 0 && number <= 1000 ? number : fallback;
+}
@@ -0,0 +1,45 @@
+/**
+ * Bounded log of recent terminal output, replayed when a tab reattaches.
+ * Output is kept in the chunks it arrived in so escape sequences are rarely split.
+ */
+
+/** Characters of output kept per terminal session */
+export const DEFAULT_SCROLLBACK_LIMIT = 256 * 1024;
+
+export class ScrollbackBuffer {
+	private chunks: string[] = [];
+	private length = 0;
+
+	constructor(private limit: number = DEFAULT_SCROLLBACK_LIMIT) {}
+
+	get size(): number {
+		return this.length;
+	}
+
+	append(data: string): void {
+		if (!data) return;
+		this.chunks.push(data);
+		this.length += data.length;
+
+		while (this.length > this.limit && this.chunks.length > 1) {
+			this.length -= this.chunks.shift()!.length;
+		}
+		if (this.length > this.limit) {
+			// A single oversized chunk: keep its tail, starting on a fresh line when possible
+			let tail = this.chunks[0].slice(-this.limit);
+			const newline = tail.indexOf('\n');
+			if (newline !== -1 && newline < tail.length - 1) tail = tail.slice(newline + 1);
+			this.chunks = [tail];
+			this.length = tail.length;
+		}
+	}
+
+	clear(): void {
+		this.chunks = [];
+		this.length = 0;
+	}
+
+	toString(): string {
+		return this.chunks.join('');
+	}
+}
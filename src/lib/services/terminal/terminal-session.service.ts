@@ -0,0 +1,161 @@
+/**
+ * Named terminal sessions per project.
+ *
+ * Records are kept in the database so the editor can reattach its shell tabs after
+ * a reload; the shells themselves (and their scrollback) live in the sandbox's PTY
+ * bridge and the proxy's session manager. Listing merges both so a record whose
+ * shell has gone away is reported, and stored, as exited.
+ */
+
+import type { Project } from '$lib/types';
+import type { TerminalSessionInfo, TerminalSessionRecord } from '$lib/types/terminal';
+import { canPerform, resolveProjectRole } from '../access';
+import { DatabaseService } from '../database.service';
+import { listPtyBridgeSessions, stopPtyBridgeSession, type PtyBridgeSession } from './pty-bridge';
+import { ptySessionManager } from './pty-session';
+
+/** Named shells outlive their tabs longer than ad-hoc ones */
+export const NAMED_SESSION_DETACHED_TIMEOUT = 2 * 60 * 60 * 1000;
+
+export class TerminalSessionService {
+	private static instance: TerminalSessionService;
+
+	private constructor() {
+		ptySessionManager.onClose((session) => {
+			void this.markExited(session.id);
+		});
+	}
+
+	static getInstance(): TerminalSessionService {
+		if (!TerminalSessionService.instance) {
+			TerminalSessionService.instance = new TerminalSessionService();
+		}
+		return TerminalSessionService.instance;
+	}
+
+	async create(
+		project: Project,
+		userId: string,
+		options: { name?: string; shell?: string } = {}
+	): Promise<TerminalSessionRecord> {
+		if (!project.sandboxId) {
+			throw new Error('Project has no sandbox');
+		}
+
+		const existing = await DatabaseService.findTerminalSessionsByProject(project.id);
+		const now = new Date();
+		return DatabaseService.createTerminalSession({
+			id: `term-${crypto.randomUUID()}`,
+			projectId: project.id,
+			sandboxId: project.sandboxId,
+			userId,
+			name: options.name?.trim() || `Terminal ${existing.length + 1}`,
+			shell: options.shell || 'bash',
+			// The editor attaches right after creating it, which starts the shell
+			status: 'running',
+			createdAt: now,
+			updatedAt: now
+		});
+	}
+
+	get(id: string): Promise<TerminalSessionRecord | null> {
+		return DatabaseService.findTerminalSessionById(id);
+	}
+
+	/** Every session of a project, oldest first, with the live state of its shell */
+	async listForProject(project: Project): Promise<TerminalSessionInfo[]> {
+		const records = await DatabaseService.findTerminalSessionsByProject(project.id);
+		return this.withShellState(project, records);
+	}
+
+	/** Running sessions across a user's projects, newest first */
+	async listForUser(userId: string): Promise<TerminalSessionInfo[]> {
+		const records = await DatabaseService.findTerminalSessionsByUser(userId, 'running');
+
+		const byProject = new Map<string, TerminalSessionRecord[]>();
+		for (const record of records) {
+			byProject.set(record.projectId, [...(byProject.get(record.projectId) ?? []), record]);
+		}
+
+		const sessions: TerminalSessionInfo[] = [];
+		for (const [projectId, projectRecords] of byProject) {
+			const project = await DatabaseService.findProjectById(projectId);
+			if (!project || !canPerform(await resolveProjectRole(project, userId), 'execute')) continue;
+			const live = await this.withShellState(project, projectRecords);
+			sessions.push(...live.filter((session) => session.status === 'running'));
+		}
+		return sessions.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+	}
+
+	rename(id: string, name: string): Promise<TerminalSessionRecord | null> {
+		return DatabaseService.updateTerminalSession(id, { name: name.trim() });
+	}
+
+	/** Hang up the shell (wherever it is running) and forget the session */
+	async remove(project: Project, record: TerminalSessionRecord): Promise<void> {
+		const closed = await ptySessionManager.close(record.sandboxId, record.id);
+		if (!closed && project.sandboxId === record.sandboxId) {
+			await stopPtyBridgeSession(project, record.id);
+		}
+		await DatabaseService.deleteTerminalSession(record.id);
+	}
+
+	async markAttached(id: string): Promise<void> {
+		const now = new Date();
+		await DatabaseService.updateTerminalSession(id, {
+			status: 'running',
+			lastAttachedAt: now
+		}).catch((error) => console.warn(`Failed to record attach for terminal session ${id}:`, error));
+	}
+
+	async markExited(id: string): Promise<void> {
+		await DatabaseService.updateTerminalSession(id, {
+			status: 'exited',
+			exitedAt: new Date()
+		}).catch((error) => console.warn(`Failed to record exit for terminal session ${id}:`, error));
+	}
+
+	private async withShellState(
+		project: Project,
+		records: TerminalSessionRecord[]
+	): Promise<TerminalSessionInfo[]> {
+		let bridgeSessions: PtyBridgeSession[] | null = null;
+		const results: TerminalSessionInfo[] = [];
+
+		for (const record of records) {
+			if (record.status !== 'running') {
+				results.push({ ...record, attached: 0 });
+				continue;
+			}
+
+			const session = ptySessionManager.get(record.sandboxId, record.id);
+			if (session) {
+				results.push({
+					...record,
+					attached: session.attached,
+					lastActivity: session.lastActivity,
+					cols: session.cols,
+					rows: session.rows
+				});
+				continue;
+			}
+
+			// Not relayed by this server (e.g. after a restart); ask the sandbox
+			if (project.sandboxId === record.sandboxId) {
+				bridgeSessions ??= await listPtyBridgeSessions(project);
+				const shell = bridgeSessions.find((candidate) => candidate.id === record.id);
+				if (shell) {
+					results.push({ ...record, attached: 0, cols: shell.cols, rows: shell.rows });
+					continue;
+				}
+			}
+
+			await this.markExited(record.id);
+			results.push({ ...record, status: 'exited', exitedAt: new Date(), attached: 0 });
+		}
+
+		return results;
+	}
+}
+
+export const terminalSessionService = TerminalSessionService.getInstance();
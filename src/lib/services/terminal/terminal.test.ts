@@ -0,0 +1,257 @@
+/**
+ * Sandbox Terminal Proxy Tests
+ */
+
+import type { Project } from '$lib/types';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('$env/dynamic/private', () => ({ env: {} }));
+vi.mock('../sandbox/sandbox-manager', () => ({ sandboxManager: {} }));
+vi.mock('../database.service', () => ({
+	DatabaseService: {
+		findTerminalSessionsByProject: vi.fn(),
+		updateTerminalSession: vi.fn()
+	}
+}));
+vi.mock('./pty-bridge', () => ({
+	ensurePtyBridge: vi.fn(),
+	listPtyBridgeSessions: vi.fn(),
+	stopPtyBridgeSession: vi.fn()
+}));
+
+const { ScrollbackBuffer } = await import('./scrollback-buffer');
+const { PTY_DETACHED_TIMEOUT, PtySession, PtySessionManager } = await import('./pty-session');
+const { TERMINAL_SESSION_ENDED } = await import('$lib/types/terminal');
+const { terminalSessionService } = await import('./terminal-session.service');
+const { DatabaseService } = await import('../database.service');
+const { ensurePtyBridge, listPtyBridgeSessions } = await import('./pty-bridge');
+
+const endpoint = { url: 'http://sandbox:7620', headers: { 'x-token': 't' }, root: '/home/daytona' };
+
+function controllableStream() {
+	let controller!: ReadableStreamDefaultController<Uint8Array>;
+	const stream = new ReadableStream<Uint8Array>({
+		start(c) {
+			controller = c;
+		}
+	});
+	return {
+		stream,
+		push: (text: string) => controller.enqueue(new TextEncoder().encode(text)),
+		end: () => controller.close()
+	};
+}
+
+function fakeSocket() {
+	const messages: Array<Record<string, unknown>> = [];
+	return {
+		messages,
+		send: vi.fn((data: string) => messages.push(JSON.parse(data))),
+		close: vi.fn()
+	};
+}
+
+describe('ScrollbackBuffer', () => {
+	it('should drop the oldest chunks once over the limit', () => {
+		const buffer = new ScrollbackBuffer(10);
+		buffer.append('abcd');
+		buffer.append('efgh');
+		buffer.append('ijkl');
+
+		expect(buffer.toString()).toBe('efghijkl');
+		expect(buffer.size).toBe(8);
+	});
+
+	it('should keep the tail of an oversized chunk from a line start', () => {
+		const buffer = new ScrollbackBuffer(10);
+		buffer.append('line one\nline two\nend');
+
+		expect(buffer.toString()).toBe('end');
+	});
+});
+
+describe('PtySession', () => {
+	afterEach(() => {
+		vi.useRealTimers();
+		vi.unstubAllGlobals();
+	});
+
+	it('should relay output and replay the scrollback to reattaching sockets', async () => {
+		const output = controllableStream();
+		const fetchMock = vi.fn(async (url: string) =>
+			url.includes('/stream') ? new Response(output.stream) : new Response(null, { status: 404 })
+		);
+		vi.stubGlobal('fetch', fetchMock);
+
+		const session = new PtySession('tab-1', 'sbx', endpoint, {
+			userId: 'u1',
+			shell: 'bash',
+			cols: 100,
+			rows: 30
+		});
+		await session.start();
+		expect(fetchMock.mock.calls[0][0]).toBe(
+			'http://sandbox:7620/sessions/tab-1/stream?shell=bash&cols=100&rows=30'
+		);
+
+		const first = fakeSocket();
+		session.attach(first);
+		output.push('$ ls\r\n');
+		await vi.waitFor(() => expect(first.messages).toHaveLength(2));
+
+		const second = fakeSocket();
+		session.attach(second);
+		expect(second.messages).toEqual([
+			{ type: 'ready', sessionId: 'tab-1', cols: 100, rows: 30 },
+			{ type: 'output', data: '$ ls\r\n' }
+		]);
+
+		output.end();
+		await vi.waitFor(() =>
+			expect(first.close).toHaveBeenCalledWith(TERMINAL_SESSION_ENDED, 'Terminal session ended')
+		);
+		expect(first.messages.at(-1)).toEqual({ type: 'exit' });
+		expect(session.isClosed).toBe(true);
+	});
+
+	it('should post input and resizes to the bridge in order', async () => {
+		const fetchMock = vi.fn().mockResolvedValue(new Response(null, { status: 204 }));
+		vi.stubGlobal('fetch', fetchMock);
+
+		const session = new PtySession('tab-1', 'sbx', endpoint, {
+			userId: 'u1',
+			shell: 'bash',
+			cols: 80,
+			rows: 24
+		});
+		session.write('ls\r');
+		session.resize(120, 40);
+		session.resize(120, 40);
+		session.write('pwd\r');
+		await vi.waitFor(() => expect(fetchMock).toHaveBeenCalledTimes(3));
+
+		expect(fetchMock.mock.calls.map(([url, init]) => [url, init.body])).toEqual([
+			['http://sandbox:7620/sessions/tab-1/input', 'ls\r'],
+			['http://sandbox:7620/sessions/tab-1/resize?cols=120&rows=40', undefined],
+			['http://sandbox:7620/sessions/tab-1/input', 'pwd\r']
+		]);
+		expect(fetchMock.mock.calls[0][1].headers['x-token']).toBe('t');
+	});
+
+	it('should hang up the shell once nobody has been attached for the idle timeout', async () => {
+		vi.useFakeTimers();
+		const output = controllableStream();
+		const fetchMock = vi.fn(async (url: string) =>
+			url.includes('/stream') ? new Response(output.stream) : new Response(null, { status: 204 })
+		);
+		vi.stubGlobal('fetch', fetchMock);
+		const onClose = vi.fn();
+
+		const session = new PtySession(
+			'tab-1',
+			'sbx',
+			endpoint,
+			{ userId: 'u1', shell: 'bash', cols: 80, rows: 24 },
+			onClose
+		);
+		await session.start();
+		const socket = fakeSocket();
+		session.attach(socket);
+		await vi.advanceTimersByTimeAsync(PTY_DETACHED_TIMEOUT * 2);
+		expect(fetchMock).toHaveBeenCalledTimes(1);
+
+		session.detach(socket);
+		await vi.advanceTimersByTimeAsync(PTY_DETACHED_TIMEOUT);
+
+		expect(fetchMock).toHaveBeenLastCalledWith('http://sandbox:7620/sessions/tab-1', {
+			method: 'DELETE',
+			headers: endpoint.headers
+		});
+		expect(onClose).toHaveBeenCalledWith(session);
+	});
+});
+
+describe('PtySessionManager', () => {
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	it('should only reattach the user who started the shell', async () => {
+		const output = controllableStream();
+		vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response(output.stream)));
+		vi.mocked(ensurePtyBridge).mockResolvedValue(endpoint);
+		const manager = new PtySessionManager();
+		const project = { sandboxId: 'sbx', sandboxProvider: 'docker' } as const;
+		const options = { shell: 'bash', cols: 80, rows: 24 };
+
+		const session = await manager.open(project, 'tab-1', { ...options, userId: 'u1' });
+
+		await expect(manager.open(project, 'tab-1', { ...options, userId: 'u1' })).resolves.toBe(
+			session
+		);
+		await expect(manager.open(project, 'tab-1', { ...options, userId: 'u2' })).rejects.toThrow(
+			'Terminal session not found'
+		);
+		session.dispose();
+	});
+});
+
+describe('TerminalSessionService', () => {
+	const project = { id: 'p1', sandboxId: 'sb1', ownerId: 'u1' } as Project;
+
+	function record(id: string, status: 'running' | 'exited' = 'running') {
+		const now = new Date();
+		return {
+			id,
+			projectId: 'p1',
+			sandboxId: 'sb1',
+			userId: 'u1',
+			name: id,
+			shell: 'bash',
+			status,
+			createdAt: now,
+			updatedAt: now
+		};
+	}
+
+	afterEach(() => {
+		vi.mocked(DatabaseService.findTerminalSessionsByProject).mockReset();
+		vi.mocked(DatabaseService.updateTerminalSession).mockReset();
+		vi.mocked(listPtyBridgeSessions).mockReset();
+	});
+
+	it('should report shells still running in the sandbox and mark missing ones exited', async () => {
+		vi.mocked(DatabaseService.findTerminalSessionsByProject).mockResolvedValue([
+			record('term-live'),
+			record('term-gone'),
+			record('term-old', 'exited')
+		]);
+		vi.mocked(DatabaseService.updateTerminalSession).mockResolvedValue(null);
+		vi.mocked(listPtyBridgeSessions).mockResolvedValue([
+			{
+				id: 'term-live',
+				shell: 'bash',
+				pid: 42,
+				cols: 120,
+				rows: 40,
+				startedAt: new Date().toISOString(),
+				attached: 0
+			}
+		]);
+
+		const sessions = await terminalSessionService.listForProject(project);
+
+		expect(sessions.map((session) => [session.id, session.status])).toEqual([
+			['term-live', 'running'],
+			['term-gone', 'exited'],
+			['term-old', 'exited']
+		]);
+		expect(sessions[0]).toMatchObject({ attached: 0, cols: 120, rows: 40 });
+		expect(listPtyBridgeSessions).toHaveBeenCalledTimes(1);
+		expect(DatabaseService.updateTerminalSession).toHaveBeenCalledTimes(1);
+		expect(DatabaseService.updateTerminalSession).toHaveBeenCalledWith(
+			'term-gone',
+			expect.objectContaining({ status: 'exited' })
+		);
+	});
+});
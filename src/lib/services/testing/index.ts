@@ -0,0 +1,20 @@
+/**
+ * Test Explorer Exports
+ */
+export {
+	buildFixTestPrompt,
+	locateTest,
+	mergeTestRuns,
+	parseJestReport,
+	parsePytestReport,
+	splitFailure,
+	summarizeTests
+} from './test-reports';
+export {
+	TestService,
+	buildRunScript,
+	detectTestFrameworks,
+	parseDetectionOutput,
+	parseRunOutput,
+	testService
+} from './test.service';
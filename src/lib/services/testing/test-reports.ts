@@ -0,0 +1,280 @@
+/**
+ * Test reports
+ * Turns vitest/jest JSON reports and pytest-json-report output into test cases,
+ * and finds tests in their source files. Used by the server and the editor alike.
+ */
+
+import type {
+	TestCase,
+	TestFailure,
+	TestFileError,
+	TestRunResult,
+	TestStatus
+} from '../../types/testing.js';
+import { resolvePath, stripAnsi } from '../tasks/problem-matchers.js';
+
+/** The shape vitest's `json` reporter shares with `jest --json` */
+interface JestReport {
+	testResults?: Array<{
+		name: string;
+		status?: string;
+		message?: string;
+		assertionResults?: Array<{
+			ancestorTitles?: string[];
+			title: string;
+			fullName?: string;
+			status: string;
+			duration?: number | null;
+			failureMessages?: string[];
+			location?: { line: number; column: number } | null;
+		}>;
+	}>;
+}
+
+interface PytestReport {
+	duration?: number;
+	tests?: Array<{
+		nodeid: string;
+		lineno?: number;
+		outcome: string;
+		setup?: PytestStage;
+		call?: PytestStage;
+		teardown?: PytestStage;
+	}>;
+	collectors?: Array<{ nodeid: string; outcome: string; longrepr?: string }>;
+}
+
+interface PytestStage {
+	duration?: number;
+	outcome?: string;
+	crash?: { path?: string; lineno?: number; message?: string };
+	longrepr?: string;
+}
+
+const MAX_SOURCE_LINES = 300;
+const SOURCE_CONTEXT_LINES = 40;
+
+/**
+ * Test cases from a vitest or jest JSON report; paths are made relative to `root`
+ */
+export function parseJestReport(
+	report: JestReport,
+	framework: 'vitest' | 'jest',
+	root?: string | null
+): { tests: TestCase[]; errors: TestFileError[] } {
+	const tests: TestCase[] = [];
+	const errors: TestFileError[] = [];
+
+	for (const result of report.testResults ?? []) {
+		const file = resolvePath(result.name, { root: root ?? undefined });
+		const assertions = result.assertionResults ?? [];
+
+		// A file that fails to load reports its error without any assertions
+		if (assertions.length === 0 && result.status === 'failed' && result.message) {
+			errors.push({ file, message: stripAnsi(result.message).trim() });
+		}
+
+		for (const assertion of assertions) {
+			const suite = assertion.ancestorTitles ?? [];
+			const filter = assertion.fullName || [...suite, assertion.title].join(' ');
+			const failureText = stripAnsi((assertion.failureMessages ?? []).join('\n')).trim();
+
+			tests.push({
+				id: `${file}::${[...suite, assertion.title].join(' > ')}`,
+				framework,
+				file,
+				suite,
+				name: assertion.title,
+				filter,
+				status: jestStatus(assertion.status),
+				duration: assertion.duration ?? undefined,
+				line: assertion.location?.line,
+				failure: failureText ? splitFailure(failureText) : undefined
+			});
+		}
+	}
+
+	return { tests, errors };
+}
+
+/**
+ * Test cases from a pytest-json-report file; node ids are relative to the rootdir
+ */
+export function parsePytestReport(report: PytestReport): {
+	tests: TestCase[];
+	errors: TestFileError[];
+} {
+	const tests: TestCase[] = [];
+	const errors: TestFileError[] = [];
+
+	for (const test of report.tests ?? []) {
+		const [file, ...parts] = test.nodeid.split('::');
+		const name = parts.pop() ?? file;
+		const stages = [test.setup, test.call, test.teardown];
+		const failed = stages.find((stage) => stage?.outcome === 'failed');
+		const duration = stages.reduce((sum, stage) => sum + (stage?.duration ?? 0), 0);
+
+		tests.push({
+			id: test.nodeid,
+			framework: 'pytest',
+			file,
+			suite: parts,
+			name,
+			filter: test.nodeid,
+			status: pytestStatus(test.outcome),
+			duration: Math.round(duration * 1000),
+			// pytest counts lines from zero
+			line: typeof test.lineno === 'number' ? test.lineno + 1 : undefined,
+			failure: failed
+				? {
+						message: failed.crash?.message?.split('\n')[0] || 'Test failed',
+						details: failed.longrepr ? stripAnsi(failed.longrepr).trim() : undefined
+					}
+				: undefined
+		});
+	}
+
+	for (const collector of report.collectors ?? []) {
+		if (collector.outcome !== 'failed') continue;
+		errors.push({
+			file: collector.nodeid || undefined,
+			message: stripAnsi(collector.longrepr ?? 'Collection failed').trim()
+		});
+	}
+
+	return { tests, errors };
+}
+
+/**
+ * Split a failure message into its headline and the diff and stack below it
+ */
+export function splitFailure(text: string): TestFailure {
+	const lines = text.split(/\r?\n/);
+	const first = lines.findIndex((line) => line.trim());
+	if (first === -1) return { message: 'Test failed' };
+
+	const details = lines
+		.slice(first + 1)
+		.join('\n')
+		.trim();
+	return { message: lines[first].trim(), details: details || undefined };
+}
+
+export function summarizeTests(tests: TestCase[], duration = 0): TestRunResult['summary'] {
+	return {
+		passed: tests.filter((test) => test.status === 'passed').length,
+		failed: tests.filter((test) => test.status === 'failed').length,
+		skipped: tests.filter((test) => test.status === 'skipped').length,
+		duration
+	};
+}
+
+/**
+ * Fold a file or single-test run into the previous results; a full run replaces them
+ */
+export function mergeTestRuns(previous: TestRunResult | null, next: TestRunResult): TestRunResult {
+	if (!previous || previous.framework !== next.framework || !next.file) return next;
+
+	const covers = (file: string | undefined, test?: TestCase) =>
+		file === next.file && (!next.filter || test?.filter === next.filter);
+	// Runners report the other tests of a filtered file as skipped; only the chosen one counts
+	const fresh = next.filter ? next.tests.filter((test) => test.filter === next.filter) : next.tests;
+
+	const tests = [...previous.tests.filter((test) => !covers(test.file, test)), ...fresh];
+	const errors = [...previous.errors.filter((error) => error.file !== next.file), ...next.errors];
+	return {
+		...next,
+		file: undefined,
+		filter: undefined,
+		tests,
+		errors,
+		summary: summarizeTests(tests, next.summary.duration)
+	};
+}
+
+/**
+ * 1-based line where a test is declared, found by its name when the runner did not say
+ */
+export function locateTest(
+	source: string,
+	test: Pick<TestCase, 'framework' | 'suite' | 'name'>
+): number | undefined {
+	const lines = source.split('\n');
+	const find = (pattern: RegExp, from: number) => {
+		for (let index = from; index < lines.length; index++) {
+			if (pattern.test(lines[index])) return index;
+		}
+		return -1;
+	};
+
+	let start = 0;
+	if (test.framework === 'pytest') {
+		for (const name of test.suite) {
+			const index = find(new RegExp(`^\\s*class\\s+${escapeRegExp(name)}\\b`), start);
+			if (index !== -1) start = index;
+		}
+		// Parametrized ids carry their parameters in brackets
+		const name = test.name.replace(/\[.*\]$/, '');
+		const index = find(new RegExp(`^\\s*(?:async\\s+)?def\\s+${escapeRegExp(name)}\\s*\\(`), start);
+		return index === -1 ? undefined : index + 1;
+	}
+
+	for (const name of test.suite) {
+		const index = find(callPattern('describe|suite|context', name), start);
+		if (index !== -1) start = index;
+	}
+	const index = find(callPattern('it|test|specify', test.name), start);
+	return index === -1 ? undefined : index + 1;
+}
+
+/**
+ * Message asking the coding agent to fix a failing test
+ */
+export function buildFixTestPrompt(test: TestCase, source?: string): string {
+	const title = [...test.suite, test.name].join(' > ');
+	const parts = [
+		`The test "${title}" in \`${test.file}\` is failing. Find the cause and fix it. Change the code under test unless the test itself is wrong, then run the test again to confirm.`
+	];
+
+	if (test.failure) {
+		const failure = [test.failure.message, test.failure.details].filter(Boolean).join('\n');
+		parts.push(`Failure:\n\`\`\`\n${failure}\n\`\`\``);
+	}
+
+	if (source) {
+		const lines = source.split('\n');
+		const line = test.line ?? locateTest(source, test);
+		let excerpt = source;
+		let heading = `Test source (\`${test.file}\`):`;
+		if (lines.length > MAX_SOURCE_LINES && line) {
+			const from = Math.max(0, line - 1 - SOURCE_CONTEXT_LINES);
+			const to = Math.min(lines.length, line + SOURCE_CONTEXT_LINES);
+			excerpt = lines.slice(from, to).join('\n');
+			heading = `Test source (\`${test.file}\`, lines ${from + 1}-${to}):`;
+		}
+		const language = test.framework === 'pytest' ? 'python' : (test.file.split('.').pop() ?? '');
+		parts.push(`${heading}\n\`\`\`${language}\n${excerpt}\n\`\`\``);
+	}
+
+	return parts.join('\n\n');
+}
+
+function jestStatus(status: string): TestStatus {
+	if (status === 'passed') return 'passed';
+	if (status === 'failed') return 'failed';
+	return 'skipped';
+}
+
+function pytestStatus(outcome: string): TestStatus {
+	if (outcome === 'passed' || outcome === 'xpassed') return 'passed';
+	if (outcome === 'failed' || outcome === 'error') return 'failed';
+	return 'skipped';
+}
+
+function callPattern(functions: string, name: string): RegExp {
+	return new RegExp(`\\b(?:${functions})(?:\\.\\w+)*\\s*\\(\\s*(['"\`])${escapeRegExp(name)}\\1`);
+}
+
+export function escapeRegExp(value: string): string {
+	return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,267 @@
+/**
+ * Test Service
+ * Detects a project's test runners in its sandbox and runs them with JSON reporters
+ */
+
+import type { Project } from '../../types/index.js';
+import type {
+	TestDiscoveryResponse,
+	TestFramework,
+	TestRunRequest,
+	TestRunResult
+} from '../../types/testing.js';
+import { repositoryForProject, shellQuote } from '../git/git.service.js';
+import { sandboxManager } from '../sandbox/sandbox-manager.js';
+import { detectPackageManager, type PackageManager } from '../tasks/task-discovery.js';
+import {
+	escapeRegExp,
+	parseJestReport,
+	parsePytestReport,
+	summarizeTests
+} from './test-reports.js';
+
+const FILE_MARKER = '@@aura-test-file@@';
+const REPORT_MARKER = '@@aura-test-report@@';
+const PYTHON_TESTS = '(python tests)';
+const DETECTION_FILES = [
+	'package.json',
+	'pytest.ini',
+	'pyproject.toml',
+	'setup.cfg',
+	'tox.ini',
+	'conftest.py',
+	'requirements.txt',
+	'requirements-dev.txt'
+];
+const LOCKFILES = ['pnpm-lock.yaml', 'yarn.lock', 'bun.lockb', 'bun.lock'];
+const MAX_FILE_BYTES = 256 * 1024;
+const MAX_OUTPUT_BYTES = 64 * 1024;
+const DETECTION_TIMEOUT = 30_000;
+const RUN_TIMEOUT = 10 * 60 * 1000;
+const REPORT_DIR = '/tmp/aura-tests';
+
+/** Prints the workspace root, the files runners are configured in, and whether Python tests exist */
+const DETECTION_SCRIPT = [
+	'pwd',
+	`for f in ${DETECTION_FILES.join(' ')} ${LOCKFILES.join(' ')}; do`,
+	'[ -f "$f" ] || continue',
+	`printf '\\n${FILE_MARKER} %s\\n' "$f"`,
+	`case "$f" in *.lock|*.lockb|*.yaml) ;; *) head -c ${MAX_FILE_BYTES} "$f" ;; esac`,
+	'done',
+	`if find . -maxdepth 4 -path ./node_modules -prune -o \\( -name 'test_*.py' -o -name '*_test.py' \\) -print | grep -q .; then printf '\\n${FILE_MARKER} ${PYTHON_TESTS}\\n'; fi`
+].join('\n');
+
+// The reporter plugin is installed on first use; its output must not reach the report
+const PYTEST_PLUGIN = [
+	'(python3 -c "import pytest_jsonreport" >/dev/null 2>&1',
+	'|| python3 -m pip install --quiet --user pytest-json-report >/dev/null 2>&1',
+	'|| python3 -m pip install --quiet --user --break-system-packages pytest-json-report >/dev/null 2>&1)'
+].join(' ');
+
+const RUNNER_EXEC: Record<PackageManager, string> = {
+	npm: 'npx --no-install',
+	pnpm: 'pnpm exec',
+	yarn: 'yarn',
+	bun: 'bunx'
+};
+
+export class TestService {
+	private static instance: TestService;
+
+	static getInstance(): TestService {
+		if (!TestService.instance) {
+			TestService.instance = new TestService();
+		}
+		return TestService.instance;
+	}
+
+	/**
+	 * Test runners the project is set up for
+	 */
+	async detect(
+		project: Project
+	): Promise<TestDiscoveryResponse & { packageManager: PackageManager }> {
+		const repo = repositoryForProject(project);
+		if (!repo) {
+			throw new Error('Project has no sandbox');
+		}
+
+		const result = await sandboxManager.executeCommand(
+			repo.sandboxId,
+			`sh -c ${shellQuote(DETECTION_SCRIPT)}`,
+			{ workingDir: repo.workingDir, timeout: DETECTION_TIMEOUT, provider: repo.provider }
+		);
+		if (!result.success) {
+			throw new Error(`Failed to look for test runners: ${result.error || result.output}`);
+		}
+
+		return parseDetectionOutput(result.output);
+	}
+
+	/**
+	 * Run the whole suite, one file or one test and collect the results
+	 */
+	async run(project: Project, request: TestRunRequest): Promise<TestRunResult> {
+		const repo = repositoryForProject(project);
+		if (!repo) {
+			throw new Error('Project has no sandbox');
+		}
+
+		const { frameworks, root, packageManager } = await this.detect(project);
+		if (!frameworks.includes(request.framework)) {
+			throw new Error(`${request.framework} is not set up in this project`);
+		}
+
+		const started = Date.now();
+		const result = await sandboxManager.executeCommand(
+			repo.sandboxId,
+			`sh -c ${shellQuote(buildRunScript(request, packageManager))}`,
+			{ workingDir: repo.workingDir, timeout: RUN_TIMEOUT, provider: repo.provider }
+		);
+
+		return parseRunOutput(result.output ?? '', request, root, Date.now() - started);
+	}
+}
+
+/**
+ * Split the detection script's output into files and decide which runners apply
+ */
+export function parseDetectionOutput(
+	output: string
+): TestDiscoveryResponse & { packageManager: PackageManager } {
+	const [head, ...sections] = output.split(new RegExp(`\\r?\\n${FILE_MARKER} `));
+	const root = head.trim().split(/\r?\n/).pop()?.trim() || null;
+
+	const files = new Map<string, string>();
+	for (const section of sections) {
+		const newline = section.indexOf('\n');
+		const name = (newline === -1 ? section : section.slice(0, newline)).trim();
+		files.set(name, newline === -1 ? '' : section.slice(newline + 1));
+	}
+
+	return {
+		frameworks: detectTestFrameworks(files),
+		root,
+		packageManager: detectPackageManager([...files.keys()])
+	};
+}
+
+/**
+ * Runners named in package.json, and pytest when it is configured or Python tests exist
+ */
+export function detectTestFrameworks(files: Map<string, string>): TestFramework[] {
+	const frameworks: TestFramework[] = [];
+
+	const manifest = files.get('package.json');
+	if (manifest !== undefined) {
+		try {
+			const pkg = JSON.parse(manifest) as Record<string, Record<string, string> | undefined>;
+			const dependencies = { ...pkg.dependencies, ...pkg.devDependencies };
+			const scripts = Object.values(pkg.scripts ?? {}).join('\n');
+			if ('vitest' in dependencies || /\bvitest\b/.test(scripts)) frameworks.push('vitest');
+			if ('jest' in dependencies || /\bjest\b/.test(scripts)) frameworks.push('jest');
+		} catch {
+			// An unreadable package.json means no JavaScript runner
+		}
+	}
+
+	const configured =
+		files.has('pytest.ini') ||
+		files.has('conftest.py') ||
+		files.has(PYTHON_TESTS) ||
+		/\[tool\.pytest/.test(files.get('pyproject.toml') ?? '') ||
+		/\[tool:pytest\]/.test(files.get('setup.cfg') ?? '') ||
+		/\[pytest\]/.test(files.get('tox.ini') ?? '') ||
+		/^pytest\b/m.test(
+			(files.get('requirements.txt') ?? '') + '\n' + (files.get('requirements-dev.txt') ?? '')
+		);
+	if (configured) frameworks.push('pytest');
+
+	return frameworks;
+}
+
+/**
+ * Shell script that runs the tests, prints the tail of their output, then the report
+ */
+export function buildRunScript(request: TestRunRequest, packageManager: PackageManager): string {
+	const report = `${REPORT_DIR}/${request.framework}-$$.json`;
+	const runner = RUNNER_EXEC[packageManager];
+	const args: string[] = [];
+	let command: string;
+
+	switch (request.framework) {
+		case 'vitest':
+			if (request.file) args.push(request.file);
+			if (request.filter) args.push('-t', `^${escapeRegExp(request.filter)}$`);
+			command = `${runner} vitest run --reporter=json --outputFile=${report} ${args.map(shellQuote).join(' ')}`;
+			break;
+		case 'jest':
+			if (request.file) args.push(request.file);
+			if (request.filter) args.push('-t', `^${escapeRegExp(request.filter)}$`);
+			command = `${runner} jest --ci --json --testLocationInResults --outputFile=${report} ${args.map(shellQuote).join(' ')}`;
+			break;
+		case 'pytest':
+			// A single test is addressed by its node id, which starts with the file
+			args.push(request.filter ?? request.file ?? '');
+			command = `${PYTEST_PLUGIN}; python3 -m pytest -q --json-report --json-report-file=${report} ${args.filter(Boolean).map(shellQuote).join(' ')}`;
+			break;
+	}
+
+	return [
+		`mkdir -p ${REPORT_DIR}`,
+		`rm -f ${report}`,
+		`${command.trim()} 2>&1 | tail -c ${MAX_OUTPUT_BYTES}`,
+		`printf '\\n${REPORT_MARKER}\\n'`,
+		`cat ${report} 2>/dev/null`,
+		`rm -f ${report}`
+	].join('\n');
+}
+
+/**
+ * Results from a run's output: the console tail before the marker, the JSON report after it
+ */
+export function parseRunOutput(
+	output: string,
+	request: TestRunRequest,
+	root: string | null,
+	duration: number
+): TestRunResult {
+	const markerIndex = output.lastIndexOf(REPORT_MARKER);
+	const consoleOutput = (markerIndex === -1 ? output : output.slice(0, markerIndex)).trim();
+	const reportText =
+		markerIndex === -1 ? '' : output.slice(markerIndex + REPORT_MARKER.length).trim();
+
+	let parsed: ReturnType<typeof parsePytestReport> = { tests: [], errors: [] };
+	if (!reportText) {
+		parsed.errors.push({
+			file: request.file,
+			message: `${request.framework} did not produce a report. See the output for details.`
+		});
+	} else {
+		try {
+			const report = JSON.parse(reportText);
+			parsed =
+				request.framework === 'pytest'
+					? parsePytestReport(report)
+					: parseJestReport(report, request.framework, root);
+		} catch {
+			parsed.errors.push({
+				file: request.file,
+				message: `Could not read the ${request.framework} report`
+			});
+		}
+	}
+
+	return {
+		framework: request.framework,
+		file: request.file,
+		filter: request.filter,
+		tests: parsed.tests,
+		errors: parsed.errors,
+		summary: summarizeTests(parsed.tests, duration),
+		output: consoleOutput,
+		finishedAt: new Date().toISOString()
+	};
+}
+
+export const testService = TestService.getInstance();
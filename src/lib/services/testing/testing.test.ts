@@ -0,0 +1,327 @@
+/**
+ * Test Explorer Tests
+ */
+
+import type { TestCase, TestRunResult } from '$lib/types/testing';
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('$env/dynamic/private', () => ({ env: {} }));
+vi.mock('../sandbox/sandbox-manager.js', () => ({ sandboxManager: {} }));
+
+const {
+	buildFixTestPrompt,
+	locateTest,
+	mergeTestRuns,
+	parseJestReport,
+	parsePytestReport,
+	splitFailure
+} = await import('./test-reports');
+const { buildRunScript, detectTestFrameworks, parseDetectionOutput, parseRunOutput } =
+	await import('./test.service');
+
+const failureMessage = [
+	'\u001b[31mAssertionError: expected 2 to be 3 // Object.is equality\u001b[39m',
+	'',
+	'- Expected',
+	'+ Received',
+	'',
+	'- 3',
+	'+ 2',
+	'    at /home/app/src/math.test.ts:8:17'
+].join('\n');
+
+const vitestReport = {
+	testResults: [
+		{
+			name: '/home/app/src/math.test.ts',
+			status: 'failed',
+			message: '',
+			assertionResults: [
+				{
+					ancestorTitles: ['math', 'add'],
+					title: 'adds numbers',
+					fullName: 'math add adds numbers',
+					status: 'passed',
+					duration: 2,
+					failureMessages: []
+				},
+				{
+					ancestorTitles: ['math', 'add'],
+					title: 'carries',
+					fullName: 'math add carries',
+					status: 'failed',
+					duration: 5,
+					failureMessages: [failureMessage],
+					location: { line: 8, column: 3 }
+				},
+				{
+					ancestorTitles: [],
+					title: 'later',
+					status: 'todo',
+					failureMessages: []
+				}
+			]
+		},
+		{
+			name: '/home/app/src/broken.test.ts',
+			status: 'failed',
+			message: 'SyntaxError: Unexpected token',
+			assertionResults: []
+		}
+	]
+};
+
+function testCase(overrides: Partial<TestCase>): TestCase {
+	return {
+		id: 'src/a.test.ts::a',
+		framework: 'vitest',
+		file: 'src/a.test.ts',
+		suite: [],
+		name: 'a',
+		filter: 'a',
+		status: 'passed',
+		...overrides
+	};
+}
+
+function run(tests: TestCase[], scope: Partial<TestRunResult> = {}): TestRunResult {
+	return {
+		framework: 'vitest',
+		tests,
+		errors: [],
+		summary: { passed: 0, failed: 0, skipped: 0, duration: 10 },
+		output: '',
+		finishedAt: '2026-01-01T00:00:00.000Z',
+		...scope
+	};
+}
+
+describe('parseJestReport', () => {
+	it('should turn assertions into tests with relative paths and plain failures', () => {
+		const { tests, errors } = parseJestReport(vitestReport, 'vitest', '/home/app');
+
+		expect(tests.map((test) => [test.id, test.status])).toEqual([
+			['src/math.test.ts::math > add > adds numbers', 'passed'],
+			['src/math.test.ts::math > add > carries', 'failed'],
+			['src/math.test.ts::later', 'skipped']
+		]);
+		expect(tests[1]).toMatchObject({
+			filter: 'math add carries',
+			suite: ['math', 'add'],
+			line: 8,
+			duration: 5,
+			failure: { message: 'AssertionError: expected 2 to be 3 // Object.is equality' }
+		});
+		expect(tests[1].failure?.details).toContain('- 3\n+ 2');
+		expect(tests[2].filter).toBe('later');
+		expect(errors).toEqual([
+			{ file: 'src/broken.test.ts', message: 'SyntaxError: Unexpected token' }
+		]);
+	});
+});
+
+describe('parsePytestReport', () => {
+	it('should read node ids, outcomes and crashes', () => {
+		const { tests, errors } = parsePytestReport({
+			tests: [
+				{
+					nodeid: 'tests/test_cart.py::TestCart::test_total[2-3]',
+					lineno: 11,
+					outcome: 'failed',
+					setup: { duration: 0.001, outcome: 'passed' },
+					call: {
+						duration: 0.012,
+						outcome: 'failed',
+						crash: { message: 'assert 5 == 6\n +  where 5 = total()' },
+						longrepr: 'def test_total():\n>       assert total() == 6\nE       assert 5 == 6'
+					}
+				},
+				{ nodeid: 'tests/test_cart.py::test_empty', lineno: 3, outcome: 'xfailed' }
+			],
+			collectors: [
+				{ nodeid: 'tests/test_io.py', outcome: 'failed', longrepr: 'ImportError: no module io2' }
+			]
+		});
+
+		expect(tests[0]).toMatchObject({
+			file: 'tests/test_cart.py',
+			suite: ['TestCart'],
+			name: 'test_total[2-3]',
+			filter: 'tests/test_cart.py::TestCart::test_total[2-3]',
+			status: 'failed',
+			line: 12,
+			duration: 13,
+			failure: { message: 'assert 5 == 6' }
+		});
+		expect(tests[1].status).toBe('skipped');
+		expect(errors).toEqual([{ file: 'tests/test_io.py', message: 'ImportError: no module io2' }]);
+	});
+});
+
+describe('splitFailure', () => {
+	it('should separate the headline from the details', () => {
+		expect(splitFailure('\n\nError: boom\n    at x.js:1')).toEqual({
+			message: 'Error: boom',
+			details: 'at x.js:1'
+		});
+		expect(splitFailure('   ')).toEqual({ message: 'Test failed' });
+	});
+});
+
+describe('detectTestFrameworks', () => {
+	it('should find runners in package.json and pytest configuration', () => {
+		const files = new Map([
+			['package.json', JSON.stringify({ devDependencies: { vitest: '^3.0.0' } })],
+			['pyproject.toml', '[tool.pytest.ini_options]\naddopts = "-q"']
+		]);
+		expect(detectTestFrameworks(files)).toEqual(['vitest', 'pytest']);
+
+		expect(
+			detectTestFrameworks(new Map([['package.json', '{"scripts":{"test":"jest --coverage"}}']]))
+		).toEqual(['jest']);
+		expect(detectTestFrameworks(new Map([['package.json', 'not json']]))).toEqual([]);
+	});
+
+	it('should read the root and lockfiles from the detection output', () => {
+		const output = [
+			'/home/daytona',
+			'',
+			'@@aura-test-file@@ package.json',
+			'{"devDependencies":{"jest":"29"}}',
+			'',
+			'@@aura-test-file@@ yarn.lock',
+			'',
+			'@@aura-test-file@@ (python tests)'
+		].join('\n');
+
+		expect(parseDetectionOutput(output)).toEqual({
+			frameworks: ['jest', 'pytest'],
+			root: '/home/daytona',
+			packageManager: 'yarn'
+		});
+	});
+});
+
+describe('buildRunScript', () => {
+	it('should quote the file and anchor the test name filter', () => {
+		const script = buildRunScript(
+			{ framework: 'vitest', file: 'src/my tests.test.ts', filter: 'math add (carries)' },
+			'pnpm'
+		);
+
+		expect(script).toContain(
+			"pnpm exec vitest run --reporter=json --outputFile=/tmp/aura-tests/vitest-$$.json 'src/my tests.test.ts' -t '^math add \\(carries\\)$'"
+		);
+	});
+
+	it('should run a single pytest test by node id', () => {
+		const script = buildRunScript(
+			{ framework: 'pytest', file: 'tests/test_a.py', filter: 'tests/test_a.py::test_b' },
+			'npm'
+		);
+
+		expect(script).toContain(
+			'--json-report-file=/tmp/aura-tests/pytest-$$.json tests/test_a.py::test_b'
+		);
+	});
+});
+
+describe('parseRunOutput', () => {
+	it('should split the console output from the report', () => {
+		const output = `RUN v3\n 1 failed\n\n@@aura-test-report@@\n${JSON.stringify(vitestReport)}`;
+		const result = parseRunOutput(output, { framework: 'vitest' }, '/home/app', 1200);
+
+		expect(result.output).toBe('RUN v3\n 1 failed');
+		expect(result.summary).toEqual({ passed: 1, failed: 1, skipped: 1, duration: 1200 });
+		expect(result.errors).toHaveLength(1);
+	});
+
+	it('should report a run that produced no report', () => {
+		const result = parseRunOutput(
+			'sh: vitest: not found\n\n@@aura-test-report@@\n',
+			{ framework: 'vitest', file: 'src/a.test.ts' },
+			null,
+			5
+		);
+
+		expect(result.tests).toEqual([]);
+		expect(result.errors[0]).toMatchObject({ file: 'src/a.test.ts' });
+		expect(result.output).toBe('sh: vitest: not found');
+	});
+});
+
+describe('mergeTestRuns', () => {
+	const previous = run([
+		testCase({ id: 'a::one', file: 'a', filter: 'one', status: 'failed' }),
+		testCase({ id: 'a::two', file: 'a', filter: 'two', status: 'passed' }),
+		testCase({ id: 'b::three', file: 'b', filter: 'three', status: 'failed' })
+	]);
+
+	it('should replace only the test a filtered run covered', () => {
+		const merged = mergeTestRuns(
+			previous,
+			run(
+				[
+					testCase({ id: 'a::one', file: 'a', filter: 'one', status: 'passed' }),
+					testCase({ id: 'a::two', file: 'a', filter: 'two', status: 'skipped' })
+				],
+				{ file: 'a', filter: 'one' }
+			)
+		);
+
+		expect(merged.tests.map((test) => `${test.id}:${test.status}`).sort()).toEqual([
+			'a::one:passed',
+			'a::two:passed',
+			'b::three:failed'
+		]);
+		expect(merged.summary).toMatchObject({ passed: 2, failed: 1 });
+		expect(merged.file).toBeUndefined();
+	});
+
+	it('should let a full run replace everything', () => {
+		const next = run([testCase({ id: 'c::four', file: 'c' })]);
+		expect(mergeTestRuns(previous, next)).toBe(next);
+	});
+});
+
+describe('locateTest', () => {
+	it('should find JavaScript tests inside their describe blocks', () => {
+		const source = [
+			"describe('first', () => {",
+			"  it('works', () => {});",
+			'});',
+			"describe('second', () => {",
+			"  it.skip('works', () => {});",
+			'});'
+		].join('\n');
+
+		expect(locateTest(source, { framework: 'vitest', suite: ['second'], name: 'works' })).toBe(5);
+		expect(locateTest(source, { framework: 'vitest', suite: [], name: 'missing' })).toBeUndefined();
+	});
+
+	it('should find pytest functions and methods', () => {
+		const source = ['class TestCart:', '    def test_total(self):', '        pass'].join('\n');
+
+		expect(
+			locateTest(source, { framework: 'pytest', suite: ['TestCart'], name: 'test_total[1-2]' })
+		).toBe(2);
+	});
+});
+
+describe('buildFixTestPrompt', () => {
+	it('should include the failure and the test source', () => {
+		const prompt = buildFixTestPrompt(
+			testCase({
+				suite: ['math'],
+				name: 'carries',
+				status: 'failed',
+				failure: { message: 'AssertionError: expected 2 to be 3', details: '- 3\n+ 2' }
+			}),
+			"it('carries', () => {});"
+		);
+
+		expect(prompt).toContain('The test "math > carries" in `src/a.test.ts` is failing.');
+		expect(prompt).toContain('```\nAssertionError: expected 2 to be 3\n- 3\n+ 2\n```');
+		expect(prompt).toContain("```ts\nit('carries', () => {});\n```");
+	});
+});
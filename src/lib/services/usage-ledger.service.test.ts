@@ -0,0 +1,153 @@
+/**
+ * Usage Ledger Service Tests
+ */
+
+import { MODEL_PRESETS } from '$lib/agent/model-presets';
+import type { UsageBudget, UsageDailyAggregate } from '$lib/types/usage';
+import type { LanguageModelUsage } from 'ai';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const daily = new Map<string, UsageDailyAggregate>();
+const threads = new Map<string, { totalTokensUsed: number; totalCost: number }>();
+const budgets: UsageBudget[] = [];
+
+vi.mock('./database.service', () => ({
+	DatabaseService: {
+		createUsageLedgerEntry: vi.fn(async (entry) => entry),
+		incrementDailyUsage: vi.fn(async (key, increments: Record<string, number>) => {
+			const aggregate = daily.get(key.id) ?? ({ ...key, models: {} } as UsageDailyAggregate);
+			for (const [path, value] of Object.entries(increments)) {
+				const [field, model, modelField] = path.split('.') as [string, string?, 'cost'?];
+				if (model && modelField) {
+					const entry = (aggregate.models[model] ??= { totalTokens: 0, cost: 0 });
+					entry[modelField] += value;
+				} else {
+					const totals = aggregate as unknown as Record<string, number>;
+					totals[field] = (totals[field] ?? 0) + value;
+				}
+			}
+			daily.set(key.id, aggregate);
+		}),
+		incrementChatThreadUsage: vi.fn(async (threadId: string, tokens: number, cost: number) => {
+			const stats = threads.get(threadId) ?? { totalTokensUsed: 0, totalCost: 0 };
+			stats.totalTokensUsed += tokens;
+			stats.totalCost += cost;
+			threads.set(threadId, stats);
+		}),
+		findUsageBudgets: vi.fn(async (scopes: Array<{ scope: string; scopeId: string }>) =>
+			budgets.filter((b) => scopes.some((s) => s.scope === b.scope && s.scopeId === b.scopeId))
+		),
+		sumMonthlyUsageCost: vi.fn(async (scope: string, scopeId: string, month: string) =>
+			[...daily.values()]
+				.filter((d) => d.month === month && (scope === 'user' ? d.userId : d.projectId) === scopeId)
+				.reduce((sum, d) => sum + d.cost, 0)
+		)
+	}
+}));
+
+const { buildUsageReport, getBudgetStatuses, priceUsage, remainingBudget, UsageRecorder } =
+	await import('./usage-ledger.service');
+
+function usage(inputTokens: number, outputTokens: number, cacheReadTokens = 0) {
+	return {
+		inputTokens,
+		outputTokens,
+		totalTokens: inputTokens + outputTokens,
+		inputTokenDetails: { noCacheTokens: undefined, cacheReadTokens, cacheWriteTokens: undefined },
+		outputTokenDetails: { textTokens: undefined, reasoningTokens: undefined }
+	} as LanguageModelUsage;
+}
+
+function budget(scope: UsageBudget['scope'], scopeId: string, monthlyLimit: number): UsageBudget {
+	return {
+		id: `${scope}-${scopeId}`,
+		scope,
+		scopeId,
+		monthlyLimit,
+		createdBy: 'user-1',
+		createdAt: new Date(),
+		updatedAt: new Date()
+	};
+}
+
+describe('priceUsage', () => {
+	it('should price prompt, completion and cached tokens per million', () => {
+		// gpt-4o: $2.5 prompt, $10 completion, $1.25 cache read per 1M tokens
+		expect(
+			priceUsage('gpt-4o', { inputTokens: 1_000_000, outputTokens: 0, cachedInputTokens: 0 })
+		).toBeCloseTo(2.5);
+		expect(
+			priceUsage('gpt-4o', {
+				inputTokens: 1_000_000,
+				outputTokens: 100_000,
+				cachedInputTokens: 400_000
+			})
+		).toBeCloseTo(0.6 * 2.5 + 0.4 * 1.25 + 0.1 * 10);
+	});
+
+	it('should price unknown models at the highest preset prices', () => {
+		const highest = Math.max(...Object.values(MODEL_PRESETS).map((preset) => preset.cost ?? 0));
+
+		expect(
+			priceUsage('unknown-model', { inputTokens: 1_000_000, outputTokens: 0, cachedInputTokens: 0 })
+		).toBeCloseTo(highest);
+	});
+});
+
+describe('UsageRecorder', () => {
+	beforeEach(() => {
+		daily.clear();
+		threads.clear();
+		budgets.length = 0;
+	});
+
+	const context = {
+		userId: 'user-1',
+		projectId: 'project-1',
+		threadId: 'thread-1',
+		messageId: 'message-1',
+		model: 'gpt-4o'
+	};
+
+	it('should update thread statistics and daily aggregates per step', async () => {
+		const recorder = new UsageRecorder(context);
+		await recorder.recordStep(usage(1000, 200));
+		await recorder.recordStep(usage(3000, 100));
+
+		expect(threads.get('thread-1')?.totalTokensUsed).toBe(4300);
+		expect(threads.get('thread-1')?.totalCost).toBeCloseTo(recorder.cost);
+
+		const [aggregate] = daily.values();
+		expect(aggregate).toMatchObject({ userId: 'user-1', projectId: 'project-1', steps: 2 });
+
+		const report = buildUsageReport([aggregate], aggregate.date, aggregate.date);
+		expect(report.totals.totalTokens).toBe(4300);
+		expect(report.models).toEqual([{ model: 'gpt-4o', totalTokens: 4300, cost: recorder.cost }]);
+	});
+
+	it('should keep model ids with dots readable in reports', async () => {
+		const recorder = new UsageRecorder({ ...context, model: 'claude-3.5-haiku' });
+		await recorder.recordStep(usage(100, 100));
+
+		const report = buildUsageReport([...daily.values()], '2000-01-01', '2999-12-31');
+		expect(report.models[0].model).toBe('claude-3.5-haiku');
+	});
+
+	it('should report the tightest budget and flag it once spent', async () => {
+		budgets.push(budget('user', 'user-1', 10), budget('project', 'project-1', 0.01));
+		await new UsageRecorder(context).recordStep(usage(2000, 0)); // $0.005
+
+		const statuses = await getBudgetStatuses('user-1', 'project-1');
+		expect(statuses.every((status) => !status.exceeded)).toBe(true);
+		expect(remainingBudget(statuses)).toBeCloseTo(0.005);
+
+		const recorder = new UsageRecorder(context, remainingBudget(statuses));
+		await recorder.recordStep(usage(1000, 0));
+		expect(recorder.budgetExceeded).toBe(false);
+		await recorder.recordStep(usage(1000, 0));
+		expect(recorder.budgetExceeded).toBe(true);
+
+		const [, project] = await getBudgetStatuses('user-1', 'project-1');
+		expect(project.exceeded).toBe(true);
+	});
+});
@@ -0,0 +1,288 @@
+/**
+ * Usage Ledger Service
+ * Prices every agent step, keeps thread statistics and daily per-user/per-project
+ * aggregates up to date, and enforces monthly budgets
+ */
+
+import { findModelPreset, MODEL_PRESETS, type ModelPreset } from '$lib/agent/model-presets';
+import type {
+	UsageBudgetStatus,
+	UsageDailyAggregate,
+	UsageLedgerEntry,
+	UsageTotals
+} from '$lib/types/usage';
+import type { LanguageModelUsage } from 'ai';
+import { DatabaseService } from './database.service';
+
+const TOKENS_PER_PRICE_UNIT = 1_000_000;
+
+export interface UsageContext {
+	userId: string;
+	projectId?: string;
+	threadId: string;
+	messageId: string;
+	model: string;
+}
+
+export interface UsageReport {
+	from: string;
+	to: string;
+	daily: Array<{ date: string } & UsageTotals>;
+	models: Array<{ model: string; totalTokens: number; cost: number }>;
+	totals: UsageTotals;
+}
+
+/**
+ * Price token usage in USD with the model's preset pricing. Cached prompt tokens use
+ * the cache read price when one is known. Models without a price are charged the
+ * highest preset prices so they cannot run past a budget for free.
+ */
+export function priceUsage(
+	model: string,
+	usage: Pick<UsageTotals, 'inputTokens' | 'outputTokens' | 'cachedInputTokens'>
+): number {
+	const found = findModelPreset(model);
+	const preset = found?.cost ? found : highestPricing();
+	if (!preset.cost) return 0;
+
+	const cached = Math.min(usage.cachedInputTokens, usage.inputTokens);
+	const uncached = usage.inputTokens - cached;
+	const cost =
+		uncached * preset.cost +
+		cached * (preset.cacheReadCost ?? preset.cost) +
+		usage.outputTokens * (preset.completionCost ?? preset.cost);
+
+	return cost / TOKENS_PER_PRICE_UNIT;
+}
+
+let fallbackPricing: ModelPreset | undefined;
+
+function highestPricing(): ModelPreset {
+	if (!fallbackPricing) {
+		const presets = Object.values(MODEL_PRESETS);
+		const highest = (price: (preset: ModelPreset) => number | undefined) =>
+			Math.max(0, ...presets.map((preset) => price(preset) ?? 0));
+		fallbackPricing = {
+			provider: 'unknown',
+			model: 'unknown',
+			cost: highest((preset) => preset.cost),
+			completionCost: highest((preset) => preset.completionCost ?? preset.cost)
+		};
+	}
+	return fallbackPricing;
+}
+
+/**
+ * Records the usage of one agent run step by step
+ */
+export class UsageRecorder {
+	private context: UsageContext;
+	private budget: number | undefined;
+	private steps = 0;
+	private totals: UsageTotals = emptyTotals();
+
+	/**
+	 * @param budget - USD the run may spend before `budgetExceeded` turns true
+	 */
+	constructor(context: UsageContext, budget?: number) {
+		this.context = context;
+		this.budget = budget;
+	}
+
+	get cost(): number {
+		return this.totals.cost;
+	}
+
+	get budgetExceeded(): boolean {
+		return this.budget !== undefined && this.totals.cost >= this.budget;
+	}
+
+	get summary(): UsageTotals {
+		return { ...this.totals };
+	}
+
+	/**
+	 * Price and persist one step. Failures are logged rather than thrown so
+	 * accounting never breaks the agent run.
+	 */
+	async recordStep(usage: LanguageModelUsage): Promise<UsageLedgerEntry | null> {
+		const inputTokens = usage.inputTokens ?? 0;
+		const outputTokens = usage.outputTokens ?? 0;
+		const cachedInputTokens = usage.inputTokenDetails?.cacheReadTokens ?? 0;
+		const totalTokens = usage.totalTokens ?? inputTokens + outputTokens;
+		const cost = priceUsage(this.context.model, { inputTokens, outputTokens, cachedInputTokens });
+
+		this.steps++;
+		addTotals(this.totals, {
+			steps: 1,
+			inputTokens,
+			outputTokens,
+			cachedInputTokens,
+			totalTokens,
+			cost
+		});
+
+		const entry: UsageLedgerEntry = {
+			id: crypto.randomUUID(),
+			userId: this.context.userId,
+			projectId: this.context.projectId,
+			threadId: this.context.threadId,
+			messageId: this.context.messageId,
+			model: this.context.model,
+			step: this.steps,
+			inputTokens,
+			outputTokens,
+			cachedInputTokens,
+			totalTokens,
+			cost,
+			createdAt: new Date()
+		};
+
+		try {
+			await DatabaseService.createUsageLedgerEntry(entry);
+			await DatabaseService.incrementDailyUsage(dailyKey(entry), {
+				steps: 1,
+				inputTokens,
+				outputTokens,
+				cachedInputTokens,
+				totalTokens,
+				cost,
+				[`models.${encodeModelKey(entry.model)}.totalTokens`]: totalTokens,
+				[`models.${encodeModelKey(entry.model)}.cost`]: cost
+			});
+			await DatabaseService.incrementChatThreadUsage(entry.threadId, totalTokens, cost);
+			return entry;
+		} catch (error) {
+			console.warn('⚠️ [Usage] Failed to record step usage:', error);
+			return null;
+		}
+	}
+}
+
+/**
+ * Budgets that apply to a user, optionally within a project, with this month's spend
+ */
+export async function getBudgetStatuses(
+	userId: string,
+	projectId?: string,
+	now = new Date()
+): Promise<UsageBudgetStatus[]> {
+	const month = toMonth(now);
+	const budgets = await DatabaseService.findUsageBudgets([
+		{ scope: 'user', scopeId: userId },
+		...(projectId ? [{ scope: 'project' as const, scopeId: projectId }] : [])
+	]);
+
+	return Promise.all(
+		budgets.map(async (budget) => {
+			const spent = await DatabaseService.sumMonthlyUsageCost(budget.scope, budget.scopeId, month);
+			return {
+				budget,
+				month,
+				spent,
+				remaining: Math.max(0, budget.monthlyLimit - spent),
+				exceeded: spent >= budget.monthlyLimit
+			};
+		})
+	);
+}
+
+/**
+ * The smallest amount left across budgets, or undefined when no budget applies
+ */
+export function remainingBudget(statuses: UsageBudgetStatus[]): number | undefined {
+	if (statuses.length === 0) return undefined;
+	return Math.min(...statuses.map((status) => status.remaining));
+}
+
+/**
+ * Summarize daily aggregates for the usage API
+ */
+export function buildUsageReport(
+	aggregates: UsageDailyAggregate[],
+	from: string,
+	to: string
+): UsageReport {
+	const daily = new Map<string, { date: string } & UsageTotals>();
+	const models = new Map<string, { model: string; totalTokens: number; cost: number }>();
+	const totals = emptyTotals();
+
+	for (const aggregate of aggregates) {
+		let day = daily.get(aggregate.date);
+		if (!day) {
+			day = { date: aggregate.date, ...emptyTotals() };
+			daily.set(aggregate.date, day);
+		}
+		addTotals(day, aggregate);
+		addTotals(totals, aggregate);
+
+		for (const [key, usage] of Object.entries(aggregate.models ?? {})) {
+			const model = decodeModelKey(key);
+			const entry = models.get(model) ?? { model, totalTokens: 0, cost: 0 };
+			entry.totalTokens += usage.totalTokens ?? 0;
+			entry.cost += usage.cost ?? 0;
+			models.set(model, entry);
+		}
+	}
+
+	return {
+		from,
+		to,
+		daily: [...daily.values()],
+		models: [...models.values()].sort((a, b) => b.cost - a.cost),
+		totals
+	};
+}
+
+/** UTC calendar day, e.g. 2025-01-31 */
+export function toDate(date: Date): string {
+	return date.toISOString().slice(0, 10);
+}
+
+/** UTC calendar month, e.g. 2025-01 */
+export function toMonth(date: Date): string {
+	return date.toISOString().slice(0, 7);
+}
+
+function dailyKey(
+	entry: UsageLedgerEntry
+): Pick<UsageDailyAggregate, 'id' | 'date' | 'month' | 'userId' | 'projectId'> {
+	const date = toDate(entry.createdAt);
+	const projectId = entry.projectId ?? null;
+	return {
+		id: `${date}:${entry.userId}:${projectId ?? '-'}`,
+		date,
+		month: toMonth(entry.createdAt),
+		userId: entry.userId,
+		projectId
+	};
+}
+
+// MongoDB field names cannot contain dots, which many model ids do (e.g. claude-3.5-haiku)
+function encodeModelKey(model: string): string {
+	return model.replace(/%/g, '%25').replace(/\./g, '%2E').replace(/^\$/, '%24');
+}
+
+function decodeModelKey(key: string): string {
+	return decodeURIComponent(key);
+}
+
+function emptyTotals(): UsageTotals {
+	return {
+		steps: 0,
+		inputTokens: 0,
+		outputTokens: 0,
+		cachedInputTokens: 0,
+		totalTokens: 0,
+		cost: 0
+	};
+}
+
+function addTotals(target: UsageTotals, source: UsageTotals): void {
+	target.steps += source.steps ?? 0;
+	target.inputTokens += source.inputTokens ?? 0;
+	target.outputTokens += source.outputTokens ?? 0;
+	target.cachedInputTokens += source.cachedInputTokens ?? 0;
+	target.totalTokens += source.totalTokens ?? 0;
+	target.cost += source.cost ?? 0;
+}
@@ -0,0 +1,38 @@
+/**
+ * WebSocket Exports
+ */
+import { handleCollaborationSocket } from '../collaboration/collab-socket';
+import { handleDebugSocket } from '../debug/debug-socket';
+import { handleLspSocket } from '../lsp/lsp-socket';
+import { handlePtySocket } from '../terminal/pty-socket';
+import { SOCKET_UPGRADE_HANDLER, socketServer, type SocketUpgradeHandler } from './socket-server';
+
+export {
+	compileSocketRoute,
+	SOCKET_UPGRADE_HANDLER,
+	SocketServer,
+	socketServer
+} from './socket-server';
+export type {
+	SocketContext,
+	SocketDecision,
+	SocketRouteHandler,
+	SocketUpgradeHandler
+} from './socket-server';
+
+let installed = false;
+
+/** Register the WebSocket routes and publish the upgrade handler for the HTTP server */
+export function installSocketServer(): void {
+	if (installed) return;
+	installed = true;
+
+	socketServer.route('/api/projects/[id]/lsp/[server]', handleLspSocket);
+	socketServer.route('/api/projects/[id]/debug', handleDebugSocket);
+	socketServer.route('/api/projects/[id]/collaboration', handleCollaborationSocket);
+	socketServer.route('/api/sandbox/[id]/terminal/proxy/[sessionId]', handlePtySocket);
+
+	const handler: SocketUpgradeHandler = (request, socket, head) =>
+		socketServer.handleUpgrade(request, socket, head);
+	(globalThis as Record<symbol, unknown>)[SOCKET_UPGRADE_HANDLER] = handler;
+}
@@ -0,0 +1,149 @@
+/**
+ * WebSocket routes served next to SvelteKit.
+ *
+ * SvelteKit endpoints cannot accept upgrades, so the HTTP server (the Vite dev
+ * server or `server.js` in production) hands upgrade requests to the handler
+ * installed on `globalThis` by `hooks.server.ts`. Routes use SvelteKit-style
+ * `[param]` segments and are authenticated with the Better Auth session cookie.
+ */
+
+import { auth } from '$lib/auth';
+import { fromNodeHeaders } from 'better-auth/node';
+import { STATUS_CODES, type IncomingMessage } from 'node:http';
+import type { Duplex } from 'node:stream';
+import { WebSocketServer, type WebSocket } from 'ws';
+
+/** Key the upgrade handler is published under; read by vite.config.ts and server.js */
+export const SOCKET_UPGRADE_HANDLER = Symbol.for('aura.socket-upgrade');
+
+export type SocketUpgradeHandler = (
+	request: IncomingMessage,
+	socket: Duplex,
+	head: Buffer
+) => Promise<boolean>;
+
+export interface SocketContext {
+	params: Record<string, string>;
+	url: URL;
+	user: { id: string; email: string; username: string; image?: string };
+}
+
+/** What a route decides for an incoming connection */
+export type SocketDecision =
+	{ accept: (socket: WebSocket) => void | Promise<void> } | { error: string; status: number };
+
+export type SocketRouteHandler = (context: SocketContext) => Promise<SocketDecision>;
+
+interface SocketRoute {
+	pattern: RegExp;
+	keys: string[];
+	handler: SocketRouteHandler;
+}
+
+/** Compile `/api/projects/[id]/lsp` into a matcher with named params */
+export function compileSocketRoute(path: string): { pattern: RegExp; keys: string[] } {
+	const keys: string[] = [];
+	const source = path
+		.split('/')
+		.map((segment) => {
+			const param = /^\[(\w+)\]$/.exec(segment);
+			if (param) {
+				keys.push(param[1]);
+				return '([^/]+)';
+			}
+			return segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+		})
+		.join('/');
+	return { pattern: new RegExp(`^${source}/?$`), keys };
+}
+
+export class SocketServer {
+	private static instance: SocketServer;
+	private routes: SocketRoute[] = [];
+	private wss = new WebSocketServer({ noServer: true, maxPayload: 16 * 1024 * 1024 });
+
+	static getInstance(): SocketServer {
+		if (!SocketServer.instance) {
+			SocketServer.instance = new SocketServer();
+		}
+		return SocketServer.instance;
+	}
+
+	route(path: string, handler: SocketRouteHandler): void {
+		this.routes.push({ ...compileSocketRoute(path), handler });
+	}
+
+	/** Handle an upgrade request; returns false when no route matches so others can claim it */
+	async handleUpgrade(request: IncomingMessage, socket: Duplex, head: Buffer): Promise<boolean> {
+		const url = new URL(request.url ?? '/', `http://${request.headers.host ?? 'localhost'}`);
+
+		let match: { route: SocketRoute; params: Record<string, string> } | null = null;
+		for (const route of this.routes) {
+			const result = route.pattern.exec(url.pathname);
+			if (result) {
+				const params = Object.fromEntries(
+					route.keys.map((key, index) => [key, decodeURIComponent(result[index + 1])])
+				);
+				match = { route, params };
+				break;
+			}
+		}
+		if (!match) return false;
+
+		try {
+			// Cookies ride along on cross-site WebSocket handshakes, so the origin must match
+			const origin = request.headers.origin;
+			if (origin && new URL(origin).host !== request.headers.host) {
+				reject(socket, 403, 'Cross-origin WebSocket connections are not allowed');
+				return true;
+			}
+
+			const session = await auth.api.getSession({
+				headers: fromNodeHeaders(request.headers),
+				query: { disableRefresh: true }
+			});
+			if (!session) {
+				reject(socket, 401, 'Unauthorized');
+				return true;
+			}
+
+			const decision = await match.route.handler({
+				params: match.params,
+				url,
+				user: {
+					id: session.user.id,
+					email: session.user.email,
+					username: session.user.name || session.user.email,
+					image: session.user.image || undefined
+				}
+			});
+			if ('error' in decision) {
+				reject(socket, decision.status, decision.error);
+				return true;
+			}
+
+			this.wss.handleUpgrade(request, socket, head, (ws: WebSocket) => {
+				Promise.resolve(decision.accept(ws)).catch((error) => {
+					console.error(`WebSocket handler for ${url.pathname} failed:`, error);
+					ws.close(1011, 'Internal error');
+				});
+			});
+		} catch (error) {
+			console.error(`Failed to upgrade ${url.pathname}:`, error);
+			reject(socket, 500, 'Internal error');
+		}
+		return true;
+	}
+}
+
+function reject(socket: Duplex, status: number, error: string): void {
+	const body = JSON.stringify({ error });
+	socket.end(
+		`HTTP/1.1 ${status} ${STATUS_CODES[status] ?? ''}\r\n` +
+			'Connection: close\r\n' +
+			'Content-Type: application/json\r\n' +
+			`Content-Length: ${Buffer.byteLength(body)}\r\n\r\n${body}`
+	);
+}
+
+export const socketServer = SocketServer.getInstance();
@@ -34,6 +34,8 @@ export type ChatMessage = {
 				fileContent?: string | null;
 			};
 			reason?: string;
+			/** Set when the server is holding the tool call for a decision */
+			approvalId?: string;
 		};
 	};
 };
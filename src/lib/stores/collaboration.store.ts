@@ -0,0 +1,112 @@
+import { CollabProvider } from '$lib/services/collaboration/collab-provider';
+import type {
+	CollaborationStatus,
+	CollaboratorPresence,
+	CollaboratorRole
+} from '$lib/types/collaboration';
+import { derived, writable } from 'svelte/store';
+import { fileStateActions } from './file-states.store.js';
+
+// The shared document of the file open in the editor
+interface CollaborationState {
+	projectId: string | null;
+	path: string | null;
+	status: CollaborationStatus | null;
+	role: CollaboratorRole;
+	/** Other tabs editing the same file */
+	peers: CollaboratorPresence[];
+}
+
+const defaultState: CollaborationState = {
+	projectId: null,
+	path: null,
+	status: null,
+	role: 'editor',
+	peers: []
+};
+
+let provider: CollabProvider | null = null;
+let joining: Promise<CollabProvider | null> | null = null;
+
+// Collaboration store
+export const collaborationStore = writable<CollaborationState>(defaultState);
+
+/** Collaborators in the active file, once per user however many tabs they have open */
+export const collaborators = derived(collaborationStore, ($collaboration) => {
+	const byUser = new Map<string, CollaboratorPresence>();
+	for (const peer of $collaboration.peers) {
+		if (!byUser.has(peer.id)) byUser.set(peer.id, peer);
+	}
+	return [...byUser.values()];
+});
+
+function publish(): void {
+	if (!provider) return;
+	collaborationStore.set({
+		projectId: provider.projectId,
+		path: provider.path,
+		status: provider.status,
+		role: provider.role,
+		peers: provider.peers
+	});
+}
+
+// Collaboration actions
+export const collaborationActions = {
+	/**
+	 * Join the shared document of a file. Resolves once the server's text has
+	 * arrived, or to null when the file cannot be edited together.
+	 */
+	join(projectId: string, path: string): Promise<CollabProvider | null> {
+		if (provider?.projectId === projectId && provider.path === path && joining) {
+			return joining;
+		}
+		collaborationActions.leave();
+
+		const current = new CollabProvider(projectId, path, {
+			change: () => {
+				if (provider === current) publish();
+			},
+			persisted: () => fileStateActions.setFileDirty(path, false)
+		});
+		provider = current;
+		publish();
+
+		joining = current.whenSynced().then((synced) => {
+			if (provider !== current) return null;
+			if (synced) return current;
+			collaborationActions.leave();
+			return null;
+		});
+		return joining;
+	},
+
+	leave(): void {
+		const current = provider;
+		provider = null;
+		joining = null;
+		current?.destroy();
+		collaborationStore.set(defaultState);
+	},
+
+	/** Whether a file is being edited through its shared document */
+	isShared(path: string): boolean {
+		return provider?.path === path && provider.synced && provider.status === 'connected';
+	},
+
+	/**
+	 * Have the server write a shared file to the sandbox
+	 */
+	async save(path: string): Promise<boolean> {
+		if (!provider || provider.path !== path) return false;
+		try {
+			await provider.save();
+			fileStateActions.setFileDirty(path, false);
+			fileStateActions.updateFileState(path, { lastSaved: new Date() });
+			return true;
+		} catch (error) {
+			console.error('Failed to save the shared document:', error);
+			return false;
+		}
+	}
+};
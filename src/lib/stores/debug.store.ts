@@ -0,0 +1,296 @@
+import type {
+	DebugClientMessage,
+	DebugLaunchConfig,
+	DebugServerMessage,
+	DebugSourceBreakpoint,
+	DebugStackFrame,
+	DebugState,
+	DebugVariable
+} from '$lib/types/debug';
+import { toast } from 'svelte-sonner';
+import { derived, get, writable } from 'svelte/store';
+
+export interface DebugOutputLine {
+	category: string;
+	text: string;
+}
+
+// The project's debugger as seen from this tab
+interface DebugStoreState {
+	projectId: string | null;
+	connected: boolean;
+	/** Session state as the server last reported it */
+	session: DebugState;
+	/** Breakpoints set in the editor per workspace-relative path; kept across sessions */
+	breakpoints: Record<string, DebugSourceBreakpoint[]>;
+	watches: string[];
+	/** Children of expanded variables, keyed by variables reference */
+	children: Record<number, DebugVariable[]>;
+	output: DebugOutputLine[];
+}
+
+const idleSession: DebugState = {
+	status: 'idle',
+	config: null,
+	frames: [],
+	scopes: [],
+	variables: {},
+	watches: [],
+	breakpoints: {}
+};
+
+const defaultState: DebugStoreState = {
+	projectId: null,
+	connected: false,
+	session: idleSession,
+	breakpoints: {},
+	watches: [],
+	children: {},
+	output: []
+};
+
+const MAX_OUTPUT_LINES = 1000;
+const MAX_RECONNECT_ATTEMPTS = 5;
+
+let socket: WebSocket | null = null;
+let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+let reconnectAttempts = 0;
+
+// Debug store
+export const debugStore = writable<DebugStoreState>(defaultState);
+
+/** Whether a program is being debugged (starting, running or paused) */
+export const debugActive = derived(debugStore, ($debug) =>
+	['starting', 'running', 'paused'].includes($debug.session.status)
+);
+
+/** Frame the editor should highlight: the selected frame of the paused program */
+export const debugLocation = derived(debugStore, ($debug): DebugStackFrame | null => {
+	const { session } = $debug;
+	if (session.status !== 'paused') return null;
+	return (
+		session.frames.find((frame) => frame.id === session.selectedFrameId) ??
+		session.frames[0] ??
+		null
+	);
+});
+
+function storageKey(projectId: string): string {
+	return `aura-debug-${projectId}`;
+}
+
+function persist(): void {
+	const { projectId, breakpoints, watches } = get(debugStore);
+	if (!projectId) return;
+	try {
+		localStorage.setItem(storageKey(projectId), JSON.stringify({ breakpoints, watches }));
+	} catch (error) {
+		console.warn('Failed to save breakpoints:', error);
+	}
+}
+
+function restore(projectId: string): Pick<DebugStoreState, 'breakpoints' | 'watches'> {
+	try {
+		const saved = JSON.parse(localStorage.getItem(storageKey(projectId)) || '{}');
+		return {
+			breakpoints:
+				saved.breakpoints && typeof saved.breakpoints === 'object' ? saved.breakpoints : {},
+			watches: Array.isArray(saved.watches) ? saved.watches : []
+		};
+	} catch {
+		return { breakpoints: {}, watches: [] };
+	}
+}
+
+function send(message: DebugClientMessage): boolean {
+	if (socket?.readyState !== WebSocket.OPEN) return false;
+	socket.send(JSON.stringify(message));
+	return true;
+}
+
+function handleMessage(message: DebugServerMessage): void {
+	switch (message.type) {
+		case 'state':
+			debugStore.update((state) => ({
+				...state,
+				session: message.state,
+				// Variable references only hold while the program stays paused on the same frame
+				children:
+					message.state.status === 'paused' &&
+					message.state.selectedFrameId === state.session.selectedFrameId &&
+					state.session.status === 'paused'
+						? state.children
+						: {}
+			}));
+			break;
+		case 'output':
+			debugStore.update((state) => ({
+				...state,
+				output: [...state.output, { category: message.category, text: message.output }].slice(
+					-MAX_OUTPUT_LINES
+				)
+			}));
+			break;
+		case 'variables':
+			debugStore.update((state) => ({
+				...state,
+				children: { ...state.children, [message.variablesReference]: message.variables }
+			}));
+			break;
+		case 'error':
+			toast.error(message.message);
+			break;
+	}
+}
+
+function open(projectId: string): void {
+	const proto = window.location.protocol === 'https:' ? 'wss' : 'ws';
+	const ws = new WebSocket(
+		`${proto}://${window.location.host}/api/projects/${encodeURIComponent(projectId)}/debug`
+	);
+	socket = ws;
+
+	ws.onopen = () => {
+		reconnectAttempts = 0;
+		debugStore.update((state) => ({ ...state, connected: true }));
+		// The server forgets breakpoints when no editor is attached; replay ours
+		const { breakpoints, watches } = get(debugStore);
+		for (const [path, list] of Object.entries(breakpoints)) {
+			send({ type: 'setBreakpoints', path, breakpoints: list });
+		}
+		if (watches.length > 0) send({ type: 'setWatches', expressions: watches });
+	};
+
+	ws.onmessage = (event) => {
+		try {
+			handleMessage(JSON.parse(event.data as string) as DebugServerMessage);
+		} catch (error) {
+			console.error('Failed to handle debugger message:', error);
+		}
+	};
+
+	ws.onclose = () => {
+		if (socket !== ws) return;
+		socket = null;
+		debugStore.update((state) => ({ ...state, connected: false }));
+
+		if (reconnectAttempts < MAX_RECONNECT_ATTEMPTS) {
+			const delay = 1000 * 2 ** reconnectAttempts++;
+			reconnectTimer = setTimeout(() => {
+				reconnectTimer = null;
+				if (get(debugStore).projectId === projectId) open(projectId);
+			}, delay);
+		}
+	};
+}
+
+function updateBreakpoints(path: string, breakpoints: DebugSourceBreakpoint[]): void {
+	const sorted = [...breakpoints].sort((a, b) => a.line - b.line);
+	debugStore.update((state) => {
+		const next = { ...state.breakpoints, [path]: sorted };
+		if (sorted.length === 0) delete next[path];
+		return { ...state, breakpoints: next };
+	});
+	persist();
+	send({ type: 'setBreakpoints', path, breakpoints: sorted });
+}
+
+function updateWatches(watches: string[]): void {
+	debugStore.update((state) => ({ ...state, watches }));
+	persist();
+	send({ type: 'setWatches', expressions: watches });
+}
+
+// Debug actions
+export const debugActions = {
+	/**
+	 * Attach to a project's debugger; every tab of the project shares one session
+	 */
+	connect(projectId: string): void {
+		if (get(debugStore).projectId === projectId && socket) return;
+		debugActions.disconnect();
+
+		debugStore.set({ ...defaultState, projectId, ...restore(projectId) });
+		reconnectAttempts = 0;
+		open(projectId);
+	},
+
+	disconnect(): void {
+		if (reconnectTimer) clearTimeout(reconnectTimer);
+		reconnectTimer = null;
+		const current = socket;
+		socket = null;
+		current?.close(1000);
+		debugStore.set(defaultState);
+	},
+
+	launch(config: DebugLaunchConfig): void {
+		debugStore.update((state) => ({ ...state, output: [] }));
+		if (!send({ type: 'launch', config })) {
+			toast.error('The debugger is not connected');
+		}
+	},
+
+	continue: () => send({ type: 'continue' }),
+	next: () => send({ type: 'next' }),
+	stepIn: () => send({ type: 'stepIn' }),
+	stepOut: () => send({ type: 'stepOut' }),
+	pause: () => send({ type: 'pause' }),
+	stop: () => send({ type: 'stop' }),
+
+	selectFrame(frameId: number): void {
+		send({ type: 'selectFrame', frameId });
+	},
+
+	/**
+	 * Load the children of a structured value
+	 */
+	expand(variablesReference: number): void {
+		if (get(debugStore).children[variablesReference]) return;
+		send({ type: 'variables', variablesReference });
+	},
+
+	evaluate(expression: string): void {
+		if (!send({ type: 'evaluate', expression })) {
+			toast.error('The debugger is not connected');
+		}
+	},
+
+	toggleBreakpoint(path: string, line: number): void {
+		const current = get(debugStore).breakpoints[path] ?? [];
+		updateBreakpoints(
+			path,
+			current.some((breakpoint) => breakpoint.line === line)
+				? current.filter((breakpoint) => breakpoint.line !== line)
+				: [...current, { line }]
+		);
+	},
+
+	/**
+	 * Replace a file's breakpoints, e.g. after edits moved them to other lines
+	 */
+	setBreakpoints(path: string, breakpoints: DebugSourceBreakpoint[]): void {
+		updateBreakpoints(path, breakpoints);
+	},
+
+	clearBreakpoints(): void {
+		for (const path of Object.keys(get(debugStore).breakpoints)) {
+			updateBreakpoints(path, []);
+		}
+	},
+
+	addWatch(expression: string): void {
+		const trimmed = expression.trim();
+		const { watches } = get(debugStore);
+		if (!trimmed || watches.includes(trimmed)) return;
+		updateWatches([...watches, trimmed]);
+	},
+
+	removeWatch(expression: string): void {
+		updateWatches(get(debugStore).watches.filter((watch) => watch !== expression));
+	},
+
+	clearOutput(): void {
+		debugStore.update((state) => ({ ...state, output: [] }));
+	}
+};
@@ -800,6 +800,11 @@ export const enhancedFileActions = {
 				throw new Error('File is read-only');
 			}
 
+			const fileState = fileStateActions.getFileState(fileId);
+			if (fileState?.conflict) {
+				throw new Error(`"${file.name}" changed on disk; resolve the conflict before saving`);
+			}
+
 			console.log('📁 File to save:', {
 				path: file.path,
 				contentLength: file.content?.length || 0
@@ -825,6 +830,7 @@ export const enhancedFileActions = {
 				const savePayload = {
 					path: file.path,
 					content: file.content || '',
+					baseHash: fileState?.baseHash,
 					projectId,
 					sandboxId: sandboxId || undefined,
 					metadata: {
@@ -844,11 +850,25 @@ export const enhancedFileActions = {
 
 				enhancedFileActions.setOperationState({ operationProgress: 80 });
 
+				if (result.error === 'CONFLICT') {
+					fileStateActions.updateFileState(fileId, {
+						conflict: {
+							theirs: result.data.content,
+							theirsHash: result.data.hash,
+							source: 'save',
+							detectedAt: new Date()
+						}
+					});
+					throw new Error(`"${file.name}" changed on disk; resolve the conflict before saving`);
+				}
+
 				if (!result.success) {
 					console.error('❌ API call failed:', result);
 					throw new Error(result.error || 'Failed to save file via API');
 				}
 
+				fileStateActions.setBaseVersion(fileId, savePayload.content, result.data?.hash);
+
 				console.log('✅ API call successful - file saved via API');
 			} else {
 				console.log('🖥️ Running on server side, skipping API call');
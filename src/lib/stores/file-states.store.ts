@@ -1,7 +1,7 @@
 import type { FileEditorState } from '@/types/editor-state';
-import type { CursorPosition, SelectionRange } from '@/types/files';
+import type { CursorPosition, File, SelectionRange } from '@/types/files';
 import { derived, get, writable } from 'svelte/store';
-import { filesStore } from './files.store.js';
+import { fileActions, filesStore } from './files.store.js';
 import { activeFileId } from './tabs.store.js';
 
 // Default file editor state
@@ -16,6 +16,9 @@ const defaultFileEditorState: FileEditorState = {
 	lastSaved: new Date()
 };
 
+// Content of saves still in flight, so their own change events are not taken for conflicts
+const savingContent = new Map<string, string>();
+
 // File states store (Map of fileId to FileEditorState)
 export const fileStatesStore = writable<Map<string, FileEditorState>>(new Map());
 
@@ -112,12 +115,85 @@ export const fileStateActions = {
 		});
 	},
 
+	// Mark an edit; text back at the base version is clean again. Files opened without
+	// a known base take the text from before their first edit.
+	markEdited: (fileId: string, content: string, previous: string) => {
+		const baseContent = get(fileStatesStore).get(fileId)?.baseContent ?? previous;
+		fileStateActions.updateFileState(fileId, {
+			baseContent,
+			isDirty: content !== baseContent
+		});
+	},
+
 	isFileDirty: (fileId: string): boolean => {
 		const states = get(fileStatesStore);
 		const state = states.get(fileId);
 		return state?.isDirty || false;
 	},
 
+	// Base version management
+	setBaseVersion: (fileId: string, content: string, hash?: string) => {
+		fileStateActions.updateFileState(fileId, { baseContent: content, baseHash: hash });
+	},
+
+	/**
+	 * Decide what to do with a change made on disk to a file: 'apply' when the
+	 * editor has nothing unsaved, 'keep' when the editor already has that content
+	 * or the change is its own save, 'conflict' when both sides changed
+	 */
+	reconcileRemoteChange: (
+		fileId: string,
+		content: string,
+		hash?: string
+	): 'apply' | 'keep' | 'conflict' => {
+		const state = get(fileStatesStore).get(fileId);
+		const item = get(filesStore).get(fileId);
+		const local = item?.type === 'file' ? ((item as File).content ?? '') : undefined;
+
+		if (local === content) {
+			fileStateActions.updateFileState(fileId, {
+				baseContent: content,
+				baseHash: hash,
+				isDirty: false,
+				conflict: null
+			});
+			return 'keep';
+		}
+		if (savingContent.get(fileId) === content || state?.baseContent === content) {
+			return 'keep';
+		}
+		if (!state?.isDirty) {
+			fileStateActions.setBaseVersion(fileId, content, hash);
+			return 'apply';
+		}
+
+		fileStateActions.updateFileState(fileId, {
+			conflict: { theirs: content, theirsHash: hash, source: 'watcher', detectedAt: new Date() }
+		});
+		return 'conflict';
+	},
+
+	/**
+	 * Settle a conflict with the chosen content: mine, theirs or a merge of both.
+	 * The disk version becomes the new base, so the next save is allowed.
+	 */
+	resolveConflict: (fileId: string, content: string) => {
+		const conflict = get(fileStatesStore).get(fileId)?.conflict;
+		if (!conflict) return;
+
+		fileActions.updateFileContent(fileId, content, content === conflict.theirs);
+		fileStateActions.updateFileState(fileId, {
+			baseContent: conflict.theirs,
+			baseHash: conflict.theirsHash,
+			isDirty: content !== conflict.theirs,
+			conflict: null
+		});
+	},
+
+	getConflict: (fileId: string) => {
+		return get(fileStatesStore).get(fileId)?.conflict ?? null;
+	},
+
 	// Loading state management
 	setFileLoading: (fileId: string, isLoading: boolean) => {
 		fileStateActions.updateFileState(fileId, { isLoading });
@@ -273,6 +349,18 @@ export const fileStateActions = {
 				return false;
 			}
 
+			// Shared files are written by the collaboration server from the merged document
+			const { collaborationActions } = await import('./collaboration.store.js');
+			if (collaborationActions.isShared(fileId)) {
+				return collaborationActions.save(fileId);
+			}
+
+			const state = fileStateActions.getFileState(fileId);
+			if (state?.conflict) {
+				console.warn('⚠️ Resolve the conflict before saving:', file.path);
+				return false;
+			}
+
 			// Get project context if not provided
 			if (!projectId || !sandboxId) {
 				// Try to get from URL or global context
@@ -300,6 +388,8 @@ export const fileStateActions = {
 			});
 
 			// Call the API with all required data
+			const content = file.content || '';
+			savingContent.set(fileId, content);
 			const response = await fetch('/api/files', {
 				method: 'POST',
 				headers: {
@@ -308,16 +398,31 @@ export const fileStateActions = {
 				body: JSON.stringify({
 					operation: 'update',
 					path: file.path,
-					content: file.content || '',
+					content,
+					baseHash: state?.baseHash,
 					projectId,
 					sandboxId,
 					sandboxProvider,
 					metadata: {
 						modifiedAt: new Date().toISOString(),
-						size: (file.content || '').length
+						size: content.length
 					}
 				})
-			});
+			}).finally(() => savingContent.delete(fileId));
+
+			if (response.status === 409) {
+				// Someone else wrote the file; keep the edits and offer a merge
+				const { data } = await response.json();
+				fileStateActions.updateFileState(fileId, {
+					conflict: {
+						theirs: data.content,
+						theirsHash: data.hash,
+						source: 'save',
+						detectedAt: new Date()
+					}
+				});
+				return false;
+			}
 
 			if (!response.ok) {
 				const errorData = await response.json();
@@ -331,7 +436,9 @@ export const fileStateActions = {
 				// Update local state to mark as saved
 				fileStateActions.setFileDirty(fileId, false);
 				fileStateActions.updateFileState(fileId, {
-					lastSaved: new Date()
+					lastSaved: new Date(),
+					baseContent: content,
+					baseHash: result.data?.hash
 				});
 				console.log('✅ File saved successfully:', result.data);
 				return true;
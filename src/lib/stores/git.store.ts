@@ -0,0 +1,155 @@
+import type { GitBranch, GitChangeKind, GitFileDiff, GitStatus } from '$lib/types/git';
+import { toast } from 'svelte-sonner';
+import { derived, writable } from 'svelte/store';
+
+// Actions accepted by POST /api/projects/[id]/git
+export type GitAction =
+	| { action: 'stage' | 'unstage'; paths: string[] }
+	| { action: 'stage-hunk' | 'unstage-hunk'; path: string; hunk: number }
+	| { action: 'commit'; message: string }
+	| { action: 'checkout'; branch: string }
+	| { action: 'create-branch'; branch: string; from?: string }
+	| { action: 'push' | 'pull'; remote?: string; branch?: string }
+	| { action: 'init' };
+
+// Source control state for the open project
+interface GitState {
+	projectId: string | null;
+	status: GitStatus | null;
+	branches: GitBranch[];
+	isLoading: boolean;
+	/** Action currently running, used to disable the matching controls */
+	pending: GitAction['action'] | null;
+	error: string | null;
+}
+
+const defaultState: GitState = {
+	projectId: null,
+	status: null,
+	branches: [],
+	isLoading: false,
+	pending: null,
+	error: null
+};
+
+// Git store
+export const gitStore = writable<GitState>(defaultState);
+
+// Single-letter labels shown next to changed files
+export const GIT_CHANGE_LETTERS: Record<GitChangeKind, string> = {
+	modified: 'M',
+	added: 'A',
+	deleted: 'D',
+	renamed: 'R',
+	copied: 'C',
+	'type-changed': 'T',
+	untracked: 'U',
+	conflicted: '!'
+};
+
+/**
+ * File tree decorations by path; working tree changes win over staged ones
+ */
+export const gitDecorations = derived(gitStore, ($git) => {
+	const decorations = new Map<string, string>();
+	for (const file of $git.status?.files ?? []) {
+		const kind = file.unstaged ?? file.staged;
+		if (kind) decorations.set(file.path, GIT_CHANGE_LETTERS[kind]);
+	}
+	return decorations;
+});
+
+// Git actions
+export const gitActions = {
+	/**
+	 * Load status and branches of a project's repository
+	 */
+	async refresh(projectId: string): Promise<void> {
+		gitStore.update((state) => ({
+			...(state.projectId === projectId ? state : defaultState),
+			projectId,
+			isLoading: true
+		}));
+
+		try {
+			const response = await fetch(`/api/projects/${projectId}/git`);
+			const data = await response.json();
+			if (!response.ok) {
+				throw new Error(data.error || `Failed to load git status: ${response.statusText}`);
+			}
+
+			gitStore.update((state) =>
+				state.projectId === projectId
+					? {
+							...state,
+							status: data.status,
+							branches: data.branches,
+							isLoading: false,
+							error: null
+						}
+					: state
+			);
+		} catch (error) {
+			console.error('Failed to load git status:', error);
+			gitStore.update((state) => ({
+				...state,
+				isLoading: false,
+				error: error instanceof Error ? error.message : 'Failed to load git status'
+			}));
+		}
+	},
+
+	/**
+	 * Run a source control action; the response carries the refreshed status
+	 */
+	async run(projectId: string, action: GitAction): Promise<boolean> {
+		gitStore.update((state) => ({ ...state, pending: action.action }));
+
+		try {
+			const response = await fetch(`/api/projects/${projectId}/git`, {
+				method: 'POST',
+				headers: { 'Content-Type': 'application/json' },
+				body: JSON.stringify(action)
+			});
+			const data = await response.json();
+
+			gitStore.update((state) => ({
+				...state,
+				status: data.status ?? state.status,
+				pending: null
+			}));
+
+			if (!response.ok) {
+				toast.error(data.error || `git ${action.action} failed`);
+				return false;
+			}
+
+			if (['checkout', 'create-branch', 'init', 'pull'].includes(action.action)) {
+				await gitActions.refresh(projectId);
+			}
+			return true;
+		} catch (error) {
+			console.error(`Failed to run git ${action.action}:`, error);
+			gitStore.update((state) => ({ ...state, pending: null }));
+			toast.error(`git ${action.action} failed`);
+			return false;
+		}
+	},
+
+	/**
+	 * Fetch both sides and the hunks of a changed file
+	 */
+	async loadDiff(projectId: string, path: string, staged: boolean): Promise<GitFileDiff> {
+		const params = new URLSearchParams({ path, staged: String(staged) });
+		const response = await fetch(`/api/projects/${projectId}/git/diff?${params}`);
+		const data = await response.json();
+		if (!response.ok) {
+			throw new Error(data.error || `Failed to load diff: ${response.statusText}`);
+		}
+		return data.diff;
+	},
+
+	reset(): void {
+		gitStore.set(defaultState);
+	}
+};
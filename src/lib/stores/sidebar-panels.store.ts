@@ -5,6 +5,8 @@ export type SidebarView =
 	| 'explorer'
 	| 'search'
 	| 'source-control'
+	| 'tasks'
+	| 'testing'
 	| 'debug'
 	| 'extensions';
 
@@ -14,6 +16,8 @@ const defaultSidebarPanels: SidebarPanelState = {
 	explorer: true,
 	search: false,
 	'source-control': false,
+	tasks: false,
+	testing: false,
 	debug: false,
 	extensions: false,
 
@@ -0,0 +1,255 @@
+import { matchProblems } from '$lib/services/tasks/problem-matchers';
+import {
+	TASK_EXIT_PATTERN,
+	type TaskDefinition,
+	type TaskListResponse,
+	type TaskProblem,
+	type TaskRunResponse
+} from '$lib/types/tasks';
+import { toast } from 'svelte-sonner';
+import { derived, get, writable } from 'svelte/store';
+import { sidebarPanelActions } from './sidebar-panels.store';
+
+/** A task started from the editor; its output streams into a terminal tab */
+export interface TaskRun {
+	/** Terminal session the task runs in, also the id of its terminal tab */
+	id: string;
+	task: TaskDefinition;
+	/** Terminal tab title */
+	name: string;
+	status: 'running' | 'succeeded' | 'failed';
+	exitCode?: number;
+	startedAt: Date;
+	problems: TaskProblem[];
+}
+
+// Tasks of the open project and the runs started from this tab
+interface TasksState {
+	projectId: string | null;
+	tasks: TaskDefinition[];
+	root: string | null;
+	/** Task files that could not be parsed */
+	errors: string[];
+	isLoading: boolean;
+	/** Task currently being started */
+	pending: string | null;
+	error: string | null;
+	runs: TaskRun[];
+}
+
+const defaultState: TasksState = {
+	projectId: null,
+	tasks: [],
+	root: null,
+	errors: [],
+	isLoading: false,
+	pending: null,
+	error: null,
+	runs: []
+};
+
+/** Output kept per run for problem matching; the terminal keeps the full history */
+const MAX_OUTPUT_LENGTH = 512 * 1024;
+const MATCH_DEBOUNCE = 250;
+
+// Tasks store
+export const tasksStore = writable<TasksState>(defaultState);
+
+/** Location the editor should move the cursor to once the file is open */
+export const problemReveal = writable<Pick<TaskProblem, 'path' | 'line' | 'column'> | null>(null);
+
+/**
+ * Problems reported by every run, grouped by file; tasks that check the same code report them once
+ */
+export const taskProblemsByPath = derived(tasksStore, ($tasks) => {
+	const byPath = new Map<string, TaskProblem[]>();
+	const seen = new Set<string>();
+	for (const run of $tasks.runs) {
+		for (const problem of run.problems) {
+			const key = `${problem.path}:${problem.line}:${problem.column}:${problem.message}`;
+			if (seen.has(key)) continue;
+			seen.add(key);
+			byPath.set(problem.path, [...(byPath.get(problem.path) ?? []), problem]);
+		}
+	}
+	return byPath;
+});
+
+const outputs = new Map<string, string>();
+const matchTimers = new Map<string, ReturnType<typeof setTimeout>>();
+
+function updateRun(runId: string, update: (run: TaskRun) => TaskRun): void {
+	tasksStore.update((state) => ({
+		...state,
+		runs: state.runs.map((run) => (run.id === runId ? update(run) : run))
+	}));
+}
+
+function forgetOutput(runId: string): void {
+	outputs.delete(runId);
+	clearTimeout(matchTimers.get(runId));
+	matchTimers.delete(runId);
+}
+
+// Re-read the whole output so problems fixed by a watch-mode rerun disappear
+function matchRun(runId: string): void {
+	matchTimers.delete(runId);
+	const state = get(tasksStore);
+	const run = state.runs.find((candidate) => candidate.id === runId);
+	const output = outputs.get(runId);
+	if (!run || output === undefined) return;
+
+	// Watch modes (tsc --watch) reprint everything after a clear-screen; only the last pass counts
+	const clear = output.lastIndexOf('\x1b[2J');
+	const lastPass = clear === -1 ? output : output.slice(clear);
+	const problems = matchProblems(lastPass, run.task.problemMatchers, {
+		root: state.root,
+		cwd: run.task.cwd
+	});
+	const exit = [...output.matchAll(new RegExp(TASK_EXIT_PATTERN, 'g'))].pop();
+	const exitCode = exit ? Number(exit[1]) : undefined;
+
+	updateRun(runId, (current) => ({
+		...current,
+		problems,
+		exitCode,
+		status: exitCode === undefined ? 'running' : exitCode === 0 ? 'succeeded' : 'failed'
+	}));
+}
+
+// Task actions
+export const tasksActions = {
+	/**
+	 * Discover the tasks of a project's sandbox
+	 */
+	async refresh(projectId: string): Promise<void> {
+		tasksStore.update((state) => ({
+			...(state.projectId === projectId ? state : defaultState),
+			projectId,
+			isLoading: true
+		}));
+
+		try {
+			const response = await fetch(`/api/projects/${projectId}/tasks`);
+			const data = await response.json();
+			if (!response.ok) {
+				throw new Error(data.error || `Failed to load tasks: ${response.statusText}`);
+			}
+
+			const { tasks, root, errors } = data as TaskListResponse;
+			tasksStore.update((state) =>
+				state.projectId === projectId
+					? { ...state, tasks, root, errors, isLoading: false, error: null }
+					: state
+			);
+		} catch (error) {
+			console.error('Failed to load tasks:', error);
+			tasksStore.update((state) => ({
+				...state,
+				isLoading: false,
+				error: error instanceof Error ? error.message : 'Failed to load tasks'
+			}));
+		}
+	},
+
+	/**
+	 * Start a task in its own terminal, replacing the previous run of the same task
+	 */
+	async run(projectId: string, taskId: string): Promise<TaskRun | null> {
+		tasksStore.update((state) => ({ ...state, projectId, pending: taskId }));
+
+		try {
+			const response = await fetch(`/api/projects/${projectId}/tasks/run`, {
+				method: 'POST',
+				headers: { 'Content-Type': 'application/json' },
+				body: JSON.stringify({ taskId })
+			});
+			const data = await response.json();
+			if (!response.ok) {
+				toast.error(data.error || 'Failed to run task');
+				return null;
+			}
+
+			const { task, sessionId, name } = data as TaskRunResponse;
+			const previous = get(tasksStore).runs.filter((run) => run.task.id === task.id);
+			for (const run of previous) {
+				await tasksActions.dismiss(run.id);
+			}
+
+			const run: TaskRun = {
+				id: sessionId,
+				task,
+				name,
+				status: 'running',
+				startedAt: new Date(),
+				problems: []
+			};
+			tasksStore.update((state) => ({ ...state, runs: [...state.runs, run] }));
+			sidebarPanelActions.showTerminal();
+			return run;
+		} catch (error) {
+			console.error('Failed to run task:', error);
+			toast.error('Failed to run task');
+			return null;
+		} finally {
+			tasksStore.update((state) => ({ ...state, pending: null }));
+		}
+	},
+
+	/**
+	 * Stop a run's terminal and drop its problems
+	 */
+	async dismiss(runId: string): Promise<void> {
+		const { projectId } = get(tasksStore);
+		forgetOutput(runId);
+		tasksStore.update((state) => ({
+			...state,
+			runs: state.runs.filter((run) => run.id !== runId)
+		}));
+
+		if (!projectId) return;
+		try {
+			await fetch(`/api/projects/${projectId}/terminals/${runId}`, { method: 'DELETE' });
+		} catch (error) {
+			console.error('Failed to stop task terminal:', error);
+		}
+	},
+
+	/**
+	 * The run's terminal (re)attached; the session's scrollback is replayed next
+	 */
+	attached(runId: string): void {
+		outputs.set(runId, '');
+	},
+
+	/**
+	 * Output of a run's terminal, matched against the task's problem matchers
+	 */
+	output(runId: string, data: string): void {
+		const output = (outputs.get(runId) ?? '') + data;
+		outputs.set(
+			runId,
+			output.length > MAX_OUTPUT_LENGTH ? output.slice(-MAX_OUTPUT_LENGTH) : output
+		);
+
+		if (!matchTimers.has(runId)) {
+			matchTimers.set(
+				runId,
+				setTimeout(() => matchRun(runId), MATCH_DEBOUNCE)
+			);
+		}
+	},
+
+	/**
+	 * Ask the editor to put the cursor on a problem once its file is open
+	 */
+	reveal(problem: Pick<TaskProblem, 'path' | 'line' | 'column'>): void {
+		problemReveal.set({ path: problem.path, line: problem.line, column: problem.column });
+	},
+
+	reset(): void {
+		for (const runId of outputs.keys()) forgetOutput(runId);
+		tasksStore.set(defaultState);
+		problemReveal.set(null);
+	}
+};
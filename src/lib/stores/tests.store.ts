@@ -0,0 +1,202 @@
+import { mergeTestRuns } from '$lib/services/testing/test-reports';
+import type {
+	TestCase,
+	TestDiscoveryResponse,
+	TestFramework,
+	TestRunResult,
+	TestStatus
+} from '$lib/types/testing';
+import { toast } from 'svelte-sonner';
+import { derived, get, writable } from 'svelte/store';
+
+/** A file, describe block or test in the explorer tree */
+export interface TestTreeNode {
+	id: string;
+	label: string;
+	kind: 'file' | 'suite' | 'test';
+	file: string;
+	/** Set on test nodes */
+	test?: TestCase;
+	/** Worst status below this node */
+	status: TestStatus;
+	children: TestTreeNode[];
+}
+
+// Test runners of the open project and the latest results
+interface TestsState {
+	projectId: string | null;
+	frameworks: TestFramework[];
+	/** Runner the explorer shows and runs */
+	framework: TestFramework | null;
+	isLoading: boolean;
+	/** What is running: `all`, a file path or a test id */
+	running: string | null;
+	result: TestRunResult | null;
+	error: string | null;
+}
+
+const defaultState: TestsState = {
+	projectId: null,
+	frameworks: [],
+	framework: null,
+	isLoading: false,
+	running: null,
+	result: null,
+	error: null
+};
+
+// Tests store
+export const testsStore = writable<TestsState>(defaultState);
+
+/** Results of the latest runs per file, for the editor gutter */
+export const testResultsByPath = derived(testsStore, ($tests) => {
+	const byPath = new Map<string, TestCase[]>();
+	for (const test of $tests.result?.tests ?? []) {
+		byPath.set(test.file, [...(byPath.get(test.file) ?? []), test]);
+	}
+	return byPath;
+});
+
+/** Results arranged by file, then describe blocks */
+export const testTree = derived(testsStore, ($tests) => buildTestTree($tests.result?.tests ?? []));
+
+export function buildTestTree(tests: TestCase[]): TestTreeNode[] {
+	const files: TestTreeNode[] = [];
+
+	for (const test of tests) {
+		let file = files.find((node) => node.file === test.file);
+		if (!file) {
+			file = node(test.file, test.file.split('/').pop() ?? test.file, 'file', test.file);
+			files.push(file);
+		}
+
+		let parent = file;
+		for (const [depth, name] of test.suite.entries()) {
+			const id = `${test.file}::${test.suite.slice(0, depth + 1).join(' > ')}`;
+			let suite = parent.children.find((child) => child.kind === 'suite' && child.id === id);
+			if (!suite) {
+				suite = node(id, name, 'suite', test.file);
+				parent.children.push(suite);
+			}
+			parent = suite;
+		}
+		parent.children.push({
+			...node(test.id, test.name, 'test', test.file),
+			test,
+			status: test.status
+		});
+	}
+
+	for (const file of files) settleStatus(file);
+	return files.sort((a, b) => a.file.localeCompare(b.file));
+}
+
+function node(id: string, label: string, kind: TestTreeNode['kind'], file: string): TestTreeNode {
+	return { id, label, kind, file, status: 'skipped', children: [] };
+}
+
+function settleStatus(tree: TestTreeNode): TestStatus {
+	if (tree.kind === 'test') return tree.status;
+	const statuses = tree.children.map(settleStatus);
+	tree.status = statuses.includes('failed')
+		? 'failed'
+		: statuses.includes('passed')
+			? 'passed'
+			: 'skipped';
+	return tree.status;
+}
+
+// Test actions
+export const testsActions = {
+	/**
+	 * Find the test runners of a project's sandbox
+	 */
+	async detect(projectId: string): Promise<void> {
+		testsStore.update((state) => ({
+			...(state.projectId === projectId ? state : defaultState),
+			projectId,
+			isLoading: true,
+			error: null
+		}));
+
+		try {
+			const response = await fetch(`/api/projects/${projectId}/tests`);
+			const data = await response.json();
+			if (!response.ok) {
+				throw new Error(data.error || `Failed to detect test runners: ${response.statusText}`);
+			}
+
+			const { frameworks } = data as TestDiscoveryResponse;
+			testsStore.update((state) => ({
+				...state,
+				frameworks,
+				framework:
+					state.framework && frameworks.includes(state.framework)
+						? state.framework
+						: (frameworks[0] ?? null),
+				isLoading: false
+			}));
+		} catch (error) {
+			const message = error instanceof Error ? error.message : 'Failed to detect test runners';
+			testsStore.update((state) => ({ ...state, isLoading: false, error: message }));
+		}
+	},
+
+	selectFramework(framework: TestFramework): void {
+		testsStore.update((state) =>
+			state.framework === framework ? state : { ...state, framework, result: null }
+		);
+	},
+
+	/**
+	 * Run every test, the tests of one file, or one test
+	 */
+	async run(projectId: string, scope: { file?: string; test?: TestCase } = {}): Promise<void> {
+		const { framework, running } = get(testsStore);
+		if (!framework || running) return;
+
+		const file = scope.test?.file ?? scope.file;
+		testsStore.update((state) => ({
+			...state,
+			running: scope.test?.id ?? file ?? 'all',
+			error: null
+		}));
+
+		try {
+			const response = await fetch(`/api/projects/${projectId}/tests/run`, {
+				method: 'POST',
+				headers: { 'Content-Type': 'application/json' },
+				body: JSON.stringify({ framework, file, filter: scope.test?.filter })
+			});
+			const data = await response.json();
+			if (!response.ok) {
+				throw new Error(data.error || `Failed to run tests: ${response.statusText}`);
+			}
+
+			const result = data as TestRunResult;
+			testsStore.update((state) => ({
+				...state,
+				running: null,
+				result: mergeTestRuns(state.result, result)
+			}));
+
+			if (result.errors.length > 0) {
+				toast.error(result.errors[0].message.split('\n')[0]);
+			} else if (result.summary.failed > 0) {
+				toast.error(
+					`${result.summary.failed} test${result.summary.failed === 1 ? '' : 's'} failed`
+				);
+			} else if (result.summary.passed > 0) {
+				toast.success(`${result.summary.passed} passed`);
+			}
+		} catch (error) {
+			const message = error instanceof Error ? error.message : 'Failed to run tests';
+			testsStore.update((state) => ({ ...state, running: null, error: message }));
+			toast.error(message);
+		}
+	},
+
+	reset(): void {
+		testsStore.set(defaultState);
+	}
+};
@@ -0,0 +1,79 @@
+/**
+ * Project sharing and access control types
+ */
+
+/** What a user may do in a project, from most to least privileged */
+export type ProjectRole = 'owner' | 'editor' | 'viewer';
+
+/**
+ * Things a route asks permission for:
+ * - view: open the project, read files, chat with a read-only agent
+ * - edit: change files, let the agent write
+ * - execute: run commands, terminals, tasks, tests and the debugger
+ * - manage: settings, members, invitations, deleting the project
+ */
+export type ProjectAction = 'view' | 'edit' | 'execute' | 'manage';
+
+export interface ProjectMember {
+	userId: string;
+	role: ProjectRole;
+	addedBy: string;
+	addedAt: Date;
+}
+
+export type OrganizationRole = 'owner' | 'admin' | 'member';
+
+export interface OrganizationMember {
+	userId: string;
+	role: OrganizationRole;
+	joinedAt: Date;
+}
+
+/** A team whose members share its projects */
+export interface Organization {
+	id: string;
+	name: string;
+	ownerId: string;
+	members: OrganizationMember[];
+	/** Role members without a project role of their own get in the team's projects */
+	defaultProjectRole: Exclude<ProjectRole, 'owner'>;
+	createdAt: Date;
+	updatedAt: Date;
+}
+
+export type InvitationScope = 'project' | 'organization';
+
+/** A link that makes whoever opens it a member of a project or organization */
+export interface Invitation {
+	id: string;
+	/** Secret part of the link */
+	token: string;
+	scope: InvitationScope;
+	/** Project or organization ID, depending on scope */
+	resourceId: string;
+	role: ProjectRole | OrganizationRole;
+	createdBy: string;
+	createdAt: Date;
+	expiresAt: Date;
+	/** Unlimited when unset */
+	maxUses?: number;
+	uses: number;
+	revokedAt?: Date;
+}
+
+/** Display details of a user in member lists */
+export interface MemberProfile {
+	userId: string;
+	name: string;
+	email?: string;
+	image?: string;
+}
+
+/** What the invitation page shows before the link is accepted */
+export interface InvitationPreview {
+	scope: InvitationScope;
+	resourceId: string;
+	name: string;
+	role: Invitation['role'];
+	expiresAt: Date;
+}
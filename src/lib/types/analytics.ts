@@ -0,0 +1,87 @@
+/**
+ * Analytics dashboard types
+ */
+
+import type { UsageTotals } from './usage';
+
+/** Chat and tool activity on one UTC day */
+export interface ChatActivityDay {
+	/** YYYY-MM-DD (UTC) */
+	date: string;
+	messages: number;
+	userMessages: number;
+	assistantMessages: number;
+	toolCalls: number;
+	toolFailures: number;
+}
+
+/** Chat and tool activity within one project (null for messages outside any project) */
+export interface ChatActivityProject {
+	projectId: string | null;
+	messages: number;
+	toolCalls: number;
+	toolFailures: number;
+	lastActivity: Date;
+}
+
+export interface ToolCallStats {
+	name: string;
+	calls: number;
+	failures: number;
+}
+
+/** Raw chat activity aggregated from message metadata */
+export interface ChatActivity {
+	daily: ChatActivityDay[];
+	projects: ChatActivityProject[];
+	tools: ToolCallStats[];
+}
+
+export interface SandboxUptime {
+	sessionId: string;
+	sandboxId: string;
+	projectId: string;
+	status: string;
+	active: boolean;
+	/** Milliseconds */
+	uptime: number;
+	lastActivity: Date;
+}
+
+export interface ProjectAnalytics {
+	id: string;
+	name: string;
+	status: string;
+	messages: number;
+	toolCalls: number;
+	toolFailures: number;
+	totalTokens: number;
+	cost: number;
+	/** Milliseconds */
+	sandboxUptime: number;
+	lastActivity?: Date;
+}
+
+export interface AnalyticsTotals {
+	projects: number;
+	activeProjects: number;
+	messages: number;
+	toolCalls: number;
+	toolFailures: number;
+	activeSandboxes: number;
+	/** Milliseconds */
+	sandboxUptime: number;
+}
+
+export interface AnalyticsReport {
+	from: string;
+	to: string;
+	projectId?: string;
+	totals: AnalyticsTotals;
+	usage: UsageTotals;
+	daily: Array<ChatActivityDay & { totalTokens: number; cost: number }>;
+	tools: ToolCallStats[];
+	models: Array<{ model: string; totalTokens: number; cost: number }>;
+	projects: ProjectAnalytics[];
+	sandboxes: SandboxUptime[];
+}
@@ -41,6 +41,10 @@ export interface ChatMessage {
 		}>;
 		interruptAction?: string;
 		appliedEdits?: number;
+		checkpoint?: {
+			fileCount: number;
+			revertedAt?: Date;
+		};
 		agentInterrupt?: {
 			toolCalls: Array<{
 				name: string;
@@ -70,6 +74,34 @@ export interface ChatMessage {
 	updatedAt: Date;
 }
 
+/**
+ * Files touched by one agent run, captured before the agent first modified them
+ */
+export interface AgentCheckpoint {
+	id: string;
+	messageId: string; // Assistant message produced by the run
+	threadId: string;
+	projectId?: string;
+	userId: string;
+	sandboxId: string;
+	sandboxType?: string;
+	files: CheckpointFile[];
+	commands?: string[]; // Shell commands the run executed; their effects are not checkpointed
+	createdAt: Date;
+	updatedAt: Date;
+	revertedAt?: Date;
+}
+
+export interface CheckpointFile {
+	path: string;
+	existed: boolean; // false when the agent created the file
+	directory?: boolean; // Captured by create_directory; only removed on revert when empty
+	content?: string;
+	encoding?: 'utf-8' | 'base64';
+	skipped?: 'too-large' | 'unreadable' | 'too-many-files'; // Original content could not be (fully) captured
+	capturedAt: Date;
+}
+
 export interface MessageReaction {
 	id: string;
 	userId: string;
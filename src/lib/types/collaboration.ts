@@ -0,0 +1,33 @@
+/**
+ * Collaborative editing types shared by the server, the editor and the status bar.
+ * Every open file is a Yjs document that the server holds and persists to the
+ * sandbox; editors sync it and their cursors over a WebSocket per file.
+ */
+
+/** What a collaborator may do with a shared document */
+export type CollaboratorRole = 'editor' | 'viewer';
+
+/** Who a cursor belongs to; set by the server from the authenticated session */
+export interface CollaboratorIdentity {
+	id: string;
+	name: string;
+	image?: string;
+	color: string;
+}
+
+/** Awareness state each editor publishes for a document */
+export interface CollaboratorAwareness {
+	user?: CollaboratorIdentity;
+	role?: CollaboratorRole;
+	/** Yjs relative positions of the selection, set by the CodeMirror binding */
+	cursor?: { anchor: unknown; head: unknown } | null;
+}
+
+/** A collaborator in the presence list */
+export interface CollaboratorPresence extends CollaboratorIdentity {
+	/** Yjs client id; one user may have several tabs open */
+	clientId: number;
+	role: CollaboratorRole;
+}
+
+export type CollaborationStatus = 'connecting' | 'connected' | 'disconnected';
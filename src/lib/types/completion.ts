@@ -0,0 +1,60 @@
+/**
+ * Types shared by the editor AI endpoints: ghost text completions and inline edits
+ */
+
+export interface CompletionContextFile {
+	path: string;
+	content: string;
+}
+
+export interface InlineCompletionRequest {
+	projectId?: string;
+	/** Project-relative path of the file being edited */
+	path: string;
+	language?: string;
+	/** Text before the cursor */
+	prefix: string;
+	/** Text after the cursor */
+	suffix: string;
+	/** Other open files, as extra context */
+	relatedFiles?: CompletionContextFile[];
+	/** Model preset from the AI settings; a fast default is used when unknown */
+	model?: string;
+}
+
+export interface InlineCompletionResponse {
+	/** Text to insert at the cursor; empty when the model has nothing to add */
+	completion: string;
+	model: string;
+}
+
+export interface InlineEditRequest {
+	projectId?: string;
+	/** Project-relative path of the file being edited */
+	path: string;
+	language?: string;
+	/** What the user asked for */
+	instruction: string;
+	/** Text before the selection */
+	prefix: string;
+	/** The selected lines the model rewrites */
+	selection: string;
+	/** Text after the selection */
+	suffix: string;
+	model?: string;
+}
+
+export interface InlineEditApplyRequest {
+	projectId: string;
+	path: string;
+	/** Saved version the editor started from */
+	baseContent: string;
+	/** The file with the accepted hunks */
+	content: string;
+}
+
+export interface InlineEditApplyResponse {
+	/** What was written, merged with changes made on disk meanwhile */
+	content: string;
+	hash: string;
+}
@@ -0,0 +1,116 @@
+/**
+ * Debugger types shared by the server-side DAP client, the editor and the agent.
+ * The server speaks the Debug Adapter Protocol to the adapter in the sandbox and
+ * exposes a smaller protocol of its own to the editor over a WebSocket.
+ */
+
+export type DebugAdapterId = 'node' | 'python';
+
+/** Debug Adapter Protocol message (request, response or event) */
+export interface DapMessage {
+	seq: number;
+	type: 'request' | 'response' | 'event';
+	command?: string;
+	event?: string;
+	arguments?: Record<string, unknown>;
+	body?: Record<string, unknown>;
+	request_seq?: number;
+	success?: boolean;
+	message?: string;
+}
+
+export interface DebugLaunchConfig {
+	adapter: DebugAdapterId;
+	/** Program to run, relative to the workspace root */
+	program: string;
+	args?: string[];
+	/** Working directory relative to the workspace root; the root when omitted */
+	cwd?: string;
+	stopOnEntry?: boolean;
+}
+
+export interface DebugSourceBreakpoint {
+	/** One-based line */
+	line: number;
+	condition?: string;
+}
+
+export interface DebugBreakpoint extends DebugSourceBreakpoint {
+	/** Adapter's id, used to apply later `breakpoint` events */
+	id?: number;
+	verified: boolean;
+	message?: string;
+}
+
+export interface DebugStackFrame {
+	id: number;
+	name: string;
+	/** Workspace-relative path, absolute for files outside the workspace, absent for internals */
+	path?: string;
+	/** One-based line and column */
+	line: number;
+	column: number;
+}
+
+export interface DebugScope {
+	name: string;
+	variablesReference: number;
+	expensive: boolean;
+}
+
+export interface DebugVariable {
+	name: string;
+	value: string;
+	type?: string;
+	/** Non-zero when the value has children that can be requested */
+	variablesReference: number;
+}
+
+export interface DebugWatch {
+	expression: string;
+	value?: string;
+	error?: string;
+	variablesReference?: number;
+}
+
+export type DebugStatus = 'idle' | 'starting' | 'running' | 'paused' | 'terminated';
+
+export interface DebugState {
+	status: DebugStatus;
+	config: DebugLaunchConfig | null;
+	/** Why execution stopped: breakpoint, step, exception, pause, entry */
+	stoppedReason?: string;
+	stoppedThreadId?: number;
+	/** Exception that stopped execution */
+	exception?: { id?: string; description?: string; stackTrace?: string };
+	frames: DebugStackFrame[];
+	selectedFrameId?: number;
+	/** Scopes of the selected frame */
+	scopes: DebugScope[];
+	/** Variables of the selected frame's cheap scopes, keyed by variables reference */
+	variables: Record<number, DebugVariable[]>;
+	watches: DebugWatch[];
+	/** Breakpoints per workspace-relative path, as the adapter reported them */
+	breakpoints: Record<string, DebugBreakpoint[]>;
+	exitCode?: number;
+	error?: string;
+}
+
+/** Messages from the editor to the server */
+export type DebugClientMessage =
+	| { type: 'launch'; config: DebugLaunchConfig }
+	| { type: 'setBreakpoints'; path: string; breakpoints: DebugSourceBreakpoint[] }
+	| { type: 'setWatches'; expressions: string[] }
+	| { type: 'continue' | 'next' | 'stepIn' | 'stepOut' | 'pause' | 'stop' }
+	| { type: 'selectFrame'; frameId: number }
+	| { type: 'variables'; variablesReference: number }
+	| { type: 'evaluate'; expression: string };
+
+/** Messages from the server to the editor */
+export type DebugServerMessage =
+	| { type: 'state'; state: DebugState }
+	| { type: 'output'; category: string; output: string }
+	| { type: 'variables'; variablesReference: number; variables: DebugVariable[] }
+	| { type: 'error'; message: string };
+
+export const DEBUG_ADAPTER_IDS: DebugAdapterId[] = ['node', 'python'];
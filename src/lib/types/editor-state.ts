@@ -19,6 +19,21 @@ export interface FileEditorState {
 	undoHistory: string[];
 	redoHistory: string[];
 	lastSaved: Date;
+	/** Content the unsaved edits started from, as last read from or saved to disk */
+	baseContent?: string;
+	/** Server hash of baseContent; saves are refused once the file on disk no longer matches */
+	baseHash?: string;
+	/** Set when the file changed on disk while it had unsaved edits */
+	conflict?: FileConflict | null;
+}
+
+export interface FileConflict {
+	/** Content on disk */
+	theirs: string;
+	theirsHash?: string;
+	/** Where the conflict was noticed: a file change event or a refused save */
+	source: 'watcher' | 'save';
+	detectedAt: Date;
 }
 
 export interface EditorLayout {
@@ -47,6 +62,8 @@ export interface SidebarPanelState {
 	explorer: boolean;
 	search: boolean;
 	'source-control': boolean;
+	tasks: boolean;
+	testing: boolean;
 	debug: boolean;
 	extensions: boolean;
 
@@ -0,0 +1,98 @@
+/**
+ * Source control types shared by the git service, API and source control panel
+ */
+
+export type GitChangeKind =
+	| 'modified'
+	| 'added'
+	| 'deleted'
+	| 'renamed'
+	| 'copied'
+	| 'type-changed'
+	| 'untracked'
+	| 'conflicted';
+
+/** One changed path from `git status` */
+export interface GitFileChange {
+	/** Path relative to the repository root */
+	path: string;
+	/** Previous path of a rename or copy */
+	origPath?: string;
+	/** Change between HEAD and the index, null when nothing is staged */
+	staged: GitChangeKind | null;
+	/** Change between the index and the working tree, null when fully staged */
+	unstaged: GitChangeKind | null;
+}
+
+export interface GitStatus {
+	/** False when the working directory is not inside a git repository */
+	isRepository: boolean;
+	branch: string | null;
+	detached: boolean;
+	commit: string | null;
+	upstream?: string;
+	ahead: number;
+	behind: number;
+	files: GitFileChange[];
+}
+
+export interface GitBranch {
+	name: string;
+	current: boolean;
+	upstream?: string;
+	commit: string;
+}
+
+export interface GitDiffHunk {
+	index: number;
+	/** The `@@ -a,b +c,d @@ context` line */
+	header: string;
+	oldStart: number;
+	oldLines: number;
+	newStart: number;
+	newLines: number;
+	/** Hunk body lines including their ' ', '+', '-' or '\' prefix */
+	lines: string[];
+}
+
+export interface GitFileDiff {
+	path: string;
+	staged: boolean;
+	/** HEAD content for staged diffs, index content for unstaged ones */
+	original: string;
+	/** Index content for staged diffs, working tree content for unstaged ones */
+	modified: string;
+	hunks: GitDiffHunk[];
+	binary: boolean;
+}
+
+export interface GitCommandResult {
+	success: boolean;
+	output: string;
+}
+
+/** Personal access token a user stored for pushing to and pulling from GitHub */
+export interface GitCredential {
+	id: string;
+	userId: string;
+	provider: 'github';
+	token: string;
+	username?: string;
+	createdAt: Date;
+	updatedAt: Date;
+}
+
+/** GitHub repository a project was exported to, kept in `project.metadata.github` */
+export interface GitHubProjectLink {
+	owner: string;
+	repo: string;
+	htmlUrl: string;
+	defaultBranch: string;
+	exportedAt: Date;
+}
+
+/** How a file differs between the sandbox and a GitHub branch */
+export interface GitHubFileDelta {
+	path: string;
+	status: 'added' | 'modified' | 'deleted';
+}
@@ -1,3 +1,6 @@
+import type { ProjectMember } from './access.js';
+import type { SandboxProvider } from './sandbox.js';
+
 export interface User {
 	id: string;
 	email: string;
@@ -92,10 +95,14 @@ export interface Project {
 	name: string;
 	description?: string;
 	ownerId: string;
+	/** Team the project belongs to; its members get the team's default role */
+	organizationId?: string;
+	/** Users the project is shared with, besides the owner */
+	members?: ProjectMember[];
 	framework: Framework;
 	configuration: ProjectConfiguration;
 	status: 'initializing' | 'ready' | 'error';
-	sandboxProvider?: 'daytona';
+	sandboxProvider?: SandboxProvider;
 	sandboxId?: string;
 	createdAt: Date;
 	updatedAt: Date;
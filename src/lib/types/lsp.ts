@@ -0,0 +1,130 @@
+/**
+ * Language server protocol types shared by the LSP bridge and the editor client.
+ * Only the subset of the protocol the editor uses is modelled here.
+ */
+
+export type LspServerId = 'typescript' | 'python' | 'svelte';
+
+export interface LspPosition {
+	/** Zero-based line */
+	line: number;
+	/** Zero-based UTF-16 offset within the line */
+	character: number;
+}
+
+export interface LspRange {
+	start: LspPosition;
+	end: LspPosition;
+}
+
+export interface LspLocation {
+	uri: string;
+	range: LspRange;
+}
+
+export interface LspLocationLink {
+	targetUri: string;
+	targetRange: LspRange;
+	targetSelectionRange: LspRange;
+}
+
+export interface LspMarkupContent {
+	kind: 'plaintext' | 'markdown';
+	value: string;
+}
+
+export type LspMarkedString = string | { language: string; value: string };
+
+export interface LspDiagnostic {
+	range: LspRange;
+	/** 1 error, 2 warning, 3 information, 4 hint */
+	severity?: 1 | 2 | 3 | 4;
+	code?: string | number;
+	source?: string;
+	message: string;
+}
+
+export interface LspHover {
+	contents: LspMarkupContent | LspMarkedString | LspMarkedString[];
+	range?: LspRange;
+}
+
+export interface LspTextEdit {
+	range: LspRange;
+	newText: string;
+}
+
+export interface LspCompletionItem {
+	label: string;
+	kind?: number;
+	detail?: string;
+	documentation?: string | LspMarkupContent;
+	sortText?: string;
+	filterText?: string;
+	insertText?: string;
+	/** 1 plain text, 2 snippet */
+	insertTextFormat?: 1 | 2;
+	textEdit?: LspTextEdit | { newText: string; insert: LspRange; replace: LspRange };
+}
+
+export interface LspCompletionList {
+	isIncomplete: boolean;
+	items: LspCompletionItem[];
+}
+
+export interface LspSignatureHelp {
+	signatures: {
+		label: string;
+		documentation?: string | LspMarkupContent;
+		parameters?: { label: string | [number, number]; documentation?: string | LspMarkupContent }[];
+		activeParameter?: number;
+	}[];
+	activeSignature?: number;
+	activeParameter?: number;
+}
+
+export interface LspInlayHint {
+	position: LspPosition;
+	label: string | { value: string }[];
+	/** 1 type, 2 parameter */
+	kind?: 1 | 2;
+	paddingLeft?: boolean;
+	paddingRight?: boolean;
+}
+
+export interface LspCodeLens {
+	range: LspRange;
+	command?: { title: string; command: string; arguments?: unknown[] };
+	data?: unknown;
+}
+
+export interface LspServerCapabilities {
+	hoverProvider?: boolean | object;
+	definitionProvider?: boolean | object;
+	completionProvider?: { triggerCharacters?: string[]; resolveProvider?: boolean };
+	signatureHelpProvider?: { triggerCharacters?: string[]; retriggerCharacters?: string[] };
+	inlayHintProvider?: boolean | object;
+	codeLensProvider?: { resolveProvider?: boolean };
+	[capability: string]: unknown;
+}
+
+export interface JsonRpcMessage {
+	jsonrpc: '2.0';
+	id?: number | string | null;
+	method?: string;
+	params?: unknown;
+	result?: unknown;
+	error?: { code: number; message: string; data?: unknown };
+}
+
+/**
+ * Notification sent by the bridge once the language server is running,
+ * before any traffic from the server itself
+ */
+export interface LspReadyParams {
+	server: LspServerId;
+	/** file:// URI of the workspace root inside the sandbox */
+	rootUri: string;
+}
+
+export const LSP_READY_METHOD = 'aura/ready';
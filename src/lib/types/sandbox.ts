@@ -1,7 +1,7 @@
 import { ObjectId } from 'mongodb';
 
 // Core Sandbox Types
-export type SandboxProvider = 'daytona';
+export type SandboxProvider = 'daytona' | 'docker' | 'local';
 export type SandboxStatus =
 	| 'initializing'
 	| 'running'
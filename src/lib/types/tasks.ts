@@ -0,0 +1,61 @@
+/**
+ * Task runner types shared by task discovery, the tasks API and the tasks panel
+ */
+
+/** Where a task was declared */
+export type TaskSource = 'npm' | 'make' | 'aura';
+
+/** Output formats turned into editor diagnostics */
+export type ProblemMatcherName = 'tsc' | 'eslint';
+
+export const PROBLEM_MATCHERS: ProblemMatcherName[] = ['tsc', 'eslint'];
+
+export interface TaskDefinition {
+	/** Stable id such as `npm:dev`, `make:build` or `aura:Deploy` */
+	id: string;
+	label: string;
+	source: TaskSource;
+	/** Shell command run in the task's terminal */
+	command: string;
+	/** Directory relative to the workspace root; the root when omitted */
+	cwd?: string;
+	/** Script body, Makefile recipe or description shown next to the label */
+	detail?: string;
+	group?: 'build' | 'test';
+	problemMatchers: ProblemMatcherName[];
+}
+
+/** GET /api/projects/[id]/tasks */
+export interface TaskListResponse {
+	tasks: TaskDefinition[];
+	/** Absolute workspace root in the sandbox, used to make reported paths relative */
+	root: string | null;
+	/** Files that could not be read, e.g. invalid JSON in `.aura/tasks.json` */
+	errors: string[];
+}
+
+/** POST /api/projects/[id]/tasks/run */
+export interface TaskRunResponse {
+	task: TaskDefinition;
+	/** Named terminal session the task runs in; attach through the terminal proxy */
+	sessionId: string;
+	name: string;
+}
+
+/** One diagnostic reported by a task's output */
+export interface TaskProblem {
+	/** Path relative to the workspace root */
+	path: string;
+	/** 1-based */
+	line: number;
+	/** 1-based */
+	column: number;
+	severity: 'error' | 'warning' | 'info';
+	message: string;
+	/** Rule or error code, e.g. `TS2322` or `no-unused-vars` */
+	code?: string;
+	source: ProblemMatcherName;
+}
+
+/** Printed by the task terminal once the command exits, before it drops into a shell */
+export const TASK_EXIT_PATTERN = /\[Task exited with code (\d+)\]/;
@@ -0,0 +1,86 @@
+/**
+ * User-defined project template types
+ */
+
+import type { ProjectConfiguration } from './index';
+import type { DependencyType } from './sandbox';
+
+/** Who can create projects from a saved template */
+export type TemplateVisibility = 'private' | 'team';
+
+export interface SavedTemplateFile {
+	path: string;
+	content: string;
+	/** Binary files are stored base64-encoded */
+	encoding?: 'utf-8' | 'base64';
+	size: number;
+}
+
+/** A package the template's package.json declares, for display in the template list */
+export interface SavedTemplateDependency {
+	name: string;
+	version: string;
+	type: DependencyType;
+}
+
+/** A snapshot of a project's files that new projects can start from */
+export interface SavedTemplate {
+	id: string;
+	name: string;
+	description?: string;
+	/** Framework of the project the template was saved from */
+	framework: string;
+	ownerId: string;
+	visibility: TemplateVisibility;
+	/** Set for team templates: members of this organization can use the template */
+	organizationId?: string;
+	sourceProjectId: string;
+	files: SavedTemplateFile[];
+	fileCount: number;
+	totalSize: number;
+	dependencies: SavedTemplateDependency[];
+	configuration: ProjectConfiguration;
+	/** Shell commands run in the sandbox of every project created from the template */
+	postCreateCommands: string[];
+	/** Passed to the agent when the user does not describe what to build */
+	initialPrompt?: string;
+	createdAt: Date;
+	updatedAt: Date;
+}
+
+/** What template lists return: everything but the files */
+export type SavedTemplateSummary = Omit<SavedTemplate, 'files'>;
+
+/** Files downloaded from a GitHub template, kept so new projects skip the download */
+export interface TemplateCacheEntry {
+	/** owner/repo@ref:path */
+	key: string;
+	owner: string;
+	repo: string;
+	ref?: string;
+	path?: string;
+	/** JSON of the path → content map, gzipped when `compressed` is set */
+	data: Buffer;
+	compressed: boolean;
+	fileCount: number;
+	/** Bytes stored in `data` */
+	size: number;
+	hits: number;
+	createdAt: Date;
+	lastAccessedAt: Date;
+	expiresAt: Date;
+}
+
+export interface TemplateCacheStats {
+	enabled: boolean;
+	entries: number;
+	maxEntries: number;
+	/** Bytes stored across all entries */
+	totalSize: number;
+	ttlHours: number;
+	compression: boolean;
+	/** Lookups since the server started */
+	hits: number;
+	misses: number;
+	hitRate: number;
+}
@@ -0,0 +1,67 @@
+/**
+ * Messages exchanged between browser terminals and the sandbox PTY proxy
+ * (WS /api/sandbox/:id/terminal/proxy/:sessionId). Every frame is JSON text.
+ */
+
+/** Sent by the browser */
+export type TerminalClientMessage =
+	{ type: 'input'; data: string } | { type: 'resize'; cols: number; rows: number };
+
+/** Sent by the server */
+export type TerminalServerMessage =
+	/** Attached; the output that follows starts with the session's scrollback */
+	| { type: 'ready'; sessionId: string; cols: number; rows: number }
+	| { type: 'output'; data: string }
+	/** The shell exited; the socket closes right after */
+	| { type: 'exit' };
+
+/** Close code sent when the shell process goes away; clients should not reconnect */
+export const TERMINAL_SESSION_ENDED = 4000;
+
+/** Shells and session ids are passed to the sandbox, so both are restricted to plain names */
+export const TERMINAL_SESSION_ID_PATTERN = /^[\w-]{1,128}$/;
+export const TERMINAL_SHELL_PATTERN = /^[\w/.-]{1,64}$/;
+
+/** A named shell in a project's sandbox, persisted so tabs can reattach after a reload */
+export interface TerminalSessionRecord {
+	/** Session id used on the proxy route */
+	id: string;
+	projectId: string;
+	sandboxId: string;
+	userId: string;
+	name: string;
+	shell: string;
+	status: 'running' | 'exited';
+	createdAt: Date;
+	updatedAt: Date;
+	lastAttachedAt?: Date;
+	exitedAt?: Date;
+}
+
+/** A session record merged with what the proxy knows about its shell right now */
+export interface TerminalSessionInfo extends TerminalSessionRecord {
+	/** Browser tabs currently attached through this server */
+	attached: number;
+	/** Last input or output seen by this server */
+	lastActivity?: Date;
+	cols?: number;
+	rows?: number;
+}
+
+/** A sandbox session as listed next to terminal sessions */
+export interface SandboxSessionSummary {
+	id: string;
+	sandboxId: string;
+	projectId?: string;
+	projectName?: string;
+	provider: string;
+	status: string;
+	startedAt: Date;
+	lastActivity: Date;
+}
+
+/** Response of GET /api/sessions */
+export interface SessionsOverview {
+	sandboxes: SandboxSessionSummary[];
+	terminals: Array<TerminalSessionInfo & { projectName?: string }>;
+}
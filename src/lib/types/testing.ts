@@ -0,0 +1,70 @@
+/**
+ * Test explorer types shared by test detection, the tests API and the testing panel
+ */
+
+export type TestFramework = 'vitest' | 'jest' | 'pytest';
+
+export const TEST_FRAMEWORKS: TestFramework[] = ['vitest', 'jest', 'pytest'];
+
+export type TestStatus = 'passed' | 'failed' | 'skipped';
+
+export interface TestFailure {
+	/** First line of the failure, e.g. `AssertionError: expected 2 to be 3` */
+	message: string;
+	/** Everything after it: the expected/received diff and the stack, without colours */
+	details?: string;
+}
+
+export interface TestCase {
+	/** `file::Suite > test` for JavaScript runners, the node id for pytest */
+	id: string;
+	framework: TestFramework;
+	/** Path relative to the workspace root */
+	file: string;
+	/** Enclosing describe blocks or test classes, outermost first */
+	suite: string[];
+	name: string;
+	/** What the runner filters on to run only this test: the full name, or the pytest node id */
+	filter: string;
+	status: TestStatus;
+	/** Milliseconds */
+	duration?: number;
+	/** 1-based line of the test, when the runner reports it */
+	line?: number;
+	failure?: TestFailure;
+}
+
+/** A test file that failed as a whole, e.g. a syntax error or a failing import */
+export interface TestFileError {
+	file?: string;
+	message: string;
+}
+
+/** GET /api/projects/[id]/tests */
+export interface TestDiscoveryResponse {
+	frameworks: TestFramework[];
+	/** Absolute workspace root in the sandbox */
+	root: string | null;
+}
+
+/** POST /api/projects/[id]/tests/run */
+export interface TestRunRequest {
+	framework: TestFramework;
+	/** Run one file; the whole suite when omitted */
+	file?: string;
+	/** Run one test of `file`, matched by its `filter` */
+	filter?: string;
+}
+
+export interface TestRunResult {
+	framework: TestFramework;
+	/** Scope of the run, so a partial run only replaces what it covered */
+	file?: string;
+	filter?: string;
+	tests: TestCase[];
+	errors: TestFileError[];
+	summary: { passed: number; failed: number; skipped: number; duration: number };
+	/** Tail of the runner's console output */
+	output: string;
+	finishedAt: string;
+}
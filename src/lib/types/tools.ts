@@ -71,3 +71,56 @@ export interface ToolCallDisplayState {
 	isSuccess: boolean;
 	showDetails: boolean;
 }
+
+// Human-in-the-loop approval types
+
+export type ToolApprovalMode = 'allow' | 'ask' | 'deny';
+
+export interface ToolApprovalPolicy {
+	/** Mode per agent tool name; tools not listed are allowed */
+	tools: Record<string, ToolApprovalMode>;
+	/** Regex patterns matched against `execute_command` commands */
+	commands: {
+		allow: string[];
+		deny: string[];
+	};
+	/** How long a pending approval waits before it is treated as rejected */
+	timeoutMs: number;
+}
+
+export interface ToolApprovalEvaluation {
+	mode: ToolApprovalMode;
+	reason: string;
+}
+
+export interface ToolCallPreview {
+	filePath: string;
+	previousContent?: string | null;
+	proposedContent?: string | null;
+}
+
+export type ToolApprovalStatus = 'pending' | 'approved' | 'rejected' | 'expired';
+
+export interface ToolApprovalRequest {
+	id: string;
+	toolCallId: string;
+	toolName: string;
+	input: Record<string, unknown>;
+	reason: string;
+	status: ToolApprovalStatus;
+	threadId: string;
+	projectId?: string;
+	userId: string;
+	preview?: ToolCallPreview;
+	createdAt: string;
+	expiresAt: string;
+	resolvedAt?: string;
+	feedback?: string;
+}
+
+export interface ToolApprovalDecision {
+	approved: boolean;
+	/** Replacement tool input fields, e.g. user-edited file content */
+	input?: Record<string, unknown>;
+	feedback?: string;
+}
@@ -0,0 +1,72 @@
+/**
+ * Token usage and cost accounting types
+ */
+
+/** Priced usage of a single agent step */
+export interface UsageLedgerEntry {
+	id: string;
+	userId: string;
+	projectId?: string;
+	threadId: string;
+	messageId: string;
+	model: string;
+	step: number;
+	inputTokens: number;
+	outputTokens: number;
+	cachedInputTokens: number;
+	totalTokens: number;
+	/** USD */
+	cost: number;
+	createdAt: Date;
+}
+
+/** Usage of one user in one project (or outside any project) on one UTC day */
+export interface UsageDailyAggregate {
+	id: string;
+	/** YYYY-MM-DD (UTC) */
+	date: string;
+	/** YYYY-MM (UTC), used for monthly budgets */
+	month: string;
+	userId: string;
+	projectId: string | null;
+	steps: number;
+	inputTokens: number;
+	outputTokens: number;
+	cachedInputTokens: number;
+	totalTokens: number;
+	cost: number;
+	/** Tokens and cost per model */
+	models: Record<string, { totalTokens: number; cost: number }>;
+	updatedAt: Date;
+}
+
+export type UsageBudgetScope = 'user' | 'project';
+
+export interface UsageBudget {
+	id: string;
+	scope: UsageBudgetScope;
+	/** User ID or project ID, depending on scope */
+	scopeId: string;
+	/** Monthly cap in USD */
+	monthlyLimit: number;
+	createdBy: string;
+	createdAt: Date;
+	updatedAt: Date;
+}
+
+export interface UsageBudgetStatus {
+	budget: UsageBudget;
+	month: string;
+	spent: number;
+	remaining: number;
+	exceeded: boolean;
+}
+
+export interface UsageTotals {
+	steps: number;
+	inputTokens: number;
+	outputTokens: number;
+	cachedInputTokens: number;
+	totalTokens: number;
+	cost: number;
+}
@@ -17,3 +17,14 @@ export const logger = {
 		}
 	}
 };
+
+/**
+ * Mask credentials in a shell command before it is logged: HTTP authorization
+ * headers, passwords in URLs and token or password assignments
+ */
+export function redactCommand(command: string): string {
+	return command
+		.replace(/(authorization:\s*(?:basic|bearer|token)\s+)[^\s'"]+/gi, '$1***')
+		.replace(/(\b[a-z][\w+.-]*:\/\/)[^\s/@'"]+@/gi, '$1***@')
+		.replace(/(\b[\w-]*(?:token|password|passwd|secret|api[_-]?key)[\w-]*=)[^\s'"&]+/gi, '$1***');
+}
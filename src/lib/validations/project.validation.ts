@@ -58,14 +58,14 @@ const frameworkSchema = z
 
 // Sandbox provider validation
 const sandboxProviderSchema = z
-	.enum(['daytona'])
-	.refine((val) => ['daytona'].includes(val), {
+	.enum(['daytona', 'docker', 'local'])
+	.refine((val) => ['daytona', 'docker', 'local'].includes(val), {
 		message: 'Please select a valid sandbox provider'
 	});
 
 
 // Package manager validation
-const packageManagerSchema = z
+export const packageManagerSchema = z
 	.enum(['npm', 'yarn', 'pnpm', 'bun'])
 	.refine((val) => ['npm', 'yarn', 'pnpm', 'bun'].includes(val), {
 		message: 'Please select a valid package manager'
@@ -109,6 +109,18 @@ const customRepoSchema = z
 	})
 	.optional();
 
+// Repository on any git host, cloned inside the sandbox
+const gitRepoSchema = z
+	.object({
+		url: z
+			.string()
+			.url('Invalid repository URL')
+			.max(500, 'Repository URL is too long')
+			.refine((url) => url.startsWith('https://'), 'Repository URL must use https://'),
+		branch: z.string().max(255, 'Branch name is too long').optional()
+	})
+	.optional();
+
 // Initial prompt validation (what the user wants to build)
 const initialPromptSchema = z
 	.string()
@@ -123,6 +135,9 @@ export const projectSetupSchema = z.object({
 	framework: frameworkSchema,
 	sandboxProvider: sandboxProviderSchema,
 	customRepo: customRepoSchema,
+	gitRepo: gitRepoSchema,
+	/** Built-in template name, or `saved:<id>` for a template saved from a project */
+	templateId: z.string().max(100).optional(),
 	initialPrompt: initialPromptSchema,
 	configuration: configurationSchema
 });
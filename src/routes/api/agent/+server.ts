@@ -1,3 +1,4 @@
+import { authorizeSandbox } from '$lib/services/access';
 import { DatabaseService } from '$lib/services/database.service';
 import { sandboxManager } from '$lib/services/sandbox/sandbox-manager';
 import { logger } from '$lib/utils/logger.js';
@@ -168,7 +169,6 @@ export const PUT: RequestHandler = async ({ request, locals }) => {
 
 		// Apply edits if approved or modified
 		let appliedEdits: EditResult[] = [];
-		const sandboxId = project?.sandboxId; // Wait, we need to fetch project or sandbox ID? 
         // The body doesn't strictly have sandboxId in the top level based on ChatService call, 
         // BUT ChatService passes `...payload` which includes `stateSnapshot` or `toolCalls`. 
         // Let's get sandboxId from context or lookup.
@@ -220,7 +220,20 @@ export const PUT: RequestHandler = async ({ request, locals }) => {
 			}
 
 			if (editsToApply.length > 0) {
-				appliedEdits = await applyEdits(effectiveSandboxId, editsToApply, { userId, projectId });
+				if (!effectiveSandboxId) {
+					return json(
+						{ success: false, error: 'sandboxId not available to apply edits' },
+						{ status: 400 }
+					);
+				}
+				const access = await authorizeSandbox(effectiveSandboxId, userId, 'edit');
+				if ('error' in access) {
+					return json({ success: false, error: access.error }, { status: access.status });
+				}
+				appliedEdits = await applyEdits(effectiveSandboxId, editsToApply, {
+					userId,
+					projectId: access.project.id
+				});
 			}
 		}
 
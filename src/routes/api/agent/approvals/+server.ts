@@ -0,0 +1,14 @@
+import { approvalGate } from '$lib/services/agent-approval.service';
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+
+// GET /api/agent/approvals?threadId= - List tool calls waiting for the user's decision
+export const GET: RequestHandler = async ({ url, locals }) => {
+	if (!locals.user) {
+		return json({ error: 'Unauthorized' }, { status: 401 });
+	}
+	const userId = locals.user.id;
+	const threadId = url.searchParams.get('threadId') || undefined;
+
+	return json({ approvals: approvalGate.listPending(userId, threadId) });
+};
@@ -0,0 +1,51 @@
+import { approvalGate } from '$lib/services/agent-approval.service';
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+
+// POST /api/agent/approvals/[approvalId] - Approve or reject a paused tool call
+export const POST: RequestHandler = async ({ params, request, locals }) => {
+	if (!locals.user) {
+		return json({ error: 'Unauthorized' }, { status: 401 });
+	}
+
+	try {
+		const userId = locals.user.id;
+		const { approved, input, feedback } = await request.json();
+
+		if (typeof approved !== 'boolean') {
+			return json({ error: 'approved must be a boolean' }, { status: 400 });
+		}
+		if (input !== undefined && (typeof input !== 'object' || input === null)) {
+			return json({ error: 'input must be an object' }, { status: 400 });
+		}
+
+		const pending = approvalGate.get(params.approvalId);
+		if (!pending) {
+			return json({ error: 'Approval not found or already resolved' }, { status: 404 });
+		}
+		if (pending.userId !== userId) {
+			return json({ error: 'Access denied' }, { status: 403 });
+		}
+
+		// The sandbox a call targets cannot be changed by an edited input
+		const approval = approvalGate.decide(params.approvalId, userId, {
+			approved,
+			input: input ? omitSandboxFields(input) : undefined,
+			feedback: typeof feedback === 'string' ? feedback : undefined
+		});
+
+		return json({ success: !!approval, approval });
+	} catch (error) {
+		console.error('Failed to resolve approval:', error);
+		return json(
+			{ error: error instanceof Error ? error.message : 'Failed to resolve approval' },
+			{ status: 500 }
+		);
+	}
+};
+
+function omitSandboxFields(input: Record<string, unknown>): Record<string, unknown> {
+	return Object.fromEntries(
+		Object.entries(input).filter(([key]) => key !== 'sandboxId' && key !== 'sandboxType')
+	);
+}
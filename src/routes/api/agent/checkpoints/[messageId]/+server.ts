@@ -0,0 +1,40 @@
+import { DatabaseService } from '$lib/services/database.service';
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+
+// GET /api/agent/checkpoints/[messageId] - Files captured before an agent run modified them
+export const GET: RequestHandler = async ({ params, locals }) => {
+	try {
+		if (!locals.user) {
+			return json({ error: 'Unauthorized' }, { status: 401 });
+		}
+		const userId = locals.user.id;
+		const checkpoint = await DatabaseService.findAgentCheckpointByMessageId(params.messageId);
+
+		if (!checkpoint) {
+			return json({ error: 'Checkpoint not found' }, { status: 404 });
+		}
+		if (checkpoint.userId !== userId) {
+			return json({ error: 'Access denied' }, { status: 403 });
+		}
+
+		return json({
+			checkpoint: {
+				messageId: checkpoint.messageId,
+				threadId: checkpoint.threadId,
+				sandboxId: checkpoint.sandboxId,
+				createdAt: checkpoint.createdAt,
+				revertedAt: checkpoint.revertedAt,
+				files: checkpoint.files.map(({ path, existed, skipped, capturedAt }) => ({
+					path,
+					existed,
+					skipped,
+					capturedAt
+				}))
+			}
+		});
+	} catch (error) {
+		console.error('Failed to load agent checkpoint:', error);
+		return json({ error: 'Failed to load checkpoint' }, { status: 500 });
+	}
+};
@@ -0,0 +1,48 @@
+import { authorizeSandbox } from '$lib/services/access';
+import {
+	findCheckpointsToRevert,
+	revertToBeforeMessage
+} from '$lib/services/agent-checkpoint.service';
+import { DatabaseService } from '$lib/services/database.service';
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+
+// POST /api/agent/checkpoints/[messageId]/revert - Restore the sandbox to its state before the message
+export const POST: RequestHandler = async ({ params, locals }) => {
+	try {
+		if (!locals.user) {
+			return json({ error: 'Unauthorized' }, { status: 401 });
+		}
+		const userId = locals.user.id;
+		const message = await DatabaseService.findChatMessageById(params.messageId);
+
+		if (!message || message.role !== 'assistant') {
+			return json({ error: 'Assistant message not found' }, { status: 404 });
+		}
+		if (message.userId !== userId) {
+			return json({ error: 'Access denied' }, { status: 403 });
+		}
+
+		// Reverting writes files, so the user needs edit access to every sandbox involved now
+		const checkpoints = await findCheckpointsToRevert(message);
+		for (const sandboxId of new Set(checkpoints.own.map((checkpoint) => checkpoint.sandboxId))) {
+			const access = await authorizeSandbox(sandboxId, userId, 'edit');
+			if ('error' in access) {
+				return json({ error: access.error }, { status: access.status });
+			}
+		}
+
+		const result = await revertToBeforeMessage(message, checkpoints);
+
+		return json({
+			success: result.failed.length === 0 && result.incomplete.length === 0,
+			...result
+		});
+	} catch (error) {
+		console.error('Failed to revert agent changes:', error);
+		return json(
+			{ error: error instanceof Error ? error.message : 'Failed to revert changes' },
+			{ status: 500 }
+		);
+	}
+};
@@ -0,0 +1,81 @@
+/**
+ * Agent Checkpoint Route Tests
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const database = vi.hoisted(() => ({
+	findChatMessageById: vi.fn(),
+	findAgentCheckpointByMessageId: vi.fn()
+}));
+const checkpoints = vi.hoisted(() => ({
+	findCheckpointsToRevert: vi.fn(),
+	revertToBeforeMessage: vi.fn()
+}));
+const authorizeSandbox = vi.hoisted(() => vi.fn());
+
+vi.mock('$lib/services/database.service', () => ({ DatabaseService: database }));
+vi.mock('$lib/services/agent-checkpoint.service', () => checkpoints);
+vi.mock('$lib/services/access', () => ({ authorizeSandbox }));
+
+const { GET } = await import('./[messageId]/+server');
+const { POST } = await import('./[messageId]/revert/+server');
+
+function event<T>(user?: { id: string }) {
+	return { params: { messageId: 'message-1' }, locals: { user } } as unknown as T;
+}
+
+describe('checkpoint routes', () => {
+	beforeEach(() => {
+		database.findChatMessageById
+			.mockReset()
+			.mockResolvedValue({ id: 'message-1', role: 'assistant', userId: 'user-1' });
+		database.findAgentCheckpointByMessageId.mockReset().mockResolvedValue(null);
+		checkpoints.findCheckpointsToRevert
+			.mockReset()
+			.mockResolvedValue({ own: [{ sandboxId: 'sandbox-1' }], others: [] });
+		checkpoints.revertToBeforeMessage.mockReset().mockResolvedValue({
+			failed: [],
+			incomplete: [],
+			conflicts: [],
+			commands: []
+		});
+		authorizeSandbox.mockReset().mockResolvedValue({ project: { id: 'p-1' }, role: 'editor' });
+	});
+
+	it('should require a signed-in user', async () => {
+		expect((await GET(event())).status).toBe(401);
+		expect((await POST(event())).status).toBe(401);
+		expect(checkpoints.revertToBeforeMessage).not.toHaveBeenCalled();
+	});
+
+	it('should only let the message author revert it', async () => {
+		expect((await POST(event({ id: 'user-2' }))).status).toBe(403);
+
+		database.findChatMessageById.mockResolvedValue({ id: 'message-1', role: 'assistant' });
+		expect((await POST(event({ id: 'user-1' }))).status).toBe(403);
+		expect(checkpoints.revertToBeforeMessage).not.toHaveBeenCalled();
+	});
+
+	it('should require edit access to the sandbox now', async () => {
+		authorizeSandbox.mockResolvedValue({ error: 'Viewers cannot edit', status: 403 });
+
+		expect((await POST(event({ id: 'user-1' }))).status).toBe(403);
+		expect(authorizeSandbox).toHaveBeenCalledWith('sandbox-1', 'user-1', 'edit');
+		expect(checkpoints.revertToBeforeMessage).not.toHaveBeenCalled();
+	});
+
+	it('should report partly captured directories as a failed revert', async () => {
+		checkpoints.revertToBeforeMessage.mockResolvedValue({
+			failed: [],
+			incomplete: ['node_modules'],
+			conflicts: [],
+			commands: []
+		});
+
+		const response = await POST(event({ id: 'user-1' }));
+
+		expect(response.status).toBe(200);
+		expect(await response.json()).toMatchObject({ success: false, incomplete: ['node_modules'] });
+	});
+});
@@ -1,9 +1,15 @@
-import { sandboxManager } from '$lib/services/sandbox/sandbox-manager';
+import { authorizeSandbox } from '$lib/services/access';
+import { buildToolCallPreview } from '$lib/services/agent-approval.service';
+import type { ToolCallPreview } from '$lib/types/tools';
 import { logger } from '$lib/utils/logger.js';
 import { json } from '@sveltejs/kit';
 import type { RequestHandler } from './$types';
 
-export const POST: RequestHandler = async ({ request }) => {
+export const POST: RequestHandler = async ({ request, locals }) => {
+	if (!locals.user) {
+		return json({ success: false, error: 'Unauthorized' }, { status: 401 });
+	}
+
 	const body = await request.json();
 	const { toolCalls, sandboxId } = body as any;
 
@@ -12,29 +18,22 @@ export const POST: RequestHandler = async ({ request }) => {
 	}
 
 	try {
-		const previews: Array<{
-			filePath: string;
-			previousContent?: string | null;
-			proposedContent?: string | null;
-		}> = [];
+		// Previews read the current file contents from the sandbox
+		const access = sandboxId ? await authorizeSandbox(sandboxId, locals.user.id, 'view') : null;
+		if (access && 'error' in access) {
+			return json({ success: false, error: access.error }, { status: access.status });
+		}
+
+		const previews: ToolCallPreview[] = [];
 		for (const tc of toolCalls) {
-			if (['write_file', 'edit_file'].includes(tc.name)) {
-				const filePath = tc.parameters?.filePath || tc.parameters?.path;
-				let previous: string | null = null;
-				try {
-					if (sandboxId) {
-						const file = await sandboxManager.readFile(sandboxId, filePath);
-						const raw = file?.content ?? null;
-						previous = raw && typeof raw !== 'string' ? String(raw) : raw;
-					}
-				} catch (err) {
-					// Read may fail (file not exist) -> previous remains null
-				}
-				previews.push({
-					filePath,
-					previousContent: previous,
-					proposedContent: tc.parameters?.content ?? null
-				});
+			const preview = await buildToolCallPreview(
+				sandboxId,
+				tc.name,
+				tc.parameters || tc.args || {},
+				access?.project.sandboxProvider
+			);
+			if (preview) {
+				previews.push(preview);
 			}
 		}
 
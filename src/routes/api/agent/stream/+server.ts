@@ -5,13 +5,39 @@
  * It uses AI SDK v6 with multi-step tool execution for complex coding tasks.
  */
 
-import { aiSdkTools } from '$lib/agent/ai-tools';
+import { aiSdkTools, parseToolOutcome } from '$lib/agent/ai-tools';
+import { findModelPreset } from '$lib/agent/model-presets';
 import { buildCodingAgentPrompt, type AgentContext } from '$lib/agent/system-prompts';
+import {
+	agentPolicyForRole,
+	authorizeProject,
+	authorizeSandbox,
+	canAccessThread
+} from '$lib/services/access';
+import {
+	resolveApprovalPolicy,
+	withApprovalGate,
+	type AuthorizedSandbox
+} from '$lib/services/agent-approval.service';
+import { CheckpointRecorder, withCheckpoints } from '$lib/services/agent-checkpoint.service';
 import { DatabaseService } from '$lib/services/database.service';
+import {
+	getBudgetStatuses,
+	remainingBudget,
+	UsageRecorder
+} from '$lib/services/usage-ledger.service';
 import { logger } from '$lib/utils/logger';
 import { anthropic } from '@ai-sdk/anthropic';
 import { openai } from '@ai-sdk/openai';
-import { convertToModelMessages, stepCountIs, streamText, type UIMessage } from 'ai';
+import { json } from '@sveltejs/kit';
+import {
+	convertToModelMessages,
+	createUIMessageStream,
+	createUIMessageStreamResponse,
+	stepCountIs,
+	streamText,
+	type UIMessage
+} from 'ai';
 import type { RequestHandler } from './$types';
 
 // Constants
@@ -26,13 +52,14 @@ function createMessageDoc(
 	content: string,
 	role: 'user' | 'assistant',
 	options: {
+		id?: string;
 		projectId?: string;
 		currentFile?: string;
 		metadata?: Record<string, any>;
 	} = {}
 ) {
 	return {
-		id: crypto.randomUUID(),
+		id: options.id || crypto.randomUUID(),
 		threadId,
 		projectId: options.projectId,
 		userId,
@@ -91,25 +118,16 @@ async function createNewThread(userId: string, projectId?: string): Promise<stri
 	return newThread.id;
 }
 
-// Resolve AI SDK Model
+// Resolve AI SDK Model. Only catalog models are accepted so every run can be priced.
 function resolveModel(modelName?: string) {
-	if (modelName) {
-		// Anthropic models
-		if (modelName.includes('claude') || modelName.includes('anthropic')) {
-			return anthropic(modelName);
-		}
-		// OpenAI models
-		if (
-			modelName.includes('gpt') ||
-			modelName.includes('openai') ||
-			modelName.includes('o1') ||
-			modelName.includes('o3')
-		) {
-			return openai(modelName);
-		}
+	if (!modelName) {
+		// Default to GPT-4o for best tool use performance
+		return openai('gpt-4o');
 	}
-	// Default to GPT-4o for best tool use performance
-	return openai('gpt-4o');
+	const preset = findModelPreset(modelName);
+	if (preset?.provider === 'anthropic') return anthropic(preset.model);
+	if (preset?.provider === 'openai') return openai(preset.model);
+	return undefined;
 }
 
 // Fetch project details
@@ -212,11 +230,59 @@ function buildFileTree(files: any[], maxDepth: number, depth: number = 0, prefix
 
 export const POST: RequestHandler = async ({ request, locals }) => {
 	const body = await request.json();
-	const { message, threadId, projectId, currentFile, sandboxId, sandboxType, modelName } = body;
+	const { message, threadId, currentFile, modelName } = body;
 
-	const userId = locals?.user?.id || 'default';
+	if (!locals.user) {
+		return json({ error: 'Unauthorized' }, { status: 401 });
+	}
+	const userId = locals.user.id;
 
 	try {
+		// The agent acts with the user's role in the project it works on, and only in its sandbox
+		if (!body.sandboxId && !body.projectId) {
+			return json({ error: 'A sandbox or project is required' }, { status: 400 });
+		}
+		const access = body.sandboxId
+			? await authorizeSandbox(body.sandboxId, userId, 'view')
+			: await authorizeProject(body.projectId, userId, 'view');
+		if ('error' in access) {
+			return json({ error: access.error }, { status: access.status });
+		}
+		if (body.projectId && access.project.id !== body.projectId) {
+			return json({ error: 'The sandbox does not belong to this project' }, { status: 400 });
+		}
+		if (!access.project.sandboxId) {
+			return json({ error: 'Project has no sandbox' }, { status: 409 });
+		}
+		const model = resolveModel(modelName);
+		if (!model) {
+			return json({ error: `Unsupported model: ${modelName}` }, { status: 400 });
+		}
+		const projectId = access.project.id;
+		const sandbox: AuthorizedSandbox = {
+			sandboxId: access.project.sandboxId,
+			sandboxType: access.project.sandboxProvider ?? 'daytona'
+		};
+		if (threadId) {
+			const thread = await DatabaseService.findChatThreadById(threadId);
+			if (thread && !(await canAccessThread(thread, userId, 'write'))) {
+				return json({ error: 'Access denied' }, { status: 403 });
+			}
+		}
+
+		// Refuse new runs once a monthly budget is used up
+		const budgetStatuses = await getBudgetStatuses(userId, projectId);
+		const exceededBudget = budgetStatuses.find((status) => status.exceeded);
+		if (exceededBudget) {
+			return new Response(
+				JSON.stringify({
+					error: `Monthly ${exceededBudget.budget.scope} budget of $${exceededBudget.budget.monthlyLimit.toFixed(2)} reached`,
+					budget: exceededBudget
+				}),
+				{ status: 402, headers: { 'Content-Type': 'application/json' } }
+			);
+		}
+
 		// Create or get thread
 		const actualThreadId = threadId || (await createNewThread(userId, projectId));
 
@@ -254,9 +320,11 @@ export const POST: RequestHandler = async ({ request, locals }) => {
 		let framework: string | undefined;
 		let projectName: string | undefined;
 		let initialPrompt: string | undefined;
+		let approvalPolicySettings: Record<string, any> | undefined;
 
 		if (projectId) {
 			const projectDetails = await getProjectDetails(projectId);
+			approvalPolicySettings = projectDetails.project?.metadata?.approvalPolicy;
 			fileTree = projectDetails.fileTree;
 			framework = projectDetails.framework;
 			projectName = projectDetails.project?.name;
@@ -265,112 +333,170 @@ export const POST: RequestHandler = async ({ request, locals }) => {
 
 		// Build agent context
 		const agentContext: AgentContext = {
-			sandboxId,
-			sandboxType: sandboxType || 'daytona',
+			sandboxId: sandbox.sandboxId,
+			sandboxType: sandbox.sandboxType,
 			projectId,
 			currentFile,
 			fileTree,
 			projectName,
 			framework,
-			initialPrompt
+			initialPrompt,
+			semanticSearch: 'semantic_search' in aiSdkTools
 		};
 
 		// Build the system prompt
 		const systemPrompt = buildCodingAgentPrompt(agentContext);
 
-		// Resolve model
-		const model = resolveModel(modelName);
-
 		// Convert UIMessages to ModelMessages for streamText
 		const modelMessages = await convertToModelMessages(uiMessages);
 
+		// Checkpoint files before the agent modifies them so the run can be reverted.
+		// The assistant message id is fixed up front to key the checkpoint.
+		const assistantMessageId = crypto.randomUUID();
+		const checkpointRecorder = new CheckpointRecorder({
+			messageId: assistantMessageId,
+			threadId: actualThreadId,
+			userId,
+			projectId,
+			sandbox
+		});
+
+		// Price every step into the usage ledger and stop once a budget is spent
+		const usageRecorder = new UsageRecorder(
+			{
+				userId,
+				projectId,
+				threadId: actualThreadId,
+				messageId: assistantMessageId,
+				model: modelName || 'gpt-4o'
+			},
+			remainingBudget(budgetStatuses)
+		);
+
 		// Track step information for metadata
 		let totalSteps = 0;
 		let allToolCalls: any[] = [];
 		let allToolResults: any[] = [];
 
-		// Use streamText with enhanced agent loop
-		const result = streamText({
-			model,
-			system: systemPrompt,
-			messages: modelMessages,
-			tools: aiSdkTools,
-			maxSteps: MAX_AGENT_STEPS,
-			stopWhen: stepCountIs(MAX_AGENT_STEPS),
-			onStepFinish: async ({ stepType, toolCalls, toolResults }) => {
-				totalSteps++;
-
-				if (toolCalls && toolCalls.length > 0) {
-					allToolCalls.push(
-						...toolCalls.map((tc: any) => ({
-							id: tc.toolCallId,
-							name: tc.toolName,
-							arguments: tc.args
-						}))
-					);
-				}
+		const stream = createUIMessageStream({
+			execute: ({ writer }) => {
+				// Gate tools on the project's approval policy. Pending approvals are streamed
+				// as data parts and the tool call waits until the user decides.
+				const tools = withApprovalGate(withCheckpoints(aiSdkTools, checkpointRecorder), {
+					policy: agentPolicyForRole(resolveApprovalPolicy(approvalPolicySettings), access.role),
+					threadId: actualThreadId,
+					userId,
+					projectId,
+					sandbox,
+					onUpdate: (approval) => {
+						writer.write({ type: 'data-approval', id: approval.id, data: approval });
+					}
+				});
 
-				if (toolResults && toolResults.length > 0) {
-					allToolResults.push(
-						...toolResults.map((tr: any) => ({
-							toolCallId: tr.toolCallId,
-							toolName: tr.toolName,
-							result: typeof tr.result === 'string' ? tr.result.substring(0, 500) : tr.result
-						}))
-					);
-				}
+				// Use streamText with enhanced agent loop
+				const result = streamText({
+					model,
+					system: systemPrompt,
+					messages: modelMessages,
+					tools,
+					maxSteps: MAX_AGENT_STEPS,
+					stopWhen: [stepCountIs(MAX_AGENT_STEPS), () => usageRecorder.budgetExceeded],
+					onStepFinish: async ({ stepType, toolCalls, toolResults, usage }) => {
+						totalSteps++;
+						await usageRecorder.recordStep(usage);
+
+						if (toolCalls && toolCalls.length > 0) {
+							allToolCalls.push(
+								...toolCalls.map((tc: any) => ({
+									id: tc.toolCallId,
+									name: tc.toolName,
+									arguments: tc.input
+								}))
+							);
+						}
 
-				logger.info('[CodingAgent] Step finished:', {
-					step: totalSteps,
-					stepType,
-					toolCallCount: toolCalls?.length || 0,
-					hasResults: !!toolResults
-				});
-			},
-			onFinish: async ({ text, usage }) => {
-				// Save assistant response to database
-				if (text) {
-					const assistantMessageDoc = createMessageDoc(
-						actualThreadId,
-						userId,
-						text,
-						'assistant',
-						{
-							projectId,
-							metadata: {
-								model: modelName || 'gpt-4o',
-								hasToolCalls: allToolCalls.length > 0,
-								toolCallCount: allToolCalls.length,
-								totalSteps,
-								toolCalls: allToolCalls.slice(0, 20), // Limit stored tool calls
-								toolResults: allToolResults.slice(0, 20),
-								usage: usage
-									? {
-											promptTokens: usage.promptTokens,
-											completionTokens: usage.completionTokens,
+						if (toolResults && toolResults.length > 0) {
+							allToolResults.push(
+								...toolResults.map((tr: any) => {
+									const outcome = parseToolOutcome(tr.output);
+									return {
+										tool_call_id: tr.toolCallId,
+										tool_name: tr.toolName,
+										content:
+											typeof tr.output === 'string' ? tr.output.substring(0, 500) : tr.output,
+										success: outcome.success,
+										message: outcome.message
+									};
+								})
+							);
+						}
+
+						logger.info('[CodingAgent] Step finished:', {
+							step: totalSteps,
+							stepType,
+							toolCallCount: toolCalls?.length || 0,
+							hasResults: !!toolResults
+						});
+					},
+					onFinish: async ({ text }) => {
+						const usage = usageRecorder.summary;
+						const stoppedByBudget = usageRecorder.budgetExceeded;
+
+						// Save assistant response to database (tool-only runs too, so they can be reverted)
+						if (text || allToolCalls.length > 0) {
+							const assistantMessageDoc = createMessageDoc(
+								actualThreadId,
+								userId,
+								text,
+								'assistant',
+								{
+									id: assistantMessageId,
+									projectId,
+									metadata: {
+										model: modelName || 'gpt-4o',
+										hasToolCalls: allToolCalls.length > 0,
+										toolCallCount: allToolCalls.length,
+										totalSteps,
+										toolCalls: allToolCalls.slice(0, 20), // Limit stored tool calls
+										toolResults: allToolResults.slice(0, 20),
+										checkpoint:
+											checkpointRecorder.fileCount > 0
+												? { fileCount: checkpointRecorder.fileCount }
+												: undefined,
+										tokens: usage.totalTokens,
+										cost: usage.cost,
+										budgetExceeded: stoppedByBudget || undefined,
+										usage: {
+											promptTokens: usage.inputTokens,
+											completionTokens: usage.outputTokens,
 											totalTokens: usage.totalTokens
 										}
-									: undefined
-							}
+									}
+								}
+							);
+							await DatabaseService.createChatMessage(assistantMessageDoc);
 						}
-					);
-					await DatabaseService.createChatMessage(assistantMessageDoc);
-				}
 
-				logger.info('[CodingAgent] Stream completed', {
-					threadId: actualThreadId,
-					textLength: text?.length || 0,
-					totalSteps,
-					toolCallCount: allToolCalls.length,
-					usage
+						logger.info('[CodingAgent] Stream completed', {
+							threadId: actualThreadId,
+							textLength: text?.length || 0,
+							totalSteps,
+							toolCallCount: allToolCalls.length,
+							usage
+						});
+					}
 				});
+
+				writer.merge(result.toUIMessageStream());
 			}
 		});
 
 		// Return UI Message Stream response
-		return result.toUIMessageStreamResponse({
+		return createUIMessageStreamResponse({
+			stream,
 			headers: {
-				'X-Thread-Id': actualThreadId
+				'X-Thread-Id': actualThreadId,
+				'X-Assistant-Message-Id': assistantMessageId
 			}
 		});
 	} catch (error: any) {
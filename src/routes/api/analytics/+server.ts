@@ -0,0 +1,59 @@
+import { authorizeProject } from '$lib/services/access';
+import { getAnalytics } from '$lib/services/analytics.service';
+import { toDate } from '$lib/services/usage-ledger.service';
+import type { Project } from '$lib/types';
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_RANGE_DAYS = 30;
+const MAX_RANGE_DAYS = 366;
+
+// GET /api/analytics?projectId=&from=YYYY-MM-DD&to=YYYY-MM-DD - Activity, tool, sandbox and usage metrics
+export const GET: RequestHandler = async ({ url, locals }) => {
+	try {
+		if (!locals.user) {
+			return json({ error: 'Unauthorized' }, { status: 401 });
+		}
+
+		const projectId = url.searchParams.get('projectId') || undefined;
+		const to = url.searchParams.get('to') || toDate(new Date());
+		const from =
+			url.searchParams.get('from') ||
+			toDate(new Date(Date.now() - (DEFAULT_RANGE_DAYS - 1) * DAY_MS));
+
+		if (!DATE_PATTERN.test(from) || !DATE_PATTERN.test(to)) {
+			return json({ error: 'from and to must be YYYY-MM-DD dates' }, { status: 400 });
+		}
+
+		const days = (Date.parse(to) - Date.parse(from)) / DAY_MS + 1;
+		if (!(days >= 1)) {
+			return json({ error: 'from must not be after to' }, { status: 400 });
+		}
+		if (days > MAX_RANGE_DAYS) {
+			return json({ error: `Date range cannot exceed ${MAX_RANGE_DAYS} days` }, { status: 400 });
+		}
+
+		// Project owners see every user's activity in the project, others only their own
+		let project: Project | undefined;
+		if (projectId) {
+			const access = await authorizeProject(projectId, locals.user.id, 'view');
+			if ('error' in access) {
+				return json({ error: access.error }, { status: access.status });
+			}
+			project = access.project;
+		}
+
+		const report = await getAnalytics(
+			locals.user.id,
+			{ from, to, projectId },
+			{ project, allUsers: project?.ownerId === locals.user.id }
+		);
+
+		return json(report);
+	} catch (error) {
+		console.error('Failed to fetch analytics:', error);
+		return json({ error: 'Failed to fetch analytics' }, { status: 500 });
+	}
+};
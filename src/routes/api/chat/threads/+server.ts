@@ -1,11 +1,22 @@
 import { json } from '@sveltejs/kit';
+import { authorizeProject } from '$lib/services/access';
 import { DatabaseService } from '$lib/services/database.service';
 import type { RequestHandler } from './$types';
 
 export const GET: RequestHandler = async ({ url, locals }) => {
 	try {
+		if (!locals.user) {
+			return json({ error: 'Unauthorized' }, { status: 401 });
+		}
+
 		const projectId = url.searchParams.get('projectId');
-		const userId = locals?.user?.id || 'default';
+		const userId = locals.user.id;
+		if (projectId) {
+			const access = await authorizeProject(projectId, userId, 'view');
+			if ('error' in access) {
+				return json({ error: access.error, threads: [] }, { status: access.status });
+			}
+		}
 
 		const threads = await DatabaseService.searchChatThreads({
 			userId,
@@ -25,8 +36,18 @@ export const GET: RequestHandler = async ({ url, locals }) => {
 
 export const POST: RequestHandler = async ({ request, locals }) => {
 	try {
-		const userId = locals?.user?.id || 'default';
+		if (!locals.user) {
+			return json({ error: 'Unauthorized' }, { status: 401 });
+		}
+
+		const userId = locals.user.id;
 		const { title, projectId, settings } = await request.json();
+		if (projectId) {
+			const access = await authorizeProject(projectId, userId, 'view');
+			if ('error' in access) {
+				return json({ error: access.error }, { status: access.status });
+			}
+		}
 
 		const newThread = {
 			id: crypto.randomUUID(),
@@ -1,9 +1,14 @@
 import { json } from '@sveltejs/kit';
+import { canAccessThread } from '$lib/services/access';
 import { DatabaseService } from '$lib/services/database.service';
 import type { RequestHandler } from './$types';
 
-export const GET: RequestHandler = async ({ params }) => {
+export const GET: RequestHandler = async ({ params, locals }) => {
 	try {
+		if (!locals.user) {
+			return json({ error: 'Unauthorized' }, { status: 401 });
+		}
+
 		const { threadId } = params;
 
 		const thread = await DatabaseService.findChatThreadById(threadId);
@@ -11,6 +16,9 @@ export const GET: RequestHandler = async ({ params }) => {
 		if (!thread) {
 			return json({ error: 'Thread not found' }, { status: 404 });
 		}
+		if (!(await canAccessThread(thread, locals.user.id, 'view'))) {
+			return json({ error: 'Access denied' }, { status: 403 });
+		}
 
 		return json({ thread });
 	} catch (error) {
@@ -19,10 +27,26 @@ export const GET: RequestHandler = async ({ params }) => {
 	}
 };
 
-export const PATCH: RequestHandler = async ({ params, request }) => {
+export const PATCH: RequestHandler = async ({ params, request, locals }) => {
 	try {
+		if (!locals.user) {
+			return json({ error: 'Unauthorized' }, { status: 401 });
+		}
+
 		const { threadId } = params;
+		const thread = await DatabaseService.findChatThreadById(threadId);
+		if (!thread) {
+			return json({ error: 'Thread not found' }, { status: 404 });
+		}
+		if (!(await canAccessThread(thread, locals.user.id, 'manage'))) {
+			return json({ error: 'Access denied' }, { status: 403 });
+		}
+
+		// The owner, project and participants are not editable here
 		const updates = await request.json();
+		delete updates.userId;
+		delete updates.projectId;
+		delete updates.participants;
 
 		const updatedThread = await DatabaseService.updateChatThread(threadId, updates);
 
@@ -37,9 +61,20 @@ export const PATCH: RequestHandler = async ({ params, request }) => {
 	}
 };
 
-export const DELETE: RequestHandler = async ({ params }) => {
+export const DELETE: RequestHandler = async ({ params, locals }) => {
 	try {
+		if (!locals.user) {
+			return json({ error: 'Unauthorized' }, { status: 401 });
+		}
+
 		const { threadId } = params;
+		const thread = await DatabaseService.findChatThreadById(threadId);
+		if (!thread) {
+			return json({ error: 'Thread not found' }, { status: 404 });
+		}
+		if (!(await canAccessThread(thread, locals.user.id, 'delete'))) {
+			return json({ error: 'Access denied' }, { status: 403 });
+		}
 
 		const deleted = await DatabaseService.deleteChatThread(threadId);
 
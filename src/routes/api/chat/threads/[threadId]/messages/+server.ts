@@ -1,10 +1,22 @@
+import { canAccessThread } from '$lib/services/access';
 import { DatabaseService } from '$lib/services/database.service';
 import { json } from '@sveltejs/kit';
 import type { RequestHandler } from './$types';
 
-export const GET: RequestHandler = async ({ params }) => {
+export const GET: RequestHandler = async ({ params, locals }) => {
 	try {
+		if (!locals.user) {
+			return json({ error: 'Unauthorized' }, { status: 401 });
+		}
+
 		const { threadId } = params;
+		const thread = await DatabaseService.findChatThreadById(threadId);
+		if (!thread) {
+			return json({ error: 'Thread not found' }, { status: 404 });
+		}
+		if (!(await canAccessThread(thread, locals.user.id, 'view'))) {
+			return json({ error: 'Access denied' }, { status: 403 });
+		}
 
 		const messages = await DatabaseService.findChatMessagesByThreadId(threadId, 100);
 
@@ -17,14 +29,26 @@ export const GET: RequestHandler = async ({ params }) => {
 
 export const POST: RequestHandler = async ({ params, request, locals }) => {
 	try {
+		if (!locals.user) {
+			return json({ error: 'Unauthorized' }, { status: 401 });
+		}
+
 		const { threadId } = params;
-		const userId = locals?.user?.id || 'default';
-		const { content, role, projectId, metadata } = await request.json();
+		const userId = locals.user.id;
+		const thread = await DatabaseService.findChatThreadById(threadId);
+		if (!thread) {
+			return json({ error: 'Thread not found' }, { status: 404 });
+		}
+		if (!(await canAccessThread(thread, userId, 'write'))) {
+			return json({ error: 'Access denied' }, { status: 403 });
+		}
+
+		const { content, role, metadata } = await request.json();
 
 		const newMessage = {
 			id: crypto.randomUUID(),
 			threadId,
-			projectId: projectId || null,
+			projectId: thread.projectId,
 			userId,
 			content: String(content),
 			contentMarkdown: String(content),
@@ -0,0 +1,70 @@
+import { authorizeProject } from '$lib/services/access';
+import { inlineCompletionService } from '$lib/services/completion';
+import { getBudgetStatuses } from '$lib/services/usage-ledger.service';
+import { json } from '@sveltejs/kit';
+import { z } from 'zod';
+import type { RequestHandler } from './$types';
+
+const MAX_TEXT_CHARS = 100_000;
+
+const completionSchema = z.object({
+	projectId: z.string().min(1).optional(),
+	path: z.string().min(1).max(1024),
+	language: z.string().max(64).optional(),
+	prefix: z.string().max(MAX_TEXT_CHARS),
+	suffix: z.string().max(MAX_TEXT_CHARS),
+	relatedFiles: z
+		.array(z.object({ path: z.string().min(1), content: z.string().max(MAX_TEXT_CHARS) }))
+		.max(10)
+		.optional(),
+	model: z.string().max(200).optional()
+});
+
+// POST /api/completions - Ghost text for the cursor { path, prefix, suffix, relatedFiles?, projectId?, model? }
+export const POST: RequestHandler = async ({ request, locals }) => {
+	try {
+		if (!locals.user) {
+			return json({ error: 'Unauthorized' }, { status: 401 });
+		}
+
+		const parsed = completionSchema.safeParse(await request.json());
+		if (!parsed.success) {
+			return json(
+				{ error: 'Invalid completion request', details: parsed.error.flatten() },
+				{ status: 400 }
+			);
+		}
+
+		const { projectId } = parsed.data;
+		if (projectId) {
+			const access = await authorizeProject(projectId, locals.user.id, 'edit');
+			if ('error' in access) {
+				return json({ error: access.error }, { status: access.status });
+			}
+		}
+
+		// Completions are billed like agent runs, so they stop with the budget
+		const budgetStatuses = await getBudgetStatuses(locals.user.id, projectId);
+		const exceededBudget = budgetStatuses.find((status) => status.exceeded);
+		if (exceededBudget) {
+			return json(
+				{ error: `Monthly ${exceededBudget.budget.scope} budget reached`, budget: exceededBudget },
+				{ status: 402 }
+			);
+		}
+
+		const completion = await inlineCompletionService.complete(
+			parsed.data,
+			locals.user.id,
+			request.signal
+		);
+		return json(completion);
+	} catch (error) {
+		// The editor cancels requests once the user types on
+		if (request.signal.aborted) {
+			return new Response(null, { status: 204 });
+		}
+		console.error('Failed to complete code:', error);
+		return json({ error: 'Failed to complete code' }, { status: 500 });
+	}
+};
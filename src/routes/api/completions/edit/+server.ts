@@ -0,0 +1,59 @@
+import { authorizeProject } from '$lib/services/access';
+import { inlineEditService } from '$lib/services/completion';
+import { getBudgetStatuses } from '$lib/services/usage-ledger.service';
+import { json } from '@sveltejs/kit';
+import { z } from 'zod';
+import type { RequestHandler } from './$types';
+
+const MAX_TEXT_CHARS = 100_000;
+
+const editSchema = z.object({
+	projectId: z.string().min(1).optional(),
+	path: z.string().min(1).max(1024),
+	language: z.string().max(64).optional(),
+	instruction: z.string().trim().min(1).max(2000),
+	prefix: z.string().max(MAX_TEXT_CHARS),
+	selection: z.string().max(MAX_TEXT_CHARS),
+	suffix: z.string().max(MAX_TEXT_CHARS),
+	model: z.string().max(200).optional()
+});
+
+// POST /api/completions/edit - Stream a rewrite of the selected lines { path, instruction, prefix, selection, suffix, projectId?, model? }
+export const POST: RequestHandler = async ({ request, locals }) => {
+	try {
+		if (!locals.user) {
+			return json({ error: 'Unauthorized' }, { status: 401 });
+		}
+
+		const parsed = editSchema.safeParse(await request.json());
+		if (!parsed.success) {
+			return json(
+				{ error: 'Invalid edit request', details: parsed.error.flatten() },
+				{ status: 400 }
+			);
+		}
+
+		const { projectId } = parsed.data;
+		if (projectId) {
+			const access = await authorizeProject(projectId, locals.user.id, 'edit');
+			if ('error' in access) {
+				return json({ error: access.error }, { status: access.status });
+			}
+		}
+
+		const budgetStatuses = await getBudgetStatuses(locals.user.id, projectId);
+		const exceededBudget = budgetStatuses.find((status) => status.exceeded);
+		if (exceededBudget) {
+			return json(
+				{ error: `Monthly ${exceededBudget.budget.scope} budget reached`, budget: exceededBudget },
+				{ status: 402 }
+			);
+		}
+
+		const result = inlineEditService.stream(parsed.data, locals.user.id, request.signal);
+		return result.toTextStreamResponse();
+	} catch (error) {
+		console.error('Failed to edit selection:', error);
+		return json({ error: 'Failed to edit selection' }, { status: 500 });
+	}
+};
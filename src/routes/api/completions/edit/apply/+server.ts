@@ -0,0 +1,72 @@
+import { authorizeProject } from '$lib/services/access';
+import { inlineEditService } from '$lib/services/completion';
+import { fileChangeBroadcaster } from '$lib/services/file-change-broadcaster';
+import { contentHash } from '$lib/services/file-conflicts/content-hash';
+import { json } from '@sveltejs/kit';
+import { z } from 'zod';
+import type { RequestHandler } from './$types';
+
+const MAX_FILE_CHARS = 2_000_000;
+
+const applySchema = z.object({
+	projectId: z.string().min(1),
+	path: z.string().min(1).max(1024),
+	baseContent: z.string().max(MAX_FILE_CHARS),
+	content: z.string().max(MAX_FILE_CHARS)
+});
+
+// POST /api/completions/edit/apply - Write accepted inline edits, merged with changes on disk { projectId, path, baseContent, content }
+export const POST: RequestHandler = async ({ request, locals }) => {
+	try {
+		if (!locals.user) {
+			return json({ error: 'Unauthorized' }, { status: 401 });
+		}
+
+		const parsed = applySchema.safeParse(await request.json());
+		if (!parsed.success) {
+			return json(
+				{ error: 'Invalid apply request', details: parsed.error.flatten() },
+				{ status: 400 }
+			);
+		}
+
+		const { projectId, path } = parsed.data;
+		const access = await authorizeProject(projectId, locals.user.id, 'edit');
+		if ('error' in access) {
+			return json({ error: access.error }, { status: access.status });
+		}
+		const { sandboxId } = access.project;
+		if (!sandboxId) {
+			return json({ error: 'Project has no sandbox' }, { status: 409 });
+		}
+
+		const result = await inlineEditService.apply(sandboxId, parsed.data);
+		if (!result.success) {
+			if (result.conflicts?.length) {
+				return json(
+					{ error: 'The file changed on disk in the same places', conflicts: result.conflicts },
+					{ status: 409 }
+				);
+			}
+			return json({ error: result.error || 'Failed to apply edit' }, { status: 500 });
+		}
+
+		const content = result.mergedContent ?? parsed.data.content;
+		const hash = contentHash(content);
+		fileChangeBroadcaster.broadcast({
+			type: 'modified',
+			path,
+			content,
+			hash,
+			timestamp: Date.now(),
+			projectId,
+			sandboxId,
+			userId: locals.user.id
+		});
+
+		return json({ content, hash });
+	} catch (error) {
+		console.error('Failed to apply inline edit:', error);
+		return json({ error: 'Failed to apply inline edit' }, { status: 500 });
+	}
+};
@@ -1,3 +1,4 @@
+import { authorizeLoadedProject } from '$lib/services/access';
 import { DatabaseService } from '$lib/services/database.service.js';
 import { json, type RequestHandler } from '@sveltejs/kit';
 
@@ -19,9 +20,9 @@ export const POST: RequestHandler = async ({ params, locals }) => {
 			return json({ error: 'Sandbox not found' }, { status: 404 });
 		}
 
-		// Check if the project belongs to the user
-		if (project.ownerId !== locals.user.id) {
-			return json({ error: 'Access denied' }, { status: 403 });
+		const access = await authorizeLoadedProject(project, locals.user.id, 'execute');
+		if ('error' in access) {
+			return json({ error: access.error }, { status: access.status });
 		}
 
 		// For Daytona projects, assume the sandbox is running since it's managed by the SDK
@@ -1,5 +1,7 @@
 import { auth } from '$lib/auth';
+import { authorizeProject, authorizeSandbox } from '$lib/services/access';
 import { fileChangeBroadcaster } from '$lib/services/file-change-broadcaster';
+import { contentHash } from '$lib/services/file-conflicts/content-hash';
 import { listFiles as listFilesService } from '$lib/services/files-list.service';
 import { filesService } from '$lib/services/files.service';
 import { SandboxManager } from '$lib/services/sandbox/sandbox-manager';
@@ -12,6 +14,8 @@ export interface FileOperationRequest {
 	sandboxId?: string;
 	path: string;
 	content?: string;
+	/** Hash of the version the editor changed; updates are refused when the file moved on */
+	baseHash?: string;
 	newPath?: string;
 	metadata?: Record<string, any>;
 }
@@ -52,7 +56,7 @@ export const POST: RequestHandler = async ({ request, locals }) => {
 			sandboxId: body.sandboxId
 		});
 
-		const { operation, projectId, sandboxId, path, content, newPath, metadata } = body;
+		const { operation, projectId, sandboxId, path, content, baseHash, newPath, metadata } = body;
 
 		// Validate required fields
 		if (!operation) {
@@ -79,6 +83,24 @@ export const POST: RequestHandler = async ({ request, locals }) => {
 			);
 		}
 
+		// Check the user's role in the project that owns the files
+		const action = operation === 'read' || operation === 'list' ? 'view' : 'edit';
+		const access = sandboxId
+			? await authorizeSandbox(sandboxId, session.user.id, action)
+			: projectId
+				? await authorizeProject(projectId, session.user.id, action)
+				: null;
+		if (!access || 'error' in access) {
+			return json(
+				{
+					success: false,
+					message: access ? access.error : 'A project or sandbox ID is required',
+					error: access ? (access.status === 404 ? 'NOT_FOUND' : 'FORBIDDEN') : 'INVALID_REQUEST'
+				},
+				{ status: access ? access.status : 400 }
+			);
+		}
+
 		// Set default path for list operation
 		const resolvedPath = operation === 'list' ? path || '/workspace' : path;
 
@@ -106,6 +128,7 @@ export const POST: RequestHandler = async ({ request, locals }) => {
 
 			case 'read':
 				result = await readFile({ sandboxId, path });
+				result = { ...result, hash: contentHash(fileText(result.content)) };
 				break;
 
 			case 'update':
@@ -119,7 +142,23 @@ export const POST: RequestHandler = async ({ request, locals }) => {
 						{ status: 400 }
 					);
 				}
+				// Refuse to overwrite changes made on disk since the editor loaded the file
+				if (baseHash && sandboxId) {
+					const onDisk = await readVersion({ sandboxId, path });
+					if (onDisk && onDisk.hash !== baseHash) {
+						return json(
+							{
+								success: false,
+								message: 'The file changed on disk since it was opened',
+								error: 'CONFLICT',
+								data: onDisk
+							},
+							{ status: 409 }
+						);
+					}
+				}
 				result = await updateFile({ sandboxId, path, content, metadata });
+				result.hash = contentHash(content);
 				// Broadcast file modification event
 				if (result) {
 					fileChangeBroadcaster.broadcast({
@@ -308,6 +347,25 @@ async function readFile({
 	throw new Error(`File not found: ${path}`);
 }
 
+/**
+ * The content and hash of a file as it is in the sandbox, or null when it cannot be read
+ */
+async function readVersion({
+	sandboxId,
+	path
+}: {
+	sandboxId: string;
+	path: string;
+}): Promise<{ content: string; hash: string } | null> {
+	try {
+		const file = await readFile({ sandboxId, path });
+		const content = fileText(file.content);
+		return { content, hash: contentHash(content) };
+	} catch {
+		return null;
+	}
+}
+
 async function updateFile({
 	sandboxId,
 	path,
@@ -433,6 +491,11 @@ async function moveFile({
 	return await renameFile({ sandboxId, path, newPath });
 }
 
+function fileText(content: string | Buffer | undefined): string {
+	if (content === undefined) return '';
+	return typeof content === 'string' ? content : content.toString('utf-8');
+}
+
 function getFileNameFromPath(path: string): string {
 	return path.split('/').pop() || path;
 }
@@ -4,6 +4,7 @@
  */
 
 import { auth } from '$lib/auth';
+import { authorizeProject, authorizeSandbox } from '$lib/services/access';
 import { fileChangeBroadcaster } from '$lib/services/file-change-broadcaster';
 import type { RequestHandler } from './$types';
 
@@ -21,6 +22,19 @@ export const GET: RequestHandler = async ({ request, url }) => {
 		const sandboxId = url.searchParams.get('sandboxId') || undefined;
 		const clientId = crypto.randomUUID();
 
+		// Only stream changes of projects shared with the user
+		const access = sandboxId
+			? await authorizeSandbox(sandboxId, session.user.id, 'view')
+			: projectId
+				? await authorizeProject(projectId, session.user.id, 'view')
+				: null;
+		if (!access) {
+			return new Response('A project or sandbox ID is required', { status: 400 });
+		}
+		if ('error' in access) {
+			return new Response(access.error, { status: access.status });
+		}
+
 		console.log(`📡 File watch SSE connection established`, {
 			clientId,
 			userId: session.user.id,
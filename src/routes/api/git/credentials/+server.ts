@@ -0,0 +1,74 @@
+import { DatabaseService } from '$lib/services/database.service';
+import { json } from '@sveltejs/kit';
+import { Octokit } from '@octokit/rest';
+import type { RequestHandler } from './$types';
+
+// GET /api/git/credentials - Whether a GitHub token is stored (the token itself is never returned)
+export const GET: RequestHandler = async ({ locals }) => {
+	try {
+		if (!locals.user) {
+			return json({ error: 'Unauthorized' }, { status: 401 });
+		}
+
+		const credential = await DatabaseService.findGitCredential(locals.user.id, 'github');
+		return json({
+			github: credential
+				? { connected: true, username: credential.username, updatedAt: credential.updatedAt }
+				: { connected: false }
+		});
+	} catch (error) {
+		console.error('Failed to fetch git credentials:', error);
+		return json({ error: 'Failed to fetch git credentials' }, { status: 500 });
+	}
+};
+
+// PUT /api/git/credentials - Store a GitHub personal access token { token }
+export const PUT: RequestHandler = async ({ request, locals }) => {
+	try {
+		if (!locals.user) {
+			return json({ error: 'Unauthorized' }, { status: 401 });
+		}
+
+		const { token } = await request.json();
+		if (typeof token !== 'string' || !token.trim()) {
+			return json({ error: 'token is required' }, { status: 400 });
+		}
+
+		// Check the token before storing it and remember whose it is
+		let username: string;
+		try {
+			const octokit = new Octokit({ auth: token.trim(), userAgent: 'Aura-IDE/1.0.0' });
+			const { data } = await octokit.rest.users.getAuthenticated();
+			username = data.login;
+		} catch {
+			return json({ error: 'GitHub rejected the token' }, { status: 400 });
+		}
+
+		await DatabaseService.upsertGitCredential({
+			userId: locals.user.id,
+			provider: 'github',
+			token: token.trim(),
+			username
+		});
+
+		return json({ github: { connected: true, username } });
+	} catch (error) {
+		console.error('Failed to store git credentials:', error);
+		return json({ error: 'Failed to store git credentials' }, { status: 500 });
+	}
+};
+
+// DELETE /api/git/credentials - Forget the stored GitHub token
+export const DELETE: RequestHandler = async ({ locals }) => {
+	try {
+		if (!locals.user) {
+			return json({ error: 'Unauthorized' }, { status: 401 });
+		}
+
+		const deleted = await DatabaseService.deleteGitCredential(locals.user.id, 'github');
+		return json({ success: deleted });
+	} catch (error) {
+		console.error('Failed to delete git credentials:', error);
+		return json({ error: 'Failed to delete git credentials' }, { status: 500 });
+	}
+};
@@ -168,8 +168,8 @@ async function checkTemplateServiceHealth(): Promise<ServiceHealth> {
 	const startTime = Date.now();
 
 	try {
-		// Test template service availability
-		// This would include StackBlitz API health check
+		const { templateCacheService } = await import('$lib/services/template-cache.service');
+		const cache = await templateCacheService.getStats();
 
 		return {
 			status: 'healthy',
@@ -177,7 +177,8 @@ async function checkTemplateServiceHealth(): Promise<ServiceHealth> {
 			last_check: new Date().toISOString(),
 			details: {
 				template_source: 'stackblitz',
-				cache_status: 'healthy'
+				cache_status: cache.enabled ? 'healthy' : 'disabled',
+				cache
 			}
 		};
 	} catch (error) {
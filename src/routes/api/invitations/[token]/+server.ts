@@ -0,0 +1,41 @@
+import { membershipService } from '$lib/services/access';
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+
+// GET /api/invitations/[token] - What an invitation link grants
+export const GET: RequestHandler = async ({ params, locals }) => {
+	try {
+		if (!locals.user) {
+			return json({ error: 'Unauthorized' }, { status: 401 });
+		}
+
+		const invitation = await membershipService.preview(params.token);
+		if (!invitation) {
+			return json({ error: 'This invitation is invalid or has expired' }, { status: 404 });
+		}
+
+		return json({ invitation });
+	} catch (error) {
+		console.error('Failed to fetch invitation:', error);
+		return json({ error: 'Failed to fetch invitation' }, { status: 500 });
+	}
+};
+
+// POST /api/invitations/[token] - Accept an invitation and join the project or organization
+export const POST: RequestHandler = async ({ params, locals }) => {
+	try {
+		if (!locals.user) {
+			return json({ error: 'Unauthorized' }, { status: 401 });
+		}
+
+		const result = await membershipService.accept(params.token, locals.user.id);
+		if ('error' in result) {
+			return json({ error: result.error }, { status: result.status });
+		}
+
+		return json(result);
+	} catch (error) {
+		console.error('Failed to accept invitation:', error);
+		return json({ error: 'Failed to accept invitation' }, { status: 500 });
+	}
+};
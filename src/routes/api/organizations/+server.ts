@@ -0,0 +1,48 @@
+import { membershipService, organizationRole, organizationSchema } from '$lib/services/access';
+import { DatabaseService } from '$lib/services/database.service';
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+
+// GET /api/organizations - Organizations the user belongs to, with their role in each
+export const GET: RequestHandler = async ({ locals }) => {
+	try {
+		if (!locals.user) {
+			return json({ error: 'Unauthorized' }, { status: 401 });
+		}
+
+		const userId = locals.user.id;
+		const organizations = await DatabaseService.findOrganizationsByUserId(userId);
+		return json({
+			organizations: organizations.map((organization) => ({
+				...organization,
+				role: organizationRole(organization, userId)
+			}))
+		});
+	} catch (error) {
+		console.error('Failed to list organizations:', error);
+		return json({ error: 'Failed to list organizations' }, { status: 500 });
+	}
+};
+
+// POST /api/organizations - Create an organization owned by the user { name, defaultProjectRole? }
+export const POST: RequestHandler = async ({ request, locals }) => {
+	try {
+		if (!locals.user) {
+			return json({ error: 'Unauthorized' }, { status: 401 });
+		}
+
+		const parsed = organizationSchema.safeParse(await request.json());
+		if (!parsed.success) {
+			return json(
+				{ error: 'Invalid organization', details: parsed.error.flatten() },
+				{ status: 400 }
+			);
+		}
+
+		const organization = await membershipService.createOrganization(parsed.data, locals.user.id);
+		return json({ organization: { ...organization, role: 'owner' } }, { status: 201 });
+	} catch (error) {
+		console.error('Failed to create organization:', error);
+		return json({ error: 'Failed to create organization' }, { status: 500 });
+	}
+};
@@ -0,0 +1,78 @@
+import { authorizeOrganization, membershipService, organizationSchema } from '$lib/services/access';
+import { DatabaseService } from '$lib/services/database.service';
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+
+// GET /api/organizations/[id] - Organization details and its members
+export const GET: RequestHandler = async ({ params, locals }) => {
+	try {
+		if (!locals.user) {
+			return json({ error: 'Unauthorized' }, { status: 401 });
+		}
+
+		const access = await authorizeOrganization(params.id, locals.user.id);
+		if ('error' in access) {
+			return json({ error: access.error }, { status: access.status });
+		}
+
+		const { organization, role } = access;
+		return json({
+			organization: { ...organization, role },
+			members: await membershipService.listOrganizationMembers(organization)
+		});
+	} catch (error) {
+		console.error('Failed to fetch organization:', error);
+		return json({ error: 'Failed to fetch organization' }, { status: 500 });
+	}
+};
+
+// PATCH /api/organizations/[id] - Rename or change the default project role { name?, defaultProjectRole? }
+export const PATCH: RequestHandler = async ({ params, request, locals }) => {
+	try {
+		if (!locals.user) {
+			return json({ error: 'Unauthorized' }, { status: 401 });
+		}
+
+		const parsed = organizationSchema.partial().safeParse(await request.json());
+		if (!parsed.success) {
+			return json(
+				{ error: 'Invalid organization', details: parsed.error.flatten() },
+				{ status: 400 }
+			);
+		}
+
+		const access = await authorizeOrganization(params.id, locals.user.id, true);
+		if ('error' in access) {
+			return json({ error: access.error }, { status: access.status });
+		}
+
+		const organization = await DatabaseService.updateOrganization(params.id, parsed.data);
+		return json({ organization: organization && { ...organization, role: access.role } });
+	} catch (error) {
+		console.error('Failed to update organization:', error);
+		return json({ error: 'Failed to update organization' }, { status: 500 });
+	}
+};
+
+// DELETE /api/organizations/[id] - Delete the organization; its projects stay with their owners
+export const DELETE: RequestHandler = async ({ params, locals }) => {
+	try {
+		if (!locals.user) {
+			return json({ error: 'Unauthorized' }, { status: 401 });
+		}
+
+		const access = await authorizeOrganization(params.id, locals.user.id);
+		if ('error' in access) {
+			return json({ error: access.error }, { status: access.status });
+		}
+		if (access.role !== 'owner') {
+			return json({ error: 'Only the organization owner can delete it' }, { status: 403 });
+		}
+
+		await DatabaseService.deleteOrganization(params.id);
+		return json({ success: true });
+	} catch (error) {
+		console.error('Failed to delete organization:', error);
+		return json({ error: 'Failed to delete organization' }, { status: 500 });
+	}
+};
@@ -0,0 +1,64 @@
+import {
+	authorizeOrganization,
+	membershipService,
+	organizationInvitationSchema
+} from '$lib/services/access';
+import { DatabaseService } from '$lib/services/database.service';
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+
+// GET /api/organizations/[id]/invitations - Invitation links that can still be used
+export const GET: RequestHandler = async ({ params, locals }) => {
+	try {
+		if (!locals.user) {
+			return json({ error: 'Unauthorized' }, { status: 401 });
+		}
+
+		const access = await authorizeOrganization(params.id, locals.user.id, true);
+		if ('error' in access) {
+			return json({ error: access.error }, { status: access.status });
+		}
+
+		const invitations = await DatabaseService.findInvitationsByResource('organization', params.id);
+		return json({ invitations });
+	} catch (error) {
+		console.error('Failed to list organization invitations:', error);
+		return json({ error: 'Failed to list organization invitations' }, { status: 500 });
+	}
+};
+
+// POST /api/organizations/[id]/invitations - Create an invitation link { role, expiresInDays?, maxUses? }
+export const POST: RequestHandler = async ({ params, request, locals, url }) => {
+	try {
+		if (!locals.user) {
+			return json({ error: 'Unauthorized' }, { status: 401 });
+		}
+
+		const parsed = organizationInvitationSchema.safeParse(await request.json());
+		if (!parsed.success) {
+			return json(
+				{ error: 'Invalid invitation', details: parsed.error.flatten() },
+				{ status: 400 }
+			);
+		}
+
+		const access = await authorizeOrganization(params.id, locals.user.id, true);
+		if ('error' in access) {
+			return json({ error: access.error }, { status: access.status });
+		}
+		// Admins invite members; only the owner hands out admin rights
+		if (parsed.data.role === 'admin' && access.role !== 'owner') {
+			return json({ error: 'Only the organization owner can invite admins' }, { status: 403 });
+		}
+
+		const invitation = await membershipService.createInvitation(
+			params.id,
+			{ scope: 'organization', ...parsed.data },
+			locals.user.id
+		);
+		return json({ invitation, url: `${url.origin}/invite/${invitation.token}` }, { status: 201 });
+	} catch (error) {
+		console.error('Failed to create organization invitation:', error);
+		return json({ error: 'Failed to create organization invitation' }, { status: 500 });
+	}
+};
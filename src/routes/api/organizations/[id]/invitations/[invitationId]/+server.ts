@@ -0,0 +1,32 @@
+import { authorizeOrganization } from '$lib/services/access';
+import { DatabaseService } from '$lib/services/database.service';
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+
+// DELETE /api/organizations/[id]/invitations/[invitationId] - Revoke an invitation link
+export const DELETE: RequestHandler = async ({ params, locals }) => {
+	try {
+		if (!locals.user) {
+			return json({ error: 'Unauthorized' }, { status: 401 });
+		}
+
+		const access = await authorizeOrganization(params.id, locals.user.id, true);
+		if ('error' in access) {
+			return json({ error: access.error }, { status: access.status });
+		}
+
+		const revoked = await DatabaseService.revokeInvitation(
+			params.invitationId,
+			'organization',
+			params.id
+		);
+		if (!revoked) {
+			return json({ error: 'Invitation not found' }, { status: 404 });
+		}
+
+		return json({ success: true });
+	} catch (error) {
+		console.error('Failed to revoke organization invitation:', error);
+		return json({ error: 'Failed to revoke organization invitation' }, { status: 500 });
+	}
+};
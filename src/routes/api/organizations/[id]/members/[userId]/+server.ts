@@ -0,0 +1,75 @@
+import { authorizeOrganization, organizationMemberSchema } from '$lib/services/access';
+import { DatabaseService } from '$lib/services/database.service';
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+
+// PATCH /api/organizations/[id]/members/[userId] - Change a member's role { role }
+export const PATCH: RequestHandler = async ({ params, request, locals }) => {
+	try {
+		if (!locals.user) {
+			return json({ error: 'Unauthorized' }, { status: 401 });
+		}
+
+		const parsed = organizationMemberSchema.safeParse(await request.json());
+		if (!parsed.success) {
+			return json(
+				{ error: 'Invalid member role', details: parsed.error.flatten() },
+				{ status: 400 }
+			);
+		}
+
+		const access = await authorizeOrganization(params.id, locals.user.id, true);
+		if ('error' in access) {
+			return json({ error: access.error }, { status: access.status });
+		}
+
+		const { organization } = access;
+		if (params.userId === organization.ownerId) {
+			return json({ error: "The organization owner's role cannot be changed" }, { status: 400 });
+		}
+		const member = organization.members.find((entry) => entry.userId === params.userId);
+		if (!member) {
+			return json({ error: 'Member not found' }, { status: 404 });
+		}
+		if ((member.role === 'admin' || parsed.data.role === 'admin') && access.role !== 'owner') {
+			return json({ error: 'Only the organization owner can change admins' }, { status: 403 });
+		}
+
+		const updated = await DatabaseService.upsertOrganizationMember(organization.id, {
+			...member,
+			role: parsed.data.role
+		});
+		return json({ members: updated?.members ?? [] });
+	} catch (error) {
+		console.error('Failed to update organization member:', error);
+		return json({ error: 'Failed to update organization member' }, { status: 500 });
+	}
+};
+
+// DELETE /api/organizations/[id]/members/[userId] - Remove a member, or leave the organization
+export const DELETE: RequestHandler = async ({ params, locals }) => {
+	try {
+		if (!locals.user) {
+			return json({ error: 'Unauthorized' }, { status: 401 });
+		}
+
+		const leaving = params.userId === locals.user.id;
+		const access = await authorizeOrganization(params.id, locals.user.id, !leaving);
+		if ('error' in access) {
+			return json({ error: access.error }, { status: access.status });
+		}
+		if (params.userId === access.organization.ownerId) {
+			return json({ error: 'The organization owner cannot be removed' }, { status: 400 });
+		}
+
+		const removed = await DatabaseService.removeOrganizationMember(params.id, params.userId);
+		if (!removed) {
+			return json({ error: 'Member not found' }, { status: 404 });
+		}
+
+		return json({ success: true });
+	} catch (error) {
+		console.error('Failed to remove organization member:', error);
+		return json({ error: 'Failed to remove organization member' }, { status: 500 });
+	}
+};
@@ -1,5 +1,15 @@
+import { enabledSandboxProviders, providerConfig } from '$lib/config/sandbox.config.js';
 import { DatabaseService } from '$lib/services/database.service.js';
 import { projectInitializationService } from '$lib/services/project-initialization.service.js';
+import {
+	MAX_ARCHIVE_SIZE,
+	archiveFormat,
+	isValidBranch,
+	validateGitUrl,
+	type ProjectImportSource
+} from '$lib/services/project-import';
+import { savedTemplateId, savedTemplateService } from '$lib/services/saved-templates';
+import { packageManagerSchema } from '$lib/validations/project.validation';
 import { json, type RequestHandler } from '@sveltejs/kit';
 
 export const GET: RequestHandler = async ({ locals }) => {
@@ -9,8 +19,12 @@ export const GET: RequestHandler = async ({ locals }) => {
 			return json({ error: 'Unauthorized' }, { status: 401 });
 		}
 
-		// Get user projects
-		const projects = await DatabaseService.findProjectsByUserId(locals.user.id);
+		// Get projects the user owns or that are shared with them
+		const organizations = await DatabaseService.findOrganizationsByUserId(locals.user.id);
+		const projects = await DatabaseService.findAccessibleProjects(
+			locals.user.id,
+			organizations.map((organization) => organization.id)
+		);
 
 		return json({
 			projects: projects || [],
@@ -29,8 +43,30 @@ export const POST: RequestHandler = async ({ request, locals }) => {
 			return json({ error: 'Unauthorized' }, { status: 401 });
 		}
 
-		const { name, framework, templateId, description, configuration, sandboxProvider, customRepo, initialPrompt } =
-			await request.json();
+		// Archive imports are uploaded as multipart form data: the project fields as JSON in
+		// `project` and the archive in `archive`
+		let body;
+		let archive: File | null = null;
+		if (request.headers.get('content-type')?.includes('multipart/form-data')) {
+			const form = await request.formData();
+			body = JSON.parse(String(form.get('project') ?? '{}'));
+			const upload = form.get('archive');
+			archive = upload instanceof File ? upload : null;
+		} else {
+			body = await request.json();
+		}
+
+		const {
+			name,
+			framework,
+			templateId,
+			description,
+			configuration,
+			sandboxProvider = providerConfig.defaultProvider,
+			customRepo,
+			gitRepo,
+			initialPrompt
+		} = body;
 
 		// Debug logging
 		console.log('🔍 API DEBUG: Received project creation request:');
@@ -40,16 +76,25 @@ export const POST: RequestHandler = async ({ request, locals }) => {
 
 		// Validate required fields
 		if (!name || !framework || !sandboxProvider) {
+			return json({ error: 'Project name and framework are required' }, { status: 400 });
+		}
+
+		// Validate sandbox provider
+		const providers = enabledSandboxProviders();
+		if (!providers.includes(sandboxProvider)) {
 			return json(
-				{ error: 'Project name, framework, and sandbox provider are required' },
+				{ error: `Invalid sandbox provider. Use one of: ${providers.join(', ')}` },
 				{ status: 400 }
 			);
 		}
 
-		// Validate sandbox provider
-		if (sandboxProvider !== 'daytona') {
+		// The package manager is run in the sandbox, so only known ones are accepted
+		if (
+			configuration?.packageManager !== undefined &&
+			!packageManagerSchema.safeParse(configuration.packageManager).success
+		) {
 			return json(
-				{ error: 'Invalid sandbox provider. Only "daytona" is supported.' },
+				{ error: 'Invalid package manager. Use one of: npm, yarn, pnpm, bun' },
 				{ status: 400 }
 			);
 		}
@@ -81,6 +126,50 @@ export const POST: RequestHandler = async ({ request, locals }) => {
 			}
 		}
 
+		// Projects imported from any git host or an uploaded archive
+		let importSource: ProjectImportSource | undefined;
+		const author = {
+			name: locals.session?.user.name || locals.user.username || locals.user.email,
+			email: locals.user.email
+		};
+		if (archive) {
+			const format = archiveFormat(archive.name);
+			if (!format) {
+				return json({ error: 'Upload a .zip, .tar or .tar.gz archive' }, { status: 400 });
+			}
+			if (archive.size > MAX_ARCHIVE_SIZE) {
+				return json(
+					{ error: `Archives can be at most ${MAX_ARCHIVE_SIZE / 1024 / 1024}MB` },
+					{ status: 413 }
+				);
+			}
+			importSource = {
+				type: 'archive',
+				fileName: archive.name,
+				format,
+				data: Buffer.from(await archive.arrayBuffer()),
+				author
+			};
+		} else if (gitRepo) {
+			const validated = validateGitUrl(String(gitRepo.url ?? ''));
+			if ('error' in validated) {
+				return json({ error: validated.error }, { status: 400 });
+			}
+			if (gitRepo.branch && !isValidBranch(gitRepo.branch)) {
+				return json({ error: 'Invalid branch name' }, { status: 400 });
+			}
+			importSource = { type: 'git', url: validated.url, branch: gitRepo.branch, author };
+		}
+
+		// Templates saved from a project bring their own files, settings and prompt
+		const savedId = savedTemplateId(templateId);
+		const savedTemplate = savedId
+			? await savedTemplateService.getForUser(savedId, locals.user.id)
+			: null;
+		if (savedId && !savedTemplate) {
+			return json({ error: 'Template not found' }, { status: 404 });
+		}
+
 		// Map framework to proper StackBlitz starter name
 		const getTemplateId = (
 			framework: string,
@@ -113,14 +202,16 @@ export const POST: RequestHandler = async ({ request, locals }) => {
 		// Use project initialization service for complete setup with chosen sandbox provider
 		const initializationResult = await projectInitializationService.initializeProject({
 			name: name.trim(),
-			templateId: getTemplateId(framework, templateId, !!customRepo),
-			framework,
+			templateId: getTemplateId(framework, templateId, !!customRepo || !!importSource),
+			framework: savedTemplate?.framework ?? framework,
 			userId: locals.user.id,
-			description: description?.trim() || `${framework} project`,
-			initialPrompt: initialPrompt?.trim() || undefined,
+			description: description?.trim() || `${savedTemplate?.framework ?? framework} project`,
+			initialPrompt: initialPrompt?.trim() || savedTemplate?.initialPrompt || undefined,
 			sandboxProvider,
-			customRepo: customRepo || undefined,
-			configuration: {
+			customRepo: savedTemplate ? undefined : customRepo || undefined,
+			savedTemplate: savedTemplate ?? undefined,
+			importSource,
+			configuration: savedTemplate?.configuration ?? {
 				typescript: configuration?.typescript ?? false,
 				eslint: configuration?.eslint ?? true,
 				prettier: configuration?.prettier ?? true,
@@ -1,3 +1,4 @@
+import { authorizeProject, canManageOrganization } from '$lib/services/access';
 import { DatabaseService } from '$lib/services/database.service.js';
 import { error, json, type RequestHandler } from '@sveltejs/kit';
 
@@ -13,19 +14,13 @@ export const GET: RequestHandler = async ({ params, locals }) => {
 			throw error(400, 'Project ID is required');
 		}
 
-		// Get project by ID
-		const project = await DatabaseService.findProjectById(projectId);
-
-		if (!project) {
-			throw error(404, 'Project not found');
-		}
-
-		// Check if user owns the project
-		if (project.ownerId !== locals.user.id) {
-			throw error(403, 'Access denied');
+		// Get project by ID and check that it is shared with the user
+		const access = await authorizeProject(projectId, locals.user.id, 'view');
+		if ('error' in access) {
+			throw error(access.status, access.error);
 		}
 
-		return json({ project });
+		return json({ project: access.project, role: access.role });
 	} catch (err) {
 		console.error('Error fetching project:', err);
 		if (err instanceof Error && 'status' in err) {
@@ -49,16 +44,23 @@ export const PUT: RequestHandler = async ({ params, request, locals }) => {
 
 		const updateData = await request.json();
 
-		// Get existing project to check ownership
-		const existingProject = await DatabaseService.findProjectById(projectId);
-
-		if (!existingProject) {
-			throw error(404, 'Project not found');
+		// Check that the user may change the project's settings
+		const access = await authorizeProject(projectId, locals.user.id, 'manage');
+		if ('error' in access) {
+			throw error(access.status, access.error);
 		}
 
-		// Check if user owns the project
-		if (existingProject.ownerId !== locals.user.id) {
-			throw error(403, 'Access denied');
+		// Ownership and members change through the sharing endpoints
+		delete updateData.id;
+		delete updateData.ownerId;
+		delete updateData.members;
+
+		// Only managers of a team can move projects into it
+		if (updateData.organizationId) {
+			const organization = await DatabaseService.findOrganizationById(updateData.organizationId);
+			if (!organization || !canManageOrganization(organization, locals.user.id)) {
+				throw error(403, 'You cannot add projects to this organization');
+			}
 		}
 
 		// Update project
@@ -89,16 +91,10 @@ export const DELETE: RequestHandler = async ({ params, locals }) => {
 			throw error(400, 'Project ID is required');
 		}
 
-		// Get existing project to check ownership
-		const existingProject = await DatabaseService.findProjectById(projectId);
-
-		if (!existingProject) {
-			throw error(404, 'Project not found');
-		}
-
-		// Check if user owns the project
-		if (existingProject.ownerId !== locals.user.id) {
-			throw error(403, 'Access denied');
+		// Check that the user may delete the project
+		const access = await authorizeProject(projectId, locals.user.id, 'manage');
+		if ('error' in access) {
+			throw error(access.status, access.error);
 		}
 
 		// Delete project
@@ -0,0 +1,71 @@
+import { authorizeLoadedProject } from '$lib/services/access';
+import {
+	approvalPolicySchema,
+	DEFAULT_APPROVAL_POLICY,
+	resolveApprovalPolicy
+} from '$lib/services/agent-approval.service';
+import { DatabaseService } from '$lib/services/database.service.js';
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+
+// GET /api/projects/[id]/approval-policy - Effective agent tool approval policy
+export const GET: RequestHandler = async ({ params, locals }) => {
+	try {
+		if (!locals.user) {
+			return json({ error: 'Unauthorized' }, { status: 401 });
+		}
+
+		const project = await DatabaseService.findProjectById(params.id);
+		if (!project) {
+			return json({ error: 'Project not found' }, { status: 404 });
+		}
+		const access = await authorizeLoadedProject(project, locals.user.id, 'view');
+		if ('error' in access) {
+			return json({ error: access.error }, { status: access.status });
+		}
+
+		return json({
+			policy: resolveApprovalPolicy(project.metadata?.approvalPolicy),
+			defaults: DEFAULT_APPROVAL_POLICY
+		});
+	} catch (error) {
+		console.error('Failed to fetch approval policy:', error);
+		return json({ error: 'Failed to fetch approval policy' }, { status: 500 });
+	}
+};
+
+// PUT /api/projects/[id]/approval-policy - Replace the project's policy overrides
+export const PUT: RequestHandler = async ({ params, request, locals }) => {
+	try {
+		if (!locals.user) {
+			return json({ error: 'Unauthorized' }, { status: 401 });
+		}
+
+		const project = await DatabaseService.findProjectById(params.id);
+		if (!project) {
+			return json({ error: 'Project not found' }, { status: 404 });
+		}
+		const access = await authorizeLoadedProject(project, locals.user.id, 'manage');
+		if ('error' in access) {
+			return json({ error: access.error }, { status: access.status });
+		}
+
+		const parsed = approvalPolicySchema.safeParse(await request.json());
+		if (!parsed.success) {
+			return json(
+				{ error: 'Invalid approval policy', details: parsed.error.flatten() },
+				{ status: 400 }
+			);
+		}
+
+		await DatabaseService.updateProject(project.id, {
+			metadata: { ...project.metadata, approvalPolicy: parsed.data },
+			updatedAt: new Date()
+		});
+
+		return json({ policy: resolveApprovalPolicy(parsed.data) });
+	} catch (error) {
+		console.error('Failed to update approval policy:', error);
+		return json({ error: 'Failed to update approval policy' }, { status: 500 });
+	}
+};
@@ -0,0 +1,44 @@
+import { authorizeProject } from '$lib/services/access';
+import { isExportFormat, projectExportService } from '$lib/services/project-export';
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+
+// GET /api/projects/[id]/export?format=zip|tar.gz&path= - Download the project, or the
+// folder at `path`, as an archive without dependencies and build output
+export const GET: RequestHandler = async ({ params, url, locals }) => {
+	try {
+		if (!locals.user) {
+			return json({ error: 'Unauthorized' }, { status: 401 });
+		}
+
+		const format = url.searchParams.get('format') || 'zip';
+		if (!isExportFormat(format)) {
+			return json({ error: 'Format must be zip or tar.gz' }, { status: 400 });
+		}
+
+		const access = await authorizeProject(params.id, locals.user.id, 'view');
+		if ('error' in access) {
+			return json({ error: access.error }, { status: access.status });
+		}
+
+		const result = await projectExportService.exportProject(access.project, {
+			format,
+			path: url.searchParams.get('path') ?? undefined
+		});
+		if ('error' in result) {
+			return json({ error: result.error }, { status: result.status });
+		}
+
+		return new Response(result.stream, {
+			headers: {
+				'Content-Type': result.contentType,
+				'Content-Disposition': `attachment; filename="${result.fileName}"`,
+				'Cache-Control': 'no-store',
+				'X-Export-File-Count': String(result.fileCount)
+			}
+		});
+	} catch (error) {
+		console.error('Failed to export project:', error);
+		return json({ error: 'Failed to export project' }, { status: 500 });
+	}
+};
@@ -1,3 +1,4 @@
+import { authorizeLoadedProject } from '$lib/services/access';
 import { error, json } from '@sveltejs/kit';
 import type { RequestHandler } from './$types.js';
 
@@ -26,9 +27,10 @@ export const GET: RequestHandler = async ({ params, locals }) => {
 			return error(404, { message: 'Project not found' });
 		}
 
-		// Check if user owns the project
-		if (project.ownerId !== locals.user.id) {
-			return error(403, { message: 'Access denied' });
+		// Check that the project is shared with the user
+		const access = await authorizeLoadedProject(project, locals.user.id, 'view');
+		if ('error' in access) {
+			return error(access.status, { message: access.error });
 		}
 
 		if (!project.sandboxId) {
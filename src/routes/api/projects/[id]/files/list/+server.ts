@@ -1,3 +1,4 @@
+import { authorizeLoadedProject } from '$lib/services/access';
 import { DatabaseService } from '$lib/services/database.service.js';
 import { listFiles as listFilesService } from '$lib/services/files-list.service';
 import { logger } from '$lib/utils/logger.js';
@@ -29,9 +30,10 @@ export const GET: RequestHandler = async ({ params, url, locals }) => {
 			return error(404, { message: 'Project not found' });
 		}
 
-		// Check if user owns the project
-		if (project.ownerId !== locals.session.user.id) {
-			return error(403, { message: 'Access denied' });
+		// Check that the project is shared with the user
+		const access = await authorizeLoadedProject(project, locals.session.user.id, 'view');
+		if ('error' in access) {
+			return error(access.status, { message: access.error });
 		}
 
 		let projectFiles: any[] = [];
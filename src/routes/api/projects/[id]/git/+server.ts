@@ -0,0 +1,148 @@
+import { authorizeProject } from '$lib/services/access';
+import { DatabaseService } from '$lib/services/database.service';
+import { gitService, repositoryForProject, type GitRepository } from '$lib/services/git';
+import type { ProjectAction } from '$lib/types/access';
+import type { GitCommandResult } from '$lib/types/git';
+import { json } from '@sveltejs/kit';
+import { z } from 'zod';
+import type { RequestHandler } from './$types';
+
+const refName = z
+	.string()
+	.min(1)
+	.max(200)
+	.regex(/^(?!-)(?!.*\.\.)[\w./-]+$/, 'Invalid branch or remote name');
+const paths = z.array(z.string().min(1)).min(1);
+
+const gitActionSchema = z.discriminatedUnion('action', [
+	z.object({ action: z.literal('stage'), paths }),
+	z.object({ action: z.literal('unstage'), paths }),
+	z.object({
+		action: z.literal('stage-hunk'),
+		path: z.string().min(1),
+		hunk: z.number().int().min(0)
+	}),
+	z.object({
+		action: z.literal('unstage-hunk'),
+		path: z.string().min(1),
+		hunk: z.number().int().min(0)
+	}),
+	z.object({ action: z.literal('commit'), message: z.string().trim().min(1) }),
+	z.object({ action: z.literal('checkout'), branch: refName }),
+	z.object({ action: z.literal('create-branch'), branch: refName, from: refName.optional() }),
+	z.object({ action: z.literal('push'), remote: refName.optional(), branch: refName.optional() }),
+	z.object({ action: z.literal('pull'), remote: refName.optional(), branch: refName.optional() }),
+	z.object({ action: z.literal('init') })
+]);
+
+async function loadRepository(
+	projectId: string,
+	userId: string,
+	action: ProjectAction
+): Promise<{ repo: GitRepository } | { error: string; status: number }> {
+	const access = await authorizeProject(projectId, userId, action);
+	if ('error' in access) {
+		return access;
+	}
+
+	const repo = repositoryForProject(access.project);
+	if (!repo) {
+		return { error: 'Project has no sandbox', status: 409 };
+	}
+	return { repo };
+}
+
+// GET /api/projects/[id]/git - Repository status and local branches
+export const GET: RequestHandler = async ({ params, locals }) => {
+	try {
+		if (!locals.user) {
+			return json({ error: 'Unauthorized' }, { status: 401 });
+		}
+
+		const target = await loadRepository(params.id, locals.user.id, 'view');
+		if ('error' in target) {
+			return json({ error: target.error }, { status: target.status });
+		}
+
+		const status = await gitService.status(target.repo);
+		const branches = status.isRepository ? await gitService.branches(target.repo) : [];
+
+		return json({ status, branches });
+	} catch (error) {
+		console.error('Failed to fetch git status:', error);
+		return json({ error: 'Failed to fetch git status' }, { status: 500 });
+	}
+};
+
+// POST /api/projects/[id]/git - Run a source control action { action, ... }
+export const POST: RequestHandler = async ({ params, request, locals }) => {
+	try {
+		if (!locals.user) {
+			return json({ error: 'Unauthorized' }, { status: 401 });
+		}
+
+		const parsed = gitActionSchema.safeParse(await request.json());
+		if (!parsed.success) {
+			return json({ error: 'Invalid git action', details: parsed.error.issues }, { status: 400 });
+		}
+
+		const target = await loadRepository(params.id, locals.user.id, 'edit');
+		if ('error' in target) {
+			return json({ error: target.error }, { status: target.status });
+		}
+
+		const { repo } = target;
+		const body = parsed.data;
+		let result: GitCommandResult;
+
+		switch (body.action) {
+			case 'stage':
+				result = await gitService.stage(repo, body.paths);
+				break;
+			case 'unstage':
+				result = await gitService.unstage(repo, body.paths);
+				break;
+			case 'stage-hunk':
+				result = await gitService.stageHunk(repo, body.path, body.hunk);
+				break;
+			case 'unstage-hunk':
+				result = await gitService.unstageHunk(repo, body.path, body.hunk);
+				break;
+			case 'commit':
+				result = await gitService.commit(repo, body.message, {
+					name: locals.session?.user.name || locals.user.username || locals.user.email,
+					email: locals.user.email
+				});
+				break;
+			case 'checkout':
+				result = await gitService.checkout(repo, body.branch);
+				break;
+			case 'create-branch':
+				result = await gitService.createBranch(repo, body.branch, { from: body.from });
+				break;
+			case 'push':
+			case 'pull': {
+				const credential = await DatabaseService.findGitCredential(locals.user.id, 'github');
+				const options = { remote: body.remote, branch: body.branch, token: credential?.token };
+				result =
+					body.action === 'push'
+						? await gitService.push(repo, options)
+						: await gitService.pull(repo, options);
+				break;
+			}
+			case 'init':
+				result = await gitService.init(repo);
+				break;
+		}
+
+		const status = await gitService.status(repo);
+		if (!result.success) {
+			return json({ error: result.output || `git ${body.action} failed`, status }, { status: 409 });
+		}
+
+		return json({ success: true, output: result.output, status });
+	} catch (error) {
+		console.error('Failed to run git action:', error);
+		return json({ error: 'Failed to run git action' }, { status: 500 });
+	}
+};
@@ -0,0 +1,39 @@
+import { authorizeLoadedProject } from '$lib/services/access';
+import { DatabaseService } from '$lib/services/database.service';
+import { gitService, repositoryForProject } from '$lib/services/git';
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+
+// GET /api/projects/[id]/git/diff?path=&staged=true - Hunks and both sides of a changed file
+export const GET: RequestHandler = async ({ params, url, locals }) => {
+	try {
+		if (!locals.user) {
+			return json({ error: 'Unauthorized' }, { status: 401 });
+		}
+
+		const path = url.searchParams.get('path');
+		if (!path) {
+			return json({ error: 'path is required' }, { status: 400 });
+		}
+
+		const project = await DatabaseService.findProjectById(params.id);
+		if (!project) {
+			return json({ error: 'Project not found' }, { status: 404 });
+		}
+		const access = await authorizeLoadedProject(project, locals.user.id, 'view');
+		if ('error' in access) {
+			return json({ error: access.error }, { status: access.status });
+		}
+
+		const repo = repositoryForProject(project);
+		if (!repo) {
+			return json({ error: 'Project has no sandbox' }, { status: 409 });
+		}
+
+		const diff = await gitService.diff(repo, path, url.searchParams.get('staged') === 'true');
+		return json({ diff });
+	} catch (error) {
+		console.error('Failed to fetch git diff:', error);
+		return json({ error: 'Failed to fetch git diff' }, { status: 500 });
+	}
+};
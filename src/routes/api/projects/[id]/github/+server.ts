@@ -0,0 +1,97 @@
+import { authorizeLoadedProject } from '$lib/services/access';
+import { DatabaseService } from '$lib/services/database.service';
+import { describeGitHubError, exportProjectToGitHub } from '$lib/services/github-export.service';
+import type { GitHubProjectLink } from '$lib/types/git';
+import { json } from '@sveltejs/kit';
+import { z } from 'zod';
+import type { RequestHandler } from './$types';
+
+const exportSchema = z.object({
+	name: z
+		.string()
+		.trim()
+		.min(1)
+		.max(100)
+		.regex(/^[\w.-]+$/, 'Repository names may only contain letters, digits, ".", "-" and "_"'),
+	description: z.string().max(350).optional(),
+	private: z.boolean().default(true),
+	org: z.string().trim().min(1).optional()
+});
+
+// GET /api/projects/[id]/github - GitHub repository the project was exported to
+export const GET: RequestHandler = async ({ params, locals }) => {
+	try {
+		if (!locals.user) {
+			return json({ error: 'Unauthorized' }, { status: 401 });
+		}
+
+		const project = await DatabaseService.findProjectById(params.id);
+		if (!project) {
+			return json({ error: 'Project not found' }, { status: 404 });
+		}
+		const access = await authorizeLoadedProject(project, locals.user.id, 'view');
+		if ('error' in access) {
+			return json({ error: access.error }, { status: access.status });
+		}
+
+		const link: GitHubProjectLink | undefined = project.metadata?.github;
+		return json({ github: link ?? null });
+	} catch (error) {
+		console.error('Failed to fetch GitHub link:', error);
+		return json({ error: 'Failed to fetch GitHub link' }, { status: 500 });
+	}
+};
+
+// POST /api/projects/[id]/github - Export the project to a new GitHub repository { name, description?, private?, org? }
+export const POST: RequestHandler = async ({ params, request, locals }) => {
+	try {
+		if (!locals.user) {
+			return json({ error: 'Unauthorized' }, { status: 401 });
+		}
+
+		const parsed = exportSchema.safeParse(await request.json());
+		if (!parsed.success) {
+			return json(
+				{ error: 'Invalid export request', details: parsed.error.issues },
+				{ status: 400 }
+			);
+		}
+
+		const project = await DatabaseService.findProjectById(params.id);
+		if (!project) {
+			return json({ error: 'Project not found' }, { status: 404 });
+		}
+		const access = await authorizeLoadedProject(project, locals.user.id, 'manage');
+		if ('error' in access) {
+			return json({ error: access.error }, { status: access.status });
+		}
+		if (!project.sandboxId) {
+			return json({ error: 'Project has no sandbox' }, { status: 409 });
+		}
+		if (project.metadata?.github) {
+			return json(
+				{ error: 'Project is already exported', github: project.metadata.github },
+				{ status: 409 }
+			);
+		}
+
+		const credential = await DatabaseService.findGitCredential(locals.user.id, 'github');
+		if (!credential) {
+			return json({ error: 'Connect a GitHub token before exporting' }, { status: 400 });
+		}
+
+		try {
+			const result = await exportProjectToGitHub(project, credential.token, parsed.data);
+			return json({ github: result.link, files: result.files, skipped: result.skipped });
+		} catch (error) {
+			const githubError = describeGitHubError(error);
+			if (githubError) {
+				return json({ error: githubError.message }, { status: githubError.status });
+			}
+			throw error;
+		}
+	} catch (error) {
+		console.error('Failed to export project to GitHub:', error);
+		return json({ error: 'Failed to export project to GitHub' }, { status: 500 });
+	}
+};
@@ -0,0 +1,80 @@
+import { authorizeLoadedProject } from '$lib/services/access';
+import { DatabaseService } from '$lib/services/database.service';
+import { describeGitHubError, openProjectPullRequest } from '$lib/services/github-export.service';
+import type { GitHubProjectLink } from '$lib/types/git';
+import { json } from '@sveltejs/kit';
+import { z } from 'zod';
+import type { RequestHandler } from './$types';
+
+const refName = z
+	.string()
+	.trim()
+	.min(1)
+	.max(200)
+	.regex(/^(?!-)(?!.*\.\.)[\w./-]+$/, 'Invalid branch name');
+
+const pullRequestSchema = z.object({
+	title: z.string().trim().max(256).optional(),
+	branch: refName.optional(),
+	base: refName.optional(),
+	draft: z.boolean().optional()
+});
+
+// POST /api/projects/[id]/github/pull-requests - Open a pull request with the sandbox's changes { title?, branch?, base?, draft? }
+export const POST: RequestHandler = async ({ params, request, locals }) => {
+	try {
+		if (!locals.user) {
+			return json({ error: 'Unauthorized' }, { status: 401 });
+		}
+
+		const parsed = pullRequestSchema.safeParse(await request.json());
+		if (!parsed.success) {
+			return json({ error: 'Invalid pull request', details: parsed.error.issues }, { status: 400 });
+		}
+
+		const project = await DatabaseService.findProjectById(params.id);
+		if (!project) {
+			return json({ error: 'Project not found' }, { status: 404 });
+		}
+		const access = await authorizeLoadedProject(project, locals.user.id, 'edit');
+		if ('error' in access) {
+			return json({ error: access.error }, { status: access.status });
+		}
+		if (!project.sandboxId) {
+			return json({ error: 'Project has no sandbox' }, { status: 409 });
+		}
+
+		const link: GitHubProjectLink | undefined = project.metadata?.github;
+		if (!link) {
+			return json({ error: 'Export the project to GitHub first' }, { status: 409 });
+		}
+
+		const credential = await DatabaseService.findGitCredential(locals.user.id, 'github');
+		if (!credential) {
+			return json(
+				{ error: 'Connect a GitHub token before opening pull requests' },
+				{ status: 400 }
+			);
+		}
+
+		try {
+			const result = await openProjectPullRequest(project, link, credential.token, {
+				userId: locals.user.id,
+				...parsed.data
+			});
+			if (!result) {
+				return json({ error: 'No changes against the base branch' }, { status: 409 });
+			}
+			return json(result, { status: 201 });
+		} catch (error) {
+			const githubError = describeGitHubError(error);
+			if (githubError) {
+				return json({ error: githubError.message }, { status: githubError.status });
+			}
+			throw error;
+		}
+	} catch (error) {
+		console.error('Failed to open pull request:', error);
+		return json({ error: 'Failed to open pull request' }, { status: 500 });
+	}
+};
@@ -1,5 +1,7 @@
+import { authorizeLoadedProject } from '$lib/services/access';
 import { DatabaseService } from '$lib/services/database.service';
-import { ProjectInitializationService } from '$lib/services/project-initialization.service';
+import type { ConfigurationStep } from '$lib/services/project-configuration';
+import { projectInitializationService } from '$lib/services/project-initialization.service';
 import { logger } from '$lib/utils/logger';
 import { json } from '@sveltejs/kit';
 import type { RequestHandler } from './$types';
@@ -38,17 +40,21 @@ export const GET: RequestHandler = async ({ params, locals }) => {
 			return json({ error: 'Project not found' }, { status: 404 });
 		}
 
-		if (project.ownerId !== locals.session.user.id) {
-			return json({ error: 'Access denied' }, { status: 403 });
+		const access = await authorizeLoadedProject(project, locals.session.user.id, 'view');
+		if ('error' in access) {
+			return json({ error: access.error }, { status: access.status });
 		}
 
 		// Try to get status from service first
-		const initService = new ProjectInitializationService();
-		let serviceStatus = initService.getProjectStatus(id);
+		const serviceStatus = projectInitializationService.getProjectStatus(id);
 
 		// If we have service status, use it
 		if (serviceStatus) {
-			const steps = mapPhaseToSteps(serviceStatus.phase, serviceStatus.progress);
+			const steps = mapPhaseToSteps(
+				serviceStatus.phase,
+				serviceStatus.progress,
+				serviceStatus.details?.configurationSteps
+			);
 			return json({
 				phase: serviceStatus.phase,
 				progress: serviceStatus.progress,
@@ -110,14 +116,21 @@ export const GET: RequestHandler = async ({ params, locals }) => {
 
 function mapPhaseToSteps(
 	phase: string,
-	progress: number
+	progress: number,
+	configurationSteps?: ConfigurationStep[]
 ): Array<{ name: string; status: 'pending' | 'loading' | 'complete' | 'error'; message?: string }> {
-	const steps: Array<{ name: string; status: 'pending' | 'loading' | 'complete' | 'error' }> = [
+	const steps: Array<{
+		name: string;
+		status: 'pending' | 'loading' | 'complete' | 'error';
+		message?: string;
+	}> = [
 		{ name: 'Downloading files', status: 'pending' },
 		{ name: 'Uploading to storage', status: 'pending' },
 		{ name: 'Creating sandbox', status: 'pending' },
+		...(configurationSteps ? [{ name: 'Configuring project', status: 'pending' as const }] : []),
 		{ name: 'Finalizing project', status: 'pending' }
 	];
+	const configuring = configurationSteps ? steps[3] : undefined;
 
 	if (phase === 'downloading') {
 		steps[0].status = 'loading';
@@ -128,11 +141,38 @@ function mapPhaseToSteps(
 		steps[0].status = 'complete';
 		steps[1].status = 'complete';
 		steps[2].status = 'loading';
+	} else if (phase === 'importing') {
+		// Imports are cloned or unpacked after the sandbox is created
+		steps[0].status = 'loading';
+		steps[1].status = 'complete';
+		steps[2].status = 'complete';
+	} else if (phase === 'configuring' && configuring) {
+		// Config files are written before the sandbox exists, packages are installed after
+		const installing = progress >= 80;
+		steps[0].status = 'complete';
+		steps[1].status = installing ? 'complete' : 'pending';
+		steps[2].status = installing ? 'complete' : 'pending';
+		configuring.status = 'loading';
 	} else if (phase === 'ready') {
 		steps.forEach((s) => (s.status = 'complete'));
 	} else if (phase === 'error') {
 		steps[0].status = 'error';
 	}
 
+	if (configuring && configurationSteps) {
+		const running = configurationSteps.find((step) => step.status === 'running');
+		const failed = configurationSteps.filter((step) => step.status === 'failed');
+		const done = configurationSteps.filter((step) => step.status === 'done');
+		if (running) {
+			configuring.message = running.message
+				? `${running.label}: ${running.message}`
+				: running.label;
+		} else if (failed.length > 0) {
+			configuring.message = `Failed: ${failed.map((step) => step.label).join(', ')}`;
+		} else if (done.length > 0) {
+			configuring.message = done.map((step) => step.label).join(', ');
+		}
+	}
+
 	return steps;
 }
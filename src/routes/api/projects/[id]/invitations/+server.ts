@@ -0,0 +1,56 @@
+import { authorizeProject, membershipService, projectInvitationSchema } from '$lib/services/access';
+import { DatabaseService } from '$lib/services/database.service';
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+
+// GET /api/projects/[id]/invitations - Invitation links that can still be used
+export const GET: RequestHandler = async ({ params, locals }) => {
+	try {
+		if (!locals.user) {
+			return json({ error: 'Unauthorized' }, { status: 401 });
+		}
+
+		const access = await authorizeProject(params.id, locals.user.id, 'manage');
+		if ('error' in access) {
+			return json({ error: access.error }, { status: access.status });
+		}
+
+		const invitations = await DatabaseService.findInvitationsByResource('project', params.id);
+		return json({ invitations });
+	} catch (error) {
+		console.error('Failed to list project invitations:', error);
+		return json({ error: 'Failed to list project invitations' }, { status: 500 });
+	}
+};
+
+// POST /api/projects/[id]/invitations - Create an invitation link { role, expiresInDays?, maxUses? }
+export const POST: RequestHandler = async ({ params, request, locals, url }) => {
+	try {
+		if (!locals.user) {
+			return json({ error: 'Unauthorized' }, { status: 401 });
+		}
+
+		const parsed = projectInvitationSchema.safeParse(await request.json());
+		if (!parsed.success) {
+			return json(
+				{ error: 'Invalid invitation', details: parsed.error.flatten() },
+				{ status: 400 }
+			);
+		}
+
+		const access = await authorizeProject(params.id, locals.user.id, 'manage');
+		if ('error' in access) {
+			return json({ error: access.error }, { status: access.status });
+		}
+
+		const invitation = await membershipService.createInvitation(
+			params.id,
+			{ scope: 'project', ...parsed.data },
+			locals.user.id
+		);
+		return json({ invitation, url: `${url.origin}/invite/${invitation.token}` }, { status: 201 });
+	} catch (error) {
+		console.error('Failed to create project invitation:', error);
+		return json({ error: 'Failed to create project invitation' }, { status: 500 });
+	}
+};
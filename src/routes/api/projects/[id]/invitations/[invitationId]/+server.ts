@@ -0,0 +1,32 @@
+import { authorizeProject } from '$lib/services/access';
+import { DatabaseService } from '$lib/services/database.service';
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+
+// DELETE /api/projects/[id]/invitations/[invitationId] - Revoke an invitation link
+export const DELETE: RequestHandler = async ({ params, locals }) => {
+	try {
+		if (!locals.user) {
+			return json({ error: 'Unauthorized' }, { status: 401 });
+		}
+
+		const access = await authorizeProject(params.id, locals.user.id, 'manage');
+		if ('error' in access) {
+			return json({ error: access.error }, { status: access.status });
+		}
+
+		const revoked = await DatabaseService.revokeInvitation(
+			params.invitationId,
+			'project',
+			params.id
+		);
+		if (!revoked) {
+			return json({ error: 'Invitation not found' }, { status: 404 });
+		}
+
+		return json({ success: true });
+	} catch (error) {
+		console.error('Failed to revoke project invitation:', error);
+		return json({ error: 'Failed to revoke project invitation' }, { status: 500 });
+	}
+};
@@ -0,0 +1,25 @@
+import { authorizeProject, membershipService } from '$lib/services/access';
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+
+// GET /api/projects/[id]/members - Everyone the project is shared with and their roles
+export const GET: RequestHandler = async ({ params, locals }) => {
+	try {
+		if (!locals.user) {
+			return json({ error: 'Unauthorized' }, { status: 401 });
+		}
+
+		const access = await authorizeProject(params.id, locals.user.id, 'view');
+		if ('error' in access) {
+			return json({ error: access.error }, { status: access.status });
+		}
+
+		return json({
+			members: await membershipService.listProjectMembers(access.project),
+			role: access.role
+		});
+	} catch (error) {
+		console.error('Failed to list project members:', error);
+		return json({ error: 'Failed to list project members' }, { status: 500 });
+	}
+};
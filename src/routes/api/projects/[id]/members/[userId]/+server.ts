@@ -0,0 +1,69 @@
+import { authorizeProject, projectMemberSchema } from '$lib/services/access';
+import { DatabaseService } from '$lib/services/database.service';
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+
+// PATCH /api/projects/[id]/members/[userId] - Change a member's role { role }
+export const PATCH: RequestHandler = async ({ params, request, locals }) => {
+	try {
+		if (!locals.user) {
+			return json({ error: 'Unauthorized' }, { status: 401 });
+		}
+
+		const parsed = projectMemberSchema.safeParse(await request.json());
+		if (!parsed.success) {
+			return json(
+				{ error: 'Invalid member role', details: parsed.error.flatten() },
+				{ status: 400 }
+			);
+		}
+
+		const access = await authorizeProject(params.id, locals.user.id, 'manage');
+		if ('error' in access) {
+			return json({ error: access.error }, { status: access.status });
+		}
+
+		const member = access.project.members?.find((entry) => entry.userId === params.userId);
+		if (!member) {
+			return json({ error: 'Member not found' }, { status: 404 });
+		}
+
+		const project = await DatabaseService.upsertProjectMember(access.project.id, {
+			...member,
+			role: parsed.data.role
+		});
+		return json({ members: project?.members ?? [] });
+	} catch (error) {
+		console.error('Failed to update project member:', error);
+		return json({ error: 'Failed to update project member' }, { status: 500 });
+	}
+};
+
+// DELETE /api/projects/[id]/members/[userId] - Remove a member, or leave the project
+export const DELETE: RequestHandler = async ({ params, locals }) => {
+	try {
+		if (!locals.user) {
+			return json({ error: 'Unauthorized' }, { status: 401 });
+		}
+
+		// Members may always leave; removing someone else takes a project owner
+		const leaving = params.userId === locals.user.id;
+		const access = await authorizeProject(params.id, locals.user.id, leaving ? 'view' : 'manage');
+		if ('error' in access) {
+			return json({ error: access.error }, { status: access.status });
+		}
+		if (params.userId === access.project.ownerId) {
+			return json({ error: 'The project owner cannot be removed' }, { status: 400 });
+		}
+
+		const removed = await DatabaseService.removeProjectMember(access.project.id, params.userId);
+		if (!removed) {
+			return json({ error: 'Member not found' }, { status: 404 });
+		}
+
+		return json({ success: true });
+	} catch (error) {
+		console.error('Failed to remove project member:', error);
+		return json({ error: 'Failed to remove project member' }, { status: 500 });
+	}
+};
@@ -1,3 +1,4 @@
+import { authorizeLoadedProject } from '$lib/services/access';
 import { DatabaseService } from '$lib/services/database.service.js';
 import { DaytonaService } from '$lib/services/sandbox/daytona.service.js';
 import { error, json, type RequestHandler } from '@sveltejs/kit';
@@ -27,9 +28,10 @@ export const POST: RequestHandler = async ({ params, request, locals }) => {
 			throw error(404, 'Project not found');
 		}
 
-		// Check if user owns the project
-		if (project.ownerId !== locals.user.id) {
-			throw error(403, 'Access denied');
+		// Check that the user may run the sandbox
+		const access = await authorizeLoadedProject(project, locals.user.id, 'execute');
+		if ('error' in access) {
+			throw error(access.status, access.error);
 		}
 
 		// Create sandbox with Daytona
@@ -124,9 +126,10 @@ export const DELETE: RequestHandler = async ({ params, request, locals }) => {
 			throw error(404, 'Project not found');
 		}
 
-		// Check if user owns the project
-		if (project.ownerId !== locals.user.id) {
-			throw error(403, 'Access denied');
+		// Check that the user may manage the project
+		const access = await authorizeLoadedProject(project, locals.user.id, 'manage');
+		if ('error' in access) {
+			throw error(access.status, access.error);
 		}
 
 		// Delete sandbox with Daytona
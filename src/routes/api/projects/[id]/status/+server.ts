@@ -1,3 +1,4 @@
+import { authorizeLoadedProject } from '$lib/services/access';
 import { DatabaseService } from '$lib/services/database.service.js';
 import { error, json, type RequestHandler } from '@sveltejs/kit';
 
@@ -20,9 +21,10 @@ export const GET: RequestHandler = async ({ params, locals }) => {
 			throw error(404, 'Project not found');
 		}
 
-		// Check if user owns the project
-		if (project.ownerId !== locals.user.id) {
-			throw error(403, 'Access denied');
+		// Check that the project is shared with the user
+		const access = await authorizeLoadedProject(project, locals.user.id, 'view');
+		if ('error' in access) {
+			throw error(access.status, access.error);
 		}
 
 		// Get enhanced status information
@@ -130,9 +132,10 @@ export const PUT: RequestHandler = async ({ params, request, locals }) => {
 			throw error(404, 'Project not found');
 		}
 
-		// Check if user owns the project
-		if (existingProject.ownerId !== locals.user.id) {
-			throw error(403, 'Access denied');
+		// Check that the user may manage the project
+		const access = await authorizeLoadedProject(existingProject, locals.user.id, 'manage');
+		if ('error' in access) {
+			throw error(access.status, access.error);
 		}
 
 		// Update project status
@@ -0,0 +1,31 @@
+import { authorizeLoadedProject } from '$lib/services/access';
+import { DatabaseService } from '$lib/services/database.service';
+import { taskService } from '$lib/services/tasks';
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+
+// GET /api/projects/[id]/tasks - Tasks from package.json scripts, the Makefile and .aura/tasks.json
+export const GET: RequestHandler = async ({ params, locals }) => {
+	try {
+		if (!locals.user) {
+			return json({ error: 'Unauthorized' }, { status: 401 });
+		}
+
+		const project = await DatabaseService.findProjectById(params.id);
+		if (!project) {
+			return json({ error: 'Project not found' }, { status: 404 });
+		}
+		const access = await authorizeLoadedProject(project, locals.user.id, 'view');
+		if ('error' in access) {
+			return json({ error: access.error }, { status: access.status });
+		}
+		if (!project.sandboxId) {
+			return json({ error: 'Project has no sandbox' }, { status: 409 });
+		}
+
+		return json(await taskService.discover(project));
+	} catch (error) {
+		console.error('Failed to list tasks:', error);
+		return json({ error: 'Failed to list tasks' }, { status: 500 });
+	}
+};
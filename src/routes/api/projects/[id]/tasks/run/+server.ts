@@ -0,0 +1,59 @@
+import { authorizeLoadedProject } from '$lib/services/access';
+import { DatabaseService } from '$lib/services/database.service';
+import { taskService } from '$lib/services/tasks';
+import { ptySessionManager } from '$lib/services/terminal';
+import { json } from '@sveltejs/kit';
+import { z } from 'zod';
+import type { RequestHandler } from './$types';
+
+const runTaskSchema = z.object({
+	taskId: z.string().min(1),
+	cols: z.number().int().min(1).max(1000).default(80),
+	rows: z.number().int().min(1).max(1000).default(24)
+});
+
+// POST /api/projects/[id]/tasks/run - Start a task { taskId, cols?, rows? } in a new terminal session
+export const POST: RequestHandler = async ({ params, request, locals }) => {
+	try {
+		if (!locals.user) {
+			return json({ error: 'Unauthorized' }, { status: 401 });
+		}
+
+		const parsed = runTaskSchema.safeParse(await request.json());
+		if (!parsed.success) {
+			return json({ error: 'Invalid task', details: parsed.error.issues }, { status: 400 });
+		}
+
+		const project = await DatabaseService.findProjectById(params.id);
+		if (!project) {
+			return json({ error: 'Project not found' }, { status: 404 });
+		}
+		const access = await authorizeLoadedProject(project, locals.user.id, 'execute');
+		if ('error' in access) {
+			return json({ error: access.error }, { status: access.status });
+		}
+		if (!project.sandboxId) {
+			return json({ error: 'Project has no sandbox' }, { status: 409 });
+		}
+
+		// Tasks are looked up again so only commands declared in the project can be run this way
+		const { tasks } = await taskService.discover(project);
+		const task = tasks.find((candidate) => candidate.id === parsed.data.taskId);
+		if (!task) {
+			return json({ error: 'Task not found' }, { status: 404 });
+		}
+		if (!ptySessionManager.hasCapacity(project.sandboxId)) {
+			return json(
+				{ error: 'Too many terminal sessions are open for this sandbox' },
+				{ status: 429 }
+			);
+		}
+
+		const { cols, rows } = parsed.data;
+		const run = await taskService.run(project, locals.user.id, task, { cols, rows });
+		return json(run, { status: 201 });
+	} catch (error) {
+		console.error('Failed to run task:', error);
+		return json({ error: 'Failed to run task' }, { status: 500 });
+	}
+};
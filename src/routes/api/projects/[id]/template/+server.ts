@@ -0,0 +1,39 @@
+import { authorizeProject } from '$lib/services/access';
+import { savedTemplateService, saveTemplateSchema } from '$lib/services/saved-templates';
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+
+// POST /api/projects/[id]/template - Save the project's files as a template
+// { name, description?, visibility?, organizationId?, postCreateCommands?, initialPrompt? }
+export const POST: RequestHandler = async ({ params, request, locals }) => {
+	try {
+		if (!locals.user) {
+			return json({ error: 'Unauthorized' }, { status: 401 });
+		}
+
+		const parsed = saveTemplateSchema.safeParse(await request.json());
+		if (!parsed.success) {
+			return json({ error: 'Invalid template', details: parsed.error.flatten() }, { status: 400 });
+		}
+
+		// Team templates hand the files to everyone in the organization
+		const access = await authorizeProject(params.id, locals.user.id, 'edit');
+		if ('error' in access) {
+			return json({ error: access.error }, { status: access.status });
+		}
+
+		const result = await savedTemplateService.saveFromProject(
+			access.project,
+			parsed.data,
+			locals.user.id
+		);
+		if ('error' in result) {
+			return json({ error: result.error }, { status: result.status });
+		}
+
+		return json(result, { status: 201 });
+	} catch (error) {
+		console.error('Failed to save project as template:', error);
+		return json({ error: 'Failed to save project as template' }, { status: 500 });
+	}
+};
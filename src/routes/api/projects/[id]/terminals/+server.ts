@@ -0,0 +1,71 @@
+import { authorizeLoadedProject } from '$lib/services/access';
+import { DatabaseService } from '$lib/services/database.service';
+import { terminalSessionService } from '$lib/services/terminal/terminal-session.service';
+import { TERMINAL_SHELL_PATTERN } from '$lib/types/terminal';
+import { json } from '@sveltejs/kit';
+import { z } from 'zod';
+import type { RequestHandler } from './$types';
+
+const createSessionSchema = z.object({
+	name: z.string().trim().min(1).max(64).optional(),
+	shell: z.string().regex(TERMINAL_SHELL_PATTERN, 'Invalid shell').optional()
+});
+
+// GET /api/projects/[id]/terminals - List the project's named terminal sessions and whether their shells are running
+export const GET: RequestHandler = async ({ params, locals }) => {
+	try {
+		if (!locals.user) {
+			return json({ error: 'Unauthorized' }, { status: 401 });
+		}
+
+		const project = await DatabaseService.findProjectById(params.id);
+		if (!project) {
+			return json({ error: 'Project not found' }, { status: 404 });
+		}
+		const access = await authorizeLoadedProject(project, locals.user.id, 'view');
+		if ('error' in access) {
+			return json({ error: access.error }, { status: access.status });
+		}
+
+		const sessions = await terminalSessionService.listForProject(project);
+		return json({ sessions });
+	} catch (error) {
+		console.error('Failed to list terminal sessions:', error);
+		return json({ error: 'Failed to list terminal sessions' }, { status: 500 });
+	}
+};
+
+// POST /api/projects/[id]/terminals - Create a named terminal session { name?, shell? }; the shell starts when a tab attaches
+export const POST: RequestHandler = async ({ params, request, locals }) => {
+	try {
+		if (!locals.user) {
+			return json({ error: 'Unauthorized' }, { status: 401 });
+		}
+
+		const parsed = createSessionSchema.safeParse(await request.json().catch(() => ({})));
+		if (!parsed.success) {
+			return json(
+				{ error: 'Invalid terminal session', details: parsed.error.issues },
+				{ status: 400 }
+			);
+		}
+
+		const project = await DatabaseService.findProjectById(params.id);
+		if (!project) {
+			return json({ error: 'Project not found' }, { status: 404 });
+		}
+		const access = await authorizeLoadedProject(project, locals.user.id, 'execute');
+		if ('error' in access) {
+			return json({ error: access.error }, { status: access.status });
+		}
+		if (!project.sandboxId) {
+			return json({ error: 'Project has no sandbox' }, { status: 409 });
+		}
+
+		const session = await terminalSessionService.create(project, locals.user.id, parsed.data);
+		return json({ session }, { status: 201 });
+	} catch (error) {
+		console.error('Failed to create terminal session:', error);
+		return json({ error: 'Failed to create terminal session' }, { status: 500 });
+	}
+};
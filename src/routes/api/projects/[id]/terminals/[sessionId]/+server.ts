@@ -0,0 +1,79 @@
+import { authorizeProject } from '$lib/services/access';
+import { terminalSessionService } from '$lib/services/terminal/terminal-session.service';
+import type { Project } from '$lib/types';
+import type { TerminalSessionRecord } from '$lib/types/terminal';
+import { json } from '@sveltejs/kit';
+import { z } from 'zod';
+import type { RequestHandler } from './$types';
+
+const renameSessionSchema = z.object({
+	name: z.string().trim().min(1).max(64)
+});
+
+async function loadSession(
+	projectId: string,
+	sessionId: string,
+	userId: string
+): Promise<
+	{ project: Project; session: TerminalSessionRecord } | { error: string; status: number }
+> {
+	const access = await authorizeProject(projectId, userId, 'execute');
+	if ('error' in access) {
+		return access;
+	}
+	const { project } = access;
+
+	const session = await terminalSessionService.get(sessionId);
+	if (!session || session.projectId !== project.id) {
+		return { error: 'Terminal session not found', status: 404 };
+	}
+	return { project, session };
+}
+
+// PATCH /api/projects/[id]/terminals/[sessionId] - Rename a terminal session { name }
+export const PATCH: RequestHandler = async ({ params, request, locals }) => {
+	try {
+		if (!locals.user) {
+			return json({ error: 'Unauthorized' }, { status: 401 });
+		}
+
+		const parsed = renameSessionSchema.safeParse(await request.json());
+		if (!parsed.success) {
+			return json(
+				{ error: 'Invalid terminal session', details: parsed.error.issues },
+				{ status: 400 }
+			);
+		}
+
+		const target = await loadSession(params.id, params.sessionId, locals.user.id);
+		if ('error' in target) {
+			return json({ error: target.error }, { status: target.status });
+		}
+
+		const session = await terminalSessionService.rename(target.session.id, parsed.data.name);
+		return json({ session });
+	} catch (error) {
+		console.error('Failed to rename terminal session:', error);
+		return json({ error: 'Failed to rename terminal session' }, { status: 500 });
+	}
+};
+
+// DELETE /api/projects/[id]/terminals/[sessionId] - Stop the session's shell and forget it
+export const DELETE: RequestHandler = async ({ params, locals }) => {
+	try {
+		if (!locals.user) {
+			return json({ error: 'Unauthorized' }, { status: 401 });
+		}
+
+		const target = await loadSession(params.id, params.sessionId, locals.user.id);
+		if ('error' in target) {
+			return json({ error: target.error }, { status: target.status });
+		}
+
+		await terminalSessionService.remove(target.project, target.session);
+		return json({ success: true });
+	} catch (error) {
+		console.error('Failed to close terminal session:', error);
+		return json({ error: 'Failed to close terminal session' }, { status: 500 });
+	}
+};
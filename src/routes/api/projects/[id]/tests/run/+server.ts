@@ -0,0 +1,56 @@
+import { authorizeLoadedProject } from '$lib/services/access';
+import { DatabaseService } from '$lib/services/database.service';
+import { testService } from '$lib/services/testing';
+import { json } from '@sveltejs/kit';
+import { z } from 'zod';
+import type { RequestHandler } from './$types';
+
+const relativePath = z
+	.string()
+	.trim()
+	.min(1)
+	.max(1024)
+	.refine((path) => !path.startsWith('/') && !path.split('/').includes('..'), {
+		message: 'Path must stay inside the workspace'
+	});
+
+const runTestsSchema = z.object({
+	framework: z.enum(['vitest', 'jest', 'pytest']),
+	file: relativePath.optional(),
+	filter: z.string().min(1).max(2048).optional()
+});
+
+// POST /api/projects/[id]/tests/run - Run the suite, a file or one test { framework, file?, filter? }
+export const POST: RequestHandler = async ({ params, request, locals }) => {
+	try {
+		if (!locals.user) {
+			return json({ error: 'Unauthorized' }, { status: 401 });
+		}
+
+		const parsed = runTestsSchema.safeParse(await request.json());
+		if (!parsed.success) {
+			return json({ error: 'Invalid test run', details: parsed.error.issues }, { status: 400 });
+		}
+		if (parsed.data.filter && !parsed.data.file) {
+			return json({ error: 'A single test needs its file' }, { status: 400 });
+		}
+
+		const project = await DatabaseService.findProjectById(params.id);
+		if (!project) {
+			return json({ error: 'Project not found' }, { status: 404 });
+		}
+		const access = await authorizeLoadedProject(project, locals.user.id, 'execute');
+		if ('error' in access) {
+			return json({ error: access.error }, { status: access.status });
+		}
+		if (!project.sandboxId) {
+			return json({ error: 'Project has no sandbox' }, { status: 409 });
+		}
+
+		return json(await testService.run(project, parsed.data));
+	} catch (error) {
+		console.error('Failed to run tests:', error);
+		const message = error instanceof Error ? error.message : 'Failed to run tests';
+		return json({ error: message }, { status: 500 });
+	}
+};
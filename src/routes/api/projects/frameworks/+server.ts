@@ -1,7 +1,8 @@
 import { stackblitzTemplates, templateCategories } from '$lib/config/template.config.ts';
+import { SAVED_TEMPLATE_PREFIX, savedTemplateService } from '$lib/services/saved-templates';
 import { json, type RequestHandler } from '@sveltejs/kit';
 
-export const GET: RequestHandler = async () => {
+export const GET: RequestHandler = async ({ locals }) => {
 	try {
 		// Define available frameworks with their metadata
 		const frameworks = [
@@ -206,9 +207,36 @@ export const GET: RequestHandler = async () => {
 			);
 		}
 
+		// Templates saved from the user's projects and shared by their teams
+		let templates: Array<Record<string, unknown>> = [];
+		if (locals.user) {
+			try {
+				const saved = await savedTemplateService.listForUser(locals.user.id);
+				templates = saved.map((template) => ({
+					id: `${SAVED_TEMPLATE_PREFIX}${template.id}`,
+					templateId: `${SAVED_TEMPLATE_PREFIX}${template.id}`,
+					name: template.name,
+					description: template.description || `Saved from a ${template.framework} project`,
+					category: 'saved',
+					icon: template.framework,
+					framework: template.framework,
+					visibility: template.visibility,
+					owned: template.ownerId === locals.user?.id,
+					fileCount: template.fileCount,
+					tags: template.dependencies.slice(0, 8).map((dependency) => dependency.name),
+					postCreateCommands: template.postCreateCommands,
+					initialPrompt: template.initialPrompt,
+					updatedAt: template.updatedAt
+				}));
+			} catch (error) {
+				console.error('Error fetching saved templates:', error);
+			}
+		}
+
 		return json({
 			frameworks,
 			categories: categorizedFrameworks,
+			templates,
 			total: frameworks.length
 		});
 	} catch (error) {
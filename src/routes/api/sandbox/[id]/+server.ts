@@ -3,6 +3,7 @@
  * REST API endpoints for specific sandbox operations
  */
 
+import { authorizeSandbox } from '$lib/services/access';
 import { SandboxManager } from '$lib/services/sandbox/sandbox-manager';
 import { SandboxSessionService } from '$lib/services/session/sandbox-session.service';
 import type { RequestHandler } from '@sveltejs/kit';
@@ -37,9 +38,14 @@ export const GET: RequestHandler = async ({ params, locals }) => {
 		const sessionService = SandboxSessionService.getInstance();
 		const sandboxManager = SandboxManager.getInstance();
 
+		const access = await authorizeSandbox(sandboxId, user.id, 'view');
+		if ('error' in access) {
+			return json({ error: access.error }, { status: access.status });
+		}
+
 		// Get session by sandbox ID
 		const session = await sessionService.getSession(sandboxId);
-		if (!session || session.userId !== user.id) {
+		if (!session) {
 			return json({ error: 'Sandbox not found' }, { status: 404 });
 		}
 
@@ -85,9 +91,14 @@ export const PUT: RequestHandler = async ({ params, request, locals }) => {
 		const sessionService = SandboxSessionService.getInstance();
 		const sandboxManager = SandboxManager.getInstance();
 
+		const access = await authorizeSandbox(sandboxId, user.id, 'manage');
+		if ('error' in access) {
+			return json({ error: access.error }, { status: access.status });
+		}
+
 		// Get session by sandbox ID
 		const session = await sessionService.getSession(sandboxId);
-		if (!session || session.userId !== user.id) {
+		if (!session) {
 			return json({ error: 'Sandbox not found' }, { status: 404 });
 		}
 
@@ -145,9 +156,14 @@ export const DELETE: RequestHandler = async ({ params, locals }) => {
 
 		const sessionService = SandboxSessionService.getInstance();
 
+		const access = await authorizeSandbox(sandboxId, user.id, 'manage');
+		if ('error' in access) {
+			return json({ error: access.error }, { status: access.status });
+		}
+
 		// Get session by sandbox ID
 		const session = await sessionService.getSession(sandboxId);
-		if (!session || session.userId !== user.id) {
+		if (!session) {
 			return json({ error: 'Sandbox not found' }, { status: 404 });
 		}
 
@@ -3,6 +3,7 @@
  * REST API endpoints for sandbox actions (start, stop, restart)
  */
 
+import { authorizeSandbox } from '$lib/services/access';
 import { SandboxManager } from '$lib/services/sandbox/sandbox-manager';
 import { SandboxSessionService } from '$lib/services/session/sandbox-session.service';
 import type { RequestHandler } from '@sveltejs/kit';
@@ -40,9 +41,14 @@ export const POST: RequestHandler = async ({ params, request, locals }) => {
 		const sessionService = SandboxSessionService.getInstance();
 		const sandboxManager = SandboxManager.getInstance();
 
+		const access = await authorizeSandbox(sandboxId, user.id, 'execute');
+		if ('error' in access) {
+			return json({ error: access.error }, { status: access.status });
+		}
+
 		// Get session by sandbox ID
 		const session = await sessionService.getSession(sandboxId);
-		if (!session || session.userId !== user.id) {
+		if (!session) {
 			return json({ error: 'Sandbox not found' }, { status: 404 });
 		}
 
@@ -3,7 +3,7 @@
  * REST API endpoints for executing code and commands in sandbox
  */
 
-import { DatabaseService } from '$lib/services/database.service';
+import { authorizeSandbox } from '$lib/services/access';
 import { DaytonaService } from '$lib/services/sandbox/daytona.service';
 import type { RequestHandler } from '@sveltejs/kit';
 import { json } from '@sveltejs/kit';
@@ -42,11 +42,11 @@ export const POST: RequestHandler = async ({ params, request, locals, url }) =>
 
 		const executionType = url.searchParams.get('type') || 'command';
 
-		// Find project by sandbox ID to verify ownership
-		const project = await DatabaseService.findProjectBySandboxId(sandboxId);
-		if (!project || project.ownerId !== user.id) {
-			return json({ error: 'Sandbox not found or access denied' }, { status: 404 });
+		const access = await authorizeSandbox(sandboxId, user.id, 'execute');
+		if ('error' in access) {
+			return json({ error: access.error }, { status: access.status });
 		}
+		const { project } = access;
 
 		// Check if this is a Daytona sandbox
 		if (project.sandboxProvider !== 'daytona') {
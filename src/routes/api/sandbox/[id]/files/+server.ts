@@ -3,6 +3,7 @@
  * REST API endpoints for sandbox file operations
  */
 
+import { authorizeSandbox } from '$lib/services/access';
 import { SandboxManager } from '$lib/services/sandbox/sandbox-manager';
 import { SandboxSessionService } from '$lib/services/session/sandbox-session.service';
 import type { RequestHandler } from '@sveltejs/kit';
@@ -51,9 +52,14 @@ export const GET: RequestHandler = async ({ params, url, locals }) => {
 		const sessionService = SandboxSessionService.getInstance();
 		const sandboxManager = SandboxManager.getInstance();
 
+		const access = await authorizeSandbox(sandboxId, user.id, 'view');
+		if ('error' in access) {
+			return json({ error: access.error }, { status: access.status });
+		}
+
 		// Get session by sandbox ID
 		const session = await sessionService.getSession(sandboxId);
-		if (!session || session.userId !== user.id) {
+		if (!session) {
 			return json({ error: 'Sandbox not found' }, { status: 404 });
 		}
 
@@ -103,9 +109,14 @@ export const POST: RequestHandler = async ({ params, request, locals }) => {
 		const sessionService = SandboxSessionService.getInstance();
 		const sandboxManager = SandboxManager.getInstance();
 
+		const access = await authorizeSandbox(sandboxId, user.id, 'edit');
+		if ('error' in access) {
+			return json({ error: access.error }, { status: access.status });
+		}
+
 		// Get session by sandbox ID
 		const session = await sessionService.getSession(sandboxId);
-		if (!session || session.userId !== user.id) {
+		if (!session) {
 			return json({ error: 'Sandbox not found' }, { status: 404 });
 		}
 
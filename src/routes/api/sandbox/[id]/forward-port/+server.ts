@@ -3,6 +3,7 @@
  * REST API endpoints for forwarding ports from sandbox to external access
  */
 
+import { authorizeSandbox } from '$lib/services/access';
 import { DatabaseService } from '$lib/services/database.service';
 import { DaytonaService } from '$lib/services/sandbox/daytona.service';
 import { SandboxManager } from '$lib/services/sandbox/sandbox-manager';
@@ -46,11 +47,11 @@ export const POST: RequestHandler = async ({ params, request, locals }) => {
 
 		const sandboxManager = SandboxManager.getInstance();
 
-		// Find project by sandbox ID to verify ownership
-		const project = await DatabaseService.findProjectBySandboxId(sandboxId);
-		if (!project || project.ownerId !== user.id) {
-			return json({ error: 'Sandbox not found or access denied' }, { status: 404 });
+		const access = await authorizeSandbox(sandboxId, user.id, 'execute');
+		if ('error' in access) {
+			return json({ error: access.error }, { status: access.status });
 		}
+		const { project } = access;
 
 		console.log(`🔗 [PortForward] Forwarding port ${internalPort} for sandbox ${sandboxId}`, {
 			internalPort,
@@ -156,11 +157,11 @@ export const DELETE: RequestHandler = async ({ params, request, locals }) => {
 			return json({ error: 'Valid internal port is required (1-65535)' }, { status: 400 });
 		}
 
-		// Find project by sandbox ID to verify ownership
-		const project = await DatabaseService.findProjectBySandboxId(sandboxId);
-		if (!project || project.ownerId !== user.id) {
-			return json({ error: 'Sandbox not found or access denied' }, { status: 404 });
+		const access = await authorizeSandbox(sandboxId, user.id, 'execute');
+		if ('error' in access) {
+			return json({ error: access.error }, { status: access.status });
 		}
+		const { project } = access;
 
 		console.log(`🔗 [PortForward] Stopping port forward ${internalPort} for sandbox ${sandboxId}`, {
 			internalPort,
@@ -222,11 +223,11 @@ export const GET: RequestHandler = async ({ params, locals }) => {
 			return json({ error: 'Sandbox ID is required' }, { status: 400 });
 		}
 
-		// Find project by sandbox ID to verify ownership
-		const project = await DatabaseService.findProjectBySandboxId(sandboxId);
-		if (!project || project.ownerId !== user.id) {
-			return json({ error: 'Sandbox not found or access denied' }, { status: 404 });
+		const access = await authorizeSandbox(sandboxId, user.id, 'view');
+		if ('error' in access) {
+			return json({ error: access.error }, { status: access.status });
 		}
+		const { project } = access;
 
 		const forwardedPorts = project.metadata?.forwardedPorts || [];
 
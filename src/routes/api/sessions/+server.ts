@@ -0,0 +1,47 @@
+import { DatabaseService } from '$lib/services/database.service';
+import { SandboxSessionService } from '$lib/services/session/sandbox-session.service';
+import { terminalSessionService } from '$lib/services/terminal/terminal-session.service';
+import type { SessionsOverview } from '$lib/types/terminal';
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+
+const MAX_SANDBOX_SESSIONS = 50;
+
+// GET /api/sessions - The user's sandbox sessions and running terminal sessions
+export const GET: RequestHandler = async ({ locals }) => {
+	try {
+		if (!locals.user) {
+			return json({ error: 'Unauthorized' }, { status: 401 });
+		}
+
+		const userId = locals.user.id;
+		const [projects, sandboxSessions, terminals] = await Promise.all([
+			DatabaseService.findProjectsByUserId(userId, 200),
+			SandboxSessionService.getInstance().getUserSessions(userId, true),
+			terminalSessionService.listForUser(userId)
+		]);
+		const projectNames = new Map(projects.map((project) => [project.id, project.name]));
+
+		const overview: SessionsOverview = {
+			sandboxes: sandboxSessions.slice(0, MAX_SANDBOX_SESSIONS).map((session) => ({
+				id: session.id,
+				sandboxId: session.sandboxId,
+				projectId: session.projectId,
+				projectName: projectNames.get(session.projectId),
+				provider: session.provider,
+				status: session.status,
+				startedAt: session.start_time ?? session.created_at,
+				lastActivity: session.last_activity ?? session.updated_at
+			})),
+			terminals: terminals.map((session) => ({
+				...session,
+				projectName: projectNames.get(session.projectId)
+			}))
+		};
+
+		return json(overview);
+	} catch (error) {
+		console.error('Failed to list sessions:', error);
+		return json({ error: 'Failed to list sessions' }, { status: 500 });
+	}
+};
@@ -0,0 +1,18 @@
+import { savedTemplateService } from '$lib/services/saved-templates';
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+
+// GET /api/templates - Templates the user saved and team templates of their organizations
+export const GET: RequestHandler = async ({ locals }) => {
+	try {
+		if (!locals.user) {
+			return json({ error: 'Unauthorized' }, { status: 401 });
+		}
+
+		const templates = await savedTemplateService.listForUser(locals.user.id);
+		return json({ templates });
+	} catch (error) {
+		console.error('Failed to list saved templates:', error);
+		return json({ error: 'Failed to list saved templates' }, { status: 500 });
+	}
+};
@@ -0,0 +1,22 @@
+import { savedTemplateService } from '$lib/services/saved-templates';
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+
+// DELETE /api/templates/[id] - Delete a saved template
+export const DELETE: RequestHandler = async ({ params, locals }) => {
+	try {
+		if (!locals.user) {
+			return json({ error: 'Unauthorized' }, { status: 401 });
+		}
+
+		const result = await savedTemplateService.remove(params.id, locals.user.id);
+		if ('error' in result) {
+			return json({ error: result.error }, { status: result.status });
+		}
+
+		return json(result);
+	} catch (error) {
+		console.error('Failed to delete saved template:', error);
+		return json({ error: 'Failed to delete saved template' }, { status: 500 });
+	}
+};
@@ -1,4 +1,5 @@
 import { auth } from '$lib/auth';
+import { authorizeProject, authorizeSandbox } from '$lib/services/access';
 import { toolManager } from '$lib/services/tool-manager.service';
 import { json } from '@sveltejs/kit';
 import type { RequestHandler } from './$types';
@@ -62,6 +63,24 @@ export const POST: RequestHandler = async ({ request }) => {
 			);
 		}
 
+		// Tools read, write and run code in the sandbox and project they are handed, so the
+		// caller needs execute access to every one named in the context or the parameters
+		const denied = await authorizeToolTargets(session.user.id, [
+			{ sandboxId: context?.sandboxId, projectId: context?.projectId },
+			{ sandboxId: parameters.sandboxId, projectId: parameters.projectId }
+		]);
+		if (denied) {
+			console.log('❌ Authorization failed -', denied.error);
+			return json(
+				{
+					success: false,
+					message: denied.error,
+					error: denied.status === 404 ? 'NOT_FOUND' : 'FORBIDDEN'
+				},
+				{ status: denied.status }
+			);
+		}
+
 		// Prepare execution context
 		const executionContext = {
 			userId: session.user.id,
@@ -104,6 +123,23 @@ export const POST: RequestHandler = async ({ request }) => {
 	}
 };
 
+async function authorizeToolTargets(
+	userId: string,
+	targets: Array<{ sandboxId?: unknown; projectId?: unknown }>
+): Promise<{ error: string; status: number } | null> {
+	for (const { sandboxId, projectId } of targets) {
+		if (typeof sandboxId === 'string' && sandboxId) {
+			const access = await authorizeSandbox(sandboxId, userId, 'execute');
+			if ('error' in access) return access;
+		}
+		if (typeof projectId === 'string' && projectId) {
+			const access = await authorizeProject(projectId, userId, 'execute');
+			if ('error' in access) return access;
+		}
+	}
+	return null;
+}
+
 export const GET: RequestHandler = async ({ request }) => {
 	try {
 		// Authenticate user
@@ -1,4 +1,5 @@
 import { auth } from '$lib/auth';
+import { authorizeProject, authorizeSandbox } from '$lib/services/access';
 import { SandboxManager } from '$lib/services/sandbox/sandbox-manager';
 import { json } from '@sveltejs/kit';
 
@@ -19,6 +20,15 @@ export const POST = async ({ request, headers }: { request: Request; headers: He
 			return json({ success: false, message: 'paths array is required' }, { status: 400 });
 		}
 
+		if (sandboxId || projectId) {
+			const access = sandboxId
+				? await authorizeSandbox(sandboxId, session.user.id, 'view')
+				: await authorizeProject(projectId!, session.user.id, 'view');
+			if ('error' in access) {
+				return json({ success: false, message: access.error }, { status: access.status });
+			}
+		}
+
 		const sandboxManager = SandboxManager.getInstance();
 
 		// If sandboxId provided, use provider downloadFiles for efficiency
@@ -0,0 +1,47 @@
+import { authorizeProject } from '$lib/services/access';
+import { DatabaseService } from '$lib/services/database.service';
+import { buildUsageReport, getBudgetStatuses, toDate } from '$lib/services/usage-ledger.service';
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DEFAULT_RANGE_DAYS = 30;
+
+// GET /api/usage?projectId=&from=YYYY-MM-DD&to=YYYY-MM-DD - Token usage and cost report
+export const GET: RequestHandler = async ({ url, locals }) => {
+	try {
+		if (!locals.user) {
+			return json({ error: 'Unauthorized' }, { status: 401 });
+		}
+
+		const projectId = url.searchParams.get('projectId') || undefined;
+		const to = url.searchParams.get('to') || toDate(new Date());
+		const from =
+			url.searchParams.get('from') ||
+			toDate(new Date(Date.now() - (DEFAULT_RANGE_DAYS - 1) * 24 * 60 * 60 * 1000));
+
+		if (!DATE_PATTERN.test(from) || !DATE_PATTERN.test(to)) {
+			return json({ error: 'from and to must be YYYY-MM-DD dates' }, { status: 400 });
+		}
+
+		// Project owners see every user's usage in the project, others only their own
+		let userId: string | undefined = locals.user.id;
+		if (projectId) {
+			const access = await authorizeProject(projectId, locals.user.id, 'view');
+			if ('error' in access) {
+				return json({ error: access.error }, { status: access.status });
+			}
+			if (access.project.ownerId === locals.user.id) {
+				userId = undefined;
+			}
+		}
+
+		const aggregates = await DatabaseService.findDailyUsage({ userId, projectId, from, to });
+		const budgets = await getBudgetStatuses(locals.user.id, projectId);
+
+		return json({ ...buildUsageReport(aggregates, from, to), budgets });
+	} catch (error) {
+		console.error('Failed to fetch usage:', error);
+		return json({ error: 'Failed to fetch usage' }, { status: 500 });
+	}
+};
@@ -0,0 +1,120 @@
+import { authorizeOrganization, authorizeProject, organizationRole } from '$lib/services/access';
+import { DatabaseService } from '$lib/services/database.service';
+import { getBudgetStatuses } from '$lib/services/usage-ledger.service';
+import type { UsageBudgetScope } from '$lib/types/usage';
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+
+/**
+ * Resolve the budget target. User budgets are managed by the owners and admins of an
+ * organization the user belongs to, so members cannot lift their own limit; project
+ * budgets are managed by the project's owners.
+ */
+async function resolveScope(
+	target: { scope: unknown; projectId: unknown; userId: unknown; organizationId: unknown },
+	userId: string
+): Promise<{ scope: UsageBudgetScope; scopeId: string } | { error: string; status: number }> {
+	const { scope, projectId } = target;
+	if (scope === 'user') {
+		if (typeof target.userId !== 'string' || !target.userId) {
+			return { error: 'userId is required for user budgets', status: 400 };
+		}
+		if (typeof target.organizationId !== 'string' || !target.organizationId) {
+			return { error: 'organizationId is required for user budgets', status: 400 };
+		}
+
+		const access = await authorizeOrganization(target.organizationId, userId, true);
+		if ('error' in access) {
+			return access;
+		}
+		if (!organizationRole(access.organization, target.userId)) {
+			return { error: 'User is not a member of this organization', status: 404 };
+		}
+		return { scope, scopeId: target.userId };
+	}
+	if (scope !== 'project') {
+		return { error: 'scope must be "user" or "project"', status: 400 };
+	}
+	if (typeof projectId !== 'string' || !projectId) {
+		return { error: 'projectId is required for project budgets', status: 400 };
+	}
+
+	const access = await authorizeProject(projectId, userId, 'manage');
+	if ('error' in access) {
+		return access;
+	}
+	return { scope, scopeId: projectId };
+}
+
+// GET /api/usage/budgets?projectId= - Budgets that apply to the user and this month's spend
+export const GET: RequestHandler = async ({ url, locals }) => {
+	try {
+		if (!locals.user) {
+			return json({ error: 'Unauthorized' }, { status: 401 });
+		}
+
+		const projectId = url.searchParams.get('projectId') || undefined;
+		return json({ budgets: await getBudgetStatuses(locals.user.id, projectId) });
+	} catch (error) {
+		console.error('Failed to fetch usage budgets:', error);
+		return json({ error: 'Failed to fetch usage budgets' }, { status: 500 });
+	}
+};
+
+// PUT /api/usage/budgets - Set a monthly budget { scope, projectId?, userId?, organizationId?, monthlyLimit }
+export const PUT: RequestHandler = async ({ request, locals }) => {
+	try {
+		if (!locals.user) {
+			return json({ error: 'Unauthorized' }, { status: 401 });
+		}
+
+		const { monthlyLimit, ...body } = await request.json();
+		if (typeof monthlyLimit !== 'number' || !Number.isFinite(monthlyLimit) || monthlyLimit < 0) {
+			return json({ error: 'monthlyLimit must be a non-negative number' }, { status: 400 });
+		}
+
+		const target = await resolveScope(body, locals.user.id);
+		if ('error' in target) {
+			return json({ error: target.error }, { status: target.status });
+		}
+
+		const budget = await DatabaseService.upsertUsageBudget({
+			...target,
+			monthlyLimit,
+			createdBy: locals.user.id
+		});
+
+		return json({ budget });
+	} catch (error) {
+		console.error('Failed to update usage budget:', error);
+		return json({ error: 'Failed to update usage budget' }, { status: 500 });
+	}
+};
+
+// DELETE /api/usage/budgets?scope=&projectId=&userId=&organizationId= - Remove a monthly budget
+export const DELETE: RequestHandler = async ({ url, locals }) => {
+	try {
+		if (!locals.user) {
+			return json({ error: 'Unauthorized' }, { status: 401 });
+		}
+
+		const target = await resolveScope(
+			{
+				scope: url.searchParams.get('scope'),
+				projectId: url.searchParams.get('projectId'),
+				userId: url.searchParams.get('userId'),
+				organizationId: url.searchParams.get('organizationId')
+			},
+			locals.user.id
+		);
+		if ('error' in target) {
+			return json({ error: target.error }, { status: target.status });
+		}
+
+		const deleted = await DatabaseService.deleteUsageBudget(target.scope, target.scopeId);
+		return json({ success: deleted });
+	} catch (error) {
+		console.error('Failed to delete usage budget:', error);
+		return json({ error: 'Failed to delete usage budget' }, { status: 500 });
+	}
+};
@@ -0,0 +1,80 @@
+/**
+ * Usage Budget Route Tests
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const database = vi.hoisted(() => ({
+	findOrganizationById: vi.fn(),
+	upsertUsageBudget: vi.fn(async (budget) => budget),
+	deleteUsageBudget: vi.fn(async () => true)
+}));
+
+vi.mock('$lib/services/database.service', () => ({ DatabaseService: database }));
+
+const { DELETE, PUT } = await import('./+server');
+
+const organization = {
+	id: 'org-1',
+	ownerId: 'owner',
+	members: [
+		{ userId: 'admin', role: 'admin' },
+		{ userId: 'member', role: 'member' }
+	]
+};
+
+function put<T>(userId: string, body: Record<string, unknown>) {
+	return {
+		request: new Request('http://localhost/api/usage/budgets', {
+			method: 'PUT',
+			body: JSON.stringify(body)
+		}),
+		locals: { user: { id: userId } }
+	} as unknown as T;
+}
+
+function remove<T>(userId: string, query: string) {
+	return {
+		url: new URL(`http://localhost/api/usage/budgets?${query}`),
+		locals: { user: { id: userId } }
+	} as unknown as T;
+}
+
+describe('usage budget routes', () => {
+	beforeEach(() => {
+		database.findOrganizationById.mockReset().mockResolvedValue(organization);
+		database.upsertUsageBudget.mockClear();
+		database.deleteUsageBudget.mockClear();
+	});
+
+	it('should let organization admins set a member budget', async () => {
+		const response = await PUT(
+			put('admin', { scope: 'user', userId: 'member', organizationId: 'org-1', monthlyLimit: 5 })
+		);
+
+		expect(response.status).toBe(200);
+		expect(database.upsertUsageBudget).toHaveBeenCalledWith(
+			expect.objectContaining({ scope: 'user', scopeId: 'member', monthlyLimit: 5 })
+		);
+	});
+
+	it('should not let members change or remove their own budget', async () => {
+		const updated = await PUT(
+			put('member', { scope: 'user', userId: 'member', organizationId: 'org-1', monthlyLimit: 500 })
+		);
+		const removed = await DELETE(remove('member', 'scope=user&userId=member&organizationId=org-1'));
+
+		expect(updated.status).toBe(403);
+		expect(removed.status).toBe(403);
+		expect(database.upsertUsageBudget).not.toHaveBeenCalled();
+		expect(database.deleteUsageBudget).not.toHaveBeenCalled();
+	});
+
+	it('should only set budgets for members of the organization', async () => {
+		const response = await PUT(
+			put('admin', { scope: 'user', userId: 'outsider', organizationId: 'org-1', monthlyLimit: 5 })
+		);
+
+		expect(response.status).toBe(404);
+	});
+});
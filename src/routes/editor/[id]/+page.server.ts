@@ -1,3 +1,4 @@
+import { authorizeLoadedProject } from '$lib/services/access';
 import { DatabaseService } from '$lib/services/database.service.js';
 import { logger } from '$lib/utils/logger.js';
 import { error, redirect } from '@sveltejs/kit';
@@ -30,9 +31,10 @@ export const load: PageServerLoad = async ({ params, cookies, locals, url }) =>
 			throw error(404, 'Project not found');
 		}
 
-		// Check if user owns the project
-		if (project.ownerId !== locals.session.user.id) {
-			throw error(403, 'Access denied');
+		// Check that the project is shared with the user
+		const access = await authorizeLoadedProject(project, locals.session.user.id, 'view');
+		if ('error' in access) {
+			throw error(access.status, access.error);
 		}
 
 		// Convert project to serializable format (remove MongoDB ObjectId and other non-serializable fields)
@@ -65,6 +67,7 @@ export const load: PageServerLoad = async ({ params, cookies, locals, url }) =>
 				layout,
 				verticalLayout,
 				user: locals.session!.user,
+				role: access.role,
 				recentMessages: [],
 				projectFiles: [],
 				isInitializing: true
@@ -131,6 +134,7 @@ export const load: PageServerLoad = async ({ params, cookies, locals, url }) =>
 			layout,
 			verticalLayout,
 			user: locals.session!.user,
+			role: access.role,
 			projectFiles: [], // Files will be loaded client-side
 			isInitializing: false
 		};
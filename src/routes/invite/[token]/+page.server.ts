@@ -0,0 +1,15 @@
+import { membershipService } from '$lib/services/access';
+import { redirect } from '@sveltejs/kit';
+import type { PageServerLoad } from './$types';
+
+export const load: PageServerLoad = async ({ params, locals }) => {
+	// Send visitors through login and back to the invitation
+	if (!locals.session?.user?.id) {
+		throw redirect(302, `/auth/login?redirect=/invite/${params.token}`);
+	}
+
+	return {
+		token: params.token,
+		invitation: await membershipService.preview(params.token)
+	};
+};
@@ -1,10 +1,49 @@
 import devtoolsJson from 'vite-plugin-devtools-json';
 import tailwindcss from '@tailwindcss/vite';
 import { sveltekit } from '@sveltejs/kit/vite';
-import { defineConfig } from 'vite';
+import type { IncomingMessage, Server } from 'node:http';
+import type { Duplex } from 'node:stream';
+import { defineConfig, type Plugin } from 'vite';
+
+type SocketUpgradeHandler = (
+	request: IncomingMessage,
+	socket: Duplex,
+	head: Buffer
+) => Promise<boolean>;
+
+/**
+ * Hand WebSocket upgrades under /api to the routes published by hooks.server.ts
+ * (see src/lib/services/websocket); `server.js` does the same in production.
+ */
+function apiWebSockets(): Plugin {
+	const key = Symbol.for('aura.socket-upgrade');
+	const handler = () =>
+		(globalThis as Record<symbol, unknown>)[key] as SocketUpgradeHandler | undefined;
+
+	function attach(httpServer: Server | null | undefined, loadHooks?: () => Promise<unknown>) {
+		httpServer?.on('upgrade', async (request: IncomingMessage, socket: Duplex, head: Buffer) => {
+			if (!request.url?.startsWith('/api/')) return;
+			if (!handler() && loadHooks) await loadHooks();
+			const handled = await handler()?.(request, socket, head);
+			if (!handled) socket.destroy();
+		});
+	}
+
+	return {
+		name: 'aura-api-websockets',
+		configureServer(server) {
+			attach(server.httpServer as Server | null, () =>
+				server.ssrLoadModule('/src/hooks.server.ts')
+			);
+		},
+		configurePreviewServer(server) {
+			attach(server.httpServer as Server);
+		}
+	};
+}
 
 export default defineConfig({
-	plugins: [tailwindcss(), sveltekit(), devtoolsJson()],
+	plugins: [tailwindcss(), sveltekit(), devtoolsJson(), apiWebSockets()],
 	optimizeDeps: {
 		exclude: [
 			'codemirror',